@@ -35,6 +35,7 @@ ALTER TABLE "public"."leads" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."leads_rate_limits" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."member_cap_join_requests" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."memberships" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."notification_events" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."notification_preferences" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."notification_sends" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."outreach_event_logs" ENABLE ROW LEVEL SECURITY;
@@ -55,6 +56,7 @@ ALTER TABLE "public"."recipient_preference_snapshots" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."recipient_snapshots" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."reserved_usernames" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."revenuecat_event_processing" ENABLE ROW LEVEL SECURITY;
+ALTER TABLE "public"."revenuecat_subscriber_checks" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."revenuecat_webhook_events" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."rewrite_jobs" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."rewrite_outputs" ENABLE ROW LEVEL SECURITY;
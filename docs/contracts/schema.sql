@@ -228,7 +228,9 @@ ALTER TYPE "public"."revenuecat_processing_status" OWNER TO "postgres";
 
 CREATE TYPE "public"."subscription_status" AS ENUM (
     'active',
-    'cancelled',
+    'cancelled_pending_expiry',
+    'in_grace',
+    'on_hold',
     'expired',
     'inactive'
 );
@@ -504,6 +506,31 @@ $$;
 ALTER FUNCTION "public"."_cron_call_complaint_trigger_runner"() OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."_cron_call_rewrite_worker"() RETURNS "void"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+declare
+  v_url text := current_setting('app.settings.supabase_url', true)
+    || '/functions/v1/rewrite_worker';
+  v_secret text := current_setting('app.settings.worker_shared_secret', true);
+begin
+  perform net.http_post(
+    url := v_url,
+    headers := jsonb_strip_nulls(jsonb_build_object(
+      'Content-Type','application/json',
+      'x-internal-secret', v_secret,
+      'x-worker-id', 'cron_rewrite_worker'
+    )),
+    body := '{}'::jsonb
+  );
+end;
+$$;
+
+
+ALTER FUNCTION "public"."_cron_call_rewrite_worker"() OWNER TO "postgres";
+
+
 CREATE OR REPLACE FUNCTION "public"."_current_user_id"() RETURNS "uuid"
     LANGUAGE "sql" STABLE
     SET "search_path" TO ''
@@ -1353,7 +1380,7 @@ BEGIN
       updated_at = now()
   WHERE user_id = _user_id
     AND home_id IS NULL
-    AND status IN ('active', 'cancelled');
+    AND status IN ('active', 'in_grace', 'on_hold', 'cancelled_pending_expiry');
 
   -- We rely on the trigger to call home_entitlements_refresh(_home_id)
 END;
@@ -1373,7 +1400,7 @@ BEGIN
       updated_at = now()
   WHERE user_id = _user_id
     AND home_id = _home_id
-    AND status IN ('active', 'cancelled');
+    AND status IN ('active', 'in_grace', 'on_hold', 'cancelled_pending_expiry');
 
   -- trigger on user_subscriptions will call home_entitlements_refresh(v_home_id)
 END;
@@ -1816,6 +1843,53 @@ $$;
 ALTER FUNCTION "public"."_member_cap_resolve_requests"("p_home_id" "uuid", "p_reason" "text", "p_request_ids" "uuid"[], "p_payload" "jsonb") OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."_notification_display_name"("p_user_id" "uuid") RETURNS "text"
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  -- Never fall back to email: the name ends up on a lock screen
+  SELECT NULLIF(btrim(COALESCE(p.username, p.full_name)), '')
+  FROM public.profiles p
+  WHERE p.id = p_user_id;
+$$;
+
+
+ALTER FUNCTION "public"."_notification_display_name"("p_user_id" "uuid") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."_notification_event_enqueue"("p_kind" "text", "p_recipient" "uuid", "p_home_id" "uuid", "p_actor" "uuid", "p_payload" "jsonb", "p_dedupe_key" "text") RETURNS "void"
+    LANGUAGE "sql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  INSERT INTO public.notification_events (
+    kind, recipient_user_id, home_id, actor_user_id, payload, dedupe_key
+  )
+  SELECT p_kind, p_recipient, p_home_id, p_actor, COALESCE(p_payload, '{}'::jsonb), p_dedupe_key
+  -- Nobody is pushed about their own action
+  WHERE p_recipient IS NOT NULL
+    AND p_recipient IS DISTINCT FROM p_actor
+  ON CONFLICT (dedupe_key) DO NOTHING;
+$$;
+
+
+ALTER FUNCTION "public"."_notification_event_enqueue"("p_kind" "text", "p_recipient" "uuid", "p_home_id" "uuid", "p_actor" "uuid", "p_payload" "jsonb", "p_dedupe_key" "text") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."_notifications_in_quiet_hours"("p_time" time without time zone, "p_start" time without time zone, "p_end" time without time zone) RETURNS boolean
+    LANGUAGE "sql" IMMUTABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT CASE
+    WHEN p_start < p_end THEN p_time >= p_start AND p_time < p_end
+    -- Wraps midnight, e.g. 22:00 -> 07:00
+    ELSE p_time >= p_start OR p_time < p_end
+  END;
+$$;
+
+
+ALTER FUNCTION "public"."_notifications_in_quiet_hours"("p_time" time without time zone, "p_start" time without time zone, "p_end" time without time zone) OWNER TO "postgres";
+
+
 CREATE OR REPLACE FUNCTION "public"."_outreach_aliases_protect_unknown"() RETURNS "trigger"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
@@ -2199,6 +2273,26 @@ $$;
 ALTER FUNCTION "public"."_shopping_list_get_or_create_active"("p_home_id" "uuid") OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."_subscription_transition_allowed"("p_from" "public"."subscription_status", "p_to" "public"."subscription_status") RETURNS boolean
+    LANGUAGE "sql" IMMUTABLE
+    SET "search_path" TO ''
+    AS $$
+  SELECT CASE
+    WHEN p_from IS NULL OR p_from = 'inactive' OR p_to = 'inactive' THEN TRUE
+    WHEN p_from IN ('active', 'in_grace') THEN TRUE
+    -- Past the paid period: a late cancellation must not reopen access
+    WHEN p_from = 'on_hold' THEN p_to IN ('active', 'on_hold', 'expired')
+    -- Auto-renew is off, so no billing retries until the user resubscribes
+    WHEN p_from = 'cancelled_pending_expiry' THEN p_to IN ('active', 'cancelled_pending_expiry', 'expired')
+    WHEN p_from = 'expired' THEN p_to IN ('active', 'expired')
+    ELSE TRUE
+  END;
+$$;
+
+
+ALTER FUNCTION "public"."_subscription_transition_allowed"("p_from" "public"."subscription_status", "p_to" "public"."subscription_status") OWNER TO "postgres";
+
+
 CREATE OR REPLACE FUNCTION "public"."_touch_updated_at"() RETURNS "trigger"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
@@ -3549,6 +3643,7 @@ begin
       and (j.not_before_at is null or j.not_before_at <= now())
       and j.provider_batch_id is null
       and j.submitted_at is null
+      and coalesce(j.routing_decision->>'execution_mode', 'batch') <> 'realtime'
     order by j.created_at asc
     for update skip locked
     limit p_limit
@@ -3572,6 +3667,53 @@ $$;
 ALTER FUNCTION "public"."claim_rewrite_jobs_for_batch_submit_v1"("p_limit" integer) OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."claim_rewrite_jobs_for_realtime_v1"("p_limit" integer DEFAULT 10) RETURNS TABLE("job_id" "uuid", "rewrite_request_id" "uuid", "recipient_user_id" "uuid", "routing_decision" "jsonb")
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+declare
+  worker_id text := coalesce(
+    nullif(current_setting('request.headers.x-worker-id', true), ''),
+    'rewrite_worker'
+  );
+begin
+  return query
+  with cte as (
+    select j.job_id
+    from public.rewrite_jobs j
+    where j.status = 'queued'
+      and (j.not_before_at is null or j.not_before_at <= now())
+      and j.routing_decision->>'execution_mode' = 'realtime'
+    order by j.created_at asc
+    for update skip locked
+    limit greatest(coalesce(p_limit, 10), 0)
+  ),
+  claimed as (
+    update public.rewrite_jobs j
+       set status = 'processing',
+           claimed_at = now(),
+           claimed_by = worker_id,
+           attempt_count = j.attempt_count + 1,
+           updated_at = now()
+    from cte
+    where j.job_id = cte.job_id
+    returning j.job_id, j.rewrite_request_id, j.recipient_user_id, j.routing_decision
+  ),
+  mark_req as (
+    update public.rewrite_requests r
+       set status = 'processing',
+           updated_at = now()
+     where r.rewrite_request_id in (select c.rewrite_request_id from claimed c)
+       and r.status = 'queued'
+  )
+  select * from claimed;
+end;
+$$;
+
+
+ALTER FUNCTION "public"."claim_rewrite_jobs_for_realtime_v1"("p_limit" integer) OWNER TO "postgres";
+
+
 CREATE OR REPLACE FUNCTION "public"."complaint_build_recipient_snapshots"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_recipient_user_id" "uuid", "p_preference_payload" "jsonb") RETURNS "jsonb"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
@@ -3731,19 +3873,22 @@ $$;
 ALTER FUNCTION "public"."complaint_context_build"("p_recipient_user_id" "uuid", "p_recipient_preference_snapshot_id" "uuid", "p_topics" "text"[], "p_target_language" "text", "p_power_mode" "text") OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."complaint_fetch_entry_locales"("p_entry_id" "uuid", "p_recipient_user_id" "uuid") RETURNS TABLE("original_text" "text", "recipient_locale" "text", "home_id" "uuid", "author_user_id" "uuid", "recipient_user_id" "uuid")
+CREATE OR REPLACE FUNCTION "public"."complaint_fetch_entry_locales"("p_entry_id" "uuid", "p_recipient_user_id" "uuid") RETURNS TABLE("original_text" "text", "recipient_locale" "text", "sender_locale" "text", "home_id" "uuid", "author_user_id" "uuid", "recipient_user_id" "uuid")
     LANGUAGE "sql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
   select
     coalesce(hme.comment, '') as original_text,
     coalesce(lower(split_part(np.locale, '-', 1)), 'en') as recipient_locale,
+    nullif(lower(split_part(nps.locale, '-', 1)), '') as sender_locale,
     hme.home_id as home_id,
     hme.user_id as author_user_id,
     p_recipient_user_id as recipient_user_id
   from public.home_mood_entries hme
   left join public.notification_preferences np
     on np.user_id = p_recipient_user_id
+  left join public.notification_preferences nps
+    on nps.user_id = hme.user_id
   where hme.id = p_entry_id;
 $$;
 
@@ -3931,6 +4076,94 @@ $$;
 ALTER FUNCTION "public"."complaint_rewrite_enqueue"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_sender_user_id" "uuid", "p_recipient_user_id" "uuid", "p_surface" "text", "p_original_text" "text", "p_rewrite_request" "jsonb", "p_classifier_result" "jsonb", "p_context_pack" "jsonb", "p_source_locale" "text", "p_target_locale" "text", "p_lane" "text", "p_topics" "jsonb", "p_intent" "text", "p_rewrite_strength" "text", "p_classifier_version" "text", "p_context_pack_version" "text", "p_policy_version" "text", "p_routing_decision" "jsonb", "p_language_pair" "jsonb", "p_preference_payload" "jsonb", "p_max_attempts" integer) OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_enqueue_recipients_v1"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_sender_user_id" "uuid", "p_surface" "text", "p_original_text" "text", "p_classifier_result" "jsonb", "p_source_locale" "text", "p_topics" "jsonb", "p_intent" "text", "p_rewrite_strength" "text", "p_classifier_version" "text", "p_context_pack_version" "text", "p_policy_version" "text", "p_recipients" "jsonb") RETURNS "jsonb"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+declare
+  v_recipient jsonb;
+  v_recipient_user_id uuid;
+  v_result jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_inserted_request boolean := false;
+begin
+  perform public.api_assert(
+    jsonb_typeof(p_recipients) = 'array'
+      and jsonb_array_length(p_recipients) between 1 and 8,
+    'INVALID_RECIPIENTS', 'recipients must be an array of 1..8 items.', '22023'
+  );
+  perform public.api_assert(
+    (select count(distinct e->>'recipient_user_id') from jsonb_array_elements(p_recipients) e)
+      = jsonb_array_length(p_recipients),
+    'DUPLICATE_RECIPIENT', 'recipients must be distinct.', '22023'
+  );
+
+  for v_recipient in select e from jsonb_array_elements(p_recipients) e loop
+    v_recipient_user_id := (v_recipient->>'recipient_user_id')::uuid;
+
+    v_result := public.complaint_rewrite_enqueue(
+      p_rewrite_request_id,
+      p_home_id,
+      p_sender_user_id,
+      v_recipient_user_id,
+      p_surface,
+      p_original_text,
+      v_recipient->'rewrite_request',
+      p_classifier_result,
+      v_recipient->'context_pack',
+      p_source_locale,
+      v_recipient->>'target_locale',
+      v_recipient->>'lane',
+      p_topics,
+      p_intent,
+      p_rewrite_strength,
+      p_classifier_version,
+      p_context_pack_version,
+      p_policy_version,
+      v_recipient->'routing_decision',
+      v_recipient->'language_pair',
+      v_recipient->'preference_payload',
+      coalesce((v_recipient->>'max_attempts')::int, 2)
+    );
+
+    v_inserted_request := v_inserted_request or (v_result->>'inserted_request')::boolean;
+
+    -- Per-recipient blob: only set on the insert that created the job
+    update public.rewrite_jobs j
+       set target_locale = v_recipient->>'target_locale',
+           rewrite_request = v_recipient->'rewrite_request',
+           updated_at = now()
+     where j.job_id = (v_result->>'job_id')::uuid
+       and j.rewrite_request is null;
+
+    v_results := v_results || jsonb_build_array(
+      v_result || jsonb_build_object('recipient_user_id', v_recipient_user_id)
+    );
+  end loop;
+
+  -- Target snapshot lists every recipient of this request
+  update public.recipient_snapshots rs
+     set recipient_user_ids = (
+       select array_agg(distinct u)
+       from unnest(
+         rs.recipient_user_ids
+         || array(select (e->>'recipient_user_id')::uuid from jsonb_array_elements(p_recipients) e)
+       ) u
+     )
+   where rs.rewrite_request_id = p_rewrite_request_id;
+
+  return jsonb_build_object(
+    'rewrite_request_id', p_rewrite_request_id,
+    'inserted_request', v_inserted_request,
+    'recipients', v_results
+  );
+end;
+$$;
+
+
+ALTER FUNCTION "public"."complaint_rewrite_enqueue_recipients_v1"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_sender_user_id" "uuid", "p_surface" "text", "p_original_text" "text", "p_classifier_result" "jsonb", "p_source_locale" "text", "p_topics" "jsonb", "p_intent" "text", "p_rewrite_strength" "text", "p_classifier_version" "text", "p_context_pack_version" "text", "p_policy_version" "text", "p_recipients" "jsonb") OWNER TO "postgres";
+
+
 CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_job_fail_or_requeue"("p_job_id" "uuid", "p_error" "text", "p_backoff_seconds" integer DEFAULT 600) RETURNS "void"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
@@ -3962,6 +4195,8 @@ begin
           not_before_at=now() + make_interval(secs => v_backoff),
           last_error=left(coalesce(p_error,'unknown'),512),
           last_error_at=now(),
+          provider_batch_id=null,
+          submitted_at=null,
           updated_at=now()
     where job_id=p_job_id;
   end if;
@@ -3972,6 +4207,231 @@ $$;
 ALTER FUNCTION "public"."complaint_rewrite_job_fail_or_requeue"("p_job_id" "uuid", "p_error" "text", "p_backoff_seconds" integer) OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_ops_list_v1"("p_kind" "text", "p_status" "text", "p_stuck_after_seconds" integer DEFAULT 0, "p_limit" integer DEFAULT 50) RETURNS "jsonb"
+    LANGUAGE "plpgsql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+declare
+  v_before timestamptz := now() - make_interval(secs => greatest(coalesce(p_stuck_after_seconds, 0), 0));
+  v_limit int := greatest(1, least(coalesce(p_limit, 50), 200));
+  v_rows jsonb;
+begin
+  perform public.api_assert(
+    p_kind in ('triggers', 'jobs', 'batches'),
+    'INVALID_KIND', 'kind must be triggers, jobs or batches.', '22023'
+  );
+  perform public.api_assert(
+    case p_kind
+      when 'triggers' then p_status in ('queued','processing','completed','failed','canceled')
+      when 'jobs' then p_status in ('queued','processing','batch_submitted','completed','failed','canceled')
+      else p_status in ('submitted','running','completed','failed','canceled')
+    end,
+    'INVALID_STATUS', 'status is not valid for this kind.', '22023'
+  );
+
+  if p_kind = 'triggers' then
+    select coalesce(jsonb_agg(x.item order by x.updated_at), '[]'::jsonb)
+      into v_rows
+    from (
+      select t.updated_at, jsonb_build_object(
+               'entry_id', t.entry_id,
+               'home_id', t.home_id,
+               'status', t.status,
+               'request_id', t.request_id,
+               'attempts', t.attempts,
+               'note', t.note,
+               'error', t.error,
+               'retry_after', t.retry_after,
+               'processing_started_at', t.processing_started_at,
+               'updated_at', t.updated_at
+             ) as item
+      from public.complaint_rewrite_triggers t
+      where t.status = p_status
+        and t.updated_at <= v_before
+      order by t.updated_at
+      limit v_limit
+    ) x;
+  elsif p_kind = 'jobs' then
+    select coalesce(jsonb_agg(x.item order by x.updated_at), '[]'::jsonb)
+      into v_rows
+    from (
+      select j.updated_at, jsonb_build_object(
+               'job_id', j.job_id,
+               'rewrite_request_id', j.rewrite_request_id,
+               'recipient_user_id', j.recipient_user_id,
+               'status', j.status,
+               'execution_mode', j.routing_decision->>'execution_mode',
+               'provider', j.routing_decision->>'provider',
+               'attempt_count', j.attempt_count,
+               'max_attempts', j.max_attempts,
+               'not_before_at', j.not_before_at,
+               'last_error', j.last_error,
+               'provider_batch_id', j.provider_batch_id,
+               'updated_at', j.updated_at
+             ) as item
+      from public.rewrite_jobs j
+      where j.status = p_status
+        and j.updated_at <= v_before
+      order by j.updated_at
+      limit v_limit
+    ) x;
+  else
+    select coalesce(jsonb_agg(x.item order by x.updated_at), '[]'::jsonb)
+      into v_rows
+    from (
+      select b.updated_at, jsonb_build_object(
+               'provider_batch_id', b.provider_batch_id,
+               'provider', b.provider,
+               'adapter_kind', b.adapter_kind,
+               'status', b.status,
+               'job_count', b.job_count,
+               'output_file_id', b.output_file_id,
+               'error_file_id', b.error_file_id,
+               'last_checked_at', b.last_checked_at,
+               'updated_at', b.updated_at
+             ) as item
+      from public.rewrite_provider_batches b
+      where b.status = p_status
+        and b.updated_at <= v_before
+      order by b.updated_at
+      limit v_limit
+    ) x;
+  end if;
+
+  return jsonb_build_object('kind', p_kind, 'status', p_status, 'items', v_rows);
+end;
+$$;
+
+
+ALTER FUNCTION "public"."complaint_rewrite_ops_list_v1"("p_kind" "text", "p_status" "text", "p_stuck_after_seconds" integer, "p_limit" integer) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_ops_trace_v1"("p_entry_id" "uuid") RETURNS "jsonb"
+    LANGUAGE "plpgsql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+declare
+  v_trigger jsonb;
+  v_request jsonb;
+  v_jobs jsonb;
+  v_batches jsonb;
+  v_outputs jsonb;
+begin
+  perform public.api_assert(p_entry_id is not null, 'INVALID_ENTRY', 'entry_id required.', '22023');
+
+  select jsonb_build_object(
+           'status', t.status,
+           'request_id', t.request_id,
+           'attempts', t.attempts,
+           'note', t.note,
+           'error', t.error,
+           'retry_after', t.retry_after,
+           'last_attempt_at', t.last_attempt_at,
+           'last_error_at', t.last_error_at,
+           'processing_started_at', t.processing_started_at,
+           'processed_at', t.processed_at,
+           'created_at', t.created_at,
+           'updated_at', t.updated_at
+         )
+    into v_trigger
+  from public.complaint_rewrite_triggers t
+  where t.entry_id = p_entry_id;
+
+  -- rewrite_request_id = entry_id (orchestrator idempotency key)
+  select jsonb_build_object(
+           'status', r.status,
+           'surface', r.surface,
+           'source_locale', r.source_locale,
+           'target_locale', r.target_locale,
+           'lane', r.lane,
+           'topics', r.topics,
+           'intent', r.intent,
+           'rewrite_strength', r.rewrite_strength,
+           'classifier_version', r.classifier_version,
+           'context_pack_version', r.context_pack_version,
+           'policy_version', r.policy_version,
+           'rewrite_completed_at', r.rewrite_completed_at,
+           'created_at', r.created_at,
+           'updated_at', r.updated_at
+         )
+    into v_request
+  from public.rewrite_requests r
+  where r.rewrite_request_id = p_entry_id;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'job_id', j.job_id,
+           'recipient_user_id', j.recipient_user_id,
+           'status', j.status,
+           'target_locale', j.target_locale,
+           'lane', j.lane,
+           'execution_mode', j.routing_decision->>'execution_mode',
+           'provider', j.routing_decision->>'provider',
+           'model', j.routing_decision->>'model',
+           'attempt_count', j.attempt_count,
+           'max_attempts', j.max_attempts,
+           'not_before_at', j.not_before_at,
+           'last_error', j.last_error,
+           'last_error_at', j.last_error_at,
+           'provider_batch_id', j.provider_batch_id,
+           'submitted_at', j.submitted_at,
+           'created_at', j.created_at,
+           'updated_at', j.updated_at
+         ) order by j.created_at, j.job_id), '[]'::jsonb)
+    into v_jobs
+  from public.rewrite_jobs j
+  where j.rewrite_request_id = p_entry_id;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'provider_batch_id', b.provider_batch_id,
+           'provider', b.provider,
+           'adapter_kind', b.adapter_kind,
+           'status', b.status,
+           'job_count', b.job_count,
+           'output_file_id', b.output_file_id,
+           'error_file_id', b.error_file_id,
+           'last_checked_at', b.last_checked_at,
+           'created_at', b.created_at,
+           'updated_at', b.updated_at
+         ) order by b.created_at), '[]'::jsonb)
+    into v_batches
+  from public.rewrite_provider_batches b
+  where b.provider_batch_id in (
+    select j.provider_batch_id
+    from public.rewrite_jobs j
+    where j.rewrite_request_id = p_entry_id
+      and j.provider_batch_id is not null
+  );
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'recipient_user_id', o.recipient_user_id,
+           'output_language', o.output_language,
+           'target_locale', o.target_locale,
+           'provider', o.provider,
+           'model', o.model,
+           'prompt_version', o.prompt_version,
+           'lexicon_version', o.lexicon_version,
+           'eval_result', o.eval_result,
+           'created_at', o.created_at
+         ) order by o.created_at), '[]'::jsonb)
+    into v_outputs
+  from public.rewrite_outputs o
+  where o.rewrite_request_id = p_entry_id;
+
+  return jsonb_build_object(
+    'entry_id', p_entry_id,
+    'trigger', v_trigger,
+    'rewrite_request', v_request,
+    'jobs', v_jobs,
+    'provider_batches', v_batches,
+    'outputs', v_outputs
+  );
+end;
+$$;
+
+
+ALTER FUNCTION "public"."complaint_rewrite_ops_trace_v1"("p_entry_id" "uuid") OWNER TO "postgres";
+
+
 CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_request_exists"("p_rewrite_request_id" "uuid") RETURNS boolean
     LANGUAGE "sql" STABLE SECURITY DEFINER
     SET "search_path" TO ''
@@ -3987,21 +4447,82 @@ $$;
 ALTER FUNCTION "public"."complaint_rewrite_request_exists"("p_rewrite_request_id" "uuid") OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid") RETURNS TABLE("rewrite_request" "jsonb", "target_locale" "text", "policy_version" "text")
+CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid", "p_recipient_user_id" "uuid" DEFAULT NULL::"uuid") RETURNS TABLE("rewrite_request" "jsonb", "target_locale" "text", "policy_version" "text")
     LANGUAGE "sql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
   select
-    r.rewrite_request,
-    r.target_locale,
+    coalesce(j.rewrite_request, r.rewrite_request),
+    coalesce(j.target_locale, r.target_locale),
     r.policy_version
   from public.rewrite_requests r
+  left join public.rewrite_jobs j
+    on j.rewrite_request_id = r.rewrite_request_id
+   and j.recipient_user_id = p_recipient_user_id
   where r.rewrite_request_id = p_rewrite_request_id
   limit 1;
 $$;
 
 
-ALTER FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid") OWNER TO "postgres";
+ALTER FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid", "p_recipient_user_id" "uuid") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_request_finalize_v1"("p_rewrite_request_id" "uuid") RETURNS "jsonb"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+declare
+  v_total int;
+  v_non_terminal int;
+  v_any_failed boolean;
+  v_status text;
+begin
+  select
+    count(*),
+    count(*) filter (where j.status in ('queued','processing','batch_submitted')),
+    coalesce(bool_or(j.status in ('failed','canceled')), false)
+    into v_total, v_non_terminal, v_any_failed
+  from public.rewrite_jobs j
+  where j.rewrite_request_id = p_rewrite_request_id;
+
+  if v_total = 0 or v_non_terminal > 0 then
+    select r.status into v_status
+      from public.rewrite_requests r
+     where r.rewrite_request_id = p_rewrite_request_id;
+
+    return jsonb_build_object(
+      'rewrite_request_id', p_rewrite_request_id,
+      'status', v_status,
+      'finalized', false,
+      'pending_jobs', v_non_terminal
+    );
+  end if;
+
+  update public.rewrite_requests r
+     set status = case when v_any_failed then 'failed' else 'completed' end,
+         rewrite_completed_at = coalesce(r.rewrite_completed_at, now()),
+         updated_at = now()
+   where r.rewrite_request_id = p_rewrite_request_id
+     and r.status in ('queued','processing')
+  returning r.status into v_status;
+
+  if v_status is null then
+    select r.status into v_status
+      from public.rewrite_requests r
+     where r.rewrite_request_id = p_rewrite_request_id;
+  end if;
+
+  return jsonb_build_object(
+    'rewrite_request_id', p_rewrite_request_id,
+    'status', v_status,
+    'finalized', true,
+    'pending_jobs', 0
+  );
+end;
+$$;
+
+
+ALTER FUNCTION "public"."complaint_rewrite_request_finalize_v1"("p_rewrite_request_id" "uuid") OWNER TO "postgres";
 
 
 CREATE OR REPLACE FUNCTION "public"."complaint_rewrite_route"("p_surface" "text", "p_lane" "text", "p_rewrite_strength" "text") RETURNS "jsonb"
@@ -4348,7 +4869,7 @@ $$;
 ALTER FUNCTION "public"."complaint_trigger_notify"() OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."complaint_trigger_pop_pending"("p_limit" integer DEFAULT 20, "p_max_attempts" integer DEFAULT 10) RETURNS TABLE("entry_id" "uuid", "home_id" "uuid", "author_user_id" "uuid", "recipient_user_id" "uuid", "request_id" "uuid")
+CREATE OR REPLACE FUNCTION "public"."complaint_trigger_pop_pending"("p_limit" integer DEFAULT 20, "p_max_attempts" integer DEFAULT 10) RETURNS TABLE("entry_id" "uuid", "home_id" "uuid", "author_user_id" "uuid", "recipient_user_id" "uuid", "request_id" "uuid", "attempts" integer)
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
@@ -4376,7 +4897,7 @@ begin
          processed_at = null
     from cte
    where t.entry_id = cte.entry_id
-  returning t.entry_id, t.home_id, t.author_user_id, t.recipient_user_id, t.request_id;
+  returning t.entry_id, t.home_id, t.author_user_id, t.recipient_user_id, t.request_id, t.attempts;
 end;
 $$;
 
@@ -4665,6 +5186,156 @@ $$;
 ALTER FUNCTION "public"."expense_plans_terminate"("p_plan_id" "uuid") OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."expense_reminders_candidates"("p_limit" integer DEFAULT 200, "p_after_user_id" "uuid" DEFAULT NULL::"uuid", "p_lookahead_days" integer DEFAULT 3, "p_lookback_days" integer DEFAULT 56) RETURNS TABLE("user_id" "uuid", "locale" "text", "local_date" "date", "home_id" "uuid", "expense_id" "uuid", "plan_id" "uuid", "description" "text", "amount_cents" bigint, "payer_name" "text", "due_date" "date", "created_local_date" "date")
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  WITH debtors AS MATERIALIZED (
+    SELECT
+      np.user_id,
+      np.locale,
+      np.timezone,
+      timezone(np.timezone, now())::date AS local_date
+    FROM public.notification_preferences np
+    WHERE np.os_permission = 'allowed'
+      AND NOT ('expense_reminder' = ANY (np.disabled_kinds))
+      AND (p_after_user_id IS NULL OR np.user_id > p_after_user_id)
+      -- Reminders go out around the user's chosen notification time, not at midnight
+      AND timezone(np.timezone, now())::time
+          >= make_time(np.preferred_hour, np.preferred_minute, 0)
+  ),
+  reminders AS (
+    SELECT
+      d.user_id,
+      d.locale,
+      d.local_date,
+      e.home_id,
+      e.id                 AS expense_id,
+      e.plan_id,
+      e.description,
+      s.amount_cents,
+      public._notification_display_name(e.created_by_user_id) AS payer_name,
+      e.start_date         AS due_date,
+      timezone(d.timezone, e.created_at)::date AS created_local_date
+    FROM debtors d
+    JOIN public.expense_splits s
+      ON s.debtor_user_id = d.user_id
+     AND s.status = 'unpaid'
+    JOIN public.expenses e
+      ON e.id = s.expense_id
+     AND e.status = 'active'
+    JOIN public.homes h
+      ON h.id = e.home_id
+     AND h.is_active = TRUE
+    WHERE e.created_by_user_id <> d.user_id
+      AND e.start_date >= d.local_date - COALESCE(p_lookback_days, 56)
+      AND e.start_date <= d.local_date + COALESCE(p_lookahead_days, 3)
+
+    UNION ALL
+
+    -- Upcoming cycle of a recurring plan (its expense does not exist yet)
+    SELECT
+      d.user_id,
+      d.locale,
+      d.local_date,
+      p.home_id,
+      NULL::uuid,
+      p.id,
+      p.description,
+      pd.share_amount_cents,
+      public._notification_display_name(p.created_by_user_id),
+      p.next_cycle_date,
+      NULL::date
+    FROM debtors d
+    JOIN public.expense_plan_debtors pd
+      ON pd.debtor_user_id = d.user_id
+    JOIN public.expense_plans p
+      ON p.id = pd.plan_id
+     AND p.status = 'active'
+    JOIN public.homes h
+      ON h.id = p.home_id
+     AND h.is_active = TRUE
+    WHERE p.created_by_user_id <> d.user_id
+      AND p.next_cycle_date > d.local_date
+      AND p.next_cycle_date <= d.local_date + COALESCE(p_lookahead_days, 3)
+  ),
+  page_users AS (
+    SELECT DISTINCT r.user_id
+    FROM reminders r
+    ORDER BY r.user_id
+    LIMIT COALESCE(p_limit, 200)
+  )
+  SELECT
+    r.user_id,
+    r.locale,
+    r.local_date,
+    r.home_id,
+    r.expense_id,
+    r.plan_id,
+    r.description,
+    r.amount_cents,
+    r.payer_name,
+    r.due_date,
+    r.created_local_date
+  FROM reminders r
+  JOIN page_users pu
+    ON pu.user_id = r.user_id
+  ORDER BY r.user_id, r.due_date, r.expense_id, r.plan_id;
+$$;
+
+
+ALTER FUNCTION "public"."expense_reminders_candidates"("p_limit" integer, "p_after_user_id" "uuid", "p_lookahead_days" integer, "p_lookback_days" integer) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."expense_reminders_enqueue"("p_reminders" "jsonb") RETURNS integer
+    LANGUAGE "sql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  WITH input AS (
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(p_reminders, '[]'::jsonb)) AS r(
+      user_id      uuid,
+      home_id      uuid,
+      expense_id   uuid,
+      plan_id      uuid,
+      reminder_key text,
+      payload      jsonb
+    )
+    WHERE r.user_id IS NOT NULL
+      AND NULLIF(btrim(r.reminder_key), '') IS NOT NULL
+  ),
+  inserted AS (
+    INSERT INTO public.notification_events (
+      kind, recipient_user_id, home_id, payload, dedupe_key
+    )
+    SELECT
+      'expense_reminder',
+      i.user_id,
+      i.home_id,
+      COALESCE(i.payload, '{}'::jsonb),
+      format('expense_reminder:%s:%s', i.user_id, i.reminder_key)
+    FROM input i
+    WHERE i.expense_id IS NULL
+       OR EXISTS (
+         SELECT 1
+         FROM public.expense_splits s
+         JOIN public.expenses e
+           ON e.id = s.expense_id
+         WHERE s.expense_id = i.expense_id
+           AND s.debtor_user_id = i.user_id
+           AND s.status = 'unpaid'
+           AND e.status = 'active'
+       )
+    ON CONFLICT (dedupe_key) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*)::int FROM inserted;
+$$;
+
+
+ALTER FUNCTION "public"."expense_reminders_enqueue"("p_reminders" "jsonb") OWNER TO "postgres";
+
+
 CREATE OR REPLACE FUNCTION "public"."expenses_cancel"("p_expense_id" "uuid") RETURNS "public"."expenses"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
@@ -7470,18 +8141,26 @@ DECLARE
   v_has_valid  boolean;
   v_latest_exp timestamptz;
 BEGIN
+  -- Funding rows and the date each funds until (in_grace: end of the grace period)
+  WITH funding AS (
+    SELECT CASE
+             WHEN us.status = 'in_grace' THEN us.grace_until_at
+             ELSE us.current_period_end_at
+           END AS funded_until,
+           us.status
+    FROM public.user_subscriptions us
+    WHERE us.home_id = _home_id
+      AND us.status IN ('active', 'in_grace', 'cancelled_pending_expiry')
+  )
   SELECT
     EXISTS (
       SELECT 1
-        FROM public.user_subscriptions us
-       WHERE us.home_id = _home_id
-         AND us.status IN ('active', 'cancelled')
-         AND (us.current_period_end_at IS NULL OR us.current_period_end_at > now())
-    ) AS has_valid_subscription,
-    MAX(us.current_period_end_at) AS latest_expiry
-  INTO v_has_valid, v_latest_exp
-  FROM public.user_subscriptions us
-  WHERE us.home_id = _home_id;
+      FROM funding f
+      WHERE (f.funded_until IS NULL AND f.status <> 'in_grace')
+         OR f.funded_until > now()
+    ),
+    (SELECT MAX(f.funded_until) FROM funding f)
+  INTO v_has_valid, v_latest_exp;
 
   INSERT INTO public.home_entitlements AS he (home_id, plan, expires_at)
   VALUES (
@@ -8615,13 +9294,160 @@ $$;
 ALTER FUNCTION "public"."house_pulse_compute_week"("p_home_id" "uuid", "p_iso_week_year" integer, "p_iso_week" integer, "p_contract_version" "text") OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."house_pulse_label_get_v1"("p_pulse_state" "public"."house_pulse_state", "p_contract_version" "text" DEFAULT 'v1'::"text") RETURNS TABLE("contract_version" "text", "pulse_state" "public"."house_pulse_state", "title_key" "text", "summary_key" "text", "image_key" "text", "ui" "jsonb")
-    LANGUAGE "plpgsql" SECURITY DEFINER
+CREATE OR REPLACE FUNCTION "public"."house_pulse_digest_homes"("p_after_home_id" "uuid" DEFAULT NULL::"uuid", "p_limit" integer DEFAULT 100) RETURNS TABLE("home_id" "uuid")
+    LANGUAGE "sql" STABLE SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
-BEGIN
-  PERFORM public._assert_authenticated();
-
+  SELECT h.id
+  FROM public.homes h
+  WHERE h.is_active = TRUE
+    AND (p_after_home_id IS NULL OR h.id > p_after_home_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.memberships m
+      WHERE m.home_id = h.id
+        AND m.is_current = TRUE
+    )
+  ORDER BY h.id
+  LIMIT COALESCE(p_limit, 100);
+$$;
+
+
+ALTER FUNCTION "public"."house_pulse_digest_homes"("p_after_home_id" "uuid", "p_limit" integer) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."house_pulse_digest_prepare"("p_home_id" "uuid", "p_iso_week_year" integer DEFAULT NULL::integer, "p_iso_week" integer DEFAULT NULL::integer, "p_dry_run" boolean DEFAULT false) RETURNS "jsonb"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_prev_sub      text := current_setting('request.jwt.claim.sub', true);
+  v_iso_week_year integer;
+  v_iso_week      integer;
+  v_member        uuid;
+  v_row           public.house_pulse_weekly;
+  v_label         public.house_pulse_labels;
+  v_recipients    jsonb := '[]'::jsonb;
+BEGIN
+  SELECT
+    COALESCE(p_iso_week_year, w.iso_week_year),
+    COALESCE(p_iso_week, w.iso_week)
+  INTO v_iso_week_year, v_iso_week
+  FROM public._iso_week_utc(now()) w;
+
+  SELECT m.user_id
+  INTO v_member
+  FROM public.memberships m
+  JOIN public.homes h
+    ON h.id = m.home_id
+  WHERE m.home_id = p_home_id
+    AND m.is_current = TRUE
+    AND h.is_active = TRUE
+  ORDER BY m.user_id
+  LIMIT 1;
+
+  IF v_member IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Impersonate a member: house_pulse_compute_week relies on auth.uid()
+  PERFORM set_config('request.jwt.claim.sub', v_member::text, true);
+  v_row := public.house_pulse_compute_week(p_home_id, v_iso_week_year, v_iso_week, 'v1');
+  -- Restore previous sub claim (best-effort)
+  PERFORM set_config('request.jwt.claim.sub', COALESCE(v_prev_sub, ''), true);
+
+  SELECT l.*
+  INTO v_label
+  FROM public.house_pulse_labels l
+  WHERE l.contract_version = v_row.contract_version
+    AND l.pulse_state = v_row.pulse_state
+    AND l.is_active = TRUE;
+
+  IF v_row.pulse_state <> 'forming' THEN
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'user_id',      m.user_id,
+          'locale',       np.locale,
+          'display_name', public._notification_display_name(m.user_id),
+          'email',        u.email
+        )
+        ORDER BY m.user_id
+      ),
+      '[]'::jsonb
+    )
+    INTO v_recipients
+    FROM public.memberships m
+    LEFT JOIN public.notification_preferences np
+      ON np.user_id = m.user_id
+    LEFT JOIN auth.users u
+      ON u.id = m.user_id
+    WHERE m.home_id = p_home_id
+      AND m.is_current = TRUE
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.house_pulse_reads r
+        WHERE r.home_id = p_home_id
+          AND r.user_id = m.user_id
+          AND r.iso_week_year = v_row.iso_week_year
+          AND r.iso_week = v_row.iso_week
+          AND r.contract_version = v_row.contract_version
+      );
+
+    IF NOT COALESCE(p_dry_run, FALSE) THEN
+      -- Same dedupe key as the old trigger: one push per member per week, however often this runs
+      PERFORM public._notification_event_enqueue(
+        'house_pulse_weekly',
+        (r->>'user_id')::uuid,
+        p_home_id,
+        NULL,
+        jsonb_build_object(
+          'iso_week_year', v_row.iso_week_year,
+          'iso_week',      v_row.iso_week,
+          'pulse_state',   v_row.pulse_state
+        ),
+        format(
+          'house_pulse_weekly:%s:%s-W%s:%s',
+          p_home_id, v_row.iso_week_year, v_row.iso_week, r->>'user_id'
+        )
+      )
+      FROM jsonb_array_elements(v_recipients) r;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'home_id',            p_home_id,
+    'iso_week_year',      v_row.iso_week_year,
+    'iso_week',           v_row.iso_week,
+    'contract_version',   v_row.contract_version,
+    'pulse_state',        v_row.pulse_state,
+    'weather_display',    v_row.weather_display,
+    'member_count',       v_row.member_count,
+    'reflection_count',   v_row.reflection_count,
+    'care_present',       v_row.care_present,
+    'friction_present',   v_row.friction_present,
+    'complexity_present', v_row.complexity_present,
+    'label', jsonb_build_object(
+      'title_key',   v_label.title_key,
+      'summary_key', v_label.summary_key,
+      'image_key',   v_label.image_key
+    ),
+    'recipients', v_recipients
+  );
+END;
+$$;
+
+
+ALTER FUNCTION "public"."house_pulse_digest_prepare"("p_home_id" "uuid", "p_iso_week_year" integer, "p_iso_week" integer, "p_dry_run" boolean) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."house_pulse_label_get_v1"("p_pulse_state" "public"."house_pulse_state", "p_contract_version" "text" DEFAULT 'v1'::"text") RETURNS TABLE("contract_version" "text", "pulse_state" "public"."house_pulse_state", "title_key" "text", "summary_key" "text", "image_key" "text", "ui" "jsonb")
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+BEGIN
+  PERFORM public._assert_authenticated();
+
   PERFORM public.api_assert(
     p_pulse_state IS NOT NULL,
     'INVALID_ARGUMENT',
@@ -10737,205 +11563,976 @@ COMMENT ON FUNCTION "public"."mood_submit_v2"("p_home_id" "uuid", "p_mood" "publ
 
 
 
-CREATE OR REPLACE FUNCTION "public"."notifications_daily_candidates"("p_limit" integer DEFAULT 200, "p_offset" integer DEFAULT 0) RETURNS TABLE("user_id" "uuid", "locale" "text", "timezone" "text", "token_id" "uuid", "token" "text", "local_date" "date")
-    LANGUAGE "sql" SECURITY DEFINER
+CREATE OR REPLACE FUNCTION "public"."notification_events_chore_assigned_trigger"() RETURNS "trigger"
+    LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
-  WITH eligible_users AS (
-    SELECT
-      np.user_id,
-      np.locale,
-      np.timezone,
-      ln.local_now::date AS local_date
-    FROM public.notification_preferences np
-    CROSS JOIN LATERAL (
-      SELECT timezone(np.timezone, now()) AS local_now
-    ) ln
-    WHERE np.wants_daily = TRUE
-      AND np.os_permission = 'allowed'
-      AND ln.local_now >=
-        date_trunc('day', ln.local_now)
-        + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
-      AND ln.local_now <=
-        date_trunc('day', ln.local_now)
-        + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
-        + interval '15 minutes'
-      AND (
-        np.last_sent_local_date IS NULL
-        OR np.last_sent_local_date < ln.local_now::date
-      )
-      AND public.today_has_content(
-        np.user_id,
-        np.timezone,
-        ln.local_now::date
-      ) = TRUE
-  ),
-  eligible_tokens AS (
-    SELECT
-      eu.user_id,
-      eu.locale,
-      eu.timezone,
-      dt.id   AS token_id,
-      dt.token,
-      eu.local_date
-    FROM eligible_users eu
-    JOIN public.device_tokens dt
-      ON dt.user_id = eu.user_id
-    WHERE dt.status = 'active'
-  )
-  SELECT
-    user_id,
-    locale,
-    timezone,
-    token_id,
-    token,
-    local_date
-  FROM eligible_tokens
-  ORDER BY user_id
-  LIMIT COALESCE(p_limit, 200)
-  OFFSET COALESCE(p_offset, 0);
-$$;
+DECLARE
+  v_actor uuid := COALESCE(auth.uid(), NEW.created_by_user_id);
+BEGIN
+  IF NEW.state <> 'active' OR NEW.assignee_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
 
+  IF TG_OP = 'UPDATE'
+     AND OLD.state = 'active'
+     AND OLD.assignee_user_id IS NOT DISTINCT FROM NEW.assignee_user_id THEN
+    RETURN NEW;
+  END IF;
 
-ALTER FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_offset" integer) OWNER TO "postgres";
+  PERFORM public._notification_event_enqueue(
+    'chore_assigned',
+    NEW.assignee_user_id,
+    NEW.home_id,
+    v_actor,
+    jsonb_build_object(
+      'chore_id',   NEW.id,
+      'chore_name', NEW.name,
+      'actor_name', public._notification_display_name(v_actor)
+    ),
+    format('chore_assigned:%s:%s', NEW.id, NEW.assignee_user_id)
+  );
 
+  RETURN NEW;
+END;
+$$;
 
-COMMENT ON FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_offset" integer) IS 'Paged list of users + tokens eligible for the daily notification window.';
 
+ALTER FUNCTION "public"."notification_events_chore_assigned_trigger"() OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."notifications_mark_send_success"("p_send_id" "uuid", "p_user_id" "uuid", "p_local_date" "date") RETURNS "void"
+CREATE OR REPLACE FUNCTION "public"."notification_events_expense_owed_trigger"() RETURNS "trigger"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
+DECLARE
+  v_expense public.expenses;
 BEGIN
-  UPDATE public.notification_sends
-  SET status    = 'sent',
-      sent_at   = now(),
-      updated_at = now()
-  WHERE id = p_send_id;
+  IF NEW.status <> 'unpaid' THEN
+    RETURN NEW;
+  END IF;
 
-  UPDATE public.notification_preferences
-  SET last_sent_local_date = p_local_date,
-      updated_at           = now()
-  WHERE user_id = p_user_id;
+  SELECT * INTO v_expense
+  FROM public.expenses e
+  WHERE e.id = NEW.expense_id;
+
+  IF v_expense.id IS NULL OR v_expense.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public._notification_event_enqueue(
+    'expense_owed',
+    NEW.debtor_user_id,
+    v_expense.home_id,
+    v_expense.created_by_user_id,
+    jsonb_build_object(
+      'expense_id',   v_expense.id,
+      'description',  v_expense.description,
+      'amount_cents', NEW.amount_cents,
+      'payer_name',   public._notification_display_name(v_expense.created_by_user_id)
+    ),
+    format('expense_owed:%s:%s', v_expense.id, NEW.debtor_user_id)
+  );
+
+  RETURN NEW;
 END;
 $$;
 
 
-ALTER FUNCTION "public"."notifications_mark_send_success"("p_send_id" "uuid", "p_user_id" "uuid", "p_local_date" "date") OWNER TO "postgres";
+ALTER FUNCTION "public"."notification_events_expense_owed_trigger"() OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."notifications_mark_token_status"("p_token_id" "uuid", "p_status" "text") RETURNS "void"
+CREATE OR REPLACE FUNCTION "public"."notification_events_expense_settled_trigger"() RETURNS "trigger"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
 BEGIN
-  UPDATE public.device_tokens
-  SET status    = p_status,
-      updated_at = now()
-  WHERE id = p_token_id;
+  UPDATE public.notification_events ev
+     SET status       = 'skipped',
+         error        = 'settled',
+         processed_at = now()
+   WHERE ev.kind = 'expense_reminder'
+     AND ev.status = 'pending'
+     AND ev.recipient_user_id = NEW.debtor_user_id
+     AND ev.payload->>'expense_id' = NEW.expense_id::text;
+
+  RETURN NEW;
 END;
 $$;
 
 
-ALTER FUNCTION "public"."notifications_mark_token_status"("p_token_id" "uuid", "p_status" "text") OWNER TO "postgres";
+ALTER FUNCTION "public"."notification_events_expense_settled_trigger"() OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text") RETURNS "uuid"
+CREATE OR REPLACE FUNCTION "public"."notification_events_gratitude_mention_trigger"() RETURNS "trigger"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
 DECLARE
-  v_id uuid;
+  v_author uuid;
 BEGIN
-  IF p_token_id IS NULL THEN
-    RAISE EXCEPTION 'TOKEN_REQUIRED';
-  END IF;
+  SELECT p.author_user_id INTO v_author
+  FROM public.gratitude_wall_posts p
+  WHERE p.id = NEW.post_id;
 
-  INSERT INTO public.notification_sends (
-    user_id,
-    token_id,
-    local_date,
-    job_run_id,
-    status,
-    reserved_at
-  )
-  VALUES (
-    p_user_id,
-    p_token_id,
-    p_local_date,
-    p_job_run_id,
-    'reserved',
-    now()
-  )
-  ON CONFLICT (token_id, local_date) DO NOTHING
-  RETURNING id INTO v_id;
+  PERFORM public._notification_event_enqueue(
+    'gratitude_mention',
+    NEW.mentioned_user_id,
+    NEW.home_id,
+    v_author,
+    jsonb_build_object(
+      'post_id',     NEW.post_id,
+      'author_name', public._notification_display_name(v_author)
+    ),
+    format('gratitude_mention:%s:%s', NEW.post_id, NEW.mentioned_user_id)
+  );
 
-  RETURN v_id;
+  RETURN NEW;
 END;
 $$;
 
 
-ALTER FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text") OWNER TO "postgres";
+ALTER FUNCTION "public"."notification_events_gratitude_mention_trigger"() OWNER TO "postgres";
 
 
-CREATE TABLE IF NOT EXISTS "public"."notification_preferences" (
-    "user_id" "uuid" NOT NULL,
-    "wants_daily" boolean DEFAULT false NOT NULL,
-    "preferred_hour" integer DEFAULT 9 NOT NULL,
-    "timezone" "text" NOT NULL,
-    "locale" "text" NOT NULL,
-    "os_permission" "text" DEFAULT 'unknown'::"text" NOT NULL,
-    "last_os_sync_at" timestamp with time zone,
-    "last_sent_local_date" "date",
-    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
-    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
-    "preferred_minute" integer DEFAULT 0 NOT NULL,
-    CONSTRAINT "chk_notification_preferences_preferred_minute" CHECK ((("preferred_minute" >= 0) AND ("preferred_minute" < 60)))
-);
+CREATE OR REPLACE FUNCTION "public"."notification_events_subscription_status_trigger"() RETURNS "trigger"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_previous   public.subscription_status;
+  v_home_owner uuid;
+  v_until      timestamptz;
+  v_period     text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_previous := OLD.status;
+  END IF;
 
+  IF NEW.status = 'active' THEN
+    IF v_previous IS NULL OR v_previous NOT IN ('in_grace', 'on_hold') THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.status NOT IN ('in_grace', 'on_hold', 'cancelled_pending_expiry', 'expired') THEN
+    RETURN NEW;
+  END IF;
 
-ALTER TABLE "public"."notification_preferences" OWNER TO "postgres";
+  SELECT h.owner_user_id INTO v_home_owner
+  FROM public.homes h
+  WHERE h.id = NEW.home_id;
+
+  v_until := CASE NEW.status
+               WHEN 'in_grace' THEN NEW.grace_until_at
+               WHEN 'cancelled_pending_expiry' THEN NEW.current_period_end_at
+             END;
+  v_period := COALESCE(extract(epoch FROM NEW.current_period_end_at)::bigint::text, 'open');
+
+  PERFORM public._notification_event_enqueue(
+    'subscription_status',
+    NEW.user_id,
+    NEW.home_id,
+    NULL,
+    jsonb_build_object(
+      'status',          NEW.status,
+      'previous_status', v_previous,
+      'until',           v_until,
+      'audience',        'subscriber'
+    ),
+    format('subscription_status:%s:%s:%s:%s', NEW.id, NEW.status, v_period, NEW.user_id)
+  );
+
+  IF v_home_owner IS DISTINCT FROM NEW.user_id THEN
+    PERFORM public._notification_event_enqueue(
+      'subscription_status',
+      v_home_owner,
+      NEW.home_id,
+      NULL,
+      jsonb_build_object(
+        'status',          NEW.status,
+        'previous_status', v_previous,
+        'until',           v_until,
+        'audience',        'home_owner'
+      ),
+      format('subscription_status:%s:%s:%s:%s', NEW.id, NEW.status, v_period, v_home_owner)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notification_events_subscription_status_trigger"() OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean DEFAULT NULL::boolean, "p_preferred_hour" integer DEFAULT NULL::integer, "p_preferred_minute" integer DEFAULT NULL::integer) RETURNS "public"."notification_preferences"
+CREATE OR REPLACE FUNCTION "public"."notification_sends_snapshot_trigger"() RETURNS "trigger"
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
 DECLARE
-  v_user_id     uuid := auth.uid();
-  v_current     public.notification_preferences;
-  v_effective_wants_daily      boolean;
-  v_effective_preferred_hour   integer;
-  v_effective_preferred_minute integer;
-  v_should_upsert boolean;
-  v_max_active_per_platform integer := 2;
+  v_pref public.notification_preferences;
 BEGIN
-  PERFORM public._assert_authenticated();
-  IF v_user_id IS NULL THEN
-    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  IF TG_OP = 'UPDATE' AND NOT (NEW.status = 'sent' AND OLD.status IS DISTINCT FROM 'sent') THEN
+    RETURN NEW;
   END IF;
 
   SELECT *
-  INTO v_current
-  FROM public.notification_preferences
-  WHERE user_id = v_user_id;
+    INTO v_pref
+    FROM public.notification_preferences
+   WHERE user_id = NEW.user_id;
 
-  v_effective_wants_daily :=
-    COALESCE(
-      p_wants_daily,
-      v_current.wants_daily,
-      (p_os_permission = 'allowed')
-    );
+  IF v_pref.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
 
-  -- Force off when OS is blocked/unknown so UI toggle mirrors system status
-  IF p_os_permission IS DISTINCT FROM 'allowed' THEN
-    v_effective_wants_daily := FALSE;
+  IF TG_OP = 'INSERT' THEN
+    NEW.locale := COALESCE(NEW.locale, v_pref.locale);
   END IF;
+  NEW.local_send_hour := date_part('hour', timezone(v_pref.timezone, now()))::smallint;
 
-  v_effective_preferred_hour :=
-    COALESCE(
+  RETURN NEW;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notification_sends_snapshot_trigger"() OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_claim_send_retries"("p_job_run_id" "text", "p_limit" integer DEFAULT 200, "p_max_attempts" integer DEFAULT 4, "p_shard_index" integer DEFAULT 0, "p_shard_count" integer DEFAULT 1) RETURNS TABLE("send_id" "uuid", "user_id" "uuid", "locale" "text", "timezone" "text", "token_id" "uuid", "token" "text", "provider" "text", "platform" "text", "local_date" "date", "content" "jsonb", "attempts" integer)
+    LANGUAGE "sql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  -- Retries that can never go out today are final
+  WITH stale AS (
+    SELECT ns.id
+    FROM public.notification_sends ns
+    LEFT JOIN public.notification_preferences np
+      ON np.user_id = ns.user_id
+    LEFT JOIN public.device_tokens dt
+      ON dt.id = ns.token_id
+    WHERE ns.status = 'failed'
+      AND ns.next_retry_at IS NOT NULL
+      AND (
+        np.user_id IS NULL
+        OR np.wants_daily IS NOT TRUE
+        OR np.os_permission <> 'allowed'
+        OR dt.status IS DISTINCT FROM 'active'
+        OR ns.attempts >= COALESCE(p_max_attempts, 4)
+        OR ns.local_date < timezone(np.timezone, now())::date
+      )
+  )
+  UPDATE public.notification_sends ns
+     SET next_retry_at = NULL,
+         updated_at    = now()
+    FROM stale
+   WHERE ns.id = stale.id;
+
+  WITH picked AS (
+    SELECT ns.id
+    FROM public.notification_sends ns
+    JOIN public.notification_preferences np
+      ON np.user_id = ns.user_id
+    JOIN public.device_tokens dt
+      ON dt.id = ns.token_id
+    WHERE ns.status = 'failed'
+      AND ns.event_id IS NULL
+      AND ns.next_retry_at <= now()
+      AND dt.status = 'active'
+      AND (
+        COALESCE(p_shard_count, 1) <= 1
+        OR mod(hashtext(ns.user_id::text)::bigint + 2147483648, p_shard_count)
+           = COALESCE(p_shard_index, 0)
+      )
+      -- Quiet hours hold the retry (it stays queued) rather than dropping it
+      AND NOT (
+        np.quiet_hours_start IS NOT NULL
+        AND np.quiet_hours_end IS NOT NULL
+        AND public._notifications_in_quiet_hours(
+          timezone(np.timezone, now())::time,
+          np.quiet_hours_start,
+          np.quiet_hours_end
+        )
+      )
+    ORDER BY ns.next_retry_at
+    LIMIT COALESCE(p_limit, 200)
+    FOR UPDATE OF ns SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE public.notification_sends ns
+       SET status        = 'reserved',
+           attempts      = ns.attempts + 1,
+           next_retry_at = NULL,
+           job_run_id    = p_job_run_id,
+           reserved_at   = now(),
+           updated_at    = now()
+      FROM picked
+     WHERE ns.id = picked.id
+    RETURNING ns.id, ns.user_id, ns.token_id, ns.local_date, ns.attempts
+  )
+  SELECT
+    c.id,
+    c.user_id,
+    np.locale,
+    np.timezone,
+    c.token_id,
+    dt.token,
+    dt.provider,
+    dt.platform,
+    c.local_date,
+    public.today_content_summary(c.user_id, np.timezone, c.local_date),
+    c.attempts
+  FROM claimed c
+  JOIN public.notification_preferences np
+    ON np.user_id = c.user_id
+  JOIN public.device_tokens dt
+    ON dt.id = c.token_id;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_claim_send_retries"("p_job_run_id" "text", "p_limit" integer, "p_max_attempts" integer, "p_shard_index" integer, "p_shard_count" integer) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_daily_candidates"("p_limit" integer DEFAULT 200, "p_after_user_id" "uuid" DEFAULT NULL::"uuid", "p_after_token_id" "uuid" DEFAULT NULL::"uuid", "p_cap_window_hours" integer DEFAULT 24, "p_shard_index" integer DEFAULT 0, "p_shard_count" integer DEFAULT 1) RETURNS TABLE("user_id" "uuid", "locale" "text", "timezone" "text", "token_id" "uuid", "token" "text", "provider" "text", "platform" "text", "local_date" "date", "content" "jsonb", "recent_sends" integer)
+    LANGUAGE "sql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  WITH eligible_users AS MATERIALIZED (
+    SELECT
+      np.user_id,
+      np.locale,
+      np.timezone,
+      ln.local_now::date AS local_date
+    FROM public.notification_preferences np
+    CROSS JOIN LATERAL (
+      SELECT timezone(np.timezone, now()) AS local_now
+    ) ln
+    WHERE np.wants_daily = TRUE
+      AND np.os_permission = 'allowed'
+      -- Keyset: skip users fully handled by earlier pages before the content check
+      AND (p_after_user_id IS NULL OR np.user_id >= p_after_user_id)
+      AND (
+        COALESCE(p_shard_count, 1) <= 1
+        OR mod(hashtext(np.user_id::text)::bigint + 2147483648, p_shard_count)
+           = COALESCE(p_shard_index, 0)
+      )
+      -- Outside the window / in quiet hours: not returned now, picked up by a later run
+      AND public.notifications_delivery_due(
+        ln.local_now,
+        np.preferred_hour,
+        np.preferred_minute,
+        np.send_window_minutes,
+        np.quiet_hours_start,
+        np.quiet_hours_end
+      )
+      AND (
+        np.last_sent_local_date IS NULL
+        OR np.last_sent_local_date < ln.local_now::date
+      )
+      AND public.today_has_content(
+        np.user_id,
+        np.timezone,
+        ln.local_now::date
+      ) = TRUE
+  ),
+  -- One summary per user, shared by all of their tokens
+  summarized_users AS MATERIALIZED (
+    SELECT
+      eu.*,
+      public.today_content_summary(eu.user_id, eu.timezone, eu.local_date) AS content,
+      (
+        -- A daily run fanned out to several devices counts once; each event counts once
+        SELECT count(DISTINCT COALESCE(ns.event_id::text, ns.job_run_id, ns.id::text))::int
+        FROM public.notification_sends ns
+        WHERE ns.user_id = eu.user_id
+          AND ns.status = 'sent'
+          AND ns.sent_at >= now() - make_interval(hours => COALESCE(p_cap_window_hours, 24))
+      ) AS recent_sends
+    FROM eligible_users eu
+  ),
+  eligible_tokens AS (
+    SELECT
+      su.user_id,
+      su.locale,
+      su.timezone,
+      dt.id   AS token_id,
+      dt.token,
+      dt.provider,
+      dt.platform,
+      su.local_date,
+      su.content,
+      su.recent_sends
+    FROM summarized_users su
+    JOIN public.device_tokens dt
+      ON dt.user_id = su.user_id
+    WHERE dt.status = 'active'
+  )
+  SELECT
+    user_id,
+    locale,
+    timezone,
+    token_id,
+    token,
+    provider,
+    platform,
+    local_date,
+    content,
+    recent_sends
+  FROM eligible_tokens
+  WHERE p_after_user_id IS NULL
+     OR (user_id, token_id) > (p_after_user_id, COALESCE(p_after_token_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  ORDER BY user_id, token_id
+  LIMIT COALESCE(p_limit, 200);
+$$;
+
+
+ALTER FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_after_user_id" "uuid", "p_after_token_id" "uuid", "p_cap_window_hours" integer, "p_shard_index" integer, "p_shard_count" integer) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_delivery_due"("p_local_now" timestamp without time zone, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone DEFAULT NULL::time without time zone, "p_quiet_hours_end" time without time zone DEFAULT NULL::time without time zone) RETURNS boolean
+    LANGUAGE "plpgsql" IMMUTABLE
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_now_time   time := p_local_now::time;
+  v_preferred  time := make_time(p_preferred_hour, p_preferred_minute, 0);
+  v_start      time := v_preferred;
+  v_has_quiet  boolean := p_quiet_hours_start IS NOT NULL AND p_quiet_hours_end IS NOT NULL;
+BEGIN
+  IF v_has_quiet AND public._notifications_in_quiet_hours(
+    v_preferred, p_quiet_hours_start, p_quiet_hours_end
+  ) THEN
+    v_start := p_quiet_hours_end;
+  END IF;
+
+  IF v_has_quiet AND public._notifications_in_quiet_hours(
+    v_now_time, p_quiet_hours_start, p_quiet_hours_end
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Compare on the local day so a window never spills into the next local_date
+  RETURN p_local_now >= date_trunc('day', p_local_now) + v_start
+     AND p_local_now <= date_trunc('day', p_local_now) + v_start
+                        + make_interval(mins => COALESCE(p_send_window_minutes, 60));
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_delivery_due"("p_local_now" timestamp without time zone, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone, "p_quiet_hours_end" time without time zone) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_delivery_report"("p_from" timestamp with time zone DEFAULT ("now"() - '7 days'::interval), "p_to" timestamp with time zone DEFAULT "now"()) RETURNS TABLE("kind" "text", "locale" "text", "template_id" "text", "local_send_hour" smallint, "attempted" integer, "sent" integer, "failed" integer, "opened" integer, "error_rate" numeric, "open_rate" numeric)
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  WITH counts AS (
+    SELECT
+      ns.kind,
+      ns.locale,
+      ns.template_id,
+      ns.local_send_hour,
+      count(*)::int                                         AS attempted,
+      count(*) FILTER (WHERE ns.status = 'sent')::int       AS sent,
+      count(*) FILTER (WHERE ns.status = 'failed')::int     AS failed,
+      count(*) FILTER (WHERE ns.opened_at IS NOT NULL)::int AS opened
+    FROM public.notification_sends ns
+    WHERE ns.created_at >= p_from
+      AND ns.created_at < p_to
+    GROUP BY ns.kind, ns.locale, ns.template_id, ns.local_send_hour
+  )
+  SELECT
+    c.kind,
+    c.locale,
+    c.template_id,
+    c.local_send_hour,
+    c.attempted,
+    c.sent,
+    c.failed,
+    c.opened,
+    round(c.failed::numeric / NULLIF(c.sent + c.failed, 0), 4),
+    round(c.opened::numeric / NULLIF(c.sent, 0), 4)
+  FROM counts c
+  ORDER BY c.kind, c.locale, c.template_id, c.local_send_hour;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_delivery_report"("p_from" timestamp with time zone, "p_to" timestamp with time zone) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_events_claim"("p_limit" integer DEFAULT 100, "p_cap_window_hours" integer DEFAULT 24, "p_stale_claim_minutes" integer DEFAULT 15) RETURNS TABLE("event_id" "uuid", "kind" "text", "recipient_user_id" "uuid", "home_id" "uuid", "payload" "jsonb", "attempts" integer, "locale" "text", "local_date" "date", "recent_sends" integer, "tokens" "jsonb")
+    LANGUAGE "sql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  WITH undeliverable AS (
+    SELECT
+      e.id,
+      CASE
+        WHEN np.user_id IS NULL THEN 'no_preferences'
+        WHEN np.os_permission <> 'allowed' THEN 'os_permission'
+        WHEN e.kind = ANY (np.disabled_kinds) THEN 'opted_out'
+        WHEN NOT EXISTS (
+          SELECT 1
+          FROM public.device_tokens dt
+          WHERE dt.user_id = e.recipient_user_id
+            AND dt.status = 'active'
+        ) THEN 'no_active_token'
+      END AS reason
+    FROM public.notification_events e
+    LEFT JOIN public.notification_preferences np
+      ON np.user_id = e.recipient_user_id
+    WHERE e.status = 'pending'
+  )
+  UPDATE public.notification_events e
+     SET status       = 'skipped',
+         error        = u.reason,
+         processed_at = now()
+    FROM undeliverable u
+   WHERE e.id = u.id
+     AND u.reason IS NOT NULL;
+
+  WITH picked AS (
+    SELECT e.id
+    FROM public.notification_events e
+    JOIN public.notification_preferences np
+      ON np.user_id = e.recipient_user_id
+    WHERE (
+        e.status = 'pending'
+        OR (
+          e.status = 'processing'
+          AND e.claimed_at < now() - make_interval(mins => COALESCE(p_stale_claim_minutes, 15))
+        )
+      )
+      AND NOT (
+        np.quiet_hours_start IS NOT NULL
+        AND np.quiet_hours_end IS NOT NULL
+        AND public._notifications_in_quiet_hours(
+          timezone(np.timezone, now())::time,
+          np.quiet_hours_start,
+          np.quiet_hours_end
+        )
+      )
+    ORDER BY e.created_at
+    LIMIT COALESCE(p_limit, 100)
+    FOR UPDATE OF e SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE public.notification_events e
+       SET status     = 'processing',
+           claimed_at = now(),
+           attempts   = e.attempts + 1
+      FROM picked
+     WHERE e.id = picked.id
+    RETURNING e.*
+  )
+  SELECT
+    c.id,
+    c.kind,
+    c.recipient_user_id,
+    c.home_id,
+    c.payload,
+    c.attempts,
+    np.locale,
+    timezone(np.timezone, now())::date,
+    (
+      SELECT count(DISTINCT COALESCE(ns.event_id::text, ns.job_run_id, ns.id::text))::int
+      FROM public.notification_sends ns
+      WHERE ns.user_id = c.recipient_user_id
+        AND ns.status = 'sent'
+        AND ns.sent_at >= now() - make_interval(hours => COALESCE(p_cap_window_hours, 24))
+    ),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'token_id', dt.id,
+            'token',    dt.token,
+            'provider', dt.provider,
+            'platform', dt.platform
+          )
+          ORDER BY dt.id
+        )
+        FROM public.device_tokens dt
+        WHERE dt.user_id = c.recipient_user_id
+          AND dt.status = 'active'
+      ),
+      '[]'::jsonb
+    )
+  FROM claimed c
+  JOIN public.notification_preferences np
+    ON np.user_id = c.recipient_user_id
+  ORDER BY c.created_at;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_events_claim"("p_limit" integer, "p_cap_window_hours" integer, "p_stale_claim_minutes" integer) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_events_complete"("p_event_id" "uuid", "p_status" "text", "p_error" "text" DEFAULT NULL::"text") RETURNS "void"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+BEGIN
+  IF p_status NOT IN ('sent', 'skipped', 'failed', 'pending') THEN
+    RAISE EXCEPTION 'INVALID_STATUS';
+  END IF;
+
+  UPDATE public.notification_events
+     SET status       = p_status,
+         error        = p_error,
+         claimed_at   = CASE WHEN p_status = 'pending' THEN NULL ELSE claimed_at END,
+         processed_at = CASE WHEN p_status = 'pending' THEN NULL ELSE now() END
+   WHERE id = p_event_id
+     AND status = 'processing';
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_events_complete"("p_event_id" "uuid", "p_status" "text", "p_error" "text") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_mark_event_send_success"("p_send_id" "uuid") RETURNS "void"
+    LANGUAGE "sql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  UPDATE public.notification_sends
+     SET status     = 'sent',
+         sent_at    = now(),
+         updated_at = now()
+   WHERE id = p_send_id;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_mark_event_send_success"("p_send_id" "uuid") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_mark_send_success"("p_send_id" "uuid", "p_user_id" "uuid", "p_local_date" "date") RETURNS "void"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+BEGIN
+  UPDATE public.notification_sends
+  SET status    = 'sent',
+      sent_at   = now(),
+      updated_at = now()
+  WHERE id = p_send_id;
+
+  UPDATE public.notification_preferences
+  SET last_sent_local_date = p_local_date,
+      updated_at           = now()
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_mark_send_success"("p_send_id" "uuid", "p_user_id" "uuid", "p_local_date" "date") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_mark_token_status"("p_token_id" "uuid", "p_status" "text") RETURNS "void"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+BEGIN
+  UPDATE public.device_tokens
+  SET status    = p_status,
+      updated_at = now()
+  WHERE id = p_token_id;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_mark_token_status"("p_token_id" "uuid", "p_status" "text") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_record_open"("p_send_id" "uuid") RETURNS "jsonb"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_user_id   uuid := auth.uid();
+  v_opened_at timestamptz;
+BEGIN
+  PERFORM public._assert_authenticated();
+
+  PERFORM public.api_assert(
+    p_send_id IS NOT NULL,
+    'INVALID_SEND_ID',
+    'Send id is required.',
+    '22023'
+  );
+
+  -- First open wins; repeat opens (several taps, app restarts) are no-ops
+  UPDATE public.notification_sends
+     SET opened_at  = COALESCE(opened_at, now()),
+         updated_at = now()
+   WHERE id = p_send_id
+     AND user_id = v_user_id
+  RETURNING opened_at INTO v_opened_at;
+
+  PERFORM public.api_assert(
+    v_opened_at IS NOT NULL,
+    'NOTIFICATION_SEND_NOT_FOUND',
+    'Notification send not found.',
+    'P0002',
+    jsonb_build_object('send_id', p_send_id)
+  );
+
+  RETURN jsonb_build_object(
+    'send_id',   p_send_id,
+    'opened_at', v_opened_at
+  );
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_record_open"("p_send_id" "uuid") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_reserve_event_send"("p_event_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text" DEFAULT NULL::"text") RETURNS "uuid"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_event public.notification_events;
+  v_id    uuid;
+BEGIN
+  IF p_token_id IS NULL THEN
+    RAISE EXCEPTION 'TOKEN_REQUIRED';
+  END IF;
+
+  SELECT * INTO v_event
+  FROM public.notification_events e
+  WHERE e.id = p_event_id;
+
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'EVENT_NOT_FOUND';
+  END IF;
+
+  INSERT INTO public.notification_sends (
+    user_id,
+    token_id,
+    local_date,
+    job_run_id,
+    template_id,
+    kind,
+    event_id,
+    status,
+    reserved_at
+  )
+  VALUES (
+    v_event.recipient_user_id,
+    p_token_id,
+    p_local_date,
+    p_job_run_id,
+    p_template_id,
+    v_event.kind,
+    v_event.id,
+    'reserved',
+    now()
+  )
+  ON CONFLICT (token_id, event_id) WHERE event_id IS NOT NULL DO UPDATE
+    -- A retried event may re-send to devices whose earlier attempt failed;
+    -- reserved/sent rows are never re-reserved (no double push)
+    SET status      = 'reserved',
+        job_run_id  = EXCLUDED.job_run_id,
+        template_id = EXCLUDED.template_id,
+        error       = NULL,
+        reserved_at = now(),
+        updated_at  = now()
+    WHERE public.notification_sends.status = 'failed'
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_reserve_event_send"("p_event_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text" DEFAULT NULL::"text") RETURNS "uuid"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_token_id IS NULL THEN
+    RAISE EXCEPTION 'TOKEN_REQUIRED';
+  END IF;
+
+  INSERT INTO public.notification_sends (
+    user_id,
+    token_id,
+    local_date,
+    job_run_id,
+    template_id,
+    status,
+    reserved_at
+  )
+  VALUES (
+    p_user_id,
+    p_token_id,
+    p_local_date,
+    p_job_run_id,
+    p_template_id,
+    'reserved',
+    now()
+  )
+  ON CONFLICT (token_id, local_date) WHERE event_id IS NULL DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_schedule_send_retry"("p_send_id" "uuid", "p_error" "text", "p_next_retry_at" timestamp with time zone) RETURNS "void"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+BEGIN
+  UPDATE public.notification_sends
+  SET status        = 'failed',
+      error         = p_error,
+      failed_at     = now(),
+      next_retry_at = p_next_retry_at,
+      updated_at    = now()
+  WHERE id = p_send_id
+    AND event_id IS NULL
+    AND status = 'reserved';
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_schedule_send_retry"("p_send_id" "uuid", "p_error" "text", "p_next_retry_at" timestamp with time zone) OWNER TO "postgres";
+
+
+CREATE TABLE IF NOT EXISTS "public"."notification_preferences" (
+    "user_id" "uuid" NOT NULL,
+    "wants_daily" boolean DEFAULT false NOT NULL,
+    "preferred_hour" integer DEFAULT 9 NOT NULL,
+    "timezone" "text" NOT NULL,
+    "locale" "text" NOT NULL,
+    "os_permission" "text" DEFAULT 'unknown'::"text" NOT NULL,
+    "last_os_sync_at" timestamp with time zone,
+    "last_sent_local_date" "date",
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "preferred_minute" integer DEFAULT 0 NOT NULL,
+    "send_window_minutes" integer DEFAULT 60 NOT NULL,
+    "quiet_hours_start" time without time zone,
+    "quiet_hours_end" time without time zone,
+    "disabled_kinds" "text"[] DEFAULT '{}'::"text"[] NOT NULL,
+    CONSTRAINT "chk_notification_preferences_disabled_kinds" CHECK (("disabled_kinds" <@ ARRAY['chore_assigned'::"text", 'expense_owed'::"text", 'expense_reminder'::"text", 'gratitude_mention'::"text", 'house_pulse_weekly'::"text", 'subscription_status'::"text"])),
+    CONSTRAINT "chk_notification_preferences_preferred_minute" CHECK ((("preferred_minute" >= 0) AND ("preferred_minute" < 60))),
+    CONSTRAINT "chk_notification_preferences_quiet_hours" CHECK (((("quiet_hours_start" IS NULL) AND ("quiet_hours_end" IS NULL)) OR (("quiet_hours_start" IS NOT NULL) AND ("quiet_hours_end" IS NOT NULL) AND ("quiet_hours_start" <> "quiet_hours_end")))),
+    CONSTRAINT "chk_notification_preferences_send_window" CHECK ((("send_window_minutes" >= 15) AND ("send_window_minutes" <= 720)))
+);
+
+
+ALTER TABLE "public"."notification_preferences" OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_set_kind_enabled"("p_kind" "text", "p_enabled" boolean) RETURNS "public"."notification_preferences"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pref    public.notification_preferences;
+BEGIN
+  PERFORM public._assert_authenticated();
+
+  PERFORM public.api_assert(
+    p_kind IN (
+      'chore_assigned', 'expense_owed', 'expense_reminder', 'gratitude_mention',
+      'house_pulse_weekly', 'subscription_status'
+    ),
+    'INVALID_NOTIFICATION_KIND',
+    'Unknown notification kind.',
+    '22023',
+    jsonb_build_object('kind', p_kind)
+  );
+  PERFORM public.api_assert(
+    p_enabled IS NOT NULL,
+    'INVALID_ENABLED',
+    'Enabled flag is required.',
+    '22023'
+  );
+
+  UPDATE public.notification_preferences
+     SET disabled_kinds = CASE
+           WHEN p_enabled THEN array_remove(disabled_kinds, p_kind)
+           WHEN p_kind = ANY (disabled_kinds) THEN disabled_kinds
+           ELSE array_append(disabled_kinds, p_kind)
+         END,
+         updated_at = now()
+   WHERE user_id = v_user_id
+  RETURNING * INTO v_pref;
+
+  PERFORM public.api_assert(
+    v_pref.user_id IS NOT NULL,
+    'PREFERENCES_NOT_FOUND',
+    'Notification preferences have not been set up yet.',
+    'P0001'
+  );
+
+  RETURN v_pref;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_set_kind_enabled"("p_kind" "text", "p_enabled" boolean) OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean DEFAULT NULL::boolean, "p_preferred_hour" integer DEFAULT NULL::integer, "p_preferred_minute" integer DEFAULT NULL::integer, "p_provider" "text" DEFAULT 'fcm'::"text") RETURNS "public"."notification_preferences"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_user_id     uuid := auth.uid();
+  v_current     public.notification_preferences;
+  v_effective_wants_daily      boolean;
+  v_effective_preferred_hour   integer;
+  v_effective_preferred_minute integer;
+  v_should_upsert boolean;
+  v_max_active_per_platform integer := 2;
+  v_provider    text := COALESCE(p_provider, 'fcm');
+BEGIN
+  PERFORM public._assert_authenticated();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  END IF;
+
+  PERFORM public.api_assert(
+    v_provider IN ('fcm', 'apns', 'webpush'),
+    'INVALID_PROVIDER',
+    'provider must be fcm, apns or webpush.',
+    '22023'
+  );
+
+  SELECT *
+  INTO v_current
+  FROM public.notification_preferences
+  WHERE user_id = v_user_id;
+
+  v_effective_wants_daily :=
+    COALESCE(
+      p_wants_daily,
+      v_current.wants_daily,
+      (p_os_permission = 'allowed')
+    );
+
+  -- Force off when OS is blocked/unknown so UI toggle mirrors system status
+  IF p_os_permission IS DISTINCT FROM 'allowed' THEN
+    v_effective_wants_daily := FALSE;
+  END IF;
+
+  v_effective_preferred_hour :=
+    COALESCE(
       p_preferred_hour,
       v_current.preferred_hour,
       9
@@ -10957,20 +12554,21 @@ BEGIN
     OR p_preferred_minute IS NOT NULL
     OR p_os_permission = 'allowed';
 
+  -- No row exists on this path: echo an unsaved default row field by field so
+  -- the result keeps its shape as columns are added to notification_preferences.
   IF NOT v_should_upsert THEN
-    RETURN (
-      v_user_id,
-      v_effective_wants_daily,
-      v_effective_preferred_hour,
-      COALESCE(p_timezone, 'UTC'),
-      COALESCE(p_locale, 'en'),
-      p_os_permission,
-      now(),
-      v_current.last_sent_local_date,
-      COALESCE(v_current.created_at, now()),
-      now(),
-      v_effective_preferred_minute
-    )::public.notification_preferences;
+    v_current.user_id             := v_user_id;
+    v_current.wants_daily         := v_effective_wants_daily;
+    v_current.preferred_hour      := v_effective_preferred_hour;
+    v_current.preferred_minute    := v_effective_preferred_minute;
+    v_current.timezone            := COALESCE(p_timezone, 'UTC');
+    v_current.locale              := COALESCE(p_locale, 'en');
+    v_current.os_permission       := p_os_permission;
+    v_current.last_os_sync_at     := now();
+    v_current.created_at          := now();
+    v_current.updated_at          := now();
+    v_current.send_window_minutes := 60;
+    RETURN v_current;
   END IF;
 
   INSERT INTO public.notification_preferences (
@@ -11016,7 +12614,7 @@ BEGIN
       last_seen_at, created_at, updated_at
     )
     VALUES (
-      v_user_id, p_token, 'fcm', p_platform, 'active',
+      v_user_id, p_token, v_provider, p_platform, 'active',
       now(), now(), now()
     )
     ON CONFLICT (token) DO UPDATE
@@ -11027,7 +12625,7 @@ BEGIN
           last_seen_at = now(),
           updated_at   = now();
 
-    -- Cap active tokens per platform by expiring the oldest seen tokens.
+    -- Cap active tokens per platform + transport by expiring the oldest seen tokens.
     IF p_platform IS NOT NULL THEN
       WITH ranked AS (
         SELECT
@@ -11038,7 +12636,7 @@ BEGIN
         FROM public.device_tokens
         WHERE user_id = v_user_id
           AND platform = p_platform
-          AND provider = 'fcm'
+          AND provider = v_provider
           AND status = 'active'
       )
       UPDATE public.device_tokens
@@ -11055,7 +12653,58 @@ END;
 $$;
 
 
-ALTER FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer) OWNER TO "postgres";
+ALTER FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_provider" "text") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."notifications_update_delivery_window"("p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone DEFAULT NULL::time without time zone, "p_quiet_hours_end" time without time zone DEFAULT NULL::time without time zone) RETURNS "public"."notification_preferences"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pref    public.notification_preferences;
+BEGIN
+  PERFORM public._assert_authenticated();
+
+  PERFORM public.api_assert(
+    p_send_window_minutes BETWEEN 15 AND 720,
+    'INVALID_SEND_WINDOW',
+    'Send window must be between 15 and 720 minutes.',
+    '22023'
+  );
+  PERFORM public.api_assert(
+    (p_quiet_hours_start IS NULL AND p_quiet_hours_end IS NULL)
+      OR (
+        p_quiet_hours_start IS NOT NULL
+        AND p_quiet_hours_end IS NOT NULL
+        AND p_quiet_hours_start <> p_quiet_hours_end
+      ),
+    'INVALID_QUIET_HOURS',
+    'Quiet hours need both a distinct start and end, or neither.',
+    '22023'
+  );
+
+  UPDATE public.notification_preferences
+     SET send_window_minutes = p_send_window_minutes,
+         quiet_hours_start   = p_quiet_hours_start,
+         quiet_hours_end     = p_quiet_hours_end,
+         updated_at          = now()
+   WHERE user_id = v_user_id
+  RETURNING * INTO v_pref;
+
+  PERFORM public.api_assert(
+    v_pref.user_id IS NOT NULL,
+    'PREFERENCES_NOT_FOUND',
+    'Notification preferences have not been set up yet.',
+    'P0001'
+  );
+
+  RETURN v_pref;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."notifications_update_delivery_window"("p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone, "p_quiet_hours_end" time without time zone) OWNER TO "postgres";
 
 
 CREATE OR REPLACE FUNCTION "public"."notifications_update_preferences"("p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer) RETURNS "public"."notification_preferences"
@@ -11343,20 +12992,150 @@ END;
 $$;
 
 
-ALTER FUNCTION "public"."paywall_log_event"("p_home_id" "uuid", "p_event_type" "text", "p_source" "text") OWNER TO "postgres";
-
-
-COMMENT ON FUNCTION "public"."paywall_log_event"("p_home_id" "uuid", "p_event_type" "text", "p_source" "text") IS 'Auth-only helper to log paywall funnel events for a home.';
-
+ALTER FUNCTION "public"."paywall_log_event"("p_home_id" "uuid", "p_event_type" "text", "p_source" "text") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."paywall_log_event"("p_home_id" "uuid", "p_event_type" "text", "p_source" "text") IS 'Auth-only helper to log paywall funnel events for a home.';
+
+
+
+CREATE OR REPLACE FUNCTION "public"."paywall_reconcile_candidates"("p_limit" integer DEFAULT 100, "p_stale_after" interval DEFAULT '24:00:00'::interval) RETURNS TABLE("user_id" "uuid", "reason" "text", "current_home_id" "uuid", "subscriptions" "jsonb")
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  WITH failed AS (
+    SELECT p.id AS user_id, MAX(e.created_at) AS failed_at
+    FROM public.revenuecat_webhook_events e
+    JOIN public.profiles p
+      ON p.id::text = COALESCE(
+           e.raw #>> '{event,subscriber_attributes,user_id,value}',
+           e.rc_app_user_id
+         )
+    WHERE (e.fatal_error_code IS NOT NULL OR e.rpc_error_code IS NOT NULL)
+      AND e.created_at > now() - interval '7 days'
+    GROUP BY p.id
+  ),
+  live AS (
+    SELECT us.user_id, MIN(us.current_period_end_at) AS next_end_at
+    FROM public.user_subscriptions us
+    WHERE us.status <> 'inactive'
+      AND (
+        us.status <> 'expired'
+        OR us.current_period_end_at > now() - interval '7 days'
+      )
+    GROUP BY us.user_id
+  ),
+  pool AS (
+    SELECT
+      COALESCE(f.user_id, l.user_id) AS user_id,
+      f.failed_at,
+      l.user_id IS NOT NULL AS has_live,
+      l.next_end_at
+    FROM failed f
+    FULL JOIN live l ON l.user_id = f.user_id
+  ),
+  due AS (
+    SELECT
+      pool.user_id,
+      CASE
+        WHEN pool.failed_at IS NOT NULL
+         AND (c.checked_at IS NULL OR c.checked_at < pool.failed_at)
+          THEN 'webhook_error'
+        ELSE 'stale'
+      END AS reason,
+      pool.next_end_at
+    FROM pool
+    LEFT JOIN public.revenuecat_subscriber_checks c ON c.user_id = pool.user_id
+    WHERE (
+        pool.failed_at IS NOT NULL
+        AND (c.checked_at IS NULL OR c.checked_at < pool.failed_at)
+      )
+       OR (
+        pool.has_live
+        AND (c.checked_at IS NULL OR c.checked_at < now() - p_stale_after)
+      )
+  )
+  SELECT
+    due.user_id,
+    due.reason,
+    (
+      SELECT m.home_id
+      FROM public.memberships m
+      WHERE m.user_id = due.user_id
+        AND m.is_current = TRUE
+      ORDER BY m.valid_from DESC
+      LIMIT 1
+    ) AS current_home_id,
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+                 jsonb_build_object(
+                   'entitlement_id',        us.rc_entitlement_id,
+                   'status',                us.status,
+                   'product_id',            us.product_id,
+                   'store',                 us.store,
+                   'home_id',               us.home_id,
+                   'current_period_end_at', us.current_period_end_at,
+                   'grace_until_at',        us.grace_until_at,
+                   'original_purchase_at',  us.original_purchase_at,
+                   'last_purchase_at',      us.last_purchase_at,
+                   'latest_transaction_id', us.latest_transaction_id,
+                   'last_event_timestamp',  us.last_event_timestamp
+                 )
+                 ORDER BY us.rc_entitlement_id
+               )
+        FROM public.user_subscriptions us
+        WHERE us.user_id = due.user_id
+      ),
+      '[]'::jsonb
+    ) AS subscriptions
+  FROM due
+  ORDER BY
+    (due.reason = 'webhook_error') DESC,
+    due.next_end_at ASC NULLS LAST,
+    due.user_id
+  LIMIT GREATEST(LEAST(COALESCE(p_limit, 100), 500), 1);
+$$;
+
+
+ALTER FUNCTION "public"."paywall_reconcile_candidates"("p_limit" integer, "p_stale_after" interval) OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."paywall_reconcile_candidates"("p_limit" integer, "p_stale_after" interval) IS 'Service-role: users whose subscriptions should be cross-checked against the RevenueCat REST API (failed webhooks first, then stale live subscriptions).';
+
+
+
+CREATE OR REPLACE FUNCTION "public"."paywall_reconcile_record_check"("p_user_id" "uuid", "p_outcome" "text", "p_corrections" integer DEFAULT 0, "p_error" "text" DEFAULT NULL::"text") RETURNS "void"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+BEGIN
+  INSERT INTO public.revenuecat_subscriber_checks AS c (user_id, checked_at, outcome, corrections, error)
+  VALUES (p_user_id, now(), p_outcome, COALESCE(p_corrections, 0), p_error)
+  ON CONFLICT (user_id) DO UPDATE
+  SET checked_at  = EXCLUDED.checked_at,
+      outcome     = EXCLUDED.outcome,
+      corrections = EXCLUDED.corrections,
+      error       = EXCLUDED.error;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."paywall_reconcile_record_check"("p_user_id" "uuid", "p_outcome" "text", "p_corrections" integer, "p_error" "text") OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[] DEFAULT NULL::"text"[], "p_event_timestamp" timestamp with time zone DEFAULT "now"(), "p_environment" "text" DEFAULT 'unknown'::"text", "p_rc_event_id" "text" DEFAULT NULL::"text", "p_original_transaction_id" "text" DEFAULT NULL::"text", "p_raw_event" "jsonb" DEFAULT NULL::"jsonb", "p_warnings" "text"[] DEFAULT NULL::"text"[]) RETURNS boolean
+CREATE OR REPLACE FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[] DEFAULT NULL::"text"[], "p_event_timestamp" timestamp with time zone DEFAULT "now"(), "p_environment" "text" DEFAULT 'unknown'::"text", "p_rc_event_id" "text" DEFAULT NULL::"text", "p_original_transaction_id" "text" DEFAULT NULL::"text", "p_raw_event" "jsonb" DEFAULT NULL::"jsonb", "p_warnings" "text"[] DEFAULT NULL::"text"[], "p_applied_state" "jsonb" DEFAULT NULL::"jsonb", "p_grace_until_at" timestamp with time zone DEFAULT NULL::timestamp with time zone) RETURNS boolean
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
 DECLARE
   v_status public.revenuecat_processing_status;
   v_home_id uuid;
+  v_expected_event_timestamp timestamptz :=
+    (p_applied_state->>'event_timestamp')::timestamptz;
+  v_previous_status public.subscription_status;
+  v_grace_until_at timestamptz :=
+    CASE WHEN p_status = 'in_grace' THEN p_grace_until_at END;
 BEGIN
   -- Prevent concurrent double-runs for the same idempotency key
   PERFORM pg_advisory_xact_lock(hashtext(p_environment || ':' || p_idempotency_key));
@@ -11391,7 +13170,23 @@ BEGIN
   END IF;
 
   ------------------------------------------------------------------
-  -- Upsert subscription snapshot
+  -- Lifecycle: the row is locked until commit, so the check holds for the upsert
+  ------------------------------------------------------------------
+  SELECT us.status
+  INTO v_previous_status
+  FROM public.user_subscriptions us
+  WHERE us.user_id = p_user_id
+    AND us.rc_entitlement_id = p_entitlement_id
+  FOR UPDATE;
+
+  IF NOT public._subscription_transition_allowed(v_previous_status, p_status) THEN
+    RAISE EXCEPTION 'invalid_subscription_transition'
+      USING ERRCODE = '22023',
+            DETAIL  = format('%s->%s', v_previous_status, p_status);
+  END IF;
+
+  ------------------------------------------------------------------
+  -- Upsert subscription snapshot (only over the state the webhook compared against)
   ------------------------------------------------------------------
   INSERT INTO public.user_subscriptions AS us (
     user_id,
@@ -11402,9 +13197,12 @@ BEGIN
     product_id,
     status,
     current_period_end_at,
+    grace_until_at,
     original_purchase_at,
     last_purchase_at,
     latest_transaction_id,
+    original_transaction_id,
+    last_event_timestamp,
     last_synced_at,
     created_at,
     updated_at
@@ -11417,75 +13215,92 @@ BEGIN
     p_product_id,
     p_status,
     p_current_period_end_at,
+    v_grace_until_at,
     p_original_purchase_at,
     p_last_purchase_at,
     p_latest_transaction_id,
+    p_original_transaction_id,
+    p_event_timestamp,
     now(),
     now(),
     now()
   )
   ON CONFLICT (user_id, rc_entitlement_id) DO UPDATE
   SET
-    home_id               = EXCLUDED.home_id,
-    store                 = EXCLUDED.store,
-    rc_app_user_id        = EXCLUDED.rc_app_user_id,
-    product_id            = EXCLUDED.product_id,
-    status                = EXCLUDED.status,
-    current_period_end_at = EXCLUDED.current_period_end_at,
-    original_purchase_at  = EXCLUDED.original_purchase_at,
-    last_purchase_at      = EXCLUDED.last_purchase_at,
-    latest_transaction_id = EXCLUDED.latest_transaction_id,
-    last_synced_at        = now(),
-    updated_at            = now()
+    home_id                 = EXCLUDED.home_id,
+    store                   = EXCLUDED.store,
+    rc_app_user_id          = EXCLUDED.rc_app_user_id,
+    product_id              = EXCLUDED.product_id,
+    status                  = EXCLUDED.status,
+    current_period_end_at   = EXCLUDED.current_period_end_at,
+    grace_until_at          = EXCLUDED.grace_until_at,
+    original_purchase_at    = EXCLUDED.original_purchase_at,
+    last_purchase_at        = EXCLUDED.last_purchase_at,
+    latest_transaction_id   = EXCLUDED.latest_transaction_id,
+    -- Untimed events cannot be ordered: keep the last known ordering state
+    original_transaction_id = COALESCE(EXCLUDED.original_transaction_id, us.original_transaction_id),
+    last_event_timestamp    = COALESCE(EXCLUDED.last_event_timestamp, us.last_event_timestamp),
+    last_synced_at          = now(),
+    updated_at              = now()
+  WHERE p_applied_state IS NULL
+     OR us.last_event_timestamp IS NOT DISTINCT FROM v_expected_event_timestamp
   RETURNING home_id INTO v_home_id;
 
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'subscription_state_changed'
+      USING ERRCODE = '40001',
+            DETAIL  = 'Another RevenueCat event was applied since the webhook read the subscription.';
+  END IF;
+
   ------------------------------------------------------------------
   -- Optional: log inside RPC too (safe upsert)
   ------------------------------------------------------------------
-INSERT INTO public.revenuecat_webhook_events (
-  created_at,
-  event_timestamp,
-  environment,
-  idempotency_key,
-  rc_event_id,
-  original_transaction_id,
-  latest_transaction_id,
-  rc_app_user_id,
-  home_id,
-  entitlement_id,
-  entitlement_ids,
-  product_id,
-  store,
-  status,
-  current_period_end_at,
-  original_purchase_at,
-  last_purchase_at,
-  warnings,
-  raw
-) VALUES (
-  now(),
-  p_event_timestamp,
-  p_environment,
-  p_idempotency_key,
-  p_rc_event_id,
-  p_original_transaction_id,
-  p_latest_transaction_id,
-  p_rc_app_user_id,
-  COALESCE(p_home_id, v_home_id),
-  p_entitlement_id,
-  p_entitlement_ids,
-  p_product_id,
-  p_store,
-  p_status,
-  p_current_period_end_at,
-  p_original_purchase_at,
-  p_last_purchase_at,
-  p_warnings,
-  p_raw_event
-)
-ON CONFLICT (environment, idempotency_key)
-WHERE idempotency_key IS NOT NULL
-DO NOTHING;
+  INSERT INTO public.revenuecat_webhook_events (
+    created_at,
+    event_timestamp,
+    environment,
+    idempotency_key,
+    rc_event_id,
+    original_transaction_id,
+    latest_transaction_id,
+    rc_app_user_id,
+    home_id,
+    entitlement_id,
+    entitlement_ids,
+    product_id,
+    store,
+    status,
+    current_period_end_at,
+    grace_until_at,
+    original_purchase_at,
+    last_purchase_at,
+    warnings,
+    raw
+  ) VALUES (
+    now(),
+    p_event_timestamp,
+    p_environment,
+    p_idempotency_key,
+    p_rc_event_id,
+    p_original_transaction_id,
+    p_latest_transaction_id,
+    p_rc_app_user_id,
+    COALESCE(p_home_id, v_home_id),
+    p_entitlement_id,
+    p_entitlement_ids,
+    p_product_id,
+    p_store,
+    p_status,
+    p_current_period_end_at,
+    v_grace_until_at,
+    p_original_purchase_at,
+    p_last_purchase_at,
+    p_warnings,
+    p_raw_event
+  )
+  ON CONFLICT (environment, idempotency_key)
+  WHERE idempotency_key IS NOT NULL
+  DO NOTHING;
 
   ------------------------------------------------------------------
   -- Refresh home entitlements
@@ -11502,19 +13317,19 @@ DO NOTHING;
 EXCEPTION
   WHEN OTHERS THEN
     -- Mark failed (so retries can reattempt)
-  UPDATE public.revenuecat_event_processing
-  SET status = 'failed'::public.revenuecat_processing_status, last_error = SQLERRM, updated_at = now()
-  WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+    UPDATE public.revenuecat_event_processing
+    SET status = 'failed'::public.revenuecat_processing_status, last_error = SQLERRM, updated_at = now()
+    WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
 
     RAISE;
 END;
 $$;
 
 
-ALTER FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[]) OWNER TO "postgres";
+ALTER FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[], "p_applied_state" "jsonb", "p_grace_until_at" timestamp with time zone) OWNER TO "postgres";
 
 
-COMMENT ON FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[]) IS 'Idempotent service-role helper invoked by RevenueCat webhook. Safe for retries via revenuecat_event_processing. Returns deduped boolean.';
+COMMENT ON FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[], "p_applied_state" "jsonb", "p_grace_until_at" timestamp with time zone) IS 'Idempotent service-role helper invoked by RevenueCat webhook. Safe for retries via revenuecat_event_processing. Guards out-of-order events via p_applied_state and the subscription lifecycle via _subscription_transition_allowed. Returns deduped boolean.';
 
 
 
@@ -11577,6 +13392,418 @@ $$;
 ALTER FUNCTION "public"."paywall_status_get"("p_home_id" "uuid") OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."paywall_subscription_applied_state"("p_user_id" "uuid", "p_entitlement_id" "text") RETURNS "jsonb"
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  SELECT jsonb_build_object(
+    'event_timestamp',         us.last_event_timestamp,
+    'original_transaction_id', us.original_transaction_id,
+    'latest_transaction_id',   us.latest_transaction_id,
+    'last_purchase_at',        us.last_purchase_at,
+    'status',                  us.status
+  )
+  FROM public.user_subscriptions us
+  WHERE us.user_id = p_user_id
+    AND us.rc_entitlement_id = p_entitlement_id;
+$$;
+
+
+ALTER FUNCTION "public"."paywall_subscription_applied_state"("p_user_id" "uuid", "p_entitlement_id" "text") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."paywall_subscriptions_grace_sweep"() RETURNS integer
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  -- Triggers refresh the homes and notify
+  UPDATE public.user_subscriptions
+  SET status     = 'on_hold',
+      updated_at = now()
+  WHERE status = 'in_grace'
+    AND (grace_until_at IS NULL OR grace_until_at <= now());
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."paywall_subscriptions_grace_sweep"() OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."paywall_transfer_subscription"("p_idempotency_key" "text", "p_to_user_id" "uuid", "p_from_user_ids" "uuid"[], "p_home_id" "uuid" DEFAULT NULL::"uuid", "p_entitlement_ids" "text"[] DEFAULT NULL::"text"[], "p_event_timestamp" timestamp with time zone DEFAULT "now"(), "p_environment" "text" DEFAULT 'unknown'::"text") RETURNS boolean
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_status  public.revenuecat_processing_status;
+  v_home_id uuid;
+  v_at      timestamptz := COALESCE(p_event_timestamp, now());
+  v_sub     public.user_subscriptions;
+BEGIN
+  -- Prevent concurrent double-runs for the same idempotency key
+  PERFORM pg_advisory_xact_lock(hashtext(p_environment || ':' || p_idempotency_key));
+
+  IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+    RAISE EXCEPTION 'Missing p_idempotency_key';
+  END IF;
+
+  IF p_to_user_id IS NULL THEN
+    RAISE EXCEPTION 'Missing p_to_user_id';
+  END IF;
+
+  INSERT INTO public.revenuecat_event_processing AS ep (environment, idempotency_key, status, attempts, updated_at)
+  VALUES (p_environment, p_idempotency_key, 'processing'::public.revenuecat_processing_status, 1, now())
+  ON CONFLICT (environment, idempotency_key)
+  DO UPDATE SET
+    attempts   = ep.attempts + 1,
+    status     = CASE
+                  WHEN ep.status = 'succeeded' THEN 'succeeded'::public.revenuecat_processing_status
+                  ELSE 'processing'::public.revenuecat_processing_status
+                 END,
+    updated_at = now()
+  RETURNING status INTO v_status;
+
+  IF v_status = 'succeeded'::public.revenuecat_processing_status THEN
+    RETURN true; -- deduped
+  END IF;
+
+  v_home_id := COALESCE(
+    p_home_id,
+    (
+      SELECT m.home_id
+      FROM public.memberships m
+      WHERE m.user_id = p_to_user_id
+        AND m.is_current = TRUE
+      ORDER BY m.valid_from DESC
+      LIMIT 1
+    )
+  );
+
+  -- Latest purchase last, so it wins when several senders share an entitlement
+  FOR v_sub IN
+    SELECT us.*
+    FROM public.user_subscriptions us
+    WHERE us.user_id = ANY (COALESCE(p_from_user_ids, ARRAY[]::uuid[]))
+      AND us.user_id <> p_to_user_id
+      AND (p_entitlement_ids IS NULL OR us.rc_entitlement_id = ANY (p_entitlement_ids))
+      AND us.status <> 'inactive'
+    ORDER BY us.last_purchase_at ASC NULLS FIRST
+    FOR UPDATE
+  LOOP
+    INSERT INTO public.user_subscriptions AS us (
+      user_id,
+      home_id,
+      store,
+      rc_app_user_id,
+      rc_entitlement_id,
+      product_id,
+      status,
+      current_period_end_at,
+      grace_until_at,
+      original_purchase_at,
+      last_purchase_at,
+      latest_transaction_id,
+      original_transaction_id,
+      last_event_timestamp,
+      last_synced_at,
+      created_at,
+      updated_at
+    ) VALUES (
+      p_to_user_id,
+      v_home_id,
+      v_sub.store,
+      p_to_user_id::text,
+      v_sub.rc_entitlement_id,
+      v_sub.product_id,
+      v_sub.status,
+      v_sub.current_period_end_at,
+      v_sub.grace_until_at,
+      v_sub.original_purchase_at,
+      v_sub.last_purchase_at,
+      v_sub.latest_transaction_id,
+      v_sub.original_transaction_id,
+      v_at,
+      now(),
+      now(),
+      now()
+    )
+    ON CONFLICT (user_id, rc_entitlement_id) DO UPDATE
+    SET
+      home_id                 = EXCLUDED.home_id,
+      store                   = EXCLUDED.store,
+      rc_app_user_id          = EXCLUDED.rc_app_user_id,
+      product_id              = EXCLUDED.product_id,
+      status                  = EXCLUDED.status,
+      current_period_end_at   = EXCLUDED.current_period_end_at,
+      grace_until_at          = EXCLUDED.grace_until_at,
+      original_purchase_at    = EXCLUDED.original_purchase_at,
+      last_purchase_at        = EXCLUDED.last_purchase_at,
+      latest_transaction_id   = EXCLUDED.latest_transaction_id,
+      original_transaction_id = EXCLUDED.original_transaction_id,
+      last_event_timestamp    = EXCLUDED.last_event_timestamp,
+      last_synced_at          = now(),
+      updated_at              = now();
+
+    UPDATE public.user_subscriptions
+    SET status               = 'inactive',
+        home_id              = NULL,
+        last_event_timestamp = GREATEST(last_event_timestamp, v_at),
+        last_synced_at       = now(),
+        updated_at           = now()
+    WHERE id = v_sub.id;
+  END LOOP;
+
+  UPDATE public.revenuecat_event_processing
+  SET status = 'succeeded'::public.revenuecat_processing_status, last_error = NULL, updated_at = now()
+  WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+  RETURN false; -- processed now
+
+EXCEPTION
+  WHEN OTHERS THEN
+    UPDATE public.revenuecat_event_processing
+    SET status = 'failed'::public.revenuecat_processing_status, last_error = SQLERRM, updated_at = now()
+    WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+    RAISE;
+END;
+$$;
+
+
+ALTER FUNCTION "public"."paywall_transfer_subscription"("p_idempotency_key" "text", "p_to_user_id" "uuid", "p_from_user_ids" "uuid"[], "p_home_id" "uuid", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."paywall_transfer_subscription"("p_idempotency_key" "text", "p_to_user_id" "uuid", "p_from_user_ids" "uuid"[], "p_home_id" "uuid", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text") IS 'Service-role helper for RevenueCat TRANSFER events: moves subscriptions between users/homes. Idempotent via revenuecat_event_processing. Returns deduped boolean.';
+
+
+
+CREATE OR REPLACE FUNCTION "public"."paywall_webhook_replay_events"("p_fatal_error_code" "text" DEFAULT NULL::"text", "p_rpc_retryable" boolean DEFAULT NULL::boolean, "p_from" timestamp with time zone DEFAULT NULL::timestamp with time zone, "p_to" timestamp with time zone DEFAULT NULL::timestamp with time zone, "p_home_id" "uuid" DEFAULT NULL::"uuid", "p_limit" integer DEFAULT 100) RETURNS TABLE("id" "uuid", "environment" "text", "idempotency_key" "text", "created_at" timestamp with time zone, "event_timestamp" timestamp with time zone, "home_id" "uuid", "fatal_error_code" "text", "rpc_error_code" "text", "rpc_retryable" boolean, "replayed_at" timestamp with time zone, "raw" "jsonb")
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  SELECT
+    e.id,
+    e.environment,
+    e.idempotency_key,
+    e.created_at,
+    e.event_timestamp,
+    e.home_id,
+    e.fatal_error_code,
+    e.rpc_error_code,
+    e.rpc_retryable,
+    e.replayed_at,
+    e.raw
+  FROM public.revenuecat_webhook_events e
+  WHERE e.raw IS NOT NULL
+    AND (e.fatal_error_code IS NOT NULL OR e.rpc_error_code IS NOT NULL)
+    AND (e.replay_outcome IS NULL OR e.replay_outcome IN ('fatal', 'failed'))
+    AND (p_fatal_error_code IS NULL OR e.fatal_error_code = p_fatal_error_code)
+    AND (p_rpc_retryable IS NULL OR e.rpc_retryable = p_rpc_retryable)
+    AND (p_from IS NULL OR e.created_at >= p_from)
+    AND (p_to IS NULL OR e.created_at < p_to)
+    AND (
+      p_home_id IS NULL
+      OR e.home_id = p_home_id
+      OR e.raw #>> '{event,subscriber_attributes,home_id,value}' = p_home_id::text
+    )
+  -- Replay in delivery order so the webhook's ordering checks see events as RevenueCat sent them
+  ORDER BY COALESCE(e.event_timestamp, e.created_at), e.created_at, e.id
+  LIMIT GREATEST(LEAST(COALESCE(p_limit, 100), 500), 1);
+$$;
+
+
+ALTER FUNCTION "public"."paywall_webhook_replay_events"("p_fatal_error_code" "text", "p_rpc_retryable" boolean, "p_from" timestamp with time zone, "p_to" timestamp with time zone, "p_home_id" "uuid", "p_limit" integer) OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."paywall_webhook_replay_events"("p_fatal_error_code" "text", "p_rpc_retryable" boolean, "p_from" timestamp with time zone, "p_to" timestamp with time zone, "p_home_id" "uuid", "p_limit" integer) IS 'Service-role: failed RevenueCat webhook events (fatal / rpc) to replay, filtered by fatal code, rpc_retryable, created_at range and home.';
+
+
+
+CREATE OR REPLACE FUNCTION "public"."paywall_webhook_replay_mark"("p_event_id" "uuid", "p_outcome" "text") RETURNS "void"
+    LANGUAGE "sql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  UPDATE public.revenuecat_webhook_events
+  SET replayed_at    = now(),
+      replay_outcome = p_outcome
+  WHERE id = p_event_id;
+$$;
+
+
+ALTER FUNCTION "public"."paywall_webhook_replay_mark"("p_event_id" "uuid", "p_outcome" "text") OWNER TO "postgres";
+
+
+CREATE OR REPLACE FUNCTION "public"."paywall_webhook_replay_preview"("p_changes" "jsonb") RETURNS TABLE("home_id" "uuid", "current_plan" "text", "current_expires_at" timestamp with time zone, "projected_plan" "text", "projected_expires_at" timestamp with time zone, "subscriptions" "jsonb")
+    LANGUAGE "sql" STABLE SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+  WITH input AS (
+    SELECT c.value AS change, c.ordinality AS seq
+    FROM jsonb_array_elements(COALESCE(p_changes, '[]'::jsonb)) WITH ORDINALITY AS c(value, ordinality)
+  ),
+  recorded AS (
+    SELECT
+      i.seq,
+      (i.change->>'user_id')::uuid AS user_id,
+      i.change->>'entitlement_id' AS entitlement_id,
+      (i.change->>'home_id')::uuid AS home_id,
+      (i.change->>'status')::public.subscription_status AS status,
+      (i.change->>'current_period_end_at')::timestamptz AS current_period_end_at,
+      CASE
+        WHEN i.change->>'status' = 'in_grace' THEN (i.change->>'grace_until_at')::timestamptz
+      END AS grace_until_at
+    FROM input i
+    WHERE i.change->>'kind' = 'record'
+  ),
+  transfers AS (
+    SELECT
+      i.seq,
+      (i.change->>'to_user_id')::uuid AS to_user_id,
+      ARRAY(
+        SELECT jsonb_array_elements_text(COALESCE(i.change->'from_user_ids', '[]'::jsonb))::uuid
+      ) AS from_user_ids,
+      COALESCE(
+        (i.change->>'home_id')::uuid,
+        (
+          SELECT m.home_id
+          FROM public.memberships m
+          WHERE m.user_id = (i.change->>'to_user_id')::uuid
+            AND m.is_current = TRUE
+          ORDER BY m.valid_from DESC
+          LIMIT 1
+        )
+      ) AS home_id,
+      CASE
+        WHEN jsonb_typeof(i.change->'entitlement_ids') = 'array'
+          THEN ARRAY(SELECT jsonb_array_elements_text(i.change->'entitlement_ids'))
+      END AS entitlement_ids
+    FROM input i
+    WHERE i.change->>'kind' = 'transfer'
+  ),
+  transferred AS (
+    SELECT
+      t.seq,
+      t.to_user_id,
+      t.home_id AS to_home_id,
+      us.user_id AS from_user_id,
+      us.rc_entitlement_id,
+      us.status,
+      us.current_period_end_at,
+      us.grace_until_at
+    FROM transfers t
+    JOIN public.user_subscriptions us
+      ON us.user_id = ANY (t.from_user_ids)
+     AND us.user_id <> t.to_user_id
+     AND (t.entitlement_ids IS NULL OR us.rc_entitlement_id = ANY (t.entitlement_ids))
+     AND us.status <> 'inactive'
+  ),
+  moved AS (
+    -- The receiver takes the row; the sender keeps a detached inactive one
+    SELECT
+      t.seq, t.to_user_id, t.rc_entitlement_id, t.to_home_id,
+      t.status, t.current_period_end_at, t.grace_until_at
+    FROM transferred t
+    UNION ALL
+    SELECT
+      t.seq, t.from_user_id, t.rc_entitlement_id, NULL::uuid,
+      'inactive'::public.subscription_status, t.current_period_end_at, t.grace_until_at
+    FROM transferred t
+  ),
+  changed AS (
+    SELECT DISTINCT ON (c.user_id, c.entitlement_id) c.*
+    FROM (
+      SELECT * FROM recorded
+      UNION ALL
+      SELECT * FROM moved
+    ) c
+    ORDER BY c.user_id, c.entitlement_id, c.seq DESC
+  ),
+  before_after AS (
+    SELECT
+      c.user_id,
+      c.entitlement_id,
+      us.home_id AS from_home_id,
+      us.status AS from_status,
+      c.home_id AS to_home_id,
+      c.status AS to_status
+    FROM changed c
+    LEFT JOIN public.user_subscriptions us
+      ON us.user_id = c.user_id
+     AND us.rc_entitlement_id = c.entitlement_id
+  ),
+  homes AS (
+    SELECT ba.from_home_id AS home_id FROM before_after ba WHERE ba.from_home_id IS NOT NULL
+    UNION
+    SELECT ba.to_home_id FROM before_after ba WHERE ba.to_home_id IS NOT NULL
+  ),
+  projected AS (
+    SELECT us.home_id, us.status, us.current_period_end_at, us.grace_until_at
+    FROM public.user_subscriptions us
+    WHERE us.home_id IN (SELECT h.home_id FROM homes h)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM changed c
+        WHERE c.user_id = us.user_id
+          AND c.entitlement_id = us.rc_entitlement_id
+      )
+    UNION ALL
+    SELECT c.home_id, c.status, c.current_period_end_at, c.grace_until_at
+    FROM changed c
+    WHERE c.home_id IS NOT NULL
+  )
+  SELECT
+    h.home_id,
+    COALESCE(he.plan, 'free') AS current_plan,
+    he.expires_at AS current_expires_at,
+    CASE WHEN f.has_valid THEN 'premium' ELSE 'free' END AS projected_plan,
+    CASE WHEN f.has_valid THEN f.latest_exp END AS projected_expires_at,
+    (
+      SELECT jsonb_agg(
+               jsonb_build_object(
+                 'user_id',        ba.user_id,
+                 'entitlement_id', ba.entitlement_id,
+                 'from_status',    ba.from_status,
+                 'to_status',      ba.to_status
+               )
+               ORDER BY ba.user_id, ba.entitlement_id
+             )
+      FROM before_after ba
+      WHERE ba.from_home_id = h.home_id OR ba.to_home_id = h.home_id
+    ) AS subscriptions
+  FROM homes h
+  LEFT JOIN public.home_entitlements he ON he.home_id = h.home_id
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(
+        bool_or((fu.funded_until IS NULL AND fu.status <> 'in_grace') OR fu.funded_until > now()),
+        FALSE
+      ) AS has_valid,
+      MAX(fu.funded_until) AS latest_exp
+    FROM (
+      SELECT
+        CASE WHEN p.status = 'in_grace' THEN p.grace_until_at ELSE p.current_period_end_at END AS funded_until,
+        p.status
+      FROM projected p
+      WHERE p.home_id = h.home_id
+        AND p.status IN ('active', 'in_grace', 'cancelled_pending_expiry')
+    ) fu
+  ) f
+  ORDER BY h.home_id;
+$$;
+
+
+ALTER FUNCTION "public"."paywall_webhook_replay_preview"("p_changes" "jsonb") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."paywall_webhook_replay_preview"("p_changes" "jsonb") IS 'Service-role: current vs projected home plans for subscription writes captured by a dry-run webhook replay. Read-only.';
+
+
+
 CREATE OR REPLACE FUNCTION "public"."personal_gratitude_inbox_list_v1"("p_limit" integer DEFAULT 30, "p_before_at" timestamp with time zone DEFAULT NULL::timestamp with time zone, "p_before_id" "uuid" DEFAULT NULL::"uuid") RETURNS TABLE("id" "uuid", "created_at" timestamp with time zone, "home_id" "uuid", "mood" "public"."mood_scale", "message" "text", "source_kind" "text", "source_post_id" "uuid", "source_entry_id" "uuid", "author_user_id" "uuid", "author_username" "public"."citext", "author_avatar_id" "uuid", "author_avatar_path" "text")
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
@@ -12854,11 +15081,12 @@ $$;
 ALTER FUNCTION "public"."requeue_jobs_after_submit_failure"("p_job_ids" "uuid"[], "p_error" "text", "p_backoff_seconds" integer) OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."rewrite_batch_list_pending_v1"("p_limit" integer DEFAULT 20) RETURNS TABLE("provider_batch_id" "text", "status" "text", "input_file_id" "text", "output_file_id" "text", "error_file_id" "text", "endpoint" "text")
+CREATE OR REPLACE FUNCTION "public"."rewrite_batch_list_pending_v1"("p_limit" integer DEFAULT 20) RETURNS TABLE("provider_batch_id" "text", "status" "text", "input_file_id" "text", "output_file_id" "text", "error_file_id" "text", "endpoint" "text", "provider" "text", "adapter_kind" "text", "base_url" "text")
     LANGUAGE "sql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
-  select provider_batch_id, status, input_file_id, output_file_id, error_file_id, endpoint
+  select provider_batch_id, status, input_file_id, output_file_id, error_file_id, endpoint,
+         provider, adapter_kind, base_url
   from public.rewrite_provider_batches
   where status in ('submitted','running')
   order by coalesce(last_checked_at, created_at) asc
@@ -12869,14 +15097,19 @@ $$;
 ALTER FUNCTION "public"."rewrite_batch_list_pending_v1"("p_limit" integer) OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text" DEFAULT '/v1/responses'::"text") RETURNS "void"
+CREATE OR REPLACE FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text" DEFAULT '/v1/responses'::"text", "p_provider" "text" DEFAULT 'openai'::"text", "p_adapter_kind" "text" DEFAULT 'openai_responses'::"text", "p_base_url" "text" DEFAULT NULL::"text") RETURNS "void"
     LANGUAGE "sql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
   insert into public.rewrite_provider_batches(
-    provider_batch_id, provider, endpoint, status, input_file_id, job_count
+    provider_batch_id, provider, adapter_kind, base_url,
+    endpoint, status, input_file_id, job_count
   ) values (
-    p_provider_batch_id, 'openai', p_endpoint, 'submitted', p_input_file_id, coalesce(p_job_count,0)
+    p_provider_batch_id,
+    coalesce(nullif(btrim(p_provider), ''), 'openai'),
+    coalesce(nullif(btrim(p_adapter_kind), ''), 'openai_responses'),
+    nullif(btrim(p_base_url), ''),
+    p_endpoint, 'submitted', p_input_file_id, coalesce(p_job_count,0)
   )
   on conflict (provider_batch_id)
   do update set
@@ -12890,7 +15123,7 @@ CREATE OR REPLACE FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batc
 $$;
 
 
-ALTER FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text") OWNER TO "postgres";
+ALTER FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text", "p_provider" "text", "p_adapter_kind" "text", "p_base_url" "text") OWNER TO "postgres";
 
 
 CREATE OR REPLACE FUNCTION "public"."rewrite_batch_update_v1"("p_provider_batch_id" "text", "p_status" "text", "p_output_file_id" "text" DEFAULT NULL::"text", "p_error_file_id" "text" DEFAULT NULL::"text") RETURNS "void"
@@ -12924,13 +15157,14 @@ $$;
 ALTER FUNCTION "public"."rewrite_job_fetch_v1"("p_job_id" "uuid") OWNER TO "postgres";
 
 
-CREATE OR REPLACE FUNCTION "public"."rewrite_jobs_requeue_by_provider_batch_v1"("p_provider_batch_id" "text", "p_reason" "text" DEFAULT 'provider_batch_missing_output_file'::"text", "p_backoff_seconds" integer DEFAULT 1800, "p_limit" integer DEFAULT 500) RETURNS TABLE("job_id" "uuid", "prev_status" "text", "new_status" "text", "not_before_at" timestamp with time zone)
+CREATE OR REPLACE FUNCTION "public"."rewrite_jobs_requeue_by_provider_batch_v1"("p_provider_batch_id" "text", "p_reason" "text" DEFAULT 'provider_batch_missing_output_file'::"text", "p_backoff_seconds" integer DEFAULT 1800, "p_limit" integer DEFAULT 500) RETURNS TABLE("job_id" "uuid", "rewrite_request_id" "uuid", "prev_status" "text", "new_status" "text", "not_before_at" timestamp with time zone)
     LANGUAGE "plpgsql" SECURITY DEFINER
     SET "search_path" TO ''
     AS $$
 declare
   v_now timestamptz := now();
   v_not_before timestamptz := v_now + make_interval(secs => greatest(coalesce(p_backoff_seconds, 0), 0));
+  v_error text := left(coalesce(p_reason, 'requeued') || ': batch=' || p_provider_batch_id, 512);
 begin
   if p_provider_batch_id is null or btrim(p_provider_batch_id) = '' then
     raise exception 'p_provider_batch_id required';
@@ -12938,7 +15172,7 @@ begin
 
   return query
   with target as (
-    select j.job_id, j.status as prev_status
+    select j.job_id, j.status as prev_status, j.attempt_count >= j.max_attempts as exhausted
     from public.rewrite_jobs j
     where j.provider_batch_id = p_provider_batch_id
       and j.status = 'batch_submitted'
@@ -12949,16 +15183,16 @@ begin
   upd as (
     update public.rewrite_jobs j
     set
-      status = 'queued',
-      not_before_at = v_not_before,
-      last_error = left(coalesce(p_reason, 'requeued') || ': batch=' || p_provider_batch_id, 512),
+      status = case when t.exhausted then 'failed' else 'queued' end,
+      not_before_at = case when t.exhausted then j.not_before_at else v_not_before end,
+      last_error = v_error,
       last_error_at = v_now,
       updated_at = v_now,
-      provider_batch_id = null,
-      submitted_at = null
+      provider_batch_id = case when t.exhausted then j.provider_batch_id else null end,
+      submitted_at = case when t.exhausted then j.submitted_at else null end
     from target t
     where j.job_id = t.job_id
-    returning j.job_id, t.prev_status, j.status as new_status, j.not_before_at
+    returning j.job_id, j.rewrite_request_id, t.prev_status, j.status as new_status, j.not_before_at
   )
   select * from upd;
 end;
@@ -13496,6 +15730,90 @@ $$;
 ALTER FUNCTION "public"."shopping_list_update_item"("p_item_id" "uuid", "p_name" "text", "p_quantity" "text", "p_details" "text", "p_is_completed" boolean, "p_reference_photo_path" "text", "p_replace_photo" boolean) OWNER TO "postgres";
 
 
+CREATE OR REPLACE FUNCTION "public"."today_content_summary"("p_user_id" "uuid", "p_timezone" "text", "p_local_date" "date") RETURNS "jsonb"
+    LANGUAGE "plpgsql" SECURITY DEFINER
+    SET "search_path" TO ''
+    AS $$
+DECLARE
+  v_home_id          uuid;
+  v_prev_sub         text := current_setting('request.jwt.claim.sub', true);
+  v_has_content      boolean;
+  v_chores_due       integer := 0;
+  v_gratitude_unread integer := 0;
+  v_expenses_owed    integer := 0;
+  v_expense_payer    text;
+  v_owed             jsonb;
+  v_last_read_at     timestamptz;
+  v_has_unread       boolean;
+BEGIN
+  v_has_content := public.today_has_content(p_user_id, p_timezone, p_local_date);
+
+  SELECT home_id
+  INTO v_home_id
+  FROM public.memberships
+  WHERE user_id = p_user_id
+    AND is_current = TRUE
+  LIMIT 1;
+
+  IF v_home_id IS NULL OR v_has_content IS NOT TRUE THEN
+    RETURN jsonb_build_object(
+      'has_content', COALESCE(v_has_content, FALSE),
+      'chores_due', 0,
+      'gratitude_unread', 0,
+      'expenses_owed', 0,
+      'expense_payer', NULL
+    );
+  END IF;
+
+  -- Impersonate the user for existing RPCs that rely on auth.uid()
+  PERFORM set_config('request.jwt.claim.sub', p_user_id::text, true);
+
+  SELECT count(*)::int
+  INTO v_chores_due
+  FROM public.today_flow_list(v_home_id, 'active', p_local_date);
+
+  v_owed := COALESCE(public.expenses_get_current_owed(v_home_id), '[]'::jsonb);
+  SELECT
+    COALESCE(sum(jsonb_array_length(COALESCE(o->'items', '[]'::jsonb))), 0)::int,
+    (array_agg(o->>'payerDisplay'))[1]
+  INTO v_expenses_owed, v_expense_payer
+  FROM jsonb_array_elements(v_owed) o;
+
+  SELECT s.has_unread, s.last_read_at
+  INTO v_has_unread, v_last_read_at
+  FROM public.gratitude_wall_status(v_home_id) s;
+
+  IF v_has_unread IS TRUE THEN
+    SELECT count(*)::int
+    INTO v_gratitude_unread
+    FROM public.gratitude_wall_posts p
+    WHERE p.home_id = v_home_id
+      AND p.author_user_id <> p_user_id
+      AND (v_last_read_at IS NULL OR p.created_at > v_last_read_at);
+  END IF;
+
+  -- Restore previous sub claim (best-effort)
+  PERFORM set_config('request.jwt.claim.sub', COALESCE(v_prev_sub, ''), true);
+
+  RETURN jsonb_build_object(
+    'has_content', TRUE,
+    'chores_due', v_chores_due,
+    'gratitude_unread', v_gratitude_unread,
+    'expenses_owed', v_expenses_owed,
+    -- Only ever shown to the debtor themself; no cross-user disclosure
+    'expense_payer', v_expense_payer
+  );
+END;
+$$;
+
+
+ALTER FUNCTION "public"."today_content_summary"("p_user_id" "uuid", "p_timezone" "text", "p_local_date" "date") OWNER TO "postgres";
+
+
+COMMENT ON FUNCTION "public"."today_content_summary"("p_user_id" "uuid", "p_timezone" "text", "p_local_date" "date") IS 'Counts Today content for daily copy: active chores due, unread gratitude posts, unpaid expense splits owed.';
+
+
+
 CREATE OR REPLACE FUNCTION "public"."today_flow_list"("p_home_id" "uuid", "p_state" "public"."chore_state", "p_local_date" "date" DEFAULT CURRENT_DATE) RETURNS TABLE("id" "uuid", "home_id" "uuid", "name" "text", "start_date" "date", "state" "public"."chore_state")
     LANGUAGE "sql" SECURITY DEFINER
     SET "search_path" TO ''
@@ -13840,7 +16158,8 @@ BEGIN
 
     -- Case 2: same home_id, but status/expiry changed
     ELSIF NEW.status IS DISTINCT FROM OLD.status
-       OR NEW.current_period_end_at IS DISTINCT FROM OLD.current_period_end_at THEN
+       OR NEW.current_period_end_at IS DISTINCT FROM OLD.current_period_end_at
+       OR NEW.grace_until_at IS DISTINCT FROM OLD.grace_until_at THEN
       IF NEW.home_id IS NOT NULL THEN
         PERFORM public.home_entitlements_refresh(NEW.home_id);
       END IF;
@@ -14010,7 +16329,7 @@ CREATE TABLE IF NOT EXISTS "public"."complaint_ai_providers" (
     "active" boolean DEFAULT true NOT NULL,
     "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
     "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
-    CONSTRAINT "ck_complaint_ai_adapter_kind" CHECK (("adapter_kind" = ANY (ARRAY['openai_responses'::"text", 'openai_compat_responses'::"text", 'openai_compat_chat_completions'::"text", 'gemini'::"text", 'stub'::"text"])))
+    CONSTRAINT "ck_complaint_ai_adapter_kind" CHECK (("adapter_kind" = ANY (ARRAY['openai_responses'::"text", 'openai_compat_responses'::"text", 'openai_compat_chat_completions'::"text", 'anthropic_messages'::"text", 'gemini'::"text", 'stub'::"text"])))
 );
 
 
@@ -14033,6 +16352,7 @@ CREATE TABLE IF NOT EXISTS "public"."complaint_rewrite_routes" (
     "active" boolean DEFAULT true NOT NULL,
     "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
     "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "ck_complaint_route_execution_mode" CHECK (("execution_mode" = ANY (ARRAY['async'::"text", 'batch'::"text", 'realtime'::"text"]))),
     CONSTRAINT "ck_complaint_route_lane" CHECK (("lane" = ANY (ARRAY['same_language'::"text", 'cross_language'::"text"]))),
     CONSTRAINT "ck_complaint_route_strength" CHECK (("rewrite_strength" = ANY (ARRAY['light_touch'::"text", 'full_reframe'::"text"]))),
     CONSTRAINT "ck_complaint_route_surface" CHECK (("surface" = ANY (ARRAY['weekly_harmony'::"text", 'direct_message'::"text", 'other'::"text"])))
@@ -14080,7 +16400,8 @@ CREATE TABLE IF NOT EXISTS "public"."device_tokens" (
     "status" "text" DEFAULT 'active'::"text" NOT NULL,
     "last_seen_at" timestamp with time zone DEFAULT "now"() NOT NULL,
     "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
-    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "chk_device_tokens_provider" CHECK (("provider" = ANY (ARRAY['fcm'::"text", 'apns'::"text", 'webpush'::"text"])))
 );
 
 
@@ -14597,23 +16918,57 @@ COMMENT ON COLUMN "public"."memberships"."valid_from" IS 'Inclusive start timest
 
 
 
-COMMENT ON COLUMN "public"."memberships"."valid_to" IS 'Exclusive end timestamp; NULL means the stint is still current.';
+COMMENT ON COLUMN "public"."memberships"."valid_to" IS 'Exclusive end timestamp; NULL means the stint is still current.';
+
+
+
+COMMENT ON COLUMN "public"."memberships"."is_current" IS 'Computed: TRUE when valid_to IS NULL. Do not update directly.';
+
+
+
+COMMENT ON COLUMN "public"."memberships"."validity" IS 'Generated tstzrange of [valid_from, valid_to) (infinity if open) for overlap checks.';
+
+
+
+COMMENT ON COLUMN "public"."memberships"."created_at" IS 'Audit timestamp when the row was created.';
+
+
+
+COMMENT ON COLUMN "public"."memberships"."updated_at" IS 'Audit timestamp of the most recent update to the row.';
+
 
 
+CREATE TABLE IF NOT EXISTS "public"."notification_events" (
+    "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
+    "kind" "text" NOT NULL,
+    "recipient_user_id" "uuid" NOT NULL,
+    "home_id" "uuid",
+    "actor_user_id" "uuid",
+    "payload" "jsonb" DEFAULT '{}'::"jsonb" NOT NULL,
+    "dedupe_key" "text" NOT NULL,
+    "status" "text" DEFAULT 'pending'::"text" NOT NULL,
+    "attempts" integer DEFAULT 0 NOT NULL,
+    "error" "text",
+    "claimed_at" timestamp with time zone,
+    "processed_at" timestamp with time zone,
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    CONSTRAINT "chk_notification_events_kind" CHECK (("kind" = ANY (ARRAY['chore_assigned'::"text", 'expense_owed'::"text", 'expense_reminder'::"text", 'gratitude_mention'::"text", 'house_pulse_weekly'::"text", 'subscription_status'::"text"]))),
+    CONSTRAINT "chk_notification_events_status" CHECK (("status" = ANY (ARRAY['pending'::"text", 'processing'::"text", 'sent'::"text", 'skipped'::"text", 'failed'::"text"])))
+);
 
-COMMENT ON COLUMN "public"."memberships"."is_current" IS 'Computed: TRUE when valid_to IS NULL. Do not update directly.';
 
+ALTER TABLE "public"."notification_events" OWNER TO "postgres";
 
 
-COMMENT ON COLUMN "public"."memberships"."validity" IS 'Generated tstzrange of [valid_from, valid_to) (infinity if open) for overlap checks.';
+COMMENT ON TABLE "public"."notification_events" IS 'Outbox of push-worthy events, one row per recipient. Written by emitter triggers, drained by the notifications_dispatch Edge Function.';
 
 
 
-COMMENT ON COLUMN "public"."memberships"."created_at" IS 'Audit timestamp when the row was created.';
+COMMENT ON COLUMN "public"."notification_events"."payload" IS 'Kind-specific render data (ids + display strings captured at emit time).';
 
 
 
-COMMENT ON COLUMN "public"."memberships"."updated_at" IS 'Audit timestamp of the most recent update to the row.';
+COMMENT ON COLUMN "public"."notification_events"."dedupe_key" IS 'Stable per (kind, source row, recipient); re-emits of the same event are ignored.';
 
 
 
@@ -14629,7 +16984,16 @@ CREATE TABLE IF NOT EXISTS "public"."notification_sends" (
     "failed_at" timestamp with time zone,
     "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
     "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
-    "token_id" "uuid"
+    "token_id" "uuid",
+    "template_id" "text",
+    "kind" "text" DEFAULT 'daily'::"text" NOT NULL,
+    "event_id" "uuid",
+    "attempts" integer DEFAULT 1 NOT NULL,
+    "next_retry_at" timestamp with time zone,
+    "opened_at" timestamp with time zone,
+    "locale" "text",
+    "local_send_hour" smallint,
+    CONSTRAINT "chk_notification_sends_local_send_hour" CHECK ((("local_send_hour" IS NULL) OR (("local_send_hour" >= 0) AND ("local_send_hour" <= 23))))
 );
 
 
@@ -14640,6 +17004,14 @@ COMMENT ON COLUMN "public"."notification_sends"."status" IS 'Notification send s
 
 
 
+COMMENT ON COLUMN "public"."notification_sends"."template_id" IS 'Daily copy template id (e.g. daily_chores_due_v1); null for sends before templates.';
+
+
+
+COMMENT ON COLUMN "public"."notification_sends"."next_retry_at" IS 'Set on failed daily sends queued for another attempt (transient push failure); NULL = final';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."outreach_event_logs" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "event" "text" NOT NULL,
@@ -15030,6 +17402,31 @@ CREATE TABLE IF NOT EXISTS "public"."revenuecat_event_processing" (
 ALTER TABLE "public"."revenuecat_event_processing" OWNER TO "postgres";
 
 
+CREATE TABLE IF NOT EXISTS "public"."revenuecat_subscriber_checks" (
+    "user_id" "uuid" NOT NULL,
+    "checked_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "outcome" "text" NOT NULL,
+    "corrections" integer DEFAULT 0 NOT NULL,
+    "error" "text",
+    CONSTRAINT "revenuecat_subscriber_checks_outcome_check" CHECK (("outcome" = ANY (ARRAY['unchanged'::"text", 'corrected'::"text", 'not_found'::"text", 'raced'::"text", 'rejected'::"text", 'error'::"text"])))
+);
+
+
+ALTER TABLE "public"."revenuecat_subscriber_checks" OWNER TO "postgres";
+
+
+COMMENT ON TABLE "public"."revenuecat_subscriber_checks" IS 'Last RevenueCat REST cross-check per user (revenuecat_reconcile job).';
+
+
+
+COMMENT ON COLUMN "public"."revenuecat_subscriber_checks"."outcome" IS 'unchanged | corrected | not_found (no RevenueCat subscriber) | raced (webhook applied meanwhile) | rejected (invalid lifecycle transition) | error.';
+
+
+
+COMMENT ON COLUMN "public"."revenuecat_subscriber_checks"."corrections" IS 'Entitlements rewritten through paywall_record_subscription in this check.';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."revenuecat_webhook_events" (
     "id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "event_timestamp" timestamp with time zone,
@@ -15056,7 +17453,12 @@ CREATE TABLE IF NOT EXISTS "public"."revenuecat_webhook_events" (
     "rpc_error_code" "text",
     "rpc_error" "text",
     "rpc_retryable" boolean,
-    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL
+    "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "superseded_reason" "text",
+    "grace_until_at" timestamp with time zone,
+    "rejected_transition" "text",
+    "replayed_at" timestamp with time zone,
+    "replay_outcome" "text"
 );
 
 
@@ -15067,6 +17469,22 @@ COMMENT ON TABLE "public"."revenuecat_webhook_events" IS 'Audit log of RevenueCa
 
 
 
+COMMENT ON COLUMN "public"."revenuecat_webhook_events"."superseded_reason" IS 'Set when the event arrived after a newer one was applied (older_event | older_transaction); the event was not applied.';
+
+
+
+COMMENT ON COLUMN "public"."revenuecat_webhook_events"."rejected_transition" IS 'Set when the event would break the subscription lifecycle (e.g. expired->in_grace); the event was not applied.';
+
+
+
+COMMENT ON COLUMN "public"."revenuecat_webhook_events"."replayed_at" IS 'Last time the stored payload was reprocessed by revenuecat_webhook_replay.';
+
+
+
+COMMENT ON COLUMN "public"."revenuecat_webhook_events"."replay_outcome" IS 'Outcome of the last replay: applied | deduped | superseded | rejected | fatal | failed.';
+
+
+
 CREATE TABLE IF NOT EXISTS "public"."rewrite_jobs" (
     "job_id" "uuid" DEFAULT "gen_random_uuid"() NOT NULL,
     "rewrite_request_id" "uuid" NOT NULL,
@@ -15091,7 +17509,10 @@ CREATE TABLE IF NOT EXISTS "public"."rewrite_jobs" (
     "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
     "provider_batch_id" "text",
     "submitted_at" timestamp with time zone,
+    "target_locale" "text",
+    "rewrite_request" "jsonb",
     CONSTRAINT "ck_rewrite_jobs_language_pair_obj" CHECK (("jsonb_typeof"("language_pair") = 'object'::"text")),
+    CONSTRAINT "ck_rewrite_jobs_rewrite_request_obj" CHECK ((("rewrite_request" IS NULL) OR ("jsonb_typeof"("rewrite_request") = 'object'::"text"))),
     CONSTRAINT "ck_rewrite_jobs_routing_decision_obj" CHECK (("jsonb_typeof"("routing_decision") = 'object'::"text")),
     CONSTRAINT "rewrite_jobs_lane_check" CHECK (("lane" = ANY (ARRAY['same_language'::"text", 'cross_language'::"text"]))),
     CONSTRAINT "rewrite_jobs_rewrite_strength_check" CHECK (("rewrite_strength" = ANY (ARRAY['light_touch'::"text", 'full_reframe'::"text"]))),
@@ -15137,7 +17558,8 @@ CREATE TABLE IF NOT EXISTS "public"."rewrite_provider_batches" (
     "last_checked_at" timestamp with time zone,
     "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
     "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
-    CONSTRAINT "rewrite_provider_batches_provider_check" CHECK (("provider" = 'openai'::"text")),
+    "adapter_kind" "text" DEFAULT 'openai_responses'::"text" NOT NULL,
+    "base_url" "text",
     CONSTRAINT "rewrite_provider_batches_status_check" CHECK (("status" = ANY (ARRAY['submitted'::"text", 'running'::"text", 'completed'::"text", 'failed'::"text", 'canceled'::"text"])))
 );
 
@@ -15257,7 +17679,10 @@ CREATE TABLE IF NOT EXISTS "public"."user_subscriptions" (
     "latest_transaction_id" "text",
     "last_synced_at" timestamp with time zone DEFAULT "now"() NOT NULL,
     "created_at" timestamp with time zone DEFAULT "now"() NOT NULL,
-    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL
+    "updated_at" timestamp with time zone DEFAULT "now"() NOT NULL,
+    "last_event_timestamp" timestamp with time zone,
+    "original_transaction_id" "text",
+    "grace_until_at" timestamp with time zone
 );
 
 
@@ -15304,6 +17729,18 @@ COMMENT ON COLUMN "public"."user_subscriptions"."last_synced_at" IS 'Timestamp w
 
 
 
+COMMENT ON COLUMN "public"."user_subscriptions"."last_event_timestamp" IS 'event_timestamp of the newest RevenueCat event applied to this row (out-of-order protection).';
+
+
+
+COMMENT ON COLUMN "public"."user_subscriptions"."original_transaction_id" IS 'Store original transaction id (subscription lineage) of the last applied event.';
+
+
+
+COMMENT ON COLUMN "public"."user_subscriptions"."grace_until_at" IS 'in_grace: end of the store billing grace period; the home stays premium until then.';
+
+
+
 ALTER TABLE ONLY "public"."analytics_events"
     ADD CONSTRAINT "analytics_events_pkey" PRIMARY KEY ("id");
 
@@ -15458,6 +17895,11 @@ COMMENT ON CONSTRAINT "no_overlap_per_user_home" ON "public"."memberships" IS 'P
 
 
 
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_pkey" PRIMARY KEY ("id");
+
+
+
 ALTER TABLE ONLY "public"."notification_preferences"
     ADD CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("user_id");
 
@@ -15613,6 +18055,11 @@ ALTER TABLE ONLY "public"."revenuecat_event_processing"
 
 
 
+ALTER TABLE ONLY "public"."revenuecat_subscriber_checks"
+    ADD CONSTRAINT "revenuecat_subscriber_checks_pkey" PRIMARY KEY ("user_id");
+
+
+
 ALTER TABLE ONLY "public"."revenuecat_webhook_events"
     ADD CONSTRAINT "revenuecat_webhook_events_pkey" PRIMARY KEY ("id");
 
@@ -15668,6 +18115,11 @@ ALTER TABLE ONLY "public"."home_mood_entries"
 
 
 
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "uq_notification_events_dedupe_key" UNIQUE ("dedupe_key");
+
+
+
 ALTER TABLE ONLY "public"."gratitude_wall_personal_items"
     ADD CONSTRAINT "uq_personal_items_recipient_entry" UNIQUE ("recipient_user_id", "source_entry_id");
 
@@ -15837,6 +18289,22 @@ CREATE INDEX "idx_memberships_home_current" ON "public"."memberships" USING "btr
 
 
 
+CREATE INDEX "idx_notification_events_open" ON "public"."notification_events" USING "btree" ("status", "created_at") WHERE ("status" = ANY (ARRAY['pending'::"text", 'processing'::"text"]));
+
+
+
+CREATE INDEX "idx_notification_sends_created_at" ON "public"."notification_sends" USING "btree" ("created_at");
+
+
+
+CREATE INDEX "idx_notification_sends_retry_due" ON "public"."notification_sends" USING "btree" ("next_retry_at") WHERE (("status" = 'failed'::"text") AND ("next_retry_at" IS NOT NULL));
+
+
+
+CREATE INDEX "idx_notification_sends_user_sent_at" ON "public"."notification_sends" USING "btree" ("user_id", "sent_at") WHERE ("status" = 'sent'::"text");
+
+
+
 CREATE INDEX "idx_outreach_event_logs_campaign_source_created_at" ON "public"."outreach_event_logs" USING "btree" ("utm_campaign", "utm_source", "utm_medium", "created_at");
 
 
@@ -15921,6 +18389,10 @@ CREATE INDEX "ix_rewrite_jobs_provider_batch" ON "public"."rewrite_jobs" USING "
 
 
 
+CREATE INDEX "ix_rewrite_jobs_queued_execution_mode" ON "public"."rewrite_jobs" USING "btree" ((("routing_decision" ->> 'execution_mode'::"text")), "not_before_at", "created_at") WHERE ("status" = 'queued'::"text");
+
+
+
 CREATE INDEX "ix_rewrite_jobs_req_status" ON "public"."rewrite_jobs" USING "btree" ("rewrite_request_id", "status");
 
 
@@ -15997,7 +18469,11 @@ COMMENT ON INDEX "public"."uq_memberships_user_one_current" IS 'Guarantees a use
 
 
 
-CREATE UNIQUE INDEX "uq_notification_sends_token_date" ON "public"."notification_sends" USING "btree" ("token_id", "local_date");
+CREATE UNIQUE INDEX "uq_notification_sends_token_date" ON "public"."notification_sends" USING "btree" ("token_id", "local_date") WHERE ("event_id" IS NULL);
+
+
+
+CREATE UNIQUE INDEX "uq_notification_sends_token_event" ON "public"."notification_sends" USING "btree" ("token_id", "event_id") WHERE ("event_id" IS NOT NULL);
 
 
 
@@ -16093,6 +18569,30 @@ CREATE OR REPLACE TRIGGER "trg_leads_touch_updated_at" BEFORE UPDATE ON "public"
 
 
 
+CREATE OR REPLACE TRIGGER "trg_notification_events_chore_assigned" AFTER INSERT OR UPDATE OF "state", "assignee_user_id" ON "public"."chores" FOR EACH ROW EXECUTE FUNCTION "public"."notification_events_chore_assigned_trigger"();
+
+
+
+CREATE OR REPLACE TRIGGER "trg_notification_events_expense_owed" AFTER INSERT ON "public"."expense_splits" FOR EACH ROW EXECUTE FUNCTION "public"."notification_events_expense_owed_trigger"();
+
+
+
+CREATE OR REPLACE TRIGGER "trg_notification_events_expense_settled" AFTER UPDATE OF "status" ON "public"."expense_splits" FOR EACH ROW WHEN ((("new"."status" = 'paid'::"public"."expense_share_status") AND ("old"."status" IS DISTINCT FROM 'paid'::"public"."expense_share_status"))) EXECUTE FUNCTION "public"."notification_events_expense_settled_trigger"();
+
+
+
+CREATE OR REPLACE TRIGGER "trg_notification_events_gratitude_mention" AFTER INSERT ON "public"."gratitude_wall_mentions" FOR EACH ROW EXECUTE FUNCTION "public"."notification_events_gratitude_mention_trigger"();
+
+
+
+CREATE OR REPLACE TRIGGER "trg_notification_events_subscription_status" AFTER INSERT OR UPDATE OF "status" ON "public"."user_subscriptions" FOR EACH ROW WHEN (("new"."status" <> 'inactive'::"public"."subscription_status")) EXECUTE FUNCTION "public"."notification_events_subscription_status_trigger"();
+
+
+
+CREATE OR REPLACE TRIGGER "trg_notification_sends_snapshot" BEFORE INSERT OR UPDATE OF "status" ON "public"."notification_sends" FOR EACH ROW EXECUTE FUNCTION "public"."notification_sends_snapshot_trigger"();
+
+
+
 CREATE OR REPLACE TRIGGER "trg_outreach_aliases_protect_unknown" BEFORE DELETE OR UPDATE ON "public"."outreach_source_aliases" FOR EACH ROW EXECUTE FUNCTION "public"."_outreach_aliases_protect_unknown"();
 
 
@@ -16481,11 +18981,31 @@ ALTER TABLE ONLY "public"."memberships"
 
 
 
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_actor_user_id_fkey" FOREIGN KEY ("actor_user_id") REFERENCES "public"."profiles"("id") ON DELETE SET NULL;
+
+
+
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_home_id_fkey" FOREIGN KEY ("home_id") REFERENCES "public"."homes"("id") ON DELETE CASCADE;
+
+
+
+ALTER TABLE ONLY "public"."notification_events"
+    ADD CONSTRAINT "notification_events_recipient_user_id_fkey" FOREIGN KEY ("recipient_user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."notification_preferences"
     ADD CONSTRAINT "notification_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
 
 
 
+ALTER TABLE ONLY "public"."notification_sends"
+    ADD CONSTRAINT "notification_sends_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "public"."notification_events"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."notification_sends"
     ADD CONSTRAINT "notification_sends_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
 
@@ -16561,6 +19081,11 @@ ALTER TABLE ONLY "public"."profiles"
 
 
 
+ALTER TABLE ONLY "public"."revenuecat_subscriber_checks"
+    ADD CONSTRAINT "revenuecat_subscriber_checks_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."profiles"("id") ON DELETE CASCADE;
+
+
+
 ALTER TABLE ONLY "public"."revenuecat_webhook_events"
     ADD CONSTRAINT "revenuecat_webhook_events_home_id_fkey" FOREIGN KEY ("home_id") REFERENCES "public"."homes"("id") ON DELETE SET NULL;
 
@@ -16763,6 +19288,9 @@ ALTER TABLE "public"."member_cap_join_requests" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."memberships" ENABLE ROW LEVEL SECURITY;
 
 
+ALTER TABLE "public"."notification_events" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."notification_preferences" ENABLE ROW LEVEL SECURITY;
 
 
@@ -16828,6 +19356,9 @@ ALTER TABLE "public"."reserved_usernames" ENABLE ROW LEVEL SECURITY;
 ALTER TABLE "public"."revenuecat_event_processing" ENABLE ROW LEVEL SECURITY;
 
 
+ALTER TABLE "public"."revenuecat_subscriber_checks" ENABLE ROW LEVEL SECURITY;
+
+
 ALTER TABLE "public"."revenuecat_webhook_events" ENABLE ROW LEVEL SECURITY;
 
 
@@ -17255,6 +19786,11 @@ GRANT ALL ON FUNCTION "public"."_cron_call_complaint_trigger_runner"() TO "servi
 
 
 
+REVOKE ALL ON FUNCTION "public"."_cron_call_rewrite_worker"() FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."_cron_call_rewrite_worker"() TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."_current_user_id"() FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."_current_user_id"() TO "service_role";
 
@@ -17396,6 +19932,21 @@ GRANT ALL ON FUNCTION "public"."_member_cap_resolve_requests"("p_home_id" "uuid"
 
 
 
+REVOKE ALL ON FUNCTION "public"."_notification_display_name"("p_user_id" "uuid") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."_notification_display_name"("p_user_id" "uuid") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."_notification_event_enqueue"("p_kind" "text", "p_recipient" "uuid", "p_home_id" "uuid", "p_actor" "uuid", "p_payload" "jsonb", "p_dedupe_key" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."_notification_event_enqueue"("p_kind" "text", "p_recipient" "uuid", "p_home_id" "uuid", "p_actor" "uuid", "p_payload" "jsonb", "p_dedupe_key" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."_notifications_in_quiet_hours"("p_time" time without time zone, "p_start" time without time zone, "p_end" time without time zone) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."_notifications_in_quiet_hours"("p_time" time without time zone, "p_start" time without time zone, "p_end" time without time zone) TO "service_role";
+
+
+
 GRANT ALL ON FUNCTION "public"."_outreach_aliases_protect_unknown"() TO "anon";
 GRANT ALL ON FUNCTION "public"."_outreach_aliases_protect_unknown"() TO "authenticated";
 GRANT ALL ON FUNCTION "public"."_outreach_aliases_protect_unknown"() TO "service_role";
@@ -17455,6 +20006,11 @@ GRANT ALL ON FUNCTION "public"."_shopping_list_get_or_create_active"("p_home_id"
 
 
 
+REVOKE ALL ON FUNCTION "public"."_subscription_transition_allowed"("p_from" "public"."subscription_status", "p_to" "public"."subscription_status") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."_subscription_transition_allowed"("p_from" "public"."subscription_status", "p_to" "public"."subscription_status") TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."_touch_updated_at"() FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."_touch_updated_at"() TO "service_role";
 
@@ -17691,6 +20247,13 @@ GRANT ALL ON FUNCTION "public"."claim_rewrite_jobs_for_batch_submit_v1"("p_limit
 
 
 
+REVOKE ALL ON FUNCTION "public"."claim_rewrite_jobs_for_realtime_v1"("p_limit" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."claim_rewrite_jobs_for_realtime_v1"("p_limit" integer) TO "anon";
+GRANT ALL ON FUNCTION "public"."claim_rewrite_jobs_for_realtime_v1"("p_limit" integer) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."claim_rewrite_jobs_for_realtime_v1"("p_limit" integer) TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."complaint_build_recipient_snapshots"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_recipient_user_id" "uuid", "p_preference_payload" "jsonb") FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."complaint_build_recipient_snapshots"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_recipient_user_id" "uuid", "p_preference_payload" "jsonb") TO "anon";
 GRANT ALL ON FUNCTION "public"."complaint_build_recipient_snapshots"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_recipient_user_id" "uuid", "p_preference_payload" "jsonb") TO "authenticated";
@@ -17725,6 +20288,11 @@ GRANT ALL ON FUNCTION "public"."complaint_rewrite_enqueue"("p_rewrite_request_id
 
 
 
+REVOKE ALL ON FUNCTION "public"."complaint_rewrite_enqueue_recipients_v1"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_sender_user_id" "uuid", "p_surface" "text", "p_original_text" "text", "p_classifier_result" "jsonb", "p_source_locale" "text", "p_topics" "jsonb", "p_intent" "text", "p_rewrite_strength" "text", "p_classifier_version" "text", "p_context_pack_version" "text", "p_policy_version" "text", "p_recipients" "jsonb") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."complaint_rewrite_enqueue_recipients_v1"("p_rewrite_request_id" "uuid", "p_home_id" "uuid", "p_sender_user_id" "uuid", "p_surface" "text", "p_original_text" "text", "p_classifier_result" "jsonb", "p_source_locale" "text", "p_topics" "jsonb", "p_intent" "text", "p_rewrite_strength" "text", "p_classifier_version" "text", "p_context_pack_version" "text", "p_policy_version" "text", "p_recipients" "jsonb") TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."complaint_rewrite_job_fail_or_requeue"("p_job_id" "uuid", "p_error" "text", "p_backoff_seconds" integer) FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."complaint_rewrite_job_fail_or_requeue"("p_job_id" "uuid", "p_error" "text", "p_backoff_seconds" integer) TO "anon";
 GRANT ALL ON FUNCTION "public"."complaint_rewrite_job_fail_or_requeue"("p_job_id" "uuid", "p_error" "text", "p_backoff_seconds" integer) TO "authenticated";
@@ -17732,6 +20300,16 @@ GRANT ALL ON FUNCTION "public"."complaint_rewrite_job_fail_or_requeue"("p_job_id
 
 
 
+REVOKE ALL ON FUNCTION "public"."complaint_rewrite_ops_list_v1"("p_kind" "text", "p_status" "text", "p_stuck_after_seconds" integer, "p_limit" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."complaint_rewrite_ops_list_v1"("p_kind" "text", "p_status" "text", "p_stuck_after_seconds" integer, "p_limit" integer) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."complaint_rewrite_ops_trace_v1"("p_entry_id" "uuid") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."complaint_rewrite_ops_trace_v1"("p_entry_id" "uuid") TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."complaint_rewrite_request_exists"("p_rewrite_request_id" "uuid") FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_exists"("p_rewrite_request_id" "uuid") TO "anon";
 GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_exists"("p_rewrite_request_id" "uuid") TO "authenticated";
@@ -17739,10 +20317,15 @@ GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_exists"("p_rewrite_req
 
 
 
-REVOKE ALL ON FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid") FROM PUBLIC;
-GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid") TO "anon";
-GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid") TO "authenticated";
-GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid", "p_recipient_user_id" "uuid") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid", "p_recipient_user_id" "uuid") TO "anon";
+GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid", "p_recipient_user_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_fetch_v1"("p_rewrite_request_id" "uuid", "p_recipient_user_id" "uuid") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."complaint_rewrite_request_finalize_v1"("p_rewrite_request_id" "uuid") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."complaint_rewrite_request_finalize_v1"("p_rewrite_request_id" "uuid") TO "service_role";
 
 
 
@@ -17829,6 +20412,16 @@ GRANT ALL ON FUNCTION "public"."expense_plans_terminate"("p_plan_id" "uuid") TO
 
 
 
+REVOKE ALL ON FUNCTION "public"."expense_reminders_candidates"("p_limit" integer, "p_after_user_id" "uuid", "p_lookahead_days" integer, "p_lookback_days" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."expense_reminders_candidates"("p_limit" integer, "p_after_user_id" "uuid", "p_lookahead_days" integer, "p_lookback_days" integer) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."expense_reminders_enqueue"("p_reminders" "jsonb") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."expense_reminders_enqueue"("p_reminders" "jsonb") TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."expenses_cancel"("p_expense_id" "uuid") FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."expenses_cancel"("p_expense_id" "uuid") TO "service_role";
 GRANT ALL ON FUNCTION "public"."expenses_cancel"("p_expense_id" "uuid") TO "authenticated";
@@ -19191,6 +21784,16 @@ GRANT ALL ON FUNCTION "public"."house_pulse_compute_week"("p_home_id" "uuid", "p
 
 
 
+REVOKE ALL ON FUNCTION "public"."house_pulse_digest_homes"("p_after_home_id" "uuid", "p_limit" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."house_pulse_digest_homes"("p_after_home_id" "uuid", "p_limit" integer) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."house_pulse_digest_prepare"("p_home_id" "uuid", "p_iso_week_year" integer, "p_iso_week" integer, "p_dry_run" boolean) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."house_pulse_digest_prepare"("p_home_id" "uuid", "p_iso_week_year" integer, "p_iso_week" integer, "p_dry_run" boolean) TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."house_pulse_label_get_v1"("p_pulse_state" "public"."house_pulse_state", "p_contract_version" "text") FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."house_pulse_label_get_v1"("p_pulse_state" "public"."house_pulse_state", "p_contract_version" "text") TO "anon";
 GRANT ALL ON FUNCTION "public"."house_pulse_label_get_v1"("p_pulse_state" "public"."house_pulse_state", "p_contract_version" "text") TO "authenticated";
@@ -19361,10 +21964,71 @@ GRANT ALL ON FUNCTION "public"."mood_submit_v2"("p_home_id" "uuid", "p_mood" "pu
 
 
 
-REVOKE ALL ON FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_offset" integer) FROM PUBLIC;
-GRANT ALL ON FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_offset" integer) TO "anon";
-GRANT ALL ON FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_offset" integer) TO "authenticated";
-GRANT ALL ON FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_offset" integer) TO "service_role";
+GRANT ALL ON FUNCTION "public"."notification_events_chore_assigned_trigger"() TO "anon";
+GRANT ALL ON FUNCTION "public"."notification_events_chore_assigned_trigger"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."notification_events_chore_assigned_trigger"() TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."notification_events_expense_owed_trigger"() TO "anon";
+GRANT ALL ON FUNCTION "public"."notification_events_expense_owed_trigger"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."notification_events_expense_owed_trigger"() TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notification_events_expense_settled_trigger"() FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notification_events_expense_settled_trigger"() TO "service_role";
+
+
+
+GRANT ALL ON FUNCTION "public"."notification_events_gratitude_mention_trigger"() TO "anon";
+GRANT ALL ON FUNCTION "public"."notification_events_gratitude_mention_trigger"() TO "authenticated";
+GRANT ALL ON FUNCTION "public"."notification_events_gratitude_mention_trigger"() TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notification_events_subscription_status_trigger"() FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notification_events_subscription_status_trigger"() TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notification_sends_snapshot_trigger"() FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notification_sends_snapshot_trigger"() TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_claim_send_retries"("p_job_run_id" "text", "p_limit" integer, "p_max_attempts" integer, "p_shard_index" integer, "p_shard_count" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_claim_send_retries"("p_job_run_id" "text", "p_limit" integer, "p_max_attempts" integer, "p_shard_index" integer, "p_shard_count" integer) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_after_user_id" "uuid", "p_after_token_id" "uuid", "p_cap_window_hours" integer, "p_shard_index" integer, "p_shard_count" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_daily_candidates"("p_limit" integer, "p_after_user_id" "uuid", "p_after_token_id" "uuid", "p_cap_window_hours" integer, "p_shard_index" integer, "p_shard_count" integer) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_delivery_due"("p_local_now" timestamp without time zone, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone, "p_quiet_hours_end" time without time zone) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_delivery_due"("p_local_now" timestamp without time zone, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone, "p_quiet_hours_end" time without time zone) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_delivery_report"("p_from" timestamp with time zone, "p_to" timestamp with time zone) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_delivery_report"("p_from" timestamp with time zone, "p_to" timestamp with time zone) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_events_claim"("p_limit" integer, "p_cap_window_hours" integer, "p_stale_claim_minutes" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_events_claim"("p_limit" integer, "p_cap_window_hours" integer, "p_stale_claim_minutes" integer) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_events_complete"("p_event_id" "uuid", "p_status" "text", "p_error" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_events_complete"("p_event_id" "uuid", "p_status" "text", "p_error" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_mark_event_send_success"("p_send_id" "uuid") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_mark_event_send_success"("p_send_id" "uuid") TO "service_role";
 
 
 
@@ -19382,10 +22046,26 @@ GRANT ALL ON FUNCTION "public"."notifications_mark_token_status"("p_token_id" "u
 
 
 
-REVOKE ALL ON FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text") FROM PUBLIC;
-GRANT ALL ON FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text") TO "anon";
-GRANT ALL ON FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text") TO "authenticated";
-GRANT ALL ON FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."notifications_record_open"("p_send_id" "uuid") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_record_open"("p_send_id" "uuid") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."notifications_record_open"("p_send_id" "uuid") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_reserve_event_send"("p_event_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_reserve_event_send"("p_event_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."notifications_reserve_send"("p_user_id" "uuid", "p_token_id" "uuid", "p_local_date" "date", "p_job_run_id" "text", "p_template_id" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_schedule_send_retry"("p_send_id" "uuid", "p_error" "text", "p_next_retry_at" timestamp with time zone) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_schedule_send_retry"("p_send_id" "uuid", "p_error" "text", "p_next_retry_at" timestamp with time zone) TO "service_role";
 
 
 
@@ -19395,10 +22075,22 @@ GRANT ALL ON TABLE "public"."notification_preferences" TO "service_role";
 
 
 
-REVOKE ALL ON FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer) FROM PUBLIC;
-GRANT ALL ON FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer) TO "anon";
-GRANT ALL ON FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer) TO "authenticated";
-GRANT ALL ON FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer) TO "service_role";
+REVOKE ALL ON FUNCTION "public"."notifications_set_kind_enabled"("p_kind" "text", "p_enabled" boolean) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_set_kind_enabled"("p_kind" "text", "p_enabled" boolean) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."notifications_set_kind_enabled"("p_kind" "text", "p_enabled" boolean) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_provider" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_provider" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_provider" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."notifications_sync_client_state"("p_token" "text", "p_platform" "text", "p_locale" "text", "p_timezone" "text", "p_os_permission" "text", "p_wants_daily" boolean, "p_preferred_hour" integer, "p_preferred_minute" integer, "p_provider" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."notifications_update_delivery_window"("p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone, "p_quiet_hours_end" time without time zone) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."notifications_update_delivery_window"("p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone, "p_quiet_hours_end" time without time zone) TO "authenticated";
+GRANT ALL ON FUNCTION "public"."notifications_update_delivery_window"("p_send_window_minutes" integer, "p_quiet_hours_start" time without time zone, "p_quiet_hours_end" time without time zone) TO "service_role";
 
 
 
@@ -19451,10 +22143,18 @@ GRANT ALL ON FUNCTION "public"."paywall_log_event"("p_home_id" "uuid", "p_event_
 
 
 
-REVOKE ALL ON FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[]) FROM PUBLIC;
-GRANT ALL ON FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[]) TO "anon";
-GRANT ALL ON FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[]) TO "authenticated";
-GRANT ALL ON FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[]) TO "service_role";
+REVOKE ALL ON FUNCTION "public"."paywall_reconcile_candidates"("p_limit" integer, "p_stale_after" interval) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_reconcile_candidates"("p_limit" integer, "p_stale_after" interval) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."paywall_reconcile_record_check"("p_user_id" "uuid", "p_outcome" "text", "p_corrections" integer, "p_error" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_reconcile_record_check"("p_user_id" "uuid", "p_outcome" "text", "p_corrections" integer, "p_error" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[], "p_applied_state" "jsonb", "p_grace_until_at" timestamp with time zone) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_record_subscription"("p_idempotency_key" "text", "p_user_id" "uuid", "p_home_id" "uuid", "p_store" "public"."subscription_store", "p_rc_app_user_id" "text", "p_entitlement_id" "text", "p_product_id" "text", "p_status" "public"."subscription_status", "p_current_period_end_at" timestamp with time zone, "p_original_purchase_at" timestamp with time zone, "p_last_purchase_at" timestamp with time zone, "p_latest_transaction_id" "text", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text", "p_rc_event_id" "text", "p_original_transaction_id" "text", "p_raw_event" "jsonb", "p_warnings" "text"[], "p_applied_state" "jsonb", "p_grace_until_at" timestamp with time zone) TO "service_role";
 
 
 
@@ -19464,6 +22164,36 @@ GRANT ALL ON FUNCTION "public"."paywall_status_get"("p_home_id" "uuid") TO "serv
 
 
 
+REVOKE ALL ON FUNCTION "public"."paywall_subscription_applied_state"("p_user_id" "uuid", "p_entitlement_id" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_subscription_applied_state"("p_user_id" "uuid", "p_entitlement_id" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."paywall_subscriptions_grace_sweep"() FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_subscriptions_grace_sweep"() TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."paywall_transfer_subscription"("p_idempotency_key" "text", "p_to_user_id" "uuid", "p_from_user_ids" "uuid"[], "p_home_id" "uuid", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_transfer_subscription"("p_idempotency_key" "text", "p_to_user_id" "uuid", "p_from_user_ids" "uuid"[], "p_home_id" "uuid", "p_entitlement_ids" "text"[], "p_event_timestamp" timestamp with time zone, "p_environment" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."paywall_webhook_replay_events"("p_fatal_error_code" "text", "p_rpc_retryable" boolean, "p_from" timestamp with time zone, "p_to" timestamp with time zone, "p_home_id" "uuid", "p_limit" integer) FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_webhook_replay_events"("p_fatal_error_code" "text", "p_rpc_retryable" boolean, "p_from" timestamp with time zone, "p_to" timestamp with time zone, "p_home_id" "uuid", "p_limit" integer) TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."paywall_webhook_replay_mark"("p_event_id" "uuid", "p_outcome" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_webhook_replay_mark"("p_event_id" "uuid", "p_outcome" "text") TO "service_role";
+
+
+
+REVOKE ALL ON FUNCTION "public"."paywall_webhook_replay_preview"("p_changes" "jsonb") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."paywall_webhook_replay_preview"("p_changes" "jsonb") TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."personal_gratitude_inbox_list_v1"("p_limit" integer, "p_before_at" timestamp with time zone, "p_before_id" "uuid") FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."personal_gratitude_inbox_list_v1"("p_limit" integer, "p_before_at" timestamp with time zone, "p_before_id" "uuid") TO "service_role";
 GRANT ALL ON FUNCTION "public"."personal_gratitude_inbox_list_v1"("p_limit" integer, "p_before_at" timestamp with time zone, "p_before_id" "uuid") TO "authenticated";
@@ -19647,10 +22377,10 @@ GRANT ALL ON FUNCTION "public"."rewrite_batch_list_pending_v1"("p_limit" integer
 
 
 
-REVOKE ALL ON FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text") FROM PUBLIC;
-GRANT ALL ON FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text") TO "anon";
-GRANT ALL ON FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text") TO "authenticated";
-GRANT ALL ON FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text") TO "service_role";
+REVOKE ALL ON FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text", "p_provider" "text", "p_adapter_kind" "text", "p_base_url" "text") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text", "p_provider" "text", "p_adapter_kind" "text", "p_base_url" "text") TO "anon";
+GRANT ALL ON FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text", "p_provider" "text", "p_adapter_kind" "text", "p_base_url" "text") TO "authenticated";
+GRANT ALL ON FUNCTION "public"."rewrite_batch_register_v1"("p_provider_batch_id" "text", "p_input_file_id" "text", "p_job_count" integer, "p_endpoint" "text", "p_provider" "text", "p_adapter_kind" "text", "p_base_url" "text") TO "service_role";
 
 
 
@@ -19799,6 +22529,11 @@ GRANT ALL ON FUNCTION "public"."time_dist"(time without time zone, time without
 
 
 
+REVOKE ALL ON FUNCTION "public"."today_content_summary"("p_user_id" "uuid", "p_timezone" "text", "p_local_date" "date") FROM PUBLIC;
+GRANT ALL ON FUNCTION "public"."today_content_summary"("p_user_id" "uuid", "p_timezone" "text", "p_local_date" "date") TO "service_role";
+
+
+
 REVOKE ALL ON FUNCTION "public"."today_flow_list"("p_home_id" "uuid", "p_state" "public"."chore_state", "p_local_date" "date") FROM PUBLIC;
 GRANT ALL ON FUNCTION "public"."today_flow_list"("p_home_id" "uuid", "p_state" "public"."chore_state", "p_local_date" "date") TO "service_role";
 GRANT ALL ON FUNCTION "public"."today_flow_list"("p_home_id" "uuid", "p_state" "public"."chore_state", "p_local_date" "date") TO "authenticated";
@@ -20001,6 +22736,12 @@ GRANT ALL ON TABLE "public"."memberships" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."notification_events" TO "anon";
+GRANT ALL ON TABLE "public"."notification_events" TO "authenticated";
+GRANT ALL ON TABLE "public"."notification_events" TO "service_role";
+
+
+
 GRANT ALL ON TABLE "public"."notification_sends" TO "anon";
 GRANT ALL ON TABLE "public"."notification_sends" TO "authenticated";
 GRANT ALL ON TABLE "public"."notification_sends" TO "service_role";
@@ -20085,6 +22826,10 @@ GRANT ALL ON TABLE "public"."revenuecat_event_processing" TO "service_role";
 
 
 
+GRANT ALL ON TABLE "public"."revenuecat_subscriber_checks" TO "service_role";
+
+
+
 GRANT ALL ON TABLE "public"."revenuecat_webhook_events" TO "service_role";
 
 
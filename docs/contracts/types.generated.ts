@@ -1713,15 +1713,89 @@ export type Database = {
           },
         ]
       }
+      notification_events: {
+        Row: {
+          actor_user_id: string | null
+          attempts: number
+          claimed_at: string | null
+          created_at: string
+          dedupe_key: string
+          error: string | null
+          home_id: string | null
+          id: string
+          kind: string
+          payload: Json
+          processed_at: string | null
+          recipient_user_id: string
+          status: string
+        }
+        Insert: {
+          actor_user_id?: string | null
+          attempts?: number
+          claimed_at?: string | null
+          created_at?: string
+          dedupe_key: string
+          error?: string | null
+          home_id?: string | null
+          id?: string
+          kind: string
+          payload?: Json
+          processed_at?: string | null
+          recipient_user_id: string
+          status?: string
+        }
+        Update: {
+          actor_user_id?: string | null
+          attempts?: number
+          claimed_at?: string | null
+          created_at?: string
+          dedupe_key?: string
+          error?: string | null
+          home_id?: string | null
+          id?: string
+          kind?: string
+          payload?: Json
+          processed_at?: string | null
+          recipient_user_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_events_actor_user_id_fkey"
+            columns: ["actor_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_events_home_id_fkey"
+            columns: ["home_id"]
+            isOneToOne: false
+            referencedRelation: "homes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_events_recipient_user_id_fkey"
+            columns: ["recipient_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notification_preferences: {
         Row: {
           created_at: string
+          disabled_kinds: string[]
           last_os_sync_at: string | null
           last_sent_local_date: string | null
           locale: string
           os_permission: string
           preferred_hour: number
           preferred_minute: number
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          send_window_minutes: number
           timezone: string
           updated_at: string
           user_id: string
@@ -1729,12 +1803,16 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          disabled_kinds?: string[]
           last_os_sync_at?: string | null
           last_sent_local_date?: string | null
           locale: string
           os_permission?: string
           preferred_hour?: number
           preferred_minute?: number
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          send_window_minutes?: number
           timezone: string
           updated_at?: string
           user_id: string
@@ -1742,12 +1820,16 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          disabled_kinds?: string[]
           last_os_sync_at?: string | null
           last_sent_local_date?: string | null
           locale?: string
           os_permission?: string
           preferred_hour?: number
           preferred_minute?: number
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          send_window_minutes?: number
           timezone?: string
           updated_at?: string
           user_id?: string
@@ -1765,43 +1847,67 @@ export type Database = {
       }
       notification_sends: {
         Row: {
+          attempts: number
           created_at: string
           error: string | null
+          event_id: string | null
           failed_at: string | null
           id: string
           job_run_id: string | null
+          kind: string
           local_date: string
+          local_send_hour: number | null
+          locale: string | null
+          next_retry_at: string | null
+          opened_at: string | null
           reserved_at: string | null
           sent_at: string | null
           status: string
+          template_id: string | null
           token_id: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          attempts?: number
           created_at?: string
           error?: string | null
+          event_id?: string | null
           failed_at?: string | null
           id?: string
           job_run_id?: string | null
+          kind?: string
           local_date: string
+          local_send_hour?: number | null
+          locale?: string | null
+          next_retry_at?: string | null
+          opened_at?: string | null
           reserved_at?: string | null
           sent_at?: string | null
           status: string
+          template_id?: string | null
           token_id?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          attempts?: number
           created_at?: string
           error?: string | null
+          event_id?: string | null
           failed_at?: string | null
           id?: string
           job_run_id?: string | null
+          kind?: string
           local_date?: string
+          local_send_hour?: number | null
+          locale?: string | null
+          next_retry_at?: string | null
+          opened_at?: string | null
           reserved_at?: string | null
           sent_at?: string | null
           status?: string
+          template_id?: string | null
           token_id?: string | null
           updated_at?: string
           user_id?: string
@@ -1814,6 +1920,13 @@ export type Database = {
             referencedRelation: "device_tokens"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notification_sends_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "notification_events"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notification_sends_user_id_fkey"
             columns: ["user_id"]
@@ -2416,6 +2529,38 @@ export type Database = {
         }
         Relationships: []
       }
+      revenuecat_subscriber_checks: {
+        Row: {
+          checked_at: string
+          corrections: number
+          error: string | null
+          outcome: string
+          user_id: string
+        }
+        Insert: {
+          checked_at?: string
+          corrections?: number
+          error?: string | null
+          outcome: string
+          user_id: string
+        }
+        Update: {
+          checked_at?: string
+          corrections?: number
+          error?: string | null
+          outcome?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "revenuecat_subscriber_checks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       revenuecat_webhook_events: {
         Row: {
           created_at: string
@@ -2427,6 +2572,7 @@ export type Database = {
           event_timestamp: string | null
           fatal_error: string | null
           fatal_error_code: string | null
+          grace_until_at: string | null
           home_id: string | null
           id: string
           idempotency_key: string
@@ -2438,11 +2584,15 @@ export type Database = {
           raw: Json | null
           rc_app_user_id: string
           rc_event_id: string | null
+          rejected_transition: string | null
+          replay_outcome: string | null
+          replayed_at: string | null
           rpc_error: string | null
           rpc_error_code: string | null
           rpc_retryable: boolean | null
           status: Database["public"]["Enums"]["subscription_status"] | null
           store: Database["public"]["Enums"]["subscription_store"] | null
+          superseded_reason: string | null
           warnings: string[] | null
         }
         Insert: {
@@ -2455,6 +2605,7 @@ export type Database = {
           event_timestamp?: string | null
           fatal_error?: string | null
           fatal_error_code?: string | null
+          grace_until_at?: string | null
           home_id?: string | null
           id?: string
           idempotency_key: string
@@ -2466,11 +2617,15 @@ export type Database = {
           raw?: Json | null
           rc_app_user_id: string
           rc_event_id?: string | null
+          rejected_transition?: string | null
+          replay_outcome?: string | null
+          replayed_at?: string | null
           rpc_error?: string | null
           rpc_error_code?: string | null
           rpc_retryable?: boolean | null
           status?: Database["public"]["Enums"]["subscription_status"] | null
           store?: Database["public"]["Enums"]["subscription_store"] | null
+          superseded_reason?: string | null
           warnings?: string[] | null
         }
         Update: {
@@ -2483,6 +2638,7 @@ export type Database = {
           event_timestamp?: string | null
           fatal_error?: string | null
           fatal_error_code?: string | null
+          grace_until_at?: string | null
           home_id?: string | null
           id?: string
           idempotency_key?: string
@@ -2494,11 +2650,15 @@ export type Database = {
           raw?: Json | null
           rc_app_user_id?: string
           rc_event_id?: string | null
+          rejected_transition?: string | null
+          replay_outcome?: string | null
+          replayed_at?: string | null
           rpc_error?: string | null
           rpc_error_code?: string | null
           rpc_retryable?: boolean | null
           status?: Database["public"]["Enums"]["subscription_status"] | null
           store?: Database["public"]["Enums"]["subscription_store"] | null
+          superseded_reason?: string | null
           warnings?: string[] | null
         }
         Relationships: [
@@ -2528,12 +2688,14 @@ export type Database = {
           recipient_preference_snapshot_id: string
           recipient_snapshot_id: string
           recipient_user_id: string
+          rewrite_request: Json | null
           rewrite_request_id: string
           rewrite_strength: string
           routing_decision: Json
           status: string
           submitted_at: string | null
           surface: string
+          target_locale: string | null
           task: string
           updated_at: string
         }
@@ -2553,12 +2715,14 @@ export type Database = {
           recipient_preference_snapshot_id: string
           recipient_snapshot_id: string
           recipient_user_id: string
+          rewrite_request?: Json | null
           rewrite_request_id: string
           rewrite_strength: string
           routing_decision: Json
           status?: string
           submitted_at?: string | null
           surface: string
+          target_locale?: string | null
           task: string
           updated_at?: string
         }
@@ -2578,12 +2742,14 @@ export type Database = {
           recipient_preference_snapshot_id?: string
           recipient_snapshot_id?: string
           recipient_user_id?: string
+          rewrite_request?: Json | null
           rewrite_request_id?: string
           rewrite_strength?: string
           routing_decision?: Json
           status?: string
           submitted_at?: string | null
           surface?: string
+          target_locale?: string | null
           task?: string
           updated_at?: string
         }
@@ -2673,6 +2839,8 @@ export type Database = {
       }
       rewrite_provider_batches: {
         Row: {
+          adapter_kind: string
+          base_url: string | null
           created_at: string
           endpoint: string
           error_file_id: string | null
@@ -2686,6 +2854,8 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          adapter_kind?: string
+          base_url?: string | null
           created_at?: string
           endpoint?: string
           error_file_id?: string | null
@@ -2699,6 +2869,8 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          adapter_kind?: string
+          base_url?: string | null
           created_at?: string
           endpoint?: string
           error_file_id?: string | null
@@ -3042,12 +3214,15 @@ export type Database = {
         Row: {
           created_at: string
           current_period_end_at: string | null
+          grace_until_at: string | null
           home_id: string | null
           id: string
+          last_event_timestamp: string | null
           last_purchase_at: string | null
           last_synced_at: string
           latest_transaction_id: string | null
           original_purchase_at: string | null
+          original_transaction_id: string | null
           product_id: string
           rc_app_user_id: string
           rc_entitlement_id: string
@@ -3059,12 +3234,15 @@ export type Database = {
         Insert: {
           created_at?: string
           current_period_end_at?: string | null
+          grace_until_at?: string | null
           home_id?: string | null
           id?: string
+          last_event_timestamp?: string | null
           last_purchase_at?: string | null
           last_synced_at?: string
           latest_transaction_id?: string | null
           original_purchase_at?: string | null
+          original_transaction_id?: string | null
           product_id: string
           rc_app_user_id: string
           rc_entitlement_id: string
@@ -3076,12 +3254,15 @@ export type Database = {
         Update: {
           created_at?: string
           current_period_end_at?: string | null
+          grace_until_at?: string | null
           home_id?: string | null
           id?: string
+          last_event_timestamp?: string | null
           last_purchase_at?: string | null
           last_synced_at?: string
           latest_transaction_id?: string | null
           original_purchase_at?: string | null
+          original_transaction_id?: string | null
           product_id?: string
           rc_app_user_id?: string
           rc_entitlement_id?: string
@@ -3154,6 +3335,7 @@ export type Database = {
       }
       _complaint_topics_valid: { Args: { p: Json }; Returns: boolean }
       _cron_call_complaint_trigger_runner: { Args: never; Returns: undefined }
+      _cron_call_rewrite_worker: { Args: never; Returns: undefined }
       _current_user_id: { Args: never; Returns: string }
       _ensure_unique_avatar_for_home: {
         Args: { p_home_id: string; p_user_id: string }
@@ -3295,6 +3477,25 @@ export type Database = {
         }
         Returns: undefined
       }
+      _notification_display_name: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      _notification_event_enqueue: {
+        Args: {
+          p_actor: string
+          p_dedupe_key: string
+          p_home_id: string
+          p_kind: string
+          p_payload: Json
+          p_recipient: string
+        }
+        Returns: undefined
+      }
+      _notifications_in_quiet_hours: {
+        Args: { p_end: string; p_start: string; p_time: string }
+        Returns: boolean
+      }
       _outreach_rate_limit_bucketed: {
         Args: { p_bucket_start: string; p_key: string; p_limit: number }
         Returns: boolean
@@ -3330,6 +3531,13 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      _subscription_transition_allowed: {
+        Args: {
+          p_from: Database["public"]["Enums"]["subscription_status"]
+          p_to: Database["public"]["Enums"]["subscription_status"]
+        }
+        Returns: boolean
+      }
       api_assert: {
         Args: {
           p_code: string
@@ -3561,6 +3769,15 @@ export type Database = {
           routing_decision: Json
         }[]
       }
+      claim_rewrite_jobs_for_realtime_v1: {
+        Args: { p_limit?: number }
+        Returns: {
+          job_id: string
+          recipient_user_id: string
+          rewrite_request_id: string
+          routing_decision: Json
+        }[]
+      }
       complaint_build_recipient_snapshots: {
         Args: {
           p_home_id: string
@@ -3588,6 +3805,7 @@ export type Database = {
           original_text: string
           recipient_locale: string
           recipient_user_id: string
+          sender_locale: string
         }[]
       }
       complaint_preference_payload: {
@@ -3628,22 +3846,58 @@ export type Database = {
         }
         Returns: Json
       }
+      complaint_rewrite_enqueue_recipients_v1: {
+        Args: {
+          p_classifier_result: Json
+          p_classifier_version: string
+          p_context_pack_version: string
+          p_home_id: string
+          p_intent: string
+          p_original_text: string
+          p_policy_version: string
+          p_recipients: Json
+          p_rewrite_request_id: string
+          p_rewrite_strength: string
+          p_sender_user_id: string
+          p_source_locale: string
+          p_surface: string
+          p_topics: Json
+        }
+        Returns: Json
+      }
       complaint_rewrite_job_fail_or_requeue: {
         Args: { p_backoff_seconds?: number; p_error: string; p_job_id: string }
         Returns: undefined
       }
+      complaint_rewrite_ops_list_v1: {
+        Args: {
+          p_kind: string
+          p_limit?: number
+          p_status: string
+          p_stuck_after_seconds?: number
+        }
+        Returns: Json
+      }
+      complaint_rewrite_ops_trace_v1: {
+        Args: { p_entry_id: string }
+        Returns: Json
+      }
       complaint_rewrite_request_exists: {
         Args: { p_rewrite_request_id: string }
         Returns: boolean
       }
       complaint_rewrite_request_fetch_v1: {
-        Args: { p_rewrite_request_id: string }
+        Args: { p_recipient_user_id?: string; p_rewrite_request_id: string }
         Returns: {
           policy_version: string
           rewrite_request: Json
           target_locale: string
         }[]
       }
+      complaint_rewrite_request_finalize_v1: {
+        Args: { p_rewrite_request_id: string }
+        Returns: Json
+      }
       complaint_rewrite_route: {
         Args: { p_lane: string; p_rewrite_strength: string; p_surface: string }
         Returns: Json
@@ -3697,6 +3951,7 @@ export type Database = {
       complaint_trigger_pop_pending: {
         Args: { p_limit?: number; p_max_attempts?: number }
         Returns: {
+          attempts: number
           author_user_id: string
           entry_id: string
           home_id: string
@@ -3759,6 +4014,31 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      expense_reminders_candidates: {
+        Args: {
+          p_after_user_id?: string
+          p_limit?: number
+          p_lookahead_days?: number
+          p_lookback_days?: number
+        }
+        Returns: {
+          amount_cents: number
+          created_local_date: string
+          description: string
+          due_date: string
+          expense_id: string
+          home_id: string
+          local_date: string
+          locale: string
+          payer_name: string
+          plan_id: string
+          user_id: string
+        }[]
+      }
+      expense_reminders_enqueue: {
+        Args: { p_reminders: Json }
+        Returns: number
+      }
       expenses_cancel: {
         Args: { p_expense_id: string }
         Returns: {
@@ -4156,6 +4436,21 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      house_pulse_digest_homes: {
+        Args: { p_after_home_id?: string; p_limit?: number }
+        Returns: {
+          home_id: string
+        }[]
+      }
+      house_pulse_digest_prepare: {
+        Args: {
+          p_dry_run?: boolean
+          p_home_id: string
+          p_iso_week?: number
+          p_iso_week_year?: number
+        }
+        Returns: Json
+      }
       house_pulse_label_get_v1: {
         Args: {
           p_contract_version?: string
@@ -4296,17 +4591,103 @@ export type Database = {
         }
         Returns: Json
       }
+      notifications_claim_send_retries: {
+        Args: {
+          p_job_run_id: string
+          p_limit?: number
+          p_max_attempts?: number
+          p_shard_count?: number
+          p_shard_index?: number
+        }
+        Returns: {
+          attempts: number
+          content: Json
+          local_date: string
+          locale: string
+          platform: string
+          provider: string
+          send_id: string
+          timezone: string
+          token: string
+          token_id: string
+          user_id: string
+        }[]
+      }
       notifications_daily_candidates: {
-        Args: { p_limit?: number; p_offset?: number }
+        Args: {
+          p_after_token_id?: string
+          p_after_user_id?: string
+          p_cap_window_hours?: number
+          p_limit?: number
+          p_shard_count?: number
+          p_shard_index?: number
+        }
         Returns: {
+          content: Json
           local_date: string
           locale: string
+          platform: string
+          provider: string
+          recent_sends: number
           timezone: string
           token: string
           token_id: string
           user_id: string
         }[]
       }
+      notifications_delivery_due: {
+        Args: {
+          p_local_now: string
+          p_preferred_hour: number
+          p_preferred_minute: number
+          p_quiet_hours_end?: string
+          p_quiet_hours_start?: string
+          p_send_window_minutes: number
+        }
+        Returns: boolean
+      }
+      notifications_delivery_report: {
+        Args: { p_from?: string; p_to?: string }
+        Returns: {
+          attempted: number
+          error_rate: number
+          failed: number
+          kind: string
+          local_send_hour: number
+          locale: string
+          open_rate: number
+          opened: number
+          sent: number
+          template_id: string
+        }[]
+      }
+      notifications_events_claim: {
+        Args: {
+          p_cap_window_hours?: number
+          p_limit?: number
+          p_stale_claim_minutes?: number
+        }
+        Returns: {
+          attempts: number
+          event_id: string
+          home_id: string
+          kind: string
+          local_date: string
+          locale: string
+          payload: Json
+          recent_sends: number
+          recipient_user_id: string
+          tokens: Json
+        }[]
+      }
+      notifications_events_complete: {
+        Args: { p_error?: string; p_event_id: string; p_status: string }
+        Returns: undefined
+      }
+      notifications_mark_event_send_success: {
+        Args: { p_send_id: string }
+        Returns: undefined
+      }
       notifications_mark_send_success: {
         Args: { p_local_date: string; p_send_id: string; p_user_id: string }
         Returns: undefined
@@ -4315,15 +4696,57 @@ export type Database = {
         Args: { p_status: string; p_token_id: string }
         Returns: undefined
       }
+      notifications_record_open: { Args: { p_send_id: string }; Returns: Json }
+      notifications_reserve_event_send: {
+        Args: {
+          p_event_id: string
+          p_job_run_id: string
+          p_local_date: string
+          p_template_id?: string
+          p_token_id: string
+        }
+        Returns: string
+      }
       notifications_reserve_send: {
         Args: {
           p_job_run_id: string
           p_local_date: string
+          p_template_id?: string
           p_token_id: string
           p_user_id: string
         }
         Returns: string
       }
+      notifications_schedule_send_retry: {
+        Args: { p_error: string; p_next_retry_at: string; p_send_id: string }
+        Returns: undefined
+      }
+      notifications_set_kind_enabled: {
+        Args: { p_enabled: boolean; p_kind: string }
+        Returns: {
+          created_at: string
+          disabled_kinds: string[]
+          last_os_sync_at: string | null
+          last_sent_local_date: string | null
+          locale: string
+          os_permission: string
+          preferred_hour: number
+          preferred_minute: number
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          send_window_minutes: number
+          timezone: string
+          updated_at: string
+          user_id: string
+          wants_daily: boolean
+        }
+        SetofOptions: {
+          from: "*"
+          to: "notification_preferences"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       notifications_sync_client_state: {
         Args: {
           p_locale: string
@@ -4331,18 +4754,53 @@ export type Database = {
           p_platform: string
           p_preferred_hour?: number
           p_preferred_minute?: number
+          p_provider?: string
           p_timezone: string
           p_token: string
           p_wants_daily?: boolean
         }
         Returns: {
           created_at: string
+          disabled_kinds: string[]
           last_os_sync_at: string | null
           last_sent_local_date: string | null
           locale: string
           os_permission: string
           preferred_hour: number
           preferred_minute: number
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          send_window_minutes: number
+          timezone: string
+          updated_at: string
+          user_id: string
+          wants_daily: boolean
+        }
+        SetofOptions: {
+          from: "*"
+          to: "notification_preferences"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      notifications_update_delivery_window: {
+        Args: {
+          p_quiet_hours_end?: string
+          p_quiet_hours_start?: string
+          p_send_window_minutes: number
+        }
+        Returns: {
+          created_at: string
+          disabled_kinds: string[]
+          last_os_sync_at: string | null
+          last_sent_local_date: string | null
+          locale: string
+          os_permission: string
+          preferred_hour: number
+          preferred_minute: number
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          send_window_minutes: number
           timezone: string
           updated_at: string
           user_id: string
@@ -4363,12 +4821,16 @@ export type Database = {
         }
         Returns: {
           created_at: string
+          disabled_kinds: string[]
           last_os_sync_at: string | null
           last_sent_local_date: string | null
           locale: string
           os_permission: string
           preferred_hour: number
           preferred_minute: number
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          send_window_minutes: number
           timezone: string
           updated_at: string
           user_id: string
@@ -4413,13 +4875,33 @@ export type Database = {
         Args: { p_event_type: string; p_home_id: string; p_source?: string }
         Returns: undefined
       }
+      paywall_reconcile_candidates: {
+        Args: { p_limit?: number; p_stale_after?: string }
+        Returns: {
+          current_home_id: string
+          reason: string
+          subscriptions: Json
+          user_id: string
+        }[]
+      }
+      paywall_reconcile_record_check: {
+        Args: {
+          p_corrections?: number
+          p_error?: string
+          p_outcome: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
       paywall_record_subscription: {
         Args: {
+          p_applied_state?: Json
           p_current_period_end_at: string
           p_entitlement_id: string
           p_entitlement_ids?: string[]
           p_environment?: string
           p_event_timestamp?: string
+          p_grace_until_at?: string
           p_home_id: string
           p_idempotency_key: string
           p_last_purchase_at: string
@@ -4438,6 +4920,61 @@ export type Database = {
         Returns: boolean
       }
       paywall_status_get: { Args: { p_home_id: string }; Returns: Json }
+      paywall_subscription_applied_state: {
+        Args: { p_entitlement_id: string; p_user_id: string }
+        Returns: Json
+      }
+      paywall_subscriptions_grace_sweep: { Args: never; Returns: number }
+      paywall_transfer_subscription: {
+        Args: {
+          p_entitlement_ids?: string[]
+          p_environment?: string
+          p_event_timestamp?: string
+          p_from_user_ids: string[]
+          p_home_id?: string
+          p_idempotency_key: string
+          p_to_user_id: string
+        }
+        Returns: boolean
+      }
+      paywall_webhook_replay_events: {
+        Args: {
+          p_fatal_error_code?: string
+          p_from?: string
+          p_home_id?: string
+          p_limit?: number
+          p_rpc_retryable?: boolean
+          p_to?: string
+        }
+        Returns: {
+          created_at: string
+          environment: string
+          event_timestamp: string
+          fatal_error_code: string
+          home_id: string
+          id: string
+          idempotency_key: string
+          raw: Json
+          replayed_at: string
+          rpc_error_code: string
+          rpc_retryable: boolean
+        }[]
+      }
+      paywall_webhook_replay_mark: {
+        Args: { p_event_id: string; p_outcome: string }
+        Returns: undefined
+      }
+      paywall_webhook_replay_preview: {
+        Args: { p_changes: Json }
+        Returns: {
+          current_expires_at: string
+          current_plan: string
+          home_id: string
+          projected_expires_at: string
+          projected_plan: string
+          subscriptions: Json
+        }[]
+      }
       personal_gratitude_inbox_list_v1: {
         Args: { p_before_at?: string; p_before_id?: string; p_limit?: number }
         Returns: {
@@ -4535,19 +5072,25 @@ export type Database = {
       rewrite_batch_list_pending_v1: {
         Args: { p_limit?: number }
         Returns: {
+          adapter_kind: string
+          base_url: string
           endpoint: string
           error_file_id: string
           input_file_id: string
           output_file_id: string
+          provider: string
           provider_batch_id: string
           status: string
         }[]
       }
       rewrite_batch_register_v1: {
         Args: {
+          p_adapter_kind?: string
+          p_base_url?: string
           p_endpoint?: string
           p_input_file_id: string
           p_job_count: number
+          p_provider?: string
           p_provider_batch_id: string
         }
         Returns: undefined
@@ -4584,6 +5127,7 @@ export type Database = {
           new_status: string
           not_before_at: string
           prev_status: string
+          rewrite_request_id: string
         }[]
       }
       share_log_event: {
@@ -4678,6 +5222,10 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      today_content_summary: {
+        Args: { p_local_date: string; p_timezone: string; p_user_id: string }
+        Returns: Json
+      }
       today_flow_list: {
         Args: {
           p_home_id: string
@@ -4747,7 +5295,13 @@ export type Database = {
         | "every_2_months"
         | "annual"
       revenuecat_processing_status: "processing" | "succeeded" | "failed"
-      subscription_status: "active" | "cancelled" | "expired" | "inactive"
+      subscription_status:
+        | "active"
+        | "cancelled_pending_expiry"
+        | "in_grace"
+        | "on_hold"
+        | "expired"
+        | "inactive"
       subscription_store: "app_store" | "play_store" | "stripe" | "promotional"
     }
     CompositeTypes: {
@@ -4920,7 +5474,14 @@ export const Constants = {
         "annual",
       ],
       revenuecat_processing_status: ["processing", "succeeded", "failed"],
-      subscription_status: ["active", "cancelled", "expired", "inactive"],
+      subscription_status: [
+        "active",
+        "cancelled_pending_expiry",
+        "in_grace",
+        "on_hold",
+        "expired",
+        "inactive",
+      ],
       subscription_store: ["app_store", "play_store", "stripe", "promotional"],
     },
   },
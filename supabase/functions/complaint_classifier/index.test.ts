@@ -1,5 +1,6 @@
 import {
   extractOutputText,
+  handleClassifierRequest,
   normalizeClassifier,
   safeJson,
   validate,
@@ -91,6 +92,45 @@ Deno.test("normalizeClassifier applies defaults and clamps topics", () => {
   );
 });
 
+Deno.test("normalizeClassifier keeps valid confidence and downgrades defaults", () => {
+  const normalized = normalizeClassifier({
+    detected_language: "es",
+    topics: ["noise"],
+    intent: "request",
+    confidence: {
+      language_confidence: "high",
+      topic_confidence: "medium",
+      intent_confidence: "bogus",
+    },
+  });
+  expect(
+    normalized.confidence.language_confidence === "high" &&
+      normalized.confidence.topic_confidence === "medium",
+    "valid confidence kept",
+  );
+  expect(
+    normalized.confidence.intent_confidence === "low",
+    "invalid confidence defaults to low",
+  );
+
+  const defaulted = normalizeClassifier({
+    detected_language: "???",
+    topics: ["unknown"],
+    intent: "rant",
+    confidence: {
+      language_confidence: "high",
+      topic_confidence: "high",
+      intent_confidence: "high",
+    },
+  });
+  expect(
+    defaulted.confidence.language_confidence === "low" &&
+      defaulted.confidence.topic_confidence === "low" &&
+      defaulted.confidence.intent_confidence === "low",
+    "defaulted fields never report more than low",
+  );
+});
+
 Deno.test("extractOutputText prefers output_text then output chunk", () => {
   const direct = extractOutputText({ output_text: "  value " });
   expect(direct === "value", "output_text trimmed");
@@ -107,3 +147,51 @@ Deno.test("extractOutputText prefers output_text then output chunk", () => {
   });
   expect(nested === "nested", "found nested output_text");
 });
+
+Deno.test("handleClassifierRequest uses rules_v1 without OpenAI in rules mode", async () => {
+  const prev = new Map(
+    ["CLASSIFIER_MODE", "CLASSIFIER_SHARED_SECRET"].map((k) => [
+      k,
+      Deno.env.get(k),
+    ]),
+  );
+  Deno.env.set("CLASSIFIER_MODE", "rules");
+  Deno.env.set("CLASSIFIER_SHARED_SECRET", "secret");
+  let called = false;
+
+  try {
+    const resp = await handleClassifierRequest(
+      new Request("http://localhost", {
+        method: "POST",
+        headers: { "x-internal-secret": "secret" },
+        body: JSON.stringify({
+          original_text: "Please take the trash out tonight",
+          surface: "weekly_harmony",
+          sender_user_id: uuid,
+        }),
+      }),
+      {
+        fetchFn: () => {
+          called = true;
+          return Promise.resolve(new Response("{}"));
+        },
+      },
+    );
+    const body = await resp.json();
+    expect(resp.status === 200, "rules mode responds 200");
+    expect(!called, "OpenAI not called");
+    expect(
+      body.classifier_result.classifier_version === "rules_v1",
+      "rules_v1 version",
+    );
+    expect(
+      body.classifier_result.topics.includes("cleanliness"),
+      "rules topics",
+    );
+  } finally {
+    for (const [k, v] of prev) {
+      if (v === undefined) Deno.env.delete(k);
+      else Deno.env.set(k, v);
+    }
+  }
+});
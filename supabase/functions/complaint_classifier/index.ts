@@ -17,10 +17,15 @@
 // - CLASSIFIER_SHARED_SECRET       (callers send: x-internal-secret)
 // Optional:
 // - CLASSIFIER_MODEL               (default gpt-4o-mini)
+// - CLASSIFIER_MODE                (openai | rules; default openai)
+//                                  rules = deterministic rules_v1 classifier, no OpenAI call
+//                                  (outage / budget kill-switch; see ./rules.ts)
 //
 // Notes:
 // - This function is intended to be called only by internal services (your orchestrator).
 
+import { classifyByRules } from "./rules.ts";
+
 type Topic =
   | "noise"
   | "cleanliness"
@@ -32,6 +37,15 @@ type Topic =
 
 type Intent = "request" | "boundary" | "concern" | "clarification";
 type RewriteStrength = "light_touch" | "full_reframe";
+type Confidence = "low" | "medium" | "high";
+
+// Per-field confidence. Orchestrator only trusts detected_language for
+// source_locale at medium/high (two_lanes_async_v1 §5).
+type ClassifierConfidence = {
+  language_confidence: Confidence;
+  topic_confidence: Confidence;
+  intent_confidence: Confidence;
+};
 
 type ClassifierOutput = {
   classifier_version: string;
@@ -39,6 +53,7 @@ type ClassifierOutput = {
   topics: Topic[];
   intent: Intent;
   rewrite_strength: RewriteStrength;
+  confidence: ClassifierConfidence;
   safety_flags: string[];
 };
 
@@ -64,51 +79,71 @@ const ALLOWED_REWRITE_STRENGTH = new Set<RewriteStrength>([
   "full_reframe",
 ]);
 
+const ALLOWED_CONFIDENCE = new Set<Confidence>(["low", "medium", "high"]);
+
 // Keep classifier cheap + resilient
 const MAX_BODY_BYTES = 64_000; // protect edge + avoid abuse (bytes, not chars)
 const MAX_ORIGINAL_TEXT_CHARS = 4_000; // cap cost + prompt bombing
 const OPENAI_TIMEOUT_MS = 12_000;
 const MAX_OUTPUT_TOKENS = 250;
 
-if (import.meta.main) {
-  Deno.serve(async (req) => {
-    const request_id = crypto.randomUUID();
-
-    try {
-      // 1) Guard: internal-only shared secret
-      requireSharedSecret(req);
-
-      // 2) Parse body safely (BYTE cap)
-      const body = await safeJson(req, MAX_BODY_BYTES);
-
-      // 3) Validate required fields
-      const { original_text, surface, sender_user_id } = validate(body);
-
-      // 4) Call OpenAI classifier (strict schema)
-      const result = await classify({
-        model: Deno.env.get("CLASSIFIER_MODEL") ?? "gpt-4o-mini",
-        apiKey: env("OPENAI_CLASSIFIER_API_KEY"),
-        original_text,
-        surface,
-        sender_user_id,
-        request_id,
-      });
+type HandlerDeps = {
+  fetchFn?: typeof fetch; // injectable for end-to-end tests (mock OpenAI)
+};
 
-      return json({ ok: true, classifier_result: result, request_id }, 200);
-    } catch (e) {
-      const err = normalizeError(e);
-      return json(
-        {
-          ok: false,
-          error: err.message,
-          code: err.code,
-          retryable: err.retryable,
-          request_id,
-        },
-        err.status,
-      );
+async function handleClassifierRequest(
+  req: Request,
+  deps: HandlerDeps = {},
+): Promise<Response> {
+  const request_id = crypto.randomUUID();
+
+  try {
+    // 1) Guard: internal-only shared secret
+    requireSharedSecret(req);
+
+    // 2) Parse body safely (BYTE cap)
+    const body = await safeJson(req, MAX_BODY_BYTES);
+
+    // 3) Validate required fields
+    const { original_text, surface, sender_user_id } = validate(body);
+
+    // 4) Call OpenAI classifier (strict schema), unless rules mode is forced
+    if (classifierMode() === "rules") {
+      return json({
+        ok: true,
+        classifier_result: classifyByRules(original_text),
+        request_id,
+      }, 200);
     }
-  });
+
+    const result = await classify({
+      model: Deno.env.get("CLASSIFIER_MODEL") ?? "gpt-4o-mini",
+      apiKey: env("OPENAI_CLASSIFIER_API_KEY"),
+      original_text,
+      surface,
+      sender_user_id,
+      request_id,
+      fetchFn: deps.fetchFn,
+    });
+
+    return json({ ok: true, classifier_result: result, request_id }, 200);
+  } catch (e) {
+    const err = normalizeError(e);
+    return json(
+      {
+        ok: false,
+        error: err.message,
+        code: err.code,
+        retryable: err.retryable,
+        request_id,
+      },
+      err.status,
+    );
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleClassifierRequest(req));
 }
 
 function json(body: unknown, status = 200) {
@@ -140,6 +175,12 @@ function env(name: string): string {
   return v;
 }
 
+function classifierMode(): "openai" | "rules" {
+  return Deno.env.get("CLASSIFIER_MODE")?.trim().toLowerCase() === "rules"
+    ? "rules"
+    : "openai";
+}
+
 /* ---------------- Auth guard ---------------- */
 
 function requireSharedSecret(req: Request) {
@@ -221,6 +262,7 @@ async function classify(params: {
   surface: string;
   sender_user_id: string;
   request_id: string;
+  fetchFn?: typeof fetch;
 }): Promise<ClassifierOutput> {
   const instructions = "You are a fast, cheap classifier. " +
     "Return ONLY a JSON object that matches the provided schema. " +
@@ -276,6 +318,29 @@ async function classify(params: {
           type: "string",
           enum: ["light_touch", "full_reframe"],
         },
+        confidence: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            language_confidence: {
+              type: "string",
+              enum: ["low", "medium", "high"],
+            },
+            topic_confidence: {
+              type: "string",
+              enum: ["low", "medium", "high"],
+            },
+            intent_confidence: {
+              type: "string",
+              enum: ["low", "medium", "high"],
+            },
+          },
+          required: [
+            "language_confidence",
+            "topic_confidence",
+            "intent_confidence",
+          ],
+        },
         safety_flags: {
           type: "array",
           items: { type: "string", maxLength: 48 },
@@ -288,6 +353,7 @@ async function classify(params: {
         "topics",
         "intent",
         "rewrite_strength",
+        "confidence",
         "safety_flags",
       ],
     },
@@ -298,25 +364,28 @@ async function classify(params: {
 
   let resp: Response;
   try {
-    resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      signal: controller.signal,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${params.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: params.model,
-        instructions,
-        input,
-        max_output_tokens: MAX_OUTPUT_TOKENS,
-        text: { format: { type: "json_schema", ...schema } },
-        metadata: {
-          request_id: params.request_id,
-          surface: params.surface,
+    resp = await (params.fetchFn ?? fetch)(
+      "https://api.openai.com/v1/responses",
+      {
+        method: "POST",
+        signal: controller.signal,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${params.apiKey}`,
         },
-      }),
-    });
+        body: JSON.stringify({
+          model: params.model,
+          instructions,
+          input,
+          max_output_tokens: MAX_OUTPUT_TOKENS,
+          text: { format: { type: "json_schema", ...schema } },
+          metadata: {
+            request_id: params.request_id,
+            surface: params.surface,
+          },
+        }),
+      },
+    );
   } catch (e) {
     if (String(e).includes("AbortError")) {
       throw makeError(504, "openai_timeout", "classifier timed out", true);
@@ -375,6 +444,7 @@ async function classify(params: {
     topics: normalized.topics,
     intent: normalized.intent,
     rewrite_strength: normalized.rewrite_strength,
+    confidence: normalized.confidence,
     safety_flags: normalized.safety_flags,
   };
 }
@@ -423,6 +493,7 @@ type ParsedClassifier = {
   topics?: unknown;
   intent?: unknown;
   rewrite_strength?: unknown;
+  confidence?: unknown;
   safety_flags?: unknown;
 };
 
@@ -431,10 +502,12 @@ function normalizeClassifier(parsed: ParsedClassifier): {
   topics: Topic[];
   intent: Intent;
   rewrite_strength: RewriteStrength;
+  confidence: ClassifierConfidence;
   safety_flags: string[];
 } {
   // detected_language
-  const detected_language = normalizeLocale(parsed?.detected_language) ?? "en";
+  const parsedLanguage = normalizeLocale(parsed?.detected_language);
+  const detected_language = parsedLanguage ?? "en";
 
   // topics
   const rawTopics = Array.isArray(parsed?.topics)
@@ -458,6 +531,26 @@ function normalizeClassifier(parsed: ParsedClassifier): {
     ? (parsed.rewrite_strength as RewriteStrength)
     : ("full_reframe" as RewriteStrength);
 
+  // confidence: missing/invalid -> low (contract §9); a defaulted value is
+  // never more than low, whatever the model claimed
+  const rawConfidence = isRecord(parsed?.confidence) ? parsed.confidence : {};
+  const level = (v: unknown, defaulted: boolean): Confidence =>
+    !defaulted && typeof v === "string" &&
+      ALLOWED_CONFIDENCE.has(v as Confidence)
+      ? (v as Confidence)
+      : "low";
+  const confidence: ClassifierConfidence = {
+    language_confidence: level(
+      rawConfidence.language_confidence,
+      parsedLanguage === null,
+    ),
+    topic_confidence: level(rawConfidence.topic_confidence, !topics.length),
+    intent_confidence: level(
+      rawConfidence.intent_confidence,
+      intent !== parsed?.intent,
+    ),
+  };
+
   // safety_flags
   const safety_flags =
     Array.isArray(parsed?.safety_flags) && parsed.safety_flags.length > 0
@@ -473,6 +566,7 @@ function normalizeClassifier(parsed: ParsedClassifier): {
     topics: finalTopics,
     intent,
     rewrite_strength,
+    confidence,
     safety_flags,
   };
 }
@@ -557,7 +651,9 @@ function isRecord(value: unknown): value is Record<string, unknown> {
 
 // Test-only exports
 export {
+  classifierMode,
   extractOutputText,
+  handleClassifierRequest,
   isUuid,
   makeError,
   normalizeClassifier,
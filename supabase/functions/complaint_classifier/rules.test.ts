@@ -0,0 +1,95 @@
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+import { classifyByRules, RULES_CLASSIFIER_VERSION } from "./rules.ts";
+
+Deno.test("classifyByRules labels a calm noise request", () => {
+  const out = classifyByRules(
+    "Could you please keep the music down after 11 tonight?",
+  );
+  assertEquals(out.classifier_version, RULES_CLASSIFIER_VERSION);
+  assertEquals(out.detected_language, "en");
+  assertEquals(out.topics, ["noise", "schedule"]);
+  assertEquals(out.intent, "request");
+  assertEquals(out.rewrite_strength, "light_touch");
+  assertEquals(out.safety_flags, ["none"]);
+});
+
+Deno.test("classifyByRules flags intensity and reframes", () => {
+  const out = classifyByRules(
+    "You ALWAYS leave the dishes in the sink, it's disgusting!!",
+  );
+  assertEquals(out.topics, ["cleanliness"]);
+  assertEquals(out.intent, "concern");
+  assertEquals(out.rewrite_strength, "full_reframe");
+  assertEquals(out.safety_flags, ["emotional_intensity", "ambiguous_intent"]);
+});
+
+Deno.test("classifyByRules detects boundary and clarification intents", () => {
+  assertEquals(
+    classifyByRules("Don't bring guests over without asking me first.").intent,
+    "boundary",
+  );
+  assertEquals(
+    classifyByRules("Why was the group chat muted yesterday?").intent,
+    "clarification",
+  );
+});
+
+Deno.test("classifyByRules falls back to other + full_reframe on no signal", () => {
+  const out = classifyByRules("hmm");
+  assertEquals(out.topics, ["other"]);
+  assertEquals(out.rewrite_strength, "full_reframe");
+});
+
+Deno.test("classifyByRules detects language by script, then stopwords", () => {
+  assertEquals(classifyByRules("音楽がうるさいです").detected_language, "ja");
+  assertEquals(
+    classifyByRules("음악이 너무 시끄러워요").detected_language,
+    "ko",
+  );
+  assertEquals(
+    classifyByRules("Музыка слишком громкая").detected_language,
+    "ru",
+  );
+  assertEquals(
+    classifyByRules("Por favor, la música está muy alta por la noche")
+      .detected_language,
+    "es",
+  );
+  assertEquals(
+    classifyByRules("Kannst du bitte die Musik leiser machen, das ist nicht ok")
+      .detected_language,
+    "de",
+  );
+});
+
+Deno.test("classifyByRules is deterministic and caps topics at 3", () => {
+  const text =
+    "Your friends were loud in the kitchen at midnight and nobody told me.";
+  const a = classifyByRules(text);
+  assertEquals(a, classifyByRules(text));
+  assertEquals(a.topics.length, 3);
+});
+
+Deno.test("classifyByRules reports confidence without overclaiming", () => {
+  assertEquals(classifyByRules("音楽がうるさいです").confidence, {
+    language_confidence: "high",
+    topic_confidence: "low",
+    intent_confidence: "low",
+  });
+  assertEquals(
+    classifyByRules(
+      "Could you please keep the music down, it's too loud at night?",
+    ).confidence,
+    {
+      language_confidence: "medium",
+      topic_confidence: "medium",
+      intent_confidence: "medium",
+    },
+  );
+  // one-word, code-switched text: language is a guess
+  assertEquals(
+    classifyByRules("ruido otra vez").confidence.language_confidence,
+    "low",
+  );
+});
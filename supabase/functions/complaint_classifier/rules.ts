@@ -0,0 +1,355 @@
+// supabase/functions/complaint_classifier/rules.ts
+// Deterministic rule-based classifier (classifier_version "rules_v1").
+//
+// Degraded mode for complaint_classifier: used when the OpenAI classifier is
+// down or over budget (CLASSIFIER_MODE=rules, or orchestrator fallback after
+// repeated retryable failures). Same output shape as the model classifier.
+//
+// - topics: keyword lexicons (en + es/fr/de/pt/it stems), max 3, else "other"
+// - intent: cue heuristics (request > boundary > clarification > concern)
+// - detected_language: Unicode script, then stopword vote for Latin script
+// - rewrite_strength: full_reframe on intensity cues or low signal (fail safe)
+// - confidence: high only for script-detected language; keyword signal is
+//   never better than medium
+//
+// No network, no randomness: same input -> same output.
+
+export const RULES_CLASSIFIER_VERSION = "rules_v1";
+
+export type RulesTopic =
+  | "noise"
+  | "cleanliness"
+  | "privacy"
+  | "guests"
+  | "schedule"
+  | "communication"
+  | "other";
+
+export type RulesIntent = "request" | "boundary" | "concern" | "clarification";
+
+export type RulesConfidence = "low" | "medium" | "high";
+
+export type RulesClassifierOutput = {
+  classifier_version: string;
+  detected_language: string;
+  topics: RulesTopic[];
+  intent: RulesIntent;
+  rewrite_strength: "light_touch" | "full_reframe";
+  confidence: {
+    language_confidence: RulesConfidence;
+    topic_confidence: RulesConfidence;
+    intent_confidence: RulesConfidence;
+  };
+  safety_flags: string[];
+};
+
+/* ---------------- Topic lexicons ---------------- */
+
+// Matched against lowercased text on word-start boundaries (stems allowed)
+const TOPIC_LEXICONS: Record<Exclude<RulesTopic, "other">, string[]> = {
+  noise: [
+    "noise",
+    "noisy",
+    "loud",
+    "music",
+    "volume",
+    "bass",
+    "shout",
+    "yell",
+    "scream",
+    "quiet",
+    "headphone",
+    "tv",
+    "slam",
+    "ruido",
+    "bruit",
+    "lärm",
+    "laut",
+    "barulho",
+    "rumore",
+  ],
+  cleanliness: [
+    "clean",
+    "dirty",
+    "mess",
+    "dish",
+    "trash",
+    "rubbish",
+    "garbage",
+    "bin",
+    "tidy",
+    "smell",
+    "stink",
+    "laundry",
+    "wash",
+    "crumb",
+    "sink",
+    "bathroom",
+    "toilet",
+    "kitchen",
+    "limpi",
+    "sucio",
+    "basura",
+    "propre",
+    "vaisselle",
+    "sauber",
+    "dreckig",
+    "müll",
+    "sujo",
+    "lixo",
+    "sporco",
+    "pulit",
+  ],
+  privacy: [
+    "privacy",
+    "private",
+    "knock",
+    "my room",
+    "without asking",
+    "my stuff",
+    "my things",
+    "borrow",
+    "snoop",
+    "go through",
+    "personal space",
+    "privacidad",
+    "intimité",
+    "privatsphäre",
+    "privacidade",
+  ],
+  guests: [
+    "guest",
+    "visitor",
+    "friend",
+    "boyfriend",
+    "girlfriend",
+    "partner",
+    "sleepover",
+    "stay over",
+    "staying over",
+    "party",
+    "parties",
+    "people over",
+    "invit",
+    "huésped",
+    "visita",
+    "invité",
+    "gäste",
+    "besuch",
+    "ospite",
+  ],
+  schedule: [
+    "late",
+    "early",
+    "morning",
+    "night",
+    "midnight",
+    "weekend",
+    "schedule",
+    "rota",
+    "your turn",
+    "whose turn",
+    "on time",
+    "every day",
+    "tonight",
+    "o'clock",
+    "noche",
+    "mañana",
+    "horario",
+    "nuit",
+    "matin",
+    "nacht",
+    "morgen",
+    "noite",
+    "notte",
+  ],
+  communication: [
+    "tell me",
+    "told me",
+    "talk",
+    "text",
+    "message",
+    "reply",
+    "respond",
+    "ignore",
+    "ignoring",
+    "let me know",
+    "heads up",
+    "communicat",
+    "group chat",
+    "hablar",
+    "avisar",
+    "parler",
+    "prévenir",
+    "reden",
+    "bescheid",
+    "falar",
+    "parlare",
+  ],
+};
+
+const TOPIC_ORDER = Object.keys(TOPIC_LEXICONS) as Exclude<
+  RulesTopic,
+  "other"
+>[];
+
+/* ---------------- Intent + intensity cues ---------------- */
+
+const REQUEST_CUES = [
+  /\b(could|can|would|will) you\b/,
+  /\bplease\b/,
+  /\bwould it be possible\b/,
+  /\bi(?:'d| would) (?:like|appreciate)\b/,
+  /\bpor favor\b/,
+  /\bs'il (?:te|vous) plaît\b/,
+  /\bbitte\b/,
+  /\bper favore\b/,
+];
+
+const BOUNDARY_CUES = [
+  /\b(?:don'?t|do not|stop|never|no more)\b/,
+  /\bnot (?:ok|okay|fine|acceptable)\b/,
+  /\bi need you to\b/,
+  /\bi(?:'m| am) not comfortable\b/,
+  /\bno (?:está|es) bien\b/,
+  /\bne (?:plus|pas)\b/,
+  /\bhör auf\b/,
+];
+
+const CLARIFICATION_CUES = [
+  /^(?:why|what|when|who|how|is|are|did|do|does)\b[^.!]*\?/,
+  /\bwhat happened\b/,
+  /\bwondering\b/,
+];
+
+const CONCERN_CUES = [
+  /\bworried\b/,
+  /\bconcern/,
+  /\bbother/,
+  /\bupset\b/,
+  /\bfrustrat/,
+  /\bhard for me\b/,
+];
+
+const INTENSITY_CUES = [
+  /!{2,}/,
+  /\b(?:always|constantly|every single)\b/,
+  /\b(?:ridiculous|disgusting|unacceptable|sick of|fed up|rude|selfish|lazy|gross)\b/,
+  /\bwhat(?:'s| is) wrong with you\b/,
+  /\byour fault\b/,
+];
+
+/* ---------------- Language detection ---------------- */
+
+// Non-Latin scripts map to one language (good enough for lane routing)
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\u3040-\u30ff]/, "ja"], // hiragana / katakana (checked before Han)
+  [/[\uac00-\ud7af\u1100-\u11ff]/, "ko"],
+  [/[\u4e00-\u9fff]/, "zh"],
+  [/[\u0400-\u04ff]/, "ru"],
+  [/[\u0600-\u06ff]/, "ar"],
+  [/[\u0590-\u05ff]/, "he"],
+  [/[\u0370-\u03ff]/, "el"],
+  [/[\u0e00-\u0e7f]/, "th"],
+  [/[\u0900-\u097f]/, "hi"],
+];
+
+const LATIN_STOPWORDS: Record<string, string[]> = {
+  en: ["the", "and", "you", "is", "it", "to", "please", "your", "my", "not"],
+  es: ["el", "la", "que", "de", "y", "es", "por", "los", "tu", "muy"],
+  fr: ["le", "la", "les", "et", "est", "de", "tu", "vous", "pas", "que"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "du", "ich", "zu", "bitte"],
+  pt: ["que", "não", "você", "muito", "para", "os", "isso", "com", "uma", "do"],
+  it: ["il", "che", "di", "non", "sei", "per", "molto", "gli", "questo", "una"],
+};
+
+function detectLanguage(
+  text: string,
+): { language: string; confidence: RulesConfidence } {
+  for (const [re, lang] of SCRIPT_LANGUAGES) {
+    if (re.test(text)) return { language: lang, confidence: "high" };
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  let best = "en";
+  let bestScore = 0;
+  let runnerUp = 0;
+  for (const [lang, stopwords] of Object.entries(LATIN_STOPWORDS)) {
+    const score = words.filter((w) => stopwords.includes(w)).length;
+    // strict > keeps "en" on ties (insertion order puts en first)
+    if (score > bestScore) {
+      runnerUp = bestScore;
+      best = lang;
+      bestScore = score;
+    } else if (score > runnerUp) {
+      runnerUp = score;
+    }
+  }
+  // short / code-switched text -> low, so the orchestrator uses the profile locale
+  return {
+    language: best,
+    confidence: bestScore >= 2 && bestScore > runnerUp ? "medium" : "low",
+  };
+}
+
+/* ---------------- Classifier ---------------- */
+
+function matchesTerm(text: string, term: string): boolean {
+  // word-start boundary; stems match longer words ("clean" -> "cleaning")
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?:^|[^\\p{L}])${escaped}`, "u").test(text);
+}
+
+export function classifyByRules(originalText: string): RulesClassifierOutput {
+  const text = originalText.trim().toLowerCase();
+
+  const scored = TOPIC_ORDER
+    .map((topic) => ({
+      topic,
+      hits: TOPIC_LEXICONS[topic].filter((t) => matchesTerm(text, t)).length,
+    }))
+    .filter((s) => s.hits > 0)
+    .sort((a, b) => b.hits - a.hits); // stable: ties keep TOPIC_ORDER
+  const topics: RulesTopic[] = scored.length
+    ? scored.slice(0, 3).map((s) => s.topic)
+    : ["other"];
+
+  const has = (cues: RegExp[]) => cues.some((re) => re.test(text));
+  const intent: RulesIntent = has(REQUEST_CUES)
+    ? "request"
+    : has(BOUNDARY_CUES)
+    ? "boundary"
+    : has(CLARIFICATION_CUES)
+    ? "clarification"
+    : "concern"; // contract default when ambiguous
+
+  const letters = originalText.match(/\p{Lu}|\p{Ll}/gu) ?? [];
+  const upper = letters.filter((c) => /\p{Lu}/u.test(c)).length;
+  const shouting = letters.length >= 12 && upper / letters.length > 0.6;
+  const intense = shouting || has(INTENSITY_CUES);
+  const ambiguous = intent === "concern" && !has(CONCERN_CUES);
+
+  const safety_flags = [
+    ...(intense ? ["emotional_intensity"] : []),
+    ...(ambiguous ? ["ambiguous_intent"] : []),
+  ];
+
+  const language = detectLanguage(originalText);
+
+  return {
+    classifier_version: RULES_CLASSIFIER_VERSION,
+    detected_language: language.language,
+    topics,
+    intent,
+    // low signal -> safer full_reframe (contract §5.4)
+    rewrite_strength: intense || ambiguous || topics[0] === "other"
+      ? "full_reframe"
+      : "light_touch",
+    confidence: {
+      language_confidence: language.confidence,
+      topic_confidence: (scored[0]?.hits ?? 0) >= 2 ? "medium" : "low",
+      intent_confidence: ambiguous ? "low" : "medium",
+    },
+    safety_flags: safety_flags.length ? safety_flags : ["none"],
+  };
+}
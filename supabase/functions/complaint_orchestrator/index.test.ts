@@ -1,8 +1,12 @@
-import { assertEquals } from "jsr:@std/assert@0.224.0";
+import { assertEquals, assertRejects } from "jsr:@std/assert@0.224.0";
 
 import {
+  ApiError,
   buildSnapshotPreferences,
+  classifyMessage,
   normalizePreferencePayload,
+  resolveSourceLocale,
+  validate,
 } from "./index.ts";
 
 Deno.test("normalizePreferencePayload handles resolved prefs", () => {
@@ -50,3 +54,158 @@ Deno.test("buildSnapshotPreferences merges communication prefs with other sectio
   assertEquals(prefs.communication_directness, "balanced");
   assertEquals(Object.keys(prefs).length, 4);
 });
+
+async function withClassifierEnv(fn: () => Promise<void>) {
+  const env: Record<string, string> = {
+    CLASSIFIER_FUNCTION_URL: "https://example.test/classifier",
+    CLASSIFIER_SHARED_SECRET: "secret",
+  };
+  const prev = new Map(
+    [...Object.keys(env), "CLASSIFIER_MODE"].map((k) => [k, Deno.env.get(k)]),
+  );
+  for (const [k, v] of Object.entries(env)) Deno.env.set(k, v);
+  Deno.env.delete("CLASSIFIER_MODE");
+  try {
+    await fn();
+  } finally {
+    for (const [k, v] of prev) {
+      if (v === undefined) Deno.env.delete(k);
+      else Deno.env.set(k, v);
+    }
+  }
+}
+
+const CLASSIFY_PARAMS = {
+  original_text: "The music is too loud at night",
+  surface: "weekly_harmony",
+  sender_user_id: "00000000-0000-4000-8000-000000000001",
+};
+
+const classifierDown = () =>
+  Promise.resolve(
+    new Response(
+      JSON.stringify({ ok: false, code: "openai_error", retryable: true }),
+      { status: 502 },
+    ),
+  );
+
+Deno.test("classifyMessage retries early attempts, then degrades to rules_v1", async () => {
+  await withClassifierEnv(async () => {
+    await assertRejects(
+      () =>
+        classifyMessage({
+          ...CLASSIFY_PARAMS,
+          trigger_attempt: 2,
+          fetchFn: classifierDown,
+        }),
+      ApiError,
+    );
+
+    const out = await classifyMessage({
+      ...CLASSIFY_PARAMS,
+      trigger_attempt: 3,
+      fetchFn: classifierDown,
+    });
+    assertEquals(out.classifier_version, "rules_v1");
+    assertEquals(out.topics, ["noise", "schedule"]);
+  });
+});
+
+Deno.test("classifyMessage does not mask non-retryable classifier errors", async () => {
+  await withClassifierEnv(async () => {
+    await assertRejects(
+      () =>
+        classifyMessage({
+          ...CLASSIFY_PARAMS,
+          trigger_attempt: 9,
+          fetchFn: () =>
+            Promise.resolve(
+              new Response(
+                JSON.stringify({ ok: false, code: "unauthorized" }),
+                { status: 401 },
+              ),
+            ),
+        }),
+      ApiError,
+      "unauthorized",
+    );
+  });
+});
+
+Deno.test("classifyMessage skips the service when CLASSIFIER_MODE=rules", async () => {
+  await withClassifierEnv(async () => {
+    Deno.env.set("CLASSIFIER_MODE", "rules");
+    const out = await classifyMessage({
+      ...CLASSIFY_PARAMS,
+      trigger_attempt: 1,
+      fetchFn: () => {
+        throw new Error("classifier service must not be called");
+      },
+    });
+    assertEquals(out.classifier_version, "rules_v1");
+  });
+});
+
+Deno.test("resolveSourceLocale follows the contract fallback chain", () => {
+  const detected = (language_confidence?: string) => ({
+    detected_language: "es-MX",
+    confidence: language_confidence ? { language_confidence } : undefined,
+  });
+
+  assertEquals(resolveSourceLocale(detected("high"), "fr-FR"), "es");
+  assertEquals(resolveSourceLocale(detected("medium"), null), "es");
+  assertEquals(resolveSourceLocale(detected("low"), "fr-FR"), "fr");
+  // classifier without confidence (older deploy) is treated as low
+  assertEquals(resolveSourceLocale(detected(), "de"), "de");
+  assertEquals(resolveSourceLocale(detected("low"), null), "en");
+  assertEquals(
+    resolveSourceLocale(
+      { detected_language: "??", confidence: { language_confidence: "high" } },
+      "not a locale",
+    ),
+    "en",
+  );
+});
+
+Deno.test("validate accepts a recipient list or a single recipient", () => {
+  const base = {
+    entry_id: "00000000-0000-4000-8000-00000000e001",
+    home_id: "00000000-0000-4000-8000-00000000a001",
+    sender_user_id: "00000000-0000-4000-8000-00000000a002",
+    surface: "weekly_harmony",
+    trigger_request_id: "00000000-0000-4000-8000-00000000c001",
+  };
+  const r1 = "00000000-0000-4000-8000-00000000a003";
+  const r2 = "00000000-0000-4000-8000-00000000a004";
+
+  assertEquals(
+    validate({ ...base, recipient_user_id: r1 }).recipient_user_ids,
+    [r1],
+  );
+  assertEquals(
+    validate({ ...base, recipient_user_ids: [r1, r2] }).recipient_user_ids,
+    [r1, r2],
+  );
+
+  const code = (body: Record<string, unknown>) => {
+    try {
+      validate({ ...base, ...body });
+      return null;
+    } catch (e) {
+      return (e as ApiError).message;
+    }
+  };
+  assertEquals(code({ recipient_user_ids: [] }), "recipient_user_ids_missing");
+  assertEquals(
+    code({ recipient_user_ids: [r1, r1.toUpperCase()] }),
+    "recipient_user_ids_duplicate",
+  );
+  assertEquals(
+    code({ recipient_user_ids: [r1, base.sender_user_id] }),
+    "recipient_is_sender",
+  );
+  assertEquals(
+    code({ recipient_user_ids: Array.from({ length: 9 }, () => r1) }),
+    "recipient_user_ids_max_8",
+  );
+});
@@ -6,6 +6,12 @@
 // - Runner calls orchestrator with trigger_request_id = CLAIM_ID
 // - Orchestrator MUST use trigger_request_id for marker RPCs (ownership enforced)
 //
+// Fan-out: body may carry recipient_user_ids[] (1..8) instead of recipient_user_id.
+// One rewrite_request (= entry_id), classified once; snapshots, context pack,
+// lane/target_locale and routing per recipient; all jobs enqueued in one RPC
+// (complaint_rewrite_enqueue_recipients_v1). The trigger queue itself stays
+// single-recipient (one recipient per author per week).
+//
 // Required env:
 // - SUPABASE_URL
 // - SUPABASE_SERVICE_ROLE_KEY
@@ -15,11 +21,14 @@
 //
 // Optional env:
 // - CLASSIFIER_TIMEOUT_MS (default 8000)
+// - CLASSIFIER_MODE (service | rules; default service)
+//     rules = skip the classifier service, classify with the local rules_v1 classifier
+// - CLASSIFIER_RULES_FALLBACK_AFTER_ATTEMPTS (default 3)
+//     retryable classifier failures on trigger attempt >= N degrade to rules_v1
+//     instead of another 10 minute retry (pipeline keeps moving during outages)
 
-import {
-  createClient,
-  type SupabaseClient,
-} from "npm:@supabase/supabase-js@2.48.0";
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
+import { classifyByRules } from "../complaint_classifier/rules.ts";
 
 /* ---------------- Types ---------------- */
 
@@ -29,6 +38,12 @@ type ClassifierResult = {
   topics: string[];
   intent: "request" | "boundary" | "concern" | "clarification";
   rewrite_strength: "light_touch" | "full_reframe";
+  // optional: older classifier deploys omit it (treated as low)
+  confidence?: {
+    language_confidence?: string;
+    topic_confidence?: string;
+    intent_confidence?: string;
+  };
   safety_flags: string[];
 };
 
@@ -47,11 +62,19 @@ type RoutingDecision = {
 type EntryLocalesRow = {
   original_text: string | null;
   recipient_locale: string | null;
+  sender_locale?: string | null; // author notification_preferences.locale (migration 14)
   home_id: string | null;
   author_user_id: string | null;
   recipient_user_id?: string | null;
 };
 
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
 type SnapshotRow = {
   recipient_snapshot_id: string | null;
   recipient_preference_snapshot_id: string | null;
@@ -64,9 +87,12 @@ type Input = {
   entry_id: string; // uuid
   home_id: string; // uuid (validated against entryData)
   sender_user_id: string; // uuid (validated against entryData)
-  recipient_user_id: string; // uuid (validated against entryData if returned)
+  // uuids (validated against entryData if returned); 1..MAX_RECIPIENTS, distinct.
+  // Body sends recipient_user_ids[] (fan-out) or a single recipient_user_id.
+  recipient_user_ids: string[];
   surface: Surface;
   trigger_request_id: string; // uuid (MUST match complaint_rewrite_triggers.request_id from pop_pending)
+  trigger_attempt: number; // complaint_rewrite_triggers.attempts after claim (1 = first run)
 };
 
 /* ---------------- Allow-lists + caps ---------------- */
@@ -75,8 +101,10 @@ const ALLOWED_SURFACES = new Set<Surface>(SURFACES);
 
 const MAX_BODY_BYTES = 64_000;
 const MAX_ORIGINAL_TEXT_CHARS = 4_000;
+const MAX_RECIPIENTS = 8; // complaint_rewrite_enqueue_recipients_v1 asserts 1..8
 
 const DEFAULT_CLASSIFIER_TIMEOUT_MS = 8_000;
+const DEFAULT_CLASSIFIER_RULES_FALLBACK_AFTER_ATTEMPTS = 3;
 
 /* ---------------- Errors ---------------- */
 
@@ -93,407 +121,500 @@ class ApiError extends Error {
 
 /* ---------------- Entrypoint ---------------- */
 
-if (import.meta.main) {
-  Deno.serve(async (req) => {
-    // This is an HTTP request id for logging/response only (NOT used for trigger ownership).
-    const http_request_id = crypto.randomUUID();
-
-    const { supabase, errResp } = supabaseClient();
-    if (!supabase) return errResp;
-
-    let entry_id: string | null = null;
-    let trigger_request_id: string | null = null;
-    let terminalMarked = false;
-
-    try {
-      // 1) Internal guard FIRST
-      requireInternalSecret(req);
-
-      // 2) Parse body safely (byte cap)
-      const body = await safeJson(req, MAX_BODY_BYTES);
-
-      // 3) Validate input
-      const input = validate(body);
-      entry_id = input.entry_id;
-      trigger_request_id = input.trigger_request_id;
-
-      const rewrite_request_id = input.entry_id; // Option: rewrite_request_id == entry_id
-
-      // 0) Optional fast short-circuit
-      const exists = await rpcBool(
-        supabase,
-        "complaint_rewrite_request_exists",
-        { p_rewrite_request_id: rewrite_request_id },
-      );
-
-      if (exists === true) {
-        await rpcSafe(supabase, "complaint_trigger_mark_completed", {
-          p_entry_id: input.entry_id,
-          p_request_id: input.trigger_request_id,
-          p_processed_at: new Date().toISOString(),
-          p_note: "already_enqueued",
-        });
-        terminalMarked = true;
-
-        return json({
-          ok: true,
-          already_enqueued: true,
-          rewrite_request_id,
-          http_request_id,
-        }, 200);
-      }
-
-      // 1) Fetch authoritative entry data (text + locale + home + author + recipient)
-      const entryData: EntryLocalesRow | null = await rpcJson<EntryLocalesRow>(
-        supabase,
-        "complaint_fetch_entry_locales",
-        {
-          p_entry_id: input.entry_id,
-          p_recipient_user_id: input.recipient_user_id,
-        },
-      );
+type HandlerDeps = {
+  supabase?: RpcLike;
+  fetchFn?: typeof fetch; // classifier service call
+};
 
-      if (!entryData) {
-        throw new ApiError(
-          404,
-          "mood_entry_not_found",
-          false,
-          "mood_entry_not_found",
-        );
-      }
+async function handleOrchestratorRequest(
+  req: Request,
+  deps: HandlerDeps = {},
+): Promise<Response> {
+  // This is an HTTP request id for logging/response only (NOT used for trigger ownership).
+  const http_request_id = crypto.randomUUID();
 
-      // Authoritative checks
-      const entry_home_id = String(entryData.home_id ?? "").trim();
-      const entry_author_user_id = String(entryData.author_user_id ?? "")
-        .trim();
-      const entry_recipient_user_id = String(
-        entryData.recipient_user_id ?? input.recipient_user_id,
-      ).trim();
-
-      if (
-        !isUuid(entry_home_id) || !isUuid(entry_author_user_id) ||
-        !isUuid(entry_recipient_user_id)
-      ) {
-        throw new ApiError(
-          500,
-          "entry_locale_rpc_invalid_shape",
-          false,
-          "entry_locale_rpc_invalid_shape",
-        );
-      }
-      if (entry_home_id !== input.home_id) {
-        throw new ApiError(403, "home_id_mismatch", false, "home_id_mismatch");
-      }
-      if (entry_author_user_id !== input.sender_user_id) {
-        throw new ApiError(
-          403,
-          "sender_user_id_mismatch",
-          false,
-          "sender_user_id_mismatch",
-        );
-      }
-      if (entry_recipient_user_id !== input.recipient_user_id) {
-        throw new ApiError(
-          403,
-          "recipient_user_id_mismatch",
-          false,
-          "recipient_user_id_mismatch",
-        );
-      }
+  const { supabase, errResp } = deps.supabase
+    ? { supabase: deps.supabase, errResp: null }
+    : supabaseClient();
+  if (!supabase) return errResp;
 
-      // Original text
-      const original_text = String(entryData.original_text ?? "").trim();
+  let entry_id: string | null = null;
+  let trigger_request_id: string | null = null;
+  let terminalMarked = false;
 
-      if (!original_text) {
-        await rpcSafe(supabase, "complaint_trigger_mark_canceled", {
-          p_entry_id: input.entry_id,
-          p_request_id: input.trigger_request_id,
-          p_reason: "no_text_to_rewrite",
-          p_processed_at: new Date().toISOString(),
-        });
-        terminalMarked = true;
+  try {
+    // 1) Internal guard FIRST
+    requireInternalSecret(req);
 
-        return json({
-          ok: true,
-          skipped: "no_text_to_rewrite",
-          rewrite_request_id,
-          http_request_id,
-        }, 200);
-      }
+    // 2) Parse body safely (byte cap)
+    const body = await safeJson(req, MAX_BODY_BYTES);
 
-      if (original_text.length > MAX_ORIGINAL_TEXT_CHARS) {
-        await rpcSafe(supabase, "complaint_trigger_mark_canceled", {
-          p_entry_id: input.entry_id,
-          p_request_id: input.trigger_request_id,
-          p_reason: `text_too_long_${MAX_ORIGINAL_TEXT_CHARS}`,
-          p_processed_at: new Date().toISOString(),
-        });
-        terminalMarked = true;
+    // 3) Validate input
+    const input = validate(body);
+    entry_id = input.entry_id;
+    trigger_request_id = input.trigger_request_id;
 
-        return json({
-          ok: true,
-          skipped: "text_too_long",
-          rewrite_request_id,
-          http_request_id,
-        }, 413);
-      }
+    const rewrite_request_id = input.entry_id; // Option: rewrite_request_id == entry_id
 
-      // Locales
-      const recipient_locale = normalizeLocale(entryData.recipient_locale) ??
-        "en";
-
-      // 2) Preference payload (RPC)
-      const prefPayload: Record<string, unknown> | null = await rpcJson<
-        Record<string, unknown>
-      >(
-        supabase,
-        "complaint_preference_payload",
-        { p_recipient_user_id: input.recipient_user_id },
-      );
+    // 0) Optional fast short-circuit
+    const exists = await rpcBool(
+      supabase,
+      "complaint_rewrite_request_exists",
+      { p_rewrite_request_id: rewrite_request_id },
+    );
 
-      const normalizedPrefMap = normalizePreferencePayload(prefPayload);
-      const snapshotPreferences = buildSnapshotPreferences(normalizedPrefMap);
+    if (exists === true) {
+      await rpcSafe(supabase, "complaint_trigger_mark_completed", {
+        p_entry_id: input.entry_id,
+        p_request_id: input.trigger_request_id,
+        p_processed_at: new Date().toISOString(),
+        p_note: "already_enqueued",
+      });
+      terminalMarked = true;
 
-      const snapshotPayload = { preferences: snapshotPreferences };
+      return json({
+        ok: true,
+        already_enqueued: true,
+        rewrite_request_id,
+        http_request_id,
+      }, 200);
+    }
 
-      const snapData: SnapshotRow | null = await rpcJson<SnapshotRow>(
-        supabase,
-        "complaint_build_recipient_snapshots",
-        {
-          p_rewrite_request_id: rewrite_request_id,
-          p_home_id: input.home_id,
-          p_recipient_user_id: input.recipient_user_id,
-          p_preference_payload: snapshotPayload,
-        },
+    // 1) Fetch authoritative entry data (text + locale + home + author + recipient)
+    // One row per recipient (recipient_locale differs); entry fields are shared.
+    const entries: EntryLocalesRow[] = [];
+    for (const recipient_user_id of input.recipient_user_ids) {
+      entries.push(
+        await fetchEntryLocales(supabase, input, recipient_user_id),
       );
+    }
+    const entryData = entries[0];
 
-      const recipient_snapshot_id = String(
-        snapData?.recipient_snapshot_id ?? "",
-      ).trim();
-      const recipient_preference_snapshot_id = String(
-        snapData?.recipient_preference_snapshot_id ?? "",
-      ).trim();
-
-      if (
-        !isUuid(recipient_snapshot_id) ||
-        !isUuid(recipient_preference_snapshot_id)
-      ) {
-        throw new ApiError(
-          500,
-          "snapshot_ids_invalid_uuid",
-          false,
-          "snapshot_ids_invalid_uuid",
-        );
-      }
+    // Original text
+    const original_text = String(entryData.original_text ?? "").trim();
 
-      // 4) Classifier service
-      const classifier_result = await callClassifierService({
-        classifierUrl: env("CLASSIFIER_FUNCTION_URL"),
-        classifierSecret: env("CLASSIFIER_SHARED_SECRET"),
-        original_text,
-        surface: input.surface,
-        sender_user_id: input.sender_user_id,
-        timeoutMs: clampInt(
-          Deno.env.get("CLASSIFIER_TIMEOUT_MS"),
-          2000,
-          30000,
-          DEFAULT_CLASSIFIER_TIMEOUT_MS,
-        ),
+    if (!original_text) {
+      await rpcSafe(supabase, "complaint_trigger_mark_canceled", {
+        p_entry_id: input.entry_id,
+        p_request_id: input.trigger_request_id,
+        p_reason: "no_text_to_rewrite",
+        p_processed_at: new Date().toISOString(),
       });
+      terminalMarked = true;
 
-      // 5) Lane
-      const source_locale =
-        normalizeLocale(classifier_result.detected_language) ?? "en";
-      const target_locale = recipient_locale;
-      const lane = source_locale === target_locale
-        ? "same_language"
-        : "cross_language";
-
-      // 6) Context pack (RPC)
-      const context_pack = await rpcJson<Record<string, unknown>>(
-        supabase,
-        "complaint_context_build",
-        {
-          p_recipient_user_id: input.recipient_user_id,
-          p_recipient_preference_snapshot_id: recipient_preference_snapshot_id,
-          p_topics: classifier_result.topics,
-          p_target_language: target_locale,
-          p_power_mode: "peer",
-        },
-      );
-
-      // 7) Routing (RPC)
-      const routing_decision: RoutingDecision | null = await rpcJson<
-        RoutingDecision
-      >(
-        supabase,
-        "complaint_rewrite_route",
-        {
-          p_surface: input.surface,
-          p_lane: lane,
-          p_rewrite_strength: classifier_result.rewrite_strength,
-        },
-      );
-
-      if (!routing_decision) {
-        throw new ApiError(
-          500,
-          "routing_not_found",
-          false,
-          "routing_not_found",
-        );
-      }
-
-      // 8) Policy pack
-      const policy = {
-        tone: classifier_result.rewrite_strength === "full_reframe"
-          ? "gentle"
-          : "neutral",
-        directness: "soft",
-        emotional_temperature: "cool_down",
-        rewrite_strength: classifier_result.rewrite_strength,
-      };
-
-      // 9) Request blob
-      const rewrite_request = {
+      return json({
+        ok: true,
+        skipped: "no_text_to_rewrite",
         rewrite_request_id,
-        entry_id: input.entry_id,
-        home_id: input.home_id,
-        sender_user_id: input.sender_user_id,
-        recipient_user_id: input.recipient_user_id,
-        recipient_snapshot_id,
-        recipient_preference_snapshot_id,
-        surface: input.surface,
-        original_text,
-        topics: classifier_result.topics,
-        intent: classifier_result.intent,
-        rewrite_strength: classifier_result.rewrite_strength,
-        source_locale,
-        target_locale,
-        lane,
-        classifier_result,
-        context_pack,
-        policy,
-        classifier_version: classifier_result.classifier_version ?? "v1",
-        context_pack_version: "v1.1",
-        policy_version: "v1",
         http_request_id,
-        trigger_request_id: input.trigger_request_id,
-        created_at: new Date().toISOString(),
-      };
-
-      const maxAttempts = clampInt(routing_decision?.max_retries, 0, 10, 2);
-
-      // 10) Enqueue rewrite work (RPC; idempotent)
-      const enqueueData = await rpcJson(
-        supabase,
-        "complaint_rewrite_enqueue",
-        {
-          p_rewrite_request_id: rewrite_request_id,
-          p_home_id: input.home_id,
-          p_sender_user_id: input.sender_user_id,
-          p_recipient_user_id: input.recipient_user_id,
-          p_recipient_snapshot_id: recipient_snapshot_id,
-          p_recipient_preference_snapshot_id: recipient_preference_snapshot_id,
-          p_surface: input.surface,
-          p_original_text: original_text,
-          p_rewrite_request: rewrite_request,
-          p_classifier_result: classifier_result,
-          p_context_pack: context_pack,
-          p_source_locale: source_locale,
-          p_target_locale: target_locale,
-          p_lane: lane,
-          p_topics: classifier_result.topics,
-          p_intent: classifier_result.intent,
-          p_rewrite_strength: classifier_result.rewrite_strength,
-          p_classifier_version: classifier_result.classifier_version ?? "v1",
-          p_context_pack_version: "v1.1",
-          p_policy_version: "v1",
-          p_routing_decision: routing_decision,
-          p_language_pair: { from: source_locale, to: target_locale },
-          p_max_attempts: maxAttempts,
-          p_request_id: http_request_id,
-        },
-      );
+      }, 200);
+    }
 
-      // Mark trigger completed (IMPORTANT: use trigger_request_id)
-      await rpcSafe(supabase, "complaint_trigger_mark_completed", {
+    if (original_text.length > MAX_ORIGINAL_TEXT_CHARS) {
+      await rpcSafe(supabase, "complaint_trigger_mark_canceled", {
         p_entry_id: input.entry_id,
         p_request_id: input.trigger_request_id,
+        p_reason: `text_too_long_${MAX_ORIGINAL_TEXT_CHARS}`,
         p_processed_at: new Date().toISOString(),
-        p_note: "enqueued",
       });
       terminalMarked = true;
 
       return json({
         ok: true,
-        http_request_id,
+        skipped: "text_too_long",
         rewrite_request_id,
-        recipient_snapshot_id,
-        recipient_preference_snapshot_id,
-        routing_decision,
-        enqueue: enqueueData ?? null,
-      }, 200);
-    } catch (e) {
-      const { msg, status, retryable, code } = normalizeCatch(e);
+        http_request_id,
+      }, 413);
+    }
 
-      // Best-effort terminal marking (IMPORTANT: use trigger_request_id)
-      if (entry_id && trigger_request_id && !terminalMarked) {
-        if (retryable) {
-          await rpcSafe(supabase, "complaint_trigger_mark_retry", {
-            p_entry_id: entry_id,
-            p_request_id: trigger_request_id,
-            p_error: msg.slice(0, 512),
-            p_retry_after: "10 minutes",
-            p_note: "orchestrator_retryable_error",
-          });
-        } else {
-          // non-retryable: treat as terminal failure (or cancel if it's clearly "bad input")
-          const cancel = status >= 400 && status < 500;
-          if (cancel) {
-            await rpcSafe(supabase, "complaint_trigger_mark_canceled", {
-              p_entry_id: entry_id,
-              p_request_id: trigger_request_id,
-              p_reason: msg.slice(0, 256),
-              p_processed_at: new Date().toISOString(),
-            });
-          } else {
-            await rpcSafe(supabase, "complaint_trigger_mark_failed_terminal", {
-              p_entry_id: entry_id,
-              p_request_id: trigger_request_id,
-              p_error: msg.slice(0, 512),
-              p_processed_at: new Date().toISOString(),
-              p_note: "orchestrator_terminal_failure",
-            });
-          }
-        }
-      }
+    // 2) Classifier service (once per message; degrades to local rules_v1, see classifyMessage)
+    const classifier_result = await classifyMessage({
+      original_text,
+      surface: input.surface,
+      sender_user_id: input.sender_user_id,
+      trigger_attempt: input.trigger_attempt,
+      fetchFn: deps.fetchFn,
+    });
 
-      const respStatus = retryable ? preferRetryableStatus(status) : status;
+    const source_locale = resolveSourceLocale(
+      classifier_result,
+      entryData.sender_locale,
+    );
 
-      return json(
-        {
-          ok: false,
+    // 3) Per-recipient snapshots, context pack, lane and routing
+    const recipients: RecipientPlan[] = [];
+    for (const [i, recipient_user_id] of input.recipient_user_ids.entries()) {
+      recipients.push(
+        await planRecipient(supabase, {
+          input,
+          rewrite_request_id,
+          recipient_user_id,
+          recipient_locale: entries[i].recipient_locale,
+          original_text,
+          classifier_result,
+          source_locale,
           http_request_id,
-          error: msg,
-          code: code ?? null,
-          retryable,
-        },
-        respStatus,
+        }),
       );
-    } finally {
-      // Final net: if we started but failed to terminal mark, requeue (so it doesn't stick in processing forever)
-      if (entry_id && trigger_request_id && !terminalMarked) {
+    }
+
+    // 4) Enqueue every recipient in one transaction (RPC; idempotent).
+    // The request finalizes only once all of its jobs are terminal.
+    const enqueueData = await rpcJson(
+      supabase,
+      "complaint_rewrite_enqueue_recipients_v1",
+      {
+        p_rewrite_request_id: rewrite_request_id,
+        p_home_id: input.home_id,
+        p_sender_user_id: input.sender_user_id,
+        p_surface: input.surface,
+        p_original_text: original_text,
+        p_classifier_result: classifier_result,
+        p_source_locale: source_locale,
+        p_topics: classifier_result.topics,
+        p_intent: classifier_result.intent,
+        p_rewrite_strength: classifier_result.rewrite_strength,
+        p_classifier_version: classifier_result.classifier_version ?? "v1",
+        p_context_pack_version: "v1.1",
+        p_policy_version: "v1",
+        p_recipients: recipients.map((r) => r.enqueue),
+      },
+    );
+
+    // Mark trigger completed (IMPORTANT: use trigger_request_id)
+    await rpcSafe(supabase, "complaint_trigger_mark_completed", {
+      p_entry_id: input.entry_id,
+      p_request_id: input.trigger_request_id,
+      p_processed_at: new Date().toISOString(),
+      p_note: "enqueued",
+    });
+    terminalMarked = true;
+
+    const [first] = recipients;
+    return json({
+      ok: true,
+      http_request_id,
+      rewrite_request_id,
+      // first recipient (single-recipient response shape)
+      recipient_snapshot_id: first.recipient_snapshot_id,
+      recipient_preference_snapshot_id: first.recipient_preference_snapshot_id,
+      routing_decision: first.enqueue.routing_decision,
+      recipients: recipients.map((r) => ({
+        recipient_user_id: r.enqueue.recipient_user_id,
+        recipient_preference_snapshot_id: r.recipient_preference_snapshot_id,
+        target_locale: r.enqueue.target_locale,
+        lane: r.enqueue.lane,
+      })),
+      enqueue: enqueueData ?? null,
+    }, 200);
+  } catch (e) {
+    const { msg, status, retryable, code } = normalizeCatch(e);
+
+    // Best-effort terminal marking (IMPORTANT: use trigger_request_id)
+    if (entry_id && trigger_request_id && !terminalMarked) {
+      if (retryable) {
         await rpcSafe(supabase, "complaint_trigger_mark_retry", {
           p_entry_id: entry_id,
           p_request_id: trigger_request_id,
-          p_error: "orchestrator_exit_without_terminal_state",
+          p_error: msg.slice(0, 512),
           p_retry_after: "10 minutes",
-          p_note: "orchestrator_final_safety_net",
+          p_note: "orchestrator_retryable_error",
         });
+      } else {
+        // non-retryable: treat as terminal failure (or cancel if it's clearly "bad input")
+        const cancel = status >= 400 && status < 500;
+        if (cancel) {
+          await rpcSafe(supabase, "complaint_trigger_mark_canceled", {
+            p_entry_id: entry_id,
+            p_request_id: trigger_request_id,
+            p_reason: msg.slice(0, 256),
+            p_processed_at: new Date().toISOString(),
+          });
+        } else {
+          await rpcSafe(supabase, "complaint_trigger_mark_failed_terminal", {
+            p_entry_id: entry_id,
+            p_request_id: trigger_request_id,
+            p_error: msg.slice(0, 512),
+            p_processed_at: new Date().toISOString(),
+            p_note: "orchestrator_terminal_failure",
+          });
+        }
       }
     }
-  });
+
+    const respStatus = retryable ? preferRetryableStatus(status) : status;
+
+    return json(
+      {
+        ok: false,
+        http_request_id,
+        error: msg,
+        code: code ?? null,
+        retryable,
+      },
+      respStatus,
+    );
+  } finally {
+    // Final net: if we started but failed to terminal mark, requeue (so it doesn't stick in processing forever)
+    if (entry_id && trigger_request_id && !terminalMarked) {
+      await rpcSafe(supabase, "complaint_trigger_mark_retry", {
+        p_entry_id: entry_id,
+        p_request_id: trigger_request_id,
+        p_error: "orchestrator_exit_without_terminal_state",
+        p_retry_after: "10 minutes",
+        p_note: "orchestrator_final_safety_net",
+      });
+    }
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleOrchestratorRequest(req));
+}
+
+/* ---------------- Per-recipient steps ---------------- */
+
+async function fetchEntryLocales(
+  supabase: RpcLike,
+  input: Input,
+  recipient_user_id: string,
+): Promise<EntryLocalesRow> {
+  // RETURNS TABLE -> PostgREST returns an array
+  const entryRows = await rpcJson<EntryLocalesRow[] | EntryLocalesRow>(
+    supabase,
+    "complaint_fetch_entry_locales",
+    {
+      p_entry_id: input.entry_id,
+      p_recipient_user_id: recipient_user_id,
+    },
+  );
+  const entryData: EntryLocalesRow | null = Array.isArray(entryRows)
+    ? entryRows[0] ?? null
+    : entryRows;
+
+  if (!entryData) {
+    throw new ApiError(
+      404,
+      "mood_entry_not_found",
+      false,
+      "mood_entry_not_found",
+    );
+  }
+
+  // Authoritative checks
+  const entry_home_id = String(entryData.home_id ?? "").trim();
+  const entry_author_user_id = String(entryData.author_user_id ?? "").trim();
+  const entry_recipient_user_id = String(
+    entryData.recipient_user_id ?? recipient_user_id,
+  ).trim();
+
+  if (
+    !isUuid(entry_home_id) || !isUuid(entry_author_user_id) ||
+    !isUuid(entry_recipient_user_id)
+  ) {
+    throw new ApiError(
+      500,
+      "entry_locale_rpc_invalid_shape",
+      false,
+      "entry_locale_rpc_invalid_shape",
+    );
+  }
+  if (entry_home_id !== input.home_id) {
+    throw new ApiError(403, "home_id_mismatch", false, "home_id_mismatch");
+  }
+  if (entry_author_user_id !== input.sender_user_id) {
+    throw new ApiError(
+      403,
+      "sender_user_id_mismatch",
+      false,
+      "sender_user_id_mismatch",
+    );
+  }
+  if (entry_recipient_user_id !== recipient_user_id) {
+    throw new ApiError(
+      403,
+      "recipient_user_id_mismatch",
+      false,
+      "recipient_user_id_mismatch",
+    );
+  }
+
+  return entryData;
+}
+
+// One element of complaint_rewrite_enqueue_recipients_v1(p_recipients)
+type RecipientPlan = {
+  recipient_snapshot_id: string;
+  recipient_preference_snapshot_id: string;
+  enqueue: {
+    recipient_user_id: string;
+    target_locale: string;
+    lane: "same_language" | "cross_language";
+    context_pack: Record<string, unknown> | null;
+    rewrite_request: Record<string, unknown>;
+    routing_decision: RoutingDecision;
+    language_pair: { from: string; to: string };
+    preference_payload: Record<string, unknown>;
+    max_attempts: number;
+  };
+};
+
+async function planRecipient(
+  supabase: RpcLike,
+  params: {
+    input: Input;
+    rewrite_request_id: string;
+    recipient_user_id: string;
+    recipient_locale: string | null;
+    original_text: string;
+    classifier_result: ClassifierResult;
+    source_locale: string;
+    http_request_id: string;
+  },
+): Promise<RecipientPlan> {
+  const { input, rewrite_request_id, recipient_user_id, classifier_result } =
+    params;
+
+  // a) Preference payload (RPC)
+  const prefPayload: Record<string, unknown> | null = await rpcJson<
+    Record<string, unknown>
+  >(
+    supabase,
+    "complaint_preference_payload",
+    { p_recipient_user_id: recipient_user_id },
+  );
+
+  const normalizedPrefMap = normalizePreferencePayload(prefPayload);
+  const snapshotPreferences = buildSnapshotPreferences(normalizedPrefMap);
+
+  const snapshotPayload = { preferences: snapshotPreferences };
+
+  // b) Snapshots (RPC; one recipient snapshot per request, one preference
+  // snapshot per recipient)
+  const snapData: SnapshotRow | null = await rpcJson<SnapshotRow>(
+    supabase,
+    "complaint_build_recipient_snapshots",
+    {
+      p_rewrite_request_id: rewrite_request_id,
+      p_home_id: input.home_id,
+      p_recipient_user_id: recipient_user_id,
+      p_preference_payload: snapshotPayload,
+    },
+  );
+
+  const recipient_snapshot_id = String(
+    snapData?.recipient_snapshot_id ?? "",
+  ).trim();
+  const recipient_preference_snapshot_id = String(
+    snapData?.recipient_preference_snapshot_id ?? "",
+  ).trim();
+
+  if (
+    !isUuid(recipient_snapshot_id) ||
+    !isUuid(recipient_preference_snapshot_id)
+  ) {
+    throw new ApiError(
+      500,
+      "snapshot_ids_invalid_uuid",
+      false,
+      "snapshot_ids_invalid_uuid",
+    );
+  }
+
+  // c) Lane (per recipient: target locales differ)
+  const target_locale = normalizeLanguage(params.recipient_locale) ?? "en";
+  const lane = params.source_locale === target_locale
+    ? "same_language"
+    : "cross_language";
+
+  // d) Context pack (RPC)
+  const context_pack = await rpcJson<Record<string, unknown>>(
+    supabase,
+    "complaint_context_build",
+    {
+      p_recipient_user_id: recipient_user_id,
+      p_recipient_preference_snapshot_id: recipient_preference_snapshot_id,
+      p_topics: classifier_result.topics,
+      p_target_language: target_locale,
+      p_power_mode: "peer",
+    },
+  );
+
+  // e) Routing (RPC)
+  const routing_decision: RoutingDecision | null = await rpcJson<
+    RoutingDecision
+  >(
+    supabase,
+    "complaint_rewrite_route",
+    {
+      p_surface: input.surface,
+      p_lane: lane,
+      p_rewrite_strength: classifier_result.rewrite_strength,
+    },
+  );
+
+  if (!routing_decision) {
+    throw new ApiError(
+      500,
+      "routing_not_found",
+      false,
+      "routing_not_found",
+    );
+  }
+
+  // f) Policy pack
+  const policy = {
+    tone: classifier_result.rewrite_strength === "full_reframe"
+      ? "gentle"
+      : "neutral",
+    directness: "soft",
+    emotional_temperature: "cool_down",
+    rewrite_strength: classifier_result.rewrite_strength,
+  };
+
+  // g) Request blob (per recipient; stored on the recipient's job)
+  const rewrite_request = {
+    rewrite_request_id,
+    entry_id: input.entry_id,
+    home_id: input.home_id,
+    sender_user_id: input.sender_user_id,
+    recipient_user_id,
+    recipient_snapshot_id,
+    recipient_preference_snapshot_id,
+    surface: input.surface,
+    original_text: params.original_text,
+    topics: classifier_result.topics,
+    intent: classifier_result.intent,
+    rewrite_strength: classifier_result.rewrite_strength,
+    source_locale: params.source_locale,
+    target_locale,
+    lane,
+    classifier_result,
+    context_pack,
+    policy,
+    classifier_version: classifier_result.classifier_version ?? "v1",
+    context_pack_version: "v1.1",
+    policy_version: "v1",
+    http_request_id: params.http_request_id,
+    trigger_request_id: input.trigger_request_id,
+    created_at: new Date().toISOString(),
+  };
+
+  return {
+    recipient_snapshot_id,
+    recipient_preference_snapshot_id,
+    enqueue: {
+      recipient_user_id,
+      target_locale,
+      lane,
+      context_pack,
+      rewrite_request,
+      routing_decision,
+      language_pair: { from: params.source_locale, to: target_locale },
+      preference_payload: snapshotPayload,
+      max_attempts: clampInt(routing_decision?.max_retries, 0, 10, 2),
+    },
+  };
 }
 
 /* ---------------- Supabase + auth ---------------- */
@@ -510,7 +631,7 @@ function supabaseClient() {
       }, 500),
     } as const;
   }
-  const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey, {
+  const supabase: RpcLike = createClient(supabaseUrl, supabaseKey, {
     auth: { autoRefreshToken: false, persistSession: false },
   });
   return { supabase, errResp: null } as const;
@@ -586,9 +707,11 @@ function validate(input: unknown): Input {
     entry_id: reqStr("entry_id"),
     home_id: reqStr("home_id"),
     sender_user_id: reqStr("sender_user_id"),
-    recipient_user_id: reqStr("recipient_user_id"),
+    recipient_user_ids: validateRecipients(obj),
     surface: reqStr("surface"),
     trigger_request_id: reqStr("trigger_request_id"),
+    // optional: older runners do not send it (treated as first attempt)
+    trigger_attempt: clampInt(obj.trigger_attempt, 1, 1000, 1),
   };
 
   if (!isUuid(out.entry_id)) {
@@ -605,12 +728,12 @@ function validate(input: unknown): Input {
       "invalid_uuid",
     );
   }
-  if (!isUuid(out.recipient_user_id)) {
+  if (out.recipient_user_ids.includes(out.sender_user_id)) {
     throw new ApiError(
       400,
-      "recipient_user_id_invalid_uuid",
+      "recipient_is_sender",
       false,
-      "invalid_uuid",
+      "recipient_is_sender",
     );
   }
   if (!isUuid(out.trigger_request_id)) {
@@ -628,6 +751,47 @@ function validate(input: unknown): Input {
   return { ...out, surface: out.surface as Surface };
 }
 
+function validateRecipients(obj: Record<string, unknown>): string[] {
+  const raw = obj.recipient_user_ids ?? [obj.recipient_user_id];
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new ApiError(
+      400,
+      "recipient_user_ids_missing",
+      false,
+      "missing_field",
+    );
+  }
+  if (raw.length > MAX_RECIPIENTS) {
+    throw new ApiError(
+      400,
+      `recipient_user_ids_max_${MAX_RECIPIENTS}`,
+      false,
+      "too_many_recipients",
+    );
+  }
+
+  const ids = raw.map((v) => typeof v === "string" ? v.trim() : "");
+  if (!ids.every(isUuid)) {
+    throw new ApiError(
+      400,
+      "recipient_user_id_invalid_uuid",
+      false,
+      "invalid_uuid",
+    );
+  }
+  // lowercase: uuids arrive from SQL and callers in either case
+  const unique = [...new Set(ids.map((id) => id.toLowerCase()))];
+  if (unique.length !== ids.length) {
+    throw new ApiError(
+      400,
+      "recipient_user_ids_duplicate",
+      false,
+      "duplicate_recipient",
+    );
+  }
+  return ids;
+}
+
 function isUuid(s: string) {
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
     .test(s);
@@ -647,7 +811,7 @@ function clampInt(v: unknown, min: number, max: number, fallback: number) {
 /* ---------------- RPC helpers ---------------- */
 
 async function rpcJson<T>(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   fn: string,
   args: Record<string, unknown>,
 ): Promise<T | null> {
@@ -660,7 +824,7 @@ async function rpcJson<T>(
 }
 
 async function rpcBool(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   fn: string,
   args: Record<string, unknown>,
 ) {
@@ -678,7 +842,7 @@ async function rpcBool(
 
 // Best-effort
 async function rpcSafe(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   fn: string,
   args: Record<string, unknown>,
 ) {
@@ -745,8 +909,77 @@ function normalizeLocale(v: unknown): string | null {
   return s.toLowerCase();
 }
 
+// Processing language: en-US -> en, zh-Hant -> zh (raw locale is not needed here)
+function normalizeLanguage(v: unknown): string | null {
+  return normalizeLocale(v)?.split("-")[0] ?? null;
+}
+
+// two_lanes_async_v1 §5: detected language only at medium/high confidence,
+// else sender profile locale, else en. Short or code-switched messages come
+// back low and follow the sender instead of flipping the lane.
+function resolveSourceLocale(
+  classifier_result: Pick<ClassifierResult, "detected_language" | "confidence">,
+  sender_locale: unknown,
+): string {
+  const confidence = classifier_result.confidence?.language_confidence;
+  const detected = normalizeLanguage(classifier_result.detected_language);
+  if (detected && (confidence === "medium" || confidence === "high")) {
+    return detected;
+  }
+  return normalizeLanguage(sender_locale) ?? "en";
+}
+
 /* ---------------- Classifier service call ---------------- */
 
+function classifierMode(): "service" | "rules" {
+  return Deno.env.get("CLASSIFIER_MODE")?.trim().toLowerCase() === "rules"
+    ? "rules"
+    : "service";
+}
+
+async function classifyMessage(params: {
+  original_text: string;
+  surface: string;
+  sender_user_id: string;
+  trigger_attempt: number;
+  fetchFn?: typeof fetch;
+}): Promise<ClassifierResult> {
+  if (classifierMode() === "rules") {
+    return classifyByRules(params.original_text);
+  }
+
+  try {
+    return await callClassifierService({
+      classifierUrl: env("CLASSIFIER_FUNCTION_URL"),
+      classifierSecret: env("CLASSIFIER_SHARED_SECRET"),
+      original_text: params.original_text,
+      surface: params.surface,
+      sender_user_id: params.sender_user_id,
+      fetchFn: params.fetchFn,
+      timeoutMs: clampInt(
+        Deno.env.get("CLASSIFIER_TIMEOUT_MS"),
+        2000,
+        30000,
+        DEFAULT_CLASSIFIER_TIMEOUT_MS,
+      ),
+    });
+  } catch (e) {
+    const fallbackAfter = clampInt(
+      Deno.env.get("CLASSIFIER_RULES_FALLBACK_AFTER_ATTEMPTS"),
+      1,
+      50,
+      DEFAULT_CLASSIFIER_RULES_FALLBACK_AFTER_ATTEMPTS,
+    );
+    // Non-retryable failures (bad input, auth config) still surface as errors
+    if (
+      !normalizeCatch(e).retryable || params.trigger_attempt < fallbackAfter
+    ) {
+      throw e;
+    }
+    return classifyByRules(params.original_text);
+  }
+}
+
 async function callClassifierService(params: {
   classifierUrl: string;
   classifierSecret: string;
@@ -754,12 +987,13 @@ async function callClassifierService(params: {
   surface: string;
   sender_user_id: string;
   timeoutMs: number;
+  fetchFn?: typeof fetch;
 }): Promise<ClassifierResult> {
   const controller = new AbortController();
   const t = setTimeout(() => controller.abort(), params.timeoutMs);
 
   try {
-    const resp = await fetch(params.classifierUrl, {
+    const resp = await (params.fetchFn ?? fetch)(params.classifierUrl, {
       method: "POST",
       signal: controller.signal,
       headers: {
@@ -893,11 +1127,15 @@ export {
   buildSnapshotPreferences,
   callClassifierService,
   clampInt,
+  classifyMessage,
+  handleOrchestratorRequest,
   isRetryableText,
   normalizeCatch,
+  normalizeLanguage,
   normalizeLocale,
   normalizePreferencePayload,
   preferRetryableStatus,
+  resolveSourceLocale,
   safeJson,
   validate,
 };
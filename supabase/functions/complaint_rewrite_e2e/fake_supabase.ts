@@ -0,0 +1,1119 @@
+// supabase/functions/complaint_rewrite_e2e/fake_supabase.ts
+// In-memory stand-in for the complaint rewrite RPC surface (RpcLike).
+//
+// Mirrors the SQL semantics the edge functions rely on (migrations 06/07/10-15):
+// - PostgREST argument matching: unknown or missing named args -> error
+//   (catches TS <-> SQL signature drift)
+// - RETURNS TABLE functions return arrays; jsonb/scalar functions return values
+// - raise / api_assert -> { error: { message } } (supabase.rpc never throws)
+// - status transitions + guards (trigger ownership, job processing, attempts)
+//
+// Time is a fake clock (advance()) so backoffs (not_before_at, retry_after)
+// are deterministic. Not a database: no RLS, locking or constraints beyond
+// what the pipeline observes.
+
+export type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+export type RpcCall = {
+  fn: string;
+  args: Record<string, unknown>;
+};
+
+type Row = Record<string, unknown>;
+
+export type MoodEntryRow = {
+  id: string;
+  home_id: string;
+  user_id: string;
+  comment: string | null;
+};
+
+export type TriggerRow = {
+  entry_id: string;
+  home_id: string;
+  author_user_id: string;
+  recipient_user_id: string;
+  status: "queued" | "processing" | "completed" | "failed" | "canceled";
+  request_id: string | null;
+  attempts: number;
+  retry_after: number | null;
+  error: string | null;
+  note: string | null;
+  processed_at: number | null;
+};
+
+export type RouteRow = {
+  surface: string;
+  lane: string;
+  rewrite_strength: string;
+  provider: string;
+  model: string;
+  prompt_version: string;
+  policy_version: string;
+  execution_mode: string;
+  cache_eligible: boolean;
+  max_retries: number;
+  priority: number;
+};
+
+export type ProviderRow = {
+  provider: string;
+  adapter_kind: string;
+  base_url: string | null;
+  active: boolean;
+};
+
+export type RewriteRequestRow = {
+  rewrite_request_id: string;
+  home_id: string;
+  sender_user_id: string;
+  recipient_user_id: string;
+  surface: string;
+  original_text: string;
+  source_locale: string;
+  target_locale: string;
+  lane: string;
+  topics: unknown;
+  intent: string;
+  rewrite_strength: string;
+  classifier_result: unknown;
+  context_pack: unknown;
+  rewrite_request: unknown;
+  policy_version: string;
+  status: string;
+  recipient_snapshot_id: string | null;
+  recipient_preference_snapshot_id: string | null;
+  rewrite_completed_at: number | null;
+};
+
+export type RewriteJobRow = {
+  job_id: string;
+  rewrite_request_id: string;
+  recipient_user_id: string;
+  recipient_snapshot_id: string;
+  recipient_preference_snapshot_id: string;
+  surface: string;
+  rewrite_strength: string;
+  lane: string;
+  language_pair: unknown;
+  routing_decision: Row;
+  target_locale: string | null; // per-recipient (migration 15)
+  rewrite_request: unknown;
+  status:
+    | "queued"
+    | "processing"
+    | "batch_submitted"
+    | "completed"
+    | "failed"
+    | "canceled";
+  not_before_at: number | null;
+  attempt_count: number;
+  max_attempts: number;
+  last_error: string | null;
+  provider_batch_id: string | null;
+  submitted_at: number | null;
+  created_at: number;
+};
+
+export type RewriteOutputRow = {
+  rewrite_request_id: string;
+  recipient_user_id: string;
+  rewritten_text: string;
+  output_language: string;
+  target_locale: string;
+  model: string;
+  provider: string;
+  prompt_version: string;
+  policy_version: string;
+  lexicon_version: string;
+  eval_result: unknown;
+};
+
+export type ProviderBatchRow = {
+  provider_batch_id: string;
+  provider: string;
+  adapter_kind: string;
+  base_url: string | null;
+  endpoint: string;
+  status: "submitted" | "running" | "completed" | "failed" | "canceled";
+  input_file_id: string | null;
+  output_file_id: string | null;
+  error_file_id: string | null;
+  job_count: number;
+  last_checked_at: number | null;
+  created_at: number;
+};
+
+export type FakeTables = {
+  moodEntries: Map<string, MoodEntryRow>;
+  userLocales: Map<string, string>; // notification_preferences.locale by user_id
+  preferencePayloads: Map<string, Record<string, string>>;
+  triggers: Map<string, TriggerRow>;
+  routes: RouteRow[];
+  providers: Map<string, ProviderRow>;
+  requests: Map<string, RewriteRequestRow>;
+  recipientSnapshots: Map<string, string>; // rewrite_request_id -> snapshot id
+  preferenceSnapshots: Map<string, { id: string; payload: unknown }>; // rid:uid
+  jobs: Map<string, RewriteJobRow>;
+  outputs: Map<string, RewriteOutputRow>; // rid:uid
+  batches: Map<string, ProviderBatchRow>;
+};
+
+export type FakeSupabase = RpcLike & {
+  tables: FakeTables;
+  calls: RpcCall[];
+  errors: (RpcCall & { message: string })[]; // every { error } returned
+  now: () => number;
+  advance: (seconds: number) => void;
+  addMoodEntry: (row: MoodEntryRow) => void;
+  enqueueTrigger: (entryId: string, recipientUserId: string) => void;
+  failNext: (fn: string, message: string) => void;
+};
+
+class FakeDbError extends Error {}
+
+// PostgREST resolves functions by named arguments (defaults may be omitted)
+const RPC_PARAMS: Record<string, { required: string[]; optional?: string[] }> =
+  {
+    complaint_trigger_pop_pending: {
+      required: [],
+      optional: ["p_limit", "p_max_attempts"],
+    },
+    complaint_trigger_mark_completed: {
+      required: ["p_entry_id", "p_request_id"],
+      optional: ["p_processed_at", "p_note"],
+    },
+    complaint_trigger_mark_retry: {
+      required: ["p_entry_id", "p_request_id", "p_error", "p_retry_after"],
+      optional: ["p_note"],
+    },
+    complaint_trigger_mark_failed_terminal: {
+      required: ["p_entry_id", "p_request_id", "p_error"],
+      optional: ["p_processed_at", "p_note"],
+    },
+    complaint_trigger_mark_canceled: {
+      required: ["p_entry_id", "p_request_id", "p_reason"],
+      optional: ["p_processed_at"],
+    },
+    complaint_rewrite_request_exists: { required: ["p_rewrite_request_id"] },
+    complaint_fetch_entry_locales: {
+      required: ["p_entry_id", "p_recipient_user_id"],
+    },
+    complaint_preference_payload: {
+      required: ["p_recipient_user_id"],
+      optional: ["p_recipient_preference_snapshot_id"],
+    },
+    complaint_build_recipient_snapshots: {
+      required: [
+        "p_rewrite_request_id",
+        "p_home_id",
+        "p_recipient_user_id",
+        "p_preference_payload",
+      ],
+    },
+    complaint_context_build: {
+      required: [
+        "p_recipient_user_id",
+        "p_recipient_preference_snapshot_id",
+        "p_topics",
+        "p_target_language",
+      ],
+      optional: ["p_power_mode"],
+    },
+    complaint_rewrite_route: {
+      required: ["p_surface", "p_lane", "p_rewrite_strength"],
+    },
+    complaint_rewrite_enqueue: {
+      required: [
+        "p_rewrite_request_id",
+        "p_home_id",
+        "p_sender_user_id",
+        "p_recipient_user_id",
+        "p_surface",
+        "p_original_text",
+        "p_rewrite_request",
+        "p_classifier_result",
+        "p_context_pack",
+        "p_source_locale",
+        "p_target_locale",
+        "p_lane",
+        "p_topics",
+        "p_intent",
+        "p_rewrite_strength",
+        "p_classifier_version",
+        "p_context_pack_version",
+        "p_policy_version",
+        "p_routing_decision",
+        "p_language_pair",
+        "p_preference_payload",
+      ],
+      optional: ["p_max_attempts"],
+    },
+    claim_rewrite_jobs_for_batch_submit_v1: {
+      required: [],
+      optional: ["p_limit"],
+    },
+    complaint_rewrite_enqueue_recipients_v1: {
+      required: [
+        "p_rewrite_request_id",
+        "p_home_id",
+        "p_sender_user_id",
+        "p_surface",
+        "p_original_text",
+        "p_classifier_result",
+        "p_source_locale",
+        "p_topics",
+        "p_intent",
+        "p_rewrite_strength",
+        "p_classifier_version",
+        "p_context_pack_version",
+        "p_policy_version",
+        "p_recipients",
+      ],
+    },
+    complaint_rewrite_request_fetch_v1: {
+      required: ["p_rewrite_request_id"],
+      optional: ["p_recipient_user_id"],
+    },
+    rewrite_batch_register_v1: {
+      required: ["p_provider_batch_id", "p_input_file_id", "p_job_count"],
+      optional: ["p_endpoint", "p_provider", "p_adapter_kind", "p_base_url"],
+    },
+    mark_rewrite_jobs_batch_submitted_v1: {
+      required: ["p_job_ids", "p_provider_batch_id"],
+    },
+    complaint_rewrite_job_fail_or_requeue: {
+      required: ["p_job_id", "p_error"],
+      optional: ["p_backoff_seconds"],
+    },
+    fail_complaint_rewrite_job: { required: ["p_job_id", "p_error"] },
+    rewrite_batch_list_pending_v1: { required: [], optional: ["p_limit"] },
+    rewrite_batch_update_v1: {
+      required: ["p_provider_batch_id", "p_status"],
+      optional: ["p_output_file_id", "p_error_file_id"],
+    },
+    rewrite_job_fetch_v1: { required: ["p_job_id"] },
+    claim_rewrite_jobs_by_ids_for_collect_v1: { required: ["p_job_ids"] },
+    complete_complaint_rewrite_job: {
+      required: [
+        "p_job_id",
+        "p_rewrite_request_id",
+        "p_recipient_user_id",
+        "p_rewritten_text",
+        "p_output_language",
+        "p_target_locale",
+        "p_model",
+        "p_provider",
+        "p_prompt_version",
+        "p_policy_version",
+        "p_lexicon_version",
+        "p_eval_result",
+      ],
+    },
+    complaint_rewrite_request_finalize_v1: {
+      required: ["p_rewrite_request_id"],
+    },
+    rewrite_jobs_requeue_by_provider_batch_v1: {
+      required: ["p_provider_batch_id"],
+      optional: ["p_reason", "p_backoff_seconds", "p_limit"],
+    },
+  };
+
+const DEFAULT_ROUTE: Omit<RouteRow, "surface" | "lane" | "rewrite_strength"> = {
+  provider: "openai",
+  model: "gpt-5-nano",
+  prompt_version: "v1",
+  policy_version: "v1",
+  execution_mode: "batch",
+  cache_eligible: false,
+  max_retries: 2,
+  priority: 100,
+};
+
+const NON_TERMINAL_JOB = new Set(["queued", "processing", "batch_submitted"]);
+
+export function createFakeSupabase(
+  opts: { startAt?: number } = {},
+): FakeSupabase {
+  let clock = opts.startAt ?? Date.UTC(2026, 2, 23, 9, 0, 0);
+  let seq = 0;
+  const injected = new Map<string, string>();
+  const calls: RpcCall[] = [];
+  const errors: FakeSupabase["errors"] = [];
+
+  const tables: FakeTables = {
+    moodEntries: new Map(),
+    userLocales: new Map(),
+    preferencePayloads: new Map(),
+    triggers: new Map(),
+    routes: [],
+    providers: new Map([
+      ["openai", {
+        provider: "openai",
+        adapter_kind: "openai_responses",
+        base_url: "https://api.openai.com",
+        active: true,
+      }],
+    ]),
+    requests: new Map(),
+    recipientSnapshots: new Map(),
+    preferenceSnapshots: new Map(),
+    jobs: new Map(),
+    outputs: new Map(),
+    batches: new Map(),
+  };
+
+  for (const surface of ["weekly_harmony", "direct_message", "other"]) {
+    for (const lane of ["same_language", "cross_language"]) {
+      for (const rewrite_strength of ["light_touch", "full_reframe"]) {
+        tables.routes.push({
+          ...DEFAULT_ROUTE,
+          surface,
+          lane,
+          rewrite_strength,
+        });
+      }
+    }
+  }
+
+  const now = () => clock;
+  const iso = (ms: number | null) =>
+    ms === null ? null : new Date(ms).toISOString();
+  // Deterministic v4-shaped ids (orchestrator/collector validate UUID shape)
+  const uuid = () => {
+    seq++;
+    return `00000000-0000-4000-8000-${seq.toString(16).padStart(12, "0")}`;
+  };
+
+  const assert = (cond: unknown, message: string): void => {
+    if (!cond) throw new FakeDbError(message);
+  };
+
+  const str = (v: unknown) => (v === null || v === undefined ? "" : String(v));
+
+  /* ---------------- trigger queue (migration 07) ---------------- */
+
+  const ownedTrigger = (args: Row, noop: string) => {
+    const t = tables.triggers.get(str(args.p_entry_id));
+    if (
+      !t || t.status !== "processing" || t.request_id !== str(args.p_request_id)
+    ) {
+      throw new FakeDbError(noop);
+    }
+    return t;
+  };
+
+  const leaveProcessing = (
+    t: TriggerRow,
+    status: TriggerRow["status"],
+    patch: Partial<TriggerRow>,
+  ) => {
+    Object.assign(t, {
+      status,
+      request_id: null,
+      retry_after: null,
+      processed_at: status === "queued" ? null : now(),
+      ...patch,
+    });
+    return true;
+  };
+
+  /* ---------------- rewrite jobs (migrations 06/10/12) ---------------- */
+
+  const findJob = (jobId: unknown) => tables.jobs.get(str(jobId)) ?? null;
+
+  const requeueJob = (job: RewriteJobRow, error: string, backoff: number) => {
+    Object.assign(job, {
+      status: "queued",
+      not_before_at: now() + backoff * 1000,
+      last_error: error.slice(0, 512),
+      provider_batch_id: null,
+      submitted_at: null,
+    });
+  };
+
+  const markRequestProcessing = (rid: string) => {
+    const r = tables.requests.get(rid);
+    if (r && r.status === "queued") r.status = "processing";
+  };
+
+  const finalizeRequest = (rid: string) => {
+    const jobs = [...tables.jobs.values()].filter((j) =>
+      j.rewrite_request_id === rid
+    );
+    const pending = jobs.filter((j) => NON_TERMINAL_JOB.has(j.status)).length;
+    const r = tables.requests.get(rid);
+    if (jobs.length === 0 || pending > 0 || !r) {
+      return { finalized: false, pending, status: r?.status ?? null };
+    }
+    const anyFailed = jobs.some((j) =>
+      j.status === "failed" || j.status === "canceled"
+    );
+    if (r.status === "queued" || r.status === "processing") {
+      r.status = anyFailed ? "failed" : "completed";
+      r.rewrite_completed_at ??= now();
+    }
+    return { finalized: true, pending: 0, status: r.status };
+  };
+
+  const buildSnapshots = (args: Row) => {
+    const rid = str(args.p_rewrite_request_id);
+    const uid = str(args.p_recipient_user_id);
+    assert(rid, "rewrite_request_id required");
+    assert(args.p_home_id, "home_id required");
+    assert(uid, "recipient_user_id required");
+    assert(
+      isPlainObject(args.p_preference_payload),
+      "preference_payload must be an object",
+    );
+
+    let snapId = tables.recipientSnapshots.get(rid);
+    if (!snapId) {
+      snapId = uuid();
+      tables.recipientSnapshots.set(rid, snapId);
+    }
+    const key = `${rid}:${uid}`;
+    let pref = tables.preferenceSnapshots.get(key);
+    if (!pref) {
+      pref = { id: uuid(), payload: args.p_preference_payload };
+      tables.preferenceSnapshots.set(key, pref);
+    }
+    return {
+      recipient_snapshot_id: snapId,
+      recipient_preference_snapshot_id: pref.id,
+    };
+  };
+
+  const jobRow = (j: RewriteJobRow) => ({
+    job_id: j.job_id,
+    rewrite_request_id: j.rewrite_request_id,
+    recipient_user_id: j.recipient_user_id,
+    routing_decision: j.routing_decision,
+  });
+
+  const handlers: Record<string, (args: Row) => unknown> = {
+    complaint_trigger_pop_pending: (args) => {
+      const limit = Number(args.p_limit ?? 20);
+      const maxAttempts = Number(args.p_max_attempts ?? 10);
+      const claim = uuid();
+      return [...tables.triggers.values()]
+        .filter((t) =>
+          t.status === "queued" && t.attempts < maxAttempts &&
+          (t.retry_after === null || t.retry_after <= now())
+        )
+        .slice(0, limit)
+        .map((t) => {
+          Object.assign(t, {
+            status: "processing",
+            request_id: claim,
+            attempts: t.attempts + 1,
+            retry_after: null,
+            processed_at: null,
+          });
+          return {
+            entry_id: t.entry_id,
+            home_id: t.home_id,
+            author_user_id: t.author_user_id,
+            recipient_user_id: t.recipient_user_id,
+            request_id: t.request_id,
+            attempts: t.attempts,
+          };
+        });
+    },
+
+    complaint_trigger_mark_completed: (args) =>
+      leaveProcessing(
+        ownedTrigger(args, "mark_completed_noop"),
+        "completed",
+        { note: (args.p_note as string | null) ?? null },
+      ),
+
+    complaint_trigger_mark_retry: (args) => {
+      const t = ownedTrigger(args, "mark_retry_noop");
+      leaveProcessing(t, "queued", {
+        error: str(args.p_error),
+        note: (args.p_note as string | null) ?? null,
+      });
+      t.retry_after = now() +
+        Math.max(parseIntervalSeconds(args.p_retry_after) ?? 10, 10) * 1000;
+      return true;
+    },
+
+    complaint_trigger_mark_failed_terminal: (args) =>
+      leaveProcessing(
+        ownedTrigger(args, "mark_failed_terminal_noop"),
+        "failed",
+        {
+          error: str(args.p_error),
+          note: (args.p_note as string | null) ?? null,
+        },
+      ),
+
+    complaint_trigger_mark_canceled: (args) =>
+      leaveProcessing(
+        ownedTrigger(args, "mark_canceled_noop"),
+        "canceled",
+        { note: str(args.p_reason) },
+      ),
+
+    complaint_rewrite_request_exists: (args) =>
+      tables.requests.has(str(args.p_rewrite_request_id)),
+
+    complaint_fetch_entry_locales: (args) => {
+      const e = tables.moodEntries.get(str(args.p_entry_id));
+      if (!e) return [];
+      const uid = str(args.p_recipient_user_id);
+      const base = (l?: string) => l ? l.split("-")[0].toLowerCase() : null;
+      return [{
+        original_text: e.comment ?? "",
+        recipient_locale: base(tables.userLocales.get(uid)) ?? "en",
+        sender_locale: base(tables.userLocales.get(e.user_id)),
+        home_id: e.home_id,
+        author_user_id: e.user_id,
+        recipient_user_id: uid,
+      }];
+    },
+
+    complaint_preference_payload: (args) =>
+      tables.preferencePayloads.get(str(args.p_recipient_user_id)) ?? {},
+
+    complaint_build_recipient_snapshots: buildSnapshots,
+
+    complaint_context_build: (args) => {
+      const uid = str(args.p_recipient_user_id);
+      const topics = Array.isArray(args.p_topics) ? args.p_topics : ["other"];
+      const valueMap = tables.preferencePayloads.get(uid) ?? {};
+      const pref = [...tables.preferenceSnapshots.values()].find((p) =>
+        p.id === str(args.p_recipient_preference_snapshot_id)
+      );
+      return {
+        context_version: "v1",
+        recipient_user_id: uid,
+        target_language: args.p_target_language,
+        power: {
+          sender_role: "housemate",
+          recipient_role: "housemate",
+          power_mode: args.p_power_mode ?? "peer",
+        },
+        topic_scope: { topics, included_preference_ids: [] },
+        instructions: {
+          tone: "warm_clear",
+          directness: "soft",
+          avoid: [
+            "authority_language",
+            "rules_language",
+            "enforcement_language",
+            "preference_disclosure",
+          ],
+        },
+        recipient_signals: [],
+        preference_payload: pref?.payload ?? {},
+        preference_value_map: valueMap,
+      };
+    },
+
+    complaint_rewrite_route: (args) => {
+      const route = tables.routes
+        .filter((r) =>
+          r.surface === args.p_surface && r.lane === args.p_lane &&
+          r.rewrite_strength === args.p_rewrite_strength &&
+          tables.providers.get(r.provider)?.active
+        )
+        .sort((a, b) => a.priority - b.priority)[0];
+      if (!route) return null;
+      const p = tables.providers.get(route.provider)!;
+      return {
+        provider: route.provider,
+        adapter_kind: p.adapter_kind,
+        base_url: p.base_url,
+        model: route.model,
+        prompt_version: route.prompt_version,
+        policy_version: route.policy_version,
+        execution_mode: route.execution_mode,
+        supports_translation: true,
+        cache_eligible: route.cache_eligible,
+        max_retries: route.max_retries,
+      };
+    },
+
+    complaint_rewrite_enqueue: (args) => {
+      const text = str(args.p_original_text);
+      assert(
+        ["weekly_harmony", "direct_message", "other"].includes(
+          str(args.p_surface),
+        ),
+        "Invalid surface.",
+      );
+      assert(
+        ["same_language", "cross_language"].includes(str(args.p_lane)),
+        "Invalid lane.",
+      );
+      assert(
+        ["light_touch", "full_reframe"].includes(str(args.p_rewrite_strength)),
+        "Invalid rewrite_strength.",
+      );
+      assert(text.trim(), "original_text required.");
+      assert(text.length <= 500, "original_text max 500 chars.");
+      assert(
+        isPlainObject(args.p_preference_payload),
+        "preference_payload must be an object",
+      );
+      assert(isPlainObject(args.p_routing_decision), "routing_decision");
+
+      const rid = str(args.p_rewrite_request_id);
+      const uid = str(args.p_recipient_user_id);
+      const insertedRequest = !tables.requests.has(rid);
+      if (insertedRequest) {
+        tables.requests.set(rid, {
+          rewrite_request_id: rid,
+          home_id: str(args.p_home_id),
+          sender_user_id: str(args.p_sender_user_id),
+          recipient_user_id: uid,
+          surface: str(args.p_surface),
+          original_text: text.slice(0, 500),
+          source_locale: str(args.p_source_locale),
+          target_locale: str(args.p_target_locale),
+          lane: str(args.p_lane),
+          topics: args.p_topics,
+          intent: str(args.p_intent),
+          rewrite_strength: str(args.p_rewrite_strength),
+          classifier_result: args.p_classifier_result,
+          context_pack: args.p_context_pack,
+          rewrite_request: args.p_rewrite_request,
+          policy_version: str(args.p_policy_version),
+          status: "queued",
+          recipient_snapshot_id: null,
+          recipient_preference_snapshot_id: null,
+          rewrite_completed_at: null,
+        });
+      }
+
+      const snap = buildSnapshots(args);
+      const r = tables.requests.get(rid)!;
+      r.recipient_snapshot_id ??= snap.recipient_snapshot_id;
+      r.recipient_preference_snapshot_id ??=
+        snap.recipient_preference_snapshot_id;
+
+      let job = [...tables.jobs.values()].find((j) =>
+        j.rewrite_request_id === rid && j.recipient_user_id === uid
+      );
+      const insertedJob = !job;
+      if (!job) {
+        job = {
+          job_id: uuid(),
+          rewrite_request_id: rid,
+          recipient_user_id: uid,
+          recipient_snapshot_id: snap.recipient_snapshot_id,
+          recipient_preference_snapshot_id:
+            snap.recipient_preference_snapshot_id,
+          surface: str(args.p_surface),
+          rewrite_strength: str(args.p_rewrite_strength),
+          lane: str(args.p_lane),
+          language_pair: args.p_language_pair,
+          routing_decision: args.p_routing_decision as Row,
+          target_locale: null,
+          rewrite_request: null,
+          status: "queued",
+          not_before_at: null,
+          attempt_count: 0,
+          max_attempts: Number(args.p_max_attempts ?? 2),
+          last_error: null,
+          provider_batch_id: null,
+          submitted_at: null,
+          created_at: now(),
+        };
+        tables.jobs.set(job.job_id, job);
+      }
+
+      return {
+        rewrite_request_id: rid,
+        job_id: job.job_id,
+        ...snap,
+        inserted_request: insertedRequest,
+        inserted_job: insertedJob,
+      };
+    },
+
+    // SQL runs this in one transaction; the fake only mirrors the happy path
+    complaint_rewrite_enqueue_recipients_v1: (args) => {
+      const list = Array.isArray(args.p_recipients) ? args.p_recipients : [];
+      assert(
+        list.length >= 1 && list.length <= 8,
+        "recipients must be an array of 1..8 items.",
+      );
+      const ids = list.map((r) => str((r as Row).recipient_user_id));
+      assert(new Set(ids).size === ids.length, "recipients must be distinct.");
+
+      const {
+        p_recipients: _,
+        ...shared
+      } = args;
+      const results: Row[] = (list as Row[]).map((r) => {
+        const out = handlers.complaint_rewrite_enqueue({
+          ...shared,
+          p_recipient_user_id: r.recipient_user_id,
+          p_rewrite_request: r.rewrite_request,
+          p_context_pack: r.context_pack,
+          p_target_locale: r.target_locale,
+          p_lane: r.lane,
+          p_routing_decision: r.routing_decision,
+          p_language_pair: r.language_pair,
+          p_preference_payload: r.preference_payload,
+          p_max_attempts: r.max_attempts ?? 2,
+        }) as Row;
+        const job = tables.jobs.get(str(out.job_id))!;
+        if (job.rewrite_request === null) {
+          job.target_locale = str(r.target_locale);
+          job.rewrite_request = r.rewrite_request;
+        }
+        return { ...out, recipient_user_id: r.recipient_user_id };
+      });
+
+      return {
+        rewrite_request_id: str(args.p_rewrite_request_id),
+        inserted_request: results.some((r) => r.inserted_request),
+        recipients: results,
+      };
+    },
+
+    claim_rewrite_jobs_for_batch_submit_v1: (args) =>
+      [...tables.jobs.values()]
+        .filter((j) =>
+          j.status === "queued" &&
+          (j.not_before_at === null || j.not_before_at <= now()) &&
+          j.provider_batch_id === null && j.submitted_at === null &&
+          (j.routing_decision.execution_mode ?? "batch") !== "realtime"
+        )
+        .sort((a, b) => a.created_at - b.created_at)
+        .slice(0, Number(args.p_limit ?? 50))
+        .map((j) => {
+          j.status = "processing";
+          j.attempt_count++;
+          return jobRow(j);
+        }),
+
+    complaint_rewrite_request_fetch_v1: (args) => {
+      const rid = str(args.p_rewrite_request_id);
+      const r = tables.requests.get(rid);
+      const j = [...tables.jobs.values()].find((j) =>
+        j.rewrite_request_id === rid &&
+        j.recipient_user_id === args.p_recipient_user_id
+      );
+      return r
+        ? [{
+          rewrite_request: j?.rewrite_request ?? r.rewrite_request,
+          target_locale: j?.target_locale ?? r.target_locale,
+          policy_version: r.policy_version,
+        }]
+        : [];
+    },
+
+    rewrite_batch_register_v1: (args) => {
+      const id = str(args.p_provider_batch_id);
+      const existing = tables.batches.get(id);
+      if (existing) {
+        existing.input_file_id = (args.p_input_file_id as string) ?? null;
+        existing.job_count = Number(args.p_job_count ?? 0);
+        if (!["completed", "failed", "canceled"].includes(existing.status)) {
+          existing.status = "submitted";
+        }
+        return null;
+      }
+      tables.batches.set(id, {
+        provider_batch_id: id,
+        provider: str(args.p_provider).trim() || "openai",
+        adapter_kind: str(args.p_adapter_kind).trim() || "openai_responses",
+        base_url: str(args.p_base_url).trim() || null,
+        endpoint: str(args.p_endpoint) || "/v1/responses",
+        status: "submitted",
+        input_file_id: (args.p_input_file_id as string) ?? null,
+        output_file_id: null,
+        error_file_id: null,
+        job_count: Number(args.p_job_count ?? 0),
+        last_checked_at: null,
+        created_at: now(),
+      });
+      return null;
+    },
+
+    mark_rewrite_jobs_batch_submitted_v1: (args) => {
+      const ids = new Set((args.p_job_ids as string[]) ?? []);
+      const batchId = str(args.p_provider_batch_id);
+      assert(tables.batches.has(batchId), "fk_rewrite_jobs_provider_batch");
+      for (const j of tables.jobs.values()) {
+        if (ids.has(j.job_id) && j.status === "processing") {
+          Object.assign(j, {
+            status: "batch_submitted",
+            provider_batch_id: batchId,
+            submitted_at: now(),
+          });
+        }
+      }
+      return null;
+    },
+
+    complaint_rewrite_job_fail_or_requeue: (args) => {
+      const job = findJob(args.p_job_id);
+      if (!job) return null;
+      const error = str(args.p_error) || "unknown";
+      if (job.attempt_count >= job.max_attempts) {
+        Object.assign(job, { status: "failed", last_error: error });
+      } else {
+        const backoff = Math.max(
+          30,
+          Math.min(Number(args.p_backoff_seconds ?? 600), 6 * 3600),
+        );
+        requeueJob(job, error, backoff);
+      }
+      return null;
+    },
+
+    fail_complaint_rewrite_job: (args) => {
+      const job = findJob(args.p_job_id);
+      if (job) {
+        Object.assign(job, {
+          status: "failed",
+          last_error: (str(args.p_error) || "unknown").slice(0, 512),
+        });
+      }
+      return null;
+    },
+
+    rewrite_batch_list_pending_v1: (args) =>
+      [...tables.batches.values()]
+        .filter((b) => b.status === "submitted" || b.status === "running")
+        .sort((a, b) =>
+          (a.last_checked_at ?? a.created_at) -
+          (b.last_checked_at ?? b.created_at)
+        )
+        .slice(0, Number(args.p_limit ?? 20))
+        .map((b) => ({
+          provider_batch_id: b.provider_batch_id,
+          status: b.status,
+          input_file_id: b.input_file_id,
+          output_file_id: b.output_file_id,
+          error_file_id: b.error_file_id,
+          endpoint: b.endpoint,
+          provider: b.provider,
+          adapter_kind: b.adapter_kind,
+          base_url: b.base_url,
+        })),
+
+    rewrite_batch_update_v1: (args) => {
+      const b = tables.batches.get(str(args.p_provider_batch_id));
+      if (!b) return null;
+      assert(
+        ["submitted", "running", "completed", "failed", "canceled"].includes(
+          str(args.p_status),
+        ),
+        "rewrite_provider_batches_status_check",
+      );
+      b.status = args.p_status as ProviderBatchRow["status"];
+      b.output_file_id = (args.p_output_file_id as string) ?? b.output_file_id;
+      b.error_file_id = (args.p_error_file_id as string) ?? b.error_file_id;
+      b.last_checked_at = now();
+      return null;
+    },
+
+    rewrite_job_fetch_v1: (args) => {
+      const j = findJob(args.p_job_id);
+      return j
+        ? [{
+          job_id: j.job_id,
+          rewrite_request_id: j.rewrite_request_id,
+          recipient_user_id: j.recipient_user_id,
+          status: j.status,
+          provider_batch_id: j.provider_batch_id,
+          routing_decision: j.routing_decision,
+        }]
+        : [];
+    },
+
+    claim_rewrite_jobs_by_ids_for_collect_v1: (args) => {
+      const ids = new Set((args.p_job_ids as string[]) ?? []);
+      const claimed = [...tables.jobs.values()].filter((j) =>
+        ids.has(j.job_id) && j.status === "batch_submitted"
+      );
+      for (const j of claimed) {
+        j.status = "processing";
+        markRequestProcessing(j.rewrite_request_id);
+      }
+      return claimed.map((j) => ({
+        ...jobRow(j),
+        provider_batch_id: j.provider_batch_id,
+      }));
+    },
+
+    complete_complaint_rewrite_job: (args) => {
+      const rid = str(args.p_rewrite_request_id);
+      const uid = str(args.p_recipient_user_id);
+      const job = findJob(args.p_job_id);
+      assert(
+        job && job.rewrite_request_id === rid &&
+          job.recipient_user_id === uid && job.status === "processing",
+        "Job does not match request/recipient or is not processing.",
+      );
+      const primary = (v: unknown) => str(v).split("-")[0].toLowerCase();
+      assert(
+        primary(args.p_output_language) &&
+          primary(args.p_output_language) === primary(args.p_target_locale),
+        "output_language does not match target locale language.",
+      );
+
+      tables.outputs.set(`${rid}:${uid}`, {
+        rewrite_request_id: rid,
+        recipient_user_id: uid,
+        rewritten_text: str(args.p_rewritten_text),
+        output_language: str(args.p_output_language),
+        target_locale: str(args.p_target_locale),
+        model: str(args.p_model),
+        provider: str(args.p_provider),
+        prompt_version: str(args.p_prompt_version),
+        policy_version: str(args.p_policy_version),
+        lexicon_version: str(args.p_lexicon_version),
+        eval_result: args.p_eval_result,
+      });
+      Object.assign(job!, { status: "completed", last_error: null });
+      finalizeRequest(rid);
+      return null;
+    },
+
+    complaint_rewrite_request_finalize_v1: (args) => {
+      const rid = str(args.p_rewrite_request_id);
+      const out = finalizeRequest(rid);
+      return {
+        rewrite_request_id: rid,
+        status: out.status,
+        finalized: out.finalized,
+        pending_jobs: out.pending,
+      };
+    },
+
+    rewrite_jobs_requeue_by_provider_batch_v1: (args) => {
+      const batchId = str(args.p_provider_batch_id);
+      assert(batchId.trim(), "p_provider_batch_id required");
+      const reason = `${str(args.p_reason) || "requeued"}: batch=${batchId}`;
+      const backoff = Math.max(Number(args.p_backoff_seconds ?? 1800), 0);
+      return [...tables.jobs.values()]
+        .filter((j) =>
+          j.provider_batch_id === batchId && j.status === "batch_submitted"
+        )
+        .slice(0, Math.max(Number(args.p_limit ?? 500), 0))
+        .map((j) => {
+          if (j.attempt_count >= j.max_attempts) {
+            Object.assign(j, { status: "failed", last_error: reason });
+          } else {
+            requeueJob(j, reason, backoff);
+          }
+          return {
+            job_id: j.job_id,
+            rewrite_request_id: j.rewrite_request_id,
+            prev_status: "batch_submitted",
+            new_status: j.status,
+            not_before_at: iso(j.not_before_at),
+          };
+        });
+    },
+  };
+
+  const fail = (fn: string, args: Row, message: string) => {
+    errors.push({ fn, args, message });
+    return Promise.resolve({ data: null, error: { message } });
+  };
+
+  const rpc = (fn: string, args: Record<string, unknown>) => {
+    calls.push({ fn, args });
+
+    const sig = RPC_PARAMS[fn];
+    const handler = handlers[fn];
+    const names = Object.keys(args ?? {});
+    if (
+      !sig || !handler ||
+      sig.required.some((k) => !names.includes(k)) ||
+      names.some((k) =>
+        !sig.required.includes(k) && !(sig.optional ?? []).includes(k)
+      )
+    ) {
+      return fail(
+        fn,
+        args,
+        `Could not find the function public.${fn}(${
+          names.sort().join(", ")
+        }) in the schema cache`,
+      );
+    }
+
+    const forced = injected.get(fn);
+    if (forced !== undefined) {
+      injected.delete(fn);
+      return fail(fn, args, forced);
+    }
+
+    try {
+      // clone both ways: callers never share references with table rows
+      const data = handler(structuredClone(args));
+      return Promise.resolve({
+        data: data === undefined ? null : structuredClone(data),
+        error: null,
+      });
+    } catch (e) {
+      if (!(e instanceof FakeDbError)) throw e;
+      return fail(fn, args, e.message);
+    }
+  };
+
+  return {
+    rpc,
+    tables,
+    calls,
+    errors,
+    now,
+    advance: (seconds) => {
+      clock += seconds * 1000;
+    },
+    addMoodEntry: (row) => {
+      tables.moodEntries.set(row.id, { ...row });
+    },
+    // complaint_trigger_enqueue without the auth/membership/ISO-week checks
+    enqueueTrigger: (entryId, recipientUserId) => {
+      const e = tables.moodEntries.get(entryId);
+      if (!e) throw new Error(`fake: mood entry ${entryId} missing`);
+      tables.triggers.set(entryId, {
+        entry_id: entryId,
+        home_id: e.home_id,
+        author_user_id: e.user_id,
+        recipient_user_id: recipientUserId,
+        status: "queued",
+        request_id: null,
+        attempts: 0,
+        retry_after: null,
+        error: null,
+        note: null,
+        processed_at: null,
+      });
+    },
+    failNext: (fn, message) => {
+      injected.set(fn, message);
+    },
+  };
+}
+
+function isPlainObject(v: unknown): v is Row {
+  return Boolean(v) && typeof v === "object" && !Array.isArray(v);
+}
+
+// "00:10:00" | "10 minutes" | "30 seconds" | "2 hours" -> seconds
+function parseIntervalSeconds(v: unknown): number | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  const hms = /^(\d+):(\d{2}):(\d{2})$/.exec(s);
+  if (hms) return Number(hms[1]) * 3600 + Number(hms[2]) * 60 + Number(hms[3]);
+  const unit = /^(\d+)\s*(second|minute|hour)s?$/.exec(s);
+  if (!unit) return null;
+  const mult = unit[2] === "hour" ? 3600 : unit[2] === "minute" ? 60 : 1;
+  return Number(unit[1]) * mult;
+}
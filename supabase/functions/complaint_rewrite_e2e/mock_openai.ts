@@ -0,0 +1,322 @@
+// supabase/functions/complaint_rewrite_e2e/mock_openai.ts
+// Deterministic in-process OpenAI stand-in (a `typeof fetch`).
+//
+// Serves the endpoints the complaint pipeline calls:
+// - POST /v1/responses                 classifier (complaint_classifier_v1) + realtime rewrite
+// - POST /v1/files                     batch input upload (multipart)
+// - POST /v1/batches                   batch create
+// - GET  /v1/batches/{id}              batch poll
+// - GET  /v1/files/{id}/content        output / error JSONL download
+//
+// Batch outcomes are scripted per created batch (plan queue, default: completed),
+// so tests can drive failed / expired / partial-error batches without network.
+// Result line shapes follow the OpenAI Batch API:
+// - output line: { custom_id, response: { status_code, body }, error: null }
+// - expired line: { custom_id, response: null, error: { code: "batch_expired" } }
+// Rewrites answer in the request's target_language (MOCK_REWRITE_TEXTS, else en)
+// so the collector's output-language check passes on cross-language lanes.
+
+export type ClassifierReply = {
+  detected_language: string;
+  topics: string[];
+  intent: string;
+  rewrite_strength: string;
+  confidence: {
+    language_confidence: string;
+    topic_confidence: string;
+    intent_confidence: string;
+  };
+  safety_flags: string[];
+};
+
+export type BatchPlan = {
+  // OpenAI batch status reported on poll
+  status: "in_progress" | "completed" | "failed" | "expired" | "cancelled";
+  // how many input lines (in upload order) get an output line;
+  // default: all for completed, none otherwise
+  succeeded?: number;
+  // error line for the remaining lines of completed / cancelled batches
+  // (expired batches always use batch_expired)
+  itemError?: { status_code: number; code: string };
+  // POST /v1/batches responds with this HTTP status instead of creating
+  createStatus?: number;
+};
+
+export type MockBatch = {
+  id: string;
+  input_file_id: string;
+  custom_ids: string[];
+  // custom_id -> target_language from the uploaded request line
+  target_languages: Map<string, string>;
+  plan: BatchPlan;
+  output_file_id: string | null;
+  error_file_id: string | null;
+};
+
+export type MockOpenAI = {
+  fetch: typeof fetch;
+  requests: { method: string; path: string }[];
+  batches: Map<string, MockBatch>;
+  planBatches: (...plans: BatchPlan[]) => void;
+  setBatchStatus: (id: string, plan: BatchPlan) => void;
+  // classifier requests answer with this HTTP status (null = healthy)
+  failClassifier: (status: number | null) => void;
+};
+
+const DEFAULT_CLASSIFIER: ClassifierReply = {
+  detected_language: "en",
+  topics: ["noise"],
+  intent: "request",
+  rewrite_strength: "light_touch",
+  confidence: {
+    language_confidence: "high",
+    topic_confidence: "high",
+    intent_confidence: "high",
+  },
+  safety_flags: [],
+};
+
+export const MOCK_REWRITE_TEXT =
+  "Could you please keep the music a little lower this evening?";
+
+export const MOCK_REWRITE_TEXTS: Record<string, string> = {
+  en: MOCK_REWRITE_TEXT,
+  es: "¿Podrías bajar un poco la música por la noche, por favor?",
+};
+
+export function createMockOpenAI(opts: {
+  apiKeys?: string[]; // accepted bearer tokens (default: any non-empty)
+  classifier?: Partial<ClassifierReply>;
+  rewriteText?: string;
+} = {}): MockOpenAI {
+  const requests: MockOpenAI["requests"] = [];
+  const files = new Map<string, string>();
+  const batches = new Map<string, MockBatch>();
+  const plans: BatchPlan[] = [];
+  let classifierStatus: number | null = null;
+  let seq = 0;
+
+  const nextId = (prefix: string) => `${prefix}_mock_${++seq}`;
+
+  const responsesBody = (text: string) => ({
+    id: nextId("resp"),
+    object: "response",
+    status: "completed",
+    output: [{
+      type: "message",
+      role: "assistant",
+      content: [{ type: "output_text", text }],
+    }],
+  });
+
+  const rewriteBody = (targetLanguage: string | null) =>
+    responsesBody(
+      JSON.stringify({
+        rewritten_text: opts.rewriteText ??
+          MOCK_REWRITE_TEXTS[primary(targetLanguage)] ?? MOCK_REWRITE_TEXT,
+      }),
+    );
+
+  // Materialise result files once the batch reaches a terminal status
+  const settle = (b: MockBatch) => {
+    const { plan } = b;
+    if (plan.status === "in_progress" || b.output_file_id || b.error_file_id) {
+      return;
+    }
+    if (plan.status === "failed") return; // validation failure: no files
+
+    const succeeded = Math.min(
+      plan.succeeded ??
+        (plan.status === "completed" ? b.custom_ids.length : 0),
+      b.custom_ids.length,
+    );
+    const output = b.custom_ids.slice(0, succeeded).map((custom_id) => ({
+      id: nextId("batch_req"),
+      custom_id,
+      response: {
+        status_code: 200,
+        body: rewriteBody(b.target_languages.get(custom_id) ?? null),
+      },
+      error: null,
+    }));
+    const errors = b.custom_ids.slice(succeeded).map((custom_id) =>
+      plan.status === "expired"
+        ? {
+          id: nextId("batch_req"),
+          custom_id,
+          response: null,
+          error: {
+            code: "batch_expired",
+            message:
+              "This request could not be executed before the completion window expired.",
+          },
+        }
+        : {
+          id: nextId("batch_req"),
+          custom_id,
+          response: {
+            status_code: plan.itemError?.status_code ?? 500,
+            body: {
+              error: {
+                code: plan.itemError?.code ?? "server_error",
+                message: "mock item error",
+              },
+            },
+          },
+          error: null,
+        }
+    );
+
+    if (output.length) {
+      b.output_file_id = nextId("file");
+      files.set(b.output_file_id, toJsonl(output));
+    }
+    if (errors.length) {
+      b.error_file_id = nextId("file");
+      files.set(b.error_file_id, toJsonl(errors));
+    }
+  };
+
+  const handle = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const path = url.pathname;
+    requests.push({ method: req.method, path });
+
+    const auth = req.headers.get("authorization") ?? "";
+    const token = auth.replace(/^Bearer\s+/i, "");
+    if (!token || (opts.apiKeys && !opts.apiKeys.includes(token))) {
+      return apiError(401, "invalid_api_key");
+    }
+
+    if (req.method === "POST" && path === "/v1/responses") {
+      const body = await req.json().catch(() => null);
+      const format = body?.text?.format?.name;
+      if (format === "complaint_classifier_v1") {
+        if (classifierStatus) {
+          return apiError(classifierStatus, "mock_classifier_unavailable");
+        }
+        return jsonResponse(
+          responsesBody(
+            JSON.stringify({ ...DEFAULT_CLASSIFIER, ...opts.classifier }),
+          ),
+        );
+      }
+      if (format === "complaint_rewrite_output_v1") {
+        return jsonResponse(rewriteBody(targetLanguageOf(body)));
+      }
+      return apiError(400, "unknown_response_format");
+    }
+
+    if (req.method === "POST" && path === "/v1/files") {
+      const form = await req.formData();
+      const file = form.get("file");
+      if (form.get("purpose") !== "batch" || !(file instanceof Blob)) {
+        return apiError(400, "invalid_file_upload");
+      }
+      const id = nextId("file");
+      files.set(id, await file.text());
+      return jsonResponse({ id, object: "file", purpose: "batch" });
+    }
+
+    if (req.method === "POST" && path === "/v1/batches") {
+      const body = await req.json().catch(() => null);
+      const input = files.get(String(body?.input_file_id ?? ""));
+      if (input === undefined) return apiError(400, "input_file_not_found");
+
+      const plan = plans.shift() ?? { status: "completed" };
+      if (plan.createStatus) {
+        return apiError(plan.createStatus, "mock_batch_create_error");
+      }
+
+      const id = nextId("batch");
+      const lines = input.split("\n").filter((l) => l.trim()).map((l) =>
+        JSON.parse(l)
+      );
+      batches.set(id, {
+        id,
+        input_file_id: String(body.input_file_id),
+        custom_ids: lines.map((l) => String(l.custom_id)),
+        target_languages: new Map(
+          lines.map((l) => [String(l.custom_id), targetLanguageOf(l.body)]),
+        ),
+        plan,
+        output_file_id: null,
+        error_file_id: null,
+      });
+      return jsonResponse({ id, object: "batch", status: "validating" });
+    }
+
+    const batchMatch = /^\/v1\/batches\/([^/]+)$/.exec(path);
+    if (req.method === "GET" && batchMatch) {
+      const b = batches.get(decodeURIComponent(batchMatch[1]));
+      if (!b) return apiError(404, "batch_not_found");
+      settle(b);
+      return jsonResponse({
+        id: b.id,
+        object: "batch",
+        status: b.plan.status,
+        input_file_id: b.input_file_id,
+        output_file_id: b.output_file_id,
+        error_file_id: b.error_file_id,
+      });
+    }
+
+    const fileMatch = /^\/v1\/files\/([^/]+)\/content$/.exec(path);
+    if (req.method === "GET" && fileMatch) {
+      const content = files.get(decodeURIComponent(fileMatch[1]));
+      if (content === undefined) return apiError(404, "file_not_found");
+      return new Response(content, {
+        status: 200,
+        headers: { "Content-Type": "application/jsonl" },
+      });
+    }
+
+    return apiError(404, `mock_route_not_found:${req.method} ${path}`);
+  };
+
+  return {
+    fetch:
+      ((input: RequestInfo | URL, init?: RequestInit) =>
+        handle(new Request(input, init))) as typeof fetch,
+    requests,
+    batches,
+    planBatches: (...next) => {
+      plans.push(...next);
+    },
+    setBatchStatus: (id, plan) => {
+      const b = batches.get(id);
+      if (!b) throw new Error(`mock: batch ${id} missing`);
+      b.plan = plan;
+    },
+    failClassifier: (status) => {
+      classifierStatus = status;
+    },
+  };
+}
+
+// The rewrite user payload is JSON inside the request body; find its target_language
+function targetLanguageOf(body: unknown): string {
+  const m = /\\?"target_language\\?":\s*\\?"([A-Za-z-]+)/.exec(
+    JSON.stringify(body ?? null),
+  );
+  return m?.[1] ?? "en";
+}
+
+function primary(locale: string | null): string {
+  return (locale ?? "").toLowerCase().split("-")[0];
+}
+
+function toJsonl(rows: unknown[]): string {
+  return rows.map((r) => JSON.stringify(r)).join("\n") + "\n";
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function apiError(status: number, code: string) {
+  return jsonResponse({ error: { message: code, type: "mock", code } }, status);
+}
@@ -0,0 +1,528 @@
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+import { handleClassifierRequest } from "../complaint_classifier/index.ts";
+import { handleOrchestratorRequest } from "../complaint_orchestrator/index.ts";
+import { handleCronRunnerRequest } from "../complaint_trigger_cron_runner/index.ts";
+import { handleCollectorRequest } from "../rewrite_batch_collector/index.ts";
+import { handleSubmitterRequest } from "../rewrite_batch_submitter/index.ts";
+import { createFakeSupabase, type FakeSupabase } from "./fake_supabase.ts";
+import {
+  type BatchPlan,
+  type ClassifierReply,
+  createMockOpenAI,
+  MOCK_REWRITE_TEXT,
+  MOCK_REWRITE_TEXTS,
+  type MockOpenAI,
+} from "./mock_openai.ts";
+
+// runner -> orchestrator -> classifier -> submitter -> collector, all in-process:
+// edge functions run through their exported handlers, the DB is the in-memory
+// RPC fake and api.openai.com is the mock. No network, no Supabase stack.
+
+const HOME = "00000000-0000-4000-8000-00000000a001";
+const SENDER = "00000000-0000-4000-8000-00000000a002";
+const RECIPIENT = "00000000-0000-4000-8000-00000000a003";
+const RECIPIENT_2 = "00000000-0000-4000-8000-00000000a004";
+const ENTRY_A = "00000000-0000-4000-8000-00000000e001";
+const ENTRY_B = "00000000-0000-4000-8000-00000000e002";
+
+const SECRETS = {
+  ORCHESTRATOR_SHARED_SECRET: "orch-secret",
+  CLASSIFIER_SHARED_SECRET: "classifier-secret",
+  WORKER_SHARED_SECRET: "worker-secret",
+};
+
+const PIPELINE_ENV: Record<string, string> = {
+  ...SECRETS,
+  ORCHESTRATOR_FUNCTION_URL: "http://functions.local/complaint_orchestrator",
+  CLASSIFIER_FUNCTION_URL: "http://functions.local/complaint_classifier",
+  OPENAI_CLASSIFIER_API_KEY: "sk-classifier",
+  OPENAI_REWRITE_API_KEY: "sk-rewrite",
+  RUNNER_CONCURRENCY: "1", // deterministic job/batch order
+};
+
+type Pipeline = {
+  db: FakeSupabase;
+  openai: MockOpenAI;
+  fetch: typeof fetch; // functions.local router (edge function -> edge function)
+  runCron: () => Promise<Record<string, unknown>>;
+  runSubmitter: (status?: number) => Promise<Record<string, unknown>>;
+  runCollector: () => Promise<Record<string, unknown>>;
+};
+
+function createPipeline(
+  entries: string[],
+  opts: { classifier?: Partial<ClassifierReply> } = {},
+): Pipeline {
+  const db = createFakeSupabase();
+  const openai = createMockOpenAI({
+    apiKeys: ["sk-classifier", "sk-rewrite"],
+    classifier: opts.classifier,
+  });
+
+  db.tables.userLocales.set(RECIPIENT, "en-GB");
+  db.tables.preferencePayloads.set(RECIPIENT, {
+    environment_noise_tolerance: "low",
+  });
+  for (const id of entries) {
+    db.addMoodEntry({
+      id,
+      home_id: HOME,
+      user_id: SENDER,
+      comment: "Your music is way too loud every night, turn it down.",
+    });
+    db.enqueueTrigger(id, RECIPIENT);
+  }
+
+  // Function-to-function calls stay in-process; everything else is "OpenAI"
+  const router = ((input: RequestInfo | URL, init?: RequestInit) => {
+    const req = new Request(input, init);
+    const url = new URL(req.url);
+    if (url.host === "functions.local") {
+      if (url.pathname === "/complaint_orchestrator") {
+        return handleOrchestratorRequest(req, {
+          supabase: db,
+          fetchFn: router,
+        });
+      }
+      if (url.pathname === "/complaint_classifier") {
+        return handleClassifierRequest(req, { fetchFn: router });
+      }
+      return Promise.resolve(new Response("not found", { status: 404 }));
+    }
+    return openai.fetch(req);
+  }) as typeof fetch;
+
+  const invoke = async (
+    handler: (
+      req: Request,
+      deps: { supabase: FakeSupabase; fetchFn: typeof fetch },
+    ) => Promise<Response>,
+    secret: string,
+    expectStatus = 200,
+  ) => {
+    const resp = await handler(
+      new Request("http://functions.local/invoke", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-internal-secret": secret,
+        },
+        body: "{}",
+      }),
+      { supabase: db, fetchFn: router },
+    );
+    const body = await resp.json();
+    assertEquals(resp.status, expectStatus, JSON.stringify(body));
+    return body as Record<string, unknown>;
+  };
+
+  return {
+    db,
+    openai,
+    fetch: router,
+    runCron: () => invoke(handleCronRunnerRequest, ""),
+    runSubmitter: (status) =>
+      invoke(handleSubmitterRequest, SECRETS.WORKER_SHARED_SECRET, status),
+    runCollector: () =>
+      invoke(handleCollectorRequest, SECRETS.WORKER_SHARED_SECRET),
+  };
+}
+
+async function withPipelineEnv(fn: () => Promise<void>) {
+  const prev = new Map(
+    Object.keys(PIPELINE_ENV).map((k) => [k, Deno.env.get(k)]),
+  );
+  for (const [k, v] of Object.entries(PIPELINE_ENV)) Deno.env.set(k, v);
+  try {
+    await fn();
+  } finally {
+    for (const [k, v] of prev) {
+      if (v === undefined) Deno.env.delete(k);
+      else Deno.env.set(k, v);
+    }
+  }
+}
+
+function pipelineTest(name: string, fn: () => Promise<void>) {
+  Deno.test(name, () => withPipelineEnv(fn));
+}
+
+async function enqueueAll(p: Pipeline, plans: BatchPlan[] = []) {
+  p.openai.planBatches(...plans);
+  const cron = await p.runCron();
+  assertEquals(cron.orchestrator_failed, 0, JSON.stringify(cron));
+}
+
+function jobFor(db: FakeSupabase, entryId: string) {
+  const job = [...db.tables.jobs.values()].find((j) =>
+    j.rewrite_request_id === entryId
+  );
+  assert(job, `job for ${entryId}`);
+  return job;
+}
+
+function assertNoRpcErrors(db: FakeSupabase) {
+  assertEquals(db.errors, [], "every RPC matched its SQL signature");
+}
+
+pipelineTest(
+  "e2e: trigger is rewritten through classifier, batch and collector",
+  async () => {
+    const p = createPipeline([ENTRY_A]);
+
+    const cron = await p.runCron();
+    assertEquals(cron.claimed, 1);
+    assertEquals(cron.orchestrator_ok, 1);
+
+    const trigger = p.db.tables.triggers.get(ENTRY_A)!;
+    assertEquals(trigger.status, "completed");
+    assertEquals(trigger.note, "enqueued");
+
+    const request = p.db.tables.requests.get(ENTRY_A)!;
+    assertEquals(request.lane, "same_language");
+    assertEquals(request.target_locale, "en");
+    assertEquals(request.topics, ["noise"]);
+    assertEquals(jobFor(p.db, ENTRY_A).status, "queued");
+
+    const submit = await p.runSubmitter();
+    assertEquals(submit.submitted, 1);
+    const job = jobFor(p.db, ENTRY_A);
+    const batchId = job.provider_batch_id!;
+    assertEquals(job.status, "batch_submitted");
+    assert(p.db.tables.batches.has(batchId));
+
+    const collect = await p.runCollector();
+    const [result] = collect.results as Record<string, unknown>[];
+    assertEquals(result.status, "completed");
+    assertEquals(result.completed, 1);
+
+    assertEquals(jobFor(p.db, ENTRY_A).status, "completed");
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "completed");
+    const output = p.db.tables.outputs.get(`${ENTRY_A}:${RECIPIENT}`);
+    assertEquals(output?.rewritten_text, MOCK_REWRITE_TEXT);
+    assertEquals(output?.output_language, "en");
+    assertEquals(output?.provider, "openai");
+
+    assertEquals(
+      p.openai.requests.map((r) => `${r.method} ${r.path}`).filter((r) =>
+        !r.startsWith("GET /v1/files/")
+      ),
+      [
+        "POST /v1/responses", // classifier
+        "POST /v1/files",
+        "POST /v1/batches",
+        `GET /v1/batches/${batchId}`,
+      ],
+    );
+    assertNoRpcErrors(p.db);
+  },
+);
+
+pipelineTest(
+  "e2e: running batch is left alone until the provider finishes",
+  async () => {
+    const p = createPipeline([ENTRY_A]);
+    await enqueueAll(p, [{ status: "in_progress" }]);
+    await p.runSubmitter();
+    const batchId = jobFor(p.db, ENTRY_A).provider_batch_id!;
+
+    const first = await p.runCollector();
+    assertEquals(
+      (first.results as Record<string, unknown>[])[0].status,
+      "running",
+    );
+    assertEquals(jobFor(p.db, ENTRY_A).status, "batch_submitted");
+
+    p.openai.setBatchStatus(batchId, { status: "completed" });
+    await p.runCollector();
+    assertEquals(jobFor(p.db, ENTRY_A).status, "completed");
+    assertEquals(p.db.tables.batches.get(batchId)!.status, "completed");
+    assertNoRpcErrors(p.db);
+  },
+);
+
+pipelineTest(
+  "e2e: failed batch requeues jobs, which resubmit and complete",
+  async () => {
+    const p = createPipeline([ENTRY_A]);
+    await enqueueAll(p, [{ status: "failed" }, { status: "completed" }]);
+    await p.runSubmitter();
+    const firstBatch = jobFor(p.db, ENTRY_A).provider_batch_id!;
+
+    const collect = await p.runCollector();
+    const [result] = collect.results as Record<string, unknown>[];
+    assertEquals(result.status, "failed");
+    assertEquals(result.requeued_jobs, 1);
+
+    const requeued = jobFor(p.db, ENTRY_A);
+    assertEquals(requeued.status, "queued");
+    assertEquals(requeued.provider_batch_id, null);
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "queued");
+
+    // backoff: not claimable yet
+    assertEquals((await p.runSubmitter()).submitted, 0);
+
+    p.db.advance(31 * 60);
+    assertEquals((await p.runSubmitter()).submitted, 1);
+    const resubmitted = jobFor(p.db, ENTRY_A);
+    assert(resubmitted.provider_batch_id !== firstBatch, "new provider batch");
+    assertEquals(resubmitted.attempt_count, 2);
+
+    await p.runCollector();
+    assertEquals(jobFor(p.db, ENTRY_A).status, "completed");
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "completed");
+    assertNoRpcErrors(p.db);
+  },
+);
+
+pipelineTest(
+  "e2e: failed batch with no attempts left fails the request",
+  async () => {
+    const p = createPipeline([ENTRY_A]);
+    await enqueueAll(p, [{ status: "failed" }, { status: "failed" }]);
+
+    await p.runSubmitter();
+    await p.runCollector();
+    p.db.advance(31 * 60);
+    await p.runSubmitter();
+
+    const collect = await p.runCollector();
+    const [result] = collect.results as Record<string, unknown>[];
+    assertEquals(result.exhausted_jobs, 1);
+    assertEquals(jobFor(p.db, ENTRY_A).status, "failed");
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "failed");
+    assertEquals(p.db.tables.outputs.size, 0);
+    assertNoRpcErrors(p.db);
+  },
+);
+
+pipelineTest(
+  "e2e: expired batch keeps partial output and retries the rest",
+  async () => {
+    const p = createPipeline([ENTRY_A, ENTRY_B]);
+    await enqueueAll(p, [{ status: "expired", succeeded: 1 }]);
+
+    assertEquals((await p.runSubmitter()).submitted, 2);
+    const collect = await p.runCollector();
+    const [result] = collect.results as Record<string, unknown>[];
+    assertEquals(result.status, "failed"); // expired maps to failed
+    assertEquals(result.completed, 1);
+    assertEquals(result.failed, 1);
+
+    // upload order == claim order (created_at)
+    assertEquals(jobFor(p.db, ENTRY_A).status, "completed");
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "completed");
+    const expired = jobFor(p.db, ENTRY_B);
+    assertEquals(expired.status, "queued");
+    assert(String(expired.last_error).includes("batch_expired"));
+
+    p.db.advance(6 * 3600 + 60);
+    assertEquals((await p.runSubmitter()).submitted, 1);
+    await p.runCollector();
+    assertEquals(jobFor(p.db, ENTRY_B).status, "completed");
+    assertEquals(p.db.tables.outputs.size, 2);
+    assertNoRpcErrors(p.db);
+  },
+);
+
+pipelineTest(
+  "e2e: permanent item errors in the error file fail only those jobs",
+  async () => {
+    const p = createPipeline([ENTRY_A, ENTRY_B]);
+    await enqueueAll(p, [{
+      status: "completed",
+      succeeded: 1,
+      itemError: { status_code: 400, code: "invalid_request_error" },
+    }]);
+
+    await p.runSubmitter();
+    const collect = await p.runCollector();
+    const [result] = collect.results as Record<string, unknown>[];
+    assertEquals(result.completed, 1);
+    assertEquals(result.failed, 1);
+    assertEquals(result.requeued_jobs, 0);
+
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "completed");
+    assertEquals(jobFor(p.db, ENTRY_B).status, "failed");
+    assertEquals(p.db.tables.requests.get(ENTRY_B)!.status, "failed");
+    assertNoRpcErrors(p.db);
+  },
+);
+
+pipelineTest("e2e: provider create error requeues claimed jobs", async () => {
+  const p = createPipeline([ENTRY_A]);
+  await enqueueAll(p, [{ status: "completed", createStatus: 503 }]);
+
+  const claimedAt = p.db.now();
+  const submit = await p.runSubmitter(500);
+  assert(String(submit.errors).includes("openai_batch_submit_failed"));
+  const job = jobFor(p.db, ENTRY_A);
+  assertEquals(job.status, "queued");
+  assert(job.not_before_at! > claimedAt, "backoff applied");
+  assertEquals(p.db.tables.batches.size, 0);
+  assertNoRpcErrors(p.db);
+});
+
+pipelineTest(
+  "e2e: classifier outage degrades to rules_v1 after repeated retries",
+  async () => {
+    const p = createPipeline([ENTRY_A]);
+    p.openai.failClassifier(503);
+
+    for (const attempt of [1, 2]) {
+      const cron = await p.runCron();
+      assertEquals(cron.orchestrator_failed, 1, `attempt ${attempt}`);
+      const trigger = p.db.tables.triggers.get(ENTRY_A)!;
+      assertEquals(trigger.status, "queued");
+      assertEquals(trigger.attempts, attempt);
+      p.db.advance(10 * 60 + 1);
+    }
+    assertEquals(p.db.tables.requests.size, 0);
+
+    // attempt 3 >= CLASSIFIER_RULES_FALLBACK_AFTER_ATTEMPTS (default 3)
+    const cron = await p.runCron();
+    assertEquals(cron.orchestrator_ok, 1);
+    const request = p.db.tables.requests.get(ENTRY_A)!;
+    assertEquals(
+      (request.classifier_result as Record<string, unknown>)
+        .classifier_version,
+      "rules_v1",
+    );
+    assertEquals(request.topics, ["noise", "schedule"]);
+
+    await p.runSubmitter();
+    await p.runCollector();
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "completed");
+
+    // orchestrator already requeued the trigger; the runner's own retry is a no-op
+    assert(
+      p.db.errors.every((e) =>
+        e.fn === "complaint_trigger_mark_retry" &&
+        e.message === "mark_retry_noop"
+      ),
+      JSON.stringify(p.db.errors),
+    );
+  },
+);
+
+pipelineTest(
+  "e2e: low-confidence language detection follows the sender locale",
+  async () => {
+    const guess = {
+      detected_language: "es",
+      confidence: {
+        language_confidence: "low",
+        topic_confidence: "high",
+        intent_confidence: "high",
+      },
+    };
+
+    const p = createPipeline([ENTRY_A], { classifier: guess });
+    p.db.tables.userLocales.set(SENDER, "en-NZ");
+    await enqueueAll(p);
+    const request = p.db.tables.requests.get(ENTRY_A)!;
+    assertEquals(request.source_locale, "en");
+    assertEquals(request.lane, "same_language");
+
+    // same guess at high confidence wins over the profile locale
+    const q = createPipeline([ENTRY_A], {
+      classifier: {
+        ...guess,
+        confidence: { ...guess.confidence, language_confidence: "high" },
+      },
+    });
+    q.db.tables.userLocales.set(SENDER, "en-NZ");
+    await enqueueAll(q);
+    assertEquals(q.db.tables.requests.get(ENTRY_A)!.source_locale, "es");
+    assertEquals(q.db.tables.requests.get(ENTRY_A)!.lane, "cross_language");
+    assertNoRpcErrors(p.db);
+    assertNoRpcErrors(q.db);
+  },
+);
+
+pipelineTest(
+  "e2e: multi-recipient fan-out rewrites per recipient and finalizes last",
+  async () => {
+    const p = createPipeline([ENTRY_A]);
+    p.db.tables.userLocales.set(RECIPIENT_2, "es-MX");
+    p.db.tables.preferencePayloads.set(RECIPIENT_2, {
+      environment_noise_tolerance: "high",
+    });
+
+    // Trigger queue is single-recipient; claim it and fan out by hand
+    const { data } = await p.db.rpc("complaint_trigger_pop_pending", {
+      p_limit: 1,
+      p_max_attempts: 10,
+    });
+    const [claim] = data as { request_id: string }[];
+    const resp = await p.fetch(
+      "http://functions.local/complaint_orchestrator",
+      {
+        method: "POST",
+        headers: { "x-internal-secret": SECRETS.ORCHESTRATOR_SHARED_SECRET },
+        body: JSON.stringify({
+          entry_id: ENTRY_A,
+          home_id: HOME,
+          sender_user_id: SENDER,
+          recipient_user_ids: [RECIPIENT, RECIPIENT_2],
+          surface: "weekly_harmony",
+          trigger_request_id: claim.request_id,
+        }),
+      },
+    );
+    const body = await resp.json();
+    assertEquals(resp.status, 200, JSON.stringify(body));
+    assertEquals(
+      body.recipients.map((r: Record<string, unknown>) => [
+        r.recipient_user_id,
+        r.target_locale,
+        r.lane,
+      ]),
+      [
+        [RECIPIENT, "en", "same_language"],
+        [RECIPIENT_2, "es", "cross_language"],
+      ],
+    );
+
+    // One request, one job + preference snapshot per recipient
+    assertEquals(p.db.tables.requests.size, 1);
+    const jobs = [...p.db.tables.jobs.values()];
+    assertEquals(jobs.map((j) => j.recipient_user_id), [
+      RECIPIENT,
+      RECIPIENT_2,
+    ]);
+    assertEquals(jobs.map((j) => j.target_locale), ["en", "es"]);
+    const blob = jobs[1].rewrite_request as Record<string, unknown>;
+    assertEquals(blob.recipient_user_id, RECIPIENT_2);
+    assertEquals(
+      (blob.context_pack as Record<string, unknown>).target_language,
+      "es",
+    );
+    assertEquals(p.db.tables.preferenceSnapshots.size, 2);
+
+    // First recipient completes, second is requeued: request stays open
+    p.openai.planBatches({
+      status: "completed",
+      succeeded: 1,
+      itemError: { status_code: 500, code: "server_error" },
+    });
+    await p.runSubmitter();
+    await p.runCollector();
+    assertEquals(jobs[0].status, "completed");
+    assertEquals(jobs[1].status, "queued");
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "processing");
+
+    p.db.advance(6 * 3600 + 60);
+    await p.runSubmitter();
+    await p.runCollector();
+    assertEquals(jobs[1].status, "completed");
+    assertEquals(p.db.tables.requests.get(ENTRY_A)!.status, "completed");
+    const esOutput = p.db.tables.outputs.get(`${ENTRY_A}:${RECIPIENT_2}`)!;
+    assertEquals(esOutput.target_locale, "es");
+    assertEquals(esOutput.rewritten_text, MOCK_REWRITE_TEXTS.es);
+    assertEquals(esOutput.output_language, "es");
+    assertEquals(p.db.tables.triggers.get(ENTRY_A)!.status, "completed");
+    assertNoRpcErrors(p.db);
+  },
+);
@@ -0,0 +1,229 @@
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+import { handleOpsRequest } from "./index.ts";
+
+type RpcCall = {
+  fn: string;
+  args: Record<string, unknown>;
+};
+
+const SECRET = "ops-secret";
+const ENTRY_ID = "11111111-1111-4111-8111-111111111111";
+const JOB_ID = "22222222-2222-4222-8222-222222222222";
+const CLAIM_ID = "33333333-3333-4333-8333-333333333333";
+
+Deno.env.set("OPS_SHARED_SECRET", SECRET);
+
+function fakeSupabase(
+  calls: RpcCall[],
+  responses: Record<string, unknown[]>,
+) {
+  return {
+    rpc: (fn: string, args: Record<string, unknown>) => {
+      calls.push({ fn, args });
+      const queue = responses[fn] ?? [];
+      const next = queue.length > 1 ? queue.shift() : queue[0];
+      if (next instanceof Error) {
+        return Promise.resolve({
+          data: null,
+          error: { message: next.message },
+        });
+      }
+      return Promise.resolve({ data: next ?? null, error: null });
+    },
+  };
+}
+
+function opsRequest(path: string, body?: Record<string, unknown>) {
+  return new Request(`http://localhost/complaint_rewrite_ops/${path}`, {
+    method: body ? "POST" : "GET",
+    headers: {
+      "content-type": "application/json",
+      "x-internal-secret": SECRET,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+function trace(triggerStatus: string) {
+  return {
+    entry_id: ENTRY_ID,
+    trigger: { status: triggerStatus, request_id: CLAIM_ID },
+    rewrite_request: null,
+    jobs: [],
+    provider_batches: [],
+    outputs: [],
+  };
+}
+
+Deno.test("rejects requests without the internal secret", async () => {
+  const calls: RpcCall[] = [];
+  const res = await handleOpsRequest(
+    new Request(
+      `http://localhost/complaint_rewrite_ops/trace?entry_id=${ENTRY_ID}`,
+    ),
+    { supabase: fakeSupabase(calls, {}) },
+  );
+
+  assertEquals(res.status, 401);
+  assertEquals(calls.length, 0);
+});
+
+Deno.test("trace returns the pipeline view for one entry", async () => {
+  const calls: RpcCall[] = [];
+  const res = await handleOpsRequest(
+    opsRequest(`trace?entry_id=${ENTRY_ID}`),
+    {
+      supabase: fakeSupabase(calls, {
+        complaint_rewrite_ops_trace_v1: [trace("completed")],
+      }),
+    },
+  );
+  const body = await res.json();
+
+  assertEquals(res.status, 200);
+  assertEquals(body.trace.trigger.status, "completed");
+  assertEquals(calls[0].args, { p_entry_id: ENTRY_ID });
+});
+
+Deno.test("list validates kind and maps api_assert codes", async () => {
+  const calls: RpcCall[] = [];
+  const badKind = await handleOpsRequest(
+    opsRequest("list?kind=outputs&status=queued"),
+    { supabase: fakeSupabase(calls, {}) },
+  );
+  assertEquals(badKind.status, 400);
+  assertEquals(calls.length, 0);
+
+  const badStatus = await handleOpsRequest(
+    opsRequest("list?kind=jobs&status=running&limit=999"),
+    {
+      supabase: fakeSupabase(calls, {
+        complaint_rewrite_ops_list_v1: [
+          new Error(
+            '{"code":"INVALID_STATUS","message":"status is not valid for this kind.","details":null}',
+          ),
+        ],
+      }),
+    },
+  );
+  assertEquals(badStatus.status, 400);
+  assertEquals((await badStatus.json()).error, "invalid_status");
+  assertEquals(calls[0].args.p_limit, 200);
+});
+
+Deno.test("retry-trigger refuses triggers that are not processing", async () => {
+  const calls: RpcCall[] = [];
+  const res = await handleOpsRequest(
+    opsRequest("retry-trigger", { entry_id: ENTRY_ID, reason: "stuck" }),
+    {
+      supabase: fakeSupabase(calls, {
+        complaint_rewrite_ops_trace_v1: [trace("failed")],
+      }),
+    },
+  );
+
+  assertEquals(res.status, 409);
+  assertEquals((await res.json()).error, "trigger_not_processing");
+  assert(!calls.some((c) => c.fn === "complaint_trigger_mark_retry"));
+});
+
+Deno.test("retry-trigger requeues a processing trigger with its claim ticket", async () => {
+  const calls: RpcCall[] = [];
+  const res = await handleOpsRequest(
+    opsRequest("retry-trigger", {
+      entry_id: ENTRY_ID,
+      reason: "runner_crashed",
+      retry_after_seconds: 120,
+    }),
+    {
+      supabase: fakeSupabase(calls, {
+        complaint_rewrite_ops_trace_v1: [trace("processing")],
+      }),
+    },
+  );
+
+  assertEquals(res.status, 200);
+  const retry = calls.find((c) => c.fn === "complaint_trigger_mark_retry");
+  assertEquals(retry?.args, {
+    p_entry_id: ENTRY_ID,
+    p_request_id: CLAIM_ID,
+    p_error: "ops:runner_crashed",
+    p_retry_after: "120 seconds",
+    p_note: "ops_retry_trigger",
+  });
+});
+
+Deno.test("requeue-job refuses terminal jobs and reports the new status", async () => {
+  const calls: RpcCall[] = [];
+  const completed = await handleOpsRequest(
+    opsRequest("requeue-job", { job_id: JOB_ID, reason: "retry" }),
+    {
+      supabase: fakeSupabase(calls, {
+        rewrite_job_fetch_v1: [[{ job_id: JOB_ID, status: "completed" }]],
+      }),
+    },
+  );
+  assertEquals(completed.status, 409);
+  assert(
+    !calls.some((c) => c.fn === "complaint_rewrite_job_fail_or_requeue"),
+  );
+
+  const requeueCalls: RpcCall[] = [];
+  const res = await handleOpsRequest(
+    opsRequest("requeue-job", { job_id: JOB_ID, reason: "lost_batch" }),
+    {
+      supabase: fakeSupabase(requeueCalls, {
+        rewrite_job_fetch_v1: [
+          [{ job_id: JOB_ID, status: "batch_submitted" }],
+          [{ job_id: JOB_ID, status: "queued" }],
+        ],
+      }),
+    },
+  );
+  const body = await res.json();
+
+  assertEquals(res.status, 200);
+  assertEquals(body.previous_status, "batch_submitted");
+  assertEquals(body.status, "queued");
+  const requeue = requeueCalls.find((c) =>
+    c.fn === "complaint_rewrite_job_fail_or_requeue"
+  );
+  assertEquals(requeue?.args, {
+    p_job_id: JOB_ID,
+    p_error: "ops:lost_batch",
+    p_backoff_seconds: 60,
+  });
+});
+
+Deno.test("requeue-batch requires a reason and passes the batch through", async () => {
+  const calls: RpcCall[] = [];
+  const missing = await handleOpsRequest(
+    opsRequest("requeue-batch", { provider_batch_id: "batch_abc" }),
+    { supabase: fakeSupabase(calls, {}) },
+  );
+  assertEquals(missing.status, 400);
+  assertEquals(calls.length, 0);
+
+  const res = await handleOpsRequest(
+    opsRequest("requeue-batch", {
+      provider_batch_id: "batch_abc",
+      reason: "provider_expired",
+    }),
+    {
+      supabase: fakeSupabase(calls, {
+        rewrite_jobs_requeue_by_provider_batch_v1: [[{ job_id: JOB_ID }]],
+      }),
+    },
+  );
+  const body = await res.json();
+
+  assertEquals(res.status, 200);
+  assertEquals(body.requeued, 1);
+  assertEquals(calls[0].args, {
+    p_provider_batch_id: "batch_abc",
+    p_reason: "ops:provider_expired",
+    p_backoff_seconds: 0,
+    p_limit: 500,
+  });
+});
@@ -0,0 +1,432 @@
+// supabase/functions/complaint_rewrite_ops/index.ts
+// Internal ops API for the complaint rewrite pipeline (on-call, no SQL editor).
+// RPC-only DB access. Gated by x-internal-secret (OPS_SHARED_SECRET, fail-closed).
+//
+// Read:
+// - GET  .../trace?entry_id=<uuid>
+//     trigger -> rewrite_request -> jobs -> provider batches -> outputs for one entry
+// - GET  .../list?kind=triggers|jobs|batches&status=<status>[&stuck_after_seconds=N][&limit=N]
+//     items in a state, oldest updated_at first (stuck = not updated for N seconds)
+//
+// Repair (POST, JSON body; `reason` is required and recorded as "ops:<reason>"):
+// - .../retry-trigger  { entry_id, reason, retry_after_seconds? }
+//     processing trigger -> queued via complaint_trigger_mark_retry (uses its claim ticket)
+// - .../requeue-job    { job_id, reason, backoff_seconds? }
+//     processing / batch_submitted job -> queued (or failed when out of attempts)
+//     via complaint_rewrite_job_fail_or_requeue
+// - .../requeue-batch  { provider_batch_id, reason, backoff_seconds?, limit? }
+//     batch_submitted jobs of one provider batch via rewrite_jobs_requeue_by_provider_batch_v1
+//
+// Repairs only call the existing marker/requeue RPCs and refuse states those RPCs
+// were not written for (terminal rows are never resurrected here).
+// Message text is never returned (see complaint_rewrite_ops_trace_v1).
+
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
+
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+type HandlerDeps = {
+  supabase?: RpcLike;
+};
+
+class ApiError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+  }
+}
+
+type TraceResult = {
+  entry_id: string;
+  trigger: { status: string; request_id: string | null } | null;
+  rewrite_request: Record<string, unknown> | null;
+  jobs: Record<string, unknown>[];
+  provider_batches: Record<string, unknown>[];
+  outputs: Record<string, unknown>[];
+};
+
+type JobFetchRow = {
+  job_id: string;
+  rewrite_request_id: string;
+  recipient_user_id: string;
+  status: string;
+  provider_batch_id: string | null;
+};
+
+const LIST_KINDS = ["triggers", "jobs", "batches"] as const;
+type ListKind = typeof LIST_KINDS[number];
+
+// Jobs the requeue RPC may move: stuck mid-flight, never terminal or already queued
+const REQUEUEABLE_JOB_STATUSES = new Set(["processing", "batch_submitted"]);
+
+const MAX_REASON_CHARS = 200;
+const DEFAULT_TRIGGER_RETRY_SECONDS = 60;
+const DEFAULT_JOB_BACKOFF_SECONDS = 60;
+const MAX_BODY_BYTES = 16_384;
+
+/* ---------------- entrypoint ---------------- */
+
+async function handleOpsRequest(
+  req: Request,
+  deps: HandlerDeps = {},
+): Promise<Response> {
+  const request_id = crypto.randomUUID();
+
+  try {
+    requireInternalSecret(req);
+    const supabase = deps.supabase ?? supabaseServiceClient();
+
+    const route = new URL(req.url).pathname.split("/").filter(Boolean).pop() ??
+      "";
+    const params = new URL(req.url).searchParams;
+
+    let result: unknown;
+    if (req.method === "GET" && route === "trace") {
+      result = await traceEntry(supabase, params.get("entry_id"));
+    } else if (req.method === "GET" && route === "list") {
+      result = await listItems(supabase, {
+        kind: params.get("kind"),
+        status: params.get("status"),
+        stuck_after_seconds: params.get("stuck_after_seconds"),
+        limit: params.get("limit"),
+      });
+    } else if (req.method === "POST" && route === "retry-trigger") {
+      result = await retryTrigger(supabase, await readJson(req));
+    } else if (req.method === "POST" && route === "requeue-job") {
+      result = await requeueJob(supabase, await readJson(req));
+    } else if (req.method === "POST" && route === "requeue-batch") {
+      result = await requeueBatch(supabase, await readJson(req));
+    } else {
+      throw new ApiError(404, "route_not_found", "route_not_found");
+    }
+
+    return json({ ok: true, request_id, ...(result as object) }, 200);
+  } catch (e) {
+    if (e instanceof ApiError) {
+      return json({
+        ok: false,
+        request_id,
+        error: e.code ?? "error",
+        message: e.message,
+      }, e.status);
+    }
+    return json({
+      ok: false,
+      request_id,
+      error: "internal_error",
+      message: toErrorMessage(e),
+    }, 500);
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleOpsRequest(req));
+}
+
+/* ---------------- read ---------------- */
+
+async function traceEntry(
+  supabase: RpcLike,
+  entryId: string | null,
+): Promise<{ trace: TraceResult }> {
+  const entry_id = requireUuid(entryId, "entry_id");
+  const trace = await rpcJson<TraceResult>(
+    supabase,
+    "complaint_rewrite_ops_trace_v1",
+    { p_entry_id: entry_id },
+  );
+  if (!trace || (!trace.trigger && !trace.rewrite_request)) {
+    throw new ApiError(404, "entry_not_in_pipeline", "entry_not_in_pipeline");
+  }
+  return { trace };
+}
+
+async function listItems(
+  supabase: RpcLike,
+  input: {
+    kind: string | null;
+    status: string | null;
+    stuck_after_seconds: string | null;
+    limit: string | null;
+  },
+): Promise<{ kind: ListKind; status: string; items: unknown[] }> {
+  const kind = (input.kind ?? "").trim() as ListKind;
+  if (!LIST_KINDS.includes(kind)) {
+    throw new ApiError(400, "kind_invalid", "kind_invalid");
+  }
+  const status = (input.status ?? "").trim();
+  if (!status) throw new ApiError(400, "status_required", "status_required");
+
+  const out = await rpcJson<{ items?: unknown[] }>(
+    supabase,
+    "complaint_rewrite_ops_list_v1",
+    {
+      p_kind: kind,
+      p_status: status,
+      p_stuck_after_seconds: clampInt(
+        input.stuck_after_seconds,
+        0,
+        30 * 24 * 3600,
+        0,
+      ),
+      p_limit: clampInt(input.limit, 1, 200, 50),
+    },
+  );
+  return { kind, status, items: out?.items ?? [] };
+}
+
+/* ---------------- repair ---------------- */
+
+async function retryTrigger(
+  supabase: RpcLike,
+  body: Record<string, unknown>,
+) {
+  const entry_id = requireUuid(body.entry_id, "entry_id");
+  const reason = requireReason(body.reason);
+  const retryAfterSeconds = clampInt(
+    body.retry_after_seconds,
+    10,
+    24 * 3600,
+    DEFAULT_TRIGGER_RETRY_SECONDS,
+  );
+
+  const { trace } = await traceEntry(supabase, entry_id);
+  const trigger = trace.trigger;
+  if (!trigger) {
+    throw new ApiError(404, "trigger_not_found", "trigger_not_found");
+  }
+
+  // mark_retry only moves a claimed (processing) trigger, keyed by its claim ticket
+  if (trigger.status !== "processing" || !trigger.request_id) {
+    throw new ApiError(
+      409,
+      `trigger_not_processing:${trigger.status}`,
+      "trigger_not_processing",
+    );
+  }
+
+  try {
+    await rpcJson(supabase, "complaint_trigger_mark_retry", {
+      p_entry_id: entry_id,
+      p_request_id: trigger.request_id,
+      p_error: `ops:${reason}`,
+      p_retry_after: `${retryAfterSeconds} seconds`,
+      p_note: "ops_retry_trigger",
+    });
+  } catch (e) {
+    // The runner finished or re-claimed the trigger between trace and retry
+    if (e instanceof ApiError && e.message.includes("mark_retry_noop")) {
+      throw new ApiError(409, "trigger_claim_changed", "trigger_claim_changed");
+    }
+    throw e;
+  }
+
+  return {
+    action: "retry_trigger",
+    entry_id,
+    previous_status: trigger.status,
+    retry_after_seconds: retryAfterSeconds,
+  };
+}
+
+async function requeueJob(
+  supabase: RpcLike,
+  body: Record<string, unknown>,
+) {
+  const job_id = requireUuid(body.job_id, "job_id");
+  const reason = requireReason(body.reason);
+  const backoffSeconds = clampInt(
+    body.backoff_seconds,
+    30,
+    6 * 3600,
+    DEFAULT_JOB_BACKOFF_SECONDS,
+  );
+
+  const before = await fetchJob(supabase, job_id);
+  if (!before) throw new ApiError(404, "job_not_found", "job_not_found");
+  if (!REQUEUEABLE_JOB_STATUSES.has(before.status)) {
+    throw new ApiError(
+      409,
+      `job_not_requeueable:${before.status}`,
+      "job_not_requeueable",
+    );
+  }
+
+  await rpcJson(supabase, "complaint_rewrite_job_fail_or_requeue", {
+    p_job_id: job_id,
+    p_error: `ops:${reason}`,
+    p_backoff_seconds: backoffSeconds,
+  });
+
+  // fail_or_requeue fails the job instead when it is out of attempts
+  const after = await fetchJob(supabase, job_id);
+
+  return {
+    action: "requeue_job",
+    job_id,
+    rewrite_request_id: before.rewrite_request_id,
+    previous_status: before.status,
+    status: after?.status ?? null,
+    backoff_seconds: backoffSeconds,
+  };
+}
+
+async function requeueBatch(
+  supabase: RpcLike,
+  body: Record<string, unknown>,
+) {
+  const provider_batch_id = String(body.provider_batch_id ?? "").trim();
+  if (!provider_batch_id || provider_batch_id.length > 200) {
+    throw new ApiError(
+      400,
+      "provider_batch_id_invalid",
+      "provider_batch_id_invalid",
+    );
+  }
+  const reason = requireReason(body.reason);
+  const backoffSeconds = clampInt(body.backoff_seconds, 0, 6 * 3600, 0);
+  const limit = clampInt(body.limit, 1, 500, 500);
+
+  const rows = (await rpcJson<unknown[]>(
+    supabase,
+    "rewrite_jobs_requeue_by_provider_batch_v1",
+    {
+      p_provider_batch_id: provider_batch_id,
+      p_reason: `ops:${reason}`,
+      p_backoff_seconds: backoffSeconds,
+      p_limit: limit,
+    },
+  )) ?? [];
+
+  return {
+    action: "requeue_batch",
+    provider_batch_id,
+    requeued: rows.length,
+    jobs: rows,
+  };
+}
+
+/* ---------------- RPC helpers ---------------- */
+
+async function rpcJson<T>(
+  supabase: RpcLike,
+  fn: string,
+  args: Record<string, unknown>,
+): Promise<T | null> {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) {
+    // api_assert raises with a JSON message carrying the code (e.g. INVALID_STATUS)
+    const code = /"code"\s*:\s*"([A-Z_]+)"/.exec(error.message)?.[1];
+    if (code) throw new ApiError(400, `${fn}:${code}`, code.toLowerCase());
+    throw new ApiError(500, `${fn}_failed:${error.message}`, "rpc_failed");
+  }
+  return (data ?? null) as T | null;
+}
+
+async function fetchJob(
+  supabase: RpcLike,
+  jobId: string,
+): Promise<JobFetchRow | null> {
+  const data = await rpcJson<JobFetchRow[] | JobFetchRow>(
+    supabase,
+    "rewrite_job_fetch_v1",
+    { p_job_id: jobId },
+  );
+  // RETURNS TABLE -> PostgREST returns an array
+  const row = Array.isArray(data) ? data[0] : data;
+  return row ?? null;
+}
+
+/* ---------------- request helpers ---------------- */
+
+async function readJson(req: Request): Promise<Record<string, unknown>> {
+  const len = Number(req.headers.get("content-length") ?? "0");
+  if (Number.isFinite(len) && len > MAX_BODY_BYTES) {
+    throw new ApiError(413, "body_too_large", "body_too_large");
+  }
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "invalid_json", "invalid_json");
+  }
+  return body as Record<string, unknown>;
+}
+
+function requireUuid(v: unknown, field: string): string {
+  const s = String(v ?? "").trim();
+  if (!isUuid(s)) {
+    throw new ApiError(400, `${field}_invalid_uuid`, `${field}_invalid_uuid`);
+  }
+  return s;
+}
+
+function requireReason(v: unknown): string {
+  const s = String(v ?? "").trim();
+  if (!s) throw new ApiError(400, "reason_required", "reason_required");
+  return s.slice(0, MAX_REASON_CHARS);
+}
+
+/* ---------------- Supabase + auth ---------------- */
+
+function supabaseServiceClient(): RpcLike {
+  const supabaseUrl = env("SUPABASE_URL");
+  const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
+  return createClient(supabaseUrl, serviceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
+
+function env(name: string): string {
+  const v = Deno.env.get(name);
+  if (!v) throw new ApiError(500, `Missing env ${name}`, "missing_env");
+  return v;
+}
+
+// Fail-closed: repairs mutate pipeline state, so a missing secret is an error
+function requireInternalSecret(req: Request) {
+  const expected = env("OPS_SHARED_SECRET");
+  const got = req.headers.get("x-internal-secret");
+  if (got !== expected) throw new ApiError(401, "unauthorized", "unauthorized");
+}
+
+/* ---------------- small utils ---------------- */
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+function clampInt(v: unknown, min: number, max: number, fallback: number) {
+  if (v === null || v === undefined || v === "") return fallback;
+  const n = typeof v === "number" ? v : Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  const i = Math.trunc(n);
+  return Math.max(min, Math.min(max, i));
+}
+
+function isUuid(s: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+    .test(s);
+}
+
+function toErrorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  return String(e);
+}
+
+// Test-only exports
+export {
+  ApiError,
+  clampInt,
+  handleOpsRequest,
+  listItems,
+  requeueBatch,
+  requeueJob,
+  retryTrigger,
+  traceEntry,
+};
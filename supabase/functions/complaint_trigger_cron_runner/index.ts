@@ -9,13 +9,12 @@
 // Notes:
 // - We pass trigger_request_id (claim ticket) so orchestrator can mark terminal states
 //   using marker RPCs that enforce ownership.
+// - We pass trigger_attempt (attempts after claim) so orchestrator can degrade to the
+//   rules classifier after repeated retryable failures.
 // - p_retry_after in SQL is INTERVAL; we pass a safe literal like "00:10:00".
 // - Runner is intended to be invoked by Supabase Scheduled Functions (cron).
 
-import {
-  createClient,
-  type SupabaseClient,
-} from "npm:@supabase/supabase-js@2.48.0";
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
 
 type TriggerRow = {
   entry_id: string;
@@ -23,6 +22,7 @@ type TriggerRow = {
   author_user_id: string;
   recipient_user_id: string;
   request_id: string; // claim ticket generated by complaint_trigger_pop_pending()
+  attempts?: number; // includes this claim (older pop_pending did not return it)
 };
 
 type RpcLike = {
@@ -38,76 +38,88 @@ class ApiError extends Error {
   }
 }
 
-if (import.meta.main) {
-  Deno.serve(async (req) => {
-    // Optional: protect runner endpoint (recommended)
-    // If RUNNER_SHARED_SECRET is set, caller must send x-internal-secret matching it.
-    requireInternalSecret(req, "RUNNER_SHARED_SECRET");
-
-    const supabase = supabaseServiceClient();
-
-    const orchestratorUrl = env("ORCHESTRATOR_FUNCTION_URL");
-    const orchestratorSecret = env("ORCHESTRATOR_SHARED_SECRET");
-
-    const limit = clampInt(Deno.env.get("RUNNER_POP_LIMIT"), 1, 200, 20);
-    const maxAttempts = clampInt(
-      Deno.env.get("RUNNER_MAX_ATTEMPTS"),
-      1,
-      50,
-      10,
-    );
-    const concurrency = clampInt(Deno.env.get("RUNNER_CONCURRENCY"), 1, 20, 5);
-
-    const orchestratorTimeoutMs = clampInt(
-      Deno.env.get("RUNNER_ORCHESTRATOR_TIMEOUT_MS"),
-      1000,
-      120_000,
-      15_000,
-    );
-
-    // interval literal safe for postgres (INTERVAL)
-    const retryAfter = Deno.env.get("RUNNER_RETRY_AFTER")?.trim() || "00:10:00";
-
-    // 1) Claim queued jobs (atomic)
-    const jobs = (await rpcJson<TriggerRow[]>(
-      supabase,
-      "complaint_trigger_pop_pending",
-      { p_limit: limit, p_max_attempts: maxAttempts },
-    )) ?? [];
-
-    if (jobs.length === 0) {
-      return json({ ok: true, claimed: 0 }, 200);
-    }
+type HandlerDeps = {
+  supabase?: RpcLike;
+  fetchFn?: typeof fetch; // orchestrator call
+};
 
-    // 2) Process jobs with limited concurrency
-    const results = await mapLimit(
-      jobs,
-      concurrency,
-      (job) =>
-        processClaimedJob({
-          supabase,
-          job,
-          orchestratorUrl,
-          orchestratorSecret,
-          orchestratorTimeoutMs,
-          retryAfter,
-        }),
-    );
-
-    const okCount = results.filter((r) => r.ok).length;
-    const failCount = results.length - okCount;
-
-    return json(
-      {
-        ok: true,
-        claimed: jobs.length,
-        orchestrator_ok: okCount,
-        orchestrator_failed: failCount,
-        sample_failures: results.filter((r) => !r.ok).slice(0, 5),
-      },
-      200,
-    );
-  });
+async function handleCronRunnerRequest(
+  req: Request,
+  deps: HandlerDeps = {},
+): Promise<Response> {
+  // Optional: protect runner endpoint (recommended)
+  // If RUNNER_SHARED_SECRET is set, caller must send x-internal-secret matching it.
+  requireInternalSecret(req, "RUNNER_SHARED_SECRET");
+
+  const supabase = deps.supabase ?? supabaseServiceClient();
+
+  const orchestratorUrl = env("ORCHESTRATOR_FUNCTION_URL");
+  const orchestratorSecret = env("ORCHESTRATOR_SHARED_SECRET");
+
+  const limit = clampInt(Deno.env.get("RUNNER_POP_LIMIT"), 1, 200, 20);
+  const maxAttempts = clampInt(
+    Deno.env.get("RUNNER_MAX_ATTEMPTS"),
+    1,
+    50,
+    10,
+  );
+  const concurrency = clampInt(Deno.env.get("RUNNER_CONCURRENCY"), 1, 20, 5);
+
+  const orchestratorTimeoutMs = clampInt(
+    Deno.env.get("RUNNER_ORCHESTRATOR_TIMEOUT_MS"),
+    1000,
+    120_000,
+    15_000,
+  );
+
+  // interval literal safe for postgres (INTERVAL)
+  const retryAfter = Deno.env.get("RUNNER_RETRY_AFTER")?.trim() || "00:10:00";
+
+  // 1) Claim queued jobs (atomic)
+  const jobs = (await rpcJson<TriggerRow[]>(
+    supabase,
+    "complaint_trigger_pop_pending",
+    { p_limit: limit, p_max_attempts: maxAttempts },
+  )) ?? [];
+
+  if (jobs.length === 0) {
+    return json({ ok: true, claimed: 0 }, 200);
+  }
+
+  // 2) Process jobs with limited concurrency
+  const results = await mapLimit(
+    jobs,
+    concurrency,
+    (job) =>
+      processClaimedJob({
+        supabase,
+        job,
+        orchestratorUrl,
+        orchestratorSecret,
+        orchestratorTimeoutMs,
+        retryAfter,
+        postJson: (args) =>
+          postJsonWithTimeout({ ...args, fetchFn: deps.fetchFn }),
+      }),
+  );
+
+  const okCount = results.filter((r) => r.ok).length;
+  const failCount = results.length - okCount;
+
+  return json(
+    {
+      ok: true,
+      claimed: jobs.length,
+      orchestrator_ok: okCount,
+      orchestrator_failed: failCount,
+      sample_failures: results.filter((r) => !r.ok).slice(0, 5),
+    },
+    200,
+  );
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleCronRunnerRequest(req));
 }
 
 /* ---------------- HTTP helpers ---------------- */
@@ -117,12 +129,13 @@ async function postJsonWithTimeout(params: {
   secret: string;
   payload: unknown;
   timeoutMs: number;
+  fetchFn?: typeof fetch;
 }): Promise<{ ok: boolean; status: number; bodyText: string }> {
   const controller = new AbortController();
   const t = setTimeout(() => controller.abort(), params.timeoutMs);
 
   try {
-    const resp = await fetch(params.url, {
+    const resp = await (params.fetchFn ?? fetch)(params.url, {
       method: "POST",
       signal: controller.signal,
       headers: {
@@ -141,7 +154,7 @@ async function postJsonWithTimeout(params: {
 
 /* ---------------- Supabase + auth ---------------- */
 
-function supabaseServiceClient(): SupabaseClient {
+function supabaseServiceClient(): RpcLike {
   const supabaseUrl = env("SUPABASE_URL");
   const serviceKey = env("SUPABASE_SERVICE_ROLE_KEY");
   return createClient(supabaseUrl, serviceKey, {
@@ -233,6 +246,7 @@ async function processClaimedJob(params: {
     recipient_user_id: params.job.recipient_user_id,
     surface: "weekly_harmony",
     trigger_request_id: params.job.request_id,
+    trigger_attempt: params.job.attempts ?? 1,
   };
 
   const postJson = params.postJson ?? postJsonWithTimeout;
@@ -301,6 +315,7 @@ export {
   ApiError,
   clampInt,
   env,
+  handleCronRunnerRequest,
   mapLimit,
   postJsonWithTimeout,
   processClaimedJob,
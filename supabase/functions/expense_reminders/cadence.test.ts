@@ -0,0 +1,33 @@
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+import { pickStage } from "./cadence.ts";
+
+Deno.test("pickStage warns once within the due-soon window and on the due date", () => {
+  assertEquals(pickStage("2026-03-25", "2026-03-21"), null);
+  assertEquals(pickStage("2026-03-24", "2026-03-21"), {
+    stage: "due_soon",
+    days: 3,
+    key: "due_soon",
+  });
+  assertEquals(pickStage("2026-03-22", "2026-03-21")?.key, "due_soon");
+  assertEquals(pickStage("2026-03-21", "2026-03-21"), {
+    stage: "due_today",
+    days: 0,
+    key: "due_today",
+  });
+});
+
+Deno.test("pickStage escalates weekly once overdue and stops after the last week", () => {
+  assertEquals(pickStage("2026-03-01", "2026-03-07"), null);
+  assertEquals(pickStage("2026-03-01", "2026-03-08"), {
+    stage: "overdue",
+    days: 7,
+    key: "overdue_w1",
+  });
+  assertEquals(pickStage("2026-03-01", "2026-03-14")?.key, "overdue_w1");
+  assertEquals(pickStage("2026-03-01", "2026-03-15")?.key, "overdue_w2");
+  // Crosses a month + DST boundary in local calendars; dates are compared as days
+  assertEquals(pickStage("2026-02-20", "2026-04-23")?.key, "overdue_w8");
+  assertEquals(pickStage("2026-02-20", "2026-04-24"), null);
+  assertEquals(pickStage("not-a-date", "2026-03-21"), null);
+});
@@ -0,0 +1,50 @@
+// supabase/functions/expense_reminders/cadence.ts
+// Escalating reminder cadence for an unpaid share (or an upcoming plan cycle), by due date in
+// the debtor's local calendar:
+// - due_soon: once, within DUE_SOON_DAYS before the due date
+// - due_today: on the due date
+// - overdue: once per full week past due (day 7, 14, ...), up to MAX_OVERDUE_WEEKS
+// Each stage has its own key, so the outbox dedupe key lets it go out at most once.
+
+export type ReminderStage = "due_soon" | "due_today" | "overdue";
+
+export type StagePick = {
+  stage: ReminderStage;
+  days: number; // due_soon: days until due; overdue: days past due; due_today: 0
+  key: string; // due_soon | due_today | overdue_w<N>
+};
+
+export const DUE_SOON_DAYS = 3;
+export const MAX_OVERDUE_WEEKS = 8;
+// Candidate window for expense_reminders_candidates (covers the last overdue week)
+export const LOOKBACK_DAYS = MAX_OVERDUE_WEEKS * 7 + 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Dates are YYYY-MM-DD; null = nothing to send today. */
+export function pickStage(
+  dueDate: string,
+  localDate: string,
+): StagePick | null {
+  const daysUntilDue = daysBetween(localDate, dueDate);
+  if (daysUntilDue === null || daysUntilDue > DUE_SOON_DAYS) return null;
+
+  if (daysUntilDue > 0) {
+    return { stage: "due_soon", days: daysUntilDue, key: "due_soon" };
+  }
+  if (daysUntilDue === 0) {
+    return { stage: "due_today", days: 0, key: "due_today" };
+  }
+
+  const daysOverdue = -daysUntilDue;
+  const weeks = Math.floor(daysOverdue / 7);
+  if (weeks < 1 || weeks > MAX_OVERDUE_WEEKS) return null;
+  return { stage: "overdue", days: daysOverdue, key: `overdue_w${weeks}` };
+}
+
+function daysBetween(from: string, to: string): number | null {
+  const a = Date.parse(`${from}T00:00:00Z`);
+  const b = Date.parse(`${to}T00:00:00Z`);
+  if (Number.isNaN(a) || Number.isNaN(b)) return null;
+  return Math.round((b - a) / DAY_MS);
+}
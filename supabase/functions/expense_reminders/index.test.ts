@@ -0,0 +1,176 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@0.224.0";
+
+import {
+  handleRemindersRequest,
+  parseRunOptions,
+  type Reminder,
+  type ReminderCandidate,
+  type ReminderDeps,
+} from "./index.ts";
+import { internalSecretHarness, recordingRpc } from "../test_support.ts";
+
+function candidate(
+  userId: string,
+  overrides: Partial<ReminderCandidate> = {},
+): ReminderCandidate {
+  return {
+    user_id: userId,
+    locale: null,
+    local_date: "2026-03-21",
+    home_id: "home-1",
+    expense_id: `${userId}-e1`,
+    plan_id: null,
+    description: "Rent",
+    amount_cents: 45000,
+    payer_name: "Ana",
+    due_date: "2026-03-21",
+    created_local_date: "2026-03-01",
+    ...overrides,
+  };
+}
+
+function fakeDeps(pages: ReminderCandidate[][], enqueued = 0) {
+  const { supabase, calls } = recordingRpc((fn) => ({
+    data: fn === "expense_reminders_candidates"
+      ? pages.shift() ?? []
+      : enqueued,
+    error: null,
+  }));
+  const deps: ReminderDeps = {
+    supabase,
+    jobRunId: "job-1",
+  };
+  return { deps, calls };
+}
+
+const { withSecret, request } = internalSecretHarness(
+  "expense_reminders",
+  "NOTIFICATIONS_SHARED_SECRET",
+);
+
+Deno.test("handleRemindersRequest rejects callers without the internal secret", async () => {
+  await withSecret(async () => {
+    const { deps, calls } = fakeDeps([[candidate("u1")]]);
+
+    const res = await handleRemindersRequest(request({}, "nope"), deps);
+
+    assertEquals(res.status, 401);
+    assertEquals(calls, []);
+  });
+});
+
+Deno.test("parseRunOptions only accepts a boolean dry_run", () => {
+  assertEquals(parseRunOptions(undefined), { dryRun: false });
+  assertEquals(parseRunOptions({ dry_run: true }), { dryRun: true });
+  assertThrows(() => parseRunOptions({ dry_run: "yes" }));
+});
+
+Deno.test("reminder run pages debtors and enqueues one keyed reminder per due stage", async () => {
+  await withSecret(async () => {
+    const page = Array.from(
+      { length: 200 },
+      (_, i) =>
+        candidate(`u${String(i).padStart(3, "0")}`, {
+          // Outside every stage (2 days overdue)
+          due_date: "2026-03-19",
+        }),
+    );
+    page[0] = candidate("u000", { due_date: "2026-03-23" });
+    page[1] = candidate("u001", { due_date: "2026-03-07" });
+    // Created today: the expense_owed push already covers "due today"
+    page[2] = candidate("u002", { created_local_date: "2026-03-21" });
+    const { deps, calls } = fakeDeps([
+      page,
+      [
+        candidate("u200", {
+          expense_id: null,
+          plan_id: "plan-1",
+          due_date: "2026-03-24",
+        }),
+        candidate("u200"),
+      ],
+    ], 3);
+
+    const res = await handleRemindersRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    const fetches = calls.filter((c) =>
+      c.fn === "expense_reminders_candidates"
+    );
+    assertEquals(fetches.map((c) => c.args.p_after_user_id), [null, "u199"]);
+    assertEquals(fetches[0].args.p_lookahead_days, 3);
+    assertEquals(fetches[0].args.p_lookback_days, 62);
+
+    const enqueues = calls.filter((c) => c.fn === "expense_reminders_enqueue")
+      .map((c) => c.args.p_reminders as Reminder[]);
+    assertEquals(
+      enqueues.map((batch) => batch.map((r) => r.reminder_key)),
+      [
+        ["expense:u000-e1:due_soon", "expense:u001-e1:overdue_w2"],
+        ["plan:plan-1:2026-03-24:due_soon", "expense:u200-e1:due_today"],
+      ],
+    );
+    assertEquals(enqueues[0][1].payload, {
+      expense_id: "u001-e1",
+      plan_id: null,
+      description: "Rent",
+      stage: "overdue",
+      due_date: "2026-03-07",
+      days: 14,
+      payer_name: "Ana",
+      amount_cents: 45000,
+    });
+    assertEquals(body.candidates, 202);
+    assertEquals(body.debtors, 201);
+    assertEquals(body.notDue, 197);
+    assertEquals(body.coveredByOwed, 1);
+    assertEquals(body.dueSoon, 2);
+    assertEquals(body.dueToday, 1);
+    assertEquals(body.overdue, 1);
+    assertEquals(body.enqueued, 6);
+    assertEquals(body.previews, undefined);
+  });
+});
+
+Deno.test("dry_run enqueues nothing and previews the localized push", async () => {
+  await withSecret(async () => {
+    const { deps, calls } = fakeDeps([[
+      candidate("u1", { locale: "es", due_date: "2026-03-14" }),
+    ]]);
+
+    const res = await handleRemindersRequest(request({ dry_run: true }), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(
+      calls.filter((c) => c.fn === "expense_reminders_enqueue"),
+      [],
+    );
+    assertEquals(body.enqueued, 0);
+    assertEquals(body.previews, [{
+      user_id: "u1",
+      reminder_key: "expense:u1-e1:overdue_w1",
+      stage: "overdue",
+      body: "Ana sigue esperando tu parte de “Rent” (1 semana de retraso).",
+    }]);
+  });
+});
+
+Deno.test("a candidates error fails the run with what was done so far", async () => {
+  await withSecret(async () => {
+    const deps: ReminderDeps = {
+      supabase: {
+        rpc: () => Promise.resolve({ data: null, error: { message: "boom" } }),
+      },
+      jobRunId: "job-1",
+    };
+
+    const res = await handleRemindersRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 500);
+    assertEquals(body.error, "boom");
+    assertEquals(body.enqueued, 0);
+  });
+});
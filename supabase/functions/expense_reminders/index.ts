@@ -0,0 +1,387 @@
+// supabase/functions/expense_reminders/index.ts
+// Expense + recurring-plan reminders (cron: hourly).
+// - expense_reminders_candidates pages debtors whose local time is past their preferred
+//   notification time: unpaid shares of active expenses (due date = start_date, the cycle date for
+//   plan cycles) and upcoming cycles of plans they owe into (due date = next_cycle_date).
+// - cadence.ts picks the stage; expense_reminders_enqueue writes expense_reminder events with a
+//   per-expense (or per plan cycle) + stage dedupe key. notifications_dispatch renders them per
+//   locale and pushes them like any other event (opt-out, quiet hours, frequency cap).
+// - A cycle generated today already pushed expense_owed when its splits were written, so
+//   due_today is skipped for expenses created on the debtor's local today.
+// - Paying (expenses_pay_my_due) skips pending reminders and drops the share from the candidates.
+// Internal-only: callers send x-internal-secret (NOTIFICATIONS_SHARED_SECRET, fail-closed).
+// Optional JSON body:
+// - dry_run: true returns the reminders that would be enqueued (with rendered copy) without enqueuing
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
+import {
+  type NotificationPayloads,
+  renderEvent,
+} from "../notifications_dispatch/events.ts";
+import {
+  DUE_SOON_DAYS,
+  LOOKBACK_DAYS,
+  pickStage,
+  type ReminderStage,
+} from "./cadence.ts";
+
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+export type ReminderCandidate = {
+  user_id: string;
+  locale: string | null;
+  local_date: string;
+  home_id: string;
+  expense_id: string | null;
+  plan_id: string | null;
+  description: string;
+  amount_cents: number | null;
+  payer_name: string | null;
+  due_date: string;
+  created_local_date: string | null;
+};
+
+export type Reminder = {
+  user_id: string;
+  home_id: string;
+  expense_id: string | null;
+  plan_id: string | null;
+  reminder_key: string;
+  payload: NotificationPayloads["expense_reminder"] & {
+    amount_cents: number | null;
+  };
+};
+
+export type ReminderRunOptions = {
+  dryRun: boolean;
+};
+
+export type ReminderDeps = {
+  supabase: RpcLike;
+  jobRunId: string;
+};
+
+export type ReminderPreview = {
+  user_id: string;
+  reminder_key: string;
+  stage: ReminderStage;
+  body: string | null;
+};
+
+type ReminderSummary = {
+  candidates: number;
+  debtors: number;
+  notDue: number;
+  coveredByOwed: number;
+  dueSoon: number;
+  dueToday: number;
+  overdue: number;
+  enqueued: number;
+  previews: ReminderPreview[];
+};
+
+const PAGE_SIZE = 200;
+const MAX_CONTENT_LENGTH = 4_096;
+const MAX_DRY_RUN_PREVIEWS = 500;
+
+// ---------------------------------------------------------------------------
+// Main entry
+// ---------------------------------------------------------------------------
+
+export async function handleRemindersRequest(
+  req: Request,
+  deps: Partial<ReminderDeps> = {},
+): Promise<Response> {
+  try {
+    requireInternalSecret(req);
+  } catch (error) {
+    const message = (error as Error).message;
+    return json({ error: message }, message === "unauthorized" ? 401 : 500);
+  }
+
+  let options: ReminderRunOptions;
+  try {
+    options = parseRunOptions(await readBody(req));
+  } catch (error) {
+    return json({ error: (error as Error).message }, 400);
+  }
+
+  let supabase = deps.supabase;
+  if (!supabase) {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseKey) {
+      return json(
+        { error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" },
+        500,
+      );
+    }
+
+    // Internal-only edge function: OK to use service role, gated by x-internal-secret.
+    supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+  }
+
+  const run: ReminderDeps = {
+    supabase,
+    jobRunId: deps.jobRunId ?? crypto.randomUUID(),
+  };
+  const startedAt = Date.now();
+
+  const summary = newSummary();
+  try {
+    await runReminders(run, options, summary);
+
+    const durationMs = Date.now() - startedAt;
+    const { previews, ...counts } = summary;
+    console.log("[expense-reminders] done", {
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      durationMs,
+    });
+
+    return json({
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      ...(options.dryRun ? { previews } : {}),
+      durationMs,
+    });
+  } catch (error) {
+    console.error("expense-reminders job error", {
+      jobRunId: run.jobRunId,
+      error,
+    });
+    const { previews: _previews, ...counts } = summary;
+    return json(
+      {
+        jobRunId: run.jobRunId,
+        ...options,
+        ...counts,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message ?? "unknown_error",
+      },
+      500,
+    );
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleRemindersRequest(req));
+}
+
+// ---------------------------------------------------------------------------
+// Run loop (pages of debtors)
+// ---------------------------------------------------------------------------
+
+function newSummary(): ReminderSummary {
+  return {
+    candidates: 0,
+    debtors: 0,
+    notDue: 0,
+    coveredByOwed: 0,
+    dueSoon: 0,
+    dueToday: 0,
+    overdue: 0,
+    enqueued: 0,
+    previews: [],
+  };
+}
+
+// Fills `summary` as it goes so a failed page still reports what was done
+export async function runReminders(
+  deps: ReminderDeps,
+  options: ReminderRunOptions,
+  summary: ReminderSummary = newSummary(),
+): Promise<ReminderSummary> {
+  let after: string | null = null;
+
+  while (true) {
+    const candidates = await fetchCandidates(deps, after);
+    if (candidates.length === 0) break;
+
+    const debtors = new Set(candidates.map((c) => c.user_id));
+    summary.candidates += candidates.length;
+    summary.debtors += debtors.size;
+
+    const reminders = buildReminders(candidates, summary);
+
+    if (options.dryRun) {
+      for (const reminder of reminders) {
+        if (summary.previews.length >= MAX_DRY_RUN_PREVIEWS) break;
+        summary.previews.push(preview(reminder, candidates));
+      }
+    } else if (reminders.length > 0) {
+      summary.enqueued += await enqueue(deps, reminders);
+    }
+
+    // Pages hold every row of up to PAGE_SIZE debtors
+    if (debtors.size < PAGE_SIZE) break;
+    after = candidates[candidates.length - 1].user_id;
+  }
+
+  return summary;
+}
+
+export function buildReminders(
+  candidates: ReminderCandidate[],
+  summary: Pick<
+    ReminderSummary,
+    "notDue" | "coveredByOwed" | "dueSoon" | "dueToday" | "overdue"
+  >,
+): Reminder[] {
+  const reminders: Reminder[] = [];
+
+  for (const c of candidates) {
+    const pick = pickStage(c.due_date, c.local_date);
+    if (!pick) {
+      summary.notDue += 1;
+      continue;
+    }
+    if (
+      pick.stage === "due_today" && c.expense_id &&
+      c.created_local_date === c.local_date
+    ) {
+      summary.coveredByOwed += 1;
+      continue;
+    }
+
+    if (pick.stage === "due_soon") summary.dueSoon += 1;
+    else if (pick.stage === "due_today") summary.dueToday += 1;
+    else summary.overdue += 1;
+
+    reminders.push({
+      user_id: c.user_id,
+      home_id: c.home_id,
+      expense_id: c.expense_id,
+      plan_id: c.plan_id,
+      reminder_key: c.expense_id
+        ? `expense:${c.expense_id}:${pick.key}`
+        : `plan:${c.plan_id}:${c.due_date}:${pick.key}`,
+      payload: {
+        expense_id: c.expense_id,
+        plan_id: c.plan_id,
+        description: c.description,
+        stage: pick.stage,
+        due_date: c.due_date,
+        days: pick.days,
+        payer_name: c.payer_name,
+        amount_cents: c.amount_cents,
+      },
+    });
+  }
+
+  return reminders;
+}
+
+async function fetchCandidates(
+  deps: ReminderDeps,
+  after: string | null,
+): Promise<ReminderCandidate[]> {
+  const { data, error } = await deps.supabase.rpc(
+    "expense_reminders_candidates",
+    {
+      p_limit: PAGE_SIZE,
+      p_after_user_id: after,
+      p_lookahead_days: DUE_SOON_DAYS,
+      p_lookback_days: LOOKBACK_DAYS,
+    },
+  );
+
+  if (error) {
+    console.error("expense_reminders_candidates error", error);
+    // Fail the job so it's visible (retriable by scheduler)
+    throw new Error(error.message);
+  }
+
+  return (data as ReminderCandidate[] | null) ?? [];
+}
+
+async function enqueue(
+  deps: ReminderDeps,
+  reminders: Reminder[],
+): Promise<number> {
+  const { data, error } = await deps.supabase.rpc(
+    "expense_reminders_enqueue",
+    { p_reminders: reminders },
+  );
+
+  if (error) {
+    console.error("expense_reminders_enqueue error", error);
+    throw new Error(error.message);
+  }
+
+  return Number(data ?? 0);
+}
+
+// What notifications_dispatch will render for this reminder
+function preview(
+  reminder: Reminder,
+  candidates: ReminderCandidate[],
+): ReminderPreview {
+  const locale = candidates.find((c) => c.user_id === reminder.user_id)
+    ?.locale;
+  const rendered = renderEvent(
+    { kind: "expense_reminder", payload: reminder.payload },
+    locale,
+  );
+  return {
+    user_id: reminder.user_id,
+    reminder_key: reminder.reminder_key,
+    stage: reminder.payload.stage,
+    body: rendered?.body ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Request parsing + auth
+// ---------------------------------------------------------------------------
+
+export function parseRunOptions(body: unknown): ReminderRunOptions {
+  const b = (body && typeof body === "object" ? body : {}) as Record<
+    string,
+    unknown
+  >;
+
+  if (b.dry_run !== undefined && typeof b.dry_run !== "boolean") {
+    throw new Error("invalid_dry_run");
+  }
+
+  return { dryRun: b.dry_run === true };
+}
+
+// Same shared secret as the notification jobs (fail-closed)
+export function requireInternalSecret(req: Request) {
+  const expected = Deno.env.get("NOTIFICATIONS_SHARED_SECRET");
+  if (!expected) throw new Error("Missing env NOTIFICATIONS_SHARED_SECRET");
+  const got = req.headers.get("x-internal-secret");
+  if (got !== expected) throw new Error("unauthorized");
+}
+
+async function readBody(req: Request): Promise<unknown> {
+  const cl = Number(req.headers.get("content-length") ?? "0");
+  if (Number.isFinite(cl) && cl > MAX_CONTENT_LENGTH) {
+    throw new Error("payload_too_large");
+  }
+  const text = await req.text();
+  if (!text.trim()) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("invalid_json");
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
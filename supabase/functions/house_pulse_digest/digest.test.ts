@@ -0,0 +1,80 @@
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+import { type PreparedPulse, renderDigest } from "./digest.ts";
+
+function pulse(overrides: Partial<PreparedPulse> = {}): PreparedPulse {
+  return {
+    home_id: "h1",
+    iso_week_year: 2026,
+    iso_week: 3,
+    contract_version: "v1",
+    pulse_state: "sunny_calm",
+    weather_display: "sunny",
+    member_count: 3,
+    reflection_count: 2,
+    care_present: true,
+    friction_present: false,
+    complexity_present: false,
+    label: {
+      title_key: "pulse.sunny_calm.title",
+      summary_key: "pulse.sunny_calm.summary",
+      image_key: "pulse_sunny_calm",
+    },
+    recipients: [],
+    ...overrides,
+  };
+}
+
+Deno.test("renderDigest renders text and HTML for the pulse state in the recipient's locale", () => {
+  const digest = renderDigest(pulse(), {
+    user_id: "u1",
+    locale: "en-GB",
+    display_name: "Sam",
+    email: "sam@example.com",
+  })!;
+
+  assertEquals(digest.template_id, "house_pulse_digest_v1");
+  assertEquals(digest.locale, "en");
+  assertEquals(digest.to, "sam@example.com");
+  assertEquals(digest.subject, "Your house pulse for week 2026-W03");
+  assertEquals(digest.deepLink, "/house-pulse");
+  assert(digest.text.startsWith("Hi Sam,\n"));
+  assert(digest.text.includes("Sunny and calm"));
+  assert(digest.html.includes("<h2>Sunny and calm</h2>"));
+});
+
+Deno.test("renderDigest escapes names in HTML, falls back without a name, and sets rtl for Arabic", () => {
+  const escaped = renderDigest(pulse(), {
+    user_id: "u1",
+    locale: "en",
+    display_name: "<b>Sam</b>",
+    email: null,
+  })!;
+  assert(escaped.html.includes("Hi &lt;b&gt;Sam&lt;/b&gt;,"));
+  assertEquals(escaped.to, null);
+
+  const anonymous = renderDigest(pulse({ pulse_state: "rainy_supported" }), {
+    user_id: "u2",
+    locale: "es",
+    display_name: "  ",
+    email: null,
+  })!;
+  assert(anonymous.text.startsWith("Hola:\n"));
+  assert(anonymous.text.includes("Lluvioso, pero con apoyo"));
+
+  const arabic = renderDigest(pulse(), {
+    user_id: "u3",
+    locale: "ar",
+    display_name: null,
+    email: null,
+  })!;
+  assert(arabic.html.includes('dir="rtl"'));
+});
+
+Deno.test("renderDigest returns null for a pulse state it has no copy for", () => {
+  const digest = renderDigest(
+    pulse({ pulse_state: "aurora" as PreparedPulse["pulse_state"] }),
+    { user_id: "u1", locale: "en", display_name: null, email: null },
+  );
+  assertEquals(digest, null);
+});
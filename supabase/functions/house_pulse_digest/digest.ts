@@ -0,0 +1,305 @@
+// supabase/functions/house_pulse_digest/digest.ts
+// Email-ready weekly house pulse digest (plain text + HTML) for one member.
+// - Input is one house_pulse_digest_prepare() snapshot + recipient; copy is keyed by pulse_state
+//   and mirrors the app strings behind house_pulse_labels.title_key / summary_key.
+// - Share-safe like the card: home-level state only, no counts per person, no names of who did or
+//   did not reflect. The greeting uses the recipient's own display name.
+// - template_id is `house_pulse_digest_<version>`; bump the version when the wording changes.
+// - No transport here: the caller decides whether and how to mail it (see index.ts).
+
+import { resolveLocale } from "../notifications_daily/templates.ts";
+
+export type PulseState =
+  | "forming"
+  | "sunny_calm"
+  | "sunny_bumpy"
+  | "partly_supported"
+  | "cloudy_steady"
+  | "cloudy_tense"
+  | "rainy_supported"
+  | "rainy_unsupported"
+  | "thunderstorm";
+
+export type DigestRecipient = {
+  user_id: string;
+  locale: string | null;
+  display_name: string | null;
+  email: string | null;
+};
+
+// house_pulse_digest_prepare() result
+export type PreparedPulse = {
+  home_id: string;
+  iso_week_year: number;
+  iso_week: number;
+  contract_version: string;
+  pulse_state: PulseState;
+  weather_display: string | null;
+  member_count: number;
+  reflection_count: number;
+  care_present: boolean;
+  friction_present: boolean;
+  complexity_present: boolean;
+  label: {
+    title_key: string | null;
+    summary_key: string | null;
+    image_key: string | null;
+  };
+  recipients: DigestRecipient[];
+};
+
+export type RenderedDigest = {
+  template_id: string;
+  locale: string;
+  to: string | null;
+  subject: string;
+  text: string;
+  html: string;
+  deepLink: string;
+};
+
+type DigestCopy = {
+  subject: string; // {week}
+  greeting: string; // {name}
+  greetingAnonymous: string;
+  intro: string; // {week}
+  cta: string;
+  footer: string;
+  states: Record<PulseState, { title: string; summary: string }>;
+};
+
+const TEMPLATE_VERSION = "v1";
+export const DIGEST_DEEP_LINK = "/house-pulse";
+const MAX_NAME_LENGTH = 40;
+
+const COPY: Record<string, DigestCopy> = {
+  en: {
+    subject: "Your house pulse for week {week}",
+    greeting: "Hi {name},",
+    greetingAnonymous: "Hi there,",
+    intro: "Here's how home felt in week {week}:",
+    cta: "Open Kinly to see this week's pulse and add your reflection.",
+    footer: "You're getting this because you're a member of a home on Kinly.",
+    states: {
+      forming: {
+        title: "Still forming",
+        summary: "Not enough reflections yet to read the week.",
+      },
+      sunny_calm: {
+        title: "Sunny and calm",
+        summary: "A light week with plenty of care going around.",
+      },
+      sunny_bumpy: {
+        title: "Sunny with a few bumps",
+        summary: "Mostly bright, with a little friction along the way.",
+      },
+      partly_supported: {
+        title: "Partly sunny, supported",
+        summary: "A mixed week where people looked out for each other.",
+      },
+      cloudy_steady: {
+        title: "Cloudy but steady",
+        summary: "A quiet, even week at home.",
+      },
+      cloudy_tense: {
+        title: "Cloudy and a bit tense",
+        summary: "Some tension in the air. A check-in could help.",
+      },
+      rainy_supported: {
+        title: "Rainy, but supported",
+        summary: "A heavier week, with care showing up when it mattered.",
+      },
+      rainy_unsupported: {
+        title: "Rainy",
+        summary: "A heavier week. A kind word could go a long way.",
+      },
+      thunderstorm: {
+        title: "Stormy",
+        summary: "Someone had a rough week. Be gentle with each other.",
+      },
+    },
+  },
+  es: {
+    subject: "El pulso de tu casa de la semana {week}",
+    greeting: "Hola {name}:",
+    greetingAnonymous: "Hola:",
+    intro: "Así se sintió el hogar en la semana {week}:",
+    cta: "Abre Kinly para ver el pulso de esta semana y añadir tu reflexión.",
+    footer: "Recibes esto porque eres miembro de un hogar en Kinly.",
+    states: {
+      forming: {
+        title: "Aún se está formando",
+        summary: "Todavía no hay suficientes reflexiones para leer la semana.",
+      },
+      sunny_calm: {
+        title: "Soleado y tranquilo",
+        summary: "Una semana ligera y con mucho cuidado mutuo.",
+      },
+      sunny_bumpy: {
+        title: "Soleado con algunos baches",
+        summary: "Mayormente luminosa, con un poco de fricción.",
+      },
+      partly_supported: {
+        title: "Parcialmente soleado, con apoyo",
+        summary: "Una semana variada en la que se cuidaron entre todos.",
+      },
+      cloudy_steady: {
+        title: "Nublado pero estable",
+        summary: "Una semana tranquila y pareja en casa.",
+      },
+      cloudy_tense: {
+        title: "Nublado y algo tenso",
+        summary: "Hay algo de tensión en el aire. Conversar podría ayudar.",
+      },
+      rainy_supported: {
+        title: "Lluvioso, pero con apoyo",
+        summary: "Una semana más pesada, con apoyo cuando hizo falta.",
+      },
+      rainy_unsupported: {
+        title: "Lluvioso",
+        summary:
+          "Una semana más pesada. Una palabra amable puede ayudar mucho.",
+      },
+      thunderstorm: {
+        title: "Tormentoso",
+        summary: "Alguien tuvo una semana difícil. Sean amables entre ustedes.",
+      },
+    },
+  },
+  ar: {
+    subject: "نبض بيتك للأسبوع {week}",
+    greeting: "مرحبًا {name}،",
+    greetingAnonymous: "مرحبًا،",
+    intro: "هكذا كان حال البيت في الأسبوع {week}:",
+    cta: "افتح Kinly لترى نبض هذا الأسبوع وتضيف تأملك.",
+    footer: "تصلك هذه الرسالة لأنك عضو في بيت على Kinly.",
+    states: {
+      forming: {
+        title: "لا يزال يتشكّل",
+        summary: "لا توجد تأملات كافية بعد لقراءة الأسبوع.",
+      },
+      sunny_calm: {
+        title: "مشمس وهادئ",
+        summary: "أسبوع خفيف مليء بالاهتمام المتبادل.",
+      },
+      sunny_bumpy: {
+        title: "مشمس مع بعض المطبات",
+        summary: "أسبوع مشرق في معظمه مع قليل من الاحتكاك.",
+      },
+      partly_supported: {
+        title: "مشمس جزئيًا مع دعم",
+        summary: "أسبوع متنوع اعتنى فيه الجميع ببعضهم.",
+      },
+      cloudy_steady: {
+        title: "غائم لكن مستقر",
+        summary: "أسبوع هادئ ومتوازن في البيت.",
+      },
+      cloudy_tense: {
+        title: "غائم وفيه بعض التوتر",
+        summary: "هناك بعض التوتر في الأجواء. قد يساعد الحديث معًا.",
+      },
+      rainy_supported: {
+        title: "ممطر لكن مع دعم",
+        summary: "أسبوع أثقل، وحضر الاهتمام عندما كان مهمًا.",
+      },
+      rainy_unsupported: {
+        title: "ممطر",
+        summary: "أسبوع أثقل. كلمة طيبة قد تصنع فرقًا كبيرًا.",
+      },
+      thunderstorm: {
+        title: "عاصف",
+        summary: "مرّ أحدهم بأسبوع صعب. كونوا لطفاء مع بعضكم.",
+      },
+    },
+  },
+};
+
+export function renderDigest(
+  pulse: PreparedPulse,
+  recipient: DigestRecipient,
+): RenderedDigest | null {
+  const locale = resolveLocale(recipient.locale);
+  const copy = COPY[locale] ?? COPY.en;
+  const state = copy.states[pulse.pulse_state];
+  if (!state) return null; // pulse_state from a newer contract
+
+  const week = `${pulse.iso_week_year}-W${
+    String(pulse.iso_week).padStart(2, "0")
+  }`;
+  const name = clip(recipient.display_name);
+  const greeting = name
+    ? fill(copy.greeting, { name })
+    : copy.greetingAnonymous;
+  const subject = fill(copy.subject, { week });
+  const intro = fill(copy.intro, { week });
+
+  const text = [
+    greeting,
+    "",
+    intro,
+    "",
+    state.title,
+    state.summary,
+    "",
+    copy.cta,
+    "",
+    "--",
+    copy.footer,
+  ].join("\n");
+
+  const dir = locale === "ar" ? "rtl" : "ltr";
+  const html = [
+    `<!doctype html>`,
+    `<html lang="${locale}" dir="${dir}">`,
+    `<body>`,
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    `<h2>${escapeHtml(state.title)}</h2>`,
+    `<p>${escapeHtml(state.summary)}</p>`,
+    `<p>${escapeHtml(copy.cta)}</p>`,
+    `<hr>`,
+    `<p><small>${escapeHtml(copy.footer)}</small></p>`,
+    `</body>`,
+    `</html>`,
+  ].join("\n");
+
+  return {
+    template_id: `house_pulse_digest_${TEMPLATE_VERSION}`,
+    locale,
+    to: recipient.email,
+    subject,
+    text,
+    html,
+    deepLink: DIGEST_DEEP_LINK,
+  };
+}
+
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(
+    /\{(\w+)\}/g,
+    (match, key: string) => values[key] ?? match,
+  );
+}
+
+function clip(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  const graphemes = [...segmenter.segment(trimmed)];
+  if (graphemes.length <= MAX_NAME_LENGTH) return trimmed;
+  return graphemes.slice(0, MAX_NAME_LENGTH).map((s) => s.segment).join("") +
+    "…";
+}
+
+const segmenter = new Intl.Segmenter("en", { granularity: "grapheme" });
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch]);
+}
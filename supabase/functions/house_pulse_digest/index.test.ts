@@ -0,0 +1,178 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@0.224.0";
+
+import {
+  type DigestDeps,
+  type DigestMailer,
+  handleDigestRequest,
+  parseRunOptions,
+} from "./index.ts";
+import type { PreparedPulse } from "./digest.ts";
+import { internalSecretHarness, recordingRpc } from "../test_support.ts";
+
+function prepared(
+  homeId: string,
+  overrides: Partial<PreparedPulse> = {},
+): PreparedPulse {
+  return {
+    home_id: homeId,
+    iso_week_year: 2026,
+    iso_week: 12,
+    contract_version: "v1",
+    pulse_state: "cloudy_steady",
+    weather_display: "cloudy",
+    member_count: 2,
+    reflection_count: 2,
+    care_present: false,
+    friction_present: false,
+    complexity_present: false,
+    label: {
+      title_key: "pulse.cloudy_steady.title",
+      summary_key: "pulse.cloudy_steady.summary",
+      image_key: "pulse_cloudy_steady",
+    },
+    recipients: [
+      {
+        user_id: `${homeId}-u1`,
+        locale: "es",
+        display_name: "Ana",
+        email: "ana@example.com",
+      },
+      {
+        user_id: `${homeId}-u2`,
+        locale: null,
+        display_name: null,
+        email: null,
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function fakeDeps(
+  homePages: string[][],
+  pulses: Record<string, PreparedPulse | null | "error">,
+  mailer: DigestMailer | null = null,
+) {
+  const { supabase, calls } = recordingRpc((fn, args) => {
+    if (fn === "house_pulse_digest_homes") {
+      const page = homePages.shift() ?? [];
+      return { data: page.map((home_id) => ({ home_id })), error: null };
+    }
+    const pulse = pulses[args.p_home_id as string];
+    return pulse === "error"
+      ? { data: null, error: { message: "PULSE_LABEL_MISSING" } }
+      : { data: pulse ?? null, error: null };
+  });
+  const deps: DigestDeps = {
+    supabase,
+    mailer,
+    jobRunId: "job-1",
+  };
+  return { deps, calls };
+}
+
+const { withSecret, request } = internalSecretHarness(
+  "house_pulse_digest",
+  "NOTIFICATIONS_SHARED_SECRET",
+);
+
+Deno.test("handleDigestRequest rejects callers without the internal secret", async () => {
+  await withSecret(async () => {
+    const { deps, calls } = fakeDeps([["h1"]], {});
+
+    const res = await handleDigestRequest(request({}, "nope"), deps);
+
+    assertEquals(res.status, 401);
+    assertEquals(calls, []);
+  });
+});
+
+Deno.test("parseRunOptions defaults to the current week and validates an explicit one", () => {
+  assertEquals(parseRunOptions(undefined), {
+    dryRun: false,
+    isoWeekYear: null,
+    isoWeek: null,
+  });
+  assertEquals(
+    parseRunOptions({ dry_run: true, iso_week_year: 2026, iso_week: 12 }),
+    { dryRun: true, isoWeekYear: 2026, isoWeek: 12 },
+  );
+  assertThrows(() => parseRunOptions({ iso_week: 12 }));
+  assertThrows(() => parseRunOptions({ iso_week_year: 2026, iso_week: 54 }));
+  assertThrows(() => parseRunOptions({ iso_week_year: "2026", iso_week: 1 }));
+  assertThrows(() => parseRunOptions({ dry_run: "yes" }));
+});
+
+Deno.test("digest run pages homes, skips forming and failed homes, and mails rendered digests", async () => {
+  await withSecret(async () => {
+    const mailed: string[] = [];
+    const mailer: DigestMailer = {
+      send: (digest) => {
+        mailed.push(`${digest.to}:${digest.subject}`);
+        return Promise.resolve({ ok: true });
+      },
+    };
+    const page = Array.from({ length: 100 }, (_, i) => `h${i}`);
+    const { deps, calls } = fakeDeps(
+      [page, ["h100"]],
+      {
+        h0: prepared("h0"),
+        h1: prepared("h1", { pulse_state: "forming", recipients: [] }),
+        h2: "error",
+        h100: prepared("h100", { recipients: [] }),
+      },
+      mailer,
+    );
+
+    const res = await handleDigestRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(
+      calls.filter((c) => c.fn === "house_pulse_digest_homes").map((c) =>
+        c.args.p_after_home_id
+      ),
+      [null, "h99"],
+    );
+    assertEquals(body.homes, 101);
+    assertEquals(body.homesReady, 2);
+    assertEquals(body.homesForming, 1);
+    assertEquals(body.homesFailed, 1);
+    assertEquals(body.recipients, 2);
+    assertEquals(body.pushQueued, 2);
+    assertEquals(body.digestsRendered, 2);
+    assertEquals(body.digestsSent, 1);
+    assertEquals(body.digestsNoAddress, 1);
+    assertEquals(mailed, [
+      "ana@example.com:El pulso de tu casa de la semana 2026-W12",
+    ]);
+    assertEquals(body.previews, undefined);
+  });
+});
+
+Deno.test("dry_run forwards the week, enqueues nothing and previews push + digest", async () => {
+  await withSecret(async () => {
+    const { deps, calls } = fakeDeps([["h1"]], { h1: prepared("h1") });
+
+    const res = await handleDigestRequest(
+      request({ dry_run: true, iso_week_year: 2026, iso_week: 12 }),
+      deps,
+    );
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    const prepare = calls.find((c) => c.fn === "house_pulse_digest_prepare")!;
+    assertEquals(prepare.args, {
+      p_home_id: "h1",
+      p_iso_week_year: 2026,
+      p_iso_week: 12,
+      p_dry_run: true,
+    });
+    assertEquals(body.pushQueued, 0);
+    assertEquals(body.previews.length, 2);
+    assertEquals(body.previews[0].push.template_id, "house_pulse_weekly_v1");
+    assertEquals(body.previews[0].push.deepLink, "/house-pulse");
+    assertEquals(body.previews[0].digest.locale, "es");
+    assertEquals(body.previews[1].digest.locale, "en");
+  });
+});
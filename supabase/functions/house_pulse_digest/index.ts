@@ -0,0 +1,401 @@
+// supabase/functions/house_pulse_digest/index.ts
+// Weekly house pulse digest (cron: Sunday 17:00 UTC).
+// - Pages active homes (house_pulse_digest_homes, keyset by home id) and, per home, calls
+//   house_pulse_digest_prepare: computes the ISO week (_iso_week_utc), returns the snapshot and the
+//   members who have not read it yet, and enqueues their house_pulse_weekly push in
+//   notification_events. notifications_dispatch delivers it (localized copy, deep link to the
+//   pulse, kind opt-out, frequency cap); the dedupe key keeps it to one push per member per week.
+// - Forming pulses are skipped: nothing to show yet.
+// - Each recipient also gets an email-ready digest (digest.ts). It is only mailed when a mailer
+//   is wired in deps; otherwise it is rendered and counted (and returned in dry-run previews).
+// - A home that fails to compute is logged and skipped; the rest of the run continues.
+// Internal-only: callers send x-internal-secret (NOTIFICATIONS_SHARED_SECRET, fail-closed).
+// Optional JSON body:
+// - dry_run: true computes and renders without enqueuing pushes or mailing
+// - iso_week_year + iso_week: digest a specific week instead of the current one
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
+import { renderEvent } from "../notifications_dispatch/events.ts";
+import {
+  type DigestRecipient,
+  type PreparedPulse,
+  renderDigest,
+  type RenderedDigest,
+} from "./digest.ts";
+
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+export type MailResult = { ok: true } | { ok: false; reason: string };
+
+export type DigestMailer = {
+  send: (digest: RenderedDigest & { to: string }) => Promise<MailResult>;
+};
+
+export type DigestRunOptions = {
+  dryRun: boolean;
+  isoWeekYear: number | null;
+  isoWeek: number | null;
+};
+
+export type DigestDeps = {
+  supabase: RpcLike;
+  mailer: DigestMailer | null;
+  jobRunId: string;
+};
+
+export type DigestPreview = {
+  home_id: string;
+  user_id: string;
+  pulse_state: string;
+  push: { template_id: string; body: string; deepLink: string } | null;
+  digest: RenderedDigest | null;
+};
+
+type DigestSummary = {
+  homes: number;
+  homesReady: number;
+  homesForming: number;
+  homesFailed: number;
+  recipients: number;
+  pushQueued: number;
+  digestsRendered: number;
+  digestsSent: number;
+  digestsFailed: number;
+  digestsNoAddress: number;
+  previews: DigestPreview[];
+};
+
+const PAGE_SIZE = 100;
+const MAX_CONTENT_LENGTH = 4_096;
+const MAX_DRY_RUN_PREVIEWS = 500;
+
+// ---------------------------------------------------------------------------
+// Main entry
+// ---------------------------------------------------------------------------
+
+export async function handleDigestRequest(
+  req: Request,
+  deps: Partial<DigestDeps> = {},
+): Promise<Response> {
+  try {
+    requireInternalSecret(req);
+  } catch (error) {
+    const message = (error as Error).message;
+    return json({ error: message }, message === "unauthorized" ? 401 : 500);
+  }
+
+  let options: DigestRunOptions;
+  try {
+    options = parseRunOptions(await readBody(req));
+  } catch (error) {
+    return json({ error: (error as Error).message }, 400);
+  }
+
+  let supabase = deps.supabase;
+  if (!supabase) {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseKey) {
+      return json(
+        { error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" },
+        500,
+      );
+    }
+
+    // Internal-only edge function: OK to use service role, gated by x-internal-secret.
+    supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+  }
+
+  const run: DigestDeps = {
+    supabase,
+    // No mail provider is wired yet; digests are rendered for when one is
+    mailer: deps.mailer ?? null,
+    jobRunId: deps.jobRunId ?? crypto.randomUUID(),
+  };
+  const startedAt = Date.now();
+
+  const summary = newSummary();
+  try {
+    await runDigest(run, options, summary);
+
+    const durationMs = Date.now() - startedAt;
+    const { previews, ...counts } = summary;
+    console.log("[house-pulse-digest] done", {
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      durationMs,
+    });
+
+    return json({
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      ...(options.dryRun ? { previews } : {}),
+      durationMs,
+    });
+  } catch (error) {
+    console.error("house-pulse-digest job error", {
+      jobRunId: run.jobRunId,
+      error,
+    });
+    const { previews: _previews, ...counts } = summary;
+    return json(
+      {
+        jobRunId: run.jobRunId,
+        ...options,
+        ...counts,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message ?? "unknown_error",
+      },
+      500,
+    );
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleDigestRequest(req));
+}
+
+// ---------------------------------------------------------------------------
+// Run loop (keyset pages of homes)
+// ---------------------------------------------------------------------------
+
+function newSummary(): DigestSummary {
+  return {
+    homes: 0,
+    homesReady: 0,
+    homesForming: 0,
+    homesFailed: 0,
+    recipients: 0,
+    pushQueued: 0,
+    digestsRendered: 0,
+    digestsSent: 0,
+    digestsFailed: 0,
+    digestsNoAddress: 0,
+    previews: [],
+  };
+}
+
+// Fills `summary` as it goes so a failed page still reports what was done
+export async function runDigest(
+  deps: DigestDeps,
+  options: DigestRunOptions,
+  summary: DigestSummary = newSummary(),
+): Promise<DigestSummary> {
+  let after: string | null = null;
+
+  while (true) {
+    const homeIds = await fetchHomes(deps, after);
+    if (homeIds.length === 0) break;
+
+    for (const homeId of homeIds) {
+      summary.homes += 1;
+      await digestHome(deps, options, homeId, summary);
+    }
+
+    if (homeIds.length < PAGE_SIZE) break;
+    after = homeIds[homeIds.length - 1];
+  }
+
+  return summary;
+}
+
+async function fetchHomes(
+  deps: DigestDeps,
+  after: string | null,
+): Promise<string[]> {
+  const { data, error } = await deps.supabase.rpc("house_pulse_digest_homes", {
+    p_after_home_id: after,
+    p_limit: PAGE_SIZE,
+  });
+
+  if (error) {
+    console.error("house_pulse_digest_homes error", error);
+    // Fail the job so it's visible (retriable by scheduler)
+    throw new Error(error.message);
+  }
+
+  return ((data as { home_id: string }[] | null) ?? []).map((r) => r.home_id);
+}
+
+// ---------------------------------------------------------------------------
+// One home: compute + enqueue pushes (SQL) -> render + mail digests
+// ---------------------------------------------------------------------------
+
+export async function digestHome(
+  deps: DigestDeps,
+  options: DigestRunOptions,
+  homeId: string,
+  summary: DigestSummary,
+) {
+  const { data, error } = await deps.supabase.rpc(
+    "house_pulse_digest_prepare",
+    {
+      p_home_id: homeId,
+      p_iso_week_year: options.isoWeekYear,
+      p_iso_week: options.isoWeek,
+      p_dry_run: options.dryRun,
+    },
+  );
+
+  if (error) {
+    // One home's compute error (e.g. missing label) must not stop the others
+    console.error("house_pulse_digest_prepare error", { homeId, error });
+    summary.homesFailed += 1;
+    return;
+  }
+
+  const pulse = data as PreparedPulse | null;
+  if (!pulse) return; // deactivated or emptied since the page was read
+
+  if (pulse.pulse_state === "forming") {
+    summary.homesForming += 1;
+    return;
+  }
+
+  summary.homesReady += 1;
+  const recipients = pulse.recipients ?? [];
+  summary.recipients += recipients.length;
+  if (!options.dryRun) summary.pushQueued += recipients.length;
+
+  for (const recipient of recipients) {
+    const digest = renderDigest(pulse, recipient);
+    if (digest) summary.digestsRendered += 1;
+
+    if (options.dryRun) {
+      if (summary.previews.length < MAX_DRY_RUN_PREVIEWS) {
+        summary.previews.push(preview(pulse, recipient, digest));
+      }
+      continue;
+    }
+
+    if (!digest || !deps.mailer) continue;
+    if (!digest.to) {
+      summary.digestsNoAddress += 1;
+      continue;
+    }
+
+    const result = await deps.mailer.send({ ...digest, to: digest.to });
+    if (result.ok) {
+      summary.digestsSent += 1;
+    } else {
+      summary.digestsFailed += 1;
+      console.error("house-pulse-digest mail failed", {
+        jobRunId: deps.jobRunId,
+        homeId,
+        userId: recipient.user_id,
+        reason: result.reason,
+      });
+    }
+  }
+}
+
+// The push the dispatcher will render for this recipient
+function preview(
+  pulse: PreparedPulse,
+  recipient: DigestRecipient,
+  digest: RenderedDigest | null,
+): DigestPreview {
+  const push = renderEvent(
+    {
+      kind: "house_pulse_weekly",
+      payload: {
+        iso_week_year: pulse.iso_week_year,
+        iso_week: pulse.iso_week,
+        pulse_state: pulse.pulse_state,
+      },
+    },
+    recipient.locale,
+  );
+
+  return {
+    home_id: pulse.home_id,
+    user_id: recipient.user_id,
+    pulse_state: pulse.pulse_state,
+    push: push
+      ? {
+        template_id: push.template_id,
+        body: push.body,
+        deepLink: push.deepLink,
+      }
+      : null,
+    digest,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Request parsing + auth
+// ---------------------------------------------------------------------------
+
+export function parseRunOptions(body: unknown): DigestRunOptions {
+  const b = (body && typeof body === "object" ? body : {}) as Record<
+    string,
+    unknown
+  >;
+
+  if (b.dry_run !== undefined && typeof b.dry_run !== "boolean") {
+    throw new Error("invalid_dry_run");
+  }
+
+  const year = b.iso_week_year ?? null;
+  const week = b.iso_week ?? null;
+  if ((year === null) !== (week === null)) {
+    throw new Error("iso_week_year_and_iso_week_required_together");
+  }
+  if (
+    year !== null &&
+    (!Number.isInteger(year) || (year as number) < 2000 ||
+      (year as number) > 2100)
+  ) {
+    throw new Error("invalid_iso_week_year");
+  }
+  if (
+    week !== null &&
+    (!Number.isInteger(week) || (week as number) < 1 || (week as number) > 53)
+  ) {
+    throw new Error("invalid_iso_week");
+  }
+
+  return {
+    dryRun: b.dry_run === true,
+    isoWeekYear: year as number | null,
+    isoWeek: week as number | null,
+  };
+}
+
+// Same shared secret as the notification jobs (fail-closed)
+export function requireInternalSecret(req: Request) {
+  const expected = Deno.env.get("NOTIFICATIONS_SHARED_SECRET");
+  if (!expected) throw new Error("Missing env NOTIFICATIONS_SHARED_SECRET");
+  const got = req.headers.get("x-internal-secret");
+  if (got !== expected) throw new Error("unauthorized");
+}
+
+async function readBody(req: Request): Promise<unknown> {
+  const cl = Number(req.headers.get("content-length") ?? "0");
+  if (Number.isFinite(cl) && cl > MAX_CONTENT_LENGTH) {
+    throw new Error("payload_too_large");
+  }
+  const text = await req.text();
+  if (!text.trim()) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("invalid_json");
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
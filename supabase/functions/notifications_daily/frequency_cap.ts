@@ -0,0 +1,38 @@
+// supabase/functions/notifications_daily/frequency_cap.ts
+// Rolling frequency cap shared by every push sender (daily + notifications_dispatch).
+// recent_sends comes from the candidate / claim RPCs: sent notifications of any kind in the
+// last windowHours (a fan-out to several devices counts once).
+
+export type FrequencyCap = {
+  maxSends: number;
+  windowHours: number;
+};
+
+const DEFAULT_FREQUENCY_CAP: FrequencyCap = { maxSends: 3, windowHours: 24 };
+
+// NOTIFICATIONS_FREQUENCY_CAP sends per NOTIFICATIONS_FREQUENCY_CAP_HOURS (rolling)
+export function readFrequencyCap(
+  getEnv: (name: string) => string | undefined,
+): FrequencyCap {
+  const parse = (name: string, fallback: number) => {
+    const n = Number(getEnv(name));
+    return Number.isInteger(n) && n > 0 ? n : fallback;
+  };
+  return {
+    maxSends: parse(
+      "NOTIFICATIONS_FREQUENCY_CAP",
+      DEFAULT_FREQUENCY_CAP.maxSends,
+    ),
+    windowHours: parse(
+      "NOTIFICATIONS_FREQUENCY_CAP_HOURS",
+      DEFAULT_FREQUENCY_CAP.windowHours,
+    ),
+  };
+}
+
+export function isOverFrequencyCap(
+  candidate: { recent_sends: number | null },
+  cap: FrequencyCap,
+): boolean {
+  return (candidate.recent_sends ?? 0) >= cap.maxSends;
+}
@@ -1,8 +1,24 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@0.224.0";
+
 import {
   buildMessage,
+  type DailyDeps,
+  dedupeTokens,
+  groupByUser,
+  handleDailyRequest,
+  isOverFrequencyCap,
   isPermanentTokenError,
+  parseRunOptions,
+  readFrequencyCap,
   truncateReason,
 } from "./index.ts";
+import {
+  createPushTransports,
+  type PushMessage,
+  type SendResult,
+} from "./transports.ts";
+import { isConfigError, MAX_SEND_ATTEMPTS, retryDelayMs } from "./retry.ts";
+import { internalSecretHarness, recordingRpc } from "../test_support.ts";
 
 Deno.test("buildMessage picks locale, language fallback, then default", () => {
   const enMessage = buildMessage("en");
@@ -48,3 +64,400 @@ Deno.test("truncateReason is grapheme-safe (emoji + ZWJ sequences)", () => {
   // (Exact JS string length varies due to surrogate pairs, so don't assert length.)
   console.assert(truncated.length > 1);
 });
+
+Deno.test("readFrequencyCap falls back to 3 per 24h on missing or bad values", () => {
+  const cap = readFrequencyCap(() => undefined);
+  console.assert(cap.maxSends === 3 && cap.windowHours === 24);
+
+  const custom = readFrequencyCap((name) =>
+    ({
+      NOTIFICATIONS_FREQUENCY_CAP: "2",
+      NOTIFICATIONS_FREQUENCY_CAP_HOURS: "-4",
+    })[name]
+  );
+  console.assert(custom.maxSends === 2 && custom.windowHours === 24);
+});
+
+Deno.test("isOverFrequencyCap defers once recent sends reach the cap", () => {
+  const cap = { maxSends: 2, windowHours: 24 };
+  console.assert(!isOverFrequencyCap({ recent_sends: 1 }, cap));
+  console.assert(isOverFrequencyCap({ recent_sends: 2 }, cap));
+  console.assert(!isOverFrequencyCap({ recent_sends: null }, cap));
+});
+
+function candidate(i: number, overrides: Record<string, unknown> = {}) {
+  const id = String(i).padStart(4, "0");
+  return {
+    user_id: `u-${id}`,
+    locale: "en",
+    timezone: "UTC",
+    token_id: `t-${id}`,
+    token: `tok-${id}`,
+    provider: "fcm",
+    platform: "ios",
+    local_date: "2026-03-22",
+    content: null,
+    recent_sends: 0,
+    ...overrides,
+  };
+}
+
+function fakeDeps(
+  pages: unknown[][],
+  sendResults: SendResult[] = [],
+  retryPages: unknown[][] = [],
+) {
+  const { supabase, calls } = recordingRpc((fn, _args, recorded) => ({
+    data: fn === "notifications_daily_candidates"
+      ? pages.shift() ?? []
+      : fn === "notifications_claim_send_retries"
+      ? retryPages.shift() ?? []
+      : fn === "notifications_reserve_send"
+      ? `send-${recorded.length}`
+      : null,
+    error: null,
+  }));
+  const sent: string[] = [];
+  const messages: PushMessage[] = [];
+  const transports = createPushTransports();
+  transports.fcm = {
+    ...transports.fcm,
+    send: (token, message) => {
+      sent.push(token);
+      messages.push(message);
+      return Promise.resolve(sendResults.shift() ?? { ok: true });
+    },
+  };
+  const deps: DailyDeps = {
+    supabase,
+    transports,
+    frequencyCap: { maxSends: 3, windowHours: 24 },
+    jobRunId: "job-1",
+  };
+  return { deps, calls, sent, messages };
+}
+
+const { withSecret, request } = internalSecretHarness(
+  "notifications_daily",
+  "NOTIFICATIONS_SHARED_SECRET",
+);
+
+Deno.test("handleDailyRequest rejects callers without the internal secret", async () => {
+  await withSecret(async () => {
+    const { deps, calls } = fakeDeps([[candidate(1)]]);
+
+    const res = await handleDailyRequest(request({}, "nope"), deps);
+
+    assertEquals(res.status, 401);
+    assertEquals(calls, []);
+  });
+});
+
+Deno.test("parseRunOptions defaults to one shard and validates shard bounds", () => {
+  assertEquals(parseRunOptions(undefined), {
+    dryRun: false,
+    shardIndex: 0,
+    shardCount: 1,
+  });
+  assertEquals(
+    parseRunOptions({ dry_run: true, shard_index: 2, shard_count: 4 }),
+    {
+      dryRun: true,
+      shardIndex: 2,
+      shardCount: 4,
+    },
+  );
+  assertThrows(() => parseRunOptions({ shard_index: 4, shard_count: 4 }));
+  assertThrows(() => parseRunOptions({ shard_count: 0 }));
+  assertThrows(() => parseRunOptions({ shard_count: "2" }));
+  assertThrows(() => parseRunOptions({ dry_run: "yes" }));
+});
+
+Deno.test("dry_run previews copy per candidate without reserving or pushing", async () => {
+  await withSecret(async () => {
+    const { deps, calls, sent } = fakeDeps([[
+      candidate(1, {
+        content: {
+          has_content: true,
+          chores_due: 2,
+          gratitude_unread: 0,
+          expenses_owed: 0,
+          expense_payer: null,
+        },
+      }),
+      candidate(2, { recent_sends: 3 }),
+    ]]);
+
+    const res = await handleDailyRequest(request({ dry_run: true }), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(sent, []);
+    assertEquals(calls.map((c) => c.fn), ["notifications_daily_candidates"]);
+    assertEquals(body.wouldSend, 1);
+    assertEquals(body.deferredFrequencyCap, 1);
+    assertEquals(body.previews[0].outcome, "would_send");
+    assertEquals(body.previews[0].template_id, "daily_chores_due_v1");
+    assertEquals(body.previews[1].outcome, "deferred_frequency_cap");
+  });
+});
+
+Deno.test("candidates are paged by (user_id, token_id) cursor within the requested shard", async () => {
+  await withSecret(async () => {
+    const fullPage = Array.from({ length: 200 }, (_, i) => candidate(i));
+    const { deps, calls, sent } = fakeDeps([fullPage, [candidate(200)]]);
+
+    const res = await handleDailyRequest(
+      request({ shard_index: 1, shard_count: 3 }),
+      deps,
+    );
+    const body = await res.json();
+
+    const pages = calls.filter((c) =>
+      c.fn === "notifications_daily_candidates"
+    );
+    assertEquals(pages.length, 2);
+    assertEquals(pages[0].args.p_after_user_id, null);
+    assertEquals(pages[1].args.p_after_user_id, "u-0199");
+    assertEquals(pages[1].args.p_after_token_id, "t-0199");
+    assertEquals(pages[1].args.p_shard_index, 1);
+    assertEquals(pages[1].args.p_shard_count, 3);
+    assertEquals(sent.length, 201);
+    assertEquals(body.sent, 201);
+  });
+});
+
+Deno.test("retryDelayMs backs off exponentially, caps, and honours Retry-After", () => {
+  assertEquals(retryDelayMs(1), 5 * 60_000);
+  assertEquals(retryDelayMs(3), 20 * 60_000);
+  assertEquals(retryDelayMs(10), 2 * 60 * 60_000);
+  assertEquals(retryDelayMs(1, 30 * 60_000), 30 * 60_000);
+  assertEquals(retryDelayMs(3, 1_000), 20 * 60_000);
+});
+
+Deno.test("transient failures queue a retry until the attempt budget is spent", async () => {
+  await withSecret(async () => {
+    const { deps, calls } = fakeDeps(
+      [[candidate(1)]],
+      [{
+        ok: false,
+        permanent: false,
+        reason: "http_429:quota",
+        retryAfterMs: 60 * 60_000,
+      }, { ok: false, permanent: false, reason: "http_503:unavailable" }],
+      [[{
+        ...candidate(2),
+        send_id: "send-retry",
+        attempts: MAX_SEND_ATTEMPTS,
+      }]],
+    );
+
+    const before = Date.now();
+    const res = await handleDailyRequest(request({}), deps);
+    const body = await res.json();
+
+    const queued = calls.find((c) =>
+      c.fn === "notifications_schedule_send_retry"
+    );
+    const nextRetryAt = Date.parse(String(queued?.args.p_next_retry_at));
+    assertEquals(nextRetryAt >= before + 60 * 60_000, true);
+    assertEquals(queued?.args.p_error, "http_429:quota");
+
+    // Last allowed attempt fails for good instead of re-queueing
+    assertEquals(
+      calls.find((c) => c.fn === "notifications_update_send_status")?.args,
+      {
+        p_send_id: "send-retry",
+        p_status: "failed",
+        p_error: "http_503:unavailable",
+      },
+    );
+    assertEquals(body.retryQueued, 1);
+    assertEquals(body.retried, 1);
+    assertEquals(body.failed, 2);
+  });
+});
+
+Deno.test("retry sweep re-sends claimed reservations without reserving again", async () => {
+  await withSecret(async () => {
+    const { deps, calls, sent, messages } = fakeDeps([], [], [[{
+      ...candidate(7),
+      send_id: "send-retry",
+      attempts: 2,
+    }]]);
+
+    const res = await handleDailyRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(sent, ["tok-0007"]);
+    assertEquals(messages[0].sendId, "send-retry");
+    assertEquals(
+      calls.some((c) => c.fn === "notifications_reserve_send"),
+      false,
+    );
+    assertEquals(
+      calls.find((c) => c.fn === "notifications_mark_send_success")?.args
+        .p_send_id,
+      "send-retry",
+    );
+    assertEquals(body.sent, 1);
+  });
+});
+
+Deno.test("circuit breaker stops the run once the provider keeps failing", async () => {
+  await withSecret(async () => {
+    const down: SendResult = {
+      ok: false,
+      permanent: false,
+      reason: "http_503:unavailable",
+    };
+    const fullPage = Array.from({ length: 200 }, (_, i) => candidate(i));
+    const { deps, calls, sent } = fakeDeps(
+      [fullPage, fullPage],
+      Array.from({ length: 400 }, () => down),
+    );
+
+    const res = await handleDailyRequest(request({}), deps);
+    const body = await res.json();
+
+    // One concurrent slice goes out, then the loop stops
+    assertEquals(sent.length, 20);
+    assertEquals(body.circuitOpen, true);
+    assertEquals(
+      calls.filter((c) => c.fn === "notifications_daily_candidates").length,
+      1,
+    );
+    assertEquals(
+      calls.some((c) => c.fn === "notifications_claim_send_retries"),
+      false,
+    );
+  });
+});
+
+Deno.test("config errors fail the send without a retry or a breaker hit", async () => {
+  await withSecret(async () => {
+    const unconfigured: SendResult = {
+      ok: false,
+      permanent: false,
+      reason: "missing_service_account",
+    };
+    const fullPage = Array.from({ length: 200 }, (_, i) => candidate(i));
+    const { deps, calls, sent } = fakeDeps(
+      [fullPage],
+      Array.from({ length: 200 }, () => unconfigured),
+    );
+
+    const res = await handleDailyRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(sent.length, 200);
+    assertEquals(body.circuitOpen, false);
+    assertEquals(body.retryQueued, 0);
+    assertEquals(
+      calls.some((c) => c.fn === "notifications_schedule_send_retry"),
+      false,
+    );
+    assertEquals(
+      calls.find((c) => c.fn === "notifications_update_send_status")?.args
+        .p_error,
+      "missing_service_account",
+    );
+    assertEquals(
+      calls.some((c) => c.fn === "notifications_mark_token_status"),
+      false,
+    );
+  });
+});
+
+Deno.test("isConfigError covers missing transport secrets and unknown providers", () => {
+  for (
+    const reason of [
+      "missing_apns_config",
+      "missing_vapid_config",
+      "missing_service_account",
+      "unsupported_provider:sms",
+    ]
+  ) {
+    assertEquals(isConfigError(reason), true, reason);
+  }
+  for (
+    const reason of [
+      "http_503:unavailable",
+      "network_error:reset",
+      "fcm_auth_failed",
+    ]
+  ) {
+    assertEquals(isConfigError(reason), false, reason);
+  }
+});
+
+Deno.test("groupByUser keeps a user's devices together and dedupeTokens drops repeats", () => {
+  const rows = [
+    candidate(1),
+    candidate(1, { token_id: "t-0001b", token: "tok-tablet" }),
+    candidate(2),
+  ];
+  assertEquals(groupByUser(rows).map((g) => g.length), [2, 1]);
+
+  const { unique, duplicates } = dedupeTokens([
+    candidate(1),
+    candidate(1, { token_id: "t-dup", token: " tok-0001 " }),
+    candidate(1, { token_id: "t-web", provider: "webpush" }),
+  ]);
+  assertEquals(unique.map((d) => d.token_id), ["t-0001", "t-web"]);
+  assertEquals(duplicates.map((d) => d.token_id), ["t-dup"]);
+});
+
+Deno.test("daily fan-out sends to every unique device and reaches the user if any succeeds", async () => {
+  await withSecret(async () => {
+    const phone = candidate(1, { token_id: "t-phone", token: "tok-phone" });
+    const tablet = candidate(1, { token_id: "t-tablet", token: "tok-tablet" });
+    const twice = candidate(1, { token_id: "t-twice", token: "tok-phone" });
+    const { deps, calls, sent } = fakeDeps(
+      [[phone, tablet, twice]],
+      [
+        { ok: false, permanent: false, reason: "http_503:unavailable" },
+        { ok: true },
+      ],
+    );
+
+    const res = await handleDailyRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(sent, ["tok-phone", "tok-tablet"]);
+    assertEquals(
+      calls.filter((c) => c.fn === "notifications_reserve_send").map((c) =>
+        c.args.p_token_id
+      ),
+      ["t-phone", "t-tablet"],
+    );
+    assertEquals(body.users, 1);
+    assertEquals(body.usersReached, 1);
+    assertEquals(body.sent, 1);
+    assertEquals(body.retryQueued, 1);
+    assertEquals(body.duplicateTokens, 1);
+  });
+});
+
+Deno.test("a user's devices split across pages are handled as one user", async () => {
+  await withSecret(async () => {
+    const fullPage = Array.from({ length: 199 }, (_, i) => candidate(i));
+    fullPage.push(candidate(199, { token_id: "t-0199a" }));
+    const { deps, calls, sent } = fakeDeps([
+      fullPage,
+      [candidate(199, { token_id: "t-0199b", token: "tok-0199-tablet" })],
+    ]);
+
+    const res = await handleDailyRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(body.users, 200);
+    assertEquals(body.usersReached, 200);
+    assertEquals(sent.length, 201);
+    assertEquals(
+      calls.filter((c) => c.fn === "notifications_daily_candidates")[1].args
+        .p_after_token_id,
+      "t-0199a",
+    );
+  });
+});
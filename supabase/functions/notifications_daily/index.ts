@@ -1,8 +1,45 @@
 // supabase/functions/notification_daily/index.ts
+// Internal-only: callers send x-internal-secret (NOTIFICATIONS_SHARED_SECRET, fail-closed).
+// Optional JSON body:
+// - dry_run: true returns what each candidate would get (template + copy) without reserving or pushing
+// - shard_index / shard_count: split users by hash(user_id) so several invocations share one run
+// Candidates are paged with a (user_id, token_id) keyset cursor: users sent mid-run drop out of the
+// candidate set, so OFFSET paging would skip the users behind them.
+// Candidates are grouped per user (a page cut mid-user is finished with the next page): the copy,
+// content and frequency cap are decided once per user, identical tokens are sent to once, and every
+// active device gets its own reservation + push. The user counts as reached when any device succeeds.
+// Transient push failures are queued for retry (retry.ts); after the candidate pages, a sweep
+// (notifications_claim_send_retries) re-attempts the due ones. A circuit breaker stops both loops
+// when the push provider is clearly down.
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
 import {
-  createClient,
-  type SupabaseClient,
-} from "npm:@supabase/supabase-js@2.48.0";
+  createPushTransports,
+  getPushTransport,
+  type PushMessage,
+  type PushProvider,
+  type PushTransport,
+  type SendResult,
+} from "./transports.ts";
+import { renderDailyMessage, type TodayContent } from "./templates.ts";
+import {
+  type FrequencyCap,
+  isOverFrequencyCap,
+  readFrequencyCap,
+} from "./frequency_cap.ts";
+import {
+  type CircuitBreaker,
+  createCircuitBreaker,
+  isConfigError,
+  MAX_SEND_ATTEMPTS,
+  retryDelayMs,
+} from "./retry.ts";
+
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
 
 type Candidate = {
   user_id: string;
@@ -10,151 +47,367 @@ type Candidate = {
   timezone: string;
   token_id: string;
   token: string;
+  provider: string | null; // device_tokens.provider: fcm | apns | webpush
+  platform: string | null;
   local_date: string;
+  content: TodayContent | null; // today_content_summary; picks the copy
+  recent_sends: number | null; // sent notifications (all kinds) in the cap window
 };
 
-type SendResult =
-  | { ok: true }
-  | { ok: false; permanent: boolean; reason: string };
+// notifications_claim_send_retries row: the reservation is already held (send_id)
+type RetryCandidate = Candidate & { send_id: string; attempts: number };
+
+type Cursor = { user_id: string; token_id: string };
+
+export type DeviceOutcome =
+  | "sent"
+  | "failed"
+  | "expired"
+  | "retry_queued"
+  | "already_reserved"
+  | "duplicate_token";
 
-type ServiceAccount = {
-  client_email: string;
-  private_key: string;
-  token_uri?: string;
-  project_id?: string;
+export type DailyRunOptions = {
+  dryRun: boolean;
+  shardIndex: number;
+  shardCount: number;
 };
 
-const TEMPLATES: Record<string, string> = {
-  en: "Your day is ready ✨ Tap to see what's waiting.",
-  es: "Tu dia esta listo ✨ Toca para ver lo que te espera.",
-  ar: "يومك جاهز ✨ اضغط لمعرفة ما بانتظارك.",
+export type DailyDeps = {
+  supabase: RpcLike;
+  transports: Record<PushProvider, PushTransport>;
+  frequencyCap: FrequencyCap;
+  jobRunId: string;
+};
+
+export type DryRunPreview = {
+  user_id: string;
+  token_id: string;
+  provider: string | null;
+  outcome:
+    | "would_send"
+    | "skipped_no_content"
+    | "deferred_frequency_cap"
+    | "duplicate_token";
+  template_id: string | null;
+  title: string | null;
+  body: string | null;
 };
 
-const DEFAULT_LOCALE = "en";
 const PAGE_SIZE = 200;
 const BATCH_CONCURRENCY = 20;
-const SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+const DEEP_LINK = "/today";
 const ERROR_REASON_MAX_LENGTH = 512;
+const MAX_SHARD_COUNT = 64;
+const MAX_DRY_RUN_PREVIEWS = 500;
+const MAX_CONTENT_LENGTH = 4_096;
+const MAX_RETRY_PAGES = 5;
 
-// ---------------------------------------------------------------------------
-// Logging helpers (safe / non-sensitive)
-// ---------------------------------------------------------------------------
-
-function logFcmContext(
-  context: string,
-  details: {
-    projectId?: string;
-    clientEmail?: string;
-    token?: string;
-    tokenId?: string;
-    userId?: string;
-  },
-) {
-  console.log("[FCM CONTEXT]", {
-    context,
-    projectId: details.projectId,
-    clientEmail: details.clientEmail,
-    token_prefix: details.token ? details.token.slice(0, 12) + "…" : undefined,
-    token_id: details.tokenId,
-    user_id: details.userId,
-    at: new Date().toISOString(),
-  });
-}
+// One registry per isolate so auth tokens are cached across runs
+const PUSH_TRANSPORTS = createPushTransports();
 
 // ---------------------------------------------------------------------------
 // Main entry
 // ---------------------------------------------------------------------------
 
-if (import.meta.main) {
-  Deno.serve(async (_req: Request) => {
+export async function handleDailyRequest(
+  req: Request,
+  deps: Partial<DailyDeps> = {},
+): Promise<Response> {
+  try {
+    requireInternalSecret(req);
+  } catch (error) {
+    const message = (error as Error).message;
+    return json({ error: message }, message === "unauthorized" ? 401 : 500);
+  }
+
+  let options: DailyRunOptions;
+  try {
+    options = parseRunOptions(await readBody(req));
+  } catch (error) {
+    return json({ error: (error as Error).message }, 400);
+  }
+
+  let supabase = deps.supabase;
+  if (!supabase) {
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
     if (!supabaseUrl || !supabaseKey) {
-      return new Response(
-        JSON.stringify({
-          error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY",
-        }),
-        { status: 500, headers: { "Content-Type": "application/json" } },
+      return json(
+        { error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" },
+        500,
       );
     }
 
-    const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey, {
+    // Internal-only edge function: OK to use service role, gated by x-internal-secret.
+    supabase = createClient(supabaseUrl, supabaseKey, {
       auth: { autoRefreshToken: false, persistSession: false },
     });
+  }
 
-    const jobRunId = crypto.randomUUID();
-    let offset = 0;
-    let totalSent = 0;
-    let totalFailed = 0;
-    let totalExpired = 0;
-    const startedAt = Date.now();
+  const run: DailyDeps = {
+    supabase,
+    transports: deps.transports ?? PUSH_TRANSPORTS,
+    frequencyCap: deps.frequencyCap ??
+      readFrequencyCap((name) => Deno.env.get(name)),
+    jobRunId: deps.jobRunId ?? crypto.randomUUID(),
+  };
+  const startedAt = Date.now();
+
+  console.log("[notifications-daily] start", {
+    jobRunId: run.jobRunId,
+    pageSize: PAGE_SIZE,
+    batchConcurrency: BATCH_CONCURRENCY,
+    frequencyCap: run.frequencyCap,
+    ...options,
+    at: new Date().toISOString(),
+  });
 
-    console.log("[notifications-daily] start", {
-      jobRunId,
-      pageSize: PAGE_SIZE,
-      batchConcurrency: BATCH_CONCURRENCY,
-      at: new Date().toISOString(),
+  const summary = newSummary();
+  try {
+    await runDaily(run, options, summary);
+
+    const durationMs = Date.now() - startedAt;
+    const { previews, ...counts } = summary;
+    console.log("[notifications-daily] done", {
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      durationMs,
     });
 
-    try {
-      while (true) {
-        const batch = await fetchCandidates(supabase, PAGE_SIZE, offset);
-        if (batch.length === 0) break;
-
-        console.log("[notifications-daily] fetched batch", {
-          jobRunId,
-          offset,
-          batchSize: batch.length,
-        });
-
-        const { sent, failed, expired } = await processBatch(
-          supabase,
-          batch,
-          jobRunId,
-        );
-
-        totalSent += sent;
-        totalFailed += failed;
-        totalExpired += expired;
-
-        offset += batch.length;
-      }
-
-      const durationMs = Date.now() - startedAt;
-      console.log("[notifications-daily] done", {
-        jobRunId,
-        sent: totalSent,
-        failed: totalFailed,
-        tokensExpired: totalExpired,
-        durationMs,
-      });
+    return json({
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      ...(options.dryRun ? { previews } : {}),
+      durationMs,
+    });
+  } catch (error) {
+    console.error("notifications-daily job error", {
+      jobRunId: run.jobRunId,
+      error,
+    });
+    const { previews: _previews, ...counts } = summary;
+    return json(
+      {
+        jobRunId: run.jobRunId,
+        ...options,
+        ...counts,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message ?? "unknown_error",
+      },
+      500,
+    );
+  }
+}
 
-      return new Response(
-        JSON.stringify({
-          jobRunId,
-          sent: totalSent,
-          failed: totalFailed,
-          tokensExpired: totalExpired,
-          durationMs,
-        }),
-        { status: 200, headers: { "Content-Type": "application/json" } },
-      );
-    } catch (error) {
-      console.error("notifications-daily job error", { jobRunId, error });
-      const durationMs = Date.now() - startedAt;
-      return new Response(
-        JSON.stringify({
-          jobRunId,
-          sent: totalSent,
-          failed: totalFailed,
-          tokensExpired: totalExpired,
-          durationMs,
-          error: (error as Error).message ?? "unknown_error",
-        }),
-        { status: 500, headers: { "Content-Type": "application/json" } },
+if (import.meta.main) {
+  Deno.serve((req) => handleDailyRequest(req));
+}
+
+// ---------------------------------------------------------------------------
+// Run loop (keyset pages)
+// ---------------------------------------------------------------------------
+
+type DailySummary = {
+  candidates: number;
+  users: number;
+  usersReached: number;
+  sent: number;
+  failed: number;
+  tokensExpired: number;
+  skippedNoContent: number;
+  deferredFrequencyCap: number;
+  retryQueued: number;
+  retried: number;
+  duplicateTokens: number;
+  alreadyReserved: number;
+  circuitOpen: boolean;
+  wouldSend: number;
+  previews: DryRunPreview[];
+};
+
+function newSummary(): DailySummary {
+  return {
+    candidates: 0,
+    users: 0,
+    usersReached: 0,
+    sent: 0,
+    failed: 0,
+    tokensExpired: 0,
+    skippedNoContent: 0,
+    deferredFrequencyCap: 0,
+    retryQueued: 0,
+    retried: 0,
+    duplicateTokens: 0,
+    alreadyReserved: 0,
+    circuitOpen: false,
+    wouldSend: 0,
+    previews: [],
+  };
+}
+
+// Fills `summary` as it goes so a failed page still reports what was done
+export async function runDaily(
+  deps: DailyDeps,
+  options: DailyRunOptions,
+  summary: DailySummary = newSummary(),
+): Promise<DailySummary> {
+  let cursor: Cursor | null = null;
+  let carry: Candidate[] = [];
+  const breaker = createCircuitBreaker();
+
+  while (true) {
+    const batch = await fetchCandidates(deps, PAGE_SIZE, cursor, options);
+    const rows = carry.concat(batch);
+    if (rows.length === 0) break;
+
+    console.log("[notifications-daily] fetched batch", {
+      jobRunId: deps.jobRunId,
+      after: cursor,
+      batchSize: batch.length,
+    });
+
+    summary.candidates += batch.length;
+
+    const fullPage = batch.length === PAGE_SIZE;
+    const users = groupByUser(rows);
+    // The last user of a full page may have more devices on the next page
+    carry = fullPage && users.length > 1 ? users.pop()! : [];
+    summary.users += users.length;
+
+    if (options.dryRun) {
+      previewBatch(users, deps.frequencyCap, summary);
+    } else {
+      addCounts(
+        summary,
+        await processBatch(
+          users,
+          breaker,
+          (devices) => handleUser(deps, devices, breaker),
+        ),
       );
     }
+
+    if (breaker.open || !fullPage) break;
+    const last = batch[batch.length - 1];
+    cursor = { user_id: last.user_id, token_id: last.token_id };
+  }
+
+  if (!options.dryRun && !breaker.open) {
+    await sweepRetries(deps, options, breaker, summary);
+  }
+
+  summary.circuitOpen = breaker.open;
+  if (breaker.open) {
+    console.error("[notifications-daily] circuit open, run stopped early", {
+      jobRunId: deps.jobRunId,
+    });
+  }
+
+  return summary;
+}
+
+async function sweepRetries(
+  deps: DailyDeps,
+  options: DailyRunOptions,
+  breaker: CircuitBreaker,
+  summary: DailySummary,
+) {
+  // Bounded: claimed rows leave the queue, but failures may re-queue with a short Retry-After
+  for (let page = 0; page < MAX_RETRY_PAGES && !breaker.open; page++) {
+    const batch = await claimRetries(deps, PAGE_SIZE, options);
+    if (batch.length === 0) break;
+
+    summary.retried += batch.length;
+    addCounts(
+      summary,
+      await processBatch(
+        batch,
+        breaker,
+        (retry) => handleRetry(deps, retry, breaker),
+      ),
+    );
+
+    if (batch.length < PAGE_SIZE) break;
+  }
+}
+
+function addCounts(summary: DailySummary, counts: BatchCounts) {
+  summary.usersReached += counts.reached;
+  summary.sent += counts.sent;
+  summary.failed += counts.failed;
+  summary.tokensExpired += counts.expired;
+  summary.skippedNoContent += counts.skipped;
+  summary.deferredFrequencyCap += counts.deferred;
+  summary.retryQueued += counts.queued;
+  summary.duplicateTokens += counts.duplicates;
+  summary.alreadyReserved += counts.alreadyReserved;
+}
+
+// ---------------------------------------------------------------------------
+// Request parsing + auth
+// ---------------------------------------------------------------------------
+
+export function parseRunOptions(body: unknown): DailyRunOptions {
+  const b = (body && typeof body === "object" ? body : {}) as Record<
+    string,
+    unknown
+  >;
+
+  const shardCount = b.shard_count ?? 1;
+  const shardIndex = b.shard_index ?? 0;
+  if (
+    !Number.isInteger(shardCount) || (shardCount as number) < 1 ||
+    (shardCount as number) > MAX_SHARD_COUNT
+  ) {
+    throw new Error("invalid_shard_count");
+  }
+  if (
+    !Number.isInteger(shardIndex) || (shardIndex as number) < 0 ||
+    (shardIndex as number) >= (shardCount as number)
+  ) {
+    throw new Error("invalid_shard_index");
+  }
+  if (b.dry_run !== undefined && typeof b.dry_run !== "boolean") {
+    throw new Error("invalid_dry_run");
+  }
+
+  return {
+    dryRun: b.dry_run === true,
+    shardIndex: shardIndex as number,
+    shardCount: shardCount as number,
+  };
+}
+
+// Fail-closed: a full run pushes to every eligible user, so a missing secret is an error
+export function requireInternalSecret(req: Request) {
+  const expected = Deno.env.get("NOTIFICATIONS_SHARED_SECRET");
+  if (!expected) throw new Error("Missing env NOTIFICATIONS_SHARED_SECRET");
+  const got = req.headers.get("x-internal-secret");
+  if (got !== expected) throw new Error("unauthorized");
+}
+
+async function readBody(req: Request): Promise<unknown> {
+  const cl = Number(req.headers.get("content-length") ?? "0");
+  if (Number.isFinite(cl) && cl > MAX_CONTENT_LENGTH) {
+    throw new Error("payload_too_large");
+  }
+  const text = await req.text();
+  if (!text.trim()) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("invalid_json");
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
   });
 }
 
@@ -162,118 +415,387 @@ if (import.meta.main) {
 // Helpers: candidates + messages
 // ---------------------------------------------------------------------------
 
+// Generic copy for a locale (no content summary)
 export function buildMessage(locale: string | null | undefined): string {
-  const normalized = (locale ?? "").toLowerCase();
-  if (TEMPLATES[normalized]) return TEMPLATES[normalized];
-  const language = normalized.split("-")[0];
-  if (language && TEMPLATES[language]) return TEMPLATES[language];
-  return TEMPLATES[DEFAULT_LOCALE];
+  return renderDailyMessage(locale, null)!.body;
 }
 
 async function fetchCandidates(
-  supabase: SupabaseClient,
+  deps: DailyDeps,
   limit: number,
-  offset: number,
+  after: Cursor | null,
+  options: DailyRunOptions,
 ): Promise<Candidate[]> {
-  const { data, error } = await supabase.rpc(
+  const { data, error } = await deps.supabase.rpc(
     "notifications_daily_candidates",
     {
       p_limit: limit,
-      p_offset: offset,
+      p_after_user_id: after?.user_id ?? null,
+      p_after_token_id: after?.token_id ?? null,
+      p_cap_window_hours: deps.frequencyCap.windowHours,
+      p_shard_index: options.shardIndex,
+      p_shard_count: options.shardCount,
     },
   );
 
   if (error) {
     console.error("notifications_daily_candidates error", error);
     // Fail the job so it's visible (retriable by scheduler)
-    throw error;
+    throw new Error(error.message);
   }
 
   // Cast because we know what the RPC returns
   return (data as Candidate[] | null) ?? [];
 }
 
+async function claimRetries(
+  deps: DailyDeps,
+  limit: number,
+  options: DailyRunOptions,
+): Promise<RetryCandidate[]> {
+  const { data, error } = await deps.supabase.rpc(
+    "notifications_claim_send_retries",
+    {
+      p_job_run_id: deps.jobRunId,
+      p_limit: limit,
+      p_max_attempts: MAX_SEND_ATTEMPTS,
+      p_shard_index: options.shardIndex,
+      p_shard_count: options.shardCount,
+    },
+  );
+
+  if (error) {
+    console.error("notifications_claim_send_retries error", error);
+    throw new Error(error.message);
+  }
+
+  return (data as RetryCandidate[] | null) ?? [];
+}
+
+// Same decisions as handleUser, minus reserve/send
+function previewBatch(
+  users: Candidate[][],
+  frequencyCap: FrequencyCap,
+  summary: DailySummary,
+) {
+  for (const devices of users) {
+    const user = devices[0];
+    const message = renderDailyMessage(user.locale, user.content);
+    const { unique, duplicates } = dedupeTokens(devices);
+    summary.duplicateTokens += duplicates.length;
+
+    let outcome: DryRunPreview["outcome"];
+    if (!message) {
+      outcome = "skipped_no_content";
+      summary.skippedNoContent += 1;
+    } else if (isOverFrequencyCap(user, frequencyCap)) {
+      outcome = "deferred_frequency_cap";
+      summary.deferredFrequencyCap += 1;
+    } else {
+      outcome = "would_send";
+      summary.wouldSend += unique.length;
+    }
+
+    const rows = [
+      ...unique.map((device) => ({ device, outcome })),
+      ...duplicates.map((device) => ({
+        device,
+        outcome: "duplicate_token" as const,
+      })),
+    ];
+    for (const { device, outcome } of rows) {
+      if (summary.previews.length >= MAX_DRY_RUN_PREVIEWS) return;
+      summary.previews.push({
+        user_id: device.user_id,
+        token_id: device.token_id,
+        provider: device.provider,
+        outcome,
+        template_id: message?.template_id ?? null,
+        title: message?.title ?? null,
+        body: message?.body ?? null,
+      });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Grouping + token dedupe
+// ---------------------------------------------------------------------------
+
+/** Consecutive rows per user (candidates arrive ordered by user_id, token_id). */
+export function groupByUser<T extends { user_id: string }>(rows: T[]): T[][] {
+  const groups: T[][] = [];
+  for (const row of rows) {
+    const current = groups[groups.length - 1];
+    if (current && current[0].user_id === row.user_id) {
+      current.push(row);
+    } else {
+      groups.push([row]);
+    }
+  }
+  return groups;
+}
+
+/** Same provider + token (ignoring surrounding whitespace) = same device: first token_id wins. */
+export function dedupeTokens<
+  T extends { token: string; provider: string | null },
+>(devices: T[]): { unique: T[]; duplicates: T[] } {
+  const seen = new Set<string>();
+  const unique: T[] = [];
+  const duplicates: T[] = [];
+  for (const device of devices) {
+    const key = `${device.provider ?? "fcm"}:${device.token.trim()}`;
+    if (seen.has(key)) {
+      duplicates.push(device);
+    } else {
+      seen.add(key);
+      unique.push(device);
+    }
+  }
+  return { unique, duplicates };
+}
+
 // ---------------------------------------------------------------------------
 // Batch processing with limited concurrency
 // ---------------------------------------------------------------------------
 
+// Users: reached / skipped / deferred. Devices: everything else.
 type BatchCounts = {
+  reached: number;
   sent: number;
   failed: number;
   expired: number;
+  skipped: number;
+  deferred: number;
+  queued: number;
+  duplicates: number;
+  alreadyReserved: number;
 };
 
-async function processBatch(
-  supabase: SupabaseClient,
-  batch: Candidate[],
-  jobRunId: string,
+const NONE: BatchCounts = {
+  reached: 0,
+  sent: 0,
+  failed: 0,
+  expired: 0,
+  skipped: 0,
+  deferred: 0,
+  queued: 0,
+  duplicates: 0,
+  alreadyReserved: 0,
+};
+
+function sumCounts(a: BatchCounts, b: BatchCounts): BatchCounts {
+  return {
+    reached: a.reached + b.reached,
+    sent: a.sent + b.sent,
+    failed: a.failed + b.failed,
+    expired: a.expired + b.expired,
+    skipped: a.skipped + b.skipped,
+    deferred: a.deferred + b.deferred,
+    queued: a.queued + b.queued,
+    duplicates: a.duplicates + b.duplicates,
+    alreadyReserved: a.alreadyReserved + b.alreadyReserved,
+  };
+}
+
+function deviceOutcome(counts: BatchCounts): DeviceOutcome {
+  if (counts.sent) return "sent";
+  if (counts.expired) return "expired";
+  if (counts.queued) return "retry_queued";
+  if (counts.failed) return "failed";
+  return "already_reserved";
+}
+
+async function processBatch<T>(
+  batch: T[],
+  breaker: CircuitBreaker,
+  handle: (item: T) => Promise<BatchCounts>,
 ): Promise<BatchCounts> {
-  let sent = 0;
-  let failed = 0;
-  let expired = 0;
+  let totals = NONE;
 
   for (let i = 0; i < batch.length; i += BATCH_CONCURRENCY) {
+    // Checked per slice: at most one slice of sends goes out after the provider goes down
+    if (breaker.open) break;
     const slice = batch.slice(i, i + BATCH_CONCURRENCY);
 
-    const results = await Promise.all(
-      slice.map((candidate) => handleCandidate(supabase, candidate, jobRunId)),
-    );
+    const results = await Promise.all(slice.map(handle));
 
-    for (const r of results) {
-      sent += r.sent;
-      failed += r.failed;
-      expired += r.expired;
-    }
+    for (const r of results) totals = sumCounts(totals, r);
   }
 
-  return { sent, failed, expired };
+  return totals;
 }
 
-async function handleCandidate(
-  supabase: SupabaseClient,
-  candidate: Candidate,
-  jobRunId: string,
+async function handleUser(
+  deps: DailyDeps,
+  devices: Candidate[],
+  breaker: CircuitBreaker,
 ): Promise<BatchCounts> {
-  const message = buildMessage(candidate.locale);
-  const localDate = candidate.local_date;
+  const { supabase, frequencyCap, jobRunId } = deps;
+  const user = devices[0];
+  const message = renderDailyMessage(user.locale, user.content);
 
-  // 1️⃣ Reserve the send (idempotency guard via RPC)
-  const sendId = await reserveSend(
-    supabase,
-    candidate.user_id,
-    candidate.token_id,
-    localDate,
-    jobRunId,
-  );
+  if (!message) {
+    // Nothing waiting on Today (content changed since eligibility): no nudge
+    return { ...NONE, skipped: 1 };
+  }
 
-  if (!sendId) {
-    // Already reserved by another worker or another run
-    return { sent: 0, failed: 0, expired: 0 };
+  if (isOverFrequencyCap(user, frequencyCap)) {
+    // Not reserved: a later run in the user's window retries once the cap frees up
+    return { ...NONE, deferred: 1 };
   }
 
-  // 2️⃣ Attempt to send push
-  const result = await sendPush(candidate.token, message, {
-    userId: candidate.user_id,
-    tokenId: candidate.token_id,
+  const { unique, duplicates } = dedupeTokens(devices);
+  let totals: BatchCounts = { ...NONE, duplicates: duplicates.length };
+  const outcomes: { token_id: string; outcome: DeviceOutcome }[] = duplicates
+    .map((d) => ({ token_id: d.token_id, outcome: "duplicate_token" }));
+
+  // Devices one after another: concurrency is across users
+  for (const device of unique) {
+    if (breaker.open) break;
+
+    // 1️⃣ Reserve the send (idempotency guard via RPC, per device + local_date)
+    const sendId = await reserveSend(
+      supabase,
+      device.user_id,
+      device.token_id,
+      device.local_date,
+      jobRunId,
+      message.template_id,
+    );
+
+    // 2️⃣ Attempt to send push via the device's transport
+    const counts = sendId
+      ? await deliver(deps, device, message, sendId, 1, breaker)
+      : { ...NONE, alreadyReserved: 1 }; // another worker or an earlier run has it
+
+    outcomes.push({
+      token_id: device.token_id,
+      outcome: deviceOutcome(counts),
+    });
+    totals = sumCounts(totals, counts);
+  }
+
+  if (totals.sent > 0) totals.reached = 1;
+  if (outcomes.some((o) => o.outcome !== "sent")) {
+    console.log("[notifications-daily] device outcomes", {
+      jobRunId,
+      userId: user.user_id,
+      reached: totals.reached === 1,
+      devices: outcomes,
+    });
+  }
+  return totals;
+}
+
+// Retries already hold their reservation and count as the same notification: no cap re-check.
+// One device each, so only device counts move (users were counted by the run that queued it).
+async function handleRetry(
+  deps: DailyDeps,
+  retry: RetryCandidate,
+  breaker: CircuitBreaker,
+): Promise<BatchCounts> {
+  const message = renderDailyMessage(retry.locale, retry.content);
+
+  if (!message) {
+    // Today emptied while the retry was queued: close it out
+    await updateSendStatus(
+      deps.supabase,
+      retry.send_id,
+      "failed",
+      "no_content",
+    );
+    return { ...NONE, skipped: 1 };
+  }
+
+  return await deliver(
+    deps,
+    retry,
+    message,
+    retry.send_id,
+    retry.attempts,
+    breaker,
+  );
+}
+
+async function deliver(
+  deps: DailyDeps,
+  candidate: Candidate,
+  message: { title: string; body: string },
+  sendId: string,
+  attempts: number,
+  breaker: CircuitBreaker,
+): Promise<BatchCounts> {
+  const { supabase } = deps;
+  const result = await sendToCandidate(deps.transports, candidate, {
+    title: message.title,
+    body: message.body,
+    deepLink: DEEP_LINK,
+    sendId,
   });
 
   if (result.ok) {
-    await markSendSuccess(supabase, sendId, candidate.user_id, localDate);
-    return { sent: 1, failed: 0, expired: 0 };
+    breaker.recordHealthy();
+    await markSendSuccess(
+      supabase,
+      sendId,
+      candidate.user_id,
+      candidate.local_date,
+    );
+    return { ...NONE, sent: 1 };
   }
 
   const truncatedReason = truncateReason(
     result.reason,
     ERROR_REASON_MAX_LENGTH,
   );
-  await updateSendStatus(supabase, sendId, "failed", truncatedReason);
 
   if (result.permanent) {
+    breaker.recordHealthy();
+    await updateSendStatus(supabase, sendId, "failed", truncatedReason);
     await markTokenStatus(supabase, candidate.token_id, "expired");
-    return { sent: 0, failed: 1, expired: 1 };
+    return { ...NONE, failed: 1, expired: 1 };
+  }
+
+  if (isConfigError(result.reason)) {
+    // No provider was asked: not an outage, and a retry fails the same way until the env is fixed
+    await updateSendStatus(supabase, sendId, "failed", truncatedReason);
+    return { ...NONE, failed: 1 };
+  }
+
+  breaker.recordTransientFailure();
+  if (attempts >= MAX_SEND_ATTEMPTS) {
+    await updateSendStatus(supabase, sendId, "failed", truncatedReason);
+    return { ...NONE, failed: 1 };
   }
 
-  return { sent: 0, failed: 1, expired: 0 };
+  await scheduleSendRetry(
+    supabase,
+    sendId,
+    truncatedReason,
+    new Date(Date.now() + retryDelayMs(attempts, result.retryAfterMs)),
+  );
+  return { ...NONE, failed: 1, queued: 1 };
+}
+
+export function sendToCandidate(
+  transports: Record<PushProvider, PushTransport>,
+  candidate: Candidate,
+  message: PushMessage,
+): Promise<SendResult> {
+  const transport = getPushTransport(transports, candidate.provider);
+  if (!transport) {
+    // Unknown transport is a deploy/config gap, not a dead token: keep it active
+    return Promise.resolve({
+      ok: false,
+      permanent: false,
+      reason: `unsupported_provider:${candidate.provider}`,
+    });
+  }
+  return transport.send(candidate.token, message, {
+    userId: candidate.user_id,
+    tokenId: candidate.token_id,
+  });
 }
 
 // ---------------------------------------------------------------------------
@@ -281,17 +803,19 @@ async function handleCandidate(
 // ---------------------------------------------------------------------------
 
 async function reserveSend(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   userId: string,
   tokenId: string,
   localDate: string,
   jobRunId: string,
+  templateId: string,
 ): Promise<string | null> {
   const { data, error } = await supabase.rpc("notifications_reserve_send", {
     p_user_id: userId,
     p_token_id: tokenId,
     p_local_date: localDate,
     p_job_run_id: jobRunId,
+    p_template_id: templateId,
   });
 
   if (error) {
@@ -304,7 +828,7 @@ async function reserveSend(
 }
 
 async function markSendSuccess(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   sendId: string,
   userId: string,
   localDate: string,
@@ -321,7 +845,7 @@ async function markSendSuccess(
 }
 
 async function updateSendStatus(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   sendId: string,
   status: "sent" | "failed",
   errorText?: string,
@@ -337,8 +861,25 @@ async function updateSendStatus(
   }
 }
 
+async function scheduleSendRetry(
+  supabase: RpcLike,
+  sendId: string,
+  errorText: string,
+  nextRetryAt: Date,
+) {
+  const { error } = await supabase.rpc("notifications_schedule_send_retry", {
+    p_send_id: sendId,
+    p_error: errorText,
+    p_next_retry_at: nextRetryAt.toISOString(),
+  });
+
+  if (error) {
+    console.error("notifications_schedule_send_retry error", error);
+  }
+}
+
 async function markTokenStatus(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   tokenId: string,
   status: "expired" | "revoked",
 ) {
@@ -352,289 +893,6 @@ async function markTokenStatus(
   }
 }
 
-// ---------------------------------------------------------------------------
-// FCM send
-// ---------------------------------------------------------------------------
-
-async function sendPush(
-  token: string,
-  body: string,
-  meta?: { userId?: string; tokenId?: string },
-): Promise<SendResult> {
-  const auth = await getAccessToken();
-  if (!auth) {
-    return { ok: false, permanent: false, reason: "missing_service_account" };
-  }
-
-  logFcmContext("sending_push", {
-    projectId: auth.projectId,
-    token,
-    userId: meta?.userId,
-    tokenId: meta?.tokenId,
-  });
-
-  const payload = {
-    message: {
-      token,
-      notification: {
-        title: "Kinly",
-        body,
-      },
-      data: {
-        deepLink: "/today",
-      },
-    },
-  };
-
-  const url =
-    `https://fcm.googleapis.com/v1/projects/${auth.projectId}/messages:send`;
-
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${auth.accessToken}`,
-    },
-    body: JSON.stringify(payload),
-  });
-
-  const status = response.status;
-
-  if (!response.ok) {
-    const text = await response.text();
-
-    console.error("[FCM ERROR]", {
-      projectId: auth.projectId,
-      status,
-      body: text.slice(0, 500),
-      at: new Date().toISOString(),
-    });
-
-    // Only treat as permanent if the body clearly indicates a dead token.
-    const permanent = isPermanentTokenError(text);
-    return {
-      ok: false,
-      permanent,
-      reason: `http_${status}:${text}`,
-    };
-  }
-
-  const json = (await response.json().catch(() => ({}))) as {
-    name?: string;
-    error?: { message?: string };
-  };
-
-  if (json.error) {
-    const message = json.error.message ?? "unknown_fcm_error";
-    const permanent = isPermanentTokenError(message);
-
-    console.error("[FCM JSON ERROR]", {
-      projectId: auth.projectId,
-      message: message.slice(0, 500),
-      at: new Date().toISOString(),
-    });
-
-    return { ok: false, permanent, reason: message };
-  }
-
-  return { ok: true };
-}
-
-export function isPermanentTokenError(text: string): boolean {
-  if (!text) return false;
-
-  const upper = text.toUpperCase();
-  if (upper.includes("UNREGISTERED") || upper.includes("NOT_FOUND")) {
-    return true;
-  }
-
-  try {
-    const parsed = JSON.parse(text) as {
-      error?: {
-        status?: string;
-        details?: Array<{ errorCode?: string; error_code?: string }>;
-      };
-    };
-    const status = parsed.error?.status?.toUpperCase();
-    if (
-      status &&
-      (status.includes("UNREGISTERED") || status.includes("NOT_FOUND"))
-    ) {
-      return true;
-    }
-    const details = parsed.error?.details ?? [];
-    return details.some((d) => {
-      const code = (d.errorCode ?? d.error_code ?? "").toString().toUpperCase();
-      return code.includes("UNREGISTERED") || code.includes("NOT_FOUND");
-    });
-  } catch (_) {
-    return false;
-  }
-}
-
-// ---------------------------------------------------------------------------
-// OAuth helper for FCM HTTP v1
-// ---------------------------------------------------------------------------
-
-let cachedAuth:
-  | {
-    accessToken: string;
-    expiresAt: number;
-    projectId: string;
-  }
-  | null = null;
-
-function parseServiceAccount(): ServiceAccount | null {
-  const raw = Deno.env.get("FCM_SERVICE_ACCOUNT");
-  if (!raw) {
-    console.error("FCM_SERVICE_ACCOUNT env missing");
-    return null;
-  }
-  try {
-    return JSON.parse(raw) as ServiceAccount;
-  } catch (error) {
-    console.error("Failed to parse FCM_SERVICE_ACCOUNT", error);
-    return null;
-  }
-}
-
-async function getAccessToken(): Promise<
-  { accessToken: string; projectId: string } | null
-> {
-  const now = Date.now();
-
-  if (cachedAuth && cachedAuth.expiresAt > now + 60_000) {
-    logFcmContext("cached_auth", {
-      projectId: cachedAuth.projectId,
-    });
-
-    return {
-      accessToken: cachedAuth.accessToken,
-      projectId: cachedAuth.projectId,
-    };
-  }
-
-  const sa = parseServiceAccount();
-  if (!sa?.client_email || !sa?.private_key) {
-    console.error("FCM service account missing email or private key");
-    return null;
-  }
-
-  const tokenUri = sa.token_uri ?? "https://oauth2.googleapis.com/token";
-
-  const projectIdFromJson = sa.project_id;
-  const projectIdFromEnv = Deno.env.get("FCM_PROJECT_ID") ?? undefined;
-  const projectId = projectIdFromJson ?? projectIdFromEnv;
-
-  if (!projectId) {
-    console.error(
-      "project_id missing (use service account project_id or FCM_PROJECT_ID env)",
-    );
-    return null;
-  }
-
-  logFcmContext("service_account_loaded", {
-    projectId,
-    clientEmail: sa.client_email,
-  });
-
-  const jwt = await createJwt(sa.client_email, sa.private_key, tokenUri, SCOPE);
-  if (!jwt) return null;
-
-  const params = new URLSearchParams();
-  params.set("grant_type", "urn:ietf:params:oauth:grant-type:jwt-bearer");
-  params.set("assertion", jwt);
-
-  const response = await fetch(tokenUri, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: params.toString(),
-  });
-
-  if (!response.ok) {
-    console.error("Failed to fetch access token", await response.text());
-    return null;
-  }
-
-  const json = (await response.json()) as {
-    access_token?: string;
-    expires_in?: number;
-  };
-
-  const accessToken = json.access_token;
-  const expiresIn = json.expires_in;
-  if (!accessToken || !expiresIn) {
-    console.error("Malformed token response", json);
-    return null;
-  }
-
-  cachedAuth = {
-    accessToken,
-    projectId,
-    expiresAt: now + (expiresIn - 60) * 1000,
-  };
-
-  return { accessToken, projectId };
-}
-
-async function createJwt(
-  clientEmail: string,
-  privateKeyPem: string,
-  tokenUri: string,
-  scope: string,
-): Promise<string | null> {
-  try {
-    const iat = Math.floor(Date.now() / 1000);
-    const exp = iat + 3600;
-
-    const header = base64UrlEncode(
-      new TextEncoder().encode(JSON.stringify({ alg: "RS256", typ: "JWT" })),
-    );
-    const claim = base64UrlEncode(
-      new TextEncoder().encode(
-        JSON.stringify({
-          iss: clientEmail,
-          sub: clientEmail,
-          scope,
-          aud: tokenUri,
-          iat,
-          exp,
-        }),
-      ),
-    );
-
-    const unsigned = `${header}.${claim}`;
-    const key = await importPrivateKey(privateKeyPem);
-    const signatureBuf = await crypto.subtle.sign(
-      { name: "RSASSA-PKCS1-v1_5" },
-      key,
-      new TextEncoder().encode(unsigned),
-    );
-    const signature = base64UrlEncode(new Uint8Array(signatureBuf));
-    return `${unsigned}.${signature}`;
-  } catch (error) {
-    console.error("createJwt error", error);
-    return null;
-  }
-}
-
-function importPrivateKey(pem: string): Promise<CryptoKey> {
-  const cleaned = pem.replace(/-----[^-]+-----/g, "").replace(/\s+/g, "");
-  const binaryDer = Uint8Array.from(atob(cleaned), (c) => c.charCodeAt(0));
-  return crypto.subtle.importKey(
-    "pkcs8",
-    binaryDer,
-    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
-    false,
-    ["sign"],
-  );
-}
-
-function base64UrlEncode(data: Uint8Array): string {
-  const base64 = btoa(String.fromCharCode(...data));
-  return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
-}
-
 // ---------------------------------------------------------------------------
 // Small util (UTF-8 / grapheme-safe truncation)
 // ---------------------------------------------------------------------------
@@ -646,3 +904,6 @@ export function truncateReason(reason: string, maxLength: number): string {
   if (segments.length <= maxLength) return reason;
   return segments.slice(0, maxLength).map((s) => s.segment).join("") + "…";
 }
+
+export { isPermanentTokenError } from "./transports.ts";
+export { isOverFrequencyCap, readFrequencyCap } from "./frequency_cap.ts";
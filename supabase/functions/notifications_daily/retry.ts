@@ -0,0 +1,64 @@
+// supabase/functions/notifications_daily/retry.ts
+// Transient push failures: retry schedule + per-run circuit breaker.
+// - A transient failure (429, 5xx, network error) queues the same reservation for another
+//   attempt (notifications_schedule_send_retry); the sweep claims it once next_retry_at is due.
+// - Config errors (transport secrets missing, no transport for the provider) are neither:
+//   the send fails without a retry and the breaker is not touched, since no provider was asked.
+// - Delay: exponential backoff from RETRY_BASE_MS, capped at RETRY_MAX_MS, never earlier than
+//   the provider's Retry-After. Attempts are bounded by MAX_SEND_ATTEMPTS (first send included).
+// - Circuit breaker: CIRCUIT_BREAKER_THRESHOLD consecutive transient failures with no healthy
+//   response in between means the provider is down; the run stops instead of burning through candidates
+//   (unreserved candidates are picked up by the next run inside their window).
+
+export const MAX_SEND_ATTEMPTS = 4;
+export const RETRY_BASE_MS = 5 * 60_000;
+export const RETRY_MAX_MS = 2 * 60 * 60_000;
+export const CIRCUIT_BREAKER_THRESHOLD = 10;
+
+/** Delay before attempt `attempt + 1`, given `attempt` attempts so far (>= 1). */
+export function retryDelayMs(
+  attempt: number,
+  retryAfterMs?: number,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const backoff = Math.min(RETRY_BASE_MS * 2 ** exponent, RETRY_MAX_MS);
+  return Math.max(backoff, retryAfterMs ?? 0);
+}
+
+const CONFIG_ERROR_REASONS = new Set([
+  "missing_apns_config",
+  "missing_vapid_config",
+  "missing_service_account",
+]);
+
+/** Deploy/config gap reported by a transport (or a provider without one). */
+export function isConfigError(reason: string): boolean {
+  return CONFIG_ERROR_REASONS.has(reason) ||
+    reason.startsWith("unsupported_provider:");
+}
+
+export type CircuitBreaker = {
+  // Provider answered (delivered, or a definitive dead-token response)
+  recordHealthy: () => void;
+  recordTransientFailure: () => void;
+  readonly open: boolean;
+};
+
+export function createCircuitBreaker(
+  threshold = CIRCUIT_BREAKER_THRESHOLD,
+): CircuitBreaker {
+  let consecutive = 0;
+  let open = false;
+  return {
+    recordHealthy() {
+      if (!open) consecutive = 0;
+    },
+    recordTransientFailure() {
+      consecutive += 1;
+      if (consecutive >= threshold) open = true;
+    },
+    get open() {
+      return open;
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { assert, assertEquals, assertThrows } from "jsr:@std/assert@0.224.0";
+
+import {
+  formatMessage,
+  MESSAGE_KINDS,
+  pickMessageKind,
+  renderDailyMessage,
+  SUPPORTED_LOCALES,
+  type TodayContent,
+} from "./templates.ts";
+
+function content(overrides: Partial<TodayContent> = {}): TodayContent {
+  return {
+    has_content: true,
+    chores_due: 0,
+    gratitude_unread: 0,
+    expenses_owed: 0,
+    expense_payer: null,
+    ...overrides,
+  };
+}
+
+const CONTENT_BY_KIND = {
+  chores_due: content({ chores_due: 3 }),
+  expense_owed: content({ expenses_owed: 2, expense_payer: "Sam" }),
+  gratitude_unread: content({ gratitude_unread: 5 }),
+  day_ready: content(),
+};
+
+Deno.test("every locale renders every kind without leftover placeholders", () => {
+  for (const locale of SUPPORTED_LOCALES) {
+    for (const kind of MESSAGE_KINDS) {
+      for (const n of [0, 1, 2, 3, 11, 100]) {
+        const base = CONTENT_BY_KIND[kind];
+        const rendered = renderDailyMessage(locale, {
+          ...base,
+          chores_due: kind === "chores_due" ? Math.max(n, 1) : 0,
+          expenses_owed: kind === "expense_owed" ? Math.max(n, 1) : 0,
+          gratitude_unread: kind === "gratitude_unread" ? Math.max(n, 1) : 0,
+        })!;
+        assertEquals(rendered.kind, kind);
+        assertEquals(rendered.locale, locale);
+        assertEquals(rendered.template_id, `daily_${kind}_v1`);
+        assert(
+          !/[{}#]/.test(rendered.body),
+          `${locale}/${kind}: ${rendered.body}`,
+        );
+      }
+    }
+  }
+});
+
+Deno.test("kind priority: chores, then expenses, then gratitude, then day_ready", () => {
+  assertEquals(
+    pickMessageKind(
+      content({ chores_due: 1, expenses_owed: 1, gratitude_unread: 1 }),
+    ),
+    "chores_due",
+  );
+  assertEquals(
+    pickMessageKind(content({ expenses_owed: 1, gratitude_unread: 1 })),
+    "expense_owed",
+  );
+  assertEquals(
+    pickMessageKind(content({ gratitude_unread: 1 })),
+    "gratitude_unread",
+  );
+  assertEquals(pickMessageKind(content()), "day_ready");
+  assertEquals(pickMessageKind(null), "day_ready");
+});
+
+Deno.test("users with nothing on Today are skipped", () => {
+  assertEquals(
+    renderDailyMessage("en", content({ has_content: false, chores_due: 2 })),
+    null,
+  );
+});
+
+Deno.test("plural rules follow the locale (Arabic one/two/few/other)", () => {
+  const chores = (n: number) =>
+    renderDailyMessage("ar", content({ chores_due: n }))!.body;
+
+  assertEquals(chores(1), "لديك مهمة واحدة اليوم.");
+  assertEquals(chores(2), "لديك مهمتان اليوم.");
+  assert(chores(3).includes("مهام"));
+  assert(chores(11).endsWith("مهمة اليوم."));
+  assertEquals(
+    renderDailyMessage("en", content({ chores_due: 1 }))!.body,
+    "1 chore is waiting for you today.",
+  );
+  assertEquals(
+    renderDailyMessage("en-GB", content({ chores_due: 4 }))!.body,
+    "4 chores are waiting for you today.",
+  );
+});
+
+Deno.test("expense copy names the payer only when known", () => {
+  assertEquals(
+    renderDailyMessage(
+      "en",
+      content({ expenses_owed: 2, expense_payer: " Sam " }),
+    )!
+      .body,
+    "Sam is waiting on 2 expenses from you.",
+  );
+  assertEquals(
+    renderDailyMessage("es", content({ expenses_owed: 1 }))!.body,
+    "Tienes 1 gasto pendiente por saldar.",
+  );
+});
+
+Deno.test("formatMessage supports =n selectors, # and nested arguments", () => {
+  const pattern =
+    "{count, plural, =0 {No news} one {# note from {who}} other {# notes}}";
+
+  assertEquals(formatMessage(pattern, "en", { count: 0 }), "No news");
+  assertEquals(
+    formatMessage(pattern, "en", { count: 1, who: "Ana" }),
+    "1 note from Ana",
+  );
+  assertEquals(formatMessage(pattern, "en", { count: 1200 }), "1,200 notes");
+  assertThrows(() => formatMessage("{count, plural, one {x}", "en", {}));
+  assertThrows(() => formatMessage("{count, number}", "en", { count: 1 }));
+});
@@ -0,0 +1,228 @@
+// supabase/functions/notifications_daily/templates.ts
+// Daily notification copy keyed by locale + message kind.
+// - Kind is picked from today_content_summary (via notifications_daily_candidates.content):
+//   chores_due > expense_owed > gratitude_unread > day_ready (content exists but none of the above)
+// - Messages use a small ICU MessageFormat subset:
+//   {name}, {name, plural, =0 {...} one {...} other {...}} (# = the number), {name, select, a {...} other {...}}
+//   Plural categories come from Intl.PluralRules, so Arabic gets one/two/few/many/other.
+// - template_id (e.g. daily_chores_due_v1) is recorded on notification_sends; bump the
+//   version suffix whenever the wording of a kind changes so analysis can split cohorts.
+
+export type TodayContent = {
+  has_content: boolean;
+  chores_due: number;
+  gratitude_unread: number;
+  expenses_owed: number;
+  expense_payer: string | null;
+};
+
+export type MessageKind =
+  | "chores_due"
+  | "expense_owed"
+  | "gratitude_unread"
+  | "day_ready";
+
+export type RenderedMessage = {
+  template_id: string;
+  kind: MessageKind;
+  locale: string;
+  title: string;
+  body: string;
+};
+
+type MessageValues = Record<string, string | number | null | undefined>;
+
+const TEMPLATE_VERSION = "v1";
+const DEFAULT_LOCALE = "en";
+const TITLE = "Kinly";
+const MAX_PAYER_LENGTH = 40;
+
+const TEMPLATES: Record<string, Record<MessageKind, string>> = {
+  en: {
+    chores_due:
+      "{count, plural, one {# chore is} other {# chores are}} waiting for you today.",
+    expense_owed:
+      "{payer_known, select, yes {{payer} is waiting on {count, plural, one {# expense} other {# expenses}} from you.} other {You have {count, plural, one {# expense} other {# expenses}} to settle.}}",
+    gratitude_unread:
+      "{count, plural, one {A new thank-you is} other {# new thank-yous are}} waiting on your gratitude wall.",
+    day_ready: "Your day is ready ✨ Tap to see what's waiting.",
+  },
+  es: {
+    chores_due:
+      "{count, plural, one {Tienes # tarea pendiente} other {Tienes # tareas pendientes}} para hoy.",
+    expense_owed:
+      "{payer_known, select, yes {{payer} espera {count, plural, one {# pago tuyo} other {# pagos tuyos}}.} other {Tienes {count, plural, one {# gasto pendiente} other {# gastos pendientes}} por saldar.}}",
+    gratitude_unread:
+      "{count, plural, one {Tienes un nuevo agradecimiento} other {Tienes # nuevos agradecimientos}} en tu muro de gratitud.",
+    day_ready: "Tu dia esta listo ✨ Toca para ver lo que te espera.",
+  },
+  ar: {
+    chores_due:
+      "{count, plural, one {لديك مهمة واحدة اليوم.} two {لديك مهمتان اليوم.} few {لديك # مهام اليوم.} other {لديك # مهمة اليوم.}}",
+    expense_owed:
+      "{payer_known, select, yes {{payer} بانتظار {count, plural, one {مصروف واحد} two {مصروفين} few {# مصاريف} other {# مصروفًا}} منك.} other {لديك {count, plural, one {مصروف واحد} two {مصروفان} few {# مصاريف} other {# مصروفًا}} للتسوية.}}",
+    gratitude_unread:
+      "{count, plural, one {رسالة شكر جديدة} two {رسالتا شكر جديدتان} few {# رسائل شكر جديدة} other {# رسالة شكر جديدة}} على جدار الامتنان.",
+    day_ready: "يومك جاهز ✨ اضغط لمعرفة ما بانتظارك.",
+  },
+};
+
+export const SUPPORTED_LOCALES = Object.keys(TEMPLATES);
+export const MESSAGE_KINDS: MessageKind[] = [
+  "chores_due",
+  "expense_owed",
+  "gratitude_unread",
+  "day_ready",
+];
+
+// ---------------------------------------------------------------------------
+// Kind selection + rendering
+// ---------------------------------------------------------------------------
+
+export function resolveLocale(locale: string | null | undefined): string {
+  const normalized = (locale ?? "").toLowerCase();
+  if (TEMPLATES[normalized]) return normalized;
+  const language = normalized.split(/[-_]/)[0];
+  if (language && TEMPLATES[language]) return language;
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * null content = candidate row without a summary (generic copy);
+ * has_content false = nothing to show, caller skips the user.
+ */
+export function pickMessageKind(
+  content: TodayContent | null | undefined,
+): MessageKind | null {
+  if (!content) return "day_ready";
+  if (!content.has_content) return null;
+  if (content.chores_due > 0) return "chores_due";
+  if (content.expenses_owed > 0) return "expense_owed";
+  if (content.gratitude_unread > 0) return "gratitude_unread";
+  return "day_ready";
+}
+
+export function renderDailyMessage(
+  locale: string | null | undefined,
+  content: TodayContent | null | undefined,
+): RenderedMessage | null {
+  const kind = pickMessageKind(content);
+  if (!kind) return null;
+
+  const resolved = resolveLocale(locale);
+  const payer = (content?.expense_payer ?? "").trim().slice(
+    0,
+    MAX_PAYER_LENGTH,
+  );
+  const count = kind === "chores_due"
+    ? content?.chores_due
+    : kind === "expense_owed"
+    ? content?.expenses_owed
+    : kind === "gratitude_unread"
+    ? content?.gratitude_unread
+    : 0;
+
+  return {
+    template_id: `daily_${kind}_${TEMPLATE_VERSION}`,
+    kind,
+    locale: resolved,
+    title: TITLE,
+    body: formatMessage(TEMPLATES[resolved][kind], resolved, {
+      count: count ?? 0,
+      payer,
+      payer_known: payer ? "yes" : "no",
+    }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ICU MessageFormat subset
+// ---------------------------------------------------------------------------
+
+export function formatMessage(
+  pattern: string,
+  locale: string,
+  values: MessageValues,
+  pound?: string,
+): string {
+  let out = "";
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    if (ch === "{") {
+      const end = matchingBrace(pattern, i);
+      out += formatArgument(pattern.slice(i + 1, end), locale, values);
+      i = end + 1;
+    } else if (ch === "}") {
+      throw new Error(`unbalanced "}" at ${i} in message`);
+    } else {
+      out += ch === "#" && pound !== undefined ? pound : ch;
+      i++;
+    }
+  }
+  return out;
+}
+
+function formatArgument(
+  argument: string,
+  locale: string,
+  values: MessageValues,
+): string {
+  const [name, type, ...rest] = argument.split(",");
+  const key = name.trim();
+  const value = values[key];
+
+  if (type === undefined) return value == null ? "" : String(value);
+
+  const options = parseOptions(rest.join(","));
+  switch (type.trim()) {
+    case "plural": {
+      const n = Number(value ?? 0);
+      const category = new Intl.PluralRules(locale).select(n);
+      const chosen = options.get(`=${n}`) ?? options.get(category) ??
+        options.get("other");
+      if (chosen === undefined) throw new Error(`plural "${key}" has no other`);
+      return formatMessage(
+        chosen,
+        locale,
+        values,
+        new Intl.NumberFormat(locale).format(n),
+      );
+    }
+    case "select": {
+      const chosen = options.get(String(value ?? "")) ?? options.get("other");
+      if (chosen === undefined) throw new Error(`select "${key}" has no other`);
+      return formatMessage(chosen, locale, values);
+    }
+    default:
+      throw new Error(`unsupported argument type "${type.trim()}"`);
+  }
+}
+
+// "=0 {a} one {b} other {c}" -> Map { "=0" => "a", one => "b", other => "c" }
+function parseOptions(source: string): Map<string, string> {
+  const options = new Map<string, string>();
+  let i = 0;
+  while (i < source.length) {
+    const open = source.indexOf("{", i);
+    if (open === -1) {
+      if (source.slice(i).trim()) throw new Error("dangling option selector");
+      break;
+    }
+    const selector = source.slice(i, open).trim();
+    const close = matchingBrace(source, open);
+    if (!selector) throw new Error("option without selector");
+    options.set(selector, source.slice(open + 1, close));
+    i = close + 1;
+  }
+  return options;
+}
+
+function matchingBrace(source: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === "{") depth++;
+    else if (source[i] === "}" && --depth === 0) return i;
+  }
+  throw new Error(`unbalanced "{" at ${open} in message`);
+}
@@ -0,0 +1,880 @@
+// supabase/functions/notifications_daily/transports.ts
+// Push transports keyed by device_tokens.provider:
+// - fcm: FCM HTTP v1 (OAuth service account, FCM_SERVICE_ACCOUNT / FCM_PROJECT_ID)
+// - apns: APNs provider token auth (ES256 JWT) over HTTP/2 (APNS_KEY_ID, APNS_TEAM_ID,
+//   APNS_PRIVATE_KEY, APNS_TOPIC, APNS_ENVIRONMENT=production|sandbox)
+// - webpush: VAPID (RFC 8292) + aes128gcm payload encryption (RFC 8291)
+//   (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT); token is the PushSubscription JSON
+//
+// Every transport returns the same SendResult: permanent = the token will never work again
+// (caller marks it expired via notifications_mark_token_status); anything else is transient,
+// with retryAfterMs when the provider sent a Retry-After header (FCM, Web Push 429/503).
+// send never throws: a fetch that rejects (DNS, TLS, reset) is a transient network_error.
+// Auth credentials (OAuth token, APNs JWT, VAPID JWT) are cached per isolate and dropped
+// when the provider rejects them.
+// Custom data (all providers): deepLink + send_id (when set), flat next to the alert.
+
+export type PushProvider = "fcm" | "apns" | "webpush";
+
+export type PushMessage = {
+  title: string;
+  body: string;
+  deepLink: string;
+  sendId?: string; // notification_sends.id; echoed back by the app on open
+};
+
+export type SendResult =
+  | { ok: true }
+  | {
+    ok: false;
+    permanent: boolean;
+    reason: string;
+    retryAfterMs?: number;
+  };
+
+export type SendMeta = { userId?: string; tokenId?: string };
+
+export type PushTransport = {
+  provider: PushProvider;
+  send: (
+    token: string,
+    message: PushMessage,
+    meta?: SendMeta,
+  ) => Promise<SendResult>;
+  isPermanentError: (status: number, body: string) => boolean;
+};
+
+export type TransportDeps = {
+  fetchFn?: typeof fetch;
+  getEnv?: (name: string) => string | undefined;
+  now?: () => number;
+};
+
+type ServiceAccount = {
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+  project_id?: string;
+};
+
+type WebPushSubscription = {
+  endpoint: string;
+  p256dh: Uint8Array<ArrayBuffer>;
+  auth: Uint8Array<ArrayBuffer>;
+};
+
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+const APNS_HOSTS = {
+  production: "https://api.push.apple.com",
+  sandbox: "https://api.sandbox.push.apple.com",
+};
+// Daily nudge is stale after a few hours; providers drop it instead of delivering late
+const PUSH_TTL_SECONDS = 4 * 3600;
+// Apple rejects provider tokens older than 1h and throttles refreshes under 20min
+const APNS_JWT_TTL_MS = 50 * 60_000;
+// VAPID exp must be <= 24h; keep the cached JWT well inside that
+const VAPID_JWT_TTL_SECONDS = 12 * 3600;
+const AUTH_REFRESH_MARGIN_MS = 60_000;
+const WEBPUSH_RECORD_SIZE = 4096;
+const LOG_BODY_MAX = 500;
+
+const APNS_PERMANENT_REASONS = new Set([
+  "BadDeviceToken",
+  "Unregistered",
+  "DeviceTokenNotForTopic",
+]);
+const APNS_AUTH_REASONS = new Set([
+  "ExpiredProviderToken",
+  "InvalidProviderToken",
+]);
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export function createPushTransports(
+  deps: TransportDeps = {},
+): Record<PushProvider, PushTransport> {
+  return {
+    fcm: createFcmTransport(deps),
+    apns: createApnsTransport(deps),
+    webpush: createWebPushTransport(deps),
+  };
+}
+
+// Legacy rows predate the provider column being routed on and are all FCM
+export function getPushTransport(
+  transports: Record<PushProvider, PushTransport>,
+  provider: string | null | undefined,
+): PushTransport | null {
+  const key = (provider ?? "fcm").toLowerCase();
+  return (transports as Record<string, PushTransport>)[key] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Shared: auth cache + error classification
+// ---------------------------------------------------------------------------
+
+type AuthEntry<T> = { value: T; expiresAt: number };
+
+export function createAuthCache<T>(now: () => number = Date.now) {
+  const entries = new Map<string, AuthEntry<T>>();
+  return {
+    async get(
+      key: string,
+      load: () => Promise<AuthEntry<T> | null>,
+    ): Promise<T | null> {
+      const hit = entries.get(key);
+      if (hit && hit.expiresAt > now() + AUTH_REFRESH_MARGIN_MS) {
+        return hit.value;
+      }
+      const fresh = await load();
+      if (!fresh) {
+        entries.delete(key);
+        return null;
+      }
+      entries.set(key, fresh);
+      return fresh.value;
+    },
+    invalidate(key?: string) {
+      if (key === undefined) entries.clear();
+      else entries.delete(key);
+    },
+  };
+}
+
+export function isPermanentTokenError(text: string): boolean {
+  if (!text) return false;
+
+  const upper = text.toUpperCase();
+  if (upper.includes("UNREGISTERED") || upper.includes("NOT_FOUND")) {
+    return true;
+  }
+
+  try {
+    const parsed = JSON.parse(text) as {
+      error?: {
+        status?: string;
+        details?: Array<{ errorCode?: string; error_code?: string }>;
+      };
+    };
+    const status = parsed.error?.status?.toUpperCase();
+    if (
+      status &&
+      (status.includes("UNREGISTERED") || status.includes("NOT_FOUND"))
+    ) {
+      return true;
+    }
+    const details = parsed.error?.details ?? [];
+    return details.some((d) => {
+      const code = (d.errorCode ?? d.error_code ?? "").toString().toUpperCase();
+      return code.includes("UNREGISTERED") || code.includes("NOT_FOUND");
+    });
+  } catch (_) {
+    return false;
+  }
+}
+
+export function isPermanentApnsError(status: number, body: string): boolean {
+  if (status === 410) return true;
+  return APNS_PERMANENT_REASONS.has(apnsReason(body));
+}
+
+// 404/410: subscription expired or unsubscribed (RFC 8030 §7.3)
+export function isPermanentWebPushError(status: number, _body: string) {
+  return status === 404 || status === 410;
+}
+
+/** Custom payload keys; FCM requires string values, so absent ids are omitted, not null. */
+export function pushData(message: PushMessage): Record<string, string> {
+  return message.sendId
+    ? { deepLink: message.deepLink, send_id: message.sendId }
+    : { deepLink: message.deepLink };
+}
+
+/** Retry-After as delay-seconds or HTTP-date; undefined when absent or unparseable. */
+export function parseRetryAfter(
+  header: string | null,
+  nowMs: number,
+): number | undefined {
+  if (!header) return undefined;
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const at = Date.parse(trimmed);
+  if (Number.isNaN(at)) return undefined;
+  return Math.max(0, at - nowMs);
+}
+
+function apnsReason(body: string): string {
+  try {
+    return String((JSON.parse(body) as { reason?: unknown }).reason ?? "");
+  } catch (_) {
+    return "";
+  }
+}
+
+function logPushContext(
+  provider: PushProvider,
+  context: string,
+  details: {
+    projectId?: string;
+    clientEmail?: string;
+    token?: string;
+    tokenId?: string;
+    userId?: string;
+  },
+) {
+  console.log("[PUSH CONTEXT]", {
+    provider,
+    context,
+    projectId: details.projectId,
+    clientEmail: details.clientEmail,
+    token_prefix: details.token ? details.token.slice(0, 12) + "…" : undefined,
+    token_id: details.tokenId,
+    user_id: details.userId,
+    at: new Date().toISOString(),
+  });
+}
+
+function logPushError(
+  provider: PushProvider,
+  details: { status?: number; body: string },
+) {
+  console.error("[PUSH ERROR]", {
+    provider,
+    status: details.status,
+    body: details.body.slice(0, LOG_BODY_MAX),
+    at: new Date().toISOString(),
+  });
+}
+
+// fetch rejected before any HTTP status: transient, the send is retried
+function networkError(provider: PushProvider, error: unknown): SendResult {
+  const message = error instanceof Error ? error.message : String(error);
+  logPushError(provider, { body: `network_error:${message}` });
+  return { ok: false, permanent: false, reason: `network_error:${message}` };
+}
+
+// ---------------------------------------------------------------------------
+// FCM HTTP v1
+// ---------------------------------------------------------------------------
+
+function createFcmTransport(deps: TransportDeps): PushTransport {
+  const fetchFn = deps.fetchFn ?? fetch;
+  const getEnv = deps.getEnv ?? ((name: string) => Deno.env.get(name));
+  const now = deps.now ?? Date.now;
+  const auth = createAuthCache<{ accessToken: string; projectId: string }>(
+    now,
+  );
+
+  function parseServiceAccount(): ServiceAccount | null {
+    const raw = getEnv("FCM_SERVICE_ACCOUNT");
+    if (!raw) {
+      console.error("FCM_SERVICE_ACCOUNT env missing");
+      return null;
+    }
+    try {
+      return JSON.parse(raw) as ServiceAccount;
+    } catch (error) {
+      console.error("Failed to parse FCM_SERVICE_ACCOUNT", error);
+      return null;
+    }
+  }
+
+  function config(): { sa: ServiceAccount; projectId: string } | null {
+    const sa = parseServiceAccount();
+    if (!sa?.client_email || !sa?.private_key) {
+      console.error("FCM service account missing email or private key");
+      return null;
+    }
+    const projectId = sa.project_id ?? getEnv("FCM_PROJECT_ID");
+    if (!projectId) {
+      console.error(
+        "project_id missing (use service account project_id or FCM_PROJECT_ID env)",
+      );
+      return null;
+    }
+    return { sa, projectId };
+  }
+
+  async function loadAccessToken(
+    { sa, projectId }: { sa: ServiceAccount; projectId: string },
+  ): Promise<
+    AuthEntry<{ accessToken: string; projectId: string }> | null
+  > {
+    const tokenUri = sa.token_uri ?? "https://oauth2.googleapis.com/token";
+
+    logPushContext("fcm", "service_account_loaded", {
+      projectId,
+      clientEmail: sa.client_email,
+    });
+
+    let jwt: string;
+    try {
+      const iat = Math.floor(now() / 1000);
+      jwt = await signJwt(
+        { alg: "RS256", typ: "JWT" },
+        {
+          iss: sa.client_email,
+          sub: sa.client_email,
+          scope: FCM_SCOPE,
+          aud: tokenUri,
+          iat,
+          exp: iat + 3600,
+        },
+        await importPkcs8(sa.private_key, "RS256"),
+      );
+    } catch (error) {
+      console.error("FCM createJwt error", error);
+      return null;
+    }
+
+    const params = new URLSearchParams();
+    params.set("grant_type", "urn:ietf:params:oauth:grant-type:jwt-bearer");
+    params.set("assertion", jwt);
+
+    const response = await fetchFn(tokenUri, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      console.error("Failed to fetch access token", await response.text());
+      return null;
+    }
+
+    const json = (await response.json()) as {
+      access_token?: string;
+      expires_in?: number;
+    };
+    if (!json.access_token || !json.expires_in) {
+      console.error("Malformed token response", json);
+      return null;
+    }
+
+    return {
+      value: { accessToken: json.access_token, projectId },
+      expiresAt: now() + json.expires_in * 1000,
+    };
+  }
+
+  return {
+    provider: "fcm",
+    isPermanentError: (_status, body) => isPermanentTokenError(body),
+    async send(token, message, meta) {
+      const cfg = config();
+      if (!cfg) {
+        return {
+          ok: false,
+          permanent: false,
+          reason: "missing_service_account",
+        };
+      }
+
+      let creds: { accessToken: string; projectId: string } | null;
+      try {
+        creds = await auth.get("fcm", () => loadAccessToken(cfg));
+      } catch (error) {
+        return networkError("fcm", error);
+      }
+      if (!creds) {
+        // Token endpoint refused or answered garbage: transient, retried later
+        return { ok: false, permanent: false, reason: "fcm_auth_failed" };
+      }
+
+      logPushContext("fcm", "sending_push", {
+        projectId: creds.projectId,
+        token,
+        userId: meta?.userId,
+        tokenId: meta?.tokenId,
+      });
+
+      let response: Response;
+      try {
+        response = await fetchFn(
+          `https://fcm.googleapis.com/v1/projects/${creds.projectId}/messages:send`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${creds.accessToken}`,
+            },
+            body: JSON.stringify({
+              message: {
+                token,
+                notification: { title: message.title, body: message.body },
+                data: pushData(message),
+              },
+            }),
+          },
+        );
+      } catch (error) {
+        return networkError("fcm", error);
+      }
+
+      if (!response.ok) {
+        const text = await response.text();
+        logPushError("fcm", { status: response.status, body: text });
+        if (response.status === 401) auth.invalidate("fcm");
+        // Only treat as permanent if the body clearly indicates a dead token.
+        return {
+          ok: false,
+          permanent: isPermanentTokenError(text),
+          reason: `http_${response.status}:${text}`,
+          retryAfterMs: parseRetryAfter(
+            response.headers.get("retry-after"),
+            now(),
+          ),
+        };
+      }
+
+      const json = (await response.json().catch(() => ({}))) as {
+        error?: { message?: string };
+      };
+      if (json.error) {
+        const reason = json.error.message ?? "unknown_fcm_error";
+        logPushError("fcm", { body: reason });
+        return { ok: false, permanent: isPermanentTokenError(reason), reason };
+      }
+
+      return { ok: true };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// APNs (token-based auth, HTTP/2 negotiated by fetch via ALPN)
+// ---------------------------------------------------------------------------
+
+function createApnsTransport(deps: TransportDeps): PushTransport {
+  const fetchFn = deps.fetchFn ?? fetch;
+  const getEnv = deps.getEnv ?? ((name: string) => Deno.env.get(name));
+  const now = deps.now ?? Date.now;
+  const auth = createAuthCache<string>(now);
+
+  function config() {
+    const keyId = getEnv("APNS_KEY_ID");
+    const teamId = getEnv("APNS_TEAM_ID");
+    const privateKey = getEnv("APNS_PRIVATE_KEY");
+    const topic = getEnv("APNS_TOPIC");
+    if (!keyId || !teamId || !privateKey || !topic) return null;
+    const host = getEnv("APNS_ENVIRONMENT") === "sandbox"
+      ? APNS_HOSTS.sandbox
+      : APNS_HOSTS.production;
+    return { keyId, teamId, privateKey, topic, host };
+  }
+
+  return {
+    provider: "apns",
+    isPermanentError: isPermanentApnsError,
+    async send(token, message, meta) {
+      const cfg = config();
+      if (!cfg) {
+        console.error(
+          "APNs env missing (APNS_KEY_ID/TEAM_ID/PRIVATE_KEY/TOPIC)",
+        );
+        return { ok: false, permanent: false, reason: "missing_apns_config" };
+      }
+      if (!/^[0-9a-fA-F]{64,200}$/.test(token)) {
+        return { ok: false, permanent: true, reason: "apns_invalid_token" };
+      }
+
+      const jwt = await auth.get("apns", async () => {
+        try {
+          const value = await signJwt(
+            { alg: "ES256", kid: cfg.keyId },
+            { iss: cfg.teamId, iat: Math.floor(now() / 1000) },
+            await importPkcs8(cfg.privateKey, "ES256"),
+          );
+          return { value, expiresAt: now() + APNS_JWT_TTL_MS };
+        } catch (error) {
+          console.error("APNs createJwt error", error);
+          return null;
+        }
+      });
+      if (!jwt) {
+        return { ok: false, permanent: false, reason: "apns_jwt_failed" };
+      }
+
+      logPushContext("apns", "sending_push", {
+        token,
+        userId: meta?.userId,
+        tokenId: meta?.tokenId,
+      });
+
+      let response: Response;
+      try {
+        response = await fetchFn(`${cfg.host}/3/device/${token}`, {
+          method: "POST",
+          headers: {
+            authorization: `bearer ${jwt}`,
+            "apns-topic": cfg.topic,
+            "apns-push-type": "alert",
+            "apns-priority": "10",
+            "apns-expiration": String(
+              Math.floor(now() / 1000) + PUSH_TTL_SECONDS,
+            ),
+            "content-type": "application/json",
+          },
+          body: JSON.stringify({
+            aps: {
+              alert: { title: message.title, body: message.body },
+              sound: "default",
+            },
+            ...pushData(message),
+          }),
+        });
+      } catch (error) {
+        return networkError("apns", error);
+      }
+
+      if (response.ok) return { ok: true };
+
+      const text = await response.text();
+      logPushError("apns", { status: response.status, body: text });
+      if (APNS_AUTH_REASONS.has(apnsReason(text))) auth.invalidate("apns");
+      return {
+        ok: false,
+        permanent: isPermanentApnsError(response.status, text),
+        reason: `http_${response.status}:${text}`,
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Web Push (VAPID + aes128gcm)
+// ---------------------------------------------------------------------------
+
+function createWebPushTransport(deps: TransportDeps): PushTransport {
+  const fetchFn = deps.fetchFn ?? fetch;
+  const getEnv = deps.getEnv ?? ((name: string) => Deno.env.get(name));
+  const now = deps.now ?? Date.now;
+  // One VAPID JWT per push service origin (aud claim)
+  const auth = createAuthCache<string>(now);
+
+  return {
+    provider: "webpush",
+    isPermanentError: isPermanentWebPushError,
+    async send(token, message, meta) {
+      const publicKey = getEnv("VAPID_PUBLIC_KEY");
+      const privateKey = getEnv("VAPID_PRIVATE_KEY");
+      const subject = getEnv("VAPID_SUBJECT");
+      if (!publicKey || !privateKey || !subject) {
+        console.error(
+          "VAPID env missing (VAPID_PUBLIC_KEY/PRIVATE_KEY/SUBJECT)",
+        );
+        return { ok: false, permanent: false, reason: "missing_vapid_config" };
+      }
+
+      const subscription = parseWebPushSubscription(token);
+      if (!subscription) {
+        return {
+          ok: false,
+          permanent: true,
+          reason: "webpush_invalid_subscription",
+        };
+      }
+
+      const audience = new URL(subscription.endpoint).origin;
+      const jwt = await auth.get(audience, async () => {
+        try {
+          const exp = Math.floor(now() / 1000) + VAPID_JWT_TTL_SECONDS;
+          const value = await signJwt(
+            { typ: "JWT", alg: "ES256" },
+            { aud: audience, exp, sub: subject },
+            await importVapidPrivateKey(publicKey, privateKey),
+          );
+          return { value, expiresAt: exp * 1000 };
+        } catch (error) {
+          console.error("VAPID createJwt error", error);
+          return null;
+        }
+      });
+      if (!jwt) {
+        return { ok: false, permanent: false, reason: "vapid_jwt_failed" };
+      }
+
+      logPushContext("webpush", "sending_push", {
+        token: subscription.endpoint,
+        userId: meta?.userId,
+        tokenId: meta?.tokenId,
+      });
+
+      let body: Uint8Array<ArrayBuffer>;
+      try {
+        body = await encryptWebPushPayload(
+          new TextEncoder().encode(
+            JSON.stringify({
+              title: message.title,
+              body: message.body,
+              ...pushData(message),
+            }),
+          ),
+          subscription.p256dh,
+          subscription.auth,
+        );
+      } catch (error) {
+        // Malformed p256dh / auth key material: this subscription can never be encrypted to
+        const reason = `webpush_encrypt_failed:${
+          error instanceof Error ? error.message : String(error)
+        }`;
+        logPushError("webpush", { body: reason });
+        return { ok: false, permanent: true, reason };
+      }
+
+      let response: Response;
+      try {
+        response = await fetchFn(subscription.endpoint, {
+          method: "POST",
+          headers: {
+            Authorization: `vapid t=${jwt}, k=${publicKey}`,
+            "Content-Encoding": "aes128gcm",
+            "Content-Type": "application/octet-stream",
+            TTL: String(PUSH_TTL_SECONDS),
+            Urgency: "normal",
+          },
+          body,
+        });
+      } catch (error) {
+        return networkError("webpush", error);
+      }
+
+      if (response.ok) return { ok: true };
+
+      const text = await response.text();
+      logPushError("webpush", { status: response.status, body: text });
+      if (response.status === 401 || response.status === 403) {
+        auth.invalidate(audience);
+      }
+      return {
+        ok: false,
+        permanent: isPermanentWebPushError(response.status, text),
+        reason: `http_${response.status}:${text}`,
+        retryAfterMs: parseRetryAfter(
+          response.headers.get("retry-after"),
+          now(),
+        ),
+      };
+    },
+  };
+}
+
+function parseWebPushSubscription(token: string): WebPushSubscription | null {
+  try {
+    const parsed = JSON.parse(token) as {
+      endpoint?: unknown;
+      keys?: { p256dh?: unknown; auth?: unknown };
+    };
+    const endpoint = String(parsed.endpoint ?? "");
+    // device_tokens rows are client-supplied: unparseable endpoints are invalid
+    if (new URL(endpoint).protocol !== "https:") return null;
+    const p256dh = base64UrlDecode(String(parsed.keys?.p256dh ?? ""));
+    const auth = base64UrlDecode(String(parsed.keys?.auth ?? ""));
+    // Uncompressed P-256 point + 16-byte auth secret (RFC 8291 §3)
+    if (p256dh.length !== 65 || p256dh[0] !== 0x04 || auth.length !== 16) {
+      return null;
+    }
+    return { endpoint, p256dh, auth };
+  } catch (_) {
+    return null;
+  }
+}
+
+/**
+ * RFC 8291 message encryption, single aes128gcm record (RFC 8188):
+ * header = salt(16) | record size(4) | keyid len(1) | server public key(65)
+ */
+export async function encryptWebPushPayload(
+  plaintext: Uint8Array<ArrayBuffer>,
+  clientPublicKey: Uint8Array<ArrayBuffer>,
+  authSecret: Uint8Array<ArrayBuffer>,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const serverKeys = await crypto.subtle.generateKey(
+    { name: "ECDH", namedCurve: "P-256" },
+    true,
+    ["deriveBits"],
+  );
+  const serverPublicKey = new Uint8Array(
+    await crypto.subtle.exportKey("raw", serverKeys.publicKey),
+  );
+  const clientKey = await crypto.subtle.importKey(
+    "raw",
+    clientPublicKey,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    [],
+  );
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "ECDH", public: clientKey },
+      serverKeys.privateKey,
+      256,
+    ),
+  );
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const { cek, nonce } = await deriveWebPushKeys(
+    ecdhSecret,
+    authSecret,
+    salt,
+    clientPublicKey,
+    serverPublicKey,
+  );
+
+  // 0x02 = padding delimiter of the last (only) record
+  const padded = concatBytes(plaintext, new Uint8Array([2]));
+  const key = await crypto.subtle.importKey("raw", cek, "AES-GCM", false, [
+    "encrypt",
+  ]);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: "AES-GCM", iv: nonce }, key, padded),
+  );
+
+  const header = new Uint8Array(16 + 4 + 1 + serverPublicKey.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, WEBPUSH_RECORD_SIZE);
+  header[20] = serverPublicKey.length;
+  header.set(serverPublicKey, 21);
+  return concatBytes(header, ciphertext);
+}
+
+// Shared by encryption and the test decryptor: ECDH secret -> content key + nonce
+export async function deriveWebPushKeys(
+  ecdhSecret: Uint8Array<ArrayBuffer>,
+  authSecret: Uint8Array<ArrayBuffer>,
+  salt: Uint8Array<ArrayBuffer>,
+  clientPublicKey: Uint8Array<ArrayBuffer>,
+  serverPublicKey: Uint8Array<ArrayBuffer>,
+) {
+  const encoder = new TextEncoder();
+  const ikm = await hkdf(
+    authSecret,
+    ecdhSecret,
+    concatBytes(
+      encoder.encode("WebPush: info\0"),
+      clientPublicKey,
+      serverPublicKey,
+    ),
+    32,
+  );
+  return {
+    cek: await hkdf(
+      salt,
+      ikm,
+      encoder.encode("Content-Encoding: aes128gcm\0"),
+      16,
+    ),
+    nonce: await hkdf(
+      salt,
+      ikm,
+      encoder.encode("Content-Encoding: nonce\0"),
+      12,
+    ),
+  };
+}
+
+async function hkdf(
+  salt: Uint8Array<ArrayBuffer>,
+  ikm: Uint8Array<ArrayBuffer>,
+  info: Uint8Array<ArrayBuffer>,
+  length: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const key = await crypto.subtle.importKey("raw", ikm, "HKDF", false, [
+    "deriveBits",
+  ]);
+  return new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "HKDF", hash: "SHA-256", salt, info },
+      key,
+      length * 8,
+    ),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// JWT + key helpers
+// ---------------------------------------------------------------------------
+
+async function signJwt(
+  header: Record<string, unknown>,
+  claims: Record<string, unknown>,
+  key: CryptoKey,
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const unsigned = `${
+    base64UrlEncode(encoder.encode(JSON.stringify(header)))
+  }.${base64UrlEncode(encoder.encode(JSON.stringify(claims)))}`;
+  // ECDSA in WebCrypto already returns the raw r|s signature JWS expects
+  const algorithm = key.algorithm.name === "ECDSA"
+    ? { name: "ECDSA", hash: "SHA-256" }
+    : { name: "RSASSA-PKCS1-v1_5" };
+  const signature = await crypto.subtle.sign(
+    algorithm,
+    key,
+    encoder.encode(unsigned),
+  );
+  return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+function importPkcs8(pem: string, alg: "RS256" | "ES256"): Promise<CryptoKey> {
+  const cleaned = pem.replace(/-----[^-]+-----/g, "").replace(/\s+/g, "");
+  const binaryDer = Uint8Array.from(atob(cleaned), (c) => c.charCodeAt(0));
+  return crypto.subtle.importKey(
+    "pkcs8",
+    binaryDer,
+    alg === "RS256"
+      ? { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }
+      : { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"],
+  );
+}
+
+// VAPID keys are distributed as raw base64url: public = 65-byte point, private = 32-byte d
+function importVapidPrivateKey(
+  publicKey: string,
+  privateKey: string,
+): Promise<CryptoKey> {
+  const point = base64UrlDecode(publicKey);
+  if (point.length !== 65 || point[0] !== 0x04) {
+    throw new Error("VAPID_PUBLIC_KEY must be an uncompressed P-256 point");
+  }
+  return crypto.subtle.importKey(
+    "jwk",
+    {
+      kty: "EC",
+      crv: "P-256",
+      d: privateKey,
+      x: base64UrlEncode(point.slice(1, 33)),
+      y: base64UrlEncode(point.slice(33, 65)),
+    },
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"],
+  );
+}
+
+function concatBytes(
+  ...parts: Uint8Array<ArrayBuffer>[]
+): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function base64UrlEncode(data: Uint8Array): string {
+  const base64 = btoa(String.fromCharCode(...data));
+  return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
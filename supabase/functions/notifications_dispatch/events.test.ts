@@ -0,0 +1,163 @@
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+import {
+  isNotificationKind,
+  NOTIFICATION_KINDS,
+  type NotificationPayloads,
+  renderEvent,
+} from "./events.ts";
+import { SUPPORTED_LOCALES } from "../notifications_daily/templates.ts";
+
+const PAYLOADS: NotificationPayloads = {
+  chore_assigned: {
+    chore_id: "c1",
+    chore_name: "Take out the bins",
+    actor_name: "Sam",
+  },
+  expense_owed: {
+    expense_id: "e1",
+    description: "Groceries",
+    amount_cents: 1250,
+    payer_name: "Ana",
+  },
+  expense_reminder: {
+    expense_id: "e1",
+    description: "Rent",
+    stage: "overdue",
+    due_date: "2026-03-01",
+    days: 14,
+    payer_name: "Ana",
+  },
+  gratitude_mention: { post_id: "p1", author_name: "Lee" },
+  house_pulse_weekly: { iso_week_year: 2026, iso_week: 12 },
+  subscription_status: {
+    status: "in_grace",
+    previous_status: "active",
+    until: "2026-03-17T00:00:00.000Z",
+    audience: "subscriber",
+  },
+};
+
+Deno.test("every kind renders in every locale with a deep link", () => {
+  for (const kind of NOTIFICATION_KINDS) {
+    for (const locale of SUPPORTED_LOCALES) {
+      const rendered = renderEvent({ kind, payload: PAYLOADS[kind] }, locale)!;
+      assertEquals(rendered.template_id, `${kind}_v1`);
+      assert(rendered.deepLink.startsWith("/"));
+      assert(rendered.body.length > 0);
+      assert(
+        !/[{}]/.test(rendered.body),
+        `${locale}/${kind}: ${rendered.body}`,
+      );
+    }
+  }
+});
+
+Deno.test("deep links are per kind, not /today", () => {
+  const link = (kind: keyof NotificationPayloads) =>
+    renderEvent({ kind, payload: PAYLOADS[kind] }, "en")!.deepLink;
+
+  assertEquals(link("chore_assigned"), "/chores/c1");
+  assertEquals(link("expense_owed"), "/expenses/e1");
+  assertEquals(link("expense_reminder"), "/expenses/e1");
+  assertEquals(link("gratitude_mention"), "/gratitude/p1");
+  assertEquals(link("house_pulse_weekly"), "/house-pulse");
+  assertEquals(link("subscription_status"), "/premium");
+});
+
+Deno.test("names are optional and user text is never parsed as a pattern", () => {
+  assertEquals(
+    renderEvent({
+      kind: "chore_assigned",
+      payload: {
+        chore_id: "c1",
+        chore_name: "Fix {the} sink",
+        actor_name: null,
+      },
+    }, "en-US")!.body,
+    "You were assigned “Fix {the} sink”.",
+  );
+  assertEquals(
+    renderEvent({ kind: "expense_owed", payload: PAYLOADS.expense_owed }, "es")!
+      .body,
+    "Le debes a Ana por “Groceries”.",
+  );
+});
+
+Deno.test("expense reminders escalate copy by stage", () => {
+  const body = (
+    payload: Partial<NotificationPayloads["expense_reminder"]>,
+    locale = "en",
+  ) =>
+    renderEvent({
+      kind: "expense_reminder",
+      payload: { ...PAYLOADS.expense_reminder, ...payload },
+    }, locale)!;
+
+  assertEquals(
+    body({ stage: "due_soon", days: 1 }).body,
+    "Heads up: your share of “Rent” is due in 1 day.",
+  );
+  assertEquals(
+    body({ stage: "due_today", days: 0 }).body,
+    "Your share of “Rent” is due today.",
+  );
+  assertEquals(
+    body({}).body,
+    "Ana is still waiting on your share of “Rent” (2 weeks overdue).",
+  );
+  assertEquals(
+    body({ payer_name: null, days: 7 }, "es").body,
+    "Tu parte de “Rent” sigue sin pagar (1 semana de retraso).",
+  );
+  // Upcoming plan cycle: no expense yet
+  assertEquals(
+    body({ expense_id: null, plan_id: "p1", stage: "due_soon", days: 3 })
+      .deepLink,
+    "/expenses",
+  );
+});
+
+Deno.test("subscription status copy follows the lifecycle step and audience", () => {
+  const body = (
+    payload: Partial<NotificationPayloads["subscription_status"]>,
+    locale = "en",
+  ) =>
+    renderEvent({
+      kind: "subscription_status",
+      payload: { ...PAYLOADS.subscription_status, ...payload },
+    }, locale)!.body;
+
+  assertEquals(
+    body({}),
+    "We couldn't renew Kinly Premium. Update your payment method to keep Premium for your home.",
+  );
+  assertEquals(
+    body({ status: "on_hold", audience: "home_owner" }),
+    "Your home's Kinly Premium is on hold: a member's payment didn't go through.",
+  );
+  assertEquals(
+    body({ status: "active", previous_status: "on_hold" }),
+    "Your payment went through. Kinly Premium is back for your home.",
+  );
+  const steps = [
+    "active",
+    "in_grace",
+    "on_hold",
+    "cancelled_pending_expiry",
+    "expired",
+  ] as const;
+  for (const audience of ["subscriber", "home_owner"] as const) {
+    assertEquals(
+      new Set(steps.map((status) => body({ status, audience }))).size,
+      steps.length,
+      `${audience}: one message per step`,
+    );
+  }
+});
+
+Deno.test("unknown kinds are not rendered", () => {
+  assertEquals(renderEvent({ kind: "streak", payload: {} }, "en"), null);
+  assert(!isNotificationKind("toString"));
+  assert(isNotificationKind("house_pulse_weekly"));
+});
@@ -0,0 +1,223 @@
+// supabase/functions/notifications_dispatch/events.ts
+// Typed catalog of event-driven push kinds (notification_events.kind).
+// - Each kind declares its payload shape (written by the emitter trigger), a deep link and
+//   per-locale copy in the same ICU subset as notifications_daily/templates.ts.
+// - template_id is `<kind>_<version>`; bump the version when a kind's wording changes.
+// - Adding a kind: extend the SQL check constraints + emitter, then add an entry here.
+
+import {
+  formatMessage,
+  resolveLocale,
+} from "../notifications_daily/templates.ts";
+
+export type NotificationPayloads = {
+  chore_assigned: {
+    chore_id: string;
+    chore_name: string;
+    actor_name?: string | null;
+  };
+  expense_owed: {
+    expense_id: string;
+    description: string;
+    amount_cents?: number;
+    payer_name?: string | null;
+  };
+  expense_reminder: {
+    // Set for a share of an existing expense; plan_id alone = upcoming plan cycle
+    expense_id?: string | null;
+    plan_id?: string | null;
+    description: string;
+    stage: "due_soon" | "due_today" | "overdue";
+    due_date: string;
+    days: number; // due_soon: days until due; overdue: days past due
+    payer_name?: string | null;
+  };
+  gratitude_mention: {
+    post_id: string;
+    author_name?: string | null;
+  };
+  house_pulse_weekly: {
+    iso_week_year: number;
+    iso_week: number;
+    pulse_state?: string;
+  };
+  subscription_status: {
+    // Lifecycle step the subscription entered (active = recovered from a billing problem)
+    status:
+      | "active"
+      | "in_grace"
+      | "on_hold"
+      | "cancelled_pending_expiry"
+      | "expired";
+    previous_status?: string | null;
+    until?: string | null; // in_grace: grace end; cancelled_pending_expiry: period end
+    audience: "subscriber" | "home_owner";
+  };
+};
+
+export type NotificationKind = keyof NotificationPayloads;
+
+export type NotificationEvent<K extends NotificationKind = NotificationKind> = {
+  kind: K;
+  payload: NotificationPayloads[K];
+};
+
+export type RenderedEvent = {
+  template_id: string;
+  title: string;
+  body: string;
+  deepLink: string;
+};
+
+type EventSpec<K extends NotificationKind> = {
+  version: string;
+  deepLink: (payload: NotificationPayloads[K]) => string;
+  values: (
+    payload: NotificationPayloads[K],
+  ) => Record<string, string | number>;
+  templates: Record<string, string>;
+};
+
+const TITLE = "Kinly";
+const MAX_VALUE_LENGTH = 60;
+
+export const EVENT_CATALOG: {
+  [K in NotificationKind]: EventSpec<K>;
+} = {
+  chore_assigned: {
+    version: "v1",
+    deepLink: (p) => `/chores/${encodeURIComponent(p.chore_id)}`,
+    values: (p) => ({
+      chore: clip(p.chore_name),
+      actor: clip(p.actor_name),
+      actor_known: p.actor_name ? "yes" : "no",
+    }),
+    templates: {
+      en:
+        "{actor_known, select, yes {{actor} assigned you “{chore}”.} other {You were assigned “{chore}”.}}",
+      es:
+        "{actor_known, select, yes {{actor} te asignó “{chore}”.} other {Te asignaron “{chore}”.}}",
+      ar:
+        "{actor_known, select, yes {كلّفك {actor} بمهمة “{chore}”.} other {تم تكليفك بمهمة “{chore}”.}}",
+    },
+  },
+  expense_owed: {
+    version: "v1",
+    deepLink: (p) => `/expenses/${encodeURIComponent(p.expense_id)}`,
+    values: (p) => ({
+      description: clip(p.description),
+      payer: clip(p.payer_name),
+      payer_known: p.payer_name ? "yes" : "no",
+    }),
+    templates: {
+      en:
+        "{payer_known, select, yes {You owe {payer} for “{description}”.} other {You have a new expense to settle: “{description}”.}}",
+      es:
+        "{payer_known, select, yes {Le debes a {payer} por “{description}”.} other {Tienes un nuevo gasto por saldar: “{description}”.}}",
+      ar:
+        "{payer_known, select, yes {عليك دفع حصتك لـ{payer} مقابل “{description}”.} other {لديك مصروف جديد للتسوية: “{description}”.}}",
+    },
+  },
+  expense_reminder: {
+    version: "v1",
+    deepLink: (p) =>
+      p.expense_id
+        ? `/expenses/${encodeURIComponent(p.expense_id)}`
+        : "/expenses",
+    values: (p) => ({
+      stage: p.stage,
+      description: clip(p.description),
+      days: p.days,
+      weeks: Math.max(1, Math.floor(p.days / 7)),
+      payer: clip(p.payer_name),
+      payer_known: p.payer_name ? "yes" : "no",
+    }),
+    templates: {
+      en:
+        "{stage, select, due_soon {Heads up: your share of “{description}” is due in {days, plural, one {# day} other {# days}}.} due_today {Your share of “{description}” is due today.} other {{payer_known, select, yes {{payer} is still waiting on your share of “{description}”} other {Your share of “{description}” is still unpaid}} ({weeks, plural, one {# week} other {# weeks}} overdue).}}",
+      es:
+        "{stage, select, due_soon {Aviso: tu parte de “{description}” vence en {days, plural, one {# día} other {# días}}.} due_today {Tu parte de “{description}” vence hoy.} other {{payer_known, select, yes {{payer} sigue esperando tu parte de “{description}”} other {Tu parte de “{description}” sigue sin pagar}} ({weeks, plural, one {# semana} other {# semanas}} de retraso).}}",
+      ar:
+        "{stage, select, due_soon {تنبيه: حصتك من “{description}” مستحقة خلال {days, plural, one {يوم واحد} two {يومين} few {# أيام} many {# يومًا} other {# يوم}}.} due_today {حصتك من “{description}” مستحقة اليوم.} other {{payer_known, select, yes {لا يزال {payer} ينتظر حصتك من “{description}”} other {حصتك من “{description}” لم تُدفع بعد}} (متأخرة {weeks, plural, one {أسبوعًا واحدًا} two {أسبوعين} few {# أسابيع} many {# أسبوعًا} other {# أسبوع}}).}}",
+    },
+  },
+  gratitude_mention: {
+    version: "v1",
+    deepLink: (p) => `/gratitude/${encodeURIComponent(p.post_id)}`,
+    values: (p) => ({
+      author: clip(p.author_name),
+      author_known: p.author_name ? "yes" : "no",
+    }),
+    templates: {
+      en:
+        "{author_known, select, yes {{author} mentioned you on the gratitude wall.} other {You were mentioned on the gratitude wall.}}",
+      es:
+        "{author_known, select, yes {{author} te mencionó en el muro de gratitud.} other {Te mencionaron en el muro de gratitud.}}",
+      ar:
+        "{author_known, select, yes {أشار إليك {author} على جدار الامتنان.} other {تمت الإشارة إليك على جدار الامتنان.}}",
+    },
+  },
+  house_pulse_weekly: {
+    version: "v1",
+    deepLink: () => "/house-pulse",
+    values: () => ({}),
+    templates: {
+      en: "This week's house pulse is ready. Tap to see how home is feeling.",
+      es:
+        "El pulso de la casa de esta semana está listo. Toca para ver cómo va el hogar.",
+      ar: "نبض البيت لهذا الأسبوع جاهز. اضغط لترى حال البيت.",
+    },
+  },
+  subscription_status: {
+    version: "v1",
+    deepLink: () => "/premium",
+    values: (p) => ({ status: p.status, audience: p.audience }),
+    templates: {
+      en:
+        "{audience, select, subscriber {{status, select, in_grace {We couldn't renew Kinly Premium. Update your payment method to keep Premium for your home.} on_hold {Kinly Premium is on hold because your payment didn't go through. Update your payment method to restore it.} cancelled_pending_expiry {Kinly Premium won't renew. Your home keeps Premium until the end of this period.} expired {Kinly Premium has ended. Your home is back on the free plan.} other {Your payment went through. Kinly Premium is back for your home.}}} other {{status, select, in_grace {A payment for your home's Kinly Premium didn't go through. Premium stays on while it's retried.} on_hold {Your home's Kinly Premium is on hold: a member's payment didn't go through.} cancelled_pending_expiry {Your home's Kinly Premium won't renew and ends after this period.} expired {Your home's Kinly Premium has ended. You're back on the free plan.} other {Your home's Kinly Premium is back.}}}}",
+      es:
+        "{audience, select, subscriber {{status, select, in_grace {No pudimos renovar Kinly Premium. Actualiza tu método de pago para mantener Premium en tu hogar.} on_hold {Kinly Premium está en pausa porque tu pago no se completó. Actualiza tu método de pago para recuperarlo.} cancelled_pending_expiry {Kinly Premium no se renovará. Tu hogar mantiene Premium hasta el final de este periodo.} expired {Kinly Premium ha terminado. Tu hogar vuelve al plan gratuito.} other {Tu pago se completó. Kinly Premium vuelve a tu hogar.}}} other {{status, select, in_grace {Un pago de Kinly Premium de tu hogar no se completó. Premium sigue activo mientras se reintenta.} on_hold {Kinly Premium de tu hogar está en pausa: el pago de un miembro no se completó.} cancelled_pending_expiry {Kinly Premium de tu hogar no se renovará y termina al final de este periodo.} expired {Kinly Premium de tu hogar ha terminado. Vuelven al plan gratuito.} other {Kinly Premium vuelve a tu hogar.}}}}",
+      ar:
+        "{audience, select, subscriber {{status, select, in_grace {تعذّر تجديد Kinly Premium. حدّث طريقة الدفع لتحافظ على Premium لبيتك.} on_hold {تم تعليق Kinly Premium لأن الدفع لم يتم. حدّث طريقة الدفع لاستعادته.} cancelled_pending_expiry {لن يتجدد Kinly Premium. سيبقى Premium لبيتك حتى نهاية هذه الفترة.} expired {انتهى Kinly Premium. عاد بيتك إلى الخطة المجانية.} other {تم الدفع بنجاح. عاد Kinly Premium إلى بيتك.}}} other {{status, select, in_grace {لم يتم دفع اشتراك Kinly Premium لبيتك. يبقى Premium مفعّلًا أثناء إعادة المحاولة.} on_hold {تم تعليق Kinly Premium لبيتك: لم يتم دفع أحد الأعضاء.} cancelled_pending_expiry {لن يتجدد Kinly Premium لبيتك وسينتهي بنهاية هذه الفترة.} expired {انتهى Kinly Premium لبيتك. عدتم إلى الخطة المجانية.} other {عاد Kinly Premium إلى بيتك.}}}}",
+    },
+  },
+};
+
+export const NOTIFICATION_KINDS = Object.keys(
+  EVENT_CATALOG,
+) as NotificationKind[];
+
+export function isNotificationKind(kind: string): kind is NotificationKind {
+  return Object.hasOwn(EVENT_CATALOG, kind);
+}
+
+/** null = kind not in this deploy's catalog (emitted by a newer migration). */
+export function renderEvent(
+  event: { kind: string; payload: unknown },
+  locale: string | null | undefined,
+): RenderedEvent | null {
+  if (!isNotificationKind(event.kind)) return null;
+  return renderKnown(
+    event as NotificationEvent,
+    resolveLocale(locale),
+  );
+}
+
+function renderKnown<K extends NotificationKind>(
+  event: NotificationEvent<K>,
+  locale: string,
+): RenderedEvent {
+  const spec = EVENT_CATALOG[event.kind] as EventSpec<K>;
+  const payload = (event.payload ?? {}) as NotificationPayloads[K];
+  const pattern = spec.templates[locale] ?? spec.templates.en;
+  return {
+    template_id: `${event.kind}_${spec.version}`,
+    title: TITLE,
+    body: formatMessage(pattern, locale, spec.values(payload)),
+    deepLink: spec.deepLink(payload),
+  };
+}
+
+function clip(value: string | null | undefined): string {
+  return (value ?? "").trim().slice(0, MAX_VALUE_LENGTH);
+}
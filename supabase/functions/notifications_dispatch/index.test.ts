@@ -0,0 +1,229 @@
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+import {
+  type ClaimedEvent,
+  type DispatchDeps,
+  dispatchEvent,
+  runDispatch,
+} from "./index.ts";
+import {
+  createPushTransports,
+  type SendResult,
+} from "../notifications_daily/transports.ts";
+
+type RpcCall = { fn: string; args: Record<string, unknown> };
+
+function fakeDeps(
+  sendResults: SendResult[],
+  rpcData: Record<string, unknown[]> = {},
+) {
+  const calls: RpcCall[] = [];
+  const sent: string[] = [];
+  const transports = createPushTransports();
+  transports.fcm = {
+    ...transports.fcm,
+    send: (token) => {
+      sent.push(token);
+      return Promise.resolve(sendResults.shift() ?? { ok: true });
+    },
+  };
+  const deps: DispatchDeps = {
+    supabase: {
+      rpc: (fn, args) => {
+        calls.push({ fn, args });
+        const queue = rpcData[fn];
+        const data = queue
+          ? queue.shift()
+          : fn === "notifications_reserve_event_send"
+          ? `send-${calls.length}`
+          : null;
+        return Promise.resolve({ data: data ?? null, error: null });
+      },
+    },
+    transports,
+    frequencyCap: { maxSends: 3, windowHours: 24 },
+    jobRunId: "job-1",
+  };
+  return { deps, calls, sent };
+}
+
+function event(overrides: Partial<ClaimedEvent> = {}): ClaimedEvent {
+  return {
+    event_id: "ev-1",
+    kind: "chore_assigned",
+    recipient_user_id: "u1",
+    home_id: "h1",
+    payload: { chore_id: "c1", chore_name: "Dishes", actor_name: "Sam" },
+    attempts: 1,
+    locale: "en",
+    local_date: "2026-03-22",
+    recent_sends: 0,
+    tokens: [
+      { token_id: "t1", token: "tok-1", provider: "fcm", platform: "android" },
+      { token_id: "t2", token: "tok-2", provider: null, platform: "android" },
+    ],
+    ...overrides,
+  };
+}
+
+function completion(calls: RpcCall[]) {
+  return calls.find((c) => c.fn === "notifications_events_complete")?.args;
+}
+
+Deno.test("dispatchEvent reserves, sends and marks each device then completes as sent", async () => {
+  const { deps, calls, sent } = fakeDeps([]);
+
+  const outcome = await dispatchEvent(deps, event());
+
+  assertEquals(outcome.status, "sent");
+  assertEquals(sent, ["tok-1", "tok-2"]);
+  assertEquals(
+    calls.map((c) => c.fn),
+    [
+      "notifications_reserve_event_send",
+      "notifications_mark_event_send_success",
+      "notifications_reserve_event_send",
+      "notifications_mark_event_send_success",
+      "notifications_events_complete",
+    ],
+  );
+  assertEquals(calls[0].args.p_template_id, "chore_assigned_v1");
+  assertEquals(calls[0].args.p_job_run_id, "job-1");
+  assertEquals(completion(calls), {
+    p_event_id: "ev-1",
+    p_status: "sent",
+    p_error: null,
+  });
+});
+
+Deno.test("dispatchEvent skips recipients at the frequency cap without reserving", async () => {
+  const { deps, calls, sent } = fakeDeps([]);
+
+  const outcome = await dispatchEvent(deps, event({ recent_sends: 3 }));
+
+  assertEquals(outcome.status, "skipped");
+  assertEquals(sent, []);
+  assertEquals(calls.map((c) => c.fn), ["notifications_events_complete"]);
+  assertEquals(completion(calls)?.p_error, "frequency_cap");
+});
+
+Deno.test("dispatchEvent never re-sends to a device that already has the event", async () => {
+  const { deps, sent } = fakeDeps([], {
+    notifications_reserve_event_send: [null, null],
+  });
+
+  const outcome = await dispatchEvent(deps, event());
+
+  assertEquals(outcome.status, "sent");
+  assertEquals(sent, []);
+});
+
+Deno.test("transient failures retry until MAX_ATTEMPTS, permanent ones expire the token", async () => {
+  const transient = fakeDeps([
+    { ok: false, permanent: false, reason: "fcm_error:503" },
+  ]);
+  const retry = await dispatchEvent(
+    transient.deps,
+    event({ tokens: [event().tokens[0]] }),
+  );
+  assertEquals(retry.status, "pending");
+
+  const exhausted = fakeDeps([
+    { ok: false, permanent: false, reason: "fcm_error:503" },
+  ]);
+  const gaveUp = await dispatchEvent(
+    exhausted.deps,
+    event({ attempts: 3, tokens: [event().tokens[0]] }),
+  );
+  assertEquals(gaveUp.status, "failed");
+
+  const dead = fakeDeps([
+    { ok: false, permanent: true, reason: "UNREGISTERED" },
+  ]);
+  const expired = await dispatchEvent(
+    dead.deps,
+    event({ tokens: [event().tokens[0]] }),
+  );
+  assertEquals(expired.status, "failed");
+  assertEquals(expired.expired, 1);
+  assertEquals(
+    dead.calls.find((c) => c.fn === "notifications_mark_token_status")?.args,
+    { p_token_id: "t1", p_status: "expired" },
+  );
+});
+
+Deno.test("dispatchEvent fails kinds missing from the catalog", async () => {
+  const { deps, calls, sent } = fakeDeps([]);
+
+  const outcome = await dispatchEvent(deps, event({ kind: "streak" }));
+
+  assertEquals(outcome.status, "failed");
+  assertEquals(sent, []);
+  assertEquals(completion(calls)?.p_error, "unknown_kind:streak");
+});
+
+Deno.test("runDispatch drains claimed pages and summarizes outcomes", async () => {
+  const { deps, calls } = fakeDeps([], {
+    notifications_events_claim: [
+      [event(), event({ event_id: "ev-2", recent_sends: 5 })],
+    ],
+  });
+
+  const summary = await runDispatch(deps);
+
+  assertEquals(summary.events, 2);
+  assertEquals(summary.sent, 2);
+  assertEquals(summary.byStatus, {
+    sent: 1,
+    skipped: 1,
+    failed: 0,
+    pending: 0,
+  });
+  assertEquals(
+    calls.filter((c) => c.fn === "notifications_events_claim").length,
+    1,
+  );
+});
+
+Deno.test("runDispatch completes a throwing event and keeps draining the page", async () => {
+  const { deps, calls, sent } = fakeDeps([], {
+    notifications_events_claim: [
+      [
+        event(),
+        event({ event_id: "ev-2", attempts: 3 }),
+        event({
+          event_id: "ev-3",
+        }),
+      ],
+    ],
+  });
+  const send = deps.transports.fcm.send;
+  let throws = 2;
+  deps.transports.fcm = {
+    ...deps.transports.fcm,
+    send: (token, message, meta) => {
+      if (throws-- > 0) throw new Error("transport bug");
+      return send(token, message, meta);
+    },
+  };
+
+  const summary = await runDispatch(deps);
+
+  assertEquals(summary.byStatus, {
+    sent: 1,
+    skipped: 0,
+    failed: 1,
+    pending: 1,
+  });
+  assertEquals(sent, ["tok-1", "tok-2"]);
+  assertEquals(
+    calls
+      .filter((c) => c.fn === "notifications_events_complete")
+      .map((c) => [c.args.p_event_id, c.args.p_status, c.args.p_error]),
+    [
+      ["ev-1", "pending", "dispatch_error:transport bug"],
+      ["ev-2", "failed", "dispatch_error:transport bug"],
+      ["ev-3", "sent", null],
+    ],
+  );
+});
@@ -0,0 +1,417 @@
+// supabase/functions/notifications_dispatch/index.ts
+// Drains notification_events (chore assigned, expense owed, gratitude mention, weekly house pulse).
+// - notifications_events_claim settles undeliverable events (opted out, no permission, no token),
+//   defers recipients in quiet hours and claims a page with locale, tokens and recent_sends.
+// - Per event: render from the catalog (events.ts), enforce the rolling frequency cap, then per
+//   token reserve (notifications_reserve_event_send) -> send -> mark success / failure, exactly
+//   like notifications_daily does per (token, local_date).
+// - Event outcome: sent if any device got it; transient-only failures go back to pending until
+//   MAX_ATTEMPTS; unknown kinds fail (catalog is older than the emitter). An event that throws
+//   is completed the same way (pending until MAX_ATTEMPTS) so the rest of the page still runs.
+// - Internal-only: callers send x-internal-secret (NOTIFICATIONS_SHARED_SECRET, fail-closed).
+
+import {
+  createClient,
+  type SupabaseClient,
+} from "npm:@supabase/supabase-js@2.48.0";
+import {
+  createPushTransports,
+  getPushTransport,
+  type PushProvider,
+  type PushTransport,
+} from "../notifications_daily/transports.ts";
+import {
+  type FrequencyCap,
+  isOverFrequencyCap,
+  readFrequencyCap,
+} from "../notifications_daily/frequency_cap.ts";
+import { renderEvent } from "./events.ts";
+
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+export type ClaimedToken = {
+  token_id: string;
+  token: string;
+  provider: string | null;
+  platform: string | null;
+};
+
+export type ClaimedEvent = {
+  event_id: string;
+  kind: string;
+  recipient_user_id: string;
+  home_id: string | null;
+  payload: unknown;
+  attempts: number;
+  locale: string | null;
+  local_date: string;
+  recent_sends: number | null;
+  tokens: ClaimedToken[];
+};
+
+export type EventOutcome = {
+  status: "sent" | "skipped" | "failed" | "pending";
+  error: string | null;
+  sent: number;
+  failed: number;
+  expired: number;
+};
+
+export type DispatchDeps = {
+  supabase: RpcLike;
+  transports: Record<PushProvider, PushTransport>;
+  frequencyCap: FrequencyCap;
+  jobRunId: string;
+};
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+const MAX_ATTEMPTS = 3;
+const ERROR_REASON_MAX_LENGTH = 512;
+
+// One registry per isolate so auth tokens are cached across runs
+const PUSH_TRANSPORTS = createPushTransports();
+
+// ---------------------------------------------------------------------------
+// Main entry
+// ---------------------------------------------------------------------------
+
+if (import.meta.main) {
+  Deno.serve(async (req: Request) => {
+    try {
+      requireInternalSecret(req);
+    } catch (error) {
+      const message = (error as Error).message;
+      return new Response(JSON.stringify({ error: message }), {
+        status: message === "unauthorized" ? 401 : 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseKey) {
+      return new Response(
+        JSON.stringify({
+          error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY",
+        }),
+        { status: 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    const supabase: SupabaseClient = createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const deps: DispatchDeps = {
+      supabase,
+      transports: PUSH_TRANSPORTS,
+      frequencyCap: readFrequencyCap((name) => Deno.env.get(name)),
+      jobRunId: crypto.randomUUID(),
+    };
+    const startedAt = Date.now();
+
+    try {
+      const summary = await runDispatch(deps);
+      const durationMs = Date.now() - startedAt;
+      console.log("[notifications-dispatch] done", {
+        jobRunId: deps.jobRunId,
+        ...summary,
+        durationMs,
+      });
+      return new Response(
+        JSON.stringify({ jobRunId: deps.jobRunId, ...summary, durationMs }),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      );
+    } catch (error) {
+      console.error("notifications-dispatch job error", {
+        jobRunId: deps.jobRunId,
+        error,
+      });
+      return new Response(
+        JSON.stringify({
+          jobRunId: deps.jobRunId,
+          durationMs: Date.now() - startedAt,
+          error: (error as Error).message ?? "unknown_error",
+        }),
+        { status: 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Run loop
+// ---------------------------------------------------------------------------
+
+export async function runDispatch(deps: DispatchDeps) {
+  const summary = {
+    events: 0,
+    sent: 0,
+    failed: 0,
+    tokensExpired: 0,
+    byStatus: { sent: 0, skipped: 0, failed: 0, pending: 0 },
+  };
+
+  // Bounded: events put back to pending may be re-claimed by the next page
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const events = await claimEvents(deps);
+    if (events.length === 0) break;
+
+    for (const event of events) {
+      let outcome: EventOutcome;
+      try {
+        outcome = await dispatchEvent(deps, event);
+      } catch (error) {
+        // Completion itself failed: the event stays processing, keep draining the page
+        console.error("notifications-dispatch complete error", {
+          jobRunId: deps.jobRunId,
+          eventId: event.event_id,
+          error,
+        });
+        outcome = failedOutcome(event, error);
+      }
+      summary.events += 1;
+      summary.sent += outcome.sent;
+      summary.failed += outcome.failed;
+      summary.tokensExpired += outcome.expired;
+      summary.byStatus[outcome.status] += 1;
+    }
+
+    if (events.length < PAGE_SIZE) break;
+  }
+
+  return summary;
+}
+
+async function claimEvents(deps: DispatchDeps): Promise<ClaimedEvent[]> {
+  const { data, error } = await deps.supabase.rpc(
+    "notifications_events_claim",
+    {
+      p_limit: PAGE_SIZE,
+      p_cap_window_hours: deps.frequencyCap.windowHours,
+    },
+  );
+
+  if (error) {
+    console.error("notifications_events_claim error", error);
+    // Fail the job so it's visible (retriable by scheduler)
+    throw new Error(error.message);
+  }
+
+  return (data as ClaimedEvent[] | null) ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// One event: render -> cap -> per-token reserve/send -> complete
+// ---------------------------------------------------------------------------
+
+export async function dispatchEvent(
+  deps: DispatchDeps,
+  event: ClaimedEvent,
+): Promise<EventOutcome> {
+  let outcome: EventOutcome;
+  try {
+    outcome = await deliver(deps, event);
+  } catch (error) {
+    // Transport bug or unexpected RPC shape: don't leave the claimed event processing
+    console.error("notifications-dispatch event error", {
+      jobRunId: deps.jobRunId,
+      eventId: event.event_id,
+      error,
+    });
+    outcome = failedOutcome(event, error);
+  }
+  await completeEvent(deps.supabase, event.event_id, outcome);
+  return outcome;
+}
+
+function failedOutcome(event: ClaimedEvent, error: unknown): EventOutcome {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    status: event.attempts < MAX_ATTEMPTS ? "pending" : "failed",
+    error: truncateReason(`dispatch_error:${message}`, ERROR_REASON_MAX_LENGTH),
+    sent: 0,
+    failed: 0,
+    expired: 0,
+  };
+}
+
+async function deliver(
+  deps: DispatchDeps,
+  event: ClaimedEvent,
+): Promise<EventOutcome> {
+  const counts = { sent: 0, failed: 0, expired: 0 };
+
+  const rendered = renderEvent(event, event.locale);
+  if (!rendered) {
+    return {
+      status: "failed",
+      error: `unknown_kind:${event.kind}`,
+      ...counts,
+    };
+  }
+
+  if (isOverFrequencyCap(event, deps.frequencyCap)) {
+    // Event pushes are timely or not at all: dropped, not deferred
+    return { status: "skipped", error: "frequency_cap", ...counts };
+  }
+
+  let delivered = false;
+  let lastReason: string | null = null;
+  let transientFailure = false;
+
+  for (const token of event.tokens ?? []) {
+    const reservation = await reserveEventSend(
+      deps,
+      event,
+      token.token_id,
+      rendered.template_id,
+    );
+    if (reservation === "duplicate") {
+      // Reserved by an earlier (crashed) attempt: treat as delivered, never double-send
+      delivered = true;
+      continue;
+    }
+    if (reservation === "error") {
+      lastReason = "reserve_failed";
+      transientFailure = true;
+      continue;
+    }
+    const sendId = reservation.sendId;
+
+    const transport = getPushTransport(deps.transports, token.provider);
+    const result = transport
+      ? await transport.send(
+        token.token,
+        {
+          title: rendered.title,
+          body: rendered.body,
+          deepLink: rendered.deepLink,
+          sendId,
+        },
+        { userId: event.recipient_user_id, tokenId: token.token_id },
+      )
+      : {
+        ok: false as const,
+        permanent: false,
+        reason: `unsupported_provider:${token.provider}`,
+      };
+
+    if (result.ok) {
+      await rpcLogged(deps.supabase, "notifications_mark_event_send_success", {
+        p_send_id: sendId,
+      });
+      counts.sent += 1;
+      delivered = true;
+      continue;
+    }
+
+    lastReason = truncateReason(result.reason, ERROR_REASON_MAX_LENGTH);
+    counts.failed += 1;
+    await rpcLogged(deps.supabase, "notifications_update_send_status", {
+      p_send_id: sendId,
+      p_status: "failed",
+      p_error: lastReason,
+    });
+
+    if (result.permanent) {
+      counts.expired += 1;
+      await rpcLogged(deps.supabase, "notifications_mark_token_status", {
+        p_token_id: token.token_id,
+        p_status: "expired",
+      });
+    } else {
+      transientFailure = true;
+    }
+  }
+
+  if (delivered) return { status: "sent", error: null, ...counts };
+  if (transientFailure && event.attempts < MAX_ATTEMPTS) {
+    return { status: "pending", error: lastReason, ...counts };
+  }
+  return {
+    status: "failed",
+    error: lastReason ?? "no_active_token",
+    ...counts,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers: notification_sends + notification_events (all via RPCs)
+// ---------------------------------------------------------------------------
+
+async function reserveEventSend(
+  deps: DispatchDeps,
+  event: ClaimedEvent,
+  tokenId: string,
+  templateId: string,
+): Promise<{ sendId: string } | "duplicate" | "error"> {
+  const { data, error } = await deps.supabase.rpc(
+    "notifications_reserve_event_send",
+    {
+      p_event_id: event.event_id,
+      p_token_id: tokenId,
+      p_local_date: event.local_date,
+      p_job_run_id: deps.jobRunId,
+      p_template_id: templateId,
+    },
+  );
+
+  if (error) {
+    console.error("notifications_reserve_event_send error", error);
+    return "error";
+  }
+
+  // data is the uuid or null if conflict
+  return data ? { sendId: data as string } : "duplicate";
+}
+
+async function completeEvent(
+  supabase: RpcLike,
+  eventId: string,
+  outcome: EventOutcome,
+) {
+  await rpcLogged(supabase, "notifications_events_complete", {
+    p_event_id: eventId,
+    p_status: outcome.status,
+    p_error: outcome.error,
+  });
+}
+
+async function rpcLogged(
+  supabase: RpcLike,
+  fn: string,
+  args: Record<string, unknown>,
+) {
+  const { error } = await supabase.rpc(fn, args);
+  if (error) {
+    console.error(`${fn} error`, error);
+  }
+}
+
+// Same shared secret as notifications_daily (fail-closed)
+export function requireInternalSecret(req: Request) {
+  const expected = Deno.env.get("NOTIFICATIONS_SHARED_SECRET");
+  if (!expected) throw new Error("Missing env NOTIFICATIONS_SHARED_SECRET");
+  const got = req.headers.get("x-internal-secret");
+  if (got !== expected) throw new Error("unauthorized");
+}
+
+// ---------------------------------------------------------------------------
+// Small util (UTF-8 / grapheme-safe truncation)
+// ---------------------------------------------------------------------------
+
+const segmenter = new Intl.Segmenter("en", { granularity: "grapheme" });
+
+function truncateReason(reason: string, maxLength: number): string {
+  const segments = [...segmenter.segment(reason)];
+  if (segments.length <= maxLength) return reason;
+  return segments.slice(0, maxLength).map((s) => s.segment).join("") + "…";
+}
@@ -0,0 +1,345 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@0.224.0";
+
+import {
+  handleReconcileRequest,
+  parseRunOptions,
+  type ReconcileDeps,
+} from "./index.ts";
+import {
+  createMockRevenueCat,
+  MOCK_REVENUECAT_API_KEY,
+  type MockRevenueCat,
+} from "./mock_revenuecat.ts";
+import type { ReconcileCandidate, SubscriptionSnapshot } from "./reconcile.ts";
+import type { RcRestSubscriber } from "./revenuecat.ts";
+import { createRevenueCatClient } from "./revenuecat.ts";
+import {
+  internalSecretHarness,
+  recordingRpc,
+  type RpcCall,
+} from "../test_support.ts";
+
+type RpcError = { message: string; code?: string; details?: string };
+
+const NOW = new Date("2026-03-22T12:00:00Z");
+const PRODUCT = "com.example.kinly.premium.monthly";
+const HOME_ID = "25000000-0000-4000-9000-000000000101";
+
+function row(
+  overrides: Partial<SubscriptionSnapshot> = {},
+): SubscriptionSnapshot {
+  return {
+    entitlement_id: "kinly_premium",
+    status: "active",
+    product_id: PRODUCT,
+    store: "app_store",
+    home_id: HOME_ID,
+    current_period_end_at: "2026-04-01T00:00:00.000Z",
+    grace_until_at: null,
+    original_purchase_at: "2026-01-01T00:00:00.000Z",
+    last_purchase_at: "2026-03-01T00:00:00.000Z",
+    latest_transaction_id: "txn-2",
+    last_event_timestamp: "2026-03-01T00:00:05.000Z",
+    ...overrides,
+  };
+}
+
+function candidate(
+  userId: string,
+  subscriptions: SubscriptionSnapshot[] = [row()],
+): ReconcileCandidate {
+  return {
+    user_id: userId,
+    reason: "stale",
+    current_home_id: HOME_ID,
+    subscriptions,
+  };
+}
+
+function subscriber(expires: string): RcRestSubscriber {
+  return {
+    entitlements: {
+      kinly_premium: { expires_date: expires, product_identifier: PRODUCT },
+    },
+    subscriptions: {
+      [PRODUCT]: {
+        expires_date: expires,
+        purchase_date: "2026-03-01T00:00:00Z",
+        original_purchase_date: "2026-01-01T00:00:00Z",
+        store: "APP_STORE",
+        is_sandbox: false,
+        store_transaction_id: "txn-3",
+      },
+    },
+  };
+}
+
+function fakeDeps(
+  candidates: ReconcileCandidate[],
+  mock: MockRevenueCat,
+  recordErrors: RpcError[] = [],
+  baseUrl = "https://api.revenuecat.test",
+) {
+  const { supabase, calls } = recordingRpc((fn) => {
+    if (fn === "paywall_reconcile_candidates") {
+      return { data: candidates, error: null };
+    }
+    if (fn === "paywall_record_subscription") {
+      return { data: false, error: recordErrors.shift() ?? null };
+    }
+    return { data: null, error: null };
+  });
+  const deps: ReconcileDeps = {
+    supabase,
+    revenuecat: createRevenueCatClient({
+      apiKey: MOCK_REVENUECAT_API_KEY,
+      baseUrl,
+      fetch: mock.fetch,
+    }),
+    jobRunId: "job-1",
+    now: () => NOW,
+  };
+  return { deps, calls };
+}
+
+const { withSecret, request } = internalSecretHarness(
+  "revenuecat_reconcile",
+  "BILLING_INTERNAL_SECRET",
+);
+
+const checks = (calls: RpcCall[]) =>
+  calls
+    .filter((c) => c.fn === "paywall_reconcile_record_check")
+    .map((c) => [c.args.p_user_id, c.args.p_outcome, c.args.p_corrections]);
+
+Deno.test("handleReconcileRequest rejects callers without the internal secret", async () => {
+  await withSecret(async () => {
+    const mock = createMockRevenueCat();
+    const { deps, calls } = fakeDeps([candidate("u1")], mock);
+
+    const res = await handleReconcileRequest(request({}, "nope"), deps);
+
+    assertEquals(res.status, 401);
+    assertEquals(calls, []);
+    assertEquals(mock.requests, []);
+  });
+});
+
+Deno.test("parseRunOptions validates dry_run and limit", () => {
+  assertEquals(parseRunOptions({}), { dryRun: false, limit: 100 });
+  assertEquals(parseRunOptions({ dry_run: true, limit: 5 }), {
+    dryRun: true,
+    limit: 5,
+  });
+  assertThrows(
+    () => parseRunOptions({ dry_run: "yes" }),
+    Error,
+    "invalid_dry_run",
+  );
+  assertThrows(() => parseRunOptions({ limit: 0 }), Error, "invalid_limit");
+  assertThrows(() => parseRunOptions({ limit: 1.5 }), Error, "invalid_limit");
+  assertThrows(() => parseRunOptions({ limit: 501 }), Error, "invalid_limit");
+});
+
+Deno.test("handleReconcileRequest applies RevenueCat's state through paywall_record_subscription", async () => {
+  await withSecret(async () => {
+    const mock = createMockRevenueCat();
+    mock.setSubscriber("u1", subscriber("2026-05-01T00:00:00Z"));
+    mock.setSubscriber("u2", subscriber("2026-04-01T00:00:00Z"));
+    const { deps, calls } = fakeDeps(
+      [candidate("u1", [row({ status: "expired" })]), candidate("u2")],
+      mock,
+    );
+
+    const res = await handleReconcileRequest(request({ limit: 10 }), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(body.users, 2);
+    assertEquals(body.corrected, 1);
+    assertEquals(body.unchanged, 1);
+    assertEquals(body.previews, undefined);
+    assertEquals(mock.requests.map((r) => r.path), [
+      "/v1/subscribers/u1",
+      "/v1/subscribers/u2",
+    ]);
+    assertEquals(calls[0], {
+      fn: "paywall_reconcile_candidates",
+      args: { p_limit: 10, p_stale_after: "24 hours" },
+    });
+
+    const record = calls.find((c) => c.fn === "paywall_record_subscription");
+    assertEquals(
+      record?.args.p_idempotency_key,
+      "reconcile:job-1:u1:kinly_premium",
+    );
+    assertEquals(record?.args.p_user_id, "u1");
+    assertEquals(record?.args.p_home_id, HOME_ID);
+    assertEquals(record?.args.p_store, "app_store");
+    assertEquals(record?.args.p_status, "active");
+    assertEquals(
+      record?.args.p_current_period_end_at,
+      "2026-05-01T00:00:00.000Z",
+    );
+    assertEquals(record?.args.p_latest_transaction_id, "txn-3");
+    assertEquals(record?.args.p_event_timestamp, NOW.toISOString());
+    assertEquals(record?.args.p_environment, "production");
+    // Compare-and-swap against the row that was compared
+    assertEquals(record?.args.p_applied_state, {
+      event_timestamp: "2026-03-01T00:00:05.000Z",
+    });
+
+    assertEquals(checks(calls), [["u1", "corrected", 1], [
+      "u2",
+      "unchanged",
+      0,
+    ]]);
+  });
+});
+
+Deno.test("handleReconcileRequest dry run previews corrections without writing", async () => {
+  await withSecret(async () => {
+    const mock = createMockRevenueCat();
+    mock.setSubscriber("u1", subscriber("2026-05-01T00:00:00Z"));
+    const { deps, calls } = fakeDeps(
+      [candidate("u1", [row({ status: "expired" })])],
+      mock,
+    );
+
+    const res = await handleReconcileRequest(request({ dry_run: true }), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(body.previews, [{
+      user_id: "u1",
+      reason: "stale",
+      entitlement_id: "kinly_premium",
+      home_id: HOME_ID,
+      from: "expired",
+      to: "active",
+      current_period_end_at: "2026-05-01T00:00:00.000Z",
+    }]);
+    assertEquals(calls.map((c) => c.fn), ["paywall_reconcile_candidates"]);
+  });
+});
+
+Deno.test("handleReconcileRequest maps RPC races, lifecycle rejections and failures per user", async () => {
+  await withSecret(async () => {
+    const mock = createMockRevenueCat();
+    for (const id of ["u1", "u2", "u3"]) {
+      mock.setSubscriber(id, subscriber("2026-05-01T00:00:00Z"));
+    }
+    const { deps, calls } = fakeDeps(
+      ["u1", "u2", "u3"].map((id) =>
+        candidate(id, [row({ status: "expired" })])
+      ),
+      mock,
+      [
+        { message: "subscription_state_changed", code: "40001" },
+        {
+          message: "invalid_subscription_transition",
+          code: "22023",
+          details: "expired->active",
+        },
+        { message: "boom" },
+      ],
+    );
+
+    const res = await handleReconcileRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(
+      [body.corrected, body.raced, body.rejected, body.errors],
+      [0, 1, 1, 1],
+    );
+    assertEquals(checks(calls), [
+      ["u1", "raced", 0],
+      ["u2", "rejected", 0],
+      ["u3", "error", 0],
+    ]);
+    assertEquals(
+      calls.find((c) =>
+        c.fn === "paywall_reconcile_record_check" && c.args.p_user_id === "u3"
+      )?.args.p_error,
+      "boom",
+    );
+  });
+});
+
+Deno.test("handleReconcileRequest records unknown subscribers and stops when rate limited", async () => {
+  await withSecret(async () => {
+    const mock = createMockRevenueCat();
+    mock.setSubscriber("u3", subscriber("2026-05-01T00:00:00Z"));
+    mock.failNext(500);
+    const { deps, calls } = fakeDeps(
+      [candidate("u1"), candidate("u2"), candidate("u3")],
+      mock,
+    );
+    // u1: 500, u2: 404, then 429 before u3
+    const getSubscriber = deps.revenuecat.getSubscriber;
+    deps.revenuecat.getSubscriber = (id) => {
+      if (id === "u3") mock.failNext(429);
+      return getSubscriber(id);
+    };
+
+    const res = await handleReconcileRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(body.rateLimited, true);
+    assertEquals([body.users, body.errors, body.notFound], [2, 1, 1]);
+    assertEquals(checks(calls), [["u1", "error", 0], ["u2", "not_found", 0]]);
+  });
+});
+
+Deno.test("handleReconcileRequest fails the run when candidates cannot be read", async () => {
+  await withSecret(async () => {
+    const mock = createMockRevenueCat();
+    const { deps } = fakeDeps([], mock);
+    deps.supabase = {
+      rpc: () => Promise.resolve({ data: null, error: { message: "down" } }),
+    };
+
+    const res = await handleReconcileRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 500);
+    assertEquals(body.error, "down");
+    assertEquals(body.users, 0);
+  });
+});
+
+Deno.test("RevenueCat client talks to the stand-in over local HTTP", async () => {
+  const mock = createMockRevenueCat();
+  mock.setSubscriber("user/1", subscriber("2026-05-01T00:00:00Z"));
+  const server = mock.serve();
+  try {
+    const client = createRevenueCatClient({
+      apiKey: MOCK_REVENUECAT_API_KEY,
+      baseUrl: `${server.baseUrl}/`,
+    });
+
+    const found = await client.getSubscriber("user/1");
+    assertEquals(Object.keys(found?.entitlements ?? {}), ["kinly_premium"]);
+    assertEquals(await client.getSubscriber("nobody"), null);
+    assertEquals(mock.requests.map((r) => r.path), [
+      "/v1/subscribers/user%2F1",
+      "/v1/subscribers/nobody",
+    ]);
+
+    const unauthorized = createRevenueCatClient({
+      apiKey: "wrong",
+      baseUrl: server.baseUrl,
+    });
+    let status: number | null = null;
+    try {
+      await unauthorized.getSubscriber("user/1");
+    } catch (error) {
+      status = (error as { status?: number }).status ?? null;
+    }
+    assertEquals(status, 401);
+  } finally {
+    await server.shutdown();
+  }
+});
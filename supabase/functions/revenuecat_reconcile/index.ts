@@ -0,0 +1,465 @@
+// supabase/functions/revenuecat_reconcile/index.ts
+// RevenueCat REST reconciliation (cron: hourly). Heals home_entitlements after lost webhooks or
+// webhooks rejected before they were applied (missing_home_id, rpc_failure).
+// - paywall_reconcile_candidates pages users with recently failed webhooks, then live
+//   subscriptions not verified within the stale window (nearest period end first).
+// - Each user's subscriber is fetched from GET /v1/subscribers/{user_id} and compared per
+//   entitlement (reconcile.ts, parsed with the webhook's parse.ts helpers).
+// - Differences are written through paywall_record_subscription with a synthetic
+//   reconcile:{jobRunId}:{user}:{entitlement} idempotency key, compare-and-swapped against the
+//   row we read: a webhook applied meanwhile wins (raced), lifecycle violations are rejected.
+// - paywall_reconcile_record_check stamps every verified user; a 429 stops the run and leaves
+//   the remaining users for the next one.
+// Internal-only: callers send x-internal-secret (BILLING_INTERNAL_SECRET, fail-closed).
+// Env: REVENUECAT_SECRET_API_KEY (v1 secret key), REVENUECAT_API_URL (optional, for stand-ins).
+// Optional JSON body:
+// - dry_run: true returns the corrections that would be applied without writing anything
+// - limit: users to verify in this run (1-500, default 100)
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
+import {
+  type Correction,
+  planCorrections,
+  type ReconcileCandidate,
+} from "./reconcile.ts";
+import {
+  createRevenueCatClient,
+  type RcRestSubscriber,
+  type RevenueCatClient,
+  RevenueCatHttpError,
+} from "./revenuecat.ts";
+
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{
+    data: unknown;
+    error: { message: string; code?: string; details?: string } | null;
+  }>;
+};
+
+export type ReconcileRunOptions = {
+  dryRun: boolean;
+  limit: number;
+};
+
+export type ReconcileDeps = {
+  supabase: RpcLike;
+  revenuecat: RevenueCatClient;
+  jobRunId: string;
+  now: () => Date;
+};
+
+export type CorrectionPreview = {
+  user_id: string;
+  reason: ReconcileCandidate["reason"];
+  entitlement_id: string;
+  home_id: string | null;
+  from: string | null;
+  to: string;
+  current_period_end_at: string | null;
+};
+
+export type CheckOutcome =
+  | "unchanged"
+  | "corrected"
+  | "not_found"
+  | "raced"
+  | "rejected"
+  | "error";
+
+type ReconcileSummary = {
+  users: number;
+  notFound: number;
+  unchanged: number;
+  corrected: number;
+  raced: number;
+  rejected: number;
+  skipped: number;
+  errors: number;
+  rateLimited: boolean;
+  previews: CorrectionPreview[];
+};
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const STALE_AFTER = "24 hours";
+const MAX_CONTENT_LENGTH = 4_096;
+const MAX_DRY_RUN_PREVIEWS = 500;
+
+// ---------------------------------------------------------------------------
+// Main entry
+// ---------------------------------------------------------------------------
+
+export async function handleReconcileRequest(
+  req: Request,
+  deps: Partial<ReconcileDeps> = {},
+): Promise<Response> {
+  try {
+    requireInternalSecret(req);
+  } catch (error) {
+    const message = (error as Error).message;
+    return json({ error: message }, message === "unauthorized" ? 401 : 500);
+  }
+
+  let options: ReconcileRunOptions;
+  try {
+    options = parseRunOptions(await readBody(req));
+  } catch (error) {
+    return json({ error: (error as Error).message }, 400);
+  }
+
+  let revenuecat = deps.revenuecat;
+  if (!revenuecat) {
+    const apiKey = Deno.env.get("REVENUECAT_SECRET_API_KEY");
+    if (!apiKey) {
+      return json({ error: "Missing env REVENUECAT_SECRET_API_KEY" }, 500);
+    }
+    revenuecat = createRevenueCatClient({
+      apiKey,
+      baseUrl: Deno.env.get("REVENUECAT_API_URL") || undefined,
+    });
+  }
+
+  let supabase = deps.supabase;
+  if (!supabase) {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseKey) {
+      return json(
+        { error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" },
+        500,
+      );
+    }
+
+    // Internal-only edge function: OK to use service role, gated by x-internal-secret.
+    supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+  }
+
+  const run: ReconcileDeps = {
+    supabase,
+    revenuecat,
+    jobRunId: deps.jobRunId ?? crypto.randomUUID(),
+    now: deps.now ?? (() => new Date()),
+  };
+  const startedAt = Date.now();
+
+  const summary = newSummary();
+  try {
+    await runReconcile(run, options, summary);
+
+    const durationMs = Date.now() - startedAt;
+    const { previews, ...counts } = summary;
+    console.log("[revenuecat-reconcile] done", {
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      durationMs,
+    });
+
+    return json({
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      ...(options.dryRun ? { previews } : {}),
+      durationMs,
+    });
+  } catch (error) {
+    console.error("revenuecat-reconcile job error", {
+      jobRunId: run.jobRunId,
+      error,
+    });
+    const { previews: _previews, ...counts } = summary;
+    return json(
+      {
+        jobRunId: run.jobRunId,
+        ...options,
+        ...counts,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message ?? "unknown_error",
+      },
+      500,
+    );
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleReconcileRequest(req));
+}
+
+// ---------------------------------------------------------------------------
+// Run loop (one page of users)
+// ---------------------------------------------------------------------------
+
+function newSummary(): ReconcileSummary {
+  return {
+    users: 0,
+    notFound: 0,
+    unchanged: 0,
+    corrected: 0,
+    raced: 0,
+    rejected: 0,
+    skipped: 0,
+    errors: 0,
+    rateLimited: false,
+    previews: [],
+  };
+}
+
+// Fills `summary` as it goes so a failed run still reports what was done
+export async function runReconcile(
+  deps: ReconcileDeps,
+  options: ReconcileRunOptions,
+  summary: ReconcileSummary = newSummary(),
+): Promise<ReconcileSummary> {
+  const candidates = await fetchCandidates(deps, options.limit);
+
+  for (const candidate of candidates) {
+    let subscriber: RcRestSubscriber | null;
+    try {
+      subscriber = await deps.revenuecat.getSubscriber(candidate.user_id);
+    } catch (error) {
+      if (error instanceof RevenueCatHttpError && error.status === 429) {
+        summary.rateLimited = true;
+        break;
+      }
+      summary.users += 1;
+      summary.errors += 1;
+      if (!options.dryRun) {
+        await recordCheck(deps, candidate, "error", 0, errorMessage(error));
+      }
+      continue;
+    }
+    summary.users += 1;
+
+    if (!subscriber) {
+      summary.notFound += 1;
+      if (!options.dryRun) await recordCheck(deps, candidate, "not_found", 0);
+      continue;
+    }
+
+    const plan = planCorrections(candidate, subscriber, deps.now());
+    summary.unchanged += plan.unchanged;
+    // Lifecycle violations count as rejected, like the ones the RPC raises
+    const invalid = plan.skipped.filter((s) =>
+      s.reason === "invalid_transition"
+    );
+    summary.rejected += invalid.length;
+    summary.skipped += plan.skipped.length - invalid.length;
+
+    if (options.dryRun) {
+      for (const correction of plan.corrections) {
+        if (summary.previews.length >= MAX_DRY_RUN_PREVIEWS) break;
+        summary.previews.push(preview(candidate, correction));
+      }
+      continue;
+    }
+
+    const outcomes: CheckOutcome[] = invalid.map(() => "rejected");
+    let lastError: string | null = null;
+    for (const correction of plan.corrections) {
+      const outcome = await applyCorrection(deps, candidate, correction);
+      if (outcome === "corrected") summary.corrected += 1;
+      else if (outcome === "raced") summary.raced += 1;
+      else if (outcome === "rejected") summary.rejected += 1;
+      else {
+        summary.errors += 1;
+        lastError = outcome.error;
+      }
+      outcomes.push(typeof outcome === "string" ? outcome : "error");
+    }
+
+    const corrections = outcomes.filter((o) => o === "corrected").length;
+    await recordCheck(
+      deps,
+      candidate,
+      checkOutcome(outcomes),
+      corrections,
+      lastError,
+    );
+  }
+
+  return summary;
+}
+
+// Worst outcome wins: an error or race means the user is not known to be healed
+function checkOutcome(outcomes: CheckOutcome[]): CheckOutcome {
+  for (
+    const outcome of ["error", "raced", "rejected", "corrected"] as const
+  ) {
+    if (outcomes.includes(outcome)) return outcome;
+  }
+  return "unchanged";
+}
+
+async function fetchCandidates(
+  deps: ReconcileDeps,
+  limit: number,
+): Promise<ReconcileCandidate[]> {
+  const { data, error } = await deps.supabase.rpc(
+    "paywall_reconcile_candidates",
+    { p_limit: limit, p_stale_after: STALE_AFTER },
+  );
+
+  if (error) {
+    console.error("paywall_reconcile_candidates error", error);
+    // Fail the job so it's visible (retriable by scheduler)
+    throw new Error(error.message);
+  }
+
+  return (data as ReconcileCandidate[] | null) ?? [];
+}
+
+async function applyCorrection(
+  deps: ReconcileDeps,
+  candidate: ReconcileCandidate,
+  c: Correction,
+): Promise<"corrected" | "raced" | "rejected" | { error: string }> {
+  const { error } = await deps.supabase.rpc("paywall_record_subscription", {
+    p_idempotency_key:
+      `reconcile:${deps.jobRunId}:${candidate.user_id}:${c.entitlementId}`,
+
+    p_user_id: candidate.user_id,
+    p_home_id: c.homeId,
+    p_store: c.store,
+    p_rc_app_user_id: candidate.user_id,
+    p_entitlement_id: c.entitlementId,
+    p_entitlement_ids: [c.entitlementId],
+    p_product_id: c.productId,
+    p_status: c.status,
+    p_current_period_end_at: c.currentPeriodEndAt,
+    p_original_purchase_at: c.originalPurchaseAt,
+    p_last_purchase_at: c.lastPurchaseAt,
+    p_latest_transaction_id: c.latestTransactionId,
+
+    p_event_timestamp: deps.now().toISOString(),
+    p_environment: c.environment,
+    p_raw_event: {
+      source: "revenuecat_reconcile",
+      job_run_id: deps.jobRunId,
+      reason: candidate.reason,
+    },
+    p_warnings: [`reconcile:${candidate.reason}`],
+
+    // Compare-and-swap against the row we compared with ('{}' = no row yet)
+    p_applied_state: c.previous
+      ? { event_timestamp: c.previous.last_event_timestamp }
+      : {},
+
+    p_grace_until_at: c.graceUntilAt,
+  });
+
+  if (!error) return "corrected";
+  if (error.code === "40001") return "raced";
+  if (error.message === "invalid_subscription_transition") return "rejected";
+
+  console.error("paywall_record_subscription error", {
+    jobRunId: deps.jobRunId,
+    user_id: candidate.user_id,
+    entitlement_id: c.entitlementId,
+    error,
+  });
+  return { error: error.message };
+}
+
+async function recordCheck(
+  deps: ReconcileDeps,
+  candidate: ReconcileCandidate,
+  outcome: CheckOutcome,
+  corrections: number,
+  error: string | null = null,
+) {
+  const { error: rpcError } = await deps.supabase.rpc(
+    "paywall_reconcile_record_check",
+    {
+      p_user_id: candidate.user_id,
+      p_outcome: outcome,
+      p_corrections: corrections,
+      p_error: error,
+    },
+  );
+
+  if (rpcError) {
+    console.error("paywall_reconcile_record_check error", rpcError);
+    throw new Error(rpcError.message);
+  }
+}
+
+function preview(
+  candidate: ReconcileCandidate,
+  c: Correction,
+): CorrectionPreview {
+  return {
+    user_id: candidate.user_id,
+    reason: candidate.reason,
+    entitlement_id: c.entitlementId,
+    home_id: c.homeId,
+    from: c.previous?.status ?? null,
+    to: c.status,
+    current_period_end_at: c.currentPeriodEndAt,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return (error as Error)?.message ?? String(error);
+}
+
+// ---------------------------------------------------------------------------
+// Request parsing + auth
+// ---------------------------------------------------------------------------
+
+export function parseRunOptions(body: unknown): ReconcileRunOptions {
+  const b = (body && typeof body === "object" ? body : {}) as Record<
+    string,
+    unknown
+  >;
+
+  if (b.dry_run !== undefined && typeof b.dry_run !== "boolean") {
+    throw new Error("invalid_dry_run");
+  }
+
+  if (
+    b.limit !== undefined &&
+    (typeof b.limit !== "number" || !Number.isInteger(b.limit) ||
+      b.limit < 1 || b.limit > MAX_LIMIT)
+  ) {
+    throw new Error("invalid_limit");
+  }
+
+  return {
+    dryRun: b.dry_run === true,
+    limit: (b.limit as number | undefined) ?? DEFAULT_LIMIT,
+  };
+}
+
+// Billing jobs have their own secret, separate from the notification jobs (fail-closed)
+export function requireInternalSecret(req: Request) {
+  const expected = Deno.env.get("BILLING_INTERNAL_SECRET");
+  if (!expected) throw new Error("Missing env BILLING_INTERNAL_SECRET");
+  const got = req.headers.get("x-internal-secret");
+  if (got !== expected) throw new Error("unauthorized");
+}
+
+async function readBody(req: Request): Promise<unknown> {
+  const cl = Number(req.headers.get("content-length") ?? "0");
+  if (Number.isFinite(cl) && cl > MAX_CONTENT_LENGTH) {
+    throw new Error("payload_too_large");
+  }
+  const text = await req.text();
+  if (!text.trim()) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("invalid_json");
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
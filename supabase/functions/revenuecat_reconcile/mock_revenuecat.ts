@@ -0,0 +1,91 @@
+// supabase/functions/revenuecat_reconcile/mock_revenuecat.ts
+// Deterministic RevenueCat REST stand-in: in-process (`fetch`) or on a local HTTP port (`serve`).
+//
+// Serves the endpoint the reconciliation job calls:
+// - GET /v1/subscribers/{app_user_id}   { request_date, subscriber } | 404 unknown subscriber
+//
+// Subscribers are scripted with setSubscriber; failNext queues HTTP statuses answered (in
+// order) before the next lookups, so tests can drive 429 / 5xx without network.
+// Error bodies follow the REST API: { code, message }.
+import type { RcRestSubscriber } from "./revenuecat.ts";
+
+export const MOCK_REVENUECAT_API_KEY = "sk_mock_revenuecat";
+
+export type MockRevenueCat = {
+  fetch: typeof fetch;
+  // local HTTP server over the same handler (port picked by the OS)
+  serve: () => { baseUrl: string; shutdown: () => Promise<void> };
+  requests: { method: string; path: string }[];
+  setSubscriber: (appUserId: string, subscriber: RcRestSubscriber) => void;
+  failNext: (...statuses: number[]) => void;
+};
+
+export function createMockRevenueCat(opts: {
+  apiKey?: string; // accepted bearer token (default: MOCK_REVENUECAT_API_KEY)
+} = {}): MockRevenueCat {
+  const apiKey = opts.apiKey ?? MOCK_REVENUECAT_API_KEY;
+  const requests: MockRevenueCat["requests"] = [];
+  const subscribers = new Map<string, RcRestSubscriber>();
+  const failures: number[] = [];
+
+  const handle = (req: Request): Response => {
+    const path = new URL(req.url).pathname;
+    requests.push({ method: req.method, path });
+
+    const auth = req.headers.get("authorization") ?? "";
+    if (auth.replace(/^Bearer\s+/i, "") !== apiKey) {
+      return apiError(401, 7225, "Invalid API Key.");
+    }
+
+    const subscriberMatch = /^\/v1\/subscribers\/([^/]+)$/.exec(path);
+    if (req.method === "GET" && subscriberMatch) {
+      const failure = failures.shift();
+      if (failure) return apiError(failure, 7000, "mock failure");
+
+      const subscriber = subscribers.get(
+        decodeURIComponent(subscriberMatch[1]),
+      );
+      if (!subscriber) return apiError(404, 7259, "Subscriber not found.");
+      return jsonResponse({
+        request_date: new Date().toISOString(),
+        subscriber,
+      });
+    }
+
+    return apiError(404, 7000, `mock_route_not_found:${req.method} ${path}`);
+  };
+
+  return {
+    fetch:
+      ((input: RequestInfo | URL, init?: RequestInit) =>
+        Promise.resolve(handle(new Request(input, init)))) as typeof fetch,
+    serve: () => {
+      const server = Deno.serve(
+        { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+        handle,
+      );
+      return {
+        baseUrl: `http://127.0.0.1:${server.addr.port}`,
+        shutdown: () => server.shutdown(),
+      };
+    },
+    requests,
+    setSubscriber: (appUserId, subscriber) => {
+      subscribers.set(appUserId, subscriber);
+    },
+    failNext: (...statuses) => {
+      failures.push(...statuses);
+    },
+  };
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function apiError(status: number, code: number, message: string) {
+  return jsonResponse({ code, message }, status);
+}
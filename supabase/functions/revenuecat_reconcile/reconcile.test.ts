@@ -0,0 +1,245 @@
+import { assertEquals } from "jsr:@std/assert@0.224.0";
+
+import {
+  desiredStatus,
+  planCorrections,
+  type ReconcileCandidate,
+  type SubscriptionSnapshot,
+} from "./reconcile.ts";
+import type { RcRestSubscriber } from "./revenuecat.ts";
+
+const NOW = new Date("2026-03-22T12:00:00Z");
+const USER_ID = "25000000-0000-4000-9000-000000000001";
+const HOME_ID = "25000000-0000-4000-9000-000000000101";
+const OTHER_HOME_ID = "25000000-0000-4000-9000-000000000102";
+const PRODUCT = "com.example.kinly.premium.monthly";
+
+function row(
+  overrides: Partial<SubscriptionSnapshot> = {},
+): SubscriptionSnapshot {
+  return {
+    entitlement_id: "kinly_premium",
+    status: "active",
+    product_id: PRODUCT,
+    store: "app_store",
+    home_id: HOME_ID,
+    current_period_end_at: "2026-04-01T00:00:00.000Z",
+    grace_until_at: null,
+    original_purchase_at: "2026-01-01T00:00:00.000Z",
+    last_purchase_at: "2026-03-01T00:00:00.000Z",
+    latest_transaction_id: "txn-2",
+    last_event_timestamp: "2026-03-01T00:00:05.000Z",
+    ...overrides,
+  };
+}
+
+function candidate(
+  subscriptions: SubscriptionSnapshot[],
+  overrides: Partial<ReconcileCandidate> = {},
+): ReconcileCandidate {
+  return {
+    user_id: USER_ID,
+    reason: "stale",
+    current_home_id: OTHER_HOME_ID,
+    subscriptions,
+    ...overrides,
+  };
+}
+
+function subscriber(
+  expires: string | null,
+  subscription: Record<string, unknown> = {},
+): RcRestSubscriber {
+  return {
+    original_app_user_id: USER_ID,
+    entitlements: {
+      kinly_premium: { expires_date: expires, product_identifier: PRODUCT },
+    },
+    subscriptions: {
+      [PRODUCT]: {
+        expires_date: expires,
+        purchase_date: "2026-03-01T00:00:00Z",
+        original_purchase_date: "2026-01-01T00:00:00Z",
+        store: "app_store",
+        is_sandbox: false,
+        store_transaction_id: "txn-2",
+        ...subscription,
+      },
+    },
+  };
+}
+
+Deno.test("desiredStatus maps the subscriber object onto the lifecycle", () => {
+  const status = (expires: string | null, sub: Record<string, unknown> = {}) =>
+    desiredStatus(
+      { expires_date: expires },
+      { expires_date: expires, ...sub },
+      NOW,
+    )
+      .status;
+
+  assertEquals(status("2026-04-01T00:00:00Z"), "active");
+  assertEquals(status(null), "active");
+  assertEquals(
+    status("2026-04-01T00:00:00Z", {
+      unsubscribe_detected_at: "2026-03-10T00:00:00Z",
+    }),
+    "cancelled_pending_expiry",
+  );
+  assertEquals(
+    desiredStatus({ expires_date: "2026-03-21T00:00:00Z" }, {
+      billing_issues_detected_at: "2026-03-21T00:00:00Z",
+      grace_period_expires_date: "2026-03-28T00:00:00Z",
+    }, NOW),
+    { status: "in_grace", graceUntilAt: "2026-03-28T00:00:00.000Z" },
+  );
+  assertEquals(
+    status("2026-03-21T00:00:00Z", {
+      billing_issues_detected_at: "2026-03-21T00:00:00Z",
+    }),
+    "on_hold",
+  );
+  // Retry window over, or auto-renew off: the store gave up
+  assertEquals(
+    status("2026-01-01T00:00:00Z", {
+      billing_issues_detected_at: "2026-01-01T00:00:00Z",
+    }),
+    "expired",
+  );
+  assertEquals(
+    status("2026-03-21T00:00:00Z", {
+      billing_issues_detected_at: "2026-03-21T00:00:00Z",
+      unsubscribe_detected_at: "2026-03-21T00:00:00Z",
+    }),
+    "expired",
+  );
+  assertEquals(status("2026-03-21T00:00:00Z"), "expired");
+  assertEquals(
+    status("2026-04-01T00:00:00Z", { refunded_at: "2026-03-20T00:00:00Z" }),
+    "expired",
+  );
+});
+
+Deno.test("planCorrections leaves a matching row alone", () => {
+  const plan = planCorrections(
+    candidate([row()]),
+    subscriber("2026-04-01T00:00:00Z"),
+    NOW,
+  );
+
+  assertEquals(plan, { corrections: [], unchanged: 1, skipped: [] });
+});
+
+Deno.test("planCorrections heals a missed renewal", () => {
+  const plan = planCorrections(
+    candidate([row({ status: "expired" })]),
+    subscriber("2026-05-01T00:00:00Z", { store_transaction_id: "txn-3" }),
+    NOW,
+  );
+
+  assertEquals(plan.corrections.length, 1);
+  const [c] = plan.corrections;
+  assertEquals(c.status, "active");
+  assertEquals(c.currentPeriodEndAt, "2026-05-01T00:00:00.000Z");
+  assertEquals(c.latestTransactionId, "txn-3");
+  assertEquals(c.homeId, HOME_ID);
+  assertEquals(c.environment, "production");
+  assertEquals(c.previous?.status, "expired");
+});
+
+Deno.test("planCorrections creates the row a missing_home_id webhook never wrote", () => {
+  const withAttribute = planCorrections(
+    candidate([]),
+    {
+      ...subscriber("2026-04-01T00:00:00Z", { is_sandbox: true }),
+      subscriber_attributes: { home_id: { value: HOME_ID } },
+    },
+    NOW,
+  );
+  assertEquals(withAttribute.corrections.map((c) => [c.homeId, c.previous]), [
+    [HOME_ID, null],
+  ]);
+  assertEquals(withAttribute.corrections[0].environment, "sandbox");
+
+  // No attribute: the user's current home
+  const fallback = planCorrections(
+    candidate([]),
+    subscriber("2026-04-01T00:00:00Z"),
+    NOW,
+  );
+  assertEquals(fallback.corrections[0].homeId, OTHER_HOME_ID);
+
+  // A floating row gets the home too
+  const floating = planCorrections(
+    candidate([row({ home_id: null })]),
+    subscriber("2026-04-01T00:00:00Z"),
+    NOW,
+  );
+  assertEquals(floating.corrections[0].homeId, OTHER_HOME_ID);
+});
+
+Deno.test("planCorrections does not insert entitlements that only ever expired", () => {
+  const plan = planCorrections(
+    candidate([]),
+    subscriber("2025-01-01T00:00:00Z"),
+    NOW,
+  );
+
+  assertEquals(plan, { corrections: [], unchanged: 1, skipped: [] });
+});
+
+Deno.test("planCorrections expires live rows RevenueCat does not know", () => {
+  const plan = planCorrections(
+    candidate([
+      row({ entitlement_id: "legacy_premium", status: "in_grace" }),
+      row({ entitlement_id: "old_premium", status: "expired" }),
+    ]),
+    { entitlements: {}, subscriptions: {} },
+    NOW,
+  );
+
+  assertEquals(
+    plan.corrections.map((c) => [c.entitlementId, c.status, c.store]),
+    [["legacy_premium", "expired", "app_store"]],
+  );
+  assertEquals(plan.corrections[0].latestTransactionId, "txn-2");
+  assertEquals(plan.unchanged, 0);
+});
+
+Deno.test("planCorrections skips transferred, unknown-store and invalid-transition entitlements", () => {
+  const transferred = planCorrections(
+    candidate([row({ status: "inactive", home_id: null })]),
+    subscriber("2026-04-01T00:00:00Z"),
+    NOW,
+  );
+  assertEquals(transferred.skipped, [{
+    entitlementId: "kinly_premium",
+    reason: "transferred",
+  }]);
+  assertEquals(transferred.corrections, []);
+
+  const unknownStore = planCorrections(
+    candidate([]),
+    subscriber("2026-04-01T00:00:00Z", { store: "amazon" }),
+    NOW,
+  );
+  assertEquals(unknownStore.skipped, [{
+    entitlementId: "kinly_premium",
+    reason: "unknown_store",
+    detail: "amazon",
+  }]);
+
+  // expired -> on_hold would reopen a closed subscription
+  const invalid = planCorrections(
+    candidate([row({ status: "expired" })]),
+    subscriber("2026-03-21T00:00:00Z", {
+      billing_issues_detected_at: "2026-03-21T00:00:00Z",
+    }),
+    NOW,
+  );
+  assertEquals(invalid.skipped, [{
+    entitlementId: "kinly_premium",
+    reason: "invalid_transition",
+    detail: "expired->on_hold",
+  }]);
+});
@@ -0,0 +1,279 @@
+// supabase/functions/revenuecat_reconcile/reconcile.ts
+import {
+  extractHomeId,
+  normalizeEntitlementIds,
+  parseDate,
+  type RcPayload,
+  type Store,
+  storeFromPayload,
+  type SubscriptionStatus,
+} from "../revenuecat_webhook/parse.ts";
+import {
+  transitionAllowed,
+  transitionLabel,
+} from "../revenuecat_webhook/lifecycle.ts";
+import type {
+  RcRestEntitlement,
+  RcRestSubscriber,
+  RcRestSubscription,
+} from "./revenuecat.ts";
+
+/** user_subscriptions row as returned by paywall_reconcile_candidates */
+export type SubscriptionSnapshot = {
+  entitlement_id: string;
+  status: SubscriptionStatus;
+  product_id: string;
+  store: Store;
+  home_id: string | null;
+  current_period_end_at: string | null;
+  grace_until_at: string | null;
+  original_purchase_at: string | null;
+  last_purchase_at: string | null;
+  latest_transaction_id: string | null;
+  last_event_timestamp: string | null;
+};
+
+export type ReconcileCandidate = {
+  user_id: string;
+  reason: "webhook_error" | "stale";
+  current_home_id: string | null;
+  subscriptions: SubscriptionSnapshot[];
+};
+
+/** What RevenueCat says one entitlement should look like */
+export type Correction = {
+  entitlementId: string;
+  homeId: string | null;
+  store: Exclude<Store, "unknown">;
+  productId: string;
+  status: SubscriptionStatus;
+  currentPeriodEndAt: string | null;
+  graceUntilAt: string | null;
+  originalPurchaseAt: string | null;
+  lastPurchaseAt: string | null;
+  latestTransactionId: string | null;
+  environment: string;
+  // null = no row yet
+  previous: SubscriptionSnapshot | null;
+};
+
+export type SkippedEntitlement = {
+  entitlementId: string;
+  reason:
+    | "transferred"
+    | "unknown_store"
+    | "missing_product"
+    | "invalid_transition";
+  detail?: string;
+};
+
+export type ReconcilePlan = {
+  corrections: Correction[];
+  unchanged: number;
+  skipped: SkippedEntitlement[];
+};
+
+// Apple retries a failed renewal for up to 60 days (Google's account hold is shorter)
+export const BILLING_RETRY_DAYS = 60;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FUNDING_OR_HELD: ReadonlySet<SubscriptionStatus> = new Set([
+  "active",
+  "in_grace",
+  "on_hold",
+  "cancelled_pending_expiry",
+]);
+
+const toMs = (value: string | null | undefined): number | null => {
+  const iso = parseDate(value);
+  return iso === null ? null : Date.parse(iso);
+};
+
+/**
+ * Lifecycle status implied by RevenueCat's subscriber object (same states the webhook maps
+ * events to, see revenuecat_webhook/lifecycle.ts):
+ * - billing issue with the store's grace period still running -> in_grace
+ * - no expiry (lifetime / promotional) -> active
+ * - before expiry -> cancelled_pending_expiry if auto-renew was turned off, else active
+ * - past expiry with an open billing issue inside the retry window -> on_hold
+ * - otherwise (or refunded) -> expired
+ */
+export const desiredStatus = (
+  entitlement: RcRestEntitlement,
+  subscription: RcRestSubscription | undefined,
+  now: Date,
+): { status: SubscriptionStatus; graceUntilAt: string | null } => {
+  const nowMs = now.getTime();
+  const expiresMs = toMs(
+    entitlement.expires_date ?? subscription?.expires_date,
+  );
+  const graceUntilAt = parseDate(
+    subscription?.grace_period_expires_date ??
+      entitlement.grace_period_expires_date,
+  );
+  const billingIssue = Boolean(subscription?.billing_issues_detected_at);
+  const unsubscribed = Boolean(subscription?.unsubscribe_detected_at);
+
+  if (subscription?.refunded_at) {
+    return { status: "expired", graceUntilAt: null };
+  }
+
+  if (billingIssue && graceUntilAt && Date.parse(graceUntilAt) > nowMs) {
+    return { status: "in_grace", graceUntilAt };
+  }
+  if (expiresMs === null) return { status: "active", graceUntilAt: null };
+  if (expiresMs > nowMs) {
+    return {
+      status: unsubscribed ? "cancelled_pending_expiry" : "active",
+      graceUntilAt: null,
+    };
+  }
+  if (
+    billingIssue && !unsubscribed &&
+    nowMs - expiresMs < BILLING_RETRY_DAYS * DAY_MS
+  ) {
+    return { status: "on_hold", graceUntilAt: null };
+  }
+  return { status: "expired", graceUntilAt: null };
+};
+
+const sameInstant = (a: string | null, b: string | null): boolean =>
+  toMs(a) === toMs(b);
+
+const differs = (c: Correction): boolean => {
+  const p = c.previous;
+  if (!p) return true;
+  if (p.status !== c.status) return true;
+  if (p.product_id !== c.productId) return true;
+  if (!sameInstant(p.current_period_end_at, c.currentPeriodEndAt)) return true;
+  if (
+    c.status === "in_grace" && !sameInstant(p.grace_until_at, c.graceUntilAt)
+  ) {
+    return true;
+  }
+  // Webhook rejected with missing_home_id: a funding row that never reached a home
+  return FUNDING_OR_HELD.has(c.status) && !p.home_id && Boolean(c.homeId);
+};
+
+/**
+ * Compare every entitlement RevenueCat knows for the user (plus our live rows it does not)
+ * with user_subscriptions. Home: the row's home, else the subscriber's home_id attribute
+ * (like the webhook), else the user's current home.
+ * - Inactive rows were transferred away (TRANSFER owns them): never recreated here.
+ * - Entitlements that only ever expired are not inserted as new rows.
+ * - A live row whose entitlement RevenueCat does not know is expired.
+ */
+export const planCorrections = (
+  candidate: ReconcileCandidate,
+  subscriber: RcRestSubscriber,
+  now: Date,
+): ReconcilePlan => {
+  const plan: ReconcilePlan = { corrections: [], unchanged: 0, skipped: [] };
+  const rows = new Map(
+    candidate.subscriptions.map((s) => [s.entitlement_id, s]),
+  );
+  const entitlements = subscriber.entitlements ?? {};
+  const { entitlementIds } = normalizeEntitlementIds(
+    { entitlement_ids: Object.keys(entitlements) },
+    undefined,
+  );
+  const attributeHomeId = extractHomeId(subscriber as RcPayload, undefined);
+
+  const consider = (correction: Correction) => {
+    const from = correction.previous?.status ?? null;
+    if (!differs(correction)) {
+      plan.unchanged += 1;
+    } else if (!transitionAllowed(from, correction.status)) {
+      plan.skipped.push({
+        entitlementId: correction.entitlementId,
+        reason: "invalid_transition",
+        detail: transitionLabel(from, correction.status),
+      });
+    } else {
+      plan.corrections.push(correction);
+    }
+  };
+
+  for (const entitlementId of entitlementIds) {
+    const entitlement = entitlements[entitlementId];
+    const previous = rows.get(entitlementId) ?? null;
+
+    if (previous?.status === "inactive") {
+      plan.skipped.push({ entitlementId, reason: "transferred" });
+      continue;
+    }
+
+    const productId = entitlement.product_identifier ?? previous?.product_id;
+    if (!productId) {
+      plan.skipped.push({ entitlementId, reason: "missing_product" });
+      continue;
+    }
+
+    const subscription = subscriber.subscriptions?.[productId];
+    const { store } = storeFromPayload(subscription?.store);
+    if (store === "unknown") {
+      plan.skipped.push({
+        entitlementId,
+        reason: "unknown_store",
+        detail: subscription?.store ?? undefined,
+      });
+      continue;
+    }
+
+    const { status, graceUntilAt } = desiredStatus(
+      entitlement,
+      subscription,
+      now,
+    );
+    if (!previous && status === "expired") {
+      plan.unchanged += 1;
+      continue;
+    }
+
+    consider({
+      entitlementId,
+      homeId: previous?.home_id ?? attributeHomeId ??
+        candidate.current_home_id,
+      store,
+      productId,
+      status,
+      currentPeriodEndAt: parseDate(
+        entitlement.expires_date ?? subscription?.expires_date,
+      ),
+      graceUntilAt,
+      originalPurchaseAt: parseDate(subscription?.original_purchase_date) ??
+        previous?.original_purchase_at ?? null,
+      lastPurchaseAt: parseDate(
+        subscription?.purchase_date ?? entitlement.purchase_date,
+      ) ?? previous?.last_purchase_at ?? null,
+      latestTransactionId: subscription?.store_transaction_id ??
+        previous?.latest_transaction_id ?? null,
+      environment: subscription?.is_sandbox ? "sandbox" : "production",
+      previous,
+    });
+  }
+
+  for (const row of candidate.subscriptions) {
+    if (entitlementIds.includes(row.entitlement_id)) continue;
+    if (!FUNDING_OR_HELD.has(row.status)) continue;
+    if (row.store === "unknown") continue;
+
+    consider({
+      entitlementId: row.entitlement_id,
+      homeId: row.home_id,
+      store: row.store,
+      productId: row.product_id,
+      status: "expired",
+      currentPeriodEndAt: row.current_period_end_at,
+      graceUntilAt: null,
+      originalPurchaseAt: row.original_purchase_at,
+      lastPurchaseAt: row.last_purchase_at,
+      latestTransactionId: row.latest_transaction_id,
+      environment: "production",
+      previous: row,
+    });
+  }
+
+  return plan;
+};
@@ -0,0 +1,90 @@
+// supabase/functions/revenuecat_reconcile/revenuecat.ts
+// Minimal RevenueCat REST v1 client: GET /v1/subscribers/{app_user_id} (secret API key).
+// Only the fields reconcile.ts reads are typed; dates are ISO strings (null = never expires).
+
+export type RcRestEntitlement = {
+  expires_date?: string | null;
+  grace_period_expires_date?: string | null;
+  product_identifier?: string | null;
+  purchase_date?: string | null;
+};
+
+export type RcRestSubscription = {
+  expires_date?: string | null;
+  grace_period_expires_date?: string | null;
+  purchase_date?: string | null;
+  original_purchase_date?: string | null;
+  store?: string | null;
+  is_sandbox?: boolean;
+  unsubscribe_detected_at?: string | null;
+  billing_issues_detected_at?: string | null;
+  refunded_at?: string | null;
+  store_transaction_id?: string | null;
+};
+
+export type RcRestSubscriber = {
+  original_app_user_id?: string;
+  entitlements?: Record<string, RcRestEntitlement>;
+  subscriptions?: Record<string, RcRestSubscription>;
+  non_subscriptions?: Record<string, unknown>;
+  subscriber_attributes?: Record<string, unknown>;
+};
+
+export type RevenueCatClient = {
+  /** null = RevenueCat has no subscriber with this app_user_id */
+  getSubscriber: (appUserId: string) => Promise<RcRestSubscriber | null>;
+};
+
+export const DEFAULT_REVENUECAT_API_URL = "https://api.revenuecat.com";
+
+/** Non-2xx answer other than 404 (429 = rate limited: the job stops its run) */
+export class RevenueCatHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export const createRevenueCatClient = (opts: {
+  apiKey: string;
+  baseUrl?: string;
+  fetch?: typeof fetch;
+}): RevenueCatClient => {
+  const baseUrl = (opts.baseUrl ?? DEFAULT_REVENUECAT_API_URL).replace(
+    /\/+$/,
+    "",
+  );
+  const doFetch = opts.fetch ?? fetch;
+
+  return {
+    getSubscriber: async (appUserId) => {
+      const res = await doFetch(
+        `${baseUrl}/v1/subscribers/${encodeURIComponent(appUserId)}`,
+        {
+          method: "GET",
+          headers: {
+            Authorization: `Bearer ${opts.apiKey}`,
+            Accept: "application/json",
+          },
+        },
+      );
+
+      if (res.status === 404) {
+        await res.body?.cancel();
+        return null;
+      }
+      if (!res.ok) {
+        const detail = (await res.text()).slice(0, 200);
+        throw new RevenueCatHttpError(
+          res.status,
+          `get_subscriber:${res.status}:${detail}`,
+        );
+      }
+
+      const body = await res.json() as { subscriber?: RcRestSubscriber };
+      return body.subscriber ?? null;
+    },
+  };
+};
@@ -9,11 +9,21 @@ import {
   handleRevenueCatWebhook,
   SupabaseLike,
 } from "./index.ts";
+import { type AppliedState, supersededReason } from "./ordering.ts";
+import {
+  ALLOWED_TRANSITIONS,
+  transitionAllowed,
+  transitionLabel,
+} from "./lifecycle.ts";
+import type { SubscriptionStatus } from "./parse.ts";
 
 const expect = (condition: boolean, message: string) => {
   if (!condition) throw new Error(message);
 };
 
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
 const env = {
   SUPABASE_URL: "http://localhost",
   SUPABASE_SERVICE_ROLE_KEY: "service",
@@ -44,8 +54,8 @@ Deno.test("statusFromEvent maps RevenueCat events", () => {
     "initial purchase should be active",
   );
   expect(
-    statusFromEvent("CANCELLATION").status === "cancelled",
-    "cancellation should be cancelled",
+    statusFromEvent("CANCELLATION").status === "cancelled_pending_expiry",
+    "cancellation should be cancelled_pending_expiry",
   );
   expect(
     statusFromEvent("EXPIRATION").status === "expired",
@@ -861,3 +871,588 @@ Deno.test("missing home_id is fatal 400 and does not call rpc", async () => {
   );
   expect(rpcCalls.length === 0, "rpc not called");
 });
+
+// ---------------------------------------------------------------------------
+// Out-of-order events
+// ---------------------------------------------------------------------------
+
+const KNOWN_TYPES = [
+  "INITIAL_PURCHASE",
+  "RENEWAL",
+  "PRODUCT_CHANGE",
+  "UNCANCELLATION",
+  "CANCELLATION",
+  "BILLING_ISSUE",
+  "EXPIRATION",
+];
+
+// Everything paywall_record_subscription applies (TRANSFER moves rows instead)
+const RECORDED_TYPES = [
+  ...KNOWN_TYPES,
+  "SUBSCRIPTION_PAUSED",
+  "SUBSCRIPTION_EXTENDED",
+  "NON_RENEWING_PURCHASE",
+  "TEMPORARY_ENTITLEMENT_GRANT",
+];
+
+const ORDER_USER = "00000000-0000-4000-8000-000000000555";
+const ORDER_HOME = "00000000-0000-4000-8000-000000000666";
+const T0 = Date.parse("2026-03-01T00:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+const rcEvent = (
+  type: string,
+  timestampMs: number,
+  overrides: Record<string, unknown> = {},
+) => ({
+  event: {
+    id: `evt-${type}-${timestampMs}`,
+    type,
+    event_timestamp_ms: timestampMs,
+    app_user_id: ORDER_USER,
+    entitlement_ids: ["kinly_premium"],
+    product_id: "prod_monthly",
+    store: "APP_STORE",
+    original_transaction_id: "orig-1",
+    transaction_id: "txn-1",
+    purchased_at_ms: T0,
+    subscriber_attributes: {
+      user_id: { value: ORDER_USER },
+      home_id: { value: ORDER_HOME },
+    },
+    ...overrides,
+  },
+});
+
+/** In-memory user_subscriptions row + the two RPCs that read/write it */
+const createOrderedSupabase = () => {
+  let applied: (AppliedState & { status: SubscriptionStatus }) | null = null;
+  const audits: Array<Record<string, unknown>> = [];
+  const rpcs: Array<{ fn: string; args: Record<string, unknown> }> = [];
+
+  const supabase = createMockSupabase({
+    rpc: <T = unknown>(fn: string, args: Record<string, unknown>) => {
+      rpcs.push({ fn, args });
+      if (fn === "paywall_subscription_applied_state") {
+        const data = applied
+          ? {
+            event_timestamp: applied.event_timestamp,
+            original_transaction_id: applied.original_transaction_id,
+            latest_transaction_id: applied.latest_transaction_id,
+            last_purchase_at: applied.last_purchase_at,
+            status: applied.status,
+          }
+          : null;
+        return Promise.resolve({ error: null, data: data as T });
+      }
+      if (fn === "paywall_record_subscription") {
+        const expected = args.p_applied_state as Partial<AppliedState> | null;
+        if (
+          expected !== null &&
+          (expected.event_timestamp ?? null) !==
+            (applied?.event_timestamp ?? null)
+        ) {
+          return Promise.resolve({
+            error: { message: "subscription_state_changed", code: "40001" },
+          });
+        }
+        const status = args.p_status as SubscriptionStatus;
+        if (!transitionAllowed(applied?.status ?? null, status)) {
+          return Promise.resolve({
+            error: {
+              message: "invalid_subscription_transition",
+              code: "22023",
+              details: transitionLabel(applied?.status ?? null, status),
+            },
+          });
+        }
+        applied = {
+          event_timestamp: (args.p_event_timestamp as string | null) ??
+            applied?.event_timestamp ?? null,
+          original_transaction_id:
+            (args.p_original_transaction_id as string | null) ?? null,
+          latest_transaction_id:
+            (args.p_latest_transaction_id as string | null) ?? null,
+          last_purchase_at: (args.p_last_purchase_at as string | null) ?? null,
+          status,
+        };
+        return Promise.resolve({ error: null, data: false as T });
+      }
+      return Promise.resolve({ error: null } as { error: null; data?: T });
+    },
+    from: (_table) => ({
+      upsert: (row: Record<string, unknown>) => {
+        audits.push(row);
+        return Promise.resolve({ error: null });
+      },
+    }),
+  });
+
+  return {
+    supabase,
+    audits,
+    rpcs,
+    applied: () => applied,
+    setApplied: (state: AppliedState & { status: SubscriptionStatus }) => {
+      applied = state;
+    },
+  };
+};
+
+/** Status an rcEvent of this type records (BILLING_ISSUE without a grace period -> on_hold) */
+const statusOf = (type: string) =>
+  parseWebhookPayload(rcEvent(type, T0)).status;
+
+const deliver = async (
+  supabase: SupabaseLike,
+  payload: Record<string, unknown>,
+) => {
+  const res = await handleRevenueCatWebhook(
+    new Request("http://localhost", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        authorization: "Bearer secret",
+      },
+      body: JSON.stringify(payload),
+    }),
+    env,
+    () => supabase,
+  );
+  return { status: res.status, body: await res.json() };
+};
+
+const permutations = <T>(items: T[]): T[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, i) =>
+      permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((
+        rest,
+      ) => [item, ...rest])
+    );
+
+Deno.test("every reordering of two recorded event types keeps the newer event applied", async () => {
+  for (const older of RECORDED_TYPES) {
+    for (const newer of RECORDED_TYPES) {
+      if (older === newer) continue;
+      const label = `${older} @t1 vs ${newer} @t2`;
+
+      // In order: newer applied unless the lifecycle forbids the step
+      const inOrder = createOrderedSupabase();
+      await deliver(inOrder.supabase, rcEvent(older, T0 + HOUR));
+      const second = await deliver(
+        inOrder.supabase,
+        rcEvent(newer, T0 + 2 * HOUR),
+      );
+      const allowed = transitionAllowed(statusOf(older), statusOf(newer));
+      const expected = allowed ? statusOf(newer) : statusOf(older);
+      expect(second.body.superseded !== true, `${label}: newer not superseded`);
+      expect(
+        second.body.rejected === (allowed ? undefined : true),
+        `${label}: ${allowed ? "applied" : "rejected transition"}`,
+      );
+      expect(
+        inOrder.applied()?.status === expected,
+        `${label}: in order ends ${expected}`,
+      );
+
+      // Reversed: the late older event is recorded as superseded, never applied
+      const reversed = createOrderedSupabase();
+      await deliver(reversed.supabase, rcEvent(newer, T0 + 2 * HOUR));
+      const late = await deliver(reversed.supabase, rcEvent(older, T0 + HOUR));
+      expect(late.status === 200, `${label}: late event acknowledged`);
+      expect(late.body.superseded === true, `${label}: late event superseded`);
+      expect(
+        late.body.reason === "older_event",
+        `${label}: superseded as older_event`,
+      );
+      expect(
+        reversed.applied()?.status === statusOf(newer),
+        `${label}: reversed still ends ${statusOf(newer)}`,
+      );
+      expect(
+        reversed.rpcs.filter((c) => c.fn === "paywall_record_subscription")
+          .length === 1,
+        `${label}: only the newer event reached the RPC`,
+      );
+      expect(
+        reversed.audits.at(-1)?.superseded_reason === "older_event",
+        `${label}: audit row marked superseded`,
+      );
+    }
+  }
+});
+
+Deno.test("supersededReason: any delivery order of all known types applies the newest", () => {
+  const events = KNOWN_TYPES.map((type, i) =>
+    parseWebhookPayload(rcEvent(type, T0 + (i + 1) * HOUR))
+  );
+  const newest = events[events.length - 1];
+
+  for (const order of permutations(events)) {
+    let applied: AppliedState | null = null;
+    let status: string | null = null;
+    for (const event of order) {
+      if (supersededReason(event, applied)) continue;
+      applied = {
+        event_timestamp: event.eventTimestamp,
+        original_transaction_id: event.originalTransactionId,
+        latest_transaction_id: event.latestTransactionId,
+        last_purchase_at: event.lastPurchaseAt,
+      };
+      status = event.status;
+    }
+    expect(
+      applied?.event_timestamp === newest.eventTimestamp &&
+        status === newest.status,
+      `order ${order.map((e) => e.eventTypeRaw).join(",")} ends on EXPIRATION`,
+    );
+  }
+});
+
+Deno.test("supersededReason uses transaction lineage", () => {
+  const applied: AppliedState = {
+    event_timestamp: new Date(T0 + 2 * HOUR).toISOString(),
+    original_transaction_id: "orig-1",
+    latest_transaction_id: "txn-2",
+    last_purchase_at: new Date(T0 + 2 * HOUR).toISOString(),
+  };
+
+  // Refund-style CANCELLATION of the replaced period, sent after the RENEWAL
+  const oldPeriod = parseWebhookPayload(
+    rcEvent("CANCELLATION", T0 + 3 * HOUR, {
+      transaction_id: "txn-1",
+      purchased_at_ms: T0,
+    }),
+  );
+  expect(
+    supersededReason(oldPeriod, applied) === "older_transaction",
+    "earlier transaction of the same lineage is superseded",
+  );
+
+  // New lineage (resubscribe after expiry) orders by timestamp only
+  const resubscribe = parseWebhookPayload(
+    rcEvent("INITIAL_PURCHASE", T0 + 3 * HOUR, {
+      original_transaction_id: "orig-2",
+      transaction_id: "txn-9",
+      purchased_at_ms: T0 + 3 * HOUR,
+    }),
+  );
+  expect(
+    supersededReason(resubscribe, applied) === null,
+    "newer event of another lineage applies",
+  );
+  const lateOtherLineage = parseWebhookPayload(
+    rcEvent("EXPIRATION", T0 + HOUR, {
+      original_transaction_id: "orig-0",
+      transaction_id: "txn-0",
+    }),
+  );
+  expect(
+    supersededReason(lateOtherLineage, applied) === "older_event",
+    "older event of another lineage is superseded",
+  );
+
+  // Same timestamp, same transaction: applied (idempotent replays are deduped upstream)
+  const sameMoment = parseWebhookPayload(
+    rcEvent("RENEWAL", T0 + 2 * HOUR, {
+      transaction_id: "txn-2",
+      purchased_at_ms: T0 + 2 * HOUR,
+    }),
+  );
+  expect(
+    supersededReason(sameMoment, applied) === null,
+    "equal timestamp applies",
+  );
+
+  // Nothing to order against
+  expect(
+    supersededReason(oldPeriod, null) === null,
+    "first event always applies",
+  );
+  expect(
+    supersededReason({ ...oldPeriod, eventTimestamp: null }, applied) === null,
+    "event without timestamp applies",
+  );
+});
+
+Deno.test("timed events pass the compared state to the RPC; a concurrent apply is retryable", async () => {
+  const ordered = createOrderedSupabase();
+  await deliver(ordered.supabase, rcEvent("INITIAL_PURCHASE", T0 + HOUR));
+  const first = ordered.rpcs.find((c) =>
+    c.fn === "paywall_record_subscription"
+  );
+  const firstState = first?.args.p_applied_state as Record<string, unknown>;
+  expect(
+    isPlainObject(firstState) && Object.keys(firstState).length === 0,
+    "nothing applied yet -> empty applied state",
+  );
+
+  // Another event lands between the state read and the write
+  const racing = createOrderedSupabase();
+  const raced = createMockSupabase({
+    rpc: <T = unknown>(fn: string, args: Record<string, unknown>) => {
+      if (fn === "paywall_record_subscription") {
+        racing.setApplied({
+          event_timestamp: new Date(T0 + 5 * HOUR).toISOString(),
+          original_transaction_id: "orig-1",
+          latest_transaction_id: "txn-1",
+          last_purchase_at: new Date(T0).toISOString(),
+          status: "active",
+        });
+      }
+      return racing.supabase.rpc<T>(fn, args);
+    },
+    from: racing.supabase.from,
+  });
+  const res = await deliver(raced, rcEvent("CANCELLATION", T0 + 2 * HOUR));
+  expect(res.status === 500, "state changed mid-flight returns 500");
+  expect(res.body.retryable === true, "state change is retryable");
+  expect(racing.applied()?.status === "active", "racing state kept");
+});
+
+Deno.test("untimed events skip the ordering check", async () => {
+  const ordered = createOrderedSupabase();
+  await deliver(
+    ordered.supabase,
+    rcEvent("RENEWAL", T0, { event_timestamp_ms: undefined }),
+  );
+  expect(
+    !ordered.rpcs.some((c) => c.fn === "paywall_subscription_applied_state"),
+    "no state read without a timestamp",
+  );
+  expect(
+    ordered.rpcs[0]?.args.p_applied_state === null,
+    "no compare-and-swap without a timestamp",
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Event type coverage
+// ---------------------------------------------------------------------------
+
+const TRANSFER_FROM = "00000000-0000-4000-8000-000000000777";
+
+Deno.test("statusFromEvent maps the full RevenueCat event set", () => {
+  const expected: Record<string, string> = {
+    SUBSCRIPTION_EXTENDED: "active",
+    NON_RENEWING_PURCHASE: "active",
+    TEMPORARY_ENTITLEMENT_GRANT: "active",
+    TRANSFER: "active",
+    SUBSCRIPTION_PAUSED: "cancelled_pending_expiry",
+    BILLING_ISSUE: "in_grace",
+  };
+  for (const [type, status] of Object.entries(expected)) {
+    const mapped = statusFromEvent(type);
+    expect(mapped.status === status, `${type} should be ${status}`);
+    expect(!mapped.unknown, `${type} is a known event type`);
+  }
+});
+
+Deno.test("BILLING_ISSUE records in_grace until the grace period ends", async () => {
+  const graceEnd = T0 + 16 * 24 * HOUR;
+  const ordered = createOrderedSupabase();
+  const res = await deliver(
+    ordered.supabase,
+    rcEvent("BILLING_ISSUE", T0 + HOUR, {
+      expiration_at_ms: T0 + HOUR,
+      grace_period_expiration_at_ms: graceEnd,
+    }),
+  );
+  const call = ordered.rpcs.find((c) => c.fn === "paywall_record_subscription");
+  expect(res.status === 200, "billing issue accepted");
+  expect(res.body.warnings.length === 0, "no unknown_event_type warning");
+  expect(call?.args.p_status === "in_grace", "status in_grace");
+  expect(
+    call?.args.p_grace_until_at === new Date(graceEnd).toISOString(),
+    "grace until the store's grace period end",
+  );
+  expect(
+    call?.args.p_current_period_end_at === new Date(T0 + HOUR).toISOString(),
+    "period end stays expiration_at",
+  );
+
+  const withoutGrace = parseWebhookPayload(
+    rcEvent("BILLING_ISSUE", T0 + HOUR, { expiration_at_ms: T0 + 2 * HOUR }),
+  );
+  expect(withoutGrace.status === "on_hold", "no grace period -> on_hold");
+  expect(withoutGrace.graceUntilAt === null, "on_hold has no grace date");
+});
+
+Deno.test("pause and extension move the period end from expiration_at", async () => {
+  const cases = [
+    { type: "SUBSCRIPTION_EXTENDED", status: "active" },
+    { type: "SUBSCRIPTION_PAUSED", status: "cancelled_pending_expiry" },
+    { type: "NON_RENEWING_PURCHASE", status: "active" },
+    { type: "TEMPORARY_ENTITLEMENT_GRANT", status: "active" },
+  ];
+  for (const { type, status } of cases) {
+    const expiration = T0 + 40 * 24 * HOUR;
+    const ordered = createOrderedSupabase();
+    const res = await deliver(
+      ordered.supabase,
+      rcEvent(type, T0 + HOUR, { expiration_at_ms: expiration }),
+    );
+    const call = ordered.rpcs.find((c) =>
+      c.fn === "paywall_record_subscription"
+    );
+    expect(res.status === 200, `${type} accepted`);
+    expect(res.body.warnings.length === 0, `${type} has no warnings`);
+    expect(call?.args.p_status === status, `${type} records ${status}`);
+    expect(
+      call?.args.p_current_period_end_at ===
+        new Date(expiration).toISOString(),
+      `${type} records expiration_at as the period end`,
+    );
+  }
+});
+
+const transferEvent = (overrides: Record<string, unknown> = {}) => ({
+  event: {
+    id: "evt-transfer-1",
+    type: "TRANSFER",
+    event_timestamp_ms: T0 + HOUR,
+    store: "APP_STORE",
+    entitlement_ids: ["kinly_premium"],
+    transferred_from: ["$RCAnonymousID:abc", TRANSFER_FROM],
+    transferred_to: [ORDER_USER],
+    ...overrides,
+  },
+});
+
+Deno.test("TRANSFER moves the subscription to the receiving user", async () => {
+  const ordered = createOrderedSupabase();
+  const res = await deliver(ordered.supabase, transferEvent());
+
+  expect(res.status === 200, "transfer accepted");
+  expect(res.body.transferred === true, "response flags the transfer");
+  expect(
+    ordered.rpcs.length === 1 &&
+      ordered.rpcs[0].fn === "paywall_transfer_subscription",
+    "only the transfer RPC runs",
+  );
+  const args = ordered.rpcs[0].args;
+  expect(args.p_to_user_id === ORDER_USER, "receiving user passed");
+  expect(
+    JSON.stringify(args.p_from_user_ids) === JSON.stringify([TRANSFER_FROM]),
+    "anonymous senders dropped",
+  );
+  expect(
+    JSON.stringify(args.p_entitlement_ids) ===
+      JSON.stringify(["kinly_premium"]),
+    "entitlements scoped",
+  );
+  expect(
+    args.p_event_timestamp === new Date(T0 + HOUR).toISOString(),
+    "transfer time passed",
+  );
+  expect(ordered.audits[0]?.status === null, "audit keeps status null");
+  expect(
+    ordered.audits[0]?.rc_app_user_id === ORDER_USER,
+    "audit attributed to the receiving user",
+  );
+});
+
+Deno.test("TRANSFER without a UUID target is fatal 400", async () => {
+  const ordered = createOrderedSupabase();
+  const res = await deliver(
+    ordered.supabase,
+    transferEvent({ transferred_to: ["$RCAnonymousID:def"] }),
+  );
+  expect(res.status === 400, "fatal 400");
+  expect(
+    res.body.error_code === "missing_transfer_target",
+    "missing_transfer_target reported",
+  );
+  expect(ordered.rpcs.length === 0, "no RPC without a target");
+});
+
+// ---------------------------------------------------------------------------
+// Subscription lifecycle
+// ---------------------------------------------------------------------------
+
+Deno.test("lifecycle: every status can recover or expire; lapsed ones cannot reopen access", () => {
+  const lifecycle = Object.keys(ALLOWED_TRANSITIONS) as SubscriptionStatus[];
+  for (const from of lifecycle) {
+    expect(transitionAllowed(from, "active"), `${from} -> active`);
+    expect(transitionAllowed(from, "expired"), `${from} -> expired`);
+    expect(transitionAllowed(from, from), `${from} -> ${from} (replay)`);
+    expect(transitionAllowed(from, "inactive"), `${from} -> inactive`);
+    expect(transitionAllowed(null, from), `first event -> ${from}`);
+    expect(transitionAllowed("inactive", from), `inactive -> ${from}`);
+  }
+  for (const from of ["on_hold", "expired"] as const) {
+    expect(!transitionAllowed(from, "in_grace"), `${from} -/-> in_grace`);
+    expect(
+      !transitionAllowed(from, "cancelled_pending_expiry"),
+      `${from} -/-> cancelled_pending_expiry`,
+    );
+  }
+  expect(
+    !transitionAllowed("cancelled_pending_expiry", "in_grace"),
+    "no billing retries once auto-renew is off",
+  );
+  expect(
+    transitionLabel(null, "active") === "none->active",
+    "label for a first event",
+  );
+});
+
+Deno.test("dunning: grace, hold and recovery flow through the webhook", async () => {
+  const ordered = createOrderedSupabase();
+  const steps: Array<[string, Record<string, unknown>, SubscriptionStatus]> = [
+    ["INITIAL_PURCHASE", {}, "active"],
+    [
+      "BILLING_ISSUE",
+      { grace_period_expiration_at_ms: T0 + 7 * 24 * HOUR },
+      "in_grace",
+    ],
+    ["BILLING_ISSUE", {}, "on_hold"],
+    ["RENEWAL", {}, "active"],
+  ];
+  for (const [i, [type, overrides, status]] of steps.entries()) {
+    const res = await deliver(
+      ordered.supabase,
+      rcEvent(type, T0 + (i + 1) * HOUR, overrides),
+    );
+    expect(res.status === 200 && !res.body.rejected, `${type} applied`);
+    expect(ordered.applied()?.status === status, `${type} -> ${status}`);
+  }
+});
+
+Deno.test("invalid transitions are recorded, acknowledged and not applied", async () => {
+  const ordered = createOrderedSupabase();
+  await deliver(ordered.supabase, rcEvent("EXPIRATION", T0 + HOUR));
+
+  const late = await deliver(
+    ordered.supabase,
+    rcEvent("BILLING_ISSUE", T0 + 2 * HOUR, {
+      grace_period_expiration_at_ms: T0 + 7 * 24 * HOUR,
+    }),
+  );
+  expect(late.status === 200, "acknowledged so RevenueCat stops retrying");
+  expect(late.body.rejected === true, "flagged as rejected");
+  expect(late.body.transition === "expired->in_grace", "transition reported");
+  expect(ordered.applied()?.status === "expired", "home stays expired");
+  expect(
+    ordered.rpcs.filter((c) => c.fn === "paywall_record_subscription")
+      .length === 1,
+    "rejected before the RPC",
+  );
+  expect(
+    ordered.audits.at(-1)?.rejected_transition === "expired->in_grace",
+    "audit row records the transition",
+  );
+
+  // Untimed events skip the state read: the RPC enforces the same table
+  const untimed = await deliver(
+    ordered.supabase,
+    rcEvent("CANCELLATION", T0, { event_timestamp_ms: undefined }),
+  );
+  expect(untimed.status === 200, "RPC rejection acknowledged");
+  expect(
+    untimed.body.transition === "expired->cancelled_pending_expiry",
+    "transition taken from the RPC error",
+  );
+  expect(ordered.applied()?.status === "expired", "still expired");
+});
@@ -5,6 +5,8 @@ import {
   parseWebhookPayload,
   type RcPayload,
 } from "./parse.ts";
+import { type AppliedState, supersededReason } from "./ordering.ts";
+import { transitionAllowed, transitionLabel } from "./lifecycle.ts";
 
 const JSON_HEADERS = { "Content-Type": "application/json" };
 const json = (body: unknown, status = 200): Response =>
@@ -223,9 +225,21 @@ export const handleRevenueCatWebhook = async (
     );
   }
 
-  const payload = payloadUnknown as RcPayload;
+  return await processRevenueCatPayload(
+    payloadUnknown as RcPayload,
+    createSupabase(supabaseUrl, supabaseKey),
+  );
+};
+
+/**
+ * Processing path after auth + body checks: audit, validation, ordering, RPC.
+ * revenuecat_webhook_replay reprocesses stored payloads through it.
+ */
+export const processRevenueCatPayload = async (
+  payload: RcPayload,
+  supabase: SupabaseLike,
+): Promise<Response> => {
   const parsed = parseWebhookPayload(payload);
-  const supabase = createSupabase(supabaseUrl, supabaseKey);
 
   const warnings: string[] = [];
   if (parsed.missingLatestTransactionId) {
@@ -239,8 +253,22 @@ export const handleRevenueCatWebhook = async (
   if (parsed.store === "unknown") {
     warnings.push(`unknown_store:${parsed.storeRaw ?? "unknown"}`);
   }
+  if (parsed.isTransfer && parsed.transferredFromUserIds.length === 0) {
+    warnings.push("transfer_from_unknown_users");
+  }
 
   const fatal = (() => {
+    // TRANSFER carries no subscriber attributes/product: only the receiving user is required
+    if (parsed.isTransfer) {
+      if (!parsed.transferredToUserId) {
+        return {
+          code: "missing_transfer_target",
+          message: "Missing or invalid transferred_to user id",
+        };
+      }
+      return null;
+    }
+
     // SAFETY: Used for processing and tying entitlement to a Supabase user + home
     if (!parsed.rcUserId) {
       return {
@@ -298,8 +326,10 @@ export const handleRevenueCatWebhook = async (
     // If store is unknown, keep null to avoid enum cast failures
     store: parsed.store === "unknown" ? null : parsed.store,
 
-    status: parsed.status,
+    // TRANSFER keeps the moved subscription's status
+    status: parsed.isTransfer ? null : parsed.status,
     current_period_end_at: parsed.currentPeriodEndAt,
+    grace_until_at: parsed.graceUntilAt,
     original_purchase_at: parsed.originalPurchaseAt,
     last_purchase_at: parsed.lastPurchaseAt,
 
@@ -345,6 +375,130 @@ export const handleRevenueCatWebhook = async (
     );
   }
 
+  /** Acknowledge an event that is recorded but not applied (superseded / rejected transition) */
+  const notApplied = async (
+    auditFields: Record<string, unknown>,
+    body: Record<string, unknown>,
+  ) => {
+    const write = await supabase
+      .from("revenuecat_webhook_events")
+      .upsert(
+        { ...auditRow, ...auditFields },
+        { onConflict: "environment,idempotency_key", returning: "minimal" },
+      );
+    if (write.error) {
+      return json(
+        {
+          ok: false,
+          retryable: true,
+          error_code: "audit_write_failed",
+          message: "Failed to log webhook event",
+          details: write.error.message,
+        },
+        500,
+      );
+    }
+
+    return json({ ok: true, ...body, warnings }, 200);
+  };
+
+  // Lifecycle violations are deterministic: retrying cannot make them valid
+  const rejectTransition = (transition: string) =>
+    notApplied(
+      { rejected_transition: transition },
+      { rejected: true, transition },
+    );
+
+  const rpcFailure = async (rpcError: NonNullable<SbError>) => {
+    if (rpcError.message === "invalid_subscription_transition") {
+      return await rejectTransition(
+        rpcError.details ?? transitionLabel(null, parsed.status),
+      );
+    }
+
+    const retryable = isTransientDbError(rpcError);
+
+    // Best-effort: update audit row with rpc failure diagnostics
+    await supabase.from("revenuecat_webhook_events").upsert(
+      {
+        ...auditRow,
+        rpc_error_code: "rpc_failure",
+        rpc_error: rpcError.message ?? "rpc_failure",
+        rpc_retryable: retryable,
+      },
+      { onConflict: "environment,idempotency_key", returning: "minimal" },
+    );
+
+    return json(
+      {
+        ok: false,
+        retryable,
+        error_code: "rpc_failure",
+        message: rpcError.message ?? "rpc_failure",
+        warnings,
+      },
+      retryable ? 500 : 200,
+    );
+  };
+
+  // ✅ TRANSFER: move the subscription to the receiving user + home (status/period unchanged)
+  if (parsed.isTransfer) {
+    const { data: transferDeduped, error: transferError } = await supabase
+      .rpc<boolean>("paywall_transfer_subscription", {
+        p_idempotency_key: idempotencyKey,
+        p_to_user_id: parsed.transferredToUserId,
+        p_from_user_ids: parsed.transferredFromUserIds,
+        p_home_id: parsed.homeId,
+        p_entitlement_ids: parsed.entitlementIds.length > 0
+          ? parsed.entitlementIds
+          : null,
+        p_event_timestamp: parsed.eventTimestamp,
+        p_environment: environment,
+      });
+    if (transferError) return await rpcFailure(transferError);
+
+    return json(
+      {
+        ok: true,
+        deduped: Boolean(transferDeduped),
+        transferred: true,
+        warnings,
+      },
+      200,
+    );
+  }
+
+  // ✅ Out-of-order protection: compare against the last applied state (needs a timestamp)
+  let appliedState: AppliedState | null = null;
+  if (parsed.eventTimestamp) {
+    const { data, error: stateError } = await supabase.rpc<
+      AppliedState | null
+    >("paywall_subscription_applied_state", {
+      p_user_id: parsed.rcUserId,
+      p_entitlement_id: parsed.primaryEntitlementId,
+    });
+    if (stateError) return await rpcFailure(stateError);
+    appliedState = isPlainObject(data) ? data as AppliedState : null;
+
+    const superseded = supersededReason(parsed, appliedState);
+    if (superseded) {
+      // Recorded, never applied: a stale CANCELLATION must not downgrade a renewed home
+      return await notApplied(
+        { superseded_reason: superseded },
+        { superseded: true, reason: superseded },
+      );
+    }
+
+    // ✅ Lifecycle: e.g. a BILLING_ISSUE after EXPIRATION must not reopen a grace period.
+    // paywall_record_subscription enforces the same table (untimed events, races).
+    const appliedStatus = appliedState?.status ?? null;
+    if (!transitionAllowed(appliedStatus, parsed.status)) {
+      return await rejectTransition(
+        transitionLabel(appliedStatus, parsed.status),
+      );
+    }
+  }
+
   const rpcArgs: Record<string, unknown> = {
     p_idempotency_key: idempotencyKey,
 
@@ -369,6 +523,11 @@ export const handleRevenueCatWebhook = async (
     p_original_transaction_id: parsed.originalTransactionId,
     p_raw_event: payload,
     p_warnings: warnings.length ? warnings : null,
+
+    // Compare-and-swap: fails retryable (40001) if another event was applied meanwhile
+    p_applied_state: parsed.eventTimestamp ? (appliedState ?? {}) : null,
+
+    p_grace_until_at: parsed.graceUntilAt,
   };
 
   const { data: deduped, error: rpcError } = await supabase.rpc<boolean>(
@@ -376,31 +535,7 @@ export const handleRevenueCatWebhook = async (
     rpcArgs,
   );
 
-  if (rpcError) {
-    const retryable = isTransientDbError(rpcError);
-
-    // Best-effort: update audit row with rpc failure diagnostics
-    await supabase.from("revenuecat_webhook_events").upsert(
-      {
-        ...auditRow,
-        rpc_error_code: "rpc_failure",
-        rpc_error: rpcError.message ?? "rpc_failure",
-        rpc_retryable: retryable,
-      },
-      { onConflict: "environment,idempotency_key", returning: "minimal" },
-    );
-
-    return json(
-      {
-        ok: false,
-        retryable,
-        error_code: "rpc_failure",
-        message: rpcError.message ?? "rpc_failure",
-        warnings,
-      },
-      retryable ? 500 : 200,
-    );
-  }
+  if (rpcError) return await rpcFailure(rpcError);
 
   // Best-effort: hydrate/refresh paywall status for this home.
   try {
@@ -0,0 +1,54 @@
+// supabase/functions/revenuecat_webhook/lifecycle.ts
+import type { SubscriptionStatus } from "./parse.ts";
+
+/**
+ * Subscription lifecycle (dunning). Premium while active, in_grace (until grace_until_at) or
+ * cancelled_pending_expiry (until current_period_end_at); on_hold and expired lock the home.
+ *
+ *   active ──BILLING_ISSUE──> in_grace ──grace ends──> on_hold ──> expired
+ *     │  ^                      │  │                     │
+ *     │  └─────RENEWAL──────────┘  └──────RENEWAL────────┴──> active
+ *     └──CANCELLATION──> cancelled_pending_expiry ──> expired | active (UNCANCELLATION)
+ *
+ * Mirrors public._subscription_transition_allowed(); keep both in sync.
+ * inactive (unknown event / transferred away) is outside the lifecycle: any status may enter
+ * or leave it.
+ */
+export const ALLOWED_TRANSITIONS: Record<
+  Exclude<SubscriptionStatus, "inactive">,
+  readonly SubscriptionStatus[]
+> = {
+  active: [
+    "active",
+    "in_grace",
+    "on_hold",
+    "cancelled_pending_expiry",
+    "expired",
+  ],
+  in_grace: [
+    "active",
+    "in_grace",
+    "on_hold",
+    "cancelled_pending_expiry",
+    "expired",
+  ],
+  // Past the paid period: a late cancellation must not reopen access
+  on_hold: ["active", "on_hold", "expired"],
+  // Auto-renew is off, so no billing retries until the user resubscribes
+  cancelled_pending_expiry: ["active", "cancelled_pending_expiry", "expired"],
+  expired: ["active", "expired"],
+};
+
+/** null = no subscription row yet */
+export const transitionAllowed = (
+  from: SubscriptionStatus | null,
+  to: SubscriptionStatus,
+): boolean => {
+  if (from === null || from === "inactive" || to === "inactive") return true;
+  return ALLOWED_TRANSITIONS[from]?.includes(to) ?? true;
+};
+
+export const transitionLabel = (
+  from: SubscriptionStatus | null,
+  to: SubscriptionStatus,
+): string => `${from ?? "none"}->${to}`;
@@ -0,0 +1,66 @@
+// supabase/functions/revenuecat_webhook/ordering.ts
+import type { ParsedWebhook, SubscriptionStatus } from "./parse.ts";
+
+/** Last state applied to user_subscriptions (paywall_subscription_applied_state) */
+export type AppliedState = {
+  event_timestamp: string | null;
+  original_transaction_id: string | null;
+  latest_transaction_id: string | null;
+  last_purchase_at: string | null;
+  status?: SubscriptionStatus | null;
+};
+
+export type SupersededReason = "older_event" | "older_transaction";
+
+type OrderingFields = Pick<
+  ParsedWebhook,
+  | "eventTimestamp"
+  | "originalTransactionId"
+  | "latestTransactionId"
+  | "lastPurchaseAt"
+>;
+
+const toMs = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+};
+
+/**
+ * RevenueCat does not guarantee delivery order (retries, delayed queues), so an event is only
+ * applied if it is not older than what the subscription already reflects:
+ * 1) same lineage (original_transaction_id) but about an earlier transaction than the applied
+ *    one (e.g. a late CANCELLATION of the period a RENEWAL already replaced) -> older_transaction
+ * 2) event_timestamp before the applied event's -> older_event
+ * Events without a timestamp, or with nothing applied yet, cannot be ordered and are applied.
+ * Equal timestamps are applied (replays of the same state are deduped by idempotency key).
+ */
+export const supersededReason = (
+  incoming: OrderingFields,
+  applied: AppliedState | null,
+): SupersededReason | null => {
+  const incomingAt = toMs(incoming.eventTimestamp);
+  if (!applied || incomingAt === null) return null;
+
+  const sameLineage = Boolean(
+    incoming.originalTransactionId &&
+      incoming.originalTransactionId === applied.original_transaction_id,
+  );
+  const otherTransaction = Boolean(
+    incoming.latestTransactionId && applied.latest_transaction_id &&
+      incoming.latestTransactionId !== applied.latest_transaction_id,
+  );
+  const incomingPurchase = toMs(incoming.lastPurchaseAt);
+  const appliedPurchase = toMs(applied.last_purchase_at);
+  if (
+    sameLineage && otherTransaction && incomingPurchase !== null &&
+    appliedPurchase !== null && incomingPurchase < appliedPurchase
+  ) {
+    return "older_transaction";
+  }
+
+  const appliedAt = toMs(applied.event_timestamp);
+  if (appliedAt !== null && incomingAt < appliedAt) return "older_event";
+
+  return null;
+};
@@ -7,9 +7,12 @@ export type Store =
   | "stripe"
   | "promotional"
   | "unknown";
+// Lifecycle (transitions: lifecycle.ts); inactive = unknown event / transferred away
 export type SubscriptionStatus =
   | "active"
-  | "cancelled"
+  | "in_grace"
+  | "on_hold"
+  | "cancelled_pending_expiry"
   | "expired"
   | "inactive";
 
@@ -40,6 +43,12 @@ export type ParsedWebhook = {
   eventTypeRaw: string;
   unknownEventType: boolean;
 
+  // TRANSFER: the subscription moves between RevenueCat users (Supabase UUIDs only;
+  // anonymous ids are dropped)
+  isTransfer: boolean;
+  transferredFromUserIds: string[];
+  transferredToUserId: string | null;
+
   environment: string; // normalized to non-null
   homeId: string | null;
 
@@ -48,6 +57,8 @@ export type ParsedWebhook = {
 
   eventTimestamp: string | null;
   currentPeriodEndAt: string | null;
+  graceUntilAt: string | null; // in_grace only: end of the store grace period
+
   originalPurchaseAt: string | null;
   lastPurchaseAt: string | null;
 
@@ -62,6 +73,11 @@ const KNOWN_EVENT_TYPES = new Set([
   "CANCELLATION",
   "BILLING_ISSUE",
   "EXPIRATION",
+  "TRANSFER",
+  "SUBSCRIPTION_PAUSED",
+  "SUBSCRIPTION_EXTENDED",
+  "NON_RENEWING_PURCHASE",
+  "TEMPORARY_ENTITLEMENT_GRANT",
 ]);
 
 export const statusFromEvent = (
@@ -75,13 +91,29 @@ export const statusFromEvent = (
     case "RENEWAL":
     case "PRODUCT_CHANGE":
     case "UNCANCELLATION":
+    // expiration_at carries the new end date
+    case "SUBSCRIPTION_EXTENDED":
+    // One-off purchase; entitled until expiration_at (NULL = no end)
+    case "NON_RENEWING_PURCHASE":
+    // Short grant while the store is unreachable; ends at expiration_at
+    case "TEMPORARY_ENTITLEMENT_GRANT":
+      return { status: "active", unknown: false, normalized };
+
+    // The subscription itself is moved (paywall_transfer_subscription); its status is kept
+    case "TRANSFER":
       return { status: "active", unknown: false, normalized };
 
     case "CANCELLATION":
-      return { status: "cancelled", unknown: false, normalized };
+      return { status: "cancelled_pending_expiry", unknown: false, normalized };
+
+    // Pause starts when the paid period ends: like a cancellation, premium until expiration_at
+    case "SUBSCRIPTION_PAUSED":
+      return { status: "cancelled_pending_expiry", unknown: false, normalized };
 
+    // Store is retrying the charge; premium until the grace period ends.
+    // Without a grace period the store holds the subscription (on_hold, see parseWebhookPayload)
     case "BILLING_ISSUE":
-      return { status: "inactive", unknown: false, normalized };
+      return { status: "in_grace", unknown: false, normalized };
 
     case "EXPIRATION":
       return { status: "expired", unknown: false, normalized };
@@ -187,7 +219,7 @@ const uniquePreserveOrder = (values: string[]): string[] => {
   return out;
 };
 
-const normalizeEntitlementIds = (
+export const normalizeEntitlementIds = (
   payload: RcPayload,
   event: Record<string, unknown> | undefined,
 ) => {
@@ -233,7 +265,7 @@ const extractSubscriberAttrValue = (
   return raw;
 };
 
-const extractHomeId = (
+export const extractHomeId = (
   payload: RcPayload,
   event: Record<string, unknown> | undefined,
 ): string | null => {
@@ -260,11 +292,26 @@ export const parseWebhookPayload = (payload: RcPayload): ParsedWebhook => {
     (payload?.type as string | undefined) ??
     "";
 
-  const { status, unknown: unknownEventType, normalized: eventTypeNorm } =
-    statusFromEvent(eventType);
+  const {
+    status: eventStatus,
+    unknown: unknownEventType,
+    normalized: eventTypeNorm,
+  } = statusFromEvent(eventType);
+
+  const isTransfer = eventTypeNorm === "TRANSFER";
+  const transferredFrom = asStringArray(
+    (event?.transferred_from as unknown) ??
+      (payload?.transferred_from as unknown) ?? [],
+  );
+  const transferredTo = asStringArray(
+    (event?.transferred_to as unknown) ??
+      (payload?.transferred_to as unknown) ?? [],
+  );
 
+  // TRANSFER events carry no app_user_id; the receiving user stands in for it
   const rcAppUserId = (event?.app_user_id as string | undefined) ??
     (payload?.app_user_id as string | undefined) ??
+    (isTransfer ? transferredTo[0] : undefined) ??
     null;
 
   const subscriberAttributes = (event?.subscriber_attributes ??
@@ -301,11 +348,24 @@ export const parseWebhookPayload = (payload: RcPayload): ParsedWebhook => {
 
   const environment = (environmentRaw ?? "unknown").toLowerCase().trim();
 
-  const currentPeriodEndAt = parseDate(
+  const gracePeriodExpirationAt = parseDate(
+    event?.grace_period_expiration_at_ms ??
+      payload?.grace_period_expiration_at_ms ??
+      event?.grace_period_expiration_at ??
+      payload?.grace_period_expiration_at,
+  );
+
+  const expirationAt = parseDate(
     event?.expiration_at_ms ?? payload?.expiration_at_ms ??
       event?.expiration_at ?? payload?.expiration_at,
   );
 
+  // BILLING_ISSUE without a grace period: no access while the store retries
+  const status: SubscriptionStatus =
+    eventStatus === "in_grace" && !gracePeriodExpirationAt
+      ? "on_hold"
+      : eventStatus;
+
   const originalPurchaseAt = parseDate(
     event?.original_purchase_at_ms ??
       payload?.original_purchase_at_ms ??
@@ -361,6 +421,12 @@ export const parseWebhookPayload = (payload: RcPayload): ParsedWebhook => {
     eventTypeRaw: eventTypeNorm || "(empty)",
     unknownEventType,
 
+    isTransfer,
+    transferredFromUserIds: uniquePreserveOrder(
+      transferredFrom.map(asUuid).filter((id): id is string => Boolean(id)),
+    ),
+    transferredToUserId: transferredTo.map(asUuid).find(Boolean) ?? null,
+
     environment,
     homeId,
 
@@ -368,7 +434,8 @@ export const parseWebhookPayload = (payload: RcPayload): ParsedWebhook => {
     originalTransactionId,
 
     eventTimestamp,
-    currentPeriodEndAt,
+    currentPeriodEndAt: expirationAt,
+    graceUntilAt: status === "in_grace" ? gracePeriodExpirationAt : null,
     originalPurchaseAt,
     lastPurchaseAt,
 
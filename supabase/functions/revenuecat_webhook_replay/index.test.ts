@@ -0,0 +1,311 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert@0.224.0";
+
+import {
+  handleReplayRequest,
+  parseRunOptions,
+  type ReplayDeps,
+  type StoredEvent,
+} from "./index.ts";
+import { replayOutcome } from "./replay.ts";
+import {
+  internalSecretHarness,
+  recordingRpc,
+  type RpcCall,
+} from "../test_support.ts";
+
+type RpcError = { message: string; code?: string; details?: string };
+
+const USER_ID = "25000000-0000-4000-9000-000000000001";
+const HOME_ID = "25000000-0000-4000-9000-000000000101";
+
+function storedEvent(
+  id: string,
+  attributes: Record<string, { value: string }> = {
+    user_id: { value: USER_ID },
+    home_id: { value: HOME_ID },
+  },
+  overrides: Partial<StoredEvent> = {},
+): StoredEvent {
+  return {
+    id,
+    environment: "production",
+    idempotency_key: `key-${id}`,
+    created_at: "2026-03-20T00:00:00.000Z",
+    event_timestamp: "2026-03-20T00:00:00.000Z",
+    home_id: null,
+    fatal_error_code: "missing_home_id",
+    rpc_error_code: null,
+    rpc_retryable: null,
+    replayed_at: null,
+    raw: {
+      event: {
+        id: `evt-${id}`,
+        type: "INITIAL_PURCHASE",
+        event_timestamp_ms: Date.parse("2026-03-20T00:00:00Z"),
+        app_user_id: USER_ID,
+        entitlement_ids: ["kinly_premium"],
+        product_id: "com.example.kinly.premium.monthly",
+        store: "APP_STORE",
+        environment: "PRODUCTION",
+        expiration_at_ms: Date.parse("2026-04-20T00:00:00Z"),
+        subscriber_attributes: attributes,
+      },
+    },
+    ...overrides,
+  };
+}
+
+function fakeDeps(
+  events: StoredEvent[],
+  recordErrors: RpcError[] = [],
+) {
+  const upserts: Array<Record<string, unknown>> = [];
+  const { supabase: recorder, calls } = recordingRpc((fn) => {
+    if (fn === "paywall_webhook_replay_events") {
+      return { data: events, error: null };
+    }
+    if (fn === "paywall_webhook_replay_preview") {
+      return {
+        data: [{
+          home_id: HOME_ID,
+          current_plan: "free",
+          current_expires_at: null,
+          projected_plan: "premium",
+          projected_expires_at: "2026-04-20T00:00:00.000Z",
+          subscriptions: [{
+            user_id: USER_ID,
+            entitlement_id: "kinly_premium",
+            from_status: null,
+            to_status: "active",
+          }],
+        }],
+        error: null,
+      };
+    }
+    if (fn === "paywall_record_subscription") {
+      return { data: false, error: recordErrors.shift() ?? null };
+    }
+    return { data: null, error: null };
+  });
+  const deps: ReplayDeps = {
+    supabase: {
+      // Generic rpc<T> signature of the webhook's client; the fake returns untyped data
+      rpc: recorder.rpc as ReplayDeps["supabase"]["rpc"],
+      from: (_table: string) => ({
+        upsert: (row: Record<string, unknown>) => {
+          upserts.push(row);
+          return Promise.resolve({ error: null, data: [] });
+        },
+      }),
+    },
+    jobRunId: "job-1",
+  };
+  return { deps, calls, upserts };
+}
+
+const { withSecret, request } = internalSecretHarness(
+  "revenuecat_webhook_replay",
+  "BILLING_INTERNAL_SECRET",
+);
+
+const marks = (calls: RpcCall[]) =>
+  calls
+    .filter((c) => c.fn === "paywall_webhook_replay_mark")
+    .map((c) => [c.args.p_event_id, c.args.p_outcome]);
+
+Deno.test("handleReplayRequest rejects callers without the internal secret", async () => {
+  await withSecret(async () => {
+    const { deps, calls } = fakeDeps([storedEvent("e1")]);
+
+    const res = await handleReplayRequest(request({}, "nope"), deps);
+
+    assertEquals(res.status, 401);
+    assertEquals(calls, []);
+  });
+});
+
+Deno.test("parseRunOptions validates filters", () => {
+  assertEquals(parseRunOptions({}), {
+    dryRun: false,
+    limit: 100,
+    filters: {
+      fatalErrorCode: null,
+      rpcRetryable: null,
+      from: null,
+      to: null,
+      homeId: null,
+    },
+  });
+  assertEquals(
+    parseRunOptions({
+      dry_run: true,
+      limit: 5,
+      fatal_error_code: " missing_home_id ",
+      rpc_retryable: false,
+      from: "2026-03-01",
+      to: "2026-03-02T00:00:00Z",
+      home_id: HOME_ID.toUpperCase(),
+    }),
+    {
+      dryRun: true,
+      limit: 5,
+      filters: {
+        fatalErrorCode: "missing_home_id",
+        rpcRetryable: false,
+        from: "2026-03-01T00:00:00.000Z",
+        to: "2026-03-02T00:00:00.000Z",
+        homeId: HOME_ID,
+      },
+    },
+  );
+  assertThrows(() => parseRunOptions({ limit: 501 }), Error, "invalid_limit");
+  assertThrows(
+    () => parseRunOptions({ fatal_error_code: "" }),
+    Error,
+    "invalid_fatal_error_code",
+  );
+  assertThrows(
+    () => parseRunOptions({ rpc_retryable: "true" }),
+    Error,
+    "invalid_rpc_retryable",
+  );
+  assertThrows(
+    () => parseRunOptions({ home_id: "home-1" }),
+    Error,
+    "invalid_home_id",
+  );
+  assertThrows(() => parseRunOptions({ from: "soon" }), Error, "invalid_from");
+  assertThrows(
+    () => parseRunOptions({ from: "2026-03-02", to: "2026-03-01" }),
+    Error,
+    "invalid_range",
+  );
+});
+
+Deno.test("replayOutcome classifies webhook responses", () => {
+  assertEquals(replayOutcome(200, { ok: true, deduped: false }), "applied");
+  assertEquals(replayOutcome(200, { ok: true, deduped: true }), "deduped");
+  assertEquals(
+    replayOutcome(200, { ok: true, superseded: true }),
+    "superseded",
+  );
+  assertEquals(replayOutcome(200, { ok: true, rejected: true }), "rejected");
+  assertEquals(
+    replayOutcome(400, { ok: false, error_code: "missing_home_id" }),
+    "fatal",
+  );
+  assertEquals(
+    replayOutcome(200, { ok: false, retryable: false }),
+    "failed",
+  );
+  assertEquals(replayOutcome(500, { ok: false, retryable: true }), "failed");
+});
+
+Deno.test("handleReplayRequest replays stored payloads and marks each event", async () => {
+  await withSecret(async () => {
+    const { deps, calls, upserts } = fakeDeps([
+      storedEvent("e1"),
+      storedEvent("e2", { user_id: { value: USER_ID } }),
+      storedEvent("e3"),
+    ], [{ message: "connection reset", code: "08006" }]);
+
+    const res = await handleReplayRequest(
+      request({ fatal_error_code: "missing_home_id", home_id: HOME_ID }),
+      deps,
+    );
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(calls[0], {
+      fn: "paywall_webhook_replay_events",
+      args: {
+        p_fatal_error_code: "missing_home_id",
+        p_rpc_retryable: null,
+        p_from: null,
+        p_to: null,
+        p_home_id: HOME_ID,
+        p_limit: 100,
+      },
+    });
+    assertEquals(body.events, 3);
+    assertEquals(body.failed, 1);
+    assertEquals(body.fatal, 1);
+    assertEquals(body.applied, 1);
+    assertEquals(body.homes, undefined);
+    assertEquals(marks(calls), [
+      ["e1", "failed"],
+      ["e2", "fatal"],
+      ["e3", "applied"],
+    ]);
+    assertEquals(
+      body.results.map((r: { error_code: string | null }) => r.error_code),
+      ["rpc_failure", "missing_home_id", null],
+    );
+
+    const records = calls.filter((c) => c.fn === "paywall_record_subscription");
+    assertEquals(records.length, 2);
+    assertEquals(records[1].args.p_home_id, HOME_ID);
+    assertEquals(records[1].args.p_status, "active");
+    // Audit rows are rewritten under the webhook's own idempotency key
+    assertEquals(upserts[0].raw, storedEvent("e1").raw);
+    assertEquals(upserts[0].fatal_error_code, null);
+  });
+});
+
+Deno.test("handleReplayRequest dry run writes nothing and projects home plans", async () => {
+  await withSecret(async () => {
+    const { deps, calls, upserts } = fakeDeps([
+      storedEvent("e1"),
+      storedEvent("e2", { user_id: { value: USER_ID } }),
+    ]);
+
+    const res = await handleReplayRequest(request({ dry_run: true }), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(body.applied, 1);
+    assertEquals(body.fatal, 1);
+    assertEquals(upserts, []);
+    assertEquals(calls.map((c) => c.fn), [
+      "paywall_webhook_replay_events",
+      "paywall_subscription_applied_state",
+      "paywall_webhook_replay_preview",
+    ]);
+    assertEquals(calls[2].args.p_changes, [{
+      kind: "record",
+      user_id: USER_ID,
+      entitlement_id: "kinly_premium",
+      home_id: HOME_ID,
+      status: "active",
+      current_period_end_at: "2026-04-20T00:00:00.000Z",
+      grace_until_at: null,
+    }]);
+    assertEquals(body.homes[0].current_plan, "free");
+    assertEquals(body.homes[0].projected_plan, "premium");
+  });
+});
+
+Deno.test("handleReplayRequest reports a failed event selection", async () => {
+  await withSecret(async () => {
+    const deps: ReplayDeps = {
+      supabase: {
+        rpc: <T = unknown>() =>
+          Promise.resolve({
+            data: null as T,
+            error: { message: "permission denied" },
+          }),
+        from: () => ({
+          upsert: () => Promise.resolve({ error: null, data: [] }),
+        }),
+      },
+      jobRunId: "job-1",
+    };
+
+    const res = await handleReplayRequest(request({}), deps);
+    const body = await res.json();
+
+    assertEquals(res.status, 500);
+    assertEquals(body.error, "permission denied");
+    assertEquals(body.events, 0);
+  });
+});
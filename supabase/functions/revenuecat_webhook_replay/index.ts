@@ -0,0 +1,414 @@
+// supabase/functions/revenuecat_webhook_replay/index.ts
+// RevenueCat webhook replay (on demand, e.g. after a webhook fix).
+// - paywall_webhook_replay_events selects failed revenuecat_webhook_events (fatal_error_code or
+//   rpc_error_code) by filter, oldest event first.
+// - Each stored raw payload goes through processRevenueCatPayload (the webhook's processing path
+//   without the HTTP auth step): same audit row and idempotency key, so events that were applied
+//   meanwhile dedupe, and ordering / lifecycle checks apply as for a live delivery.
+// - paywall_webhook_replay_mark stamps replayed_at / replay_outcome on each event.
+// Internal-only: callers send x-internal-secret (BILLING_INTERNAL_SECRET, fail-closed).
+// Optional JSON body (filters are ANDed; omitted = any):
+// - fatal_error_code: e.g. "missing_home_id"
+// - rpc_retryable: true | false
+// - from / to: ISO timestamps on the event's created_at (to is exclusive)
+// - home_id: audited home_id or the payload's home_id attribute
+// - limit: events to replay (1-500, default 100)
+// - dry_run: true writes nothing; subscription writes are captured and projected per home
+//   (paywall_webhook_replay_preview: current vs projected plan). Events are projected against the
+//   current subscriptions, not against each other's ordering checks.
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
+import {
+  processRevenueCatPayload,
+  type SupabaseLike,
+} from "../revenuecat_webhook/index.ts";
+import { asUuid, type RcPayload } from "../revenuecat_webhook/parse.ts";
+import {
+  type CapturedChange,
+  dryRunSupabase,
+  type ReplayOutcome,
+  replayOutcome,
+} from "./replay.ts";
+
+export type ReplayFilters = {
+  fatalErrorCode: string | null;
+  rpcRetryable: boolean | null;
+  from: string | null;
+  to: string | null;
+  homeId: string | null;
+};
+
+export type ReplayRunOptions = {
+  dryRun: boolean;
+  limit: number;
+  filters: ReplayFilters;
+};
+
+export type ReplayDeps = {
+  supabase: SupabaseLike;
+  jobRunId: string;
+};
+
+export type StoredEvent = {
+  id: string;
+  environment: string;
+  idempotency_key: string;
+  created_at: string;
+  event_timestamp: string | null;
+  home_id: string | null;
+  fatal_error_code: string | null;
+  rpc_error_code: string | null;
+  rpc_retryable: boolean | null;
+  replayed_at: string | null;
+  raw: RcPayload;
+};
+
+export type ReplayResult = {
+  event_id: string;
+  idempotency_key: string;
+  previous_error: string | null;
+  outcome: ReplayOutcome;
+  http_status: number;
+  error_code: string | null;
+};
+
+export type HomeProjection = {
+  home_id: string;
+  current_plan: string;
+  current_expires_at: string | null;
+  projected_plan: string;
+  projected_expires_at: string | null;
+  subscriptions:
+    | Array<{
+      user_id: string;
+      entitlement_id: string;
+      from_status: string | null;
+      to_status: string;
+    }>
+    | null;
+};
+
+type ReplaySummary = {
+  events: number;
+  applied: number;
+  deduped: number;
+  superseded: number;
+  rejected: number;
+  fatal: number;
+  failed: number;
+  results: ReplayResult[];
+  homes: HomeProjection[];
+};
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+const MAX_CONTENT_LENGTH = 4_096;
+
+// ---------------------------------------------------------------------------
+// Main entry
+// ---------------------------------------------------------------------------
+
+export async function handleReplayRequest(
+  req: Request,
+  deps: Partial<ReplayDeps> = {},
+): Promise<Response> {
+  try {
+    requireInternalSecret(req);
+  } catch (error) {
+    const message = (error as Error).message;
+    return json({ error: message }, message === "unauthorized" ? 401 : 500);
+  }
+
+  let options: ReplayRunOptions;
+  try {
+    options = parseRunOptions(await readBody(req));
+  } catch (error) {
+    return json({ error: (error as Error).message }, 400);
+  }
+
+  let supabase = deps.supabase;
+  if (!supabase) {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseKey) {
+      return json(
+        { error: "Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY" },
+        500,
+      );
+    }
+
+    // Internal-only edge function: OK to use service role, gated by x-internal-secret.
+    supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    }) as unknown as SupabaseLike;
+  }
+
+  const run: ReplayDeps = {
+    supabase,
+    jobRunId: deps.jobRunId ?? crypto.randomUUID(),
+  };
+  const startedAt = Date.now();
+
+  const summary = newSummary();
+  try {
+    await runReplay(run, options, summary);
+
+    const durationMs = Date.now() - startedAt;
+    const { results, homes, ...counts } = summary;
+    console.log("[revenuecat-webhook-replay] done", {
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      durationMs,
+    });
+
+    return json({
+      jobRunId: run.jobRunId,
+      ...options,
+      ...counts,
+      results,
+      ...(options.dryRun ? { homes } : {}),
+      durationMs,
+    });
+  } catch (error) {
+    console.error("revenuecat-webhook-replay job error", {
+      jobRunId: run.jobRunId,
+      error,
+    });
+    const { results, homes: _homes, ...counts } = summary;
+    return json(
+      {
+        jobRunId: run.jobRunId,
+        ...options,
+        ...counts,
+        results,
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message ?? "unknown_error",
+      },
+      500,
+    );
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleReplayRequest(req));
+}
+
+// ---------------------------------------------------------------------------
+// Run loop
+// ---------------------------------------------------------------------------
+
+function newSummary(): ReplaySummary {
+  return {
+    events: 0,
+    applied: 0,
+    deduped: 0,
+    superseded: 0,
+    rejected: 0,
+    fatal: 0,
+    failed: 0,
+    results: [],
+    homes: [],
+  };
+}
+
+// Fills `summary` as it goes so a failed run still reports what was replayed
+export async function runReplay(
+  deps: ReplayDeps,
+  options: ReplayRunOptions,
+  summary: ReplaySummary = newSummary(),
+): Promise<ReplaySummary> {
+  const events = await fetchEvents(deps, options);
+  const changes: CapturedChange[] = [];
+  const supabase = options.dryRun
+    ? dryRunSupabase(deps.supabase, changes)
+    : deps.supabase;
+
+  for (const event of events) {
+    summary.events += 1;
+
+    let status: number;
+    let body: Record<string, unknown>;
+    try {
+      const res = await processRevenueCatPayload(event.raw, supabase);
+      status = res.status;
+      body = await res.json() as Record<string, unknown>;
+    } catch (error) {
+      // One broken event must not stop the batch (the live webhook answers 500 here too)
+      console.error("revenuecat-webhook-replay event error", {
+        jobRunId: deps.jobRunId,
+        eventId: event.id,
+        error,
+      });
+      status = 500;
+      body = { ok: false, error_code: "fatal_unhandled" };
+    }
+
+    const outcome = replayOutcome(status, body);
+    summary[outcome] += 1;
+    summary.results.push({
+      event_id: event.id,
+      idempotency_key: event.idempotency_key,
+      previous_error: event.fatal_error_code ?? event.rpc_error_code,
+      outcome,
+      http_status: status,
+      error_code: typeof body.error_code === "string" ? body.error_code : null,
+    });
+
+    if (!options.dryRun) await markReplayed(deps, event, outcome);
+  }
+
+  if (options.dryRun && changes.length > 0) {
+    summary.homes = await previewHomes(deps, changes);
+  }
+
+  return summary;
+}
+
+async function fetchEvents(
+  deps: ReplayDeps,
+  options: ReplayRunOptions,
+): Promise<StoredEvent[]> {
+  const { filters } = options;
+  const { data, error } = await deps.supabase.rpc<StoredEvent[]>(
+    "paywall_webhook_replay_events",
+    {
+      p_fatal_error_code: filters.fatalErrorCode,
+      p_rpc_retryable: filters.rpcRetryable,
+      p_from: filters.from,
+      p_to: filters.to,
+      p_home_id: filters.homeId,
+      p_limit: options.limit,
+    },
+  );
+
+  if (error) {
+    console.error("paywall_webhook_replay_events error", error);
+    throw new Error(error.message ?? "paywall_webhook_replay_events_failed");
+  }
+
+  return data ?? [];
+}
+
+async function markReplayed(
+  deps: ReplayDeps,
+  event: StoredEvent,
+  outcome: ReplayOutcome,
+) {
+  const { error } = await deps.supabase.rpc("paywall_webhook_replay_mark", {
+    p_event_id: event.id,
+    p_outcome: outcome,
+  });
+
+  if (error) {
+    console.error("paywall_webhook_replay_mark error", error);
+    throw new Error(error.message ?? "paywall_webhook_replay_mark_failed");
+  }
+}
+
+async function previewHomes(
+  deps: ReplayDeps,
+  changes: CapturedChange[],
+): Promise<HomeProjection[]> {
+  const { data, error } = await deps.supabase.rpc<HomeProjection[]>(
+    "paywall_webhook_replay_preview",
+    { p_changes: changes },
+  );
+
+  if (error) {
+    console.error("paywall_webhook_replay_preview error", error);
+    throw new Error(error.message ?? "paywall_webhook_replay_preview_failed");
+  }
+
+  return data ?? [];
+}
+
+// ---------------------------------------------------------------------------
+// Request parsing + auth
+// ---------------------------------------------------------------------------
+
+export function parseRunOptions(body: unknown): ReplayRunOptions {
+  const b = (body && typeof body === "object" ? body : {}) as Record<
+    string,
+    unknown
+  >;
+
+  if (b.dry_run !== undefined && typeof b.dry_run !== "boolean") {
+    throw new Error("invalid_dry_run");
+  }
+
+  if (
+    b.limit !== undefined &&
+    (typeof b.limit !== "number" || !Number.isInteger(b.limit) ||
+      b.limit < 1 || b.limit > MAX_LIMIT)
+  ) {
+    throw new Error("invalid_limit");
+  }
+
+  if (
+    b.fatal_error_code !== undefined &&
+    (typeof b.fatal_error_code !== "string" || !b.fatal_error_code.trim())
+  ) {
+    throw new Error("invalid_fatal_error_code");
+  }
+
+  if (b.rpc_retryable !== undefined && typeof b.rpc_retryable !== "boolean") {
+    throw new Error("invalid_rpc_retryable");
+  }
+
+  const homeId = b.home_id === undefined ? null : asUuid(b.home_id);
+  if (b.home_id !== undefined && !homeId) throw new Error("invalid_home_id");
+
+  const from = parseTimestamp(b.from, "invalid_from");
+  const to = parseTimestamp(b.to, "invalid_to");
+  if (from && to && from >= to) throw new Error("invalid_range");
+
+  return {
+    dryRun: b.dry_run === true,
+    limit: (b.limit as number | undefined) ?? DEFAULT_LIMIT,
+    filters: {
+      fatalErrorCode: (b.fatal_error_code as string | undefined)?.trim() ??
+        null,
+      rpcRetryable: (b.rpc_retryable as boolean | undefined) ?? null,
+      from,
+      to,
+      homeId,
+    },
+  };
+}
+
+function parseTimestamp(value: unknown, errorCode: string): string | null {
+  if (value === undefined) return null;
+  const ms = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(ms)) throw new Error(errorCode);
+  return new Date(ms).toISOString();
+}
+
+// Same billing secret as revenuecat_reconcile (fail-closed)
+export function requireInternalSecret(req: Request) {
+  const expected = Deno.env.get("BILLING_INTERNAL_SECRET");
+  if (!expected) throw new Error("Missing env BILLING_INTERNAL_SECRET");
+  const got = req.headers.get("x-internal-secret");
+  if (got !== expected) throw new Error("unauthorized");
+}
+
+async function readBody(req: Request): Promise<unknown> {
+  const cl = Number(req.headers.get("content-length") ?? "0");
+  if (Number.isFinite(cl) && cl > MAX_CONTENT_LENGTH) {
+    throw new Error("payload_too_large");
+  }
+  const text = await req.text();
+  if (!text.trim()) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error("invalid_json");
+  }
+}
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
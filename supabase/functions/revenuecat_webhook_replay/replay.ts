@@ -0,0 +1,85 @@
+// supabase/functions/revenuecat_webhook_replay/replay.ts
+import type { SupabaseLike } from "../revenuecat_webhook/index.ts";
+
+export type ReplayOutcome =
+  | "applied"
+  | "deduped"
+  | "superseded"
+  | "rejected"
+  | "fatal"
+  | "failed";
+
+/** Subscription write captured by a dry run (paywall_webhook_replay_preview input) */
+export type CapturedChange =
+  | {
+    kind: "record";
+    user_id: unknown;
+    entitlement_id: unknown;
+    home_id: unknown;
+    status: unknown;
+    current_period_end_at: unknown;
+    grace_until_at: unknown;
+  }
+  | {
+    kind: "transfer";
+    to_user_id: unknown;
+    from_user_ids: unknown;
+    home_id: unknown;
+    entitlement_ids: unknown;
+  };
+
+// Reads the webhook needs to order events; everything else is a write in a dry run
+const READ_ONLY_RPCS = new Set(["paywall_subscription_applied_state"]);
+
+/**
+ * SupabaseLike for dry runs: reads go to the database, audit upserts are dropped and RPC
+ * writes are captured (answered as "processed now") so the webhook path runs unchanged.
+ */
+export const dryRunSupabase = (
+  supabase: SupabaseLike,
+  changes: CapturedChange[],
+): SupabaseLike => ({
+  rpc: <T = unknown>(fn: string, args: Record<string, unknown>) => {
+    if (READ_ONLY_RPCS.has(fn)) return supabase.rpc<T>(fn, args);
+
+    if (fn === "paywall_record_subscription") {
+      changes.push({
+        kind: "record",
+        user_id: args.p_user_id,
+        entitlement_id: args.p_entitlement_id,
+        home_id: args.p_home_id,
+        status: args.p_status,
+        current_period_end_at: args.p_current_period_end_at,
+        grace_until_at: args.p_grace_until_at,
+      });
+    } else if (fn === "paywall_transfer_subscription") {
+      changes.push({
+        kind: "transfer",
+        to_user_id: args.p_to_user_id,
+        from_user_ids: args.p_from_user_ids,
+        home_id: args.p_home_id,
+        entitlement_ids: args.p_entitlement_ids,
+      });
+    }
+    return Promise.resolve({ error: null, data: false as T });
+  },
+  from: (_table: string) => ({
+    upsert: () => Promise.resolve({ error: null, data: [] }),
+  }),
+});
+
+/** Classify the webhook's response for a replayed event */
+export const replayOutcome = (
+  status: number,
+  body: Record<string, unknown>,
+): ReplayOutcome => {
+  if (body.ok === true) {
+    if (body.superseded) return "superseded";
+    if (body.rejected) return "rejected";
+    if (body.deduped) return "deduped";
+    return "applied";
+  }
+  // Validation failures (missing_home_id, unknown_store, ...) still fail after the replay
+  if (status === 400) return "fatal";
+  return "failed";
+};
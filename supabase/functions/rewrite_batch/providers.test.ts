@@ -1,6 +1,12 @@
 import {
   buildOpenAIBatchJsonlLine,
+  classifyProviderError,
+  evalFailureCodes,
   extractRewrittenTextFromOpenAIResponseBody,
+  getProviderAdapter,
+  providerApiKeyEnvName,
+  type ProviderInput,
+  resolveProvider,
 } from "./providers.ts";
 
 const expect = (condition: boolean, message: string) => {
@@ -50,3 +56,199 @@ Deno.test("extractRewrittenTextFromOpenAIResponseBody handles structured and pla
     "plain output_text cleaned (prefix kept, inner quotes retained)",
   );
 });
+
+const INPUT: ProviderInput = {
+  model: "m-1",
+  promptVersion: "v2",
+  targetLocale: "en",
+  intent: "request",
+  contextPack: {},
+  policy: {},
+  originalText: "hello",
+};
+
+Deno.test("resolveProvider maps adapter_kind + base_url and keeps OpenAI defaults", () => {
+  const legacy = resolveProvider({});
+  expect(
+    legacy.ok && legacy.provider === "openai" &&
+      legacy.adapter.kind === "openai_responses" &&
+      legacy.baseUrl === "https://api.openai.com",
+    "missing routing falls back to openai_responses",
+  );
+
+  const compat = resolveProvider({
+    provider: "qwen",
+    adapter_kind: "openai_compat_chat_completions",
+    base_url: "https://llm.internal/compatible-mode/",
+  });
+  expect(
+    compat.ok && compat.baseUrl === "https://llm.internal/compatible-mode/",
+    "base_url from routing row is used",
+  );
+
+  const noBase = resolveProvider({
+    provider: "local",
+    adapter_kind: "openai_compat_chat_completions",
+  });
+  expect(
+    !noBase.ok && noBase.error === "provider_base_url_missing",
+    "compat adapter requires base_url",
+  );
+
+  const unknown = resolveProvider({
+    provider: "gemini",
+    adapter_kind: "gemini",
+  });
+  expect(
+    !unknown.ok && unknown.error === "provider_adapter_not_supported",
+    "unknown adapter rejected",
+  );
+});
+
+Deno.test("chat completions adapter builds batch line + request against base_url", () => {
+  const adapter = getProviderAdapter("openai_compat_chat_completions")!;
+  const line = adapter.buildBatchLine({ job_id: "job-1", input: INPUT });
+  expect(line.custom_id === "job-1", "custom_id is job_id");
+  expect(line.url === "/v1/chat/completions", "chat completions endpoint");
+
+  const req = adapter.buildRequest(
+    { apiKey: null, baseUrl: "https://llm.internal/compatible-mode/" },
+    INPUT,
+  );
+  expect(
+    req.url === "https://llm.internal/compatible-mode/v1/chat/completions",
+    "url joined without double slash",
+  );
+  expect(!("Authorization" in req.headers), "keyless self-hosted allowed");
+  const messages = req.body.messages as Array<{ role: string }>;
+  expect(messages[0].role === "system", "system prompt first");
+});
+
+Deno.test("anthropic adapter builds params and parses batch results", () => {
+  const adapter = getProviderAdapter("anthropic_messages")!;
+  const line = adapter.buildBatchLine({ job_id: "job-2", input: INPUT });
+  const params = line.params as { model?: string; system?: string };
+  expect(line.custom_id === "job-2", "custom_id is job_id");
+  expect(params.model === "m-1", "model passed through");
+  expect(typeof params.system === "string", "system prompt set");
+
+  const req = adapter.buildRequest(
+    { apiKey: "ak", baseUrl: "https://api.anthropic.com" },
+    INPUT,
+  );
+  expect(req.url === "https://api.anthropic.com/v1/messages", "messages url");
+  expect(req.headers["x-api-key"] === "ak", "x-api-key header");
+
+  const ok = adapter.parseBatchOutputLine(JSON.stringify({
+    custom_id: "job-2",
+    result: {
+      type: "succeeded",
+      message: { content: [{ type: "text", text: "Thanks!" }] },
+    },
+  }));
+  expect(adapter.extractRewrittenText(ok.body) === "Thanks!", "text extracted");
+
+  const errored = adapter.parseBatchOutputLine(JSON.stringify({
+    custom_id: "job-2",
+    result: {
+      type: "errored",
+      error: { type: "error", error: { type: "invalid_request_error" } },
+    },
+  }));
+  expect(
+    adapter.classifyError({ error: errored.error }) === "permanent",
+    "invalid request item is permanent",
+  );
+
+  const expired = adapter.parseBatchOutputLine(JSON.stringify({
+    custom_id: "job-2",
+    result: { type: "expired" },
+  }));
+  expect(
+    adapter.classifyError({ error: expired.error }) === "retryable",
+    "expired item is retryable",
+  );
+});
+
+Deno.test("anthropic adapter createBatch posts all lines as one requests array", async () => {
+  const adapter = getProviderAdapter("anthropic_messages")!;
+  let sentBody = "";
+  const fetchFn = ((_url: string, init?: RequestInit) => {
+    sentBody = String(init?.body ?? "");
+    return Promise.resolve(
+      new Response(JSON.stringify({ id: "msgbatch_1" }), { status: 200 }),
+    );
+  }) as typeof fetch;
+
+  const lines = ["a", "b"].map((id) =>
+    JSON.stringify(adapter.buildBatchLine({ job_id: id, input: INPUT }))
+  );
+  const res = await adapter.createBatch(
+    { apiKey: "ak", baseUrl: "https://api.anthropic.com", fetchFn },
+    lines,
+  );
+
+  expect(res.provider_batch_id === "msgbatch_1", "batch id returned");
+  expect(res.input_file_id === null, "no input file for anthropic");
+  const parsed = JSON.parse(sentBody) as { requests: { custom_id: string }[] };
+  expect(
+    parsed.requests.map((r) => r.custom_id).join(",") === "a,b",
+    "requests array keeps line order",
+  );
+});
+
+Deno.test("openai batch output lines surface non-2xx responses as item errors", () => {
+  const adapter = getProviderAdapter("openai_responses")!;
+  const item = adapter.parseBatchOutputLine(JSON.stringify({
+    custom_id: "job-3",
+    response: {
+      status_code: 400,
+      body: { error: { type: "invalid_request_error" } },
+    },
+    error: null,
+  }));
+  expect(item.status === 400, "status code kept");
+  expect(
+    adapter.classifyError({ status: item.status, error: item.error }) ===
+      "permanent",
+    "400 is permanent",
+  );
+});
+
+Deno.test("classifyProviderError treats network, auth, 429 and 5xx as retryable", () => {
+  for (const status of [0, 401, 408, 429, 500, 529]) {
+    expect(
+      classifyProviderError({ status }) === "retryable",
+      `${status} retryable`,
+    );
+  }
+  for (const status of [400, 404, 413, 422]) {
+    expect(
+      classifyProviderError({ status }) === "permanent",
+      `${status} permanent`,
+    );
+  }
+});
+
+Deno.test("providerApiKeyEnvName derives env names from provider", () => {
+  expect(
+    providerApiKeyEnvName("openai") === "OPENAI_REWRITE_API_KEY",
+    "openai key name unchanged",
+  );
+  expect(
+    providerApiKeyEnvName("self-hosted") === "SELF_HOSTED_REWRITE_API_KEY",
+    "non-alnum mapped to underscore",
+  );
+});
+
+Deno.test("evalFailureCodes appends intent_not_preserved to violations", () => {
+  expect(
+    evalFailureCodes({ violations: ["new_fact"], intent_preserved: "fail" }) ===
+      "new_fact,intent_not_preserved",
+    "judge intent failure appended",
+  );
+  expect(
+    evalFailureCodes({ violations: [], intent_preserved: "warn" }) === "",
+    "warn is not a failure code",
+  );
+});
@@ -1,13 +1,16 @@
 // supabase/functions/rewrite_batch/providers.ts
-// Batch helpers (Step 1: OpenAI-only).
+// Provider helpers shared by the batch submitter/collector and realtime worker.
 // - Build JSONL lines for OpenAI Batch endpoint (/v1/responses)
 // - Minimize context pack into safe signals
-// - Extract rewritten_text from OpenAI batch output line
+// - Extract rewritten_text from provider output
+// - Eval failure codes recorded on rejected rewrites
+// - Provider adapters keyed by complaint_ai_providers.adapter_kind:
+//   openai_responses, openai_compat_chat_completions, anthropic_messages
 
 export type ProviderRoutingDecision = {
-  provider?: string; // expect "openai"
-  adapter_kind?: string; // expect "openai_responses"
-  base_url?: string | null; // ignored in Step 1
+  provider?: string; // complaint_ai_providers.provider
+  adapter_kind?: string; // complaint_ai_providers.adapter_kind
+  base_url?: string | null; // complaint_ai_providers.base_url (adapter default when null)
   model?: string;
   prompt_version?: string;
   policy_version?: string;
@@ -157,16 +160,25 @@ export function buildOpenAIBatchJsonlLine(args: {
   job_id: string; // uuid string
   input: ProviderInput;
 }) {
-  const instructions = buildSystemPrompt(args.input);
-  const userPayload = buildUserPayload(args.input);
+  return {
+    custom_id: args.job_id, // <— crucial: lets collector map result -> job
+    method: "POST",
+    url: "/v1/responses",
+    body: buildOpenAIResponsesBody(args.input),
+  };
+}
+
+function buildOpenAIResponsesBody(input: ProviderInput) {
+  const instructions = buildSystemPrompt(input);
+  const userPayload = buildUserPayload(input);
 
   const body: Record<string, unknown> = {
-    model: args.input.model,
+    model: input.model,
     instructions,
     input: [{ role: "user", content: safeJsonStringify(userPayload) }],
     temperature: DEFAULT_TEMPERATURE,
     max_output_tokens: MAX_OUTPUT_TOKENS,
-    metadata: { prompt_version: args.input.promptVersion },
+    metadata: { prompt_version: input.promptVersion },
   };
 
   if (USE_STRUCTURED_OUTPUT) {
@@ -180,12 +192,7 @@ export function buildOpenAIBatchJsonlLine(args: {
     };
   }
 
-  return {
-    custom_id: args.job_id, // <— crucial: lets collector map result -> job
-    method: "POST",
-    url: "/v1/responses",
-    body,
-  };
+  return body;
 }
 
 /* ---------- batch output parsing ---------- */
@@ -231,6 +238,18 @@ function extractTextAny(data: unknown): string {
     }
   }
 
+  // anthropic messages shape
+  const content = (data as { content?: unknown })?.content;
+  if (Array.isArray(content)) {
+    const parts: string[] = [];
+    for (const c of content) {
+      const t = c as { type?: unknown; text?: unknown };
+      if (t?.type === "text" && typeof t.text === "string") parts.push(t.text);
+    }
+    const joined = parts.join("").trim();
+    if (joined) return joined;
+  }
+
   // chat completions fallback shape
   const choices = (data as { choices?: unknown })?.choices;
   if (Array.isArray(choices) && choices[0]) {
@@ -277,6 +296,10 @@ function extractStructuredRewrite(data: unknown): RewriteSchemaOutput | null {
 export function extractRewrittenTextFromOpenAIResponseBody(
   body: unknown,
 ): string {
+  return extractRewrittenText(body);
+}
+
+function extractRewrittenText(body: unknown): string {
   const structured = extractStructuredRewrite(body);
   if (structured?.rewritten_text) return cleanOutput(structured.rewritten_text);
 
@@ -284,3 +307,510 @@ export function extractRewrittenTextFromOpenAIResponseBody(
   if (!plain) return "";
   return cleanOutput(plain);
 }
+
+// Violation codes, plus intent_not_preserved when the judge failed intent (§3.3)
+export function evalFailureCodes(
+  evalResult: { violations?: string[]; intent_preserved?: string },
+): string {
+  const codes = [...(evalResult.violations ?? [])];
+  if (evalResult.intent_preserved === "fail") {
+    codes.push("intent_not_preserved");
+  }
+  return codes.join(",");
+}
+
+/* ---------- provider adapters ---------- */
+
+export type ProviderAdapterKind =
+  | "openai_responses"
+  | "openai_compat_chat_completions"
+  | "anthropic_messages";
+
+export type ProviderBatchStatus =
+  | "submitted"
+  | "running"
+  | "completed"
+  | "failed"
+  | "canceled";
+
+// retryable -> requeue with backoff; permanent -> fail the job
+export type ProviderErrorClass = "retryable" | "permanent";
+
+export type ProviderConnection = {
+  apiKey: string | null; // self-hosted openai-compatible servers may run keyless
+  baseUrl: string; // host root, e.g. https://api.openai.com (no /v1)
+  fetchFn?: typeof fetch;
+};
+
+export type ProviderHttpRequest = {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+};
+
+export type ProviderBatchLine = {
+  custom_id: string; // always rewrite_jobs.job_id
+  [key: string]: unknown;
+};
+
+export type ProviderBatchSubmission = {
+  provider_batch_id: string;
+  input_file_id: string | null;
+};
+
+export type ProviderBatchState = {
+  status: ProviderBatchStatus;
+  output_file_id: string | null; // OpenAI output file id / Anthropic results_url
+  error_file_id: string | null;
+};
+
+export type ProviderBatchItem = {
+  custom_id: string;
+  status?: number;
+  body?: unknown;
+  error?: unknown;
+};
+
+export type ProviderAdapter = {
+  kind: ProviderAdapterKind;
+  defaultBaseUrl: string | null;
+  endpoint: string; // stored on rewrite_provider_batches.endpoint
+  buildBatchLine: (args: {
+    job_id: string;
+    input: ProviderInput;
+  }) => ProviderBatchLine;
+  buildRequest: (
+    conn: ProviderConnection,
+    input: ProviderInput,
+  ) => ProviderHttpRequest;
+  extractRewrittenText: (body: unknown) => string;
+  createBatch: (
+    conn: ProviderConnection,
+    lines: string[],
+  ) => Promise<ProviderBatchSubmission>;
+  getBatch: (
+    conn: ProviderConnection,
+    providerBatchId: string,
+  ) => Promise<ProviderBatchState>;
+  downloadBatchOutput: (
+    conn: ProviderConnection,
+    outputFileId: string,
+  ) => Promise<string>;
+  parseBatchOutputLine: (line: string) => ProviderBatchItem;
+  classifyError: (
+    err: { status?: number; error?: unknown },
+  ) => ProviderErrorClass;
+};
+
+export class ProviderHttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+const BATCH_COMPLETION_WINDOW = "24h";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+function joinUrl(baseUrl: string, path: string): string {
+  return baseUrl.replace(/\/+$/, "") + path;
+}
+
+async function providerFetch(
+  conn: ProviderConnection,
+  url: string,
+  init: RequestInit,
+  label: string,
+): Promise<Response> {
+  const resp = await (conn.fetchFn ?? fetch)(url, init);
+  if (!resp.ok) {
+    throw new ProviderHttpError(
+      resp.status,
+      `${label}:${resp.status}:${(await resp.text()).slice(0, 400)}`,
+    );
+  }
+  return resp;
+}
+
+function requireId(data: unknown, label: string): string {
+  const id = (data as { id?: unknown })?.id;
+  if (typeof id !== "string" || !id) throw new Error(`${label}_missing_id`);
+  return id;
+}
+
+export function classifyProviderError(
+  err: { status?: number; error?: unknown },
+): ProviderErrorClass {
+  const status = err.status;
+  if (typeof status === "number" && (status === 0 || status >= 400)) {
+    // 0 = network error / timeout; 401/403 are config problems, retry after fix
+    if (status === 400 || status === 404 || status === 413 || status === 422) {
+      return "permanent";
+    }
+    return "retryable";
+  }
+
+  // Batch item errors: only request-shape problems are permanent
+  const text = safeJsonStringify(err.error ?? "", "").toLowerCase();
+  if (/invalid_request|invalid_prompt|context_length_exceeded/.test(text)) {
+    return "permanent";
+  }
+  return "retryable";
+}
+
+export function mapOpenAIBatchStatus(
+  status: string | undefined,
+): ProviderBatchStatus {
+  const s = String(status ?? "").toLowerCase();
+  if (s === "completed") return "completed";
+  // expired: 24h window elapsed; output/error files still carry partial results
+  if (s === "failed" || s === "expired") return "failed";
+  if (s === "canceled" || s === "cancelled") return "canceled";
+  // OpenAI uses statuses like: validating, in_progress, finalizing, etc.
+  return "running";
+}
+
+export function mapAnthropicBatchStatus(
+  status: string | undefined,
+): ProviderBatchStatus {
+  // Anthropic: in_progress | canceling | ended (per-request results carry errors)
+  return String(status ?? "").toLowerCase() === "ended"
+    ? "completed"
+    : "running";
+}
+
+/* ----- OpenAI-style files + batches (openai_responses, openai_compat_*) ----- */
+
+function openAIAuthHeaders(conn: ProviderConnection): Record<string, string> {
+  return conn.apiKey ? { Authorization: `Bearer ${conn.apiKey}` } : {};
+}
+
+async function openAICreateBatch(
+  conn: ProviderConnection,
+  lines: string[],
+  endpoint: string,
+  label: string,
+): Promise<ProviderBatchSubmission> {
+  const form = new FormData();
+  form.append("purpose", "batch");
+  form.append(
+    "file",
+    new Blob([lines.join("\n")], { type: "application/jsonl" }),
+    "rewrite_jobs.jsonl",
+  );
+
+  const fileResp = await providerFetch(
+    conn,
+    joinUrl(conn.baseUrl, "/v1/files"),
+    { method: "POST", headers: openAIAuthHeaders(conn), body: form },
+    `${label}_files_error`,
+  );
+  const inputFileId = requireId(await fileResp.json(), `${label}_files`);
+
+  const batchResp = await providerFetch(
+    conn,
+    joinUrl(conn.baseUrl, "/v1/batches"),
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...openAIAuthHeaders(conn),
+      },
+      body: JSON.stringify({
+        input_file_id: inputFileId,
+        endpoint,
+        completion_window: BATCH_COMPLETION_WINDOW,
+        metadata: { system: "complaint_rewrite", mode: "batch" },
+      }),
+    },
+    `${label}_batch_create_error`,
+  );
+
+  return {
+    provider_batch_id: requireId(await batchResp.json(), `${label}_batch`),
+    input_file_id: inputFileId,
+  };
+}
+
+async function openAIGetBatch(
+  conn: ProviderConnection,
+  providerBatchId: string,
+  label: string,
+): Promise<ProviderBatchState> {
+  const resp = await providerFetch(
+    conn,
+    joinUrl(conn.baseUrl, `/v1/batches/${encodeURIComponent(providerBatchId)}`),
+    { method: "GET", headers: openAIAuthHeaders(conn) },
+    `${label}_batch_get_error`,
+  );
+  const data = (await resp.json()) as {
+    status?: string;
+    output_file_id?: string | null;
+    error_file_id?: string | null;
+  };
+  return {
+    status: mapOpenAIBatchStatus(data?.status),
+    output_file_id: data?.output_file_id ?? null,
+    error_file_id: data?.error_file_id ?? null,
+  };
+}
+
+async function openAIDownloadFile(
+  conn: ProviderConnection,
+  fileId: string,
+  label: string,
+): Promise<string> {
+  const resp = await providerFetch(
+    conn,
+    joinUrl(conn.baseUrl, `/v1/files/${encodeURIComponent(fileId)}/content`),
+    { method: "GET", headers: openAIAuthHeaders(conn) },
+    `${label}_file_download_error`,
+  );
+  return await resp.text();
+}
+
+function parseOpenAIBatchOutputLine(line: string): ProviderBatchItem {
+  const item = JSON.parse(line) as {
+    custom_id?: unknown;
+    response?: { status_code?: unknown; body?: unknown } | null;
+    error?: unknown;
+  };
+  const status = typeof item?.response?.status_code === "number"
+    ? item.response.status_code
+    : undefined;
+  const body = item?.response?.body;
+
+  let error = item?.error ?? undefined;
+  if (!error && status !== undefined && status >= 400) {
+    error = (body as { error?: unknown })?.error ?? `status_${status}`;
+  }
+
+  return {
+    custom_id: String(item?.custom_id ?? "").trim(),
+    status,
+    body,
+    error: error ?? undefined,
+  };
+}
+
+/* ----- openai_compat_chat_completions ----- */
+
+function buildChatCompletionsBody(input: ProviderInput) {
+  const body: Record<string, unknown> = {
+    model: input.model,
+    messages: [
+      { role: "system", content: buildSystemPrompt(input) },
+      { role: "user", content: safeJsonStringify(buildUserPayload(input)) },
+    ],
+    temperature: DEFAULT_TEMPERATURE,
+    max_tokens: MAX_OUTPUT_TOKENS,
+  };
+
+  if (USE_STRUCTURED_OUTPUT) {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: {
+        name: "complaint_rewrite_output_v1",
+        strict: true,
+        schema: REWRITE_JSON_SCHEMA,
+      },
+    };
+  }
+
+  return body;
+}
+
+/* ----- anthropic_messages ----- */
+
+function anthropicHeaders(conn: ProviderConnection): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "anthropic-version": ANTHROPIC_VERSION,
+  };
+  if (conn.apiKey) headers["x-api-key"] = conn.apiKey;
+  return headers;
+}
+
+function buildAnthropicMessagesParams(input: ProviderInput) {
+  // No json_schema mode: plain text output, cleaned by extractRewrittenText
+  return {
+    model: input.model,
+    max_tokens: MAX_OUTPUT_TOKENS,
+    temperature: DEFAULT_TEMPERATURE,
+    system: buildSystemPrompt(input),
+    messages: [
+      { role: "user", content: safeJsonStringify(buildUserPayload(input)) },
+    ],
+  };
+}
+
+function parseAnthropicBatchOutputLine(line: string): ProviderBatchItem {
+  const item = JSON.parse(line) as {
+    custom_id?: unknown;
+    result?: { type?: unknown; message?: unknown; error?: unknown } | null;
+  };
+  const custom_id = String(item?.custom_id ?? "").trim();
+  const result = item?.result;
+
+  if (result?.type === "succeeded") return { custom_id, body: result.message };
+  // errored | canceled | expired
+  return {
+    custom_id,
+    error: result?.error ?? { type: String(result?.type ?? "missing_result") },
+  };
+}
+
+/* ----- registry ----- */
+
+const OPENAI_RESPONSES_ADAPTER: ProviderAdapter = {
+  kind: "openai_responses",
+  defaultBaseUrl: "https://api.openai.com",
+  endpoint: "/v1/responses",
+  buildBatchLine: (args) => buildOpenAIBatchJsonlLine(args),
+  buildRequest: (conn, input) => ({
+    url: joinUrl(conn.baseUrl, "/v1/responses"),
+    headers: { "Content-Type": "application/json", ...openAIAuthHeaders(conn) },
+    body: buildOpenAIResponsesBody(input),
+  }),
+  extractRewrittenText,
+  createBatch: (conn, lines) =>
+    openAICreateBatch(conn, lines, "/v1/responses", "openai"),
+  getBatch: (conn, id) => openAIGetBatch(conn, id, "openai"),
+  downloadBatchOutput: (conn, fileId) =>
+    openAIDownloadFile(conn, fileId, "openai"),
+  parseBatchOutputLine: parseOpenAIBatchOutputLine,
+  classifyError: classifyProviderError,
+};
+
+const OPENAI_COMPAT_CHAT_COMPLETIONS_ADAPTER: ProviderAdapter = {
+  kind: "openai_compat_chat_completions",
+  defaultBaseUrl: null, // self-hosted / vendor endpoints must set base_url
+  endpoint: "/v1/chat/completions",
+  buildBatchLine: (args) => ({
+    custom_id: args.job_id,
+    method: "POST",
+    url: "/v1/chat/completions",
+    body: buildChatCompletionsBody(args.input),
+  }),
+  buildRequest: (conn, input) => ({
+    url: joinUrl(conn.baseUrl, "/v1/chat/completions"),
+    headers: { "Content-Type": "application/json", ...openAIAuthHeaders(conn) },
+    body: buildChatCompletionsBody(input),
+  }),
+  extractRewrittenText,
+  createBatch: (conn, lines) =>
+    openAICreateBatch(conn, lines, "/v1/chat/completions", "openai_compat"),
+  getBatch: (conn, id) => openAIGetBatch(conn, id, "openai_compat"),
+  downloadBatchOutput: (conn, fileId) =>
+    openAIDownloadFile(conn, fileId, "openai_compat"),
+  parseBatchOutputLine: parseOpenAIBatchOutputLine,
+  classifyError: classifyProviderError,
+};
+
+const ANTHROPIC_MESSAGES_ADAPTER: ProviderAdapter = {
+  kind: "anthropic_messages",
+  defaultBaseUrl: "https://api.anthropic.com",
+  endpoint: "/v1/messages/batches",
+  buildBatchLine: (args) => ({
+    custom_id: args.job_id,
+    params: buildAnthropicMessagesParams(args.input),
+  }),
+  buildRequest: (conn, input) => ({
+    url: joinUrl(conn.baseUrl, "/v1/messages"),
+    headers: anthropicHeaders(conn),
+    body: buildAnthropicMessagesParams(input),
+  }),
+  extractRewrittenText,
+  createBatch: async (conn, lines) => {
+    // lines are already-serialized request objects; splice into one array
+    const resp = await providerFetch(
+      conn,
+      joinUrl(conn.baseUrl, "/v1/messages/batches"),
+      {
+        method: "POST",
+        headers: anthropicHeaders(conn),
+        body: `{"requests":[${lines.join(",")}]}`,
+      },
+      "anthropic_batch_create_error",
+    );
+    return {
+      provider_batch_id: requireId(await resp.json(), "anthropic_batch"),
+      input_file_id: null,
+    };
+  },
+  getBatch: async (conn, id) => {
+    const resp = await providerFetch(
+      conn,
+      joinUrl(conn.baseUrl, `/v1/messages/batches/${encodeURIComponent(id)}`),
+      { method: "GET", headers: anthropicHeaders(conn) },
+      "anthropic_batch_get_error",
+    );
+    const data = (await resp.json()) as {
+      processing_status?: string;
+      results_url?: string | null;
+    };
+    return {
+      status: mapAnthropicBatchStatus(data?.processing_status),
+      output_file_id: data?.results_url ?? null,
+      error_file_id: null,
+    };
+  },
+  downloadBatchOutput: async (conn, resultsUrl) => {
+    const resp = await providerFetch(
+      conn,
+      resultsUrl,
+      { method: "GET", headers: anthropicHeaders(conn) },
+      "anthropic_results_download_error",
+    );
+    return await resp.text();
+  },
+  parseBatchOutputLine: parseAnthropicBatchOutputLine,
+  classifyError: classifyProviderError,
+};
+
+const PROVIDER_ADAPTERS: Record<ProviderAdapterKind, ProviderAdapter> = {
+  openai_responses: OPENAI_RESPONSES_ADAPTER,
+  openai_compat_chat_completions: OPENAI_COMPAT_CHAT_COMPLETIONS_ADAPTER,
+  anthropic_messages: ANTHROPIC_MESSAGES_ADAPTER,
+};
+
+export function getProviderAdapter(
+  adapterKind: unknown,
+): ProviderAdapter | null {
+  if (typeof adapterKind !== "string") return null;
+  return (PROVIDER_ADAPTERS as Record<string, ProviderAdapter>)[adapterKind] ??
+    null;
+}
+
+export type ResolvedProvider =
+  | { ok: true; provider: string; adapter: ProviderAdapter; baseUrl: string }
+  | {
+    ok: false;
+    error: "provider_adapter_not_supported" | "provider_base_url_missing";
+  };
+
+// Routing decision -> adapter + base URL (defaults match the legacy OpenAI-only lane)
+export function resolveProvider(
+  decision: ProviderRoutingDecision | null | undefined,
+): ResolvedProvider {
+  const provider = String(decision?.provider ?? "openai");
+  const adapter = getProviderAdapter(
+    decision?.adapter_kind ?? "openai_responses",
+  );
+  if (!adapter) return { ok: false, error: "provider_adapter_not_supported" };
+
+  const baseUrl = (typeof decision?.base_url === "string" &&
+    decision.base_url.trim()) || adapter.defaultBaseUrl;
+  if (!baseUrl) return { ok: false, error: "provider_base_url_missing" };
+
+  return { ok: true, provider, adapter, baseUrl };
+}
+
+// openai -> OPENAI_REWRITE_API_KEY, anthropic -> ANTHROPIC_REWRITE_API_KEY, ...
+export function providerApiKeyEnvName(provider: string): string {
+  return `${
+    provider.toUpperCase().replace(/[^A-Z0-9]+/g, "_")
+  }_REWRITE_API_KEY`;
+}
@@ -1,9 +1,12 @@
 import {
   getPowerMode,
+  handleCollectorRequest,
+  handleItemError,
   mapOpenAIStatus,
   rejectHugeBodies,
   safeShort,
 } from "./index.ts";
+import { getProviderAdapter } from "../rewrite_batch/providers.ts";
 
 const expect = (condition: boolean, message: string) => {
   if (!condition) throw new Error(message);
@@ -19,6 +22,10 @@ Deno.test("mapOpenAIStatus normalizes provider states", () => {
     "non-terminal -> running",
   );
   expect(mapOpenAIStatus("cancelled") === "canceled", "cancelled normalized");
+  expect(
+    mapOpenAIStatus("expired") === "failed",
+    "expired is terminal (partial files collected)",
+  );
   expect(
     mapOpenAIStatus(undefined) === "running",
     "missing status defaults to running",
@@ -59,3 +66,209 @@ Deno.test("rejectHugeBodies throws on large content-length", () => {
     expect(String(e).includes("payload_too_large"), "payload too large error");
   }
 });
+
+Deno.test("handleItemError fails permanent item errors and requeues the rest", async () => {
+  const calls: string[] = [];
+  const supabase = {
+    rpc: (fn: string) => {
+      calls.push(fn);
+      return Promise.resolve({ data: null, error: null });
+    },
+  };
+  const adapter = getProviderAdapter("anthropic_messages")!;
+
+  const permanent = await handleItemError(supabase, adapter, "job-1", {
+    custom_id: "job-1",
+    error: { type: "error", error: { type: "invalid_request_error" } },
+  });
+  const transient = await handleItemError(supabase, adapter, "job-2", {
+    custom_id: "job-2",
+    error: { type: "expired" },
+  });
+
+  expect(permanent === "failed", "invalid request fails job");
+  expect(transient === "requeued", "expired item requeued");
+  expect(
+    calls.join(",") ===
+      "fail_complaint_rewrite_job,complaint_rewrite_job_fail_or_requeue",
+    "fail then requeue RPCs",
+  );
+});
+
+const JOB_ID = "00000000-0000-4000-8000-000000000001";
+const REQUEST_ID = "00000000-0000-4000-8000-000000000002";
+
+// RPC fake answering like PostgREST (RETURNS TABLE -> array) + OpenAI batch fetch fake
+const collectorHarness = (opts: {
+  batchStatus: string;
+  files: Record<string, string>;
+  outputFileId?: string | null;
+  errorFileId?: string | null;
+}) => {
+  const calls: string[] = [];
+  const supabase = {
+    rpc: (fn: string, _args: Record<string, unknown>) => {
+      calls.push(fn);
+      const rows: Record<string, unknown> = {
+        rewrite_batch_list_pending_v1: [{
+          provider_batch_id: "batch_1",
+          status: "submitted",
+          provider: "openai",
+          adapter_kind: "openai_responses",
+          base_url: "https://api.openai.test",
+        }],
+        rewrite_job_fetch_v1: [{
+          job_id: JOB_ID,
+          rewrite_request_id: REQUEST_ID,
+          recipient_user_id: "00000000-0000-4000-8000-000000000003",
+          status: "batch_submitted",
+          provider_batch_id: "batch_1",
+          routing_decision: {},
+        }],
+        complaint_rewrite_request_fetch_v1: [{
+          rewrite_request: {
+            original_text: "The music is too loud at night.",
+            intent: "request",
+            context_pack: {},
+          },
+          target_locale: "en",
+          policy_version: "v1",
+        }],
+        claim_rewrite_jobs_by_ids_for_collect_v1: [{ job_id: JOB_ID }],
+        rewrite_jobs_requeue_by_provider_batch_v1: [],
+      };
+      return Promise.resolve({ data: rows[fn] ?? null, error: null });
+    },
+  };
+  const fetchFn = ((input: string | URL | Request) => {
+    const path = new URL(String(input)).pathname;
+    if (path === "/v1/batches/batch_1") {
+      return Promise.resolve(Response.json({
+        status: opts.batchStatus,
+        output_file_id: opts.outputFileId ?? null,
+        error_file_id: opts.errorFileId ?? null,
+      }));
+    }
+    const fileId = path.match(/^\/v1\/files\/([^/]+)\/content$/)?.[1];
+    if (fileId && fileId in opts.files) {
+      return Promise.resolve(new Response(opts.files[fileId]));
+    }
+    return Promise.resolve(new Response("not found", { status: 404 }));
+  }) as typeof fetch;
+  return { calls, supabase, fetchFn };
+};
+
+const runCollector = async (
+  harness: ReturnType<typeof collectorHarness>,
+) => {
+  const prev = {
+    secret: Deno.env.get("WORKER_SHARED_SECRET"),
+    key: Deno.env.get("OPENAI_REWRITE_API_KEY"),
+  };
+  Deno.env.set("WORKER_SHARED_SECRET", "secret");
+  Deno.env.set("OPENAI_REWRITE_API_KEY", "sk-test");
+  try {
+    const res = await handleCollectorRequest(
+      new Request("http://localhost", {
+        method: "POST",
+        headers: { "x-internal-secret": "secret" },
+      }),
+      { supabase: harness.supabase, fetchFn: harness.fetchFn },
+    );
+    return await res.json();
+  } finally {
+    for (
+      const [name, value] of [
+        ["WORKER_SHARED_SECRET", prev.secret],
+        ["OPENAI_REWRITE_API_KEY", prev.key],
+      ] as const
+    ) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+};
+
+const outputLine = (text: string) =>
+  JSON.stringify({
+    custom_id: JOB_ID,
+    response: { status_code: 200, body: { output_text: text } },
+    error: null,
+  });
+
+Deno.test("handleCollectorRequest unwraps table rows and claims the job before completing it", async () => {
+  const harness = collectorHarness({
+    batchStatus: "completed",
+    outputFileId: "file_out",
+    files: {
+      file_out: outputLine(
+        "Could you please keep the music a little lower this evening?",
+      ),
+    },
+  });
+
+  const body = await runCollector(harness);
+  const result = body.results[0];
+
+  expect(body.ok === true, "collector run ok");
+  expect(result.completed === 1, "output line completes the job");
+  expect(
+    harness.calls.indexOf("claim_rewrite_jobs_by_ids_for_collect_v1") <
+      harness.calls.indexOf("complete_complaint_rewrite_job"),
+    "job claimed batch_submitted -> processing before completion",
+  );
+});
+
+Deno.test("handleCollectorRequest applies partial output of an expired batch and sweeps the rest", async () => {
+  const harness = collectorHarness({
+    batchStatus: "expired",
+    outputFileId: "file_out",
+    files: {
+      file_out: outputLine(
+        "Could you please keep the music a little lower this evening?",
+      ),
+    },
+  });
+
+  const body = await runCollector(harness);
+  const result = body.results[0];
+
+  expect(result.status === "failed", "expired batch reported as failed");
+  expect(result.completed === 1, "partial output line completes the job");
+  expect(
+    result.reason === undefined,
+    "no download error or missing-output reason",
+  );
+  expect(
+    harness.calls.includes("rewrite_jobs_requeue_by_provider_batch_v1"),
+    "jobs without a result line are swept",
+  );
+});
+
+Deno.test("handleCollectorRequest handles error-file lines of a failed batch", async () => {
+  const harness = collectorHarness({
+    batchStatus: "failed",
+    errorFileId: "file_err",
+    files: {
+      file_err: JSON.stringify({
+        custom_id: JOB_ID,
+        response: null,
+        error: { code: "batch_expired", message: "expired" },
+      }),
+    },
+  });
+
+  const body = await runCollector(harness);
+  const result = body.results[0];
+
+  expect(result.lines === 1, "error file downloaded and parsed");
+  expect(result.failed === 1, "error line counted as failed");
+  expect(
+    harness.calls.includes("complaint_rewrite_job_fail_or_requeue"),
+    "transient item error requeues the job",
+  );
+  expect(
+    !harness.calls.includes("complete_complaint_rewrite_job"),
+    "nothing completed from an error file",
+  );
+});
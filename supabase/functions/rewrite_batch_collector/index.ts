@@ -1,5 +1,6 @@
 // supabase/functions/rewrite_batch_collector/index.ts
-// Batch collector (OpenAI-only).
+// Batch collector (provider adapters: OpenAI Responses, OpenAI-compatible
+// Chat Completions, Anthropic Messages).
 // RPC-only DB access.
 //
 // FULL adjusted version:
@@ -7,31 +8,44 @@
 // - per-batch finalize set (no cross-batch re-finalize spam)
 // - batch update RPC errors are checked (supabase.rpc does NOT throw)
 // - clearer handling of "completed but missing output_file_id" (batch-level failure + recovery RPC)
+// - failed / canceled / expired batches: partial output + error files are applied,
+//   jobs without any result line are requeued (recovery RPC)
+// - jobs are claimed batch_submitted -> processing right before completion
 // - safer JSONL parsing + bounded error text
 // - retry-safe: transient issues requeue w/ backoff; permanent issues fail
 // - finalize rewrite_request only when all its jobs are terminal (via finalize RPC)
+// - output language is identified offline from rewritten_text; mismatches requeue
 //
 // Required RPCs this collector expects:
-// - rewrite_batch_list_pending_v1(p_limit)
+// - rewrite_batch_list_pending_v1(p_limit) -> rows incl. provider, adapter_kind, base_url
 // - rewrite_batch_update_v1(p_provider_batch_id, p_status, p_output_file_id, p_error_file_id)
-// - rewrite_job_fetch_v1(p_job_id)
-// - complaint_rewrite_request_fetch_v1(p_rewrite_request_id)
+// - rewrite_job_fetch_v1(p_job_id) -> rows(job_id, rewrite_request_id, recipient_user_id, status, provider_batch_id, routing_decision)
+// - complaint_rewrite_request_fetch_v1(p_rewrite_request_id, p_recipient_user_id) -> rows(rewrite_request, target_locale, policy_version)
+// - claim_rewrite_jobs_by_ids_for_collect_v1(p_job_ids uuid[])
 // - complete_complaint_rewrite_job(...)
 // - complaint_rewrite_job_fail_or_requeue(p_job_id, p_error, p_backoff_seconds)
 // - fail_complaint_rewrite_job(p_job_id, p_error)
 // - complaint_rewrite_request_finalize_v1(p_rewrite_request_id)
-// - complaint_rewrite_jobs_requeue_by_provider_batch_v1(p_provider_batch_id, p_reason, p_backoff_seconds, p_limit)  <-- NEW (recovery)
+// - rewrite_jobs_requeue_by_provider_batch_v1(p_provider_batch_id, p_reason, p_backoff_seconds, p_limit)  (recovery)
+//
+// Provider keys: <PROVIDER>_REWRITE_API_KEY (same as submitter).
 //
 // Notes:
-// - Keeps OpenAI HTTP calls (Batch GET + file download).
+// - Provider HTTP calls (batch poll + output download) live in ../rewrite_batch/providers.ts adapters.
+// - Provider item errors: permanent (invalid request) -> fail; otherwise requeue.
 // - Does not write tables directly; only RPCs.
 
-import {
-  createClient,
-  type SupabaseClient,
-} from "npm:@supabase/supabase-js@2.48.0";
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
 import { evaluateRewrite } from "../../../tool/rewrite_eval/evaluator.ts";
-import { extractRewrittenTextFromOpenAIResponseBody } from "../rewrite_batch/providers.ts";
+import { checkOutputLanguage } from "../../../tool/rewrite_eval/language_id.ts";
+import {
+  evalFailureCodes,
+  getProviderAdapter,
+  mapOpenAIBatchStatus,
+  type ProviderAdapter,
+  providerApiKeyEnvName,
+  type ProviderBatchItem,
+} from "../rewrite_batch/providers.ts";
 
 /* ---------------- config ---------------- */
 
@@ -46,320 +60,389 @@ const BACKOFF_PARSE_SECONDS = 10 * 60; // transient parse issues
 const BACKOFF_COMPLETE_SECONDS = 10 * 60; // transient DB complete issues
 const BACKOFF_BATCH_DOWNLOAD_SECONDS = 30 * 60; // transient batch file download/parse issues
 const BACKOFF_MISSING_OUTPUT_SECONDS = 30 * 60; // completed batch but missing output file recovery
+const BACKOFF_BATCH_UNFINISHED_SECONDS = 30 * 60; // failed / canceled / expired batch: resubmit jobs without a result
+
+const REQUEUE_UNFINISHED_LIMIT = 1_000;
+
+/* ---------------- types ---------------- */
+
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+type HandlerDeps = {
+  supabase?: RpcLike;
+  fetchFn?: typeof fetch; // provider HTTP (batch poll + file download)
+};
 
-const REQUEUE_MISSING_OUTPUT_LIMIT = 1_000;
+type LineCounts = {
+  lines: number;
+  completed: number;
+  failed: number;
+  skipped: number;
+};
 
 /* ---------------- entrypoint ---------------- */
 
+async function handleCollectorRequest(
+  req: Request,
+  deps: HandlerDeps = {},
+): Promise<Response> {
+  const request_id = crypto.randomUUID();
+
+  try {
+    requireInternalSecret(req);
+    rejectHugeBodies(req);
+
+    const supabase = deps.supabase ?? supabaseClient();
+
+    const pending = await listPendingBatches(supabase, MAX_BATCHES);
+    if (!pending.ok) {
+      return json({ ok: false, request_id, error: pending.error }, 500);
+    }
+    if (pending.batches.length === 0) {
+      return json({ ok: true, request_id, checked: 0 }, 200);
+    }
+
+    const results: unknown[] = [];
+    for (const b of pending.batches) {
+      results.push(await collectBatch(supabase, b, deps.fetchFn));
+    }
+
+    return json({
+      ok: true,
+      request_id,
+      checked: pending.batches.length,
+      results,
+    }, 200);
+  } catch (e) {
+    return json({ ok: false, request_id, error: toErrorMessage(e) }, 500);
+  }
+}
+
 if (import.meta.main) {
-  Deno.serve(async (req) => {
-    const request_id = crypto.randomUUID();
+  Deno.serve((req) => handleCollectorRequest(req));
+}
+
+/* ---------------- per-batch collection ---------------- */
+
+async function collectBatch(
+  supabase: RpcLike,
+  b: BatchRow,
+  fetchFn?: typeof fetch,
+): Promise<Record<string, unknown>> {
+  // touched rewrite_request_ids are PER BATCH (avoid re-finalizing from previous batches)
+  const touchedRequestIds = new Set<string>();
+
+  // 0) Resolve the adapter this batch was submitted with
+  const provider = b.provider ?? "openai";
+  const adapter = getProviderAdapter(b.adapter_kind ?? "openai_responses");
+  const baseUrl = b.base_url || adapter?.defaultBaseUrl;
+  const apiKey = Deno.env.get(providerApiKeyEnvName(provider)) || null;
+  if (
+    !adapter || !baseUrl ||
+    (!apiKey && adapter.kind !== "openai_compat_chat_completions")
+  ) {
+    return {
+      provider_batch_id: b.provider_batch_id,
+      provider,
+      status: b.status,
+      reason: !adapter
+        ? "provider_adapter_not_supported"
+        : !baseUrl
+        ? "provider_base_url_missing"
+        : "provider_api_key_missing",
+    };
+  }
+  const conn = { apiKey, baseUrl, fetchFn };
+
+  // 1) Poll provider batch
+  const status = await adapter.getBatch(conn, b.provider_batch_id);
+  const mappedStatus = status.status;
+
+  // Update our batch row (RPC-only) + observe errors
+  await rpcMust(supabase, "rewrite_batch_update_v1", {
+    p_provider_batch_id: b.provider_batch_id,
+    p_status: mappedStatus,
+    p_output_file_id: status.output_file_id,
+    p_error_file_id: status.error_file_id,
+  });
+
+  if (mappedStatus === "submitted" || mappedStatus === "running") {
+    return { provider_batch_id: b.provider_batch_id, status: mappedStatus };
+  }
+
+  // 2) Terminal batch (completed / failed / canceled / expired):
+  // apply every result line we have. Expired or canceled OpenAI batches can
+  // still carry a partial output file; per-job failures live in the error file.
+  const counts: LineCounts = { lines: 0, completed: 0, failed: 0, skipped: 0 };
+  let downloadError: string | null = null;
+
+  for (const fileId of [status.output_file_id, status.error_file_id]) {
+    if (!fileId) continue;
 
+    let text = "";
     try {
-      requireInternalSecret(req);
-      rejectHugeBodies(req);
-
-      const supabase = supabaseClient();
-      // Single rewrite key shared with submitter
-      const openaiKey = env("OPENAI_REWRITE_API_KEY");
-
-      const pending = await listPendingBatches(supabase, MAX_BATCHES);
-      if (!pending.ok) {
-        return json({ ok: false, request_id, error: pending.error }, 500);
-      }
-      if (pending.batches.length === 0) {
-        return json({ ok: true, request_id, checked: 0 }, 200);
-      }
-
-      const results: unknown[] = [];
-
-      for (const b of pending.batches) {
-        // touched rewrite_request_ids are PER BATCH (avoid re-finalizing from previous batches)
-        const touchedRequestIds = new Set<string>();
-
-        // 1) Poll provider batch
-        const status = await getOpenAIBatch(openaiKey, b.provider_batch_id);
-        const mappedStatus = mapOpenAIStatus(status?.status);
-
-        // Update our batch row (RPC-only) + observe errors
-        await rpcMust(supabase, "rewrite_batch_update_v1", {
-          p_provider_batch_id: b.provider_batch_id,
-          p_status: mappedStatus,
-          p_output_file_id: status?.output_file_id ?? null,
-          p_error_file_id: status?.error_file_id ?? null,
-        });
-
-        if (mappedStatus !== "completed") {
-          results.push({
-            provider_batch_id: b.provider_batch_id,
-            status: mappedStatus,
-          });
-          continue;
-        }
-
-        if (!status?.output_file_id) {
-          // Provider says completed but no output file.
-          // 1) Mark batch failed in our DB
-          await rpcBestEffort(supabase, "rewrite_batch_update_v1", {
-            p_provider_batch_id: b.provider_batch_id,
-            p_status: "failed",
-            p_output_file_id: null,
-            p_error_file_id: status?.error_file_id ?? null,
-          });
-
-          // 2) Recovery: requeue stuck jobs still in batch_submitted for this provider_batch_id
-          const requeueRes = await rpcMaybeJson<RequeueByBatchResultRow[]>(
-            supabase,
-            "complaint_rewrite_jobs_requeue_by_provider_batch_v1",
-            {
-              p_provider_batch_id: b.provider_batch_id,
-              p_reason: "provider_batch_completed_missing_output_file",
-              p_backoff_seconds: BACKOFF_MISSING_OUTPUT_SECONDS,
-              p_limit: REQUEUE_MISSING_OUTPUT_LIMIT,
-            },
-          );
-
-          results.push({
-            provider_batch_id: b.provider_batch_id,
-            status: "failed",
-            reason: "missing_output_file_id",
-            requeued_jobs: Array.isArray(requeueRes) ? requeueRes.length : 0,
-          });
-
-          // Nothing else we can do for this batch.
-          continue;
-        }
-
-        // 2) Download output file content
-        let outputText = "";
-        try {
-          outputText = await downloadOpenAIFile(
-            openaiKey,
-            status.output_file_id,
-          );
-        } catch (e) {
-          // Batch output download failure: try to requeue jobs in this provider_batch_id with backoff.
-          // This assumes jobs are still batch_submitted (often true if collector is the first to process).
-          await rpcBestEffort(
-            supabase,
-            "complaint_rewrite_jobs_requeue_by_provider_batch_v1",
-            {
-              p_provider_batch_id: b.provider_batch_id,
-              p_reason: "output_download_failed",
-              p_backoff_seconds: BACKOFF_BATCH_DOWNLOAD_SECONDS,
-              p_limit: REQUEUE_MISSING_OUTPUT_LIMIT,
-            },
-          );
-
-          results.push({
-            provider_batch_id: b.provider_batch_id,
-            status: "completed",
-            reason: "output_download_failed",
-            error: toErrorMessage(e).slice(0, 300),
-          });
-          continue;
-        }
-
-        const lines = outputText
-          .split("\n")
-          .map((x) => x.trim())
-          .filter((x) => x.length > 0);
-
-        let completed = 0;
-        let failed = 0;
-        let skipped = 0;
-
-        for (const line of lines) {
-          try {
-            if (line.length > MAX_JSONL_LINE_CHARS) {
-              throw new Error("jsonl_line_too_large");
-            }
-
-            type OpenAIBatchLine = {
-              custom_id?: unknown;
-              response?: { body?: unknown };
-              error?: unknown;
-            };
-
-            const item = JSON.parse(line) as OpenAIBatchLine;
-
-            // OpenAI batch output line includes custom_id.
-            // In our system, custom_id MUST be the rewrite_jobs.job_id uuid string.
-            const jobId = String(item?.custom_id ?? "").trim();
-            if (!isUuid(jobId)) throw new Error("invalid_custom_id_uuid");
-
-            // Fetch job first so we can validate state and get rewrite_request_id/recipient_user_id
-            const job = await fetchJob(supabase, jobId);
-            if (!job) {
-              failed++;
-              continue;
-            }
-
-            // Ensure this job belongs to this batch and is in the expected state
-            if (job.provider_batch_id !== b.provider_batch_id) {
-              skipped++;
-              continue;
-            }
-            if (job.status !== "batch_submitted") {
-              skipped++;
-              continue;
-            }
-
-            touchedRequestIds.add(job.rewrite_request_id);
-
-            if (item?.error) {
-              // Provider-side failure for this job: requeue w/ provider backoff
-              await requeueByJobId(
-                supabase,
-                jobId,
-                `provider_item_error:${safeShort(item.error)}`,
-                BACKOFF_PROVIDER_SECONDS,
-              );
-              failed++;
-              continue;
-            }
-
-            const body = item?.response?.body;
-            const rewritten = extractRewrittenTextFromOpenAIResponseBody(body);
-            if (!rewritten) {
-              await requeueByJobId(
-                supabase,
-                jobId,
-                "empty_rewrite",
-                BACKOFF_PARSE_SECONDS,
-              );
-              failed++;
-              continue;
-            }
-
-            // Fetch request for policy_version + target_locale + request payload (for eval)
-            const reqRow = await fetchRewriteRequest(
-              supabase,
-              job.rewrite_request_id,
-            );
-            if (!reqRow) {
-              await failJobById(supabase, jobId, "rewrite_request_not_found");
-              failed++;
-              continue;
-            }
-
-            const request = reqRow.rewrite_request;
-            const targetLocale = reqRow.target_locale;
-
-            // Eval (same semantics as realtime worker)
-            const powerMode = getPowerMode(request.context_pack);
-
-            const evalResult = evaluateRewrite(
-              {
-                rewrite_request_id: job.rewrite_request_id,
-                target_locale: targetLocale,
-                original_text: request.original_text,
-                intent: request.intent,
-              },
-              {
-                rewrite_request_id: job.rewrite_request_id,
-                recipient_user_id: job.recipient_user_id,
-                rewritten_text: rewritten,
-                output_language: targetLocale,
-              },
-              {
-                power: { power_mode: powerMode },
-              },
-              { judge_version: "v1", dataset_version: "none" },
-            );
-
-            if (!evalResult.lexicon_pass || evalResult.tone_safety === "fail") {
-              await failJobById(
-                supabase,
-                jobId,
-                "eval_failed:" +
-                  safeShort((evalResult.violations ?? []).join(",")),
-              );
-              failed++;
-              continue;
-            }
-
-            // Routing meta (optional)
-            const decision = (job.routing_decision ?? {}) as Record<
-              string,
-              unknown
-            >;
-            const provider = String(decision.provider ?? "openai");
-            const model = String(decision.model ?? "gpt-4.1");
-            const promptVersion = String(decision.prompt_version ?? "v1");
-
-            // Complete job (IMPORTANT: completion RPC must NOT mark the request completed unconditionally)
-            const { error } = await supabase.rpc(
-              "complete_complaint_rewrite_job",
-              {
-                p_job_id: job.job_id,
-                p_rewrite_request_id: job.rewrite_request_id,
-                p_recipient_user_id: job.recipient_user_id,
-                p_rewritten_text: rewritten,
-                p_output_language: targetLocale,
-                p_target_locale: targetLocale,
-                p_model: model,
-                p_provider: provider,
-                p_prompt_version: promptVersion,
-                p_policy_version: reqRow.policy_version,
-                p_lexicon_version: LEXICON_VERSION,
-                p_eval_result: evalResult,
-              },
-            );
-
-            if (error) {
-              await requeueByJobId(
-                supabase,
-                jobId,
-                `complete_failed:${safeShort(error.message)}`,
-                BACKOFF_COMPLETE_SECONDS,
-              );
-              failed++;
-              continue;
-            }
-
-            completed++;
-          } catch (_e) {
-            // line-level parsing failure
-            // If we can’t identify a job_id, we can’t requeue/fail specific jobs here.
-            failed++;
-          }
-        }
-
-        // 3) Finalize touched rewrite_requests for this batch
-        // (marks request completed ONLY when all jobs are terminal: completed/failed/canceled)
-        let finalized = 0;
-        for (const rid of touchedRequestIds) {
-          const { error } = await supabase.rpc(
-            "complaint_rewrite_request_finalize_v1",
-            {
-              p_rewrite_request_id: rid,
-            },
-          );
-          if (!error) finalized++;
-        }
-
-        results.push({
-          provider_batch_id: b.provider_batch_id,
-          status: "completed",
-          lines: lines.length,
-          completed,
-          failed,
-          skipped,
-          finalized_requests: finalized,
-        });
-      }
-
-      return json({
-        ok: true,
-        request_id,
-        checked: pending.batches.length,
-        results,
-      }, 200);
+      text = await adapter.downloadBatchOutput(conn, fileId);
     } catch (e) {
-      return json({ ok: false, request_id, error: toErrorMessage(e) }, 500);
+      downloadError = toErrorMessage(e).slice(0, 300);
+      continue;
     }
+
+    await applyBatchLines(supabase, {
+      batch: b,
+      provider,
+      adapter,
+      text,
+      counts,
+      touchedRequestIds,
+    });
+  }
+
+  const missingOutput = mappedStatus === "completed" &&
+    !status.output_file_id && !status.error_file_id;
+
+  if (missingOutput) {
+    // Provider says completed but no result files: mark batch failed in our DB
+    await rpcBestEffort(supabase, "rewrite_batch_update_v1", {
+      p_provider_batch_id: b.provider_batch_id,
+      p_status: "failed",
+      p_output_file_id: null,
+      p_error_file_id: null,
+    });
+  }
+
+  // 3) Recovery: jobs still batch_submitted got no result line -> requeue
+  // (requeue RPC fails jobs that are out of attempts)
+  const reason = missingOutput
+    ? "provider_batch_completed_missing_output_file"
+    : downloadError
+    ? "output_download_failed"
+    : `provider_batch_${mappedStatus}_missing_result`;
+  const requeued = await requeueUnfinishedJobs(
+    supabase,
+    b.provider_batch_id,
+    reason,
+    missingOutput
+      ? BACKOFF_MISSING_OUTPUT_SECONDS
+      : downloadError
+      ? BACKOFF_BATCH_DOWNLOAD_SECONDS
+      : BACKOFF_BATCH_UNFINISHED_SECONDS,
+  );
+  for (const row of requeued) touchedRequestIds.add(row.rewrite_request_id);
+
+  // 4) Finalize touched rewrite_requests for this batch
+  // (marks request completed ONLY when all jobs are terminal: completed/failed/canceled)
+  let finalized = 0;
+  for (const rid of touchedRequestIds) {
+    const { error } = await supabase.rpc(
+      "complaint_rewrite_request_finalize_v1",
+      { p_rewrite_request_id: rid },
+    );
+    if (!error) finalized++;
+  }
+
+  return {
+    provider_batch_id: b.provider_batch_id,
+    status: missingOutput ? "failed" : mappedStatus,
+    reason: missingOutput
+      ? "missing_output_file_id"
+      : downloadError
+      ? "output_download_failed"
+      : undefined,
+    error: downloadError ?? undefined,
+    ...counts,
+    requeued_jobs: requeued.filter((r) => r.new_status === "queued").length,
+    exhausted_jobs: requeued.filter((r) => r.new_status === "failed").length,
+    finalized_requests: finalized,
+  };
+}
+
+async function applyBatchLines(
+  supabase: RpcLike,
+  args: {
+    batch: BatchRow;
+    provider: string;
+    adapter: ProviderAdapter;
+    text: string;
+    counts: LineCounts;
+    touchedRequestIds: Set<string>;
+  },
+) {
+  const lines = args.text
+    .split("\n")
+    .map((x) => x.trim())
+    .filter((x) => x.length > 0);
+
+  args.counts.lines += lines.length;
+
+  for (const line of lines) {
+    try {
+      const outcome = await applyBatchLine(supabase, { ...args, line });
+      args.counts[outcome]++;
+    } catch (_e) {
+      // line-level parsing failure
+      // If we can’t identify a job_id, we can’t requeue/fail specific jobs here
+      // (the post-batch requeue sweep picks those jobs up).
+      args.counts.failed++;
+    }
+  }
+}
+
+async function applyBatchLine(
+  supabase: RpcLike,
+  args: {
+    batch: BatchRow;
+    provider: string;
+    adapter: ProviderAdapter;
+    line: string;
+    touchedRequestIds: Set<string>;
+  },
+): Promise<"completed" | "failed" | "skipped"> {
+  const { adapter, batch, line } = args;
+
+  if (line.length > MAX_JSONL_LINE_CHARS) {
+    throw new Error("jsonl_line_too_large");
+  }
+
+  const item = adapter.parseBatchOutputLine(line);
+
+  // Every adapter echoes custom_id per output line.
+  // In our system, custom_id MUST be the rewrite_jobs.job_id uuid string.
+  const jobId = item.custom_id;
+  if (!isUuid(jobId)) throw new Error("invalid_custom_id_uuid");
+
+  // Fetch job first so we can validate state and get rewrite_request_id/recipient_user_id
+  const job = await fetchJob(supabase, jobId);
+  if (!job) return "failed";
+
+  // Ensure this job belongs to this batch and is in the expected state
+  if (job.provider_batch_id !== batch.provider_batch_id) return "skipped";
+  if (job.status !== "batch_submitted") return "skipped";
+
+  args.touchedRequestIds.add(job.rewrite_request_id);
+
+  if (item.error) {
+    // Provider-side failure for this job: fail or requeue by class
+    await handleItemError(supabase, adapter, jobId, item);
+    return "failed";
+  }
+
+  const rewritten = adapter.extractRewrittenText(item.body);
+  if (!rewritten) {
+    await requeueByJobId(
+      supabase,
+      jobId,
+      "empty_rewrite",
+      BACKOFF_PARSE_SECONDS,
+    );
+    return "failed";
+  }
+
+  // Fetch request for policy_version + target_locale + request payload (for eval)
+  const reqRow = await fetchRewriteRequest(
+    supabase,
+    job.rewrite_request_id,
+    job.recipient_user_id,
+  );
+  if (!reqRow) {
+    await failJobById(supabase, jobId, "rewrite_request_not_found");
+    return "failed";
+  }
+
+  const request = reqRow.rewrite_request;
+  const targetLocale = reqRow.target_locale;
+
+  // Output language is identified from the text, not copied from the request.
+  // A wrong-language answer is a model slip: retry rather than fail outright.
+  const outputLanguage = checkOutputLanguage(rewritten, targetLocale);
+  if (!outputLanguage.matches) {
+    await requeueByJobId(
+      supabase,
+      jobId,
+      `output_language_mismatch:${outputLanguage.detected}`,
+      BACKOFF_PARSE_SECONDS,
+    );
+    return "failed";
+  }
+  const outputLocale = outputLanguage.detected ?? targetLocale;
+
+  // Eval (same semantics as realtime worker)
+  const powerMode = getPowerMode(request.context_pack);
+
+  const evalResult = evaluateRewrite(
+    {
+      rewrite_request_id: job.rewrite_request_id,
+      target_locale: targetLocale,
+      original_text: request.original_text,
+      intent: request.intent,
+    },
+    {
+      rewrite_request_id: job.rewrite_request_id,
+      recipient_user_id: job.recipient_user_id,
+      rewritten_text: rewritten,
+      output_language: outputLocale,
+    },
+    {
+      power: { power_mode: powerMode },
+    },
+    {
+      judge_version: "v1",
+      dataset_version: "none",
+      lexicon_version: LEXICON_VERSION,
+    },
+  );
+
+  if (
+    !evalResult.lexicon_pass || evalResult.tone_safety === "fail" ||
+    evalResult.intent_preserved === "fail"
+  ) {
+    await failJobById(
+      supabase,
+      jobId,
+      "eval_failed:" + safeShort(evalFailureCodes(evalResult)),
+    );
+    return "failed";
+  }
+
+  // Claim batch_submitted -> processing (completion RPC only accepts processing jobs)
+  if (!(await claimJobForCollect(supabase, jobId))) return "skipped";
+
+  // Routing meta (optional)
+  const decision = (job.routing_decision ?? {}) as Record<string, unknown>;
+  const model = String(decision.model ?? "gpt-4.1");
+  const promptVersion = String(decision.prompt_version ?? "v1");
+
+  // Complete job (IMPORTANT: completion RPC must NOT mark the request completed unconditionally)
+  const { error } = await supabase.rpc("complete_complaint_rewrite_job", {
+    p_job_id: job.job_id,
+    p_rewrite_request_id: job.rewrite_request_id,
+    p_recipient_user_id: job.recipient_user_id,
+    p_rewritten_text: rewritten,
+    p_output_language: outputLocale,
+    p_target_locale: targetLocale,
+    p_model: model,
+    p_provider: args.provider,
+    p_prompt_version: promptVersion,
+    p_policy_version: reqRow.policy_version,
+    p_lexicon_version: LEXICON_VERSION,
+    p_eval_result: evalResult,
   });
+
+  if (error) {
+    await requeueByJobId(
+      supabase,
+      jobId,
+      `complete_failed:${safeShort(error.message)}`,
+      BACKOFF_COMPLETE_SECONDS,
+    );
+    return "failed";
+  }
+
+  return "completed";
 }
 
 /* ---------------- response helpers ---------------- */
@@ -373,7 +456,7 @@ function json(body: unknown, status = 200) {
 
 /* ---------------- auth + env ---------------- */
 
-function supabaseClient(): SupabaseClient {
+function supabaseClient(): RpcLike {
   const url = env("SUPABASE_URL");
   // Internal-only edge function: OK to use service role, gated by x-internal-secret.
   const key = env("SUPABASE_SERVICE_ROLE_KEY");
@@ -444,26 +527,22 @@ function getPowerMode(
   return "peer";
 }
 
-function mapOpenAIStatus(
-  status: string | undefined,
-): "submitted" | "running" | "completed" | "failed" | "canceled" {
-  const s = String(status ?? "").toLowerCase();
-  if (s === "completed") return "completed";
-  if (s === "failed") return "failed";
-  if (s === "canceled" || s === "cancelled") return "canceled";
-  // OpenAI uses statuses like: validating, in_progress, finalizing, etc.
-  if (s) return "running";
-  return "running";
-}
-
 // Test-only exports
-export { env, getPowerMode, mapOpenAIStatus, rejectHugeBodies, safeShort };
+export {
+  env,
+  getPowerMode,
+  handleCollectorRequest,
+  handleItemError,
+  mapOpenAIBatchStatus as mapOpenAIStatus,
+  rejectHugeBodies,
+  safeShort,
+};
 
 /* ---------------- RPC helpers ---------------- */
 
 // Must-succeed RPC helper (observes errors).
 async function rpcMust(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   fn: string,
   args: Record<string, unknown>,
 ) {
@@ -473,7 +552,7 @@ async function rpcMust(
 
 // Best-effort RPC helper (swallows errors).
 async function rpcBestEffort(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   fn: string,
   args: Record<string, unknown>,
 ) {
@@ -487,17 +566,6 @@ async function rpcBestEffort(
   }
 }
 
-// Returns data or null; does NOT throw unless RPC call itself errors unexpectedly.
-async function rpcMaybeJson<T>(
-  supabase: SupabaseClient,
-  fn: string,
-  args: Record<string, unknown>,
-): Promise<T | null> {
-  const { data, error } = await supabase.rpc(fn, args);
-  if (error) return null;
-  return (data ?? null) as T | null;
-}
-
 /* ---------------- RPC calls ---------------- */
 
 type BatchRow = {
@@ -507,6 +575,9 @@ type BatchRow = {
   output_file_id: string | null;
   error_file_id: string | null;
   endpoint: string;
+  provider?: string | null;
+  adapter_kind?: string | null;
+  base_url?: string | null;
 };
 
 type JobFetchRow = {
@@ -534,12 +605,13 @@ type RewriteRequestRPCRow = {
 
 type RequeueByBatchResultRow = {
   job_id: string;
+  rewrite_request_id: string;
   prev_status: string;
   new_status: string;
-  run_after: string;
+  not_before_at: string | null;
 };
 
-async function listPendingBatches(supabase: SupabaseClient, limit: number) {
+async function listPendingBatches(supabase: RpcLike, limit: number) {
   const { data, error } = await supabase.rpc("rewrite_batch_list_pending_v1", {
     p_limit: limit,
   });
@@ -548,32 +620,71 @@ async function listPendingBatches(supabase: SupabaseClient, limit: number) {
 }
 
 async function fetchJob(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   jobId: string,
 ): Promise<JobFetchRow | null> {
   const { data, error } = await supabase.rpc("rewrite_job_fetch_v1", {
     p_job_id: jobId,
   });
   if (error || !data) return null;
-  return data as JobFetchRow;
+  // RETURNS TABLE -> PostgREST returns an array
+  const row = Array.isArray(data) ? data[0] : data;
+  return (row ?? null) as JobFetchRow | null;
 }
 
 async function fetchRewriteRequest(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   rewriteRequestId: string,
+  recipientUserId: string,
 ): Promise<RewriteRequestRPCRow | null> {
   const { data, error } = await supabase.rpc(
     "complaint_rewrite_request_fetch_v1",
     {
       p_rewrite_request_id: rewriteRequestId,
+      p_recipient_user_id: recipientUserId, // per-recipient blob + target_locale
     },
   );
   if (error || !data) return null;
-  return data as RewriteRequestRPCRow;
+  // RETURNS TABLE -> PostgREST returns an array
+  const row = Array.isArray(data) ? data[0] : data;
+  return (row ?? null) as RewriteRequestRPCRow | null;
+}
+
+// batch_submitted -> processing for exactly this job (false if another collector won)
+async function claimJobForCollect(
+  supabase: RpcLike,
+  jobId: string,
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc(
+    "claim_rewrite_jobs_by_ids_for_collect_v1",
+    { p_job_ids: [jobId] },
+  );
+  if (error) return false;
+  return Array.isArray(data) && data.length > 0;
+}
+
+// Jobs of this provider batch still batch_submitted -> queued (or failed when out of attempts)
+async function requeueUnfinishedJobs(
+  supabase: RpcLike,
+  providerBatchId: string,
+  reason: string,
+  backoffSeconds: number,
+): Promise<RequeueByBatchResultRow[]> {
+  const { data, error } = await supabase.rpc(
+    "rewrite_jobs_requeue_by_provider_batch_v1",
+    {
+      p_provider_batch_id: providerBatchId,
+      p_reason: reason,
+      p_backoff_seconds: backoffSeconds,
+      p_limit: REQUEUE_UNFINISHED_LIMIT,
+    },
+  );
+  if (error || !Array.isArray(data)) return [];
+  return data as RequeueByBatchResultRow[];
 }
 
 async function requeueByJobId(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   jobId: string,
   reason: string,
   backoffSeconds: number,
@@ -586,7 +697,7 @@ async function requeueByJobId(
 }
 
 async function failJobById(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   jobId: string,
   reason: string,
 ) {
@@ -596,54 +707,24 @@ async function failJobById(
   });
 }
 
-/* ---------------- OpenAI HTTP ---------------- */
+/* ---------------- provider item errors ---------------- */
 
-type OpenAIBatchStatus = {
-  id: string;
-  status: string;
-  output_file_id?: string | null;
-  error_file_id?: string | null;
-  input_file_id?: string | null;
-};
-
-async function getOpenAIBatch(
-  apiKey: string,
-  batchId: string,
-): Promise<OpenAIBatchStatus> {
-  const resp = await fetch(
-    `https://api.openai.com/v1/batches/${encodeURIComponent(batchId)}`,
-    {
-      method: "GET",
-      headers: { Authorization: `Bearer ${apiKey}` },
-    },
-  );
-  if (!resp.ok) {
-    throw new Error(
-      `openai_batch_get_error:${resp.status}:${
-        (await resp.text()).slice(0, 400)
-      }`,
-    );
-  }
-  return (await resp.json()) as OpenAIBatchStatus;
-}
-
-async function downloadOpenAIFile(
-  apiKey: string,
-  fileId: string,
-): Promise<string> {
-  const resp = await fetch(
-    `https://api.openai.com/v1/files/${encodeURIComponent(fileId)}/content`,
-    {
-      method: "GET",
-      headers: { Authorization: `Bearer ${apiKey}` },
-    },
-  );
-  if (!resp.ok) {
-    throw new Error(
-      `openai_file_download_error:${resp.status}:${
-        (await resp.text()).slice(0, 400)
-      }`,
-    );
+// Permanent (invalid request) -> fail now; otherwise requeue w/ provider backoff
+async function handleItemError(
+  supabase: RpcLike,
+  adapter: ProviderAdapter,
+  jobId: string,
+  item: ProviderBatchItem,
+): Promise<"failed" | "requeued"> {
+  const reason = `provider_item_error:${safeShort(item.error)}`;
+  const errorClass = adapter.classifyError({
+    status: item.status,
+    error: item.error,
+  });
+  if (errorClass === "permanent") {
+    await failJobById(supabase, jobId, reason);
+    return "failed";
   }
-  return await resp.text();
+  await requeueByJobId(supabase, jobId, reason, BACKOFF_PROVIDER_SECONDS);
+  return "requeued";
 }
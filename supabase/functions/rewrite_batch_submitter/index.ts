@@ -1,12 +1,13 @@
 // supabase/functions/rewrite_batch_submitter/index.ts
-// Batch submitter (OpenAI-only).
+// Batch submitter (provider adapters: OpenAI Responses, OpenAI-compatible
+// Chat Completions, Anthropic Messages).
 // RPC-only DB access.
 // Flow:
 // 1) claim queued jobs (RPC)
 // 2) fetch rewrite_request for each job (RPC)
-// 3) build JSONL lines (custom_id = job_id)
-// 4) upload JSONL file to OpenAI
-// 5) create OpenAI batch
+// 3) resolve provider adapter from routing_decision (adapter_kind + base_url)
+// 4) build batch lines per adapter (custom_id = job_id)
+// 5) one provider batch per (provider, adapter_kind, base_url, model) group
 // 6) register batch + mark jobs batch_submitted + link provider_batch_id (RPC)
 //
 // Updated per your latest schema + worker semantics:
@@ -15,315 +16,399 @@
 // - Uses WORKER_SHARED_SECRET header guard (x-internal-secret)
 // - Byte-safe JSONL caps (TextEncoder) to prevent upload failures
 // - If batch fills up: requeues leftover claimed jobs so none stay "claimed"
-// - If OpenAI fails: requeues accepted jobs with backoff
-// - If DB register/link fails: requeues accepted jobs, returns error
+// - If a provider fails: requeues that group's accepted jobs with backoff
+// - If DB register/link fails: requeues that group's accepted jobs, returns error
 //
 // Required RPCs this submitter expects:
 // - claim_rewrite_jobs_for_batch_submit_v1(p_limit) -> rows(job_id, rewrite_request_id, recipient_user_id, routing_decision)
-// - complaint_rewrite_request_fetch_v1(p_rewrite_request_id) -> { rewrite_request, target_locale, policy_version }
-// - rewrite_batch_register_v1(p_provider_batch_id, p_input_file_id, p_job_count, p_endpoint)
+// - complaint_rewrite_request_fetch_v1(p_rewrite_request_id, p_recipient_user_id) -> rows(rewrite_request, target_locale, policy_version)
+// - rewrite_batch_register_v1(p_provider_batch_id, p_input_file_id, p_job_count, p_endpoint, p_provider, p_adapter_kind, p_base_url)
 // - mark_rewrite_jobs_batch_submitted_v1(p_job_ids uuid[], p_provider_batch_id text)
 // - complaint_rewrite_job_fail_or_requeue(p_job_id uuid, p_error text, p_backoff_seconds int)
 // - fail_complaint_rewrite_job(p_job_id uuid, p_error text)
 //
+// Provider keys: <PROVIDER>_REWRITE_API_KEY (e.g. OPENAI_REWRITE_API_KEY,
+// ANTHROPIC_REWRITE_API_KEY). Optional for openai_compat_chat_completions
+// (self-hosted servers behind base_url).
+//
 // Notes:
-// - This file directly calls OpenAI HTTP APIs for files + batches.
+// - Provider HTTP calls live in ../rewrite_batch/providers.ts adapters.
 // - It does not write DB tables directly; only via RPCs.
 
+import { createClient } from "npm:@supabase/supabase-js@2.48.0";
 import {
-  createClient,
-  type SupabaseClient,
-} from "npm:@supabase/supabase-js@2.48.0";
-import { buildOpenAIBatchJsonlLine } from "../rewrite_batch/providers.ts";
+  type ProviderAdapter,
+  providerApiKeyEnvName,
+  resolveProvider,
+} from "../rewrite_batch/providers.ts";
 
 /* ---------------- config ---------------- */
 
 const MAX_JOBS = 100;
-const COMPLETION_WINDOW = "24h"; // batch is non-realtime
-const ENDPOINT = "/v1/responses";
 const MAX_CONTENT_LENGTH = 256_000;
 
 // JSONL safety caps (bytes)
 const MAX_JSONL_BYTES = 5_000_000; // ~5MB
 const MAX_JSONL_LINE_BYTES = 100_000; // per request line cap
 const BACKOFF_BATCH_FULL_SECONDS = 5 * 60;
-const BACKOFF_OPENAI_FAIL_SECONDS = 15 * 60;
+const BACKOFF_PROVIDER_FAIL_SECONDS = 15 * 60;
 const BACKOFF_INTERNAL_SECONDS = 10 * 60;
+const BACKOFF_PROVIDER_CONFIG_SECONDS = 6 * 3600;
 
-if (import.meta.main) {
-  Deno.serve(async (req) => {
-    const request_id = crypto.randomUUID();
-    try {
-      requireInternalSecret(req);
-      rejectHugeBodies(req);
-
-      const supabase = supabaseClient();
-
-      // 1) claim jobs
-      const claimed = await claimJobs(supabase, MAX_JOBS);
-      if (!claimed.ok) {
-        return json({ ok: false, request_id, error: claimed.error }, 500);
-      }
-      if (claimed.jobs.length === 0) {
-        return json({ ok: true, request_id, submitted: 0 }, 200);
-      }
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
 
-      // 2) build JSONL safely
-      const encoder = new TextEncoder();
+type HandlerDeps = {
+  supabase?: RpcLike;
+  fetchFn?: typeof fetch; // provider HTTP (files + batches)
+};
 
-      type AcceptedLine = {
-        job_id: string;
-        rewrite_request_id: string;
-        line: string;
-      };
-      const accepted: AcceptedLine[] = [];
-      const jobsToRequeueBecauseBatchFull: string[] = [];
-
-      let totalBytes = 0;
-      let skippedMissingRequest = 0;
-      let skippedUnsupportedProvider = 0;
-      let skippedTooLargeLine = 0;
-      let skippedBatchFull = 0;
-
-      for (const job of claimed.jobs) {
-        if (totalBytes >= MAX_JSONL_BYTES) {
-          jobsToRequeueBecauseBatchFull.push(job.job_id);
-          skippedBatchFull++;
-          continue;
-        }
-
-        const requestRow = await fetchRewriteRequest(
-          supabase,
-          job.rewrite_request_id,
-        );
-        if (!requestRow) {
-          // terminal: request missing -> fail job
-          await failJob(supabase, job.job_id, "rewrite_request_not_found");
-          skippedMissingRequest++;
-          continue;
-        }
-
-        // Step 1 batch support: OpenAI Responses only
-        const decision = (job.routing_decision ?? {}) as Record<
-          string,
-          unknown
-        >;
-        const provider = String(decision.provider ?? "openai");
-        const adapter_kind = String(
-          decision.adapter_kind ?? "openai_responses",
-        );
+type AcceptedLine = {
+  job_id: string;
+  rewrite_request_id: string;
+  line: string;
+};
 
-        if (provider !== "openai" || adapter_kind !== "openai_responses") {
-          await requeueJob(
-            supabase,
-            job.job_id,
-            "batch_provider_not_supported",
-            6 * 3600,
-          );
-          skippedUnsupportedProvider++;
-          continue;
-        }
-
-        const model = String(decision.model ?? "gpt-5-nano");
-        const promptVersion = String(decision.prompt_version ?? "v1");
-        const rr = requestRow.rewrite_request;
-
-        // Build the JSONL line object for OpenAI Batch
-        const lineObj = buildOpenAIBatchJsonlLine({
-          job_id: job.job_id,
-          input: {
-            model,
-            promptVersion,
-            targetLocale: requestRow.target_locale,
-            intent: rr.intent,
-            contextPack: rr.context_pack,
-            policy: rr.policy,
-            originalText: rr.original_text,
-            routingDecision: decision,
-          },
-        });
+type BatchGroup = {
+  provider: string;
+  adapter: ProviderAdapter;
+  baseUrl: string;
+  apiKey: string | null;
+  lines: AcceptedLine[];
+};
 
-        // Drift guard: custom_id must be job_id
-        const cid = (lineObj as { custom_id?: unknown })?.custom_id;
-        if (String(cid ?? "") !== job.job_id) {
-          await requeueJob(
-            supabase,
-            job.job_id,
-            "batch_custom_id_mismatch",
-            BACKOFF_INTERNAL_SECONDS,
-          );
-          continue;
-        }
-
-        const line = JSON.stringify(lineObj);
-        const lineBytes = encoder.encode(line).length;
-
-        if (lineBytes > MAX_JSONL_LINE_BYTES) {
-          await requeueJob(
-            supabase,
-            job.job_id,
-            `batch_line_too_large_${lineBytes}`,
-            6 * 3600,
-          );
-          skippedTooLargeLine++;
-          continue;
-        }
-
-        const newlineBytes = accepted.length === 0 ? 0 : 1;
-        if (totalBytes + newlineBytes + lineBytes > MAX_JSONL_BYTES) {
-          jobsToRequeueBecauseBatchFull.push(job.job_id);
-          skippedBatchFull++;
-          continue;
-        }
-
-        accepted.push({
-          job_id: job.job_id,
-          rewrite_request_id: job.rewrite_request_id,
-          line,
-        });
-        totalBytes += newlineBytes + lineBytes;
+async function handleSubmitterRequest(
+  req: Request,
+  deps: HandlerDeps = {},
+): Promise<Response> {
+  const request_id = crypto.randomUUID();
+  try {
+    requireInternalSecret(req);
+    rejectHugeBodies(req);
+
+    const supabase = deps.supabase ?? supabaseClient();
+
+    // 1) claim jobs
+    const claimed = await claimJobs(supabase, MAX_JOBS);
+    if (!claimed.ok) {
+      return json({ ok: false, request_id, error: claimed.error }, 500);
+    }
+    if (claimed.jobs.length === 0) {
+      return json({ ok: true, request_id, submitted: 0 }, 200);
+    }
+
+    // 2) build batch lines safely, grouped per provider batch
+    const encoder = new TextEncoder();
+
+    const groups = new Map<string, BatchGroup>();
+    const jobsToRequeueBecauseBatchFull: string[] = [];
+
+    let totalBytes = 0;
+    let acceptedCount = 0;
+    let skippedMissingRequest = 0;
+    let skippedUnsupportedProvider = 0;
+    let skippedTooLargeLine = 0;
+    let skippedBatchFull = 0;
+
+    for (const job of claimed.jobs) {
+      if (totalBytes >= MAX_JSONL_BYTES) {
+        jobsToRequeueBecauseBatchFull.push(job.job_id);
+        skippedBatchFull++;
+        continue;
+      }
+
+      const requestRow = await fetchRewriteRequest(
+        supabase,
+        job.rewrite_request_id,
+        job.recipient_user_id,
+      );
+      if (!requestRow) {
+        // terminal: request missing -> fail job
+        await failJob(supabase, job.job_id, "rewrite_request_not_found");
+        skippedMissingRequest++;
+        continue;
       }
 
-      // 3) requeue jobs deferred due to batch size cap
-      for (const jobId of jobsToRequeueBecauseBatchFull) {
+      const decision = (job.routing_decision ?? {}) as Record<
+        string,
+        unknown
+      >;
+      const resolved = resolveProvider(decision);
+      if (!resolved.ok) {
+        // config problem (no adapter / no base_url): retry after routing fix
         await requeueJob(
           supabase,
-          jobId,
-          "batch_full_deferred",
-          BACKOFF_BATCH_FULL_SECONDS,
+          job.job_id,
+          `batch_${resolved.error}`,
+          BACKOFF_PROVIDER_CONFIG_SECONDS,
         );
+        skippedUnsupportedProvider++;
+        continue;
       }
 
-      if (accepted.length === 0) {
-        return json(
-          {
-            ok: true,
-            request_id,
-            submitted: 0,
-            note: "no_valid_jobs",
-            skipped: {
-              missing_request: skippedMissingRequest,
-              unsupported_provider: skippedUnsupportedProvider,
-              too_large_line: skippedTooLargeLine,
-              batch_full_deferred: skippedBatchFull,
-            },
-          },
-          200,
+      const { provider, adapter, baseUrl } = resolved;
+      const apiKey = providerApiKey(provider);
+      if (!apiKey && adapter.kind !== "openai_compat_chat_completions") {
+        await requeueJob(
+          supabase,
+          job.job_id,
+          `batch_provider_api_key_missing:${providerApiKeyEnvName(provider)}`,
+          BACKOFF_PROVIDER_CONFIG_SECONDS,
         );
+        skippedUnsupportedProvider++;
+        continue;
       }
 
-      // Build JSONL + jobIds from accepted (single source of truth)
-      const jsonl = accepted.map((x) => x.line).join("\n");
-      const jobIds = accepted.map((x) => x.job_id);
+      const model = String(decision.model ?? "gpt-5-nano");
+      const promptVersion = String(decision.prompt_version ?? "v1");
+      const rr = requestRow.rewrite_request;
+
+      // Build the batch line object for this provider
+      const lineObj = adapter.buildBatchLine({
+        job_id: job.job_id,
+        input: {
+          model,
+          promptVersion,
+          targetLocale: requestRow.target_locale,
+          intent: rr.intent,
+          contextPack: rr.context_pack,
+          policy: rr.policy,
+          originalText: rr.original_text,
+          routingDecision: decision,
+        },
+      });
 
-      // 4) upload JSONL + create batch
-      // Single rewrite key for batch submit + collect
-      const openaiKey = env("OPENAI_REWRITE_API_KEY");
+      // Drift guard: custom_id must be job_id
+      if (String(lineObj.custom_id ?? "") !== job.job_id) {
+        await requeueJob(
+          supabase,
+          job.job_id,
+          "batch_custom_id_mismatch",
+          BACKOFF_INTERNAL_SECONDS,
+        );
+        continue;
+      }
 
-      let inputFileId: string;
-      let batchId: string;
+      const line = JSON.stringify(lineObj);
+      const lineBytes = encoder.encode(line).length;
 
-      try {
-        inputFileId = await uploadJsonlToOpenAI(openaiKey, jsonl);
-        batchId = await createOpenAIBatch(
-          openaiKey,
-          inputFileId,
-          ENDPOINT,
-          COMPLETION_WINDOW,
+      if (lineBytes > MAX_JSONL_LINE_BYTES) {
+        await requeueJob(
+          supabase,
+          job.job_id,
+          `batch_line_too_large_${lineBytes}`,
+          6 * 3600,
         );
-      } catch (e) {
-        const msg = toErrorMessage(e);
-        for (const jobId of jobIds) {
-          await requeueJob(
-            supabase,
-            jobId,
-            `openai_batch_submit_failed:${truncate(msg, 240)}`,
-            BACKOFF_OPENAI_FAIL_SECONDS,
-          );
-        }
-        throw e;
+        skippedTooLargeLine++;
+        continue;
       }
 
-      // 5) register batch in DB
-      {
-        const { error } = await supabase.rpc("rewrite_batch_register_v1", {
-          p_provider_batch_id: batchId,
-          p_input_file_id: inputFileId,
-          p_job_count: accepted.length,
-          p_endpoint: ENDPOINT,
-        });
+      const newlineBytes = acceptedCount === 0 ? 0 : 1;
+      if (totalBytes + newlineBytes + lineBytes > MAX_JSONL_BYTES) {
+        jobsToRequeueBecauseBatchFull.push(job.job_id);
+        skippedBatchFull++;
+        continue;
+      }
 
-        if (error) {
-          // Without DB row, collector won't poll => requeue jobs
-          for (const jobId of jobIds) {
-            await requeueJob(
-              supabase,
-              jobId,
-              `db_register_batch_failed:${error.message}`,
-              BACKOFF_INTERNAL_SECONDS,
-            );
-          }
-          return json({
-            ok: false,
-            request_id,
-            error: `rewrite_batch_register_v1_failed:${error.message}`,
-          }, 500);
-        }
+      const key = batchGroupKey(provider, adapter.kind, baseUrl, model);
+      let group = groups.get(key);
+      if (!group) {
+        group = { provider, adapter, baseUrl, apiKey, lines: [] };
+        groups.set(key, group);
       }
+      group.lines.push({
+        job_id: job.job_id,
+        rewrite_request_id: job.rewrite_request_id,
+        line,
+      });
+      acceptedCount++;
+      totalBytes += newlineBytes + lineBytes;
+    }
 
-      // 6) mark jobs batch_submitted + link provider_batch_id
-      {
-        const { error } = await supabase.rpc(
-          "mark_rewrite_jobs_batch_submitted_v1",
-          {
-            p_job_ids: jobIds,
-            p_provider_batch_id: batchId,
-          },
-        );
+    // 3) requeue jobs deferred due to batch size cap
+    for (const jobId of jobsToRequeueBecauseBatchFull) {
+      await requeueJob(
+        supabase,
+        jobId,
+        "batch_full_deferred",
+        BACKOFF_BATCH_FULL_SECONDS,
+      );
+    }
 
-        if (error) {
-          // Batch exists in OpenAI + registered, but jobs didn't link.
-          // Requeue jobs so they can be retried and you can reconcile later.
-          for (const jobId of jobIds) {
-            await requeueJob(
-              supabase,
-              jobId,
-              `mark_jobs_submitted_failed:${error.message}`,
-              BACKOFF_INTERNAL_SECONDS,
-            );
-          }
-          return json({
-            ok: false,
-            request_id,
-            error:
-              `mark_rewrite_jobs_batch_submitted_v1_failed:${error.message}`,
-          }, 500);
-        }
-      }
+    const skipped = {
+      missing_request: skippedMissingRequest,
+      unsupported_provider: skippedUnsupportedProvider,
+      too_large_line: skippedTooLargeLine,
+      batch_full_deferred: skippedBatchFull,
+    };
 
+    if (acceptedCount === 0) {
       return json(
         {
           ok: true,
           request_id,
-          submitted: accepted.length,
-          provider_batch_id: batchId,
-          input_file_id: inputFileId,
-          note: accepted.length < claimed.jobs.length
-            ? "partial_batch_due_to_limits"
-            : "full_batch",
-          skipped: {
-            missing_request: skippedMissingRequest,
-            unsupported_provider: skippedUnsupportedProvider,
-            too_large_line: skippedTooLargeLine,
-            batch_full_deferred: skippedBatchFull,
-          },
+          submitted: 0,
+          note: "no_valid_jobs",
+          skipped,
         },
         200,
       );
-    } catch (e) {
-      return json({ ok: false, error: toErrorMessage(e), request_id }, 500);
     }
-  });
+
+    // 4) submit one provider batch per group
+    const batches: unknown[] = [];
+    const errors: string[] = [];
+    let submitted = 0;
+
+    for (const group of groups.values()) {
+      const res = await submitGroup(supabase, group, deps.fetchFn);
+      if (res.ok) {
+        submitted += group.lines.length;
+        batches.push({
+          provider: group.provider,
+          adapter_kind: group.adapter.kind,
+          provider_batch_id: res.provider_batch_id,
+          input_file_id: res.input_file_id,
+          job_count: group.lines.length,
+        });
+      } else {
+        errors.push(res.error);
+      }
+    }
+
+    return json(
+      {
+        ok: errors.length === 0,
+        request_id,
+        submitted,
+        batches,
+        errors: errors.length ? errors : undefined,
+        note: acceptedCount < claimed.jobs.length
+          ? "partial_batch_due_to_limits"
+          : "full_batch",
+        skipped,
+      },
+      errors.length === 0 ? 200 : 500,
+    );
+  } catch (e) {
+    return json({ ok: false, error: toErrorMessage(e), request_id }, 500);
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve((req) => handleSubmitterRequest(req));
+}
+
+/* ---------------- batch submission ---------------- */
+
+function batchGroupKey(
+  provider: string,
+  adapterKind: string,
+  baseUrl: string,
+  model: string,
+) {
+  return [provider, adapterKind, baseUrl, model].join("|");
+}
+
+async function submitGroup(
+  supabase: RpcLike,
+  group: BatchGroup,
+  fetchFn?: typeof fetch,
+): Promise<
+  | { ok: true; provider_batch_id: string; input_file_id: string | null }
+  | { ok: false; error: string }
+> {
+  const jobIds = group.lines.map((x) => x.job_id);
+  const conn = { apiKey: group.apiKey, baseUrl: group.baseUrl, fetchFn };
+
+  // a) create provider batch
+  let submission: { provider_batch_id: string; input_file_id: string | null };
+  try {
+    submission = await group.adapter.createBatch(
+      conn,
+      group.lines.map((x) => x.line),
+    );
+  } catch (e) {
+    const msg = toErrorMessage(e);
+    for (const jobId of jobIds) {
+      await requeueJob(
+        supabase,
+        jobId,
+        `${group.provider}_batch_submit_failed:${truncate(msg, 240)}`,
+        BACKOFF_PROVIDER_FAIL_SECONDS,
+      );
+    }
+    return { ok: false, error: `${group.provider}_batch_submit_failed:${msg}` };
+  }
+
+  const batchId = submission.provider_batch_id;
+
+  // b) register batch in DB
+  {
+    const { error } = await supabase.rpc("rewrite_batch_register_v1", {
+      p_provider_batch_id: batchId,
+      p_input_file_id: submission.input_file_id,
+      p_job_count: group.lines.length,
+      p_endpoint: group.adapter.endpoint,
+      p_provider: group.provider,
+      p_adapter_kind: group.adapter.kind,
+      p_base_url: group.baseUrl,
+    });
+
+    if (error) {
+      // Without DB row, collector won't poll => requeue jobs
+      for (const jobId of jobIds) {
+        await requeueJob(
+          supabase,
+          jobId,
+          `db_register_batch_failed:${error.message}`,
+          BACKOFF_INTERNAL_SECONDS,
+        );
+      }
+      return {
+        ok: false,
+        error: `rewrite_batch_register_v1_failed:${error.message}`,
+      };
+    }
+  }
+
+  // c) mark jobs batch_submitted + link provider_batch_id
+  {
+    const { error } = await supabase.rpc(
+      "mark_rewrite_jobs_batch_submitted_v1",
+      {
+        p_job_ids: jobIds,
+        p_provider_batch_id: batchId,
+      },
+    );
+
+    if (error) {
+      // Batch exists at the provider + registered, but jobs didn't link.
+      // Requeue jobs so they can be retried and you can reconcile later.
+      for (const jobId of jobIds) {
+        await requeueJob(
+          supabase,
+          jobId,
+          `mark_jobs_submitted_failed:${error.message}`,
+          BACKOFF_INTERNAL_SECONDS,
+        );
+      }
+      return {
+        ok: false,
+        error: `mark_rewrite_jobs_batch_submitted_v1_failed:${error.message}`,
+      };
+    }
+  }
+
+  return {
+    ok: true,
+    provider_batch_id: batchId,
+    input_file_id: submission.input_file_id,
+  };
 }
 
 /* ---------------- helpers ---------------- */
@@ -335,7 +420,7 @@ function json(body: unknown, status = 200) {
   });
 }
 
-function supabaseClient(): SupabaseClient {
+function supabaseClient(): RpcLike {
   const url = env("SUPABASE_URL");
   // Internal-only edge function: OK to use service role, gated by x-internal-secret.
   const key = env("SUPABASE_SERVICE_ROLE_KEY");
@@ -365,6 +450,10 @@ function env(name: string): string {
   return v;
 }
 
+function providerApiKey(provider: string): string | null {
+  return Deno.env.get(providerApiKeyEnvName(provider)) || null;
+}
+
 function toErrorMessage(e: unknown): string {
   if (e instanceof Error) return e.message;
   return String(e);
@@ -397,7 +486,7 @@ type RewriteRequestRPCRow = {
   policy_version: string;
 };
 
-async function claimJobs(supabase: SupabaseClient, limit: number) {
+async function claimJobs(supabase: RpcLike, limit: number) {
   const { data, error } = await supabase.rpc(
     "claim_rewrite_jobs_for_batch_submit_v1",
     { p_limit: limit },
@@ -407,21 +496,25 @@ async function claimJobs(supabase: SupabaseClient, limit: number) {
 }
 
 async function fetchRewriteRequest(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   rewriteRequestId: string,
+  recipientUserId: string,
 ): Promise<RewriteRequestRPCRow | null> {
   const { data, error } = await supabase.rpc(
     "complaint_rewrite_request_fetch_v1",
     {
       p_rewrite_request_id: rewriteRequestId,
+      p_recipient_user_id: recipientUserId, // per-recipient blob + target_locale
     },
   );
   if (error || !data) return null;
-  return data as RewriteRequestRPCRow;
+  // RETURNS TABLE -> PostgREST returns an array
+  const row = Array.isArray(data) ? data[0] : data;
+  return (row ?? null) as RewriteRequestRPCRow | null;
 }
 
 async function requeueJob(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   jobId: string,
   reason: string,
   backoffSeconds: number,
@@ -434,7 +527,7 @@ async function requeueJob(
 }
 
 async function failJob(
-  supabase: SupabaseClient,
+  supabase: RpcLike,
   jobId: string,
   reason: string,
 ) {
@@ -444,69 +537,12 @@ async function failJob(
   });
 }
 
-/* ---------------- OpenAI HTTP ---------------- */
-
-async function uploadJsonlToOpenAI(
-  apiKey: string,
-  jsonl: string,
-): Promise<string> {
-  const form = new FormData();
-  form.append("purpose", "batch");
-  form.append(
-    "file",
-    new Blob([jsonl], { type: "application/jsonl" }),
-    "rewrite_jobs.jsonl",
-  );
-
-  const resp = await fetch("https://api.openai.com/v1/files", {
-    method: "POST",
-    headers: { Authorization: `Bearer ${apiKey}` },
-    body: form,
-  });
-
-  if (!resp.ok) {
-    throw new Error(
-      `openai_files_error:${resp.status}:${(await resp.text()).slice(0, 400)}`,
-    );
-  }
-  const data = await resp.json();
-  const id = data?.id;
-  if (typeof id !== "string" || !id) throw new Error("openai_files_missing_id");
-  return id;
-}
-
-async function createOpenAIBatch(
-  apiKey: string,
-  inputFileId: string,
-  endpoint: string,
-  window: string,
-): Promise<string> {
-  const resp = await fetch("https://api.openai.com/v1/batches", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      input_file_id: inputFileId,
-      endpoint,
-      completion_window: window,
-      metadata: { system: "complaint_rewrite", mode: "batch" },
-    }),
-  });
-
-  if (!resp.ok) {
-    throw new Error(
-      `openai_batch_create_error:${resp.status}:${
-        (await resp.text()).slice(0, 400)
-      }`,
-    );
-  }
-  const data = await resp.json();
-  const id = data?.id;
-  if (typeof id !== "string" || !id) throw new Error("openai_batch_missing_id");
-  return id;
-}
-
 // Test-only exports
-export { env, rejectHugeBodies, requireInternalSecret, truncate };
+export {
+  batchGroupKey,
+  env,
+  handleSubmitterRequest,
+  rejectHugeBodies,
+  requireInternalSecret,
+  truncate,
+};
@@ -0,0 +1,437 @@
+import { assert, assertEquals } from "jsr:@std/assert@0.224.0";
+
+import { processRealtimeJob } from "./index.ts";
+
+type RpcCall = {
+  fn: string;
+  args: Record<string, unknown>;
+};
+
+const JOB = {
+  job_id: "11111111-1111-4111-8111-111111111111",
+  rewrite_request_id: "22222222-2222-4222-8222-222222222222",
+  recipient_user_id: "33333333-3333-4333-8333-333333333333",
+  routing_decision: {
+    provider: "openai",
+    adapter_kind: "openai_responses",
+    model: "gpt-5-nano",
+    prompt_version: "v2",
+    execution_mode: "realtime",
+  },
+};
+
+const REQUEST_ROW = {
+  rewrite_request: {
+    surface: "direct_message",
+    lane: "same_language",
+    rewrite_strength: "full_reframe",
+    intent: "request",
+    original_text: "turn the music down",
+    context_pack: { power: { power_mode: "peer" } },
+    policy: { tone: "gentle", directness: "soft" },
+  },
+  target_locale: "en",
+  policy_version: "v1",
+};
+
+function fakeSupabase(calls: RpcCall[], requestRow = REQUEST_ROW) {
+  return {
+    rpc: (fn: string, args: Record<string, unknown>) => {
+      calls.push({ fn, args });
+      if (fn === "complaint_rewrite_request_fetch_v1") {
+        return Promise.resolve({ data: [requestRow], error: null });
+      }
+      return Promise.resolve({ data: null, error: null });
+    },
+  };
+}
+
+Deno.test("processRealtimeJob completes job with provider output", async () => {
+  const calls: RpcCall[] = [];
+  let providerUrl = "";
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: ({ url }) => {
+      providerUrl = url;
+      return Promise.resolve({
+        ok: true,
+        body: {
+          output_text: JSON.stringify({
+            rewritten_text:
+              "Could you please keep the music a little lower this evening?",
+          }),
+        },
+      });
+    },
+  });
+
+  assertEquals(out, { job_id: JOB.job_id, outcome: "completed" });
+  assertEquals(providerUrl, "https://api.openai.com/v1/responses");
+
+  const complete = calls.find((c) => c.fn === "complete_complaint_rewrite_job");
+  assert(complete, "complete RPC called");
+  assertEquals(complete.args.p_job_id, JOB.job_id);
+  assertEquals(complete.args.p_model, "gpt-5-nano");
+  assertEquals(complete.args.p_prompt_version, "v2");
+  assertEquals(complete.args.p_target_locale, "en");
+  assertEquals(complete.args.p_output_language, "en");
+  assertEquals(
+    (complete.args.p_eval_result as { detected_language: string })
+      .detected_language,
+    "en",
+  );
+});
+
+Deno.test("processRealtimeJob requeues on retryable provider status", async () => {
+  const calls: RpcCall[] = [];
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () =>
+      Promise.resolve({ ok: false, status: 429, error: "rate limited" }),
+  });
+
+  assertEquals(out.outcome, "requeued");
+  const requeue = calls.find((c) =>
+    c.fn === "complaint_rewrite_job_fail_or_requeue"
+  );
+  assert(requeue, "requeue RPC called");
+  assertEquals(requeue.args.p_backoff_seconds, 120);
+  assert(String(requeue.args.p_error).startsWith("provider_error:429:"));
+});
+
+Deno.test("processRealtimeJob fails on non-retryable provider status", async () => {
+  const calls: RpcCall[] = [];
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () =>
+      Promise.resolve({ ok: false, status: 400, error: "bad request" }),
+  });
+
+  assertEquals(out.outcome, "failed");
+  assertEquals(
+    calls.map((c) => c.fn),
+    ["complaint_rewrite_request_fetch_v1", "fail_complaint_rewrite_job"],
+  );
+});
+
+Deno.test("processRealtimeJob reports a failed requeue RPC instead of requeued", async () => {
+  const calls: RpcCall[] = [];
+  const base = fakeSupabase(calls);
+  const supabase = {
+    rpc: (fn: string, args: Record<string, unknown>) =>
+      fn === "complaint_rewrite_job_fail_or_requeue"
+        ? Promise.resolve({ data: null, error: { message: "db down" } })
+        : base.rpc(fn, args),
+  };
+
+  const out = await processRealtimeJob({
+    supabase,
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () =>
+      Promise.resolve({ ok: false, status: 429, error: "rate limited" }),
+  });
+
+  assertEquals(out.outcome, "error");
+  assert(
+    String(out.reason).startsWith(
+      "complaint_rewrite_job_fail_or_requeue_failed:db down",
+    ),
+  );
+});
+
+Deno.test("processRealtimeJob does not throw when the fail RPC rejects", async () => {
+  const calls: RpcCall[] = [];
+  const base = fakeSupabase(calls);
+  const supabase = {
+    rpc: (fn: string, args: Record<string, unknown>) =>
+      fn === "fail_complaint_rewrite_job"
+        ? Promise.reject(new Error("connection reset"))
+        : base.rpc(fn, args),
+  };
+
+  const out = await processRealtimeJob({
+    supabase,
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () =>
+      Promise.resolve({ ok: false, status: 400, error: "bad request" }),
+  });
+
+  assertEquals(out.outcome, "error");
+  assert(String(out.reason).includes("connection reset"));
+});
+
+Deno.test("processRealtimeJob fails job when eval rejects output", async () => {
+  const calls: RpcCall[] = [];
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () =>
+      Promise.resolve({
+        ok: true,
+        body: { rewritten_text: "It is your fault the music is so loud." },
+      }),
+  });
+
+  assertEquals(out.outcome, "failed");
+  assert(String(out.reason).startsWith("eval_failed:"));
+  assert(!calls.some((c) => c.fn === "complete_complaint_rewrite_job"));
+});
+
+Deno.test("processRealtimeJob requeues unsupported providers without calling out", async () => {
+  const calls: RpcCall[] = [];
+  let called = false;
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: {
+      ...JOB,
+      routing_decision: { provider: "gemini", adapter_kind: "gemini" },
+    },
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () => {
+      called = true;
+      return Promise.resolve({ ok: true, body: {} });
+    },
+  });
+
+  assertEquals(out, {
+    job_id: JOB.job_id,
+    outcome: "requeued",
+    reason: "realtime_provider_adapter_not_supported",
+  });
+  assert(!called, "provider not called");
+});
+
+Deno.test("processRealtimeJob routes anthropic_messages through its adapter", async () => {
+  const calls: RpcCall[] = [];
+  let seen: { url: string; headers: Record<string, string> } | null = null;
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: {
+      ...JOB,
+      routing_decision: {
+        provider: "anthropic",
+        adapter_kind: "anthropic_messages",
+        base_url: "https://api.anthropic.com",
+        model: "claude-haiku-4-5",
+        execution_mode: "realtime",
+      },
+    },
+    apiKeyFor: (provider) => provider === "anthropic" ? "ak" : null,
+    timeoutMs: 1000,
+    callProvider: ({ url, headers }) => {
+      seen = { url, headers };
+      return Promise.resolve({
+        ok: true,
+        body: {
+          content: [{
+            type: "text",
+            text: "Could you please keep the music a little lower tonight?",
+          }],
+        },
+      });
+    },
+  });
+
+  assertEquals(out.outcome, "completed");
+  assertEquals(seen!.url, "https://api.anthropic.com/v1/messages");
+  assertEquals(seen!.headers["x-api-key"], "ak");
+  const complete = calls.find((c) => c.fn === "complete_complaint_rewrite_job");
+  assertEquals(complete?.args.p_provider, "anthropic");
+});
+
+Deno.test("processRealtimeJob requeues when provider key is missing", async () => {
+  const calls: RpcCall[] = [];
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: JOB,
+    apiKeyFor: () => null,
+    timeoutMs: 1000,
+    callProvider: () => Promise.resolve({ ok: true, body: {} }),
+  });
+
+  assertEquals(out.outcome, "requeued");
+  assertEquals(
+    out.reason,
+    "realtime_provider_api_key_missing:OPENAI_REWRITE_API_KEY",
+  );
+});
+
+Deno.test("processRealtimeJob fails job when the rewrite adds new facts", async () => {
+  const calls: RpcCall[] = [];
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () =>
+      Promise.resolve({
+        ok: true,
+        body: {
+          rewritten_text:
+            "Could you please keep the music down after 10pm on Friday, like Sam asked?",
+        },
+      }),
+  });
+
+  assertEquals(out.outcome, "failed");
+  assertEquals(out.reason, "eval_failed:new_fact");
+  assert(!calls.some((c) => c.fn === "complete_complaint_rewrite_job"));
+});
+
+Deno.test("processRealtimeJob fails job when the rewrite drops the request", async () => {
+  const calls: RpcCall[] = [];
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls),
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () =>
+      Promise.resolve({
+        ok: true,
+        body: {
+          rewritten_text:
+            "The music was a little loud, but no need to turn it down.",
+        },
+      }),
+  });
+
+  assertEquals(out.outcome, "failed");
+  assertEquals(out.reason, "eval_failed:intent_not_preserved");
+});
+
+Deno.test("processRealtimeJob keeps soft request phrasings without a question mark", async () => {
+  const cases = [
+    ["It would help if the dishes were done after dinner.", "pass"],
+    ["It would really help if the dishes were done after dinner.", "pass"],
+    ["Can we get the dishes done after dinner.", "pass"],
+    ["Could we sort out the dishes after dinner.", "pass"],
+    ["It would be great if the dishes were done after dinner.", "pass"],
+    ["When you get a chance, the dishes after dinner need doing.", "pass"],
+    // no cue at all: warning only until the cue list has fixture coverage
+    ["The dishes after dinner have been piling up.", "warn"],
+  ];
+
+  for (const [rewritten_text, intent_preserved] of cases) {
+    const calls: RpcCall[] = [];
+    const out = await processRealtimeJob({
+      supabase: fakeSupabase(calls, {
+        ...REQUEST_ROW,
+        rewrite_request: {
+          ...REQUEST_ROW.rewrite_request,
+          original_text: "the dishes are never done after dinner",
+        },
+      }),
+      job: JOB,
+      apiKeyFor: () => "key",
+      timeoutMs: 1000,
+      callProvider: () =>
+        Promise.resolve({ ok: true, body: { rewritten_text } }),
+    });
+
+    assertEquals(out.outcome, "completed", rewritten_text);
+    const complete = calls.find((c) =>
+      c.fn === "complete_complaint_rewrite_job"
+    );
+    assertEquals(
+      (complete?.args.p_eval_result as { intent_preserved: string })
+        .intent_preserved,
+      intent_preserved,
+      rewritten_text,
+    );
+  }
+});
+
+Deno.test("processRealtimeJob applies the target_locale lexicon pack", async () => {
+  const cases = [
+    {
+      target_locale: "es",
+      original_text: "La música está muy alta por la noche",
+      rewritten_text:
+        "Es tu culpa, siempre pones la música alta. Bájala, por favor.",
+      reason: "eval_failed:blame",
+    },
+    {
+      target_locale: "ar",
+      original_text: "الموسيقى عالية جداً في الليل",
+      rewritten_text: "أنت دائماً ترفع صوت الموسيقى يا غبي، اخفضها من فضلك؟",
+      reason: "eval_failed:slur,personal_attack,blame",
+    },
+  ];
+
+  for (const c of cases) {
+    const calls: RpcCall[] = [];
+    const out = await processRealtimeJob({
+      supabase: fakeSupabase(calls, {
+        ...REQUEST_ROW,
+        rewrite_request: {
+          ...REQUEST_ROW.rewrite_request,
+          original_text: c.original_text,
+        },
+        target_locale: c.target_locale,
+      }),
+      job: JOB,
+      apiKeyFor: () => "key",
+      timeoutMs: 1000,
+      callProvider: () =>
+        Promise.resolve({
+          ok: true,
+          body: { rewritten_text: c.rewritten_text },
+        }),
+    });
+
+    assertEquals(out.outcome, "failed", c.target_locale);
+    assertEquals(out.reason, c.reason);
+  }
+});
+
+Deno.test("processRealtimeJob requeues rewrites in the wrong output language", async () => {
+  const calls: RpcCall[] = [];
+
+  const out = await processRealtimeJob({
+    supabase: fakeSupabase(calls, { ...REQUEST_ROW, target_locale: "es-MX" }),
+    job: JOB,
+    apiKeyFor: () => "key",
+    timeoutMs: 1000,
+    callProvider: () =>
+      Promise.resolve({
+        ok: true,
+        body: {
+          rewritten_text:
+            "Could you please keep the music a little lower this evening?",
+        },
+      }),
+  });
+
+  assertEquals(out.outcome, "requeued");
+  const requeue = calls.find((c) =>
+    c.fn === "complaint_rewrite_job_fail_or_requeue"
+  );
+  assert(requeue, "requeue RPC called");
+  assertEquals(requeue.args.p_error, "output_language_mismatch:en");
+  assert(!calls.some((c) => c.fn === "complete_complaint_rewrite_job"));
+});
@@ -0,0 +1,592 @@
+// supabase/functions/rewrite_worker/index.ts
+// Realtime rewrite worker (provider adapters, one call per job).
+// RPC-only DB access.
+//
+// Handles rewrite_jobs whose routing_decision.execution_mode = 'realtime'
+// (e.g. direct_message routes) so they do not wait on the 24h Batch window.
+// Same adapters/prompt payload as the batch lane (../rewrite_batch/providers.ts)
+// and the same eval gate as the collector (evaluateRewrite).
+//
+// Flow:
+// 1) claim queued realtime jobs (RPC) -> status processing
+// 2) fetch rewrite_request for each job (RPC)
+// 3) POST adapter.buildRequest(...) to the provider (synchronous)
+// 4) extract rewritten_text, identify its language (requeue on mismatch),
+//    evaluateRewrite
+// 5) complete job (RPC) or requeue/fail with reason
+// 6) finalize rewrite_request (only terminal when all its jobs are terminal)
+//
+// Required RPCs this worker expects:
+// - claim_rewrite_jobs_for_realtime_v1(p_limit) -> rows(job_id, rewrite_request_id, recipient_user_id, routing_decision)
+// - complaint_rewrite_request_fetch_v1(p_rewrite_request_id, p_recipient_user_id) -> { rewrite_request, target_locale, policy_version }
+// - complete_complaint_rewrite_job(...)
+// - complaint_rewrite_job_fail_or_requeue(p_job_id, p_error, p_backoff_seconds)
+// - fail_complaint_rewrite_job(p_job_id, p_error)
+// - complaint_rewrite_request_finalize_v1(p_rewrite_request_id)
+//
+// Required env:
+// - SUPABASE_URL
+// - SUPABASE_SERVICE_ROLE_KEY
+// - WORKER_SHARED_SECRET (callers send: x-internal-secret)
+// - <PROVIDER>_REWRITE_API_KEY per routed provider (e.g. OPENAI_REWRITE_API_KEY);
+//   optional for openai_compat_chat_completions (self-hosted base_url)
+//
+// Optional env:
+// - REWRITE_WORKER_MAX_JOBS (default 10)
+// - REWRITE_WORKER_CONCURRENCY (default 3)
+// - REWRITE_WORKER_PROVIDER_TIMEOUT_MS (default 20000)
+
+import {
+  createClient,
+  type SupabaseClient,
+} from "npm:@supabase/supabase-js@2.48.0";
+import { evaluateRewrite } from "../../../tool/rewrite_eval/evaluator.ts";
+import { checkOutputLanguage } from "../../../tool/rewrite_eval/language_id.ts";
+import {
+  evalFailureCodes,
+  providerApiKeyEnvName,
+  resolveProvider,
+} from "../rewrite_batch/providers.ts";
+
+/* ---------------- config ---------------- */
+
+const MAX_CONTENT_LENGTH = 256_000;
+const LEXICON_VERSION = "complaint_rewrite_lexicon_v1";
+
+const DEFAULT_MAX_JOBS = 10;
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_PROVIDER_TIMEOUT_MS = 20_000;
+
+// backoffs (realtime lane retries sooner than batch)
+const BACKOFF_PROVIDER_SECONDS = 2 * 60; // 429 / 5xx / timeout
+const BACKOFF_PARSE_SECONDS = 5 * 60; // empty or unparseable output
+const BACKOFF_COMPLETE_SECONDS = 5 * 60; // transient DB complete issues
+const BACKOFF_PROVIDER_CONFIG_SECONDS = 6 * 3600; // no adapter / base_url / key
+
+/* ---------------- types ---------------- */
+
+type RpcLike = {
+  rpc: (
+    fn: string,
+    args: Record<string, unknown>,
+  ) => PromiseLike<{ data: unknown; error: { message: string } | null }>;
+};
+
+type JobRow = {
+  job_id: string;
+  rewrite_request_id: string;
+  recipient_user_id: string;
+  routing_decision?: unknown;
+};
+
+type RewriteRequestRPCRow = {
+  rewrite_request: {
+    surface: string;
+    lane: string;
+    rewrite_strength: string;
+    intent: "request" | "boundary" | "concern" | "clarification";
+    original_text: string;
+    context_pack?: unknown;
+    policy?: unknown;
+  };
+  target_locale: string;
+  policy_version: string;
+};
+
+type ProviderCallResult =
+  | { ok: true; body: unknown }
+  | { ok: false; status: number; error: string };
+
+type ProviderCall = (args: {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  timeoutMs: number;
+}) => Promise<ProviderCallResult>;
+
+type JobOutcome = {
+  job_id: string;
+  // error: the requeue/fail RPC itself failed, the job is still processing
+  outcome: "completed" | "requeued" | "failed" | "error";
+  reason?: string;
+};
+
+/* ---------------- entrypoint ---------------- */
+
+if (import.meta.main) {
+  Deno.serve(async (req) => {
+    const request_id = crypto.randomUUID();
+
+    try {
+      requireInternalSecret(req);
+      rejectHugeBodies(req);
+
+      const supabase = supabaseClient();
+
+      const maxJobs = clampInt(
+        Deno.env.get("REWRITE_WORKER_MAX_JOBS"),
+        1,
+        50,
+        DEFAULT_MAX_JOBS,
+      );
+      const concurrency = clampInt(
+        Deno.env.get("REWRITE_WORKER_CONCURRENCY"),
+        1,
+        10,
+        DEFAULT_CONCURRENCY,
+      );
+      const timeoutMs = clampInt(
+        Deno.env.get("REWRITE_WORKER_PROVIDER_TIMEOUT_MS"),
+        2_000,
+        60_000,
+        DEFAULT_PROVIDER_TIMEOUT_MS,
+      );
+
+      const { data, error } = await supabase.rpc(
+        "claim_rewrite_jobs_for_realtime_v1",
+        { p_limit: maxJobs },
+      );
+      if (error) {
+        return json({ ok: false, request_id, error: error.message }, 500);
+      }
+
+      const jobs = (data ?? []) as JobRow[];
+      if (jobs.length === 0) {
+        return json({ ok: true, request_id, claimed: 0 }, 200);
+      }
+
+      const outcomes = await mapLimit(
+        jobs,
+        concurrency,
+        (job) =>
+          processRealtimeJob({
+            supabase,
+            job,
+            apiKeyFor: providerApiKey,
+            timeoutMs,
+          }),
+      );
+
+      // Finalize each touched request once (no-op while sibling jobs are pending)
+      const touchedRequestIds = new Set(jobs.map((j) => j.rewrite_request_id));
+      let finalized = 0;
+      for (const rid of touchedRequestIds) {
+        const { error } = await supabase.rpc(
+          "complaint_rewrite_request_finalize_v1",
+          { p_rewrite_request_id: rid },
+        );
+        if (!error) finalized++;
+      }
+
+      return json({
+        ok: true,
+        request_id,
+        claimed: jobs.length,
+        completed: outcomes.filter((o) => o.outcome === "completed").length,
+        requeued: outcomes.filter((o) => o.outcome === "requeued").length,
+        failed: outcomes.filter((o) => o.outcome === "failed").length,
+        errors: outcomes.filter((o) => o.outcome === "error").length,
+        finalized_requests: finalized,
+        sample_failures: outcomes.filter((o) => o.outcome !== "completed")
+          .slice(0, 5),
+      }, 200);
+    } catch (e) {
+      return json({ ok: false, request_id, error: toErrorMessage(e) }, 500);
+    }
+  });
+}
+
+/* ---------------- job processing ---------------- */
+
+async function processRealtimeJob(params: {
+  supabase: RpcLike;
+  job: JobRow;
+  apiKeyFor: (provider: string) => string | null;
+  timeoutMs: number;
+  callProvider?: ProviderCall;
+}): Promise<JobOutcome> {
+  const { supabase, job } = params;
+  const callProvider = params.callProvider ?? postProviderRequest;
+
+  const rpcFailed = (fn: string, reason: string, message: string) => {
+    console.error("rewrite_worker status rpc error", {
+      job_id: job.job_id,
+      fn,
+      reason,
+      error: message,
+    });
+    return {
+      job_id: job.job_id,
+      outcome: "error" as const,
+      reason: `${fn}_failed:${safeShort(message)} (${reason})`,
+    };
+  };
+  const requeue = async (
+    reason: string,
+    backoffSeconds: number,
+  ): Promise<JobOutcome> => {
+    const error = await requeueJob(
+      supabase,
+      job.job_id,
+      reason,
+      backoffSeconds,
+    );
+    if (error) {
+      return rpcFailed("complaint_rewrite_job_fail_or_requeue", reason, error);
+    }
+    return { job_id: job.job_id, outcome: "requeued", reason };
+  };
+  const fail = async (reason: string): Promise<JobOutcome> => {
+    const error = await failJob(supabase, job.job_id, reason);
+    if (error) return rpcFailed("fail_complaint_rewrite_job", reason, error);
+    return { job_id: job.job_id, outcome: "failed", reason };
+  };
+
+  try {
+    const reqRow = await fetchRewriteRequest(
+      supabase,
+      job.rewrite_request_id,
+      job.recipient_user_id,
+    );
+    if (!reqRow) return await fail("rewrite_request_not_found");
+
+    const decision = (job.routing_decision ?? {}) as Record<string, unknown>;
+    const resolved = resolveProvider(decision);
+    if (!resolved.ok) {
+      return await requeue(
+        `realtime_${resolved.error}`,
+        BACKOFF_PROVIDER_CONFIG_SECONDS,
+      );
+    }
+
+    const { provider, adapter, baseUrl } = resolved;
+    const apiKey = params.apiKeyFor(provider);
+    if (!apiKey && adapter.kind !== "openai_compat_chat_completions") {
+      return await requeue(
+        `realtime_provider_api_key_missing:${providerApiKeyEnvName(provider)}`,
+        BACKOFF_PROVIDER_CONFIG_SECONDS,
+      );
+    }
+
+    const model = String(decision.model ?? "gpt-5-nano");
+    const promptVersion = String(decision.prompt_version ?? "v1");
+    const rr = reqRow.rewrite_request;
+    const targetLocale = reqRow.target_locale;
+
+    const request = adapter.buildRequest({ apiKey, baseUrl }, {
+      model,
+      promptVersion,
+      targetLocale,
+      intent: rr.intent,
+      contextPack: rr.context_pack,
+      policy: rr.policy,
+      originalText: rr.original_text,
+      routingDecision: decision,
+    });
+
+    const result = await callProvider({
+      url: request.url,
+      headers: request.headers,
+      body: request.body,
+      timeoutMs: params.timeoutMs,
+    });
+
+    if (!result.ok) {
+      const reason = `provider_error:${result.status}:${
+        safeShort(result.error)
+      }`;
+      if (adapter.classifyError({ status: result.status }) === "retryable") {
+        return await requeue(reason, BACKOFF_PROVIDER_SECONDS);
+      }
+      return await fail(reason);
+    }
+
+    const rewritten = adapter.extractRewrittenText(result.body);
+    if (!rewritten) {
+      return await requeue("empty_rewrite", BACKOFF_PARSE_SECONDS);
+    }
+
+    // Output language is identified from the text, not copied from the request.
+    // A wrong-language answer is a model slip: retry rather than fail outright.
+    const outputLanguage = checkOutputLanguage(rewritten, targetLocale);
+    if (!outputLanguage.matches) {
+      return await requeue(
+        `output_language_mismatch:${outputLanguage.detected}`,
+        BACKOFF_PARSE_SECONDS,
+      );
+    }
+    const outputLocale = outputLanguage.detected ?? targetLocale;
+
+    // Eval (same semantics as batch collector)
+    const evalResult = evaluateRewrite(
+      {
+        rewrite_request_id: job.rewrite_request_id,
+        target_locale: targetLocale,
+        original_text: rr.original_text,
+        intent: rr.intent,
+      },
+      {
+        rewrite_request_id: job.rewrite_request_id,
+        recipient_user_id: job.recipient_user_id,
+        rewritten_text: rewritten,
+        output_language: outputLocale,
+      },
+      { power: { power_mode: getPowerMode(rr.context_pack) } },
+      {
+        judge_version: "v1",
+        dataset_version: "none",
+        lexicon_version: LEXICON_VERSION,
+      },
+    );
+
+    if (
+      !evalResult.lexicon_pass || evalResult.tone_safety === "fail" ||
+      evalResult.intent_preserved === "fail"
+    ) {
+      return await fail(
+        "eval_failed:" + safeShort(evalFailureCodes(evalResult)),
+      );
+    }
+
+    const { error } = await supabase.rpc("complete_complaint_rewrite_job", {
+      p_job_id: job.job_id,
+      p_rewrite_request_id: job.rewrite_request_id,
+      p_recipient_user_id: job.recipient_user_id,
+      p_rewritten_text: rewritten,
+      p_output_language: outputLocale,
+      p_target_locale: targetLocale,
+      p_model: model,
+      p_provider: provider,
+      p_prompt_version: promptVersion,
+      p_policy_version: reqRow.policy_version,
+      p_lexicon_version: LEXICON_VERSION,
+      p_eval_result: evalResult,
+    });
+
+    if (error) {
+      return await requeue(
+        `complete_failed:${safeShort(error.message)}`,
+        BACKOFF_COMPLETE_SECONDS,
+      );
+    }
+
+    return { job_id: job.job_id, outcome: "completed" };
+  } catch (e) {
+    // Never leave a claimed job in processing
+    return await requeue(
+      `worker_error:${safeShort(toErrorMessage(e))}`,
+      BACKOFF_PROVIDER_SECONDS,
+    );
+  }
+}
+
+/* ---------------- response helpers ---------------- */
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+/* ---------------- auth + env ---------------- */
+
+function supabaseClient(): SupabaseClient {
+  const url = env("SUPABASE_URL");
+  // Internal-only edge function: OK to use service role, gated by x-internal-secret.
+  const key = env("SUPABASE_SERVICE_ROLE_KEY");
+  return createClient(url, key, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+}
+
+function requireInternalSecret(req: Request) {
+  const expected = env("WORKER_SHARED_SECRET");
+  const got = req.headers.get("x-internal-secret");
+  if (got !== expected) throw new Error("unauthorized");
+}
+
+function rejectHugeBodies(req: Request) {
+  const cl = req.headers.get("content-length");
+  if (!cl) return;
+  const n = Number(cl);
+  if (Number.isFinite(n) && n > MAX_CONTENT_LENGTH) {
+    throw new Error("payload_too_large");
+  }
+}
+
+function env(name: string): string {
+  const v = Deno.env.get(name);
+  if (!v) throw new Error(`Missing env ${name}`);
+  return v;
+}
+
+/* ---------------- small utils ---------------- */
+
+function providerApiKey(provider: string): string | null {
+  return Deno.env.get(providerApiKeyEnvName(provider)) || null;
+}
+
+function toErrorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  return String(e);
+}
+
+function safeShort(x: unknown): string {
+  try {
+    const s = typeof x === "string" ? x : JSON.stringify(x ?? "");
+    return s.slice(0, 300);
+  } catch {
+    return String(x ?? "").slice(0, 300);
+  }
+}
+
+function clampInt(v: unknown, min: number, max: number, fallback: number) {
+  const n = typeof v === "number" ? v : Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  const i = Math.trunc(n);
+  return Math.max(min, Math.min(max, i));
+}
+
+function getPowerMode(
+  contextPack: unknown,
+): "peer" | "higher_sender" | "higher_recipient" {
+  const pm = (contextPack as { power?: { power_mode?: unknown } } | null)
+    ?.power?.power_mode;
+  if (pm === "peer" || pm === "higher_sender" || pm === "higher_recipient") {
+    return pm;
+  }
+  return "peer";
+}
+
+// Simple concurrency-limited mapper
+async function mapLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let idx = 0;
+
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (true) {
+        const i = idx++;
+        if (i >= items.length) break;
+        out[i] = await fn(items[i]);
+      }
+    },
+  );
+
+  await Promise.all(workers);
+  return out;
+}
+
+/* ---------------- RPC calls ---------------- */
+
+async function fetchRewriteRequest(
+  supabase: RpcLike,
+  rewriteRequestId: string,
+  recipientUserId: string,
+): Promise<RewriteRequestRPCRow | null> {
+  const { data, error } = await supabase.rpc(
+    "complaint_rewrite_request_fetch_v1",
+    {
+      p_rewrite_request_id: rewriteRequestId,
+      p_recipient_user_id: recipientUserId, // per-recipient blob + target_locale
+    },
+  );
+  if (error || !data) return null;
+  // RETURNS TABLE -> PostgREST returns an array
+  const row = Array.isArray(data) ? data[0] : data;
+  return (row ?? null) as RewriteRequestRPCRow | null;
+}
+
+// Status RPCs return the error message (null on success) and never throw,
+// so one failing job cannot reject mapLimit and drop the batch's outcomes.
+async function requeueJob(
+  supabase: RpcLike,
+  jobId: string,
+  reason: string,
+  backoffSeconds: number,
+): Promise<string | null> {
+  return await rpcErrorMessage(
+    supabase,
+    "complaint_rewrite_job_fail_or_requeue",
+    {
+      p_job_id: jobId,
+      p_error: reason,
+      p_backoff_seconds: backoffSeconds,
+    },
+  );
+}
+
+async function failJob(
+  supabase: RpcLike,
+  jobId: string,
+  reason: string,
+): Promise<string | null> {
+  return await rpcErrorMessage(supabase, "fail_complaint_rewrite_job", {
+    p_job_id: jobId,
+    p_error: reason,
+  });
+}
+
+async function rpcErrorMessage(
+  supabase: RpcLike,
+  fn: string,
+  args: Record<string, unknown>,
+): Promise<string | null> {
+  try {
+    const { error } = await supabase.rpc(fn, args);
+    return error ? error.message : null;
+  } catch (e) {
+    return toErrorMessage(e);
+  }
+}
+
+/* ---------------- provider HTTP ---------------- */
+
+async function postProviderRequest(args: {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+  timeoutMs: number;
+}): Promise<ProviderCallResult> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), args.timeoutMs);
+
+  try {
+    const resp = await fetch(args.url, {
+      method: "POST",
+      signal: controller.signal,
+      headers: args.headers,
+      body: JSON.stringify(args.body),
+    });
+
+    if (!resp.ok) {
+      const text = await resp.text().catch(() => "");
+      return { ok: false, status: resp.status, error: text.slice(0, 400) };
+    }
+    return { ok: true, body: await resp.json() };
+  } catch (e) {
+    const timedOut = String(e).includes("AbortError");
+    return {
+      ok: false,
+      status: 0,
+      error: timedOut ? "provider_timeout" : toErrorMessage(e),
+    };
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+// Test-only exports
+export {
+  getPowerMode,
+  mapLimit,
+  postProviderRequest,
+  processRealtimeJob,
+  requireInternalSecret,
+};
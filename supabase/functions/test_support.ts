@@ -0,0 +1,57 @@
+// supabase/functions/test_support.ts
+// Test-only helpers shared by the edge function tests: a recording rpc fake and the
+// x-internal-secret plumbing for cron-invoked handlers (fail-closed secret env vars).
+// Not a function: the deploy loop and the edge_functions manifest only pick up directories.
+
+export const TEST_SECRET = "s3cret";
+
+export type RpcCall = { fn: string; args: Record<string, unknown> };
+
+type RpcResponse = { data: unknown; error: { message: string } | null };
+
+// Fake service-role client: records every rpc call, answers with respond (which also sees
+// the calls so far, e.g. to mint unique ids).
+export function recordingRpc(
+  respond: (
+    fn: string,
+    args: Record<string, unknown>,
+    calls: RpcCall[],
+  ) => RpcResponse,
+) {
+  const calls: RpcCall[] = [];
+  const supabase = {
+    rpc: (fn: string, args: Record<string, unknown>) => {
+      calls.push({ fn, args });
+      return Promise.resolve(respond(fn, args, calls));
+    },
+  };
+  return { supabase, calls };
+}
+
+// withSecret(fn) runs fn with `secretEnv` = TEST_SECRET and restores the previous value;
+// request(body, secret?) builds the POST the cron would send to `functionName`.
+export function internalSecretHarness(functionName: string, secretEnv: string) {
+  async function withSecret(fn: () => Promise<void>) {
+    const prev = Deno.env.get(secretEnv);
+    Deno.env.set(secretEnv, TEST_SECRET);
+    try {
+      await fn();
+    } finally {
+      if (prev === undefined) {
+        Deno.env.delete(secretEnv);
+      } else {
+        Deno.env.set(secretEnv, prev);
+      }
+    }
+  }
+
+  function request(body: unknown, secret = TEST_SECRET) {
+    return new Request(`http://localhost/${functionName}`, {
+      method: "POST",
+      headers: { "x-internal-secret": secret },
+      body: JSON.stringify(body),
+    });
+  }
+
+  return { withSecret, request };
+}
@@ -0,0 +1,270 @@
+-- ============================================================
+-- complaint_rewrite realtime lane (rewrite_worker)
+--
+-- Adds the per-job execution path next to the OpenAI Batch lane:
+-- 1) complaint_rewrite_routes.execution_mode vocabulary: async | batch | realtime
+-- 2) claim_rewrite_jobs_for_realtime_v1: queued -> processing (realtime jobs only)
+-- 3) claim_rewrite_jobs_for_batch_submit_v1: skips realtime jobs
+-- 4) complaint_rewrite_request_finalize_v1: request terminal only when all jobs terminal
+-- 5) pg_cron: rewrite_worker every minute
+-- ============================================================
+
+/* ============================================================
+   1) Routing vocabulary guard
+   ============================================================ */
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'ck_complaint_route_execution_mode'
+      and conrelid = 'public.complaint_rewrite_routes'::regclass
+  ) then
+    alter table public.complaint_rewrite_routes
+      add constraint ck_complaint_route_execution_mode
+      check (execution_mode in ('async','batch','realtime'))
+      not valid;
+
+    alter table public.complaint_rewrite_routes
+      validate constraint ck_complaint_route_execution_mode;
+  end if;
+end $$;
+
+-- Realtime claims filter on routing_decision->>'execution_mode'
+create index if not exists ix_rewrite_jobs_queued_execution_mode
+  on public.rewrite_jobs((routing_decision->>'execution_mode'), not_before_at, created_at)
+  where status = 'queued';
+
+/* ============================================================
+   2) Claim jobs for realtime worker: queued -> processing
+   ============================================================ */
+drop function if exists public.claim_rewrite_jobs_for_realtime_v1(int);
+
+create or replace function public.claim_rewrite_jobs_for_realtime_v1(
+  p_limit int default 10
+) returns table (
+  job_id uuid,
+  rewrite_request_id uuid,
+  recipient_user_id uuid,
+  routing_decision jsonb
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  worker_id text := coalesce(
+    nullif(current_setting('request.headers.x-worker-id', true), ''),
+    'rewrite_worker'
+  );
+begin
+  return query
+  with cte as (
+    select j.job_id
+    from public.rewrite_jobs j
+    where j.status = 'queued'
+      and (j.not_before_at is null or j.not_before_at <= now())
+      and j.routing_decision->>'execution_mode' = 'realtime'
+    order by j.created_at asc
+    for update skip locked
+    limit greatest(coalesce(p_limit, 10), 0)
+  ),
+  claimed as (
+    update public.rewrite_jobs j
+       set status = 'processing',
+           claimed_at = now(),
+           claimed_by = worker_id,
+           attempt_count = j.attempt_count + 1,
+           updated_at = now()
+    from cte
+    where j.job_id = cte.job_id
+    returning j.job_id, j.rewrite_request_id, j.recipient_user_id, j.routing_decision
+  ),
+  mark_req as (
+    update public.rewrite_requests r
+       set status = 'processing',
+           updated_at = now()
+     where r.rewrite_request_id in (select c.rewrite_request_id from claimed c)
+       and r.status = 'queued'
+  )
+  select * from claimed;
+end;
+$$;
+
+revoke all on function public.claim_rewrite_jobs_for_realtime_v1(int) from public;
+grant execute on function public.claim_rewrite_jobs_for_realtime_v1(int) to service_role;
+
+/* ============================================================
+   3) Batch submitter claim: leave realtime jobs to rewrite_worker
+   ============================================================ */
+create or replace function public.claim_rewrite_jobs_for_batch_submit_v1(
+  p_limit int default 50
+) returns table (
+  job_id uuid,
+  rewrite_request_id uuid,
+  recipient_user_id uuid,
+  routing_decision jsonb
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  worker_id text := coalesce(
+    nullif(current_setting('request.headers.x-worker-id', true), ''),
+    'rewrite_batch_submitter'
+  );
+begin
+  return query
+  with cte as (
+    select j.job_id
+    from public.rewrite_jobs j
+    where j.status = 'queued'
+      and (j.not_before_at is null or j.not_before_at <= now())
+      and j.provider_batch_id is null
+      and j.submitted_at is null
+      and coalesce(j.routing_decision->>'execution_mode', 'batch') <> 'realtime'
+    order by j.created_at asc
+    for update skip locked
+    limit p_limit
+  ),
+  claimed as (
+    update public.rewrite_jobs j
+       set status = 'processing',
+           claimed_at = now(),
+           claimed_by = worker_id,
+           attempt_count = j.attempt_count + 1,
+           updated_at = now()
+    from cte
+    where j.job_id = cte.job_id
+    returning j.job_id, j.rewrite_request_id, j.recipient_user_id, j.routing_decision
+  )
+  select * from claimed;
+end;
+$$;
+
+revoke all on function public.claim_rewrite_jobs_for_batch_submit_v1(int) from public;
+grant execute on function public.claim_rewrite_jobs_for_batch_submit_v1(int) to service_role;
+
+/* ============================================================
+   4) Finalize request (service_role only)
+   - no-op while any job is queued/processing/batch_submitted
+   - completed when every job completed; failed otherwise
+   ============================================================ */
+drop function if exists public.complaint_rewrite_request_finalize_v1(uuid);
+
+create or replace function public.complaint_rewrite_request_finalize_v1(
+  p_rewrite_request_id uuid
+) returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_total int;
+  v_non_terminal int;
+  v_any_failed boolean;
+  v_status text;
+begin
+  select
+    count(*),
+    count(*) filter (where j.status in ('queued','processing','batch_submitted')),
+    coalesce(bool_or(j.status in ('failed','canceled')), false)
+    into v_total, v_non_terminal, v_any_failed
+  from public.rewrite_jobs j
+  where j.rewrite_request_id = p_rewrite_request_id;
+
+  if v_total = 0 or v_non_terminal > 0 then
+    select r.status into v_status
+      from public.rewrite_requests r
+     where r.rewrite_request_id = p_rewrite_request_id;
+
+    return jsonb_build_object(
+      'rewrite_request_id', p_rewrite_request_id,
+      'status', v_status,
+      'finalized', false,
+      'pending_jobs', v_non_terminal
+    );
+  end if;
+
+  update public.rewrite_requests r
+     set status = case when v_any_failed then 'failed' else 'completed' end,
+         rewrite_completed_at = coalesce(r.rewrite_completed_at, now()),
+         updated_at = now()
+   where r.rewrite_request_id = p_rewrite_request_id
+     and r.status in ('queued','processing')
+  returning r.status into v_status;
+
+  if v_status is null then
+    select r.status into v_status
+      from public.rewrite_requests r
+     where r.rewrite_request_id = p_rewrite_request_id;
+  end if;
+
+  return jsonb_build_object(
+    'rewrite_request_id', p_rewrite_request_id,
+    'status', v_status,
+    'finalized', true,
+    'pending_jobs', 0
+  );
+end;
+$$;
+
+revoke all on function public.complaint_rewrite_request_finalize_v1(uuid) from public;
+revoke all on function public.complaint_rewrite_request_finalize_v1(uuid) from anon, authenticated;
+grant execute on function public.complaint_rewrite_request_finalize_v1(uuid) to service_role;
+
+/* ============================================================
+   5) CRON: realtime worker (every minute)
+   ============================================================ */
+create or replace function public._cron_call_rewrite_worker()
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_url text := current_setting('app.settings.supabase_url', true)
+    || '/functions/v1/rewrite_worker';
+  v_secret text := current_setting('app.settings.worker_shared_secret', true);
+begin
+  perform net.http_post(
+    url := v_url,
+    headers := jsonb_strip_nulls(jsonb_build_object(
+      'Content-Type','application/json',
+      'x-internal-secret', v_secret,
+      'x-worker-id', 'cron_rewrite_worker'
+    )),
+    body := '{}'::jsonb
+  );
+end;
+$$;
+
+revoke all on function public._cron_call_rewrite_worker() from public, anon, authenticated;
+grant execute on function public._cron_call_rewrite_worker() to service_role;
+
+do $$
+declare
+  v_job_id integer;
+begin
+  begin
+    select j.jobid
+      into v_job_id
+      from cron.job j
+     where j.jobname = 'complaint_rewrite_worker_every_1m'
+     limit 1;
+
+    if v_job_id is not null then
+      perform cron.unschedule(v_job_id);
+    end if;
+
+    perform cron.schedule(
+      'complaint_rewrite_worker_every_1m',
+      '* * * * *',
+      $cmd$ select public._cron_call_rewrite_worker(); $cmd$
+    );
+  exception
+    when undefined_table or insufficient_privilege then
+      raise notice 'Skipping pg_cron schedule: complaint rewrite worker.';
+  end;
+end
+$$;
@@ -0,0 +1,116 @@
+-- ============================================================
+-- complaint_rewrite provider adapters
+--
+-- Makes complaint_ai_providers.adapter_kind + base_url live config:
+-- 1) adapter_kind vocabulary gains anthropic_messages (+ seed row)
+-- 2) rewrite_provider_batches tracks provider/adapter_kind/base_url (no longer OpenAI-only)
+-- 3) rewrite_batch_register_v1: records provider/adapter_kind/base_url
+-- 4) rewrite_batch_list_pending_v1: returns provider/adapter_kind/base_url for polling
+-- ============================================================
+
+/* ============================================================
+   1) complaint_ai_providers adapter vocabulary
+   ============================================================ */
+alter table public.complaint_ai_providers
+  drop constraint if exists ck_complaint_ai_adapter_kind;
+
+alter table public.complaint_ai_providers
+  add constraint ck_complaint_ai_adapter_kind check (
+    adapter_kind in (
+      'openai_responses',
+      'openai_compat_responses',
+      'openai_compat_chat_completions',
+      'anthropic_messages',
+      'gemini',
+      'stub'
+    )
+  );
+
+insert into public.complaint_ai_providers (provider, adapter_kind, base_url)
+values ('anthropic', 'anthropic_messages', 'https://api.anthropic.com')
+on conflict do nothing;
+
+/* ============================================================
+   2) rewrite_provider_batches: any provider
+   ============================================================ */
+alter table public.rewrite_provider_batches
+  drop constraint if exists rewrite_provider_batches_provider_check;
+
+alter table public.rewrite_provider_batches
+  add column if not exists adapter_kind text not null default 'openai_responses',
+  add column if not exists base_url text;
+
+/* ============================================================
+   3) Register batch (service_role only)
+   ============================================================ */
+drop function if exists public.rewrite_batch_register_v1(text, text, int, text);
+
+create or replace function public.rewrite_batch_register_v1(
+  p_provider_batch_id text,
+  p_input_file_id text,
+  p_job_count int,
+  p_endpoint text default '/v1/responses',
+  p_provider text default 'openai',
+  p_adapter_kind text default 'openai_responses',
+  p_base_url text default null
+) returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  insert into public.rewrite_provider_batches(
+    provider_batch_id, provider, adapter_kind, base_url,
+    endpoint, status, input_file_id, job_count
+  ) values (
+    p_provider_batch_id,
+    coalesce(nullif(btrim(p_provider), ''), 'openai'),
+    coalesce(nullif(btrim(p_adapter_kind), ''), 'openai_responses'),
+    nullif(btrim(p_base_url), ''),
+    p_endpoint, 'submitted', p_input_file_id, coalesce(p_job_count,0)
+  )
+  on conflict (provider_batch_id)
+  do update set
+    input_file_id = excluded.input_file_id,
+    job_count = excluded.job_count,
+    status = case
+      when public.rewrite_provider_batches.status in ('completed','failed','canceled') then public.rewrite_provider_batches.status
+      else excluded.status
+    end,
+    updated_at = now();
+$$;
+
+revoke all on function public.rewrite_batch_register_v1(text, text, int, text, text, text, text) from public;
+grant execute on function public.rewrite_batch_register_v1(text, text, int, text, text, text, text) to service_role;
+
+/* ============================================================
+   4) List pending batches (service_role only)
+   ============================================================ */
+drop function if exists public.rewrite_batch_list_pending_v1(int);
+
+create or replace function public.rewrite_batch_list_pending_v1(
+  p_limit int default 20
+) returns table (
+  provider_batch_id text,
+  status text,
+  input_file_id text,
+  output_file_id text,
+  error_file_id text,
+  endpoint text,
+  provider text,
+  adapter_kind text,
+  base_url text
+)
+language sql
+security definer
+set search_path = ''
+as $$
+  select provider_batch_id, status, input_file_id, output_file_id, error_file_id, endpoint,
+         provider, adapter_kind, base_url
+  from public.rewrite_provider_batches
+  where status in ('submitted','running')
+  order by coalesce(last_checked_at, created_at) asc
+  limit p_limit;
+$$;
+
+revoke all on function public.rewrite_batch_list_pending_v1(int) from public;
+grant execute on function public.rewrite_batch_list_pending_v1(int) to service_role;
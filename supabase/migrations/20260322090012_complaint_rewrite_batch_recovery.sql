@@ -0,0 +1,122 @@
+-- ============================================================
+-- complaint_rewrite batch recovery
+--
+-- Makes requeued batch jobs eligible for resubmission and bounds retries:
+-- 1) complaint_rewrite_job_fail_or_requeue: requeue clears provider_batch_id/submitted_at
+--    (claim_rewrite_jobs_for_batch_submit_v1 skips jobs still linked to a batch)
+-- 2) rewrite_jobs_requeue_by_provider_batch_v1: honours max_attempts and returns
+--    rewrite_request_id so the collector can finalize affected requests
+-- ============================================================
+
+/* ============================================================
+   1) Fail / requeue (service_role only)
+   ============================================================ */
+create or replace function public.complaint_rewrite_job_fail_or_requeue(
+  p_job_id uuid,
+  p_error text,
+  p_backoff_seconds int default 600
+) returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_attempt int;
+  v_max int;
+  v_backoff int := greatest(30, least(coalesce(p_backoff_seconds, 600), 6*3600)); -- 30s..6h
+begin
+  select attempt_count, max_attempts
+    into v_attempt, v_max
+  from public.rewrite_jobs
+  where job_id = p_job_id;
+
+  if v_attempt is null then
+    return;
+  end if;
+
+  if v_attempt >= v_max then
+    update public.rewrite_jobs
+      set status='failed',
+          last_error=left(coalesce(p_error,'unknown'),512),
+          last_error_at=now(),
+          updated_at=now()
+    where job_id=p_job_id;
+  else
+    update public.rewrite_jobs
+      set status='queued',
+          not_before_at=now() + make_interval(secs => v_backoff),
+          last_error=left(coalesce(p_error,'unknown'),512),
+          last_error_at=now(),
+          provider_batch_id=null,
+          submitted_at=null,
+          updated_at=now()
+    where job_id=p_job_id;
+  end if;
+end;
+$$;
+
+revoke all on function public.complaint_rewrite_job_fail_or_requeue(uuid, text, int) from public;
+grant execute on function public.complaint_rewrite_job_fail_or_requeue(uuid, text, int) to service_role;
+
+/* ============================================================
+   2) Requeue jobs by provider batch (service_role only)
+   - batch_submitted jobs only (jobs with a result line are already moved)
+   - out of attempts -> failed; otherwise queued + unlinked from the batch
+   ============================================================ */
+drop function if exists public.rewrite_jobs_requeue_by_provider_batch_v1(text, text, int, int);
+
+create or replace function public.rewrite_jobs_requeue_by_provider_batch_v1(
+  p_provider_batch_id text,
+  p_reason text default 'provider_batch_missing_output_file',
+  p_backoff_seconds int default 1800,     -- 30 minutes
+  p_limit int default 500                 -- safety cap
+) returns table (
+  job_id uuid,
+  rewrite_request_id uuid,
+  prev_status text,
+  new_status text,
+  not_before_at timestamptz
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_now timestamptz := now();
+  v_not_before timestamptz := v_now + make_interval(secs => greatest(coalesce(p_backoff_seconds, 0), 0));
+  v_error text := left(coalesce(p_reason, 'requeued') || ': batch=' || p_provider_batch_id, 512);
+begin
+  if p_provider_batch_id is null or btrim(p_provider_batch_id) = '' then
+    raise exception 'p_provider_batch_id required';
+  end if;
+
+  return query
+  with target as (
+    select j.job_id, j.status as prev_status, j.attempt_count >= j.max_attempts as exhausted
+    from public.rewrite_jobs j
+    where j.provider_batch_id = p_provider_batch_id
+      and j.status = 'batch_submitted'
+    order by j.job_id
+    limit greatest(p_limit, 0)
+    for update
+  ),
+  upd as (
+    update public.rewrite_jobs j
+    set
+      status = case when t.exhausted then 'failed' else 'queued' end,
+      not_before_at = case when t.exhausted then j.not_before_at else v_not_before end,
+      last_error = v_error,
+      last_error_at = v_now,
+      updated_at = v_now,
+      provider_batch_id = case when t.exhausted then j.provider_batch_id else null end,
+      submitted_at = case when t.exhausted then j.submitted_at else null end
+    from target t
+    where j.job_id = t.job_id
+    returning j.job_id, j.rewrite_request_id, t.prev_status, j.status as new_status, j.not_before_at
+  )
+  select * from upd;
+end;
+$$;
+
+revoke all on function public.rewrite_jobs_requeue_by_provider_batch_v1(text, text, int, int) from public;
+grant execute on function public.rewrite_jobs_requeue_by_provider_batch_v1(text, text, int, int) to service_role;
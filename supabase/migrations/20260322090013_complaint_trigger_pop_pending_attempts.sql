@@ -0,0 +1,57 @@
+-- ============================================================
+-- complaint_trigger_pop_pending: return attempts
+--
+-- The runner forwards attempts to the orchestrator (trigger_attempt) so it can
+-- degrade to the rules_v1 classifier after repeated retryable classifier
+-- failures instead of stalling every trigger on 10 minute retries.
+-- RETURNS TABLE shape changes -> drop + recreate (same args, same claim semantics).
+-- ============================================================
+
+drop function if exists public.complaint_trigger_pop_pending(integer, integer);
+
+create or replace function public.complaint_trigger_pop_pending(
+  p_limit integer default 20,
+  p_max_attempts integer default 10
+)
+returns table (
+  entry_id uuid,
+  home_id uuid,
+  author_user_id uuid,
+  recipient_user_id uuid,
+  request_id uuid,
+  attempts integer
+)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_request_id uuid := gen_random_uuid();
+begin
+  return query
+  with cte as (
+    select t.entry_id
+    from public.complaint_rewrite_triggers t
+    where t.status = 'queued'
+      and t.attempts < coalesce(p_max_attempts, 10)
+      and (t.retry_after is null or t.retry_after <= now())
+    order by coalesce(t.retry_after, t.created_at), t.created_at
+    limit coalesce(p_limit, 20)
+    for update skip locked
+  )
+  update public.complaint_rewrite_triggers t
+     set status = 'processing',
+         request_id = v_request_id,
+         attempts = t.attempts + 1,
+         last_attempt_at = now(),
+         processing_started_at = now(),
+         retry_after = null,
+         processed_at = null
+    from cte
+   where t.entry_id = cte.entry_id
+  returning t.entry_id, t.home_id, t.author_user_id, t.recipient_user_id, t.request_id, t.attempts;
+end;
+$$;
+
+revoke all on function public.complaint_trigger_pop_pending(integer, integer) from public, anon, authenticated;
+grant execute on function public.complaint_trigger_pop_pending(integer, integer) to service_role;
@@ -0,0 +1,45 @@
+-- ============================================================
+-- complaint_fetch_entry_locales: return sender_locale
+--
+-- Orchestrator source_locale chain (two_lanes_async_v1 §5):
+--   classifier language (medium/high confidence) -> sender profile locale -> en
+-- sender_locale is NULL when the author has no notification_preferences.locale
+-- (unlike recipient_locale, no 'en' default here: the orchestrator owns the chain).
+-- RETURNS TABLE shape changes -> drop + recreate (same args).
+-- ============================================================
+
+drop function if exists public.complaint_fetch_entry_locales(uuid, uuid);
+
+create or replace function public.complaint_fetch_entry_locales(
+  p_entry_id uuid,
+  p_recipient_user_id uuid
+) returns table(
+  original_text text,
+  recipient_locale text,
+  sender_locale text,
+  home_id uuid,
+  author_user_id uuid,
+  recipient_user_id uuid
+)
+language sql
+security definer
+set search_path = ''
+as $$
+  select
+    coalesce(hme.comment, '') as original_text,
+    coalesce(lower(split_part(np.locale, '-', 1)), 'en') as recipient_locale,
+    nullif(lower(split_part(nps.locale, '-', 1)), '') as sender_locale,
+    hme.home_id as home_id,
+    hme.user_id as author_user_id,
+    p_recipient_user_id as recipient_user_id
+  from public.home_mood_entries hme
+  left join public.notification_preferences np
+    on np.user_id = p_recipient_user_id
+  left join public.notification_preferences nps
+    on nps.user_id = hme.user_id
+  where hme.id = p_entry_id;
+$$;
+
+revoke all on function public.complaint_fetch_entry_locales(uuid, uuid) from public;
+revoke all on function public.complaint_fetch_entry_locales(uuid, uuid) from anon, authenticated;
+grant execute on function public.complaint_fetch_entry_locales(uuid, uuid) to service_role;
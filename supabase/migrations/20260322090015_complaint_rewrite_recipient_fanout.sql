@@ -0,0 +1,188 @@
+-- ============================================================
+-- complaint_rewrite multi-recipient fan-out
+--
+-- One rewrite_request (= entry_id) may now target several recipients; the
+-- execution unit stays (rewrite_request_id, recipient_user_id):
+-- 1) rewrite_jobs.target_locale + rewrite_request: per-recipient request blob
+--    (context pack, lane and target locale differ per recipient). NULL on jobs
+--    enqueued before this migration -> request-level values apply.
+-- 2) complaint_rewrite_request_fetch_v1: optional p_recipient_user_id returns
+--    that recipient's blob + target_locale (workers pass job.recipient_user_id)
+-- 3) complaint_rewrite_enqueue_recipients_v1: enqueues every recipient in ONE
+--    transaction (wraps complaint_rewrite_enqueue), so finalize can never see a
+--    request whose later recipients are not enqueued yet
+--
+-- rewrite_requests keeps its single-recipient columns (recipient_user_id,
+-- target_locale, lane, context_pack, rewrite_request) = first recipient.
+-- ============================================================
+
+alter table public.rewrite_jobs
+  add column if not exists target_locale text;
+alter table public.rewrite_jobs
+  add column if not exists rewrite_request jsonb;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'ck_rewrite_jobs_rewrite_request_obj'
+      and conrelid = 'public.rewrite_jobs'::regclass
+  ) then
+    alter table public.rewrite_jobs
+      add constraint ck_rewrite_jobs_rewrite_request_obj
+      check (rewrite_request is null or jsonb_typeof(rewrite_request) = 'object');
+  end if;
+end $$;
+
+-- ============================================================
+-- 1) Fetch request for provider (per recipient)
+-- ============================================================
+
+drop function if exists public.complaint_rewrite_request_fetch_v1(uuid);
+
+create or replace function public.complaint_rewrite_request_fetch_v1(
+  p_rewrite_request_id uuid,
+  p_recipient_user_id uuid default null
+) returns table (
+  rewrite_request jsonb,
+  target_locale text,
+  policy_version text
+)
+language sql
+security definer
+set search_path = ''
+as $$
+  select
+    coalesce(j.rewrite_request, r.rewrite_request),
+    coalesce(j.target_locale, r.target_locale),
+    r.policy_version
+  from public.rewrite_requests r
+  left join public.rewrite_jobs j
+    on j.rewrite_request_id = r.rewrite_request_id
+   and j.recipient_user_id = p_recipient_user_id
+  where r.rewrite_request_id = p_rewrite_request_id
+  limit 1;
+$$;
+
+revoke all on function public.complaint_rewrite_request_fetch_v1(uuid, uuid) from public;
+grant execute on function public.complaint_rewrite_request_fetch_v1(uuid, uuid) to service_role;
+
+-- ============================================================
+-- 2) Fan-out enqueue (service_role only)
+--
+-- p_recipients: [{ recipient_user_id, target_locale, lane, context_pack,
+--   rewrite_request, routing_decision, language_pair, preference_payload,
+--   max_attempts }]  (1..8, distinct recipients)
+-- ============================================================
+
+create or replace function public.complaint_rewrite_enqueue_recipients_v1(
+  p_rewrite_request_id uuid,
+  p_home_id uuid,
+  p_sender_user_id uuid,
+
+  p_surface text,
+  p_original_text text,
+  p_classifier_result jsonb,
+
+  p_source_locale text,
+  p_topics jsonb,
+  p_intent text,
+  p_rewrite_strength text,
+
+  p_classifier_version text,
+  p_context_pack_version text,
+  p_policy_version text,
+
+  p_recipients jsonb
+) returns jsonb
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_recipient jsonb;
+  v_recipient_user_id uuid;
+  v_result jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_inserted_request boolean := false;
+begin
+  perform public.api_assert(
+    jsonb_typeof(p_recipients) = 'array'
+      and jsonb_array_length(p_recipients) between 1 and 8,
+    'INVALID_RECIPIENTS', 'recipients must be an array of 1..8 items.', '22023'
+  );
+  perform public.api_assert(
+    (select count(distinct e->>'recipient_user_id') from jsonb_array_elements(p_recipients) e)
+      = jsonb_array_length(p_recipients),
+    'DUPLICATE_RECIPIENT', 'recipients must be distinct.', '22023'
+  );
+
+  for v_recipient in select e from jsonb_array_elements(p_recipients) e loop
+    v_recipient_user_id := (v_recipient->>'recipient_user_id')::uuid;
+
+    v_result := public.complaint_rewrite_enqueue(
+      p_rewrite_request_id,
+      p_home_id,
+      p_sender_user_id,
+      v_recipient_user_id,
+      p_surface,
+      p_original_text,
+      v_recipient->'rewrite_request',
+      p_classifier_result,
+      v_recipient->'context_pack',
+      p_source_locale,
+      v_recipient->>'target_locale',
+      v_recipient->>'lane',
+      p_topics,
+      p_intent,
+      p_rewrite_strength,
+      p_classifier_version,
+      p_context_pack_version,
+      p_policy_version,
+      v_recipient->'routing_decision',
+      v_recipient->'language_pair',
+      v_recipient->'preference_payload',
+      coalesce((v_recipient->>'max_attempts')::int, 2)
+    );
+
+    v_inserted_request := v_inserted_request or (v_result->>'inserted_request')::boolean;
+
+    -- Per-recipient blob: only set on the insert that created the job
+    update public.rewrite_jobs j
+       set target_locale = v_recipient->>'target_locale',
+           rewrite_request = v_recipient->'rewrite_request',
+           updated_at = now()
+     where j.job_id = (v_result->>'job_id')::uuid
+       and j.rewrite_request is null;
+
+    v_results := v_results || jsonb_build_array(
+      v_result || jsonb_build_object('recipient_user_id', v_recipient_user_id)
+    );
+  end loop;
+
+  -- Target snapshot lists every recipient of this request
+  update public.recipient_snapshots rs
+     set recipient_user_ids = (
+       select array_agg(distinct u)
+       from unnest(
+         rs.recipient_user_ids
+         || array(select (e->>'recipient_user_id')::uuid from jsonb_array_elements(p_recipients) e)
+       ) u
+     )
+   where rs.rewrite_request_id = p_rewrite_request_id;
+
+  return jsonb_build_object(
+    'rewrite_request_id', p_rewrite_request_id,
+    'inserted_request', v_inserted_request,
+    'recipients', v_results
+  );
+end;
+$$;
+
+revoke all on function public.complaint_rewrite_enqueue_recipients_v1(
+  uuid, uuid, uuid, text, text, jsonb, text, jsonb, text, text, text, text, text, jsonb
+) from public, anon, authenticated;
+
+grant execute on function public.complaint_rewrite_enqueue_recipients_v1(
+  uuid, uuid, uuid, text, text, jsonb, text, jsonb, text, text, text, text, text, jsonb
+) to service_role;
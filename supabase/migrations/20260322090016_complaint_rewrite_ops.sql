@@ -0,0 +1,247 @@
+-- ============================================================
+-- complaint_rewrite ops (read side for the complaint_rewrite_ops edge function)
+--
+-- 1) complaint_rewrite_ops_trace_v1(p_entry_id): one entry end-to-end
+--    trigger -> rewrite_request -> jobs -> provider batches -> outputs
+-- 2) complaint_rewrite_ops_list_v1(p_kind, p_status, p_stuck_after_seconds, p_limit):
+--    triggers / jobs / batches in a state, oldest first
+--
+-- Read-only; repairs go through the existing marker/requeue RPCs
+-- (complaint_trigger_mark_retry, complaint_rewrite_job_fail_or_requeue,
+-- rewrite_jobs_requeue_by_provider_batch_v1).
+-- Message text (original_text, rewritten_text, request blobs) is never returned.
+-- ============================================================
+
+create or replace function public.complaint_rewrite_ops_trace_v1(
+  p_entry_id uuid
+) returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  v_trigger jsonb;
+  v_request jsonb;
+  v_jobs jsonb;
+  v_batches jsonb;
+  v_outputs jsonb;
+begin
+  perform public.api_assert(p_entry_id is not null, 'INVALID_ENTRY', 'entry_id required.', '22023');
+
+  select jsonb_build_object(
+           'status', t.status,
+           'request_id', t.request_id,
+           'attempts', t.attempts,
+           'note', t.note,
+           'error', t.error,
+           'retry_after', t.retry_after,
+           'last_attempt_at', t.last_attempt_at,
+           'last_error_at', t.last_error_at,
+           'processing_started_at', t.processing_started_at,
+           'processed_at', t.processed_at,
+           'created_at', t.created_at,
+           'updated_at', t.updated_at
+         )
+    into v_trigger
+  from public.complaint_rewrite_triggers t
+  where t.entry_id = p_entry_id;
+
+  -- rewrite_request_id = entry_id (orchestrator idempotency key)
+  select jsonb_build_object(
+           'status', r.status,
+           'surface', r.surface,
+           'source_locale', r.source_locale,
+           'target_locale', r.target_locale,
+           'lane', r.lane,
+           'topics', r.topics,
+           'intent', r.intent,
+           'rewrite_strength', r.rewrite_strength,
+           'classifier_version', r.classifier_version,
+           'context_pack_version', r.context_pack_version,
+           'policy_version', r.policy_version,
+           'rewrite_completed_at', r.rewrite_completed_at,
+           'created_at', r.created_at,
+           'updated_at', r.updated_at
+         )
+    into v_request
+  from public.rewrite_requests r
+  where r.rewrite_request_id = p_entry_id;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'job_id', j.job_id,
+           'recipient_user_id', j.recipient_user_id,
+           'status', j.status,
+           'target_locale', j.target_locale,
+           'lane', j.lane,
+           'execution_mode', j.routing_decision->>'execution_mode',
+           'provider', j.routing_decision->>'provider',
+           'model', j.routing_decision->>'model',
+           'attempt_count', j.attempt_count,
+           'max_attempts', j.max_attempts,
+           'not_before_at', j.not_before_at,
+           'last_error', j.last_error,
+           'last_error_at', j.last_error_at,
+           'provider_batch_id', j.provider_batch_id,
+           'submitted_at', j.submitted_at,
+           'created_at', j.created_at,
+           'updated_at', j.updated_at
+         ) order by j.created_at, j.job_id), '[]'::jsonb)
+    into v_jobs
+  from public.rewrite_jobs j
+  where j.rewrite_request_id = p_entry_id;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'provider_batch_id', b.provider_batch_id,
+           'provider', b.provider,
+           'adapter_kind', b.adapter_kind,
+           'status', b.status,
+           'job_count', b.job_count,
+           'output_file_id', b.output_file_id,
+           'error_file_id', b.error_file_id,
+           'last_checked_at', b.last_checked_at,
+           'created_at', b.created_at,
+           'updated_at', b.updated_at
+         ) order by b.created_at), '[]'::jsonb)
+    into v_batches
+  from public.rewrite_provider_batches b
+  where b.provider_batch_id in (
+    select j.provider_batch_id
+    from public.rewrite_jobs j
+    where j.rewrite_request_id = p_entry_id
+      and j.provider_batch_id is not null
+  );
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+           'recipient_user_id', o.recipient_user_id,
+           'output_language', o.output_language,
+           'target_locale', o.target_locale,
+           'provider', o.provider,
+           'model', o.model,
+           'prompt_version', o.prompt_version,
+           'lexicon_version', o.lexicon_version,
+           'eval_result', o.eval_result,
+           'created_at', o.created_at
+         ) order by o.created_at), '[]'::jsonb)
+    into v_outputs
+  from public.rewrite_outputs o
+  where o.rewrite_request_id = p_entry_id;
+
+  return jsonb_build_object(
+    'entry_id', p_entry_id,
+    'trigger', v_trigger,
+    'rewrite_request', v_request,
+    'jobs', v_jobs,
+    'provider_batches', v_batches,
+    'outputs', v_outputs
+  );
+end;
+$$;
+
+revoke all on function public.complaint_rewrite_ops_trace_v1(uuid) from public, anon, authenticated;
+grant execute on function public.complaint_rewrite_ops_trace_v1(uuid) to service_role;
+
+create or replace function public.complaint_rewrite_ops_list_v1(
+  p_kind text,
+  p_status text,
+  p_stuck_after_seconds int default 0,
+  p_limit int default 50
+) returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+declare
+  v_before timestamptz := now() - make_interval(secs => greatest(coalesce(p_stuck_after_seconds, 0), 0));
+  v_limit int := greatest(1, least(coalesce(p_limit, 50), 200));
+  v_rows jsonb;
+begin
+  perform public.api_assert(
+    p_kind in ('triggers', 'jobs', 'batches'),
+    'INVALID_KIND', 'kind must be triggers, jobs or batches.', '22023'
+  );
+  perform public.api_assert(
+    case p_kind
+      when 'triggers' then p_status in ('queued','processing','completed','failed','canceled')
+      when 'jobs' then p_status in ('queued','processing','batch_submitted','completed','failed','canceled')
+      else p_status in ('submitted','running','completed','failed','canceled')
+    end,
+    'INVALID_STATUS', 'status is not valid for this kind.', '22023'
+  );
+
+  if p_kind = 'triggers' then
+    select coalesce(jsonb_agg(x.item order by x.updated_at), '[]'::jsonb)
+      into v_rows
+    from (
+      select t.updated_at, jsonb_build_object(
+               'entry_id', t.entry_id,
+               'home_id', t.home_id,
+               'status', t.status,
+               'request_id', t.request_id,
+               'attempts', t.attempts,
+               'note', t.note,
+               'error', t.error,
+               'retry_after', t.retry_after,
+               'processing_started_at', t.processing_started_at,
+               'updated_at', t.updated_at
+             ) as item
+      from public.complaint_rewrite_triggers t
+      where t.status = p_status
+        and t.updated_at <= v_before
+      order by t.updated_at
+      limit v_limit
+    ) x;
+  elsif p_kind = 'jobs' then
+    select coalesce(jsonb_agg(x.item order by x.updated_at), '[]'::jsonb)
+      into v_rows
+    from (
+      select j.updated_at, jsonb_build_object(
+               'job_id', j.job_id,
+               'rewrite_request_id', j.rewrite_request_id,
+               'recipient_user_id', j.recipient_user_id,
+               'status', j.status,
+               'execution_mode', j.routing_decision->>'execution_mode',
+               'provider', j.routing_decision->>'provider',
+               'attempt_count', j.attempt_count,
+               'max_attempts', j.max_attempts,
+               'not_before_at', j.not_before_at,
+               'last_error', j.last_error,
+               'provider_batch_id', j.provider_batch_id,
+               'updated_at', j.updated_at
+             ) as item
+      from public.rewrite_jobs j
+      where j.status = p_status
+        and j.updated_at <= v_before
+      order by j.updated_at
+      limit v_limit
+    ) x;
+  else
+    select coalesce(jsonb_agg(x.item order by x.updated_at), '[]'::jsonb)
+      into v_rows
+    from (
+      select b.updated_at, jsonb_build_object(
+               'provider_batch_id', b.provider_batch_id,
+               'provider', b.provider,
+               'adapter_kind', b.adapter_kind,
+               'status', b.status,
+               'job_count', b.job_count,
+               'output_file_id', b.output_file_id,
+               'error_file_id', b.error_file_id,
+               'last_checked_at', b.last_checked_at,
+               'updated_at', b.updated_at
+             ) as item
+      from public.rewrite_provider_batches b
+      where b.status = p_status
+        and b.updated_at <= v_before
+      order by b.updated_at
+      limit v_limit
+    ) x;
+  end if;
+
+  return jsonb_build_object('kind', p_kind, 'status', p_status, 'items', v_rows);
+end;
+$$;
+
+revoke all on function public.complaint_rewrite_ops_list_v1(text, text, int, int) from public, anon, authenticated;
+grant execute on function public.complaint_rewrite_ops_list_v1(text, text, int, int) to service_role;
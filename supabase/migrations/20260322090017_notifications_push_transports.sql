@@ -0,0 +1,298 @@
+-- Notifications: pluggable push transports
+-- - device_tokens.provider routes each token to a transport: fcm | apns | webpush
+--   (apns = raw APNs device token, webpush = PushSubscription JSON {endpoint, keys{p256dh, auth}})
+-- - notifications_daily_candidates returns provider + platform so the sender can dispatch per token
+-- - notifications_sync_client_state accepts p_provider (default 'fcm'); token cap is per platform + provider
+
+-- --------------------------------------------------------------------
+-- device_tokens.provider: known transports only
+-- --------------------------------------------------------------------
+UPDATE public.device_tokens
+SET provider = 'fcm'
+WHERE provider IS NULL OR provider NOT IN ('fcm', 'apns', 'webpush');
+
+ALTER TABLE public.device_tokens
+  DROP CONSTRAINT IF EXISTS chk_device_tokens_provider;
+
+ALTER TABLE public.device_tokens
+  ADD CONSTRAINT chk_device_tokens_provider
+  CHECK (provider IN ('fcm', 'apns', 'webpush'));
+
+-- --------------------------------------------------------------------
+-- notifications_daily_candidates: add provider + platform
+-- --------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.notifications_daily_candidates(integer, integer);
+
+CREATE OR REPLACE FUNCTION public.notifications_daily_candidates(
+  p_limit  integer DEFAULT 200,
+  p_offset integer DEFAULT 0
+) RETURNS TABLE (
+  user_id    uuid,
+  locale     text,
+  timezone   text,
+  token_id   uuid,
+  token      text,
+  provider   text,
+  platform   text,
+  local_date date
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH eligible_users AS (
+    SELECT
+      np.user_id,
+      np.locale,
+      np.timezone,
+      ln.local_now::date AS local_date
+    FROM public.notification_preferences np
+    CROSS JOIN LATERAL (
+      SELECT timezone(np.timezone, now()) AS local_now
+    ) ln
+    WHERE np.wants_daily = TRUE
+      AND np.os_permission = 'allowed'
+      AND ln.local_now >=
+        date_trunc('day', ln.local_now)
+        + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
+      AND ln.local_now <=
+        date_trunc('day', ln.local_now)
+        + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
+        + interval '15 minutes'
+      AND (
+        np.last_sent_local_date IS NULL
+        OR np.last_sent_local_date < ln.local_now::date
+      )
+      AND public.today_has_content(
+        np.user_id,
+        np.timezone,
+        ln.local_now::date
+      ) = TRUE
+  ),
+  eligible_tokens AS (
+    SELECT
+      eu.user_id,
+      eu.locale,
+      eu.timezone,
+      dt.id   AS token_id,
+      dt.token,
+      dt.provider,
+      dt.platform,
+      eu.local_date
+    FROM eligible_users eu
+    JOIN public.device_tokens dt
+      ON dt.user_id = eu.user_id
+    WHERE dt.status = 'active'
+  )
+  SELECT
+    user_id,
+    locale,
+    timezone,
+    token_id,
+    token,
+    provider,
+    platform,
+    local_date
+  FROM eligible_tokens
+  ORDER BY user_id, token_id
+  LIMIT COALESCE(p_limit, 200)
+  OFFSET COALESCE(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION public.notifications_daily_candidates(
+  integer, integer
+) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.notifications_daily_candidates(
+  integer, integer
+) TO service_role;
+
+-- --------------------------------------------------------------------
+-- notifications_sync_client_state: p_provider
+-- --------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.notifications_sync_client_state(
+  text, text, text, text, text, boolean, integer, integer
+);
+
+CREATE OR REPLACE FUNCTION public.notifications_sync_client_state(
+  p_token            text,
+  p_platform         text,
+  p_locale           text,
+  p_timezone         text,
+  p_os_permission    text,          -- 'allowed' | 'blocked' | 'unknown'
+  p_wants_daily      boolean DEFAULT NULL,
+  p_preferred_hour   integer DEFAULT NULL,
+  p_preferred_minute integer DEFAULT NULL,
+  p_provider         text DEFAULT 'fcm' -- 'fcm' | 'apns' | 'webpush'
+)
+RETURNS public.notification_preferences
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id     uuid := auth.uid();
+  v_current     public.notification_preferences;
+  v_effective_wants_daily      boolean;
+  v_effective_preferred_hour   integer;
+  v_effective_preferred_minute integer;
+  v_should_upsert boolean;
+  v_max_active_per_platform integer := 2;
+  v_provider    text := COALESCE(p_provider, 'fcm');
+BEGIN
+  PERFORM public._assert_authenticated();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  END IF;
+
+  PERFORM public.api_assert(
+    v_provider IN ('fcm', 'apns', 'webpush'),
+    'INVALID_PROVIDER',
+    'provider must be fcm, apns or webpush.',
+    '22023'
+  );
+
+  SELECT *
+  INTO v_current
+  FROM public.notification_preferences
+  WHERE user_id = v_user_id;
+
+  v_effective_wants_daily :=
+    COALESCE(
+      p_wants_daily,
+      v_current.wants_daily,
+      (p_os_permission = 'allowed')
+    );
+
+  -- Force off when OS is blocked/unknown so UI toggle mirrors system status
+  IF p_os_permission IS DISTINCT FROM 'allowed' THEN
+    v_effective_wants_daily := FALSE;
+  END IF;
+
+  v_effective_preferred_hour :=
+    COALESCE(
+      p_preferred_hour,
+      v_current.preferred_hour,
+      9
+    );
+
+  v_effective_preferred_minute :=
+    COALESCE(
+      p_preferred_minute,
+      v_current.preferred_minute,
+      0
+    );
+
+  -- Upsert only when we have an explicit change, an existing row, or OS is allowed.
+  -- Do NOT upsert just because a token is present if permission is blocked/unknown.
+  v_should_upsert :=
+       v_current.user_id IS NOT NULL
+    OR p_wants_daily IS NOT NULL
+    OR p_preferred_hour IS NOT NULL
+    OR p_preferred_minute IS NOT NULL
+    OR p_os_permission = 'allowed';
+
+  IF NOT v_should_upsert THEN
+    RETURN (
+      v_user_id,
+      v_effective_wants_daily,
+      v_effective_preferred_hour,
+      COALESCE(p_timezone, 'UTC'),
+      COALESCE(p_locale, 'en'),
+      p_os_permission,
+      now(),
+      v_current.last_sent_local_date,
+      COALESCE(v_current.created_at, now()),
+      now(),
+      v_effective_preferred_minute
+    )::public.notification_preferences;
+  END IF;
+
+  INSERT INTO public.notification_preferences (
+    user_id,
+    wants_daily,
+    preferred_hour,
+    preferred_minute,
+    timezone,
+    locale,
+    os_permission,
+    last_os_sync_at,
+    last_sent_local_date,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    v_user_id,
+    v_effective_wants_daily,
+    v_effective_preferred_hour,
+    v_effective_preferred_minute,
+    p_timezone,
+    p_locale,
+    p_os_permission,
+    now(),
+    COALESCE(v_current.last_sent_local_date, NULL),
+    COALESCE(v_current.created_at, now()),
+    now()
+  )
+  ON CONFLICT (user_id) DO UPDATE
+    SET wants_daily      = EXCLUDED.wants_daily,
+        preferred_hour   = EXCLUDED.preferred_hour,
+        preferred_minute = EXCLUDED.preferred_minute,
+        timezone         = EXCLUDED.timezone,
+        locale           = EXCLUDED.locale,
+        os_permission    = EXCLUDED.os_permission,
+        last_os_sync_at  = EXCLUDED.last_os_sync_at,
+        updated_at       = EXCLUDED.updated_at
+  RETURNING * INTO v_current;
+
+  IF p_token IS NOT NULL THEN
+    INSERT INTO public.device_tokens (
+      user_id, token, provider, platform, status,
+      last_seen_at, created_at, updated_at
+    )
+    VALUES (
+      v_user_id, p_token, v_provider, p_platform, 'active',
+      now(), now(), now()
+    )
+    ON CONFLICT (token) DO UPDATE
+      SET user_id      = EXCLUDED.user_id,
+          platform     = EXCLUDED.platform,
+          provider     = EXCLUDED.provider,
+          status       = 'active',
+          last_seen_at = now(),
+          updated_at   = now();
+
+    -- Cap active tokens per platform + transport by expiring the oldest seen tokens.
+    IF p_platform IS NOT NULL THEN
+      WITH ranked AS (
+        SELECT
+          id,
+          ROW_NUMBER() OVER (
+            ORDER BY last_seen_at DESC, updated_at DESC
+          ) AS rn
+        FROM public.device_tokens
+        WHERE user_id = v_user_id
+          AND platform = p_platform
+          AND provider = v_provider
+          AND status = 'active'
+      )
+      UPDATE public.device_tokens
+      SET status = 'expired',
+          updated_at = now()
+      WHERE id IN (
+        SELECT id FROM ranked WHERE rn > v_max_active_per_platform
+      );
+    END IF;
+  END IF;
+
+  RETURN v_current;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.notifications_sync_client_state(
+  text, text, text, text, text, boolean, integer, integer, text
+) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.notifications_sync_client_state(
+  text, text, text, text, text, boolean, integer, integer, text
+) TO authenticated;
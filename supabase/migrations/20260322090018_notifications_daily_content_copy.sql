@@ -0,0 +1,261 @@
+-- Notifications: content-aware daily copy
+-- - today_content_summary(): what is waiting on Today (chores due, unread gratitude posts, expenses owed)
+-- - notifications_daily_candidates returns the summary as `content` so the sender can pick copy
+-- - notification_sends.template_id records which template was sent (reserved with the send)
+
+-- --------------------------------------------------------------------
+-- notification_sends.template_id
+-- --------------------------------------------------------------------
+ALTER TABLE public.notification_sends
+  ADD COLUMN IF NOT EXISTS template_id text;
+
+COMMENT ON COLUMN public.notification_sends.template_id IS
+  'Daily copy template id (e.g. daily_chores_due_v1); null for sends before templates.';
+
+-- --------------------------------------------------------------------
+-- Helper: today_content_summary
+-- Same impersonation pattern as today_has_content; counts instead of a boolean.
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.today_content_summary(
+  p_user_id    uuid,
+  p_timezone   text,
+  p_local_date date
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_home_id          uuid;
+  v_prev_sub         text := current_setting('request.jwt.claim.sub', true);
+  v_has_content      boolean;
+  v_chores_due       integer := 0;
+  v_gratitude_unread integer := 0;
+  v_expenses_owed    integer := 0;
+  v_expense_payer    text;
+  v_owed             jsonb;
+  v_last_read_at     timestamptz;
+  v_has_unread       boolean;
+BEGIN
+  v_has_content := public.today_has_content(p_user_id, p_timezone, p_local_date);
+
+  SELECT home_id
+  INTO v_home_id
+  FROM public.memberships
+  WHERE user_id = p_user_id
+    AND is_current = TRUE
+  LIMIT 1;
+
+  IF v_home_id IS NULL OR v_has_content IS NOT TRUE THEN
+    RETURN jsonb_build_object(
+      'has_content', COALESCE(v_has_content, FALSE),
+      'chores_due', 0,
+      'gratitude_unread', 0,
+      'expenses_owed', 0,
+      'expense_payer', NULL
+    );
+  END IF;
+
+  -- Impersonate the user for existing RPCs that rely on auth.uid()
+  PERFORM set_config('request.jwt.claim.sub', p_user_id::text, true);
+
+  SELECT count(*)::int
+  INTO v_chores_due
+  FROM public.today_flow_list(v_home_id, 'active', p_local_date);
+
+  v_owed := COALESCE(public.expenses_get_current_owed(v_home_id), '[]'::jsonb);
+  SELECT
+    COALESCE(sum(jsonb_array_length(COALESCE(o->'items', '[]'::jsonb))), 0)::int,
+    (array_agg(o->>'payerDisplay'))[1]
+  INTO v_expenses_owed, v_expense_payer
+  FROM jsonb_array_elements(v_owed) o;
+
+  SELECT s.has_unread, s.last_read_at
+  INTO v_has_unread, v_last_read_at
+  FROM public.gratitude_wall_status(v_home_id) s;
+
+  IF v_has_unread IS TRUE THEN
+    SELECT count(*)::int
+    INTO v_gratitude_unread
+    FROM public.gratitude_wall_posts p
+    WHERE p.home_id = v_home_id
+      AND p.author_user_id <> p_user_id
+      AND (v_last_read_at IS NULL OR p.created_at > v_last_read_at);
+  END IF;
+
+  -- Restore previous sub claim (best-effort)
+  PERFORM set_config('request.jwt.claim.sub', COALESCE(v_prev_sub, ''), true);
+
+  RETURN jsonb_build_object(
+    'has_content', TRUE,
+    'chores_due', v_chores_due,
+    'gratitude_unread', v_gratitude_unread,
+    'expenses_owed', v_expenses_owed,
+    -- Only ever shown to the debtor themself; no cross-user disclosure
+    'expense_payer', v_expense_payer
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION public.today_content_summary(uuid, text, date) IS
+  'Counts Today content for daily copy: active chores due, unread gratitude posts, unpaid expense splits owed.';
+
+REVOKE ALL ON FUNCTION public.today_content_summary(uuid, text, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.today_content_summary(uuid, text, date) TO service_role;
+
+-- --------------------------------------------------------------------
+-- notifications_daily_candidates: add content summary
+-- --------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.notifications_daily_candidates(integer, integer);
+
+CREATE OR REPLACE FUNCTION public.notifications_daily_candidates(
+  p_limit  integer DEFAULT 200,
+  p_offset integer DEFAULT 0
+) RETURNS TABLE (
+  user_id    uuid,
+  locale     text,
+  timezone   text,
+  token_id   uuid,
+  token      text,
+  provider   text,
+  platform   text,
+  local_date date,
+  content    jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH eligible_users AS MATERIALIZED (
+    SELECT
+      np.user_id,
+      np.locale,
+      np.timezone,
+      ln.local_now::date AS local_date
+    FROM public.notification_preferences np
+    CROSS JOIN LATERAL (
+      SELECT timezone(np.timezone, now()) AS local_now
+    ) ln
+    WHERE np.wants_daily = TRUE
+      AND np.os_permission = 'allowed'
+      AND ln.local_now >=
+        date_trunc('day', ln.local_now)
+        + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
+      AND ln.local_now <=
+        date_trunc('day', ln.local_now)
+        + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
+        + interval '15 minutes'
+      AND (
+        np.last_sent_local_date IS NULL
+        OR np.last_sent_local_date < ln.local_now::date
+      )
+      AND public.today_has_content(
+        np.user_id,
+        np.timezone,
+        ln.local_now::date
+      ) = TRUE
+  ),
+  -- One summary per user, shared by all of their tokens
+  summarized_users AS MATERIALIZED (
+    SELECT
+      eu.*,
+      public.today_content_summary(eu.user_id, eu.timezone, eu.local_date) AS content
+    FROM eligible_users eu
+  ),
+  eligible_tokens AS (
+    SELECT
+      su.user_id,
+      su.locale,
+      su.timezone,
+      dt.id   AS token_id,
+      dt.token,
+      dt.provider,
+      dt.platform,
+      su.local_date,
+      su.content
+    FROM summarized_users su
+    JOIN public.device_tokens dt
+      ON dt.user_id = su.user_id
+    WHERE dt.status = 'active'
+  )
+  SELECT
+    user_id,
+    locale,
+    timezone,
+    token_id,
+    token,
+    provider,
+    platform,
+    local_date,
+    content
+  FROM eligible_tokens
+  ORDER BY user_id, token_id
+  LIMIT COALESCE(p_limit, 200)
+  OFFSET COALESCE(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION public.notifications_daily_candidates(
+  integer, integer
+) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.notifications_daily_candidates(
+  integer, integer
+) TO service_role;
+
+-- --------------------------------------------------------------------
+-- notifications_reserve_send: record template_id
+-- --------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.notifications_reserve_send(
+  uuid, uuid, date, text
+);
+
+CREATE OR REPLACE FUNCTION public.notifications_reserve_send(
+  p_user_id     uuid,
+  p_token_id    uuid,
+  p_local_date  date,
+  p_job_run_id  text,
+  p_template_id text DEFAULT NULL
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_token_id IS NULL THEN
+    RAISE EXCEPTION 'TOKEN_REQUIRED';
+  END IF;
+
+  INSERT INTO public.notification_sends (
+    user_id,
+    token_id,
+    local_date,
+    job_run_id,
+    template_id,
+    status,
+    reserved_at
+  )
+  VALUES (
+    p_user_id,
+    p_token_id,
+    p_local_date,
+    p_job_run_id,
+    p_template_id,
+    'reserved',
+    now()
+  )
+  ON CONFLICT (token_id, local_date) DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.notifications_reserve_send(
+  uuid, uuid, date, text, text
+) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.notifications_reserve_send(
+  uuid, uuid, date, text, text
+) TO service_role;
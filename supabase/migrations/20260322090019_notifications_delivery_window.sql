@@ -0,0 +1,475 @@
+-- Notifications: per-user delivery window, quiet hours and frequency cap input
+-- - notification_preferences.send_window_minutes: how long after the preferred time a send may go out
+--   (default 60 so an hourly scheduler still reaches every user's own preferred time)
+-- - notification_preferences.quiet_hours_start/end: local [start, end) with no sends (may wrap midnight);
+--   a preferred time inside quiet hours is deferred to quiet_hours_end
+-- - notifications_delivery_due(): pure timing rule used by the candidate query
+-- - notifications_daily_candidates returns recent_sends (sent notifications in the cap window)
+--   so the sender can enforce a rolling frequency cap across notification kinds
+-- - notifications_update_delivery_window(): client RPC for the new preferences
+-- - notifications_sync_client_state: the no-upsert branch returns a complete row (the
+--   positional row cast broke once the new columns were added)
+
+-- --------------------------------------------------------------------
+-- notification_preferences: window + quiet hours
+-- --------------------------------------------------------------------
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS send_window_minutes integer NOT NULL DEFAULT 60,
+  ADD COLUMN IF NOT EXISTS quiet_hours_start   time,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end     time;
+
+ALTER TABLE public.notification_preferences
+  DROP CONSTRAINT IF EXISTS chk_notification_preferences_send_window,
+  ADD CONSTRAINT chk_notification_preferences_send_window
+    CHECK (send_window_minutes BETWEEN 15 AND 720);
+
+ALTER TABLE public.notification_preferences
+  DROP CONSTRAINT IF EXISTS chk_notification_preferences_quiet_hours,
+  ADD CONSTRAINT chk_notification_preferences_quiet_hours
+    CHECK (
+      (quiet_hours_start IS NULL AND quiet_hours_end IS NULL)
+      OR (
+        quiet_hours_start IS NOT NULL
+        AND quiet_hours_end IS NOT NULL
+        AND quiet_hours_start <> quiet_hours_end
+      )
+    );
+
+-- Rolling frequency cap counts a user's recent sends
+CREATE INDEX IF NOT EXISTS idx_notification_sends_user_sent_at
+  ON public.notification_sends (user_id, sent_at)
+  WHERE status = 'sent';
+
+-- --------------------------------------------------------------------
+-- Helpers: _notifications_in_quiet_hours + notifications_delivery_due
+-- Window starts at the preferred time (or quiet_hours_end when the preferred time is quiet),
+-- lasts send_window_minutes, and never overlaps quiet hours.
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public._notifications_in_quiet_hours(
+  p_time  time,
+  p_start time,
+  p_end   time
+) RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN p_start < p_end THEN p_time >= p_start AND p_time < p_end
+    -- Wraps midnight, e.g. 22:00 -> 07:00
+    ELSE p_time >= p_start OR p_time < p_end
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notifications_delivery_due(
+  p_local_now           timestamp,
+  p_preferred_hour      integer,
+  p_preferred_minute    integer,
+  p_send_window_minutes integer,
+  p_quiet_hours_start   time DEFAULT NULL,
+  p_quiet_hours_end     time DEFAULT NULL
+) RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_now_time   time := p_local_now::time;
+  v_preferred  time := make_time(p_preferred_hour, p_preferred_minute, 0);
+  v_start      time := v_preferred;
+  v_has_quiet  boolean := p_quiet_hours_start IS NOT NULL AND p_quiet_hours_end IS NOT NULL;
+BEGIN
+  IF v_has_quiet AND public._notifications_in_quiet_hours(
+    v_preferred, p_quiet_hours_start, p_quiet_hours_end
+  ) THEN
+    v_start := p_quiet_hours_end;
+  END IF;
+
+  IF v_has_quiet AND public._notifications_in_quiet_hours(
+    v_now_time, p_quiet_hours_start, p_quiet_hours_end
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Compare on the local day so a window never spills into the next local_date
+  RETURN p_local_now >= date_trunc('day', p_local_now) + v_start
+     AND p_local_now <= date_trunc('day', p_local_now) + v_start
+                        + make_interval(mins => COALESCE(p_send_window_minutes, 60));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public._notifications_in_quiet_hours(time, time, time)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public._notifications_in_quiet_hours(time, time, time)
+  TO service_role;
+
+REVOKE ALL ON FUNCTION public.notifications_delivery_due(
+  timestamp, integer, integer, integer, time, time
+) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notifications_delivery_due(
+  timestamp, integer, integer, integer, time, time
+) TO service_role;
+
+-- --------------------------------------------------------------------
+-- notifications_daily_candidates: per-user window + recent_sends
+-- --------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.notifications_daily_candidates(integer, integer);
+
+CREATE OR REPLACE FUNCTION public.notifications_daily_candidates(
+  p_limit            integer DEFAULT 200,
+  p_offset           integer DEFAULT 0,
+  p_cap_window_hours integer DEFAULT 24
+) RETURNS TABLE (
+  user_id      uuid,
+  locale       text,
+  timezone     text,
+  token_id     uuid,
+  token        text,
+  provider     text,
+  platform     text,
+  local_date   date,
+  content      jsonb,
+  recent_sends integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH eligible_users AS MATERIALIZED (
+    SELECT
+      np.user_id,
+      np.locale,
+      np.timezone,
+      ln.local_now::date AS local_date
+    FROM public.notification_preferences np
+    CROSS JOIN LATERAL (
+      SELECT timezone(np.timezone, now()) AS local_now
+    ) ln
+    WHERE np.wants_daily = TRUE
+      AND np.os_permission = 'allowed'
+      -- Outside the window / in quiet hours: not returned now, picked up by a later run
+      AND public.notifications_delivery_due(
+        ln.local_now,
+        np.preferred_hour,
+        np.preferred_minute,
+        np.send_window_minutes,
+        np.quiet_hours_start,
+        np.quiet_hours_end
+      )
+      AND (
+        np.last_sent_local_date IS NULL
+        OR np.last_sent_local_date < ln.local_now::date
+      )
+      AND public.today_has_content(
+        np.user_id,
+        np.timezone,
+        ln.local_now::date
+      ) = TRUE
+  ),
+  -- One summary per user, shared by all of their tokens
+  summarized_users AS MATERIALIZED (
+    SELECT
+      eu.*,
+      public.today_content_summary(eu.user_id, eu.timezone, eu.local_date) AS content,
+      (
+        -- One notification fanned out to several devices in a run counts once
+        SELECT count(DISTINCT COALESCE(ns.job_run_id, ns.id::text))::int
+        FROM public.notification_sends ns
+        WHERE ns.user_id = eu.user_id
+          AND ns.status = 'sent'
+          AND ns.sent_at >= now() - make_interval(hours => COALESCE(p_cap_window_hours, 24))
+      ) AS recent_sends
+    FROM eligible_users eu
+  ),
+  eligible_tokens AS (
+    SELECT
+      su.user_id,
+      su.locale,
+      su.timezone,
+      dt.id   AS token_id,
+      dt.token,
+      dt.provider,
+      dt.platform,
+      su.local_date,
+      su.content,
+      su.recent_sends
+    FROM summarized_users su
+    JOIN public.device_tokens dt
+      ON dt.user_id = su.user_id
+    WHERE dt.status = 'active'
+  )
+  SELECT
+    user_id,
+    locale,
+    timezone,
+    token_id,
+    token,
+    provider,
+    platform,
+    local_date,
+    content,
+    recent_sends
+  FROM eligible_tokens
+  ORDER BY user_id, token_id
+  LIMIT COALESCE(p_limit, 200)
+  OFFSET COALESCE(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION public.notifications_daily_candidates(
+  integer, integer, integer
+) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.notifications_daily_candidates(
+  integer, integer, integer
+) TO service_role;
+
+-- --------------------------------------------------------------------
+-- Client RPC: notifications_update_delivery_window
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.notifications_update_delivery_window(
+  p_send_window_minutes integer,
+  p_quiet_hours_start   time DEFAULT NULL,
+  p_quiet_hours_end     time DEFAULT NULL
+)
+RETURNS public.notification_preferences
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pref    public.notification_preferences;
+BEGIN
+  PERFORM public._assert_authenticated();
+
+  PERFORM public.api_assert(
+    p_send_window_minutes BETWEEN 15 AND 720,
+    'INVALID_SEND_WINDOW',
+    'Send window must be between 15 and 720 minutes.',
+    '22023'
+  );
+  PERFORM public.api_assert(
+    (p_quiet_hours_start IS NULL AND p_quiet_hours_end IS NULL)
+      OR (
+        p_quiet_hours_start IS NOT NULL
+        AND p_quiet_hours_end IS NOT NULL
+        AND p_quiet_hours_start <> p_quiet_hours_end
+      ),
+    'INVALID_QUIET_HOURS',
+    'Quiet hours need both a distinct start and end, or neither.',
+    '22023'
+  );
+
+  UPDATE public.notification_preferences
+     SET send_window_minutes = p_send_window_minutes,
+         quiet_hours_start   = p_quiet_hours_start,
+         quiet_hours_end     = p_quiet_hours_end,
+         updated_at          = now()
+   WHERE user_id = v_user_id
+  RETURNING * INTO v_pref;
+
+  PERFORM public.api_assert(
+    v_pref.user_id IS NOT NULL,
+    'PREFERENCES_NOT_FOUND',
+    'Notification preferences have not been set up yet.',
+    'P0001'
+  );
+
+  RETURN v_pref;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.notifications_update_delivery_window(
+  integer, time, time
+) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.notifications_update_delivery_window(
+  integer, time, time
+) TO authenticated;
+
+-- --------------------------------------------------------------------
+-- notifications_sync_client_state: full row on the no-upsert path
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.notifications_sync_client_state(
+  p_token            text,
+  p_platform         text,
+  p_locale           text,
+  p_timezone         text,
+  p_os_permission    text,          -- 'allowed' | 'blocked' | 'unknown'
+  p_wants_daily      boolean DEFAULT NULL,
+  p_preferred_hour   integer DEFAULT NULL,
+  p_preferred_minute integer DEFAULT NULL,
+  p_provider         text DEFAULT 'fcm' -- 'fcm' | 'apns' | 'webpush'
+)
+RETURNS public.notification_preferences
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id     uuid := auth.uid();
+  v_current     public.notification_preferences;
+  v_effective_wants_daily      boolean;
+  v_effective_preferred_hour   integer;
+  v_effective_preferred_minute integer;
+  v_should_upsert boolean;
+  v_max_active_per_platform integer := 2;
+  v_provider    text := COALESCE(p_provider, 'fcm');
+BEGIN
+  PERFORM public._assert_authenticated();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_AUTHENTICATED';
+  END IF;
+
+  PERFORM public.api_assert(
+    v_provider IN ('fcm', 'apns', 'webpush'),
+    'INVALID_PROVIDER',
+    'provider must be fcm, apns or webpush.',
+    '22023'
+  );
+
+  SELECT *
+  INTO v_current
+  FROM public.notification_preferences
+  WHERE user_id = v_user_id;
+
+  v_effective_wants_daily :=
+    COALESCE(
+      p_wants_daily,
+      v_current.wants_daily,
+      (p_os_permission = 'allowed')
+    );
+
+  -- Force off when OS is blocked/unknown so UI toggle mirrors system status
+  IF p_os_permission IS DISTINCT FROM 'allowed' THEN
+    v_effective_wants_daily := FALSE;
+  END IF;
+
+  v_effective_preferred_hour :=
+    COALESCE(
+      p_preferred_hour,
+      v_current.preferred_hour,
+      9
+    );
+
+  v_effective_preferred_minute :=
+    COALESCE(
+      p_preferred_minute,
+      v_current.preferred_minute,
+      0
+    );
+
+  -- Upsert only when we have an explicit change, an existing row, or OS is allowed.
+  -- Do NOT upsert just because a token is present if permission is blocked/unknown.
+  v_should_upsert :=
+       v_current.user_id IS NOT NULL
+    OR p_wants_daily IS NOT NULL
+    OR p_preferred_hour IS NOT NULL
+    OR p_preferred_minute IS NOT NULL
+    OR p_os_permission = 'allowed';
+
+  -- No row exists on this path: echo an unsaved default row field by field so
+  -- the result keeps its shape as columns are added to notification_preferences.
+  IF NOT v_should_upsert THEN
+    v_current.user_id             := v_user_id;
+    v_current.wants_daily         := v_effective_wants_daily;
+    v_current.preferred_hour      := v_effective_preferred_hour;
+    v_current.preferred_minute    := v_effective_preferred_minute;
+    v_current.timezone            := COALESCE(p_timezone, 'UTC');
+    v_current.locale              := COALESCE(p_locale, 'en');
+    v_current.os_permission       := p_os_permission;
+    v_current.last_os_sync_at     := now();
+    v_current.created_at          := now();
+    v_current.updated_at          := now();
+    v_current.send_window_minutes := 60;
+    RETURN v_current;
+  END IF;
+
+  INSERT INTO public.notification_preferences (
+    user_id,
+    wants_daily,
+    preferred_hour,
+    preferred_minute,
+    timezone,
+    locale,
+    os_permission,
+    last_os_sync_at,
+    last_sent_local_date,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    v_user_id,
+    v_effective_wants_daily,
+    v_effective_preferred_hour,
+    v_effective_preferred_minute,
+    p_timezone,
+    p_locale,
+    p_os_permission,
+    now(),
+    COALESCE(v_current.last_sent_local_date, NULL),
+    COALESCE(v_current.created_at, now()),
+    now()
+  )
+  ON CONFLICT (user_id) DO UPDATE
+    SET wants_daily      = EXCLUDED.wants_daily,
+        preferred_hour   = EXCLUDED.preferred_hour,
+        preferred_minute = EXCLUDED.preferred_minute,
+        timezone         = EXCLUDED.timezone,
+        locale           = EXCLUDED.locale,
+        os_permission    = EXCLUDED.os_permission,
+        last_os_sync_at  = EXCLUDED.last_os_sync_at,
+        updated_at       = EXCLUDED.updated_at
+  RETURNING * INTO v_current;
+
+  IF p_token IS NOT NULL THEN
+    INSERT INTO public.device_tokens (
+      user_id, token, provider, platform, status,
+      last_seen_at, created_at, updated_at
+    )
+    VALUES (
+      v_user_id, p_token, v_provider, p_platform, 'active',
+      now(), now(), now()
+    )
+    ON CONFLICT (token) DO UPDATE
+      SET user_id      = EXCLUDED.user_id,
+          platform     = EXCLUDED.platform,
+          provider     = EXCLUDED.provider,
+          status       = 'active',
+          last_seen_at = now(),
+          updated_at   = now();
+
+    -- Cap active tokens per platform + transport by expiring the oldest seen tokens.
+    IF p_platform IS NOT NULL THEN
+      WITH ranked AS (
+        SELECT
+          id,
+          ROW_NUMBER() OVER (
+            ORDER BY last_seen_at DESC, updated_at DESC
+          ) AS rn
+        FROM public.device_tokens
+        WHERE user_id = v_user_id
+          AND platform = p_platform
+          AND provider = v_provider
+          AND status = 'active'
+      )
+      UPDATE public.device_tokens
+      SET status = 'expired',
+          updated_at = now()
+      WHERE id IN (
+        SELECT id FROM ranked WHERE rn > v_max_active_per_platform
+      );
+    END IF;
+  END IF;
+
+  RETURN v_current;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.notifications_sync_client_state(
+  text, text, text, text, text, boolean, integer, integer, text
+) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION public.notifications_sync_client_state(
+  text, text, text, text, text, boolean, integer, integer, text
+) TO authenticated;
@@ -0,0 +1,752 @@
+-- Notifications: multi-kind event dispatcher
+-- - notification_events: outbox of push-worthy product events (one row per recipient, deduped)
+-- - Emitters (AFTER triggers): chore assigned, expense share owed, gratitude mention, weekly house pulse
+-- - notification_preferences.disabled_kinds: per-kind opt-outs (+ notifications_set_kind_enabled RPC)
+-- - notification_sends gains kind + event_id; event sends are unique per (token_id, event_id),
+--   daily sends stay unique per (token_id, local_date)
+-- - Dispatcher RPCs (service_role): notifications_events_claim, notifications_reserve_event_send,
+--   notifications_mark_event_send_success, notifications_events_complete
+-- - notifications_daily_candidates.recent_sends counts event sends individually for the frequency cap
+
+-- --------------------------------------------------------------------
+-- notification_events (outbox)
+-- --------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.notification_events (
+  id                uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind              text NOT NULL,
+  recipient_user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  home_id           uuid REFERENCES public.homes(id) ON DELETE CASCADE,
+  actor_user_id     uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  payload           jsonb NOT NULL DEFAULT '{}'::jsonb,
+  dedupe_key        text NOT NULL,
+  status            text NOT NULL DEFAULT 'pending', -- pending | processing | sent | skipped | failed
+  attempts          integer NOT NULL DEFAULT 0,
+  error             text,
+  claimed_at        timestamptz,
+  processed_at      timestamptz,
+  created_at        timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT uq_notification_events_dedupe_key UNIQUE (dedupe_key),
+  CONSTRAINT chk_notification_events_kind CHECK (
+    kind IN ('chore_assigned', 'expense_owed', 'gratitude_mention', 'house_pulse_weekly')
+  ),
+  CONSTRAINT chk_notification_events_status CHECK (
+    status IN ('pending', 'processing', 'sent', 'skipped', 'failed')
+  )
+);
+
+COMMENT ON TABLE public.notification_events IS
+  'Outbox of push-worthy events, one row per recipient. Written by emitter triggers, drained by the notifications_dispatch Edge Function.';
+COMMENT ON COLUMN public.notification_events.dedupe_key IS
+  'Stable per (kind, source row, recipient); re-emits of the same event are ignored.';
+COMMENT ON COLUMN public.notification_events.payload IS
+  'Kind-specific render data (ids + display strings captured at emit time).';
+
+CREATE INDEX IF NOT EXISTS idx_notification_events_open
+  ON public.notification_events (status, created_at)
+  WHERE status IN ('pending', 'processing');
+
+ALTER TABLE public.notification_events ENABLE ROW LEVEL SECURITY;
+-- No policies: only SECURITY DEFINER functions and service_role touch the outbox
+
+-- --------------------------------------------------------------------
+-- notification_preferences.disabled_kinds
+-- --------------------------------------------------------------------
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS disabled_kinds text[] NOT NULL DEFAULT '{}'::text[];
+
+ALTER TABLE public.notification_preferences
+  DROP CONSTRAINT IF EXISTS chk_notification_preferences_disabled_kinds,
+  ADD CONSTRAINT chk_notification_preferences_disabled_kinds
+    CHECK (
+      disabled_kinds <@ ARRAY[
+        'chore_assigned', 'expense_owed', 'gratitude_mention', 'house_pulse_weekly'
+      ]::text[]
+    );
+
+-- --------------------------------------------------------------------
+-- notification_sends: kind + event_id
+-- --------------------------------------------------------------------
+ALTER TABLE public.notification_sends
+  ADD COLUMN IF NOT EXISTS kind     text NOT NULL DEFAULT 'daily',
+  ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES public.notification_events(id) ON DELETE CASCADE;
+
+DROP INDEX IF EXISTS uq_notification_sends_token_date;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_notification_sends_token_date
+  ON public.notification_sends (token_id, local_date)
+  WHERE event_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_notification_sends_token_event
+  ON public.notification_sends (token_id, event_id)
+  WHERE event_id IS NOT NULL;
+
+-- --------------------------------------------------------------------
+-- notifications_reserve_send: target the daily (event_id IS NULL) index
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.notifications_reserve_send(
+  p_user_id     uuid,
+  p_token_id    uuid,
+  p_local_date  date,
+  p_job_run_id  text,
+  p_template_id text DEFAULT NULL
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF p_token_id IS NULL THEN
+    RAISE EXCEPTION 'TOKEN_REQUIRED';
+  END IF;
+
+  INSERT INTO public.notification_sends (
+    user_id,
+    token_id,
+    local_date,
+    job_run_id,
+    template_id,
+    status,
+    reserved_at
+  )
+  VALUES (
+    p_user_id,
+    p_token_id,
+    p_local_date,
+    p_job_run_id,
+    p_template_id,
+    'reserved',
+    now()
+  )
+  ON CONFLICT (token_id, local_date) WHERE event_id IS NULL DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- Emitters
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public._notification_event_enqueue(
+  p_kind       text,
+  p_recipient  uuid,
+  p_home_id    uuid,
+  p_actor      uuid,
+  p_payload    jsonb,
+  p_dedupe_key text
+) RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  INSERT INTO public.notification_events (
+    kind, recipient_user_id, home_id, actor_user_id, payload, dedupe_key
+  )
+  SELECT p_kind, p_recipient, p_home_id, p_actor, COALESCE(p_payload, '{}'::jsonb), p_dedupe_key
+  -- Nobody is pushed about their own action
+  WHERE p_recipient IS NOT NULL
+    AND p_recipient IS DISTINCT FROM p_actor
+  ON CONFLICT (dedupe_key) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION public._notification_display_name(
+  p_user_id uuid
+) RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  -- Never fall back to email: the name ends up on a lock screen
+  SELECT NULLIF(btrim(COALESCE(p.username, p.full_name)), '')
+  FROM public.profiles p
+  WHERE p.id = p_user_id;
+$$;
+
+-- Chore assigned: active chore gets (or changes) an assignee
+CREATE OR REPLACE FUNCTION public.notification_events_chore_assigned_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_actor uuid := COALESCE(auth.uid(), NEW.created_by_user_id);
+BEGIN
+  IF NEW.state <> 'active' OR NEW.assignee_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.state = 'active'
+     AND OLD.assignee_user_id IS NOT DISTINCT FROM NEW.assignee_user_id THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public._notification_event_enqueue(
+    'chore_assigned',
+    NEW.assignee_user_id,
+    NEW.home_id,
+    v_actor,
+    jsonb_build_object(
+      'chore_id',   NEW.id,
+      'chore_name', NEW.name,
+      'actor_name', public._notification_display_name(v_actor)
+    ),
+    format('chore_assigned:%s:%s', NEW.id, NEW.assignee_user_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notification_events_chore_assigned ON public.chores;
+CREATE TRIGGER trg_notification_events_chore_assigned
+AFTER INSERT OR UPDATE OF state, assignee_user_id ON public.chores
+FOR EACH ROW EXECUTE FUNCTION public.notification_events_chore_assigned_trigger();
+
+-- Expense owed: unpaid share on an active expense (splits are written after the expense goes active)
+CREATE OR REPLACE FUNCTION public.notification_events_expense_owed_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_expense public.expenses;
+BEGIN
+  IF NEW.status <> 'unpaid' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_expense
+  FROM public.expenses e
+  WHERE e.id = NEW.expense_id;
+
+  IF v_expense.id IS NULL OR v_expense.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public._notification_event_enqueue(
+    'expense_owed',
+    NEW.debtor_user_id,
+    v_expense.home_id,
+    v_expense.created_by_user_id,
+    jsonb_build_object(
+      'expense_id',   v_expense.id,
+      'description',  v_expense.description,
+      'amount_cents', NEW.amount_cents,
+      'payer_name',   public._notification_display_name(v_expense.created_by_user_id)
+    ),
+    format('expense_owed:%s:%s', v_expense.id, NEW.debtor_user_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notification_events_expense_owed ON public.expense_splits;
+CREATE TRIGGER trg_notification_events_expense_owed
+AFTER INSERT ON public.expense_splits
+FOR EACH ROW EXECUTE FUNCTION public.notification_events_expense_owed_trigger();
+
+-- Gratitude mention
+CREATE OR REPLACE FUNCTION public.notification_events_gratitude_mention_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_author uuid;
+BEGIN
+  SELECT p.author_user_id INTO v_author
+  FROM public.gratitude_wall_posts p
+  WHERE p.id = NEW.post_id;
+
+  PERFORM public._notification_event_enqueue(
+    'gratitude_mention',
+    NEW.mentioned_user_id,
+    NEW.home_id,
+    v_author,
+    jsonb_build_object(
+      'post_id',     NEW.post_id,
+      'author_name', public._notification_display_name(v_author)
+    ),
+    format('gratitude_mention:%s:%s', NEW.post_id, NEW.mentioned_user_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notification_events_gratitude_mention ON public.gratitude_wall_mentions;
+CREATE TRIGGER trg_notification_events_gratitude_mention
+AFTER INSERT ON public.gratitude_wall_mentions
+FOR EACH ROW EXECUTE FUNCTION public.notification_events_gratitude_mention_trigger();
+
+-- House pulse: first computation of a week notifies every current member
+CREATE OR REPLACE FUNCTION public.notification_events_house_pulse_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_member uuid;
+BEGIN
+  FOR v_member IN
+    SELECT m.user_id
+    FROM public.memberships m
+    WHERE m.home_id = NEW.home_id
+      AND m.is_current = TRUE
+  LOOP
+    PERFORM public._notification_event_enqueue(
+      'house_pulse_weekly',
+      v_member,
+      NEW.home_id,
+      NULL,
+      jsonb_build_object(
+        'iso_week_year', NEW.iso_week_year,
+        'iso_week',      NEW.iso_week,
+        'pulse_state',   NEW.pulse_state
+      ),
+      format(
+        'house_pulse_weekly:%s:%s-W%s:%s',
+        NEW.home_id, NEW.iso_week_year, NEW.iso_week, v_member
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notification_events_house_pulse ON public.house_pulse_weekly;
+CREATE TRIGGER trg_notification_events_house_pulse
+AFTER INSERT ON public.house_pulse_weekly
+FOR EACH ROW EXECUTE FUNCTION public.notification_events_house_pulse_trigger();
+
+-- --------------------------------------------------------------------
+-- Client RPC: notifications_set_kind_enabled
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.notifications_set_kind_enabled(
+  p_kind    text,
+  p_enabled boolean
+)
+RETURNS public.notification_preferences
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pref    public.notification_preferences;
+BEGIN
+  PERFORM public._assert_authenticated();
+
+  PERFORM public.api_assert(
+    p_kind IN ('chore_assigned', 'expense_owed', 'gratitude_mention', 'house_pulse_weekly'),
+    'INVALID_NOTIFICATION_KIND',
+    'Unknown notification kind.',
+    '22023',
+    jsonb_build_object('kind', p_kind)
+  );
+  PERFORM public.api_assert(
+    p_enabled IS NOT NULL,
+    'INVALID_ENABLED',
+    'Enabled flag is required.',
+    '22023'
+  );
+
+  UPDATE public.notification_preferences
+     SET disabled_kinds = CASE
+           WHEN p_enabled THEN array_remove(disabled_kinds, p_kind)
+           WHEN p_kind = ANY (disabled_kinds) THEN disabled_kinds
+           ELSE array_append(disabled_kinds, p_kind)
+         END,
+         updated_at = now()
+   WHERE user_id = v_user_id
+  RETURNING * INTO v_pref;
+
+  PERFORM public.api_assert(
+    v_pref.user_id IS NOT NULL,
+    'PREFERENCES_NOT_FOUND',
+    'Notification preferences have not been set up yet.',
+    'P0001'
+  );
+
+  RETURN v_pref;
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- Dispatcher RPCs (service_role)
+-- --------------------------------------------------------------------
+
+-- Settles undeliverable pending events, then claims a page. Recipients in quiet hours stay
+-- pending (deferred); stale processing claims (crashed runs) are reclaimed.
+CREATE OR REPLACE FUNCTION public.notifications_events_claim(
+  p_limit               integer DEFAULT 100,
+  p_cap_window_hours    integer DEFAULT 24,
+  p_stale_claim_minutes integer DEFAULT 15
+) RETURNS TABLE (
+  event_id          uuid,
+  kind              text,
+  recipient_user_id uuid,
+  home_id           uuid,
+  payload           jsonb,
+  attempts          integer,
+  locale            text,
+  local_date        date,
+  recent_sends      integer,
+  tokens            jsonb
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH undeliverable AS (
+    SELECT
+      e.id,
+      CASE
+        WHEN np.user_id IS NULL THEN 'no_preferences'
+        WHEN np.os_permission <> 'allowed' THEN 'os_permission'
+        WHEN e.kind = ANY (np.disabled_kinds) THEN 'opted_out'
+        WHEN NOT EXISTS (
+          SELECT 1
+          FROM public.device_tokens dt
+          WHERE dt.user_id = e.recipient_user_id
+            AND dt.status = 'active'
+        ) THEN 'no_active_token'
+      END AS reason
+    FROM public.notification_events e
+    LEFT JOIN public.notification_preferences np
+      ON np.user_id = e.recipient_user_id
+    WHERE e.status = 'pending'
+  )
+  UPDATE public.notification_events e
+     SET status       = 'skipped',
+         error        = u.reason,
+         processed_at = now()
+    FROM undeliverable u
+   WHERE e.id = u.id
+     AND u.reason IS NOT NULL;
+
+  WITH picked AS (
+    SELECT e.id
+    FROM public.notification_events e
+    JOIN public.notification_preferences np
+      ON np.user_id = e.recipient_user_id
+    WHERE (
+        e.status = 'pending'
+        OR (
+          e.status = 'processing'
+          AND e.claimed_at < now() - make_interval(mins => COALESCE(p_stale_claim_minutes, 15))
+        )
+      )
+      AND NOT (
+        np.quiet_hours_start IS NOT NULL
+        AND np.quiet_hours_end IS NOT NULL
+        AND public._notifications_in_quiet_hours(
+          timezone(np.timezone, now())::time,
+          np.quiet_hours_start,
+          np.quiet_hours_end
+        )
+      )
+    ORDER BY e.created_at
+    LIMIT COALESCE(p_limit, 100)
+    FOR UPDATE OF e SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE public.notification_events e
+       SET status     = 'processing',
+           claimed_at = now(),
+           attempts   = e.attempts + 1
+      FROM picked
+     WHERE e.id = picked.id
+    RETURNING e.*
+  )
+  SELECT
+    c.id,
+    c.kind,
+    c.recipient_user_id,
+    c.home_id,
+    c.payload,
+    c.attempts,
+    np.locale,
+    timezone(np.timezone, now())::date,
+    (
+      SELECT count(DISTINCT COALESCE(ns.event_id::text, ns.job_run_id, ns.id::text))::int
+      FROM public.notification_sends ns
+      WHERE ns.user_id = c.recipient_user_id
+        AND ns.status = 'sent'
+        AND ns.sent_at >= now() - make_interval(hours => COALESCE(p_cap_window_hours, 24))
+    ),
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'token_id', dt.id,
+            'token',    dt.token,
+            'provider', dt.provider,
+            'platform', dt.platform
+          )
+          ORDER BY dt.id
+        )
+        FROM public.device_tokens dt
+        WHERE dt.user_id = c.recipient_user_id
+          AND dt.status = 'active'
+      ),
+      '[]'::jsonb
+    )
+  FROM claimed c
+  JOIN public.notification_preferences np
+    ON np.user_id = c.recipient_user_id
+  ORDER BY c.created_at;
+$$;
+
+-- Returns the send id, or NULL when this device already has (or had) the event in flight
+CREATE OR REPLACE FUNCTION public.notifications_reserve_event_send(
+  p_event_id    uuid,
+  p_token_id    uuid,
+  p_local_date  date,
+  p_job_run_id  text,
+  p_template_id text DEFAULT NULL
+) RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_event public.notification_events;
+  v_id    uuid;
+BEGIN
+  IF p_token_id IS NULL THEN
+    RAISE EXCEPTION 'TOKEN_REQUIRED';
+  END IF;
+
+  SELECT * INTO v_event
+  FROM public.notification_events e
+  WHERE e.id = p_event_id;
+
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'EVENT_NOT_FOUND';
+  END IF;
+
+  INSERT INTO public.notification_sends (
+    user_id,
+    token_id,
+    local_date,
+    job_run_id,
+    template_id,
+    kind,
+    event_id,
+    status,
+    reserved_at
+  )
+  VALUES (
+    v_event.recipient_user_id,
+    p_token_id,
+    p_local_date,
+    p_job_run_id,
+    p_template_id,
+    v_event.kind,
+    v_event.id,
+    'reserved',
+    now()
+  )
+  ON CONFLICT (token_id, event_id) WHERE event_id IS NOT NULL DO UPDATE
+    -- A retried event may re-send to devices whose earlier attempt failed;
+    -- reserved/sent rows are never re-reserved (no double push)
+    SET status      = 'reserved',
+        job_run_id  = EXCLUDED.job_run_id,
+        template_id = EXCLUDED.template_id,
+        error       = NULL,
+        reserved_at = now(),
+        updated_at  = now()
+    WHERE public.notification_sends.status = 'failed'
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Unlike notifications_mark_send_success, does not touch last_sent_local_date (daily-only)
+CREATE OR REPLACE FUNCTION public.notifications_mark_event_send_success(
+  p_send_id uuid
+) RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  UPDATE public.notification_sends
+     SET status     = 'sent',
+         sent_at    = now(),
+         updated_at = now()
+   WHERE id = p_send_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notifications_events_complete(
+  p_event_id uuid,
+  p_status   text, -- 'sent' | 'skipped' | 'failed' | 'pending' (retry)
+  p_error    text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_status NOT IN ('sent', 'skipped', 'failed', 'pending') THEN
+    RAISE EXCEPTION 'INVALID_STATUS';
+  END IF;
+
+  UPDATE public.notification_events
+     SET status       = p_status,
+         error        = p_error,
+         claimed_at   = CASE WHEN p_status = 'pending' THEN NULL ELSE claimed_at END,
+         processed_at = CASE WHEN p_status = 'pending' THEN NULL ELSE now() END
+   WHERE id = p_event_id
+     AND status = 'processing';
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- notifications_daily_candidates: recent_sends counts each event send
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.notifications_daily_candidates(
+  p_limit            integer DEFAULT 200,
+  p_offset           integer DEFAULT 0,
+  p_cap_window_hours integer DEFAULT 24
+) RETURNS TABLE (
+  user_id      uuid,
+  locale       text,
+  timezone     text,
+  token_id     uuid,
+  token        text,
+  provider     text,
+  platform     text,
+  local_date   date,
+  content      jsonb,
+  recent_sends integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH eligible_users AS MATERIALIZED (
+    SELECT
+      np.user_id,
+      np.locale,
+      np.timezone,
+      ln.local_now::date AS local_date
+    FROM public.notification_preferences np
+    CROSS JOIN LATERAL (
+      SELECT timezone(np.timezone, now()) AS local_now
+    ) ln
+    WHERE np.wants_daily = TRUE
+      AND np.os_permission = 'allowed'
+      -- Outside the window / in quiet hours: not returned now, picked up by a later run
+      AND public.notifications_delivery_due(
+        ln.local_now,
+        np.preferred_hour,
+        np.preferred_minute,
+        np.send_window_minutes,
+        np.quiet_hours_start,
+        np.quiet_hours_end
+      )
+      AND (
+        np.last_sent_local_date IS NULL
+        OR np.last_sent_local_date < ln.local_now::date
+      )
+      AND public.today_has_content(
+        np.user_id,
+        np.timezone,
+        ln.local_now::date
+      ) = TRUE
+  ),
+  -- One summary per user, shared by all of their tokens
+  summarized_users AS MATERIALIZED (
+    SELECT
+      eu.*,
+      public.today_content_summary(eu.user_id, eu.timezone, eu.local_date) AS content,
+      (
+        -- A daily run fanned out to several devices counts once; each event counts once
+        SELECT count(DISTINCT COALESCE(ns.event_id::text, ns.job_run_id, ns.id::text))::int
+        FROM public.notification_sends ns
+        WHERE ns.user_id = eu.user_id
+          AND ns.status = 'sent'
+          AND ns.sent_at >= now() - make_interval(hours => COALESCE(p_cap_window_hours, 24))
+      ) AS recent_sends
+    FROM eligible_users eu
+  ),
+  eligible_tokens AS (
+    SELECT
+      su.user_id,
+      su.locale,
+      su.timezone,
+      dt.id   AS token_id,
+      dt.token,
+      dt.provider,
+      dt.platform,
+      su.local_date,
+      su.content,
+      su.recent_sends
+    FROM summarized_users su
+    JOIN public.device_tokens dt
+      ON dt.user_id = su.user_id
+    WHERE dt.status = 'active'
+  )
+  SELECT
+    user_id,
+    locale,
+    timezone,
+    token_id,
+    token,
+    provider,
+    platform,
+    local_date,
+    content,
+    recent_sends
+  FROM eligible_tokens
+  ORDER BY user_id, token_id
+  LIMIT COALESCE(p_limit, 200)
+  OFFSET COALESCE(p_offset, 0);
+$$;
+
+-- --------------------------------------------------------------------
+-- Permissions
+-- --------------------------------------------------------------------
+REVOKE ALL ON FUNCTION public._notification_event_enqueue(
+  text, uuid, uuid, uuid, jsonb, text
+) FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public._notification_display_name(uuid)
+  FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.notifications_set_kind_enabled(text, boolean)
+  FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.notifications_set_kind_enabled(text, boolean)
+  TO authenticated;
+
+REVOKE ALL ON FUNCTION public.notifications_events_claim(integer, integer, integer)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notifications_events_claim(integer, integer, integer)
+  TO service_role;
+
+REVOKE ALL ON FUNCTION public.notifications_reserve_event_send(uuid, uuid, date, text, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notifications_reserve_event_send(uuid, uuid, date, text, text)
+  TO service_role;
+
+REVOKE ALL ON FUNCTION public.notifications_mark_event_send_success(uuid)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notifications_mark_event_send_success(uuid)
+  TO service_role;
+
+REVOKE ALL ON FUNCTION public.notifications_events_complete(uuid, text, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notifications_events_complete(uuid, text, text)
+  TO service_role;
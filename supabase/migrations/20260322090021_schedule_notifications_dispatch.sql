@@ -0,0 +1,25 @@
+select cron.schedule(
+  'notifications_dispatch_every_5m',
+  '*/5 * * * *',
+  $$
+  select net.http_post(
+    url := (
+      select decrypted_secret
+      from vault.decrypted_secrets
+      where name = 'SUPABASE_URL'
+    ) || '/functions/v1/notifications_dispatch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        select decrypted_secret
+        from vault.decrypted_secrets
+        where name = 'SUPABASE_ANON_KEY'
+      )
+    ),
+    body := jsonb_build_object(
+      'scheduled_at', now()
+    ),
+    timeout_milliseconds := 8000
+  );
+  $$
+);
@@ -0,0 +1,237 @@
+-- Notifications: keyset pagination + sharding for notifications_daily, internal-secret cron calls
+-- - notifications_daily_candidates pages by (user_id, token_id) instead of OFFSET: users that get sent
+--   mid-run drop out of the candidate set, which made OFFSET skip the users behind them
+-- - p_shard_index / p_shard_count split users by hashtext(user_id) so several invocations can share a run
+-- - notifications_daily / notifications_dispatch now require x-internal-secret
+--   (vault secret NOTIFICATIONS_SHARED_SECRET); both cron jobs are rescheduled to send it
+
+-- --------------------------------------------------------------------
+-- notifications_daily_candidates: keyset cursor + shard
+-- --------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.notifications_daily_candidates(integer, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.notifications_daily_candidates(
+  p_limit            integer DEFAULT 200,
+  p_after_user_id    uuid    DEFAULT NULL,
+  p_after_token_id   uuid    DEFAULT NULL,
+  p_cap_window_hours integer DEFAULT 24,
+  p_shard_index      integer DEFAULT 0,
+  p_shard_count      integer DEFAULT 1
+) RETURNS TABLE (
+  user_id      uuid,
+  locale       text,
+  timezone     text,
+  token_id     uuid,
+  token        text,
+  provider     text,
+  platform     text,
+  local_date   date,
+  content      jsonb,
+  recent_sends integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH eligible_users AS MATERIALIZED (
+    SELECT
+      np.user_id,
+      np.locale,
+      np.timezone,
+      ln.local_now::date AS local_date
+    FROM public.notification_preferences np
+    CROSS JOIN LATERAL (
+      SELECT timezone(np.timezone, now()) AS local_now
+    ) ln
+    WHERE np.wants_daily = TRUE
+      AND np.os_permission = 'allowed'
+      -- Keyset: skip users fully handled by earlier pages before the content check
+      AND (p_after_user_id IS NULL OR np.user_id >= p_after_user_id)
+      AND (
+        COALESCE(p_shard_count, 1) <= 1
+        OR mod(hashtext(np.user_id::text)::bigint + 2147483648, p_shard_count)
+           = COALESCE(p_shard_index, 0)
+      )
+      -- Outside the window / in quiet hours: not returned now, picked up by a later run
+      AND public.notifications_delivery_due(
+        ln.local_now,
+        np.preferred_hour,
+        np.preferred_minute,
+        np.send_window_minutes,
+        np.quiet_hours_start,
+        np.quiet_hours_end
+      )
+      AND (
+        np.last_sent_local_date IS NULL
+        OR np.last_sent_local_date < ln.local_now::date
+      )
+      AND public.today_has_content(
+        np.user_id,
+        np.timezone,
+        ln.local_now::date
+      ) = TRUE
+  ),
+  -- One summary per user, shared by all of their tokens
+  summarized_users AS MATERIALIZED (
+    SELECT
+      eu.*,
+      public.today_content_summary(eu.user_id, eu.timezone, eu.local_date) AS content,
+      (
+        -- A daily run fanned out to several devices counts once; each event counts once
+        SELECT count(DISTINCT COALESCE(ns.event_id::text, ns.job_run_id, ns.id::text))::int
+        FROM public.notification_sends ns
+        WHERE ns.user_id = eu.user_id
+          AND ns.status = 'sent'
+          AND ns.sent_at >= now() - make_interval(hours => COALESCE(p_cap_window_hours, 24))
+      ) AS recent_sends
+    FROM eligible_users eu
+  ),
+  eligible_tokens AS (
+    SELECT
+      su.user_id,
+      su.locale,
+      su.timezone,
+      dt.id   AS token_id,
+      dt.token,
+      dt.provider,
+      dt.platform,
+      su.local_date,
+      su.content,
+      su.recent_sends
+    FROM summarized_users su
+    JOIN public.device_tokens dt
+      ON dt.user_id = su.user_id
+    WHERE dt.status = 'active'
+  )
+  SELECT
+    user_id,
+    locale,
+    timezone,
+    token_id,
+    token,
+    provider,
+    platform,
+    local_date,
+    content,
+    recent_sends
+  FROM eligible_tokens
+  WHERE p_after_user_id IS NULL
+     OR (user_id, token_id) > (p_after_user_id, COALESCE(p_after_token_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  ORDER BY user_id, token_id
+  LIMIT COALESCE(p_limit, 200);
+$$;
+
+REVOKE ALL ON FUNCTION public.notifications_daily_candidates(
+  integer, uuid, uuid, integer, integer, integer
+) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.notifications_daily_candidates(
+  integer, uuid, uuid, integer, integer, integer
+) TO service_role;
+
+-- --------------------------------------------------------------------
+-- Cron: send x-internal-secret
+-- --------------------------------------------------------------------
+do $$
+declare
+  v_job_id integer;
+begin
+  begin
+    select j.jobid
+      into v_job_id
+      from cron.job j
+     where j.jobname = 'notifications_daily_every_15m'
+     limit 1;
+
+    if v_job_id is not null then
+      perform cron.unschedule(v_job_id);
+    end if;
+
+    perform cron.schedule(
+      'notifications_daily_every_15m',
+      '*/15 * * * *',
+      $cmd$
+      select net.http_post(
+        url := (
+          select decrypted_secret
+          from vault.decrypted_secrets
+          where name = 'SUPABASE_URL'
+        ) || '/functions/v1/notifications_daily',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'SUPABASE_ANON_KEY'
+          ),
+          'x-internal-secret', (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'NOTIFICATIONS_SHARED_SECRET'
+          )
+        ),
+        body := jsonb_build_object(
+          'scheduled_at', now()
+        ),
+        timeout_milliseconds := 8000
+      );
+      $cmd$
+    );
+  exception
+    when undefined_table or insufficient_privilege then
+      raise notice 'Skipping pg_cron schedule: notifications_daily.';
+  end;
+end
+$$;
+
+do $$
+declare
+  v_job_id integer;
+begin
+  begin
+    select j.jobid
+      into v_job_id
+      from cron.job j
+     where j.jobname = 'notifications_dispatch_every_5m'
+     limit 1;
+
+    if v_job_id is not null then
+      perform cron.unschedule(v_job_id);
+    end if;
+
+    perform cron.schedule(
+      'notifications_dispatch_every_5m',
+      '*/5 * * * *',
+      $cmd$
+      select net.http_post(
+        url := (
+          select decrypted_secret
+          from vault.decrypted_secrets
+          where name = 'SUPABASE_URL'
+        ) || '/functions/v1/notifications_dispatch',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'SUPABASE_ANON_KEY'
+          ),
+          'x-internal-secret', (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'NOTIFICATIONS_SHARED_SECRET'
+          )
+        ),
+        body := jsonb_build_object(
+          'scheduled_at', now()
+        ),
+        timeout_milliseconds := 8000
+      );
+      $cmd$
+    );
+  exception
+    when undefined_table or insufficient_privilege then
+      raise notice 'Skipping pg_cron schedule: notifications_dispatch.';
+  end;
+end
+$$;
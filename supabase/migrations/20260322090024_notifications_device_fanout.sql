@@ -0,0 +1,118 @@
+-- Notifications: daily fan-out to every active device
+-- - The sender now groups candidates per user and pushes to each (deduplicated) active device;
+--   the user is reached when any device succeeds (last_sent_local_date), but the other devices
+--   keep their own reservation and retry.
+-- - notifications_claim_send_retries no longer drops a device's retry because another device of
+--   the same user already got today's nudge.
+
+-- --------------------------------------------------------------------
+-- notifications_claim_send_retries: retries are per device
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.notifications_claim_send_retries(
+  p_job_run_id   text,
+  p_limit        integer DEFAULT 200,
+  p_max_attempts integer DEFAULT 4,
+  p_shard_index  integer DEFAULT 0,
+  p_shard_count  integer DEFAULT 1
+) RETURNS TABLE (
+  send_id     uuid,
+  user_id     uuid,
+  locale      text,
+  timezone    text,
+  token_id    uuid,
+  token       text,
+  provider    text,
+  platform    text,
+  local_date  date,
+  content     jsonb,
+  attempts    integer
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  -- Retries that can never go out today are final
+  WITH stale AS (
+    SELECT ns.id
+    FROM public.notification_sends ns
+    LEFT JOIN public.notification_preferences np
+      ON np.user_id = ns.user_id
+    LEFT JOIN public.device_tokens dt
+      ON dt.id = ns.token_id
+    WHERE ns.status = 'failed'
+      AND ns.next_retry_at IS NOT NULL
+      AND (
+        np.user_id IS NULL
+        OR np.wants_daily IS NOT TRUE
+        OR np.os_permission <> 'allowed'
+        OR dt.status IS DISTINCT FROM 'active'
+        OR ns.attempts >= COALESCE(p_max_attempts, 4)
+        OR ns.local_date < timezone(np.timezone, now())::date
+      )
+  )
+  UPDATE public.notification_sends ns
+     SET next_retry_at = NULL,
+         updated_at    = now()
+    FROM stale
+   WHERE ns.id = stale.id;
+
+  WITH picked AS (
+    SELECT ns.id
+    FROM public.notification_sends ns
+    JOIN public.notification_preferences np
+      ON np.user_id = ns.user_id
+    JOIN public.device_tokens dt
+      ON dt.id = ns.token_id
+    WHERE ns.status = 'failed'
+      AND ns.event_id IS NULL
+      AND ns.next_retry_at <= now()
+      AND dt.status = 'active'
+      AND (
+        COALESCE(p_shard_count, 1) <= 1
+        OR mod(hashtext(ns.user_id::text)::bigint + 2147483648, p_shard_count)
+           = COALESCE(p_shard_index, 0)
+      )
+      -- Quiet hours hold the retry (it stays queued) rather than dropping it
+      AND NOT (
+        np.quiet_hours_start IS NOT NULL
+        AND np.quiet_hours_end IS NOT NULL
+        AND public._notifications_in_quiet_hours(
+          timezone(np.timezone, now())::time,
+          np.quiet_hours_start,
+          np.quiet_hours_end
+        )
+      )
+    ORDER BY ns.next_retry_at
+    LIMIT COALESCE(p_limit, 200)
+    FOR UPDATE OF ns SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE public.notification_sends ns
+       SET status        = 'reserved',
+           attempts      = ns.attempts + 1,
+           next_retry_at = NULL,
+           job_run_id    = p_job_run_id,
+           reserved_at   = now(),
+           updated_at    = now()
+      FROM picked
+     WHERE ns.id = picked.id
+    RETURNING ns.id, ns.user_id, ns.token_id, ns.local_date, ns.attempts
+  )
+  SELECT
+    c.id,
+    c.user_id,
+    np.locale,
+    np.timezone,
+    c.token_id,
+    dt.token,
+    dt.provider,
+    dt.platform,
+    c.local_date,
+    public.today_content_summary(c.user_id, np.timezone, c.local_date),
+    c.attempts
+  FROM claimed c
+  JOIN public.notification_preferences np
+    ON np.user_id = c.user_id
+  JOIN public.device_tokens dt
+    ON dt.id = c.token_id;
+$$;
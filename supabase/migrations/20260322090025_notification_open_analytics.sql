@@ -0,0 +1,178 @@
+-- Notifications: open tracking + delivery/open report
+-- - Every push carries data.send_id (notification_sends.id); the app echoes it back on open
+-- - notification_sends.opened_at: first open, recorded by notifications_record_open (authenticated, own sends)
+-- - notification_sends.locale / local_send_hour: snapshot of the recipient's locale and local hour,
+--   taken at reservation and refreshed when the send goes out (retries may go out later that day)
+-- - notifications_delivery_report(): sent, error and open rates by kind, locale, template and local send hour
+
+-- --------------------------------------------------------------------
+-- notification_sends: open + analytics dimensions
+-- --------------------------------------------------------------------
+ALTER TABLE public.notification_sends
+  ADD COLUMN IF NOT EXISTS opened_at       timestamptz,
+  ADD COLUMN IF NOT EXISTS locale          text,
+  ADD COLUMN IF NOT EXISTS local_send_hour smallint;
+
+ALTER TABLE public.notification_sends
+  DROP CONSTRAINT IF EXISTS chk_notification_sends_local_send_hour,
+  ADD CONSTRAINT chk_notification_sends_local_send_hour
+    CHECK (local_send_hour IS NULL OR local_send_hour BETWEEN 0 AND 23);
+
+CREATE INDEX IF NOT EXISTS idx_notification_sends_created_at
+  ON public.notification_sends (created_at);
+
+CREATE OR REPLACE FUNCTION public.notification_sends_snapshot_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_pref public.notification_preferences;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NOT (NEW.status = 'sent' AND OLD.status IS DISTINCT FROM 'sent') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT *
+    INTO v_pref
+    FROM public.notification_preferences
+   WHERE user_id = NEW.user_id;
+
+  IF v_pref.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.locale := COALESCE(NEW.locale, v_pref.locale);
+  END IF;
+  NEW.local_send_hour := date_part('hour', timezone(v_pref.timezone, now()))::smallint;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notification_sends_snapshot ON public.notification_sends;
+CREATE TRIGGER trg_notification_sends_snapshot
+  BEFORE INSERT OR UPDATE OF status ON public.notification_sends
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notification_sends_snapshot_trigger();
+
+-- --------------------------------------------------------------------
+-- Client RPC: record that the user opened the app from a push
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.notifications_record_open(
+  p_send_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id   uuid := auth.uid();
+  v_opened_at timestamptz;
+BEGIN
+  PERFORM public._assert_authenticated();
+
+  PERFORM public.api_assert(
+    p_send_id IS NOT NULL,
+    'INVALID_SEND_ID',
+    'Send id is required.',
+    '22023'
+  );
+
+  -- First open wins; repeat opens (several taps, app restarts) are no-ops
+  UPDATE public.notification_sends
+     SET opened_at  = COALESCE(opened_at, now()),
+         updated_at = now()
+   WHERE id = p_send_id
+     AND user_id = v_user_id
+  RETURNING opened_at INTO v_opened_at;
+
+  PERFORM public.api_assert(
+    v_opened_at IS NOT NULL,
+    'NOTIFICATION_SEND_NOT_FOUND',
+    'Notification send not found.',
+    'P0002',
+    jsonb_build_object('send_id', p_send_id)
+  );
+
+  RETURN jsonb_build_object(
+    'send_id',   p_send_id,
+    'opened_at', v_opened_at
+  );
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- Backend RPC: delivery + open report (service_role)
+-- --------------------------------------------------------------------
+-- One row per (kind, locale, template_id, local_send_hour) for sends created in [from, to).
+-- error_rate = failed / (sent + failed); open_rate = opened / sent. Still-reserved sends are
+-- counted in `attempted` only.
+CREATE OR REPLACE FUNCTION public.notifications_delivery_report(
+  p_from timestamptz DEFAULT now() - INTERVAL '7 days',
+  p_to   timestamptz DEFAULT now()
+) RETURNS TABLE (
+  kind            text,
+  locale          text,
+  template_id     text,
+  local_send_hour smallint,
+  attempted       integer,
+  sent            integer,
+  failed          integer,
+  opened          integer,
+  error_rate      numeric,
+  open_rate       numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH counts AS (
+    SELECT
+      ns.kind,
+      ns.locale,
+      ns.template_id,
+      ns.local_send_hour,
+      count(*)::int                                         AS attempted,
+      count(*) FILTER (WHERE ns.status = 'sent')::int       AS sent,
+      count(*) FILTER (WHERE ns.status = 'failed')::int     AS failed,
+      count(*) FILTER (WHERE ns.opened_at IS NOT NULL)::int AS opened
+    FROM public.notification_sends ns
+    WHERE ns.created_at >= p_from
+      AND ns.created_at < p_to
+    GROUP BY ns.kind, ns.locale, ns.template_id, ns.local_send_hour
+  )
+  SELECT
+    c.kind,
+    c.locale,
+    c.template_id,
+    c.local_send_hour,
+    c.attempted,
+    c.sent,
+    c.failed,
+    c.opened,
+    round(c.failed::numeric / NULLIF(c.sent + c.failed, 0), 4),
+    round(c.opened::numeric / NULLIF(c.sent, 0), 4)
+  FROM counts c
+  ORDER BY c.kind, c.locale, c.template_id, c.local_send_hour;
+$$;
+
+-- --------------------------------------------------------------------
+-- Permissions
+-- --------------------------------------------------------------------
+REVOKE ALL ON FUNCTION public.notification_sends_snapshot_trigger()
+  FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.notifications_record_open(uuid)
+  FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.notifications_record_open(uuid)
+  TO authenticated;
+
+REVOKE ALL ON FUNCTION public.notifications_delivery_report(timestamptz, timestamptz)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notifications_delivery_report(timestamptz, timestamptz)
+  TO service_role;
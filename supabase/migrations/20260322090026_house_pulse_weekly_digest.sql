@@ -0,0 +1,243 @@
+-- House pulse: weekly digest (push + email-ready summary)
+-- - The digest job (edge function house_pulse_digest, weekly cron) is now the single emitter of
+--   house_pulse_weekly events: the AFTER INSERT trigger fired on the first reflection of the week,
+--   while the pulse was still forming
+-- - house_pulse_digest_homes(): active homes with current members, keyset by home id
+-- - house_pulse_digest_prepare(): computes the week for one home (house_pulse_compute_week,
+--   impersonating a current member), returns the snapshot + label keys + members who have no
+--   house_pulse_reads for that week, and enqueues their push (skipped when forming / dry run)
+
+-- --------------------------------------------------------------------
+-- Emitter: replaced by the digest
+-- --------------------------------------------------------------------
+DROP TRIGGER IF EXISTS trg_notification_events_house_pulse ON public.house_pulse_weekly;
+DROP FUNCTION IF EXISTS public.notification_events_house_pulse_trigger();
+
+-- --------------------------------------------------------------------
+-- Backend RPC: homes to digest (service_role)
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.house_pulse_digest_homes(
+  p_after_home_id uuid    DEFAULT NULL,
+  p_limit         integer DEFAULT 100
+) RETURNS TABLE (
+  home_id uuid
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT h.id
+  FROM public.homes h
+  WHERE h.is_active = TRUE
+    AND (p_after_home_id IS NULL OR h.id > p_after_home_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.memberships m
+      WHERE m.home_id = h.id
+        AND m.is_current = TRUE
+    )
+  ORDER BY h.id
+  LIMIT COALESCE(p_limit, 100);
+$$;
+
+-- --------------------------------------------------------------------
+-- Backend RPC: compute one home's week + recipients (service_role)
+-- --------------------------------------------------------------------
+-- Returns NULL when the home is inactive or has no current member.
+-- recipients: current members without a house_pulse_reads row for the week (any pulse_state);
+-- empty while the pulse is forming (nothing to show yet).
+CREATE OR REPLACE FUNCTION public.house_pulse_digest_prepare(
+  p_home_id       uuid,
+  p_iso_week_year integer DEFAULT NULL,
+  p_iso_week      integer DEFAULT NULL,
+  p_dry_run       boolean DEFAULT FALSE
+) RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_prev_sub      text := current_setting('request.jwt.claim.sub', true);
+  v_iso_week_year integer;
+  v_iso_week      integer;
+  v_member        uuid;
+  v_row           public.house_pulse_weekly;
+  v_label         public.house_pulse_labels;
+  v_recipients    jsonb := '[]'::jsonb;
+BEGIN
+  SELECT
+    COALESCE(p_iso_week_year, w.iso_week_year),
+    COALESCE(p_iso_week, w.iso_week)
+  INTO v_iso_week_year, v_iso_week
+  FROM public._iso_week_utc(now()) w;
+
+  SELECT m.user_id
+  INTO v_member
+  FROM public.memberships m
+  JOIN public.homes h
+    ON h.id = m.home_id
+  WHERE m.home_id = p_home_id
+    AND m.is_current = TRUE
+    AND h.is_active = TRUE
+  ORDER BY m.user_id
+  LIMIT 1;
+
+  IF v_member IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Impersonate a member: house_pulse_compute_week relies on auth.uid()
+  PERFORM set_config('request.jwt.claim.sub', v_member::text, true);
+  v_row := public.house_pulse_compute_week(p_home_id, v_iso_week_year, v_iso_week, 'v1');
+  -- Restore previous sub claim (best-effort)
+  PERFORM set_config('request.jwt.claim.sub', COALESCE(v_prev_sub, ''), true);
+
+  SELECT l.*
+  INTO v_label
+  FROM public.house_pulse_labels l
+  WHERE l.contract_version = v_row.contract_version
+    AND l.pulse_state = v_row.pulse_state
+    AND l.is_active = TRUE;
+
+  IF v_row.pulse_state <> 'forming' THEN
+    SELECT COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'user_id',      m.user_id,
+          'locale',       np.locale,
+          'display_name', public._notification_display_name(m.user_id),
+          'email',        u.email
+        )
+        ORDER BY m.user_id
+      ),
+      '[]'::jsonb
+    )
+    INTO v_recipients
+    FROM public.memberships m
+    LEFT JOIN public.notification_preferences np
+      ON np.user_id = m.user_id
+    LEFT JOIN auth.users u
+      ON u.id = m.user_id
+    WHERE m.home_id = p_home_id
+      AND m.is_current = TRUE
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.house_pulse_reads r
+        WHERE r.home_id = p_home_id
+          AND r.user_id = m.user_id
+          AND r.iso_week_year = v_row.iso_week_year
+          AND r.iso_week = v_row.iso_week
+          AND r.contract_version = v_row.contract_version
+      );
+
+    IF NOT COALESCE(p_dry_run, FALSE) THEN
+      -- Same dedupe key as the old trigger: one push per member per week, however often this runs
+      PERFORM public._notification_event_enqueue(
+        'house_pulse_weekly',
+        (r->>'user_id')::uuid,
+        p_home_id,
+        NULL,
+        jsonb_build_object(
+          'iso_week_year', v_row.iso_week_year,
+          'iso_week',      v_row.iso_week,
+          'pulse_state',   v_row.pulse_state
+        ),
+        format(
+          'house_pulse_weekly:%s:%s-W%s:%s',
+          p_home_id, v_row.iso_week_year, v_row.iso_week, r->>'user_id'
+        )
+      )
+      FROM jsonb_array_elements(v_recipients) r;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'home_id',            p_home_id,
+    'iso_week_year',      v_row.iso_week_year,
+    'iso_week',           v_row.iso_week,
+    'contract_version',   v_row.contract_version,
+    'pulse_state',        v_row.pulse_state,
+    'weather_display',    v_row.weather_display,
+    'member_count',       v_row.member_count,
+    'reflection_count',   v_row.reflection_count,
+    'care_present',       v_row.care_present,
+    'friction_present',   v_row.friction_present,
+    'complexity_present', v_row.complexity_present,
+    'label', jsonb_build_object(
+      'title_key',   v_label.title_key,
+      'summary_key', v_label.summary_key,
+      'image_key',   v_label.image_key
+    ),
+    'recipients', v_recipients
+  );
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- Permissions
+-- --------------------------------------------------------------------
+REVOKE ALL ON FUNCTION public.house_pulse_digest_homes(uuid, integer)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.house_pulse_digest_homes(uuid, integer)
+  TO service_role;
+
+REVOKE ALL ON FUNCTION public.house_pulse_digest_prepare(uuid, integer, integer, boolean)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.house_pulse_digest_prepare(uuid, integer, integer, boolean)
+  TO service_role;
+
+-- --------------------------------------------------------------------
+-- Cron: Sunday 17:00 UTC, late enough that most reflections for the ISO week are in
+-- --------------------------------------------------------------------
+do $$
+declare
+  v_job_id integer;
+begin
+  begin
+    select j.jobid
+      into v_job_id
+      from cron.job j
+     where j.jobname = 'house_pulse_digest_weekly'
+     limit 1;
+
+    if v_job_id is not null then
+      perform cron.unschedule(v_job_id);
+    end if;
+
+    perform cron.schedule(
+      'house_pulse_digest_weekly',
+      '0 17 * * 0',
+      $cmd$
+      select net.http_post(
+        url := (
+          select decrypted_secret
+          from vault.decrypted_secrets
+          where name = 'SUPABASE_URL'
+        ) || '/functions/v1/house_pulse_digest',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'SUPABASE_ANON_KEY'
+          ),
+          'x-internal-secret', (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'NOTIFICATIONS_SHARED_SECRET'
+          )
+        ),
+        body := jsonb_build_object(
+          'scheduled_at', now()
+        ),
+        timeout_milliseconds := 8000
+      );
+      $cmd$
+    );
+  exception
+    when undefined_table or insufficient_privilege then
+      raise notice 'Skipping pg_cron schedule: house_pulse_digest.';
+  end;
+end
+$$;
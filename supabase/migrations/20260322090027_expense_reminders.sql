@@ -0,0 +1,362 @@
+-- Notifications: expense + recurring-plan reminders
+-- - New event kind expense_reminder (outbox -> notifications_dispatch), opt-out via disabled_kinds
+-- - expense_reminders_candidates(): per debtor (local time past their preferred notification time),
+--   unpaid shares of active expenses dated within [today - lookback, today + lookahead], plus the
+--   upcoming cycle of recurring plans they are a debtor of (next_cycle_date within lookahead)
+-- - The expense_reminders Edge Function picks the stage (due soon / due today / overdue weekly)
+--   and enqueues through expense_reminders_enqueue(); the dedupe key makes each stage of each
+--   expense (or plan cycle) go out once per debtor
+-- - Settling a share (expenses_pay_my_due or any other path) skips its pending reminders
+
+-- --------------------------------------------------------------------
+-- expense_reminder kind
+-- --------------------------------------------------------------------
+ALTER TABLE public.notification_events
+  DROP CONSTRAINT IF EXISTS chk_notification_events_kind,
+  ADD CONSTRAINT chk_notification_events_kind CHECK (
+    kind IN (
+      'chore_assigned', 'expense_owed', 'expense_reminder', 'gratitude_mention',
+      'house_pulse_weekly'
+    )
+  );
+
+ALTER TABLE public.notification_preferences
+  DROP CONSTRAINT IF EXISTS chk_notification_preferences_disabled_kinds,
+  ADD CONSTRAINT chk_notification_preferences_disabled_kinds
+    CHECK (
+      disabled_kinds <@ ARRAY[
+        'chore_assigned', 'expense_owed', 'expense_reminder', 'gratitude_mention',
+        'house_pulse_weekly'
+      ]::text[]
+    );
+
+CREATE OR REPLACE FUNCTION public.notifications_set_kind_enabled(
+  p_kind    text,
+  p_enabled boolean
+)
+RETURNS public.notification_preferences
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pref    public.notification_preferences;
+BEGIN
+  PERFORM public._assert_authenticated();
+
+  PERFORM public.api_assert(
+    p_kind IN (
+      'chore_assigned', 'expense_owed', 'expense_reminder', 'gratitude_mention',
+      'house_pulse_weekly'
+    ),
+    'INVALID_NOTIFICATION_KIND',
+    'Unknown notification kind.',
+    '22023',
+    jsonb_build_object('kind', p_kind)
+  );
+  PERFORM public.api_assert(
+    p_enabled IS NOT NULL,
+    'INVALID_ENABLED',
+    'Enabled flag is required.',
+    '22023'
+  );
+
+  UPDATE public.notification_preferences
+     SET disabled_kinds = CASE
+           WHEN p_enabled THEN array_remove(disabled_kinds, p_kind)
+           WHEN p_kind = ANY (disabled_kinds) THEN disabled_kinds
+           ELSE array_append(disabled_kinds, p_kind)
+         END,
+         updated_at = now()
+   WHERE user_id = v_user_id
+  RETURNING * INTO v_pref;
+
+  PERFORM public.api_assert(
+    v_pref.user_id IS NOT NULL,
+    'PREFERENCES_NOT_FOUND',
+    'Notification preferences have not been set up yet.',
+    'P0001'
+  );
+
+  RETURN v_pref;
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- Backend RPC: reminder candidates (service_role)
+-- --------------------------------------------------------------------
+-- Pages by debtor: all rows of up to p_limit debtors after p_after_user_id.
+-- due_date is the expense's start_date (cycle date for plan cycles) or the plan's next_cycle_date.
+-- created_local_date lets the sender skip "due today" when the expense_owed push went out today.
+CREATE OR REPLACE FUNCTION public.expense_reminders_candidates(
+  p_limit          integer DEFAULT 200,
+  p_after_user_id  uuid    DEFAULT NULL,
+  p_lookahead_days integer DEFAULT 3,
+  p_lookback_days  integer DEFAULT 56
+) RETURNS TABLE (
+  user_id            uuid,
+  locale             text,
+  local_date         date,
+  home_id            uuid,
+  expense_id         uuid,
+  plan_id            uuid,
+  description        text,
+  amount_cents       bigint,
+  payer_name         text,
+  due_date           date,
+  created_local_date date
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH debtors AS MATERIALIZED (
+    SELECT
+      np.user_id,
+      np.locale,
+      np.timezone,
+      timezone(np.timezone, now())::date AS local_date
+    FROM public.notification_preferences np
+    WHERE np.os_permission = 'allowed'
+      AND NOT ('expense_reminder' = ANY (np.disabled_kinds))
+      AND (p_after_user_id IS NULL OR np.user_id > p_after_user_id)
+      -- Reminders go out around the user's chosen notification time, not at midnight
+      AND timezone(np.timezone, now())::time
+          >= make_time(np.preferred_hour, np.preferred_minute, 0)
+  ),
+  reminders AS (
+    SELECT
+      d.user_id,
+      d.locale,
+      d.local_date,
+      e.home_id,
+      e.id                 AS expense_id,
+      e.plan_id,
+      e.description,
+      s.amount_cents,
+      public._notification_display_name(e.created_by_user_id) AS payer_name,
+      e.start_date         AS due_date,
+      timezone(d.timezone, e.created_at)::date AS created_local_date
+    FROM debtors d
+    JOIN public.expense_splits s
+      ON s.debtor_user_id = d.user_id
+     AND s.status = 'unpaid'
+    JOIN public.expenses e
+      ON e.id = s.expense_id
+     AND e.status = 'active'
+    JOIN public.homes h
+      ON h.id = e.home_id
+     AND h.is_active = TRUE
+    WHERE e.created_by_user_id <> d.user_id
+      AND e.start_date >= d.local_date - COALESCE(p_lookback_days, 56)
+      AND e.start_date <= d.local_date + COALESCE(p_lookahead_days, 3)
+
+    UNION ALL
+
+    -- Upcoming cycle of a recurring plan (its expense does not exist yet)
+    SELECT
+      d.user_id,
+      d.locale,
+      d.local_date,
+      p.home_id,
+      NULL::uuid,
+      p.id,
+      p.description,
+      pd.share_amount_cents,
+      public._notification_display_name(p.created_by_user_id),
+      p.next_cycle_date,
+      NULL::date
+    FROM debtors d
+    JOIN public.expense_plan_debtors pd
+      ON pd.debtor_user_id = d.user_id
+    JOIN public.expense_plans p
+      ON p.id = pd.plan_id
+     AND p.status = 'active'
+    JOIN public.homes h
+      ON h.id = p.home_id
+     AND h.is_active = TRUE
+    WHERE p.created_by_user_id <> d.user_id
+      AND p.next_cycle_date > d.local_date
+      AND p.next_cycle_date <= d.local_date + COALESCE(p_lookahead_days, 3)
+  ),
+  page_users AS (
+    SELECT DISTINCT r.user_id
+    FROM reminders r
+    ORDER BY r.user_id
+    LIMIT COALESCE(p_limit, 200)
+  )
+  SELECT
+    r.user_id,
+    r.locale,
+    r.local_date,
+    r.home_id,
+    r.expense_id,
+    r.plan_id,
+    r.description,
+    r.amount_cents,
+    r.payer_name,
+    r.due_date,
+    r.created_local_date
+  FROM reminders r
+  JOIN page_users pu
+    ON pu.user_id = r.user_id
+  ORDER BY r.user_id, r.due_date, r.expense_id, r.plan_id;
+$$;
+
+-- --------------------------------------------------------------------
+-- Backend RPC: enqueue reminders (service_role)
+-- --------------------------------------------------------------------
+-- p_reminders: [{ user_id, home_id, expense_id | plan_id, reminder_key, payload }]
+-- dedupe_key = expense_reminder:<user_id>:<reminder_key>; the sender builds reminder_key per
+-- stage (e.g. expense:<id>:overdue_w2, plan:<id>:<cycle date>:due_soon).
+-- Shares settled since the candidates were read are dropped. Returns the number of new events.
+CREATE OR REPLACE FUNCTION public.expense_reminders_enqueue(
+  p_reminders jsonb
+) RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH input AS (
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(p_reminders, '[]'::jsonb)) AS r(
+      user_id      uuid,
+      home_id      uuid,
+      expense_id   uuid,
+      plan_id      uuid,
+      reminder_key text,
+      payload      jsonb
+    )
+    WHERE r.user_id IS NOT NULL
+      AND NULLIF(btrim(r.reminder_key), '') IS NOT NULL
+  ),
+  inserted AS (
+    INSERT INTO public.notification_events (
+      kind, recipient_user_id, home_id, payload, dedupe_key
+    )
+    SELECT
+      'expense_reminder',
+      i.user_id,
+      i.home_id,
+      COALESCE(i.payload, '{}'::jsonb),
+      format('expense_reminder:%s:%s', i.user_id, i.reminder_key)
+    FROM input i
+    WHERE i.expense_id IS NULL
+       OR EXISTS (
+         SELECT 1
+         FROM public.expense_splits s
+         JOIN public.expenses e
+           ON e.id = s.expense_id
+         WHERE s.expense_id = i.expense_id
+           AND s.debtor_user_id = i.user_id
+           AND s.status = 'unpaid'
+           AND e.status = 'active'
+       )
+    ON CONFLICT (dedupe_key) DO NOTHING
+    RETURNING 1
+  )
+  SELECT count(*)::int FROM inserted;
+$$;
+
+-- --------------------------------------------------------------------
+-- Settled shares stop their reminders
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.notification_events_expense_settled_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.notification_events ev
+     SET status       = 'skipped',
+         error        = 'settled',
+         processed_at = now()
+   WHERE ev.kind = 'expense_reminder'
+     AND ev.status = 'pending'
+     AND ev.recipient_user_id = NEW.debtor_user_id
+     AND ev.payload->>'expense_id' = NEW.expense_id::text;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notification_events_expense_settled ON public.expense_splits;
+CREATE TRIGGER trg_notification_events_expense_settled
+AFTER UPDATE OF status ON public.expense_splits
+FOR EACH ROW
+WHEN (NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid')
+EXECUTE FUNCTION public.notification_events_expense_settled_trigger();
+
+-- --------------------------------------------------------------------
+-- Permissions
+-- --------------------------------------------------------------------
+REVOKE ALL ON FUNCTION public.expense_reminders_candidates(integer, uuid, integer, integer)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expense_reminders_candidates(integer, uuid, integer, integer)
+  TO service_role;
+
+REVOKE ALL ON FUNCTION public.expense_reminders_enqueue(jsonb)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expense_reminders_enqueue(jsonb)
+  TO service_role;
+
+REVOKE ALL ON FUNCTION public.notification_events_expense_settled_trigger()
+  FROM PUBLIC, anon, authenticated;
+
+-- --------------------------------------------------------------------
+-- Cron: hourly, so each debtor is reminded shortly after their preferred time
+-- --------------------------------------------------------------------
+do $$
+declare
+  v_job_id integer;
+begin
+  begin
+    select j.jobid
+      into v_job_id
+      from cron.job j
+     where j.jobname = 'expense_reminders_hourly'
+     limit 1;
+
+    if v_job_id is not null then
+      perform cron.unschedule(v_job_id);
+    end if;
+
+    perform cron.schedule(
+      'expense_reminders_hourly',
+      '20 * * * *',
+      $cmd$
+      select net.http_post(
+        url := (
+          select decrypted_secret
+          from vault.decrypted_secrets
+          where name = 'SUPABASE_URL'
+        ) || '/functions/v1/expense_reminders',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'SUPABASE_ANON_KEY'
+          ),
+          'x-internal-secret', (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'NOTIFICATIONS_SHARED_SECRET'
+          )
+        ),
+        body := jsonb_build_object(
+          'scheduled_at', now()
+        ),
+        timeout_milliseconds := 8000
+      );
+      $cmd$
+    );
+  exception
+    when undefined_table or insufficient_privilege then
+      raise notice 'Skipping pg_cron schedule: expense_reminders.';
+  end;
+end
+$$;
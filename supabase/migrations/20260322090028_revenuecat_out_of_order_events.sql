@@ -0,0 +1,285 @@
+-- RevenueCat webhook: out-of-order event protection
+-- - user_subscriptions remembers the ordering state of the last applied event
+--   (last_event_timestamp + original_transaction_id; latest_transaction_id / last_purchase_at exist)
+-- - paywall_subscription_applied_state(): what the webhook compares incoming events against
+-- - Stale events are not applied; the webhook records them with revenuecat_webhook_events.superseded_reason
+-- - paywall_record_subscription(p_applied_state): compare-and-swap on the state the webhook compared
+--   against; if another event was applied in between it raises 40001 (retryable) so the webhook
+--   re-evaluates on RevenueCat's retry
+
+-- --------------------------------------------------------------------
+-- Columns
+-- --------------------------------------------------------------------
+ALTER TABLE public.user_subscriptions
+  ADD COLUMN IF NOT EXISTS last_event_timestamp timestamptz,
+  ADD COLUMN IF NOT EXISTS original_transaction_id text;
+
+COMMENT ON COLUMN public.user_subscriptions.last_event_timestamp IS
+  'event_timestamp of the newest RevenueCat event applied to this row (out-of-order protection).';
+COMMENT ON COLUMN public.user_subscriptions.original_transaction_id IS
+  'Store original transaction id (subscription lineage) of the last applied event.';
+
+ALTER TABLE public.revenuecat_webhook_events
+  ADD COLUMN IF NOT EXISTS superseded_reason text;
+
+COMMENT ON COLUMN public.revenuecat_webhook_events.superseded_reason IS
+  'Set when the event arrived after a newer one was applied (older_event | older_transaction); the event was not applied.';
+
+-- --------------------------------------------------------------------
+-- Backend RPC: last applied state (service_role)
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.paywall_subscription_applied_state(
+  p_user_id        uuid,
+  p_entitlement_id text
+) RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT jsonb_build_object(
+    'event_timestamp',         us.last_event_timestamp,
+    'original_transaction_id', us.original_transaction_id,
+    'latest_transaction_id',   us.latest_transaction_id,
+    'last_purchase_at',        us.last_purchase_at
+  )
+  FROM public.user_subscriptions us
+  WHERE us.user_id = p_user_id
+    AND us.rc_entitlement_id = p_entitlement_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.paywall_subscription_applied_state(uuid, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.paywall_subscription_applied_state(uuid, text)
+  TO service_role;
+
+-- --------------------------------------------------------------------
+-- paywall_record_subscription: + p_applied_state (compare-and-swap)
+-- --------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.paywall_record_subscription(
+  text, uuid, uuid, public.subscription_store,
+  text, text, text, public.subscription_status,
+  timestamptz, timestamptz, timestamptz, text,
+  text[], timestamptz, text, text, text, jsonb, text[]
+);
+
+-- RETURNS boolean: true = deduped (already succeeded), false = processed now
+-- p_applied_state: the paywall_subscription_applied_state() the webhook ordered this event
+-- against ('{}' = nothing applied yet); NULL skips the check (event without a timestamp).
+CREATE OR REPLACE FUNCTION public.paywall_record_subscription(
+  p_idempotency_key text,
+  p_user_id uuid,
+  p_home_id uuid,
+  p_store public.subscription_store,
+  p_rc_app_user_id text,
+  p_entitlement_id text,
+  p_product_id text,
+  p_status public.subscription_status,
+  p_current_period_end_at timestamptz,
+  p_original_purchase_at timestamptz,
+  p_last_purchase_at timestamptz,
+  p_latest_transaction_id text,
+
+  -- optional (defaults) MUST be last
+  p_entitlement_ids text[] DEFAULT NULL,
+  p_event_timestamp timestamptz DEFAULT now(),
+  p_environment text DEFAULT 'unknown',
+  p_rc_event_id text DEFAULT NULL,
+  p_original_transaction_id text DEFAULT NULL,
+  p_raw_event jsonb DEFAULT NULL,
+  p_warnings text[] DEFAULT NULL,
+  p_applied_state jsonb DEFAULT NULL
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_status public.revenuecat_processing_status;
+  v_home_id uuid;
+  v_expected_event_timestamp timestamptz :=
+    (p_applied_state->>'event_timestamp')::timestamptz;
+BEGIN
+  -- Prevent concurrent double-runs for the same idempotency key
+  PERFORM pg_advisory_xact_lock(hashtext(p_environment || ':' || p_idempotency_key));
+
+  -- Basic validation (defense in depth; webhook already validated)
+  IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+    RAISE EXCEPTION 'Missing p_idempotency_key';
+  END IF;
+
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'Missing p_user_id';
+  END IF;
+
+  -- home_id may be null (floating sub); allow nullable to align with edge behavior
+
+  -- Acquire processing record (or reuse)
+  INSERT INTO public.revenuecat_event_processing AS ep (environment, idempotency_key, status, attempts, updated_at)
+  VALUES (p_environment, p_idempotency_key, 'processing'::public.revenuecat_processing_status, 1, now())
+  ON CONFLICT (environment, idempotency_key)
+  DO UPDATE SET
+    attempts   = ep.attempts + 1,
+    status     = CASE
+                  WHEN ep.status = 'succeeded' THEN 'succeeded'::public.revenuecat_processing_status
+                  ELSE 'processing'::public.revenuecat_processing_status
+                 END,
+    updated_at = now()
+  RETURNING status INTO v_status;
+
+  -- If already succeeded, return immediately (idempotent)
+  IF v_status = 'succeeded'::public.revenuecat_processing_status THEN
+    RETURN true; -- deduped
+  END IF;
+
+  ------------------------------------------------------------------
+  -- Upsert subscription snapshot (only over the state the webhook compared against)
+  ------------------------------------------------------------------
+  INSERT INTO public.user_subscriptions AS us (
+    user_id,
+    home_id,
+    store,
+    rc_app_user_id,
+    rc_entitlement_id,
+    product_id,
+    status,
+    current_period_end_at,
+    original_purchase_at,
+    last_purchase_at,
+    latest_transaction_id,
+    original_transaction_id,
+    last_event_timestamp,
+    last_synced_at,
+    created_at,
+    updated_at
+  ) VALUES (
+    p_user_id,
+    p_home_id,
+    p_store,
+    p_rc_app_user_id,
+    p_entitlement_id,
+    p_product_id,
+    p_status,
+    p_current_period_end_at,
+    p_original_purchase_at,
+    p_last_purchase_at,
+    p_latest_transaction_id,
+    p_original_transaction_id,
+    p_event_timestamp,
+    now(),
+    now(),
+    now()
+  )
+  ON CONFLICT (user_id, rc_entitlement_id) DO UPDATE
+  SET
+    home_id                 = EXCLUDED.home_id,
+    store                   = EXCLUDED.store,
+    rc_app_user_id          = EXCLUDED.rc_app_user_id,
+    product_id              = EXCLUDED.product_id,
+    status                  = EXCLUDED.status,
+    current_period_end_at   = EXCLUDED.current_period_end_at,
+    original_purchase_at    = EXCLUDED.original_purchase_at,
+    last_purchase_at        = EXCLUDED.last_purchase_at,
+    latest_transaction_id   = EXCLUDED.latest_transaction_id,
+    -- Untimed events cannot be ordered: keep the last known ordering state
+    original_transaction_id = COALESCE(EXCLUDED.original_transaction_id, us.original_transaction_id),
+    last_event_timestamp    = COALESCE(EXCLUDED.last_event_timestamp, us.last_event_timestamp),
+    last_synced_at          = now(),
+    updated_at              = now()
+  WHERE p_applied_state IS NULL
+     OR us.last_event_timestamp IS NOT DISTINCT FROM v_expected_event_timestamp
+  RETURNING home_id INTO v_home_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'subscription_state_changed'
+      USING ERRCODE = '40001',
+            DETAIL  = 'Another RevenueCat event was applied since the webhook read the subscription.';
+  END IF;
+
+  ------------------------------------------------------------------
+  -- Optional: log inside RPC too (safe upsert)
+  ------------------------------------------------------------------
+  INSERT INTO public.revenuecat_webhook_events (
+    created_at,
+    event_timestamp,
+    environment,
+    idempotency_key,
+    rc_event_id,
+    original_transaction_id,
+    latest_transaction_id,
+    rc_app_user_id,
+    home_id,
+    entitlement_id,
+    entitlement_ids,
+    product_id,
+    store,
+    status,
+    current_period_end_at,
+    original_purchase_at,
+    last_purchase_at,
+    warnings,
+    raw
+  ) VALUES (
+    now(),
+    p_event_timestamp,
+    p_environment,
+    p_idempotency_key,
+    p_rc_event_id,
+    p_original_transaction_id,
+    p_latest_transaction_id,
+    p_rc_app_user_id,
+    COALESCE(p_home_id, v_home_id),
+    p_entitlement_id,
+    p_entitlement_ids,
+    p_product_id,
+    p_store,
+    p_status,
+    p_current_period_end_at,
+    p_original_purchase_at,
+    p_last_purchase_at,
+    p_warnings,
+    p_raw_event
+  )
+  ON CONFLICT (environment, idempotency_key)
+  WHERE idempotency_key IS NOT NULL
+  DO NOTHING;
+
+  ------------------------------------------------------------------
+  -- Refresh home entitlements
+  ------------------------------------------------------------------
+  PERFORM public.home_entitlements_refresh(COALESCE(p_home_id, v_home_id));
+
+  -- Mark succeeded
+  UPDATE public.revenuecat_event_processing
+  SET status = 'succeeded'::public.revenuecat_processing_status, last_error = NULL, updated_at = now()
+  WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+  RETURN false; -- processed now
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Mark failed (so retries can reattempt)
+    UPDATE public.revenuecat_event_processing
+    SET status = 'failed'::public.revenuecat_processing_status, last_error = SQLERRM, updated_at = now()
+    WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+    RAISE;
+END;
+$$;
+
+COMMENT ON FUNCTION public.paywall_record_subscription IS
+  'Idempotent service-role helper invoked by RevenueCat webhook. Safe for retries via revenuecat_event_processing. Guards out-of-order events via p_applied_state. Returns deduped boolean.';
+
+REVOKE ALL ON FUNCTION public.paywall_record_subscription(
+  text, uuid, uuid, public.subscription_store,
+  text, text, text, public.subscription_status,
+  timestamptz, timestamptz, timestamptz, text,
+  text[], timestamptz, text, text, text, jsonb, text[], jsonb
+) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.paywall_record_subscription(
+  text, uuid, uuid, public.subscription_store,
+  text, text, text, public.subscription_status,
+  timestamptz, timestamptz, timestamptz, text,
+  text[], timestamptz, text, text, text, jsonb, text[], jsonb
+) TO service_role;
@@ -0,0 +1,10 @@
+-- Add the grace_period subscription status ahead of migrations that use it
+-- (BILLING_ISSUE: the store is retrying the charge; the home stays premium until the grace period ends)
+DO $$
+BEGIN
+  BEGIN
+    ALTER TYPE public.subscription_status ADD VALUE 'grace_period' AFTER 'cancelled';
+  EXCEPTION
+    WHEN duplicate_object THEN NULL;
+  END;
+END $$;
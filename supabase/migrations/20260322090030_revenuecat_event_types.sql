@@ -0,0 +1,264 @@
+-- RevenueCat: full event type coverage
+-- - grace_period (BILLING_ISSUE) funds a home like active/cancelled until current_period_end_at,
+--   which the webhook sets to the store's grace period end
+-- - SUBSCRIPTION_PAUSED / SUBSCRIPTION_EXTENDED / NON_RENEWING_PURCHASE / TEMPORARY_ENTITLEMENT_GRANT
+--   go through paywall_record_subscription (status + current_period_end_at from the event)
+-- - TRANSFER: paywall_transfer_subscription() moves the subscription rows of the transferred_from
+--   users to the transferred_to user and their home
+
+-- --------------------------------------------------------------------
+-- grace_period funds homes
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.home_entitlements_refresh(_home_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_has_valid  boolean;
+  v_latest_exp timestamptz;
+BEGIN
+  SELECT
+    EXISTS (
+      SELECT 1
+        FROM public.user_subscriptions us
+       WHERE us.home_id = _home_id
+         AND us.status IN ('active', 'cancelled', 'grace_period')
+         AND (us.current_period_end_at IS NULL OR us.current_period_end_at > now())
+    ) AS has_valid_subscription,
+    MAX(us.current_period_end_at) AS latest_expiry
+  INTO v_has_valid, v_latest_exp
+  FROM public.user_subscriptions us
+  WHERE us.home_id = _home_id;
+
+  INSERT INTO public.home_entitlements AS he (home_id, plan, expires_at)
+  VALUES (
+    _home_id,
+    CASE WHEN v_has_valid THEN 'premium' ELSE 'free' END,
+    CASE WHEN v_has_valid THEN v_latest_exp ELSE NULL END
+  )
+  ON CONFLICT (home_id) DO UPDATE
+  SET
+    plan       = EXCLUDED.plan,
+    expires_at = EXCLUDED.expires_at,
+    updated_at = now();
+
+  -- If upgraded to premium, attempt to process pending member-cap joins
+  IF v_has_valid THEN
+    PERFORM public.member_cap_process_pending(_home_id);
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.home_entitlements_refresh(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.home_entitlements_refresh(uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public._home_attach_subscription_to_home(
+  _user_id uuid,
+  _home_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Attach the user's live subscription (if any) that is currently unattached
+  UPDATE public.user_subscriptions
+  SET home_id    = _home_id,
+      updated_at = now()
+  WHERE user_id = _user_id
+    AND home_id IS NULL
+    AND status IN ('active', 'cancelled', 'grace_period');
+
+  -- We rely on the trigger to call home_entitlements_refresh(_home_id)
+END;
+$$;
+
+-- Detach subs for this user from this home (make them float again)
+CREATE OR REPLACE FUNCTION public._home_detach_subscription_to_home(
+  _home_id uuid,
+  _user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.user_subscriptions
+  SET home_id    = NULL,
+      updated_at = now()
+  WHERE user_id = _user_id
+    AND home_id = _home_id
+    AND status IN ('active', 'cancelled', 'grace_period');
+
+  -- trigger on user_subscriptions will call home_entitlements_refresh(v_home_id)
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- TRANSFER
+-- --------------------------------------------------------------------
+-- RETURNS boolean: true = deduped (already succeeded), false = processed now
+-- - Receiving home: p_home_id (subscriber attribute) else the receiver's current home (else floating)
+-- - p_entitlement_ids limits the move when RevenueCat sends them; NULL moves every entitlement
+-- - The sender keeps an inactive, detached row stamped with the transfer time, so their late
+--   events are superseded instead of re-funding their home
+-- - user_subscriptions_home_entitlements_trg refreshes both homes
+CREATE OR REPLACE FUNCTION public.paywall_transfer_subscription(
+  p_idempotency_key text,
+  p_to_user_id      uuid,
+  p_from_user_ids   uuid[],
+  p_home_id         uuid DEFAULT NULL,
+  p_entitlement_ids text[] DEFAULT NULL,
+  p_event_timestamp timestamptz DEFAULT now(),
+  p_environment     text DEFAULT 'unknown'
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_status  public.revenuecat_processing_status;
+  v_home_id uuid;
+  v_at      timestamptz := COALESCE(p_event_timestamp, now());
+  v_sub     public.user_subscriptions;
+BEGIN
+  -- Prevent concurrent double-runs for the same idempotency key
+  PERFORM pg_advisory_xact_lock(hashtext(p_environment || ':' || p_idempotency_key));
+
+  IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+    RAISE EXCEPTION 'Missing p_idempotency_key';
+  END IF;
+
+  IF p_to_user_id IS NULL THEN
+    RAISE EXCEPTION 'Missing p_to_user_id';
+  END IF;
+
+  INSERT INTO public.revenuecat_event_processing AS ep (environment, idempotency_key, status, attempts, updated_at)
+  VALUES (p_environment, p_idempotency_key, 'processing'::public.revenuecat_processing_status, 1, now())
+  ON CONFLICT (environment, idempotency_key)
+  DO UPDATE SET
+    attempts   = ep.attempts + 1,
+    status     = CASE
+                  WHEN ep.status = 'succeeded' THEN 'succeeded'::public.revenuecat_processing_status
+                  ELSE 'processing'::public.revenuecat_processing_status
+                 END,
+    updated_at = now()
+  RETURNING status INTO v_status;
+
+  IF v_status = 'succeeded'::public.revenuecat_processing_status THEN
+    RETURN true; -- deduped
+  END IF;
+
+  v_home_id := COALESCE(
+    p_home_id,
+    (
+      SELECT m.home_id
+      FROM public.memberships m
+      WHERE m.user_id = p_to_user_id
+        AND m.is_current = TRUE
+      ORDER BY m.valid_from DESC
+      LIMIT 1
+    )
+  );
+
+  -- Latest purchase last, so it wins when several senders share an entitlement
+  FOR v_sub IN
+    SELECT us.*
+    FROM public.user_subscriptions us
+    WHERE us.user_id = ANY (COALESCE(p_from_user_ids, ARRAY[]::uuid[]))
+      AND us.user_id <> p_to_user_id
+      AND (p_entitlement_ids IS NULL OR us.rc_entitlement_id = ANY (p_entitlement_ids))
+      AND us.status <> 'inactive'
+    ORDER BY us.last_purchase_at ASC NULLS FIRST
+    FOR UPDATE
+  LOOP
+    INSERT INTO public.user_subscriptions AS us (
+      user_id,
+      home_id,
+      store,
+      rc_app_user_id,
+      rc_entitlement_id,
+      product_id,
+      status,
+      current_period_end_at,
+      original_purchase_at,
+      last_purchase_at,
+      latest_transaction_id,
+      original_transaction_id,
+      last_event_timestamp,
+      last_synced_at,
+      created_at,
+      updated_at
+    ) VALUES (
+      p_to_user_id,
+      v_home_id,
+      v_sub.store,
+      p_to_user_id::text,
+      v_sub.rc_entitlement_id,
+      v_sub.product_id,
+      v_sub.status,
+      v_sub.current_period_end_at,
+      v_sub.original_purchase_at,
+      v_sub.last_purchase_at,
+      v_sub.latest_transaction_id,
+      v_sub.original_transaction_id,
+      v_at,
+      now(),
+      now(),
+      now()
+    )
+    ON CONFLICT (user_id, rc_entitlement_id) DO UPDATE
+    SET
+      home_id                 = EXCLUDED.home_id,
+      store                   = EXCLUDED.store,
+      rc_app_user_id          = EXCLUDED.rc_app_user_id,
+      product_id              = EXCLUDED.product_id,
+      status                  = EXCLUDED.status,
+      current_period_end_at   = EXCLUDED.current_period_end_at,
+      original_purchase_at    = EXCLUDED.original_purchase_at,
+      last_purchase_at        = EXCLUDED.last_purchase_at,
+      latest_transaction_id   = EXCLUDED.latest_transaction_id,
+      original_transaction_id = EXCLUDED.original_transaction_id,
+      last_event_timestamp    = EXCLUDED.last_event_timestamp,
+      last_synced_at          = now(),
+      updated_at              = now();
+
+    UPDATE public.user_subscriptions
+    SET status               = 'inactive',
+        home_id              = NULL,
+        last_event_timestamp = GREATEST(last_event_timestamp, v_at),
+        last_synced_at       = now(),
+        updated_at           = now()
+    WHERE id = v_sub.id;
+  END LOOP;
+
+  UPDATE public.revenuecat_event_processing
+  SET status = 'succeeded'::public.revenuecat_processing_status, last_error = NULL, updated_at = now()
+  WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+  RETURN false; -- processed now
+
+EXCEPTION
+  WHEN OTHERS THEN
+    UPDATE public.revenuecat_event_processing
+    SET status = 'failed'::public.revenuecat_processing_status, last_error = SQLERRM, updated_at = now()
+    WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+    RAISE;
+END;
+$$;
+
+COMMENT ON FUNCTION public.paywall_transfer_subscription IS
+  'Service-role helper for RevenueCat TRANSFER events: moves subscriptions between users/homes. Idempotent via revenuecat_event_processing. Returns deduped boolean.';
+
+REVOKE ALL ON FUNCTION public.paywall_transfer_subscription(
+  text, uuid, uuid[], uuid, text[], timestamptz, text
+) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.paywall_transfer_subscription(
+  text, uuid, uuid[], uuid, text[], timestamptz, text
+) TO service_role;
@@ -0,0 +1,33 @@
+-- Subscription lifecycle statuses ahead of migrations that use them
+-- - grace_period -> in_grace (store retrying the charge; premium until grace_until_at)
+-- - cancelled -> cancelled_pending_expiry (auto-renew off; premium until current_period_end_at)
+-- - on_hold (billing failed and no grace left; no access until the store recovers the charge)
+-- Renames keep existing rows; functions referencing the old labels are replaced in the next migration.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'subscription_status'
+      AND e.enumlabel = 'grace_period'
+  ) THEN
+    ALTER TYPE public.subscription_status RENAME VALUE 'grace_period' TO 'in_grace';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM pg_enum e
+    JOIN pg_type t ON t.oid = e.enumtypid
+    WHERE t.typname = 'subscription_status'
+      AND e.enumlabel = 'cancelled'
+  ) THEN
+    ALTER TYPE public.subscription_status RENAME VALUE 'cancelled' TO 'cancelled_pending_expiry';
+  END IF;
+
+  BEGIN
+    ALTER TYPE public.subscription_status ADD VALUE 'on_hold' AFTER 'in_grace';
+  EXCEPTION
+    WHEN duplicate_object THEN NULL;
+  END;
+END $$;
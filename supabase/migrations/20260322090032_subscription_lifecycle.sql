@@ -0,0 +1,854 @@
+-- Subscription lifecycle (dunning) for home entitlements
+-- - Statuses: active | in_grace | on_hold | cancelled_pending_expiry | expired (+ inactive for
+--   unknown events / transferred-away rows)
+-- - Homes are funded by active and cancelled_pending_expiry subs until current_period_end_at and by
+--   in_grace subs until grace_until_at (from the event's grace_period_expiration_at), so a card
+--   hiccup no longer locks the home out of paywalled flows
+-- - paywall_record_subscription validates transitions (_subscription_transition_allowed, mirrored
+--   by revenuecat_webhook/lifecycle.ts) and raises invalid_subscription_transition (22023)
+-- - paywall_subscriptions_grace_sweep() (every 15 minutes) moves lapsed grace periods to on_hold
+-- - Every lifecycle step notifies the subscriber and the funded home's owner (kind subscription_status)
+
+-- --------------------------------------------------------------------
+-- Columns
+-- --------------------------------------------------------------------
+ALTER TABLE public.user_subscriptions
+  ADD COLUMN IF NOT EXISTS grace_until_at timestamptz;
+
+COMMENT ON COLUMN public.user_subscriptions.grace_until_at IS
+  'in_grace: end of the store billing grace period; the home stays premium until then.';
+
+ALTER TABLE public.revenuecat_webhook_events
+  ADD COLUMN IF NOT EXISTS grace_until_at timestamptz,
+  ADD COLUMN IF NOT EXISTS rejected_transition text;
+
+COMMENT ON COLUMN public.revenuecat_webhook_events.rejected_transition IS
+  'Set when the event would break the subscription lifecycle (e.g. expired->in_grace); the event was not applied.';
+
+-- grace_period rows (renamed in_grace) kept the grace end in current_period_end_at
+UPDATE public.user_subscriptions
+SET grace_until_at = current_period_end_at
+WHERE status = 'in_grace'
+  AND grace_until_at IS NULL;
+
+-- --------------------------------------------------------------------
+-- Lifecycle
+-- --------------------------------------------------------------------
+-- inactive is outside the lifecycle: any status may enter or leave it.
+CREATE OR REPLACE FUNCTION public._subscription_transition_allowed(
+  p_from public.subscription_status,
+  p_to   public.subscription_status
+) RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN p_from IS NULL OR p_from = 'inactive' OR p_to = 'inactive' THEN TRUE
+    WHEN p_from IN ('active', 'in_grace') THEN TRUE
+    -- Past the paid period: a late cancellation must not reopen access
+    WHEN p_from = 'on_hold' THEN p_to IN ('active', 'on_hold', 'expired')
+    -- Auto-renew is off, so no billing retries until the user resubscribes
+    WHEN p_from = 'cancelled_pending_expiry' THEN p_to IN ('active', 'cancelled_pending_expiry', 'expired')
+    WHEN p_from = 'expired' THEN p_to IN ('active', 'expired')
+    ELSE TRUE
+  END;
+$$;
+
+REVOKE ALL ON FUNCTION public._subscription_transition_allowed(
+  public.subscription_status, public.subscription_status
+) FROM PUBLIC, anon, authenticated;
+
+-- --------------------------------------------------------------------
+-- Home entitlements
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.home_entitlements_refresh(_home_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_has_valid  boolean;
+  v_latest_exp timestamptz;
+BEGIN
+  -- Funding rows and the date each funds until (in_grace: end of the grace period)
+  WITH funding AS (
+    SELECT CASE
+             WHEN us.status = 'in_grace' THEN us.grace_until_at
+             ELSE us.current_period_end_at
+           END AS funded_until,
+           us.status
+    FROM public.user_subscriptions us
+    WHERE us.home_id = _home_id
+      AND us.status IN ('active', 'in_grace', 'cancelled_pending_expiry')
+  )
+  SELECT
+    EXISTS (
+      SELECT 1
+      FROM funding f
+      WHERE (f.funded_until IS NULL AND f.status <> 'in_grace')
+         OR f.funded_until > now()
+    ),
+    (SELECT MAX(f.funded_until) FROM funding f)
+  INTO v_has_valid, v_latest_exp;
+
+  INSERT INTO public.home_entitlements AS he (home_id, plan, expires_at)
+  VALUES (
+    _home_id,
+    CASE WHEN v_has_valid THEN 'premium' ELSE 'free' END,
+    CASE WHEN v_has_valid THEN v_latest_exp ELSE NULL END
+  )
+  ON CONFLICT (home_id) DO UPDATE
+  SET
+    plan       = EXCLUDED.plan,
+    expires_at = EXCLUDED.expires_at,
+    updated_at = now();
+
+  -- If upgraded to premium, attempt to process pending member-cap joins
+  IF v_has_valid THEN
+    PERFORM public.member_cap_process_pending(_home_id);
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.home_entitlements_refresh(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.home_entitlements_refresh(uuid) TO service_role;
+
+-- on_hold subs still follow their owner between homes: they fund again once the store recovers
+CREATE OR REPLACE FUNCTION public._home_attach_subscription_to_home(
+  _user_id uuid,
+  _home_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Attach the user's live subscription (if any) that is currently unattached
+  UPDATE public.user_subscriptions
+  SET home_id    = _home_id,
+      updated_at = now()
+  WHERE user_id = _user_id
+    AND home_id IS NULL
+    AND status IN ('active', 'in_grace', 'on_hold', 'cancelled_pending_expiry');
+
+  -- We rely on the trigger to call home_entitlements_refresh(_home_id)
+END;
+$$;
+
+-- Detach subs for this user from this home (make them float again)
+CREATE OR REPLACE FUNCTION public._home_detach_subscription_to_home(
+  _home_id uuid,
+  _user_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.user_subscriptions
+  SET home_id    = NULL,
+      updated_at = now()
+  WHERE user_id = _user_id
+    AND home_id = _home_id
+    AND status IN ('active', 'in_grace', 'on_hold', 'cancelled_pending_expiry');
+
+  -- trigger on user_subscriptions will call home_entitlements_refresh(v_home_id)
+END;
+$$;
+
+-- + grace_until_at changes
+CREATE OR REPLACE FUNCTION public.user_subscriptions_home_entitlements_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- INSERT: new subscription row created
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.home_id IS NOT NULL THEN
+      PERFORM public.home_entitlements_refresh(NEW.home_id);
+    END IF;
+
+  -- UPDATE: subscription row changed
+  ELSIF TG_OP = 'UPDATE' THEN
+    -- Case 1: home_id changed (e.g. detach from one home, attach to another)
+    IF NEW.home_id IS DISTINCT FROM OLD.home_id THEN
+      -- Old home may have lost funding
+      IF OLD.home_id IS NOT NULL THEN
+        PERFORM public.home_entitlements_refresh(OLD.home_id);
+      END IF;
+
+      -- New home may have gained funding
+      IF NEW.home_id IS NOT NULL THEN
+        PERFORM public.home_entitlements_refresh(NEW.home_id);
+      END IF;
+
+    -- Case 2: same home_id, but status/expiry changed
+    ELSIF NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.current_period_end_at IS DISTINCT FROM OLD.current_period_end_at
+       OR NEW.grace_until_at IS DISTINCT FROM OLD.grace_until_at THEN
+      IF NEW.home_id IS NOT NULL THEN
+        PERFORM public.home_entitlements_refresh(NEW.home_id);
+      END IF;
+    END IF;
+
+  -- DELETE: subscription row removed
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.home_id IS NOT NULL THEN
+      PERFORM public.home_entitlements_refresh(OLD.home_id);
+    END IF;
+  END IF;
+
+  -- AFTER trigger: we don't modify the row itself
+  RETURN NULL;
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- Backend RPC: last applied state (+ status, for the webhook's lifecycle check)
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.paywall_subscription_applied_state(
+  p_user_id        uuid,
+  p_entitlement_id text
+) RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT jsonb_build_object(
+    'event_timestamp',         us.last_event_timestamp,
+    'original_transaction_id', us.original_transaction_id,
+    'latest_transaction_id',   us.latest_transaction_id,
+    'last_purchase_at',        us.last_purchase_at,
+    'status',                  us.status
+  )
+  FROM public.user_subscriptions us
+  WHERE us.user_id = p_user_id
+    AND us.rc_entitlement_id = p_entitlement_id;
+$$;
+
+-- --------------------------------------------------------------------
+-- paywall_record_subscription: + p_grace_until_at, lifecycle validation
+-- --------------------------------------------------------------------
+DROP FUNCTION IF EXISTS public.paywall_record_subscription(
+  text, uuid, uuid, public.subscription_store,
+  text, text, text, public.subscription_status,
+  timestamptz, timestamptz, timestamptz, text,
+  text[], timestamptz, text, text, text, jsonb, text[], jsonb
+);
+
+-- RETURNS boolean: true = deduped (already succeeded), false = processed now
+-- p_applied_state: the paywall_subscription_applied_state() the webhook ordered this event
+-- against ('{}' = nothing applied yet); NULL skips the check (event without a timestamp).
+-- p_grace_until_at: only kept for in_grace.
+CREATE OR REPLACE FUNCTION public.paywall_record_subscription(
+  p_idempotency_key text,
+  p_user_id uuid,
+  p_home_id uuid,
+  p_store public.subscription_store,
+  p_rc_app_user_id text,
+  p_entitlement_id text,
+  p_product_id text,
+  p_status public.subscription_status,
+  p_current_period_end_at timestamptz,
+  p_original_purchase_at timestamptz,
+  p_last_purchase_at timestamptz,
+  p_latest_transaction_id text,
+
+  -- optional (defaults) MUST be last
+  p_entitlement_ids text[] DEFAULT NULL,
+  p_event_timestamp timestamptz DEFAULT now(),
+  p_environment text DEFAULT 'unknown',
+  p_rc_event_id text DEFAULT NULL,
+  p_original_transaction_id text DEFAULT NULL,
+  p_raw_event jsonb DEFAULT NULL,
+  p_warnings text[] DEFAULT NULL,
+  p_applied_state jsonb DEFAULT NULL,
+  p_grace_until_at timestamptz DEFAULT NULL
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_status public.revenuecat_processing_status;
+  v_home_id uuid;
+  v_expected_event_timestamp timestamptz :=
+    (p_applied_state->>'event_timestamp')::timestamptz;
+  v_previous_status public.subscription_status;
+  v_grace_until_at timestamptz :=
+    CASE WHEN p_status = 'in_grace' THEN p_grace_until_at END;
+BEGIN
+  -- Prevent concurrent double-runs for the same idempotency key
+  PERFORM pg_advisory_xact_lock(hashtext(p_environment || ':' || p_idempotency_key));
+
+  -- Basic validation (defense in depth; webhook already validated)
+  IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+    RAISE EXCEPTION 'Missing p_idempotency_key';
+  END IF;
+
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'Missing p_user_id';
+  END IF;
+
+  -- home_id may be null (floating sub); allow nullable to align with edge behavior
+
+  -- Acquire processing record (or reuse)
+  INSERT INTO public.revenuecat_event_processing AS ep (environment, idempotency_key, status, attempts, updated_at)
+  VALUES (p_environment, p_idempotency_key, 'processing'::public.revenuecat_processing_status, 1, now())
+  ON CONFLICT (environment, idempotency_key)
+  DO UPDATE SET
+    attempts   = ep.attempts + 1,
+    status     = CASE
+                  WHEN ep.status = 'succeeded' THEN 'succeeded'::public.revenuecat_processing_status
+                  ELSE 'processing'::public.revenuecat_processing_status
+                 END,
+    updated_at = now()
+  RETURNING status INTO v_status;
+
+  -- If already succeeded, return immediately (idempotent)
+  IF v_status = 'succeeded'::public.revenuecat_processing_status THEN
+    RETURN true; -- deduped
+  END IF;
+
+  ------------------------------------------------------------------
+  -- Lifecycle: the row is locked until commit, so the check holds for the upsert
+  ------------------------------------------------------------------
+  SELECT us.status
+  INTO v_previous_status
+  FROM public.user_subscriptions us
+  WHERE us.user_id = p_user_id
+    AND us.rc_entitlement_id = p_entitlement_id
+  FOR UPDATE;
+
+  IF NOT public._subscription_transition_allowed(v_previous_status, p_status) THEN
+    RAISE EXCEPTION 'invalid_subscription_transition'
+      USING ERRCODE = '22023',
+            DETAIL  = format('%s->%s', v_previous_status, p_status);
+  END IF;
+
+  ------------------------------------------------------------------
+  -- Upsert subscription snapshot (only over the state the webhook compared against)
+  ------------------------------------------------------------------
+  INSERT INTO public.user_subscriptions AS us (
+    user_id,
+    home_id,
+    store,
+    rc_app_user_id,
+    rc_entitlement_id,
+    product_id,
+    status,
+    current_period_end_at,
+    grace_until_at,
+    original_purchase_at,
+    last_purchase_at,
+    latest_transaction_id,
+    original_transaction_id,
+    last_event_timestamp,
+    last_synced_at,
+    created_at,
+    updated_at
+  ) VALUES (
+    p_user_id,
+    p_home_id,
+    p_store,
+    p_rc_app_user_id,
+    p_entitlement_id,
+    p_product_id,
+    p_status,
+    p_current_period_end_at,
+    v_grace_until_at,
+    p_original_purchase_at,
+    p_last_purchase_at,
+    p_latest_transaction_id,
+    p_original_transaction_id,
+    p_event_timestamp,
+    now(),
+    now(),
+    now()
+  )
+  ON CONFLICT (user_id, rc_entitlement_id) DO UPDATE
+  SET
+    home_id                 = EXCLUDED.home_id,
+    store                   = EXCLUDED.store,
+    rc_app_user_id          = EXCLUDED.rc_app_user_id,
+    product_id              = EXCLUDED.product_id,
+    status                  = EXCLUDED.status,
+    current_period_end_at   = EXCLUDED.current_period_end_at,
+    grace_until_at          = EXCLUDED.grace_until_at,
+    original_purchase_at    = EXCLUDED.original_purchase_at,
+    last_purchase_at        = EXCLUDED.last_purchase_at,
+    latest_transaction_id   = EXCLUDED.latest_transaction_id,
+    -- Untimed events cannot be ordered: keep the last known ordering state
+    original_transaction_id = COALESCE(EXCLUDED.original_transaction_id, us.original_transaction_id),
+    last_event_timestamp    = COALESCE(EXCLUDED.last_event_timestamp, us.last_event_timestamp),
+    last_synced_at          = now(),
+    updated_at              = now()
+  WHERE p_applied_state IS NULL
+     OR us.last_event_timestamp IS NOT DISTINCT FROM v_expected_event_timestamp
+  RETURNING home_id INTO v_home_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'subscription_state_changed'
+      USING ERRCODE = '40001',
+            DETAIL  = 'Another RevenueCat event was applied since the webhook read the subscription.';
+  END IF;
+
+  ------------------------------------------------------------------
+  -- Optional: log inside RPC too (safe upsert)
+  ------------------------------------------------------------------
+  INSERT INTO public.revenuecat_webhook_events (
+    created_at,
+    event_timestamp,
+    environment,
+    idempotency_key,
+    rc_event_id,
+    original_transaction_id,
+    latest_transaction_id,
+    rc_app_user_id,
+    home_id,
+    entitlement_id,
+    entitlement_ids,
+    product_id,
+    store,
+    status,
+    current_period_end_at,
+    grace_until_at,
+    original_purchase_at,
+    last_purchase_at,
+    warnings,
+    raw
+  ) VALUES (
+    now(),
+    p_event_timestamp,
+    p_environment,
+    p_idempotency_key,
+    p_rc_event_id,
+    p_original_transaction_id,
+    p_latest_transaction_id,
+    p_rc_app_user_id,
+    COALESCE(p_home_id, v_home_id),
+    p_entitlement_id,
+    p_entitlement_ids,
+    p_product_id,
+    p_store,
+    p_status,
+    p_current_period_end_at,
+    v_grace_until_at,
+    p_original_purchase_at,
+    p_last_purchase_at,
+    p_warnings,
+    p_raw_event
+  )
+  ON CONFLICT (environment, idempotency_key)
+  WHERE idempotency_key IS NOT NULL
+  DO NOTHING;
+
+  ------------------------------------------------------------------
+  -- Refresh home entitlements
+  ------------------------------------------------------------------
+  PERFORM public.home_entitlements_refresh(COALESCE(p_home_id, v_home_id));
+
+  -- Mark succeeded
+  UPDATE public.revenuecat_event_processing
+  SET status = 'succeeded'::public.revenuecat_processing_status, last_error = NULL, updated_at = now()
+  WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+  RETURN false; -- processed now
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Mark failed (so retries can reattempt)
+    UPDATE public.revenuecat_event_processing
+    SET status = 'failed'::public.revenuecat_processing_status, last_error = SQLERRM, updated_at = now()
+    WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+    RAISE;
+END;
+$$;
+
+COMMENT ON FUNCTION public.paywall_record_subscription IS
+  'Idempotent service-role helper invoked by RevenueCat webhook. Safe for retries via revenuecat_event_processing. Guards out-of-order events via p_applied_state and the subscription lifecycle via _subscription_transition_allowed. Returns deduped boolean.';
+
+REVOKE ALL ON FUNCTION public.paywall_record_subscription(
+  text, uuid, uuid, public.subscription_store,
+  text, text, text, public.subscription_status,
+  timestamptz, timestamptz, timestamptz, text,
+  text[], timestamptz, text, text, text, jsonb, text[], jsonb, timestamptz
+) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.paywall_record_subscription(
+  text, uuid, uuid, public.subscription_store,
+  text, text, text, public.subscription_status,
+  timestamptz, timestamptz, timestamptz, text,
+  text[], timestamptz, text, text, text, jsonb, text[], jsonb, timestamptz
+) TO service_role;
+
+-- --------------------------------------------------------------------
+-- TRANSFER: + grace_until_at (a move, not a lifecycle step: no transition check)
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.paywall_transfer_subscription(
+  p_idempotency_key text,
+  p_to_user_id      uuid,
+  p_from_user_ids   uuid[],
+  p_home_id         uuid DEFAULT NULL,
+  p_entitlement_ids text[] DEFAULT NULL,
+  p_event_timestamp timestamptz DEFAULT now(),
+  p_environment     text DEFAULT 'unknown'
+) RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_status  public.revenuecat_processing_status;
+  v_home_id uuid;
+  v_at      timestamptz := COALESCE(p_event_timestamp, now());
+  v_sub     public.user_subscriptions;
+BEGIN
+  -- Prevent concurrent double-runs for the same idempotency key
+  PERFORM pg_advisory_xact_lock(hashtext(p_environment || ':' || p_idempotency_key));
+
+  IF p_idempotency_key IS NULL OR length(trim(p_idempotency_key)) = 0 THEN
+    RAISE EXCEPTION 'Missing p_idempotency_key';
+  END IF;
+
+  IF p_to_user_id IS NULL THEN
+    RAISE EXCEPTION 'Missing p_to_user_id';
+  END IF;
+
+  INSERT INTO public.revenuecat_event_processing AS ep (environment, idempotency_key, status, attempts, updated_at)
+  VALUES (p_environment, p_idempotency_key, 'processing'::public.revenuecat_processing_status, 1, now())
+  ON CONFLICT (environment, idempotency_key)
+  DO UPDATE SET
+    attempts   = ep.attempts + 1,
+    status     = CASE
+                  WHEN ep.status = 'succeeded' THEN 'succeeded'::public.revenuecat_processing_status
+                  ELSE 'processing'::public.revenuecat_processing_status
+                 END,
+    updated_at = now()
+  RETURNING status INTO v_status;
+
+  IF v_status = 'succeeded'::public.revenuecat_processing_status THEN
+    RETURN true; -- deduped
+  END IF;
+
+  v_home_id := COALESCE(
+    p_home_id,
+    (
+      SELECT m.home_id
+      FROM public.memberships m
+      WHERE m.user_id = p_to_user_id
+        AND m.is_current = TRUE
+      ORDER BY m.valid_from DESC
+      LIMIT 1
+    )
+  );
+
+  -- Latest purchase last, so it wins when several senders share an entitlement
+  FOR v_sub IN
+    SELECT us.*
+    FROM public.user_subscriptions us
+    WHERE us.user_id = ANY (COALESCE(p_from_user_ids, ARRAY[]::uuid[]))
+      AND us.user_id <> p_to_user_id
+      AND (p_entitlement_ids IS NULL OR us.rc_entitlement_id = ANY (p_entitlement_ids))
+      AND us.status <> 'inactive'
+    ORDER BY us.last_purchase_at ASC NULLS FIRST
+    FOR UPDATE
+  LOOP
+    INSERT INTO public.user_subscriptions AS us (
+      user_id,
+      home_id,
+      store,
+      rc_app_user_id,
+      rc_entitlement_id,
+      product_id,
+      status,
+      current_period_end_at,
+      grace_until_at,
+      original_purchase_at,
+      last_purchase_at,
+      latest_transaction_id,
+      original_transaction_id,
+      last_event_timestamp,
+      last_synced_at,
+      created_at,
+      updated_at
+    ) VALUES (
+      p_to_user_id,
+      v_home_id,
+      v_sub.store,
+      p_to_user_id::text,
+      v_sub.rc_entitlement_id,
+      v_sub.product_id,
+      v_sub.status,
+      v_sub.current_period_end_at,
+      v_sub.grace_until_at,
+      v_sub.original_purchase_at,
+      v_sub.last_purchase_at,
+      v_sub.latest_transaction_id,
+      v_sub.original_transaction_id,
+      v_at,
+      now(),
+      now(),
+      now()
+    )
+    ON CONFLICT (user_id, rc_entitlement_id) DO UPDATE
+    SET
+      home_id                 = EXCLUDED.home_id,
+      store                   = EXCLUDED.store,
+      rc_app_user_id          = EXCLUDED.rc_app_user_id,
+      product_id              = EXCLUDED.product_id,
+      status                  = EXCLUDED.status,
+      current_period_end_at   = EXCLUDED.current_period_end_at,
+      grace_until_at          = EXCLUDED.grace_until_at,
+      original_purchase_at    = EXCLUDED.original_purchase_at,
+      last_purchase_at        = EXCLUDED.last_purchase_at,
+      latest_transaction_id   = EXCLUDED.latest_transaction_id,
+      original_transaction_id = EXCLUDED.original_transaction_id,
+      last_event_timestamp    = EXCLUDED.last_event_timestamp,
+      last_synced_at          = now(),
+      updated_at              = now();
+
+    UPDATE public.user_subscriptions
+    SET status               = 'inactive',
+        home_id              = NULL,
+        last_event_timestamp = GREATEST(last_event_timestamp, v_at),
+        last_synced_at       = now(),
+        updated_at           = now()
+    WHERE id = v_sub.id;
+  END LOOP;
+
+  UPDATE public.revenuecat_event_processing
+  SET status = 'succeeded'::public.revenuecat_processing_status, last_error = NULL, updated_at = now()
+  WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+  RETURN false; -- processed now
+
+EXCEPTION
+  WHEN OTHERS THEN
+    UPDATE public.revenuecat_event_processing
+    SET status = 'failed'::public.revenuecat_processing_status, last_error = SQLERRM, updated_at = now()
+    WHERE environment = p_environment AND idempotency_key = p_idempotency_key;
+
+    RAISE;
+END;
+$$;
+
+-- --------------------------------------------------------------------
+-- Grace sweep: RevenueCat sends no event when a grace period lapses
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.paywall_subscriptions_grace_sweep()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  -- Triggers refresh the homes and notify
+  UPDATE public.user_subscriptions
+  SET status     = 'on_hold',
+      updated_at = now()
+  WHERE status = 'in_grace'
+    AND (grace_until_at IS NULL OR grace_until_at <= now());
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.paywall_subscriptions_grace_sweep()
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.paywall_subscriptions_grace_sweep()
+  TO service_role;
+
+DO $$
+DECLARE
+  v_job_id integer;
+BEGIN
+  BEGIN
+    SELECT j.jobid
+      INTO v_job_id
+      FROM cron.job j
+     WHERE j.jobname = 'paywall_subscriptions_grace_sweep_15m'
+     LIMIT 1;
+
+    IF v_job_id IS NOT NULL THEN
+      PERFORM cron.unschedule(v_job_id);
+    END IF;
+
+    PERFORM cron.schedule(
+      'paywall_subscriptions_grace_sweep_15m',
+      '*/15 * * * *',
+      $cmd$SELECT public.paywall_subscriptions_grace_sweep();$cmd$
+    );
+  EXCEPTION
+    WHEN undefined_table OR insufficient_privilege THEN
+      RAISE NOTICE 'Skipping pg_cron schedule: cron.job unavailable or insufficient privileges.';
+  END;
+END
+$$;
+
+-- --------------------------------------------------------------------
+-- subscription_status notifications
+-- --------------------------------------------------------------------
+ALTER TABLE public.notification_events
+  DROP CONSTRAINT IF EXISTS chk_notification_events_kind,
+  ADD CONSTRAINT chk_notification_events_kind CHECK (
+    kind IN (
+      'chore_assigned', 'expense_owed', 'expense_reminder', 'gratitude_mention',
+      'house_pulse_weekly', 'subscription_status'
+    )
+  );
+
+ALTER TABLE public.notification_preferences
+  DROP CONSTRAINT IF EXISTS chk_notification_preferences_disabled_kinds,
+  ADD CONSTRAINT chk_notification_preferences_disabled_kinds
+    CHECK (
+      disabled_kinds <@ ARRAY[
+        'chore_assigned', 'expense_owed', 'expense_reminder', 'gratitude_mention',
+        'house_pulse_weekly', 'subscription_status'
+      ]::text[]
+    );
+
+CREATE OR REPLACE FUNCTION public.notifications_set_kind_enabled(
+  p_kind    text,
+  p_enabled boolean
+)
+RETURNS public.notification_preferences
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_pref    public.notification_preferences;
+BEGIN
+  PERFORM public._assert_authenticated();
+
+  PERFORM public.api_assert(
+    p_kind IN (
+      'chore_assigned', 'expense_owed', 'expense_reminder', 'gratitude_mention',
+      'house_pulse_weekly', 'subscription_status'
+    ),
+    'INVALID_NOTIFICATION_KIND',
+    'Unknown notification kind.',
+    '22023',
+    jsonb_build_object('kind', p_kind)
+  );
+  PERFORM public.api_assert(
+    p_enabled IS NOT NULL,
+    'INVALID_ENABLED',
+    'Enabled flag is required.',
+    '22023'
+  );
+
+  UPDATE public.notification_preferences
+     SET disabled_kinds = CASE
+           WHEN p_enabled THEN array_remove(disabled_kinds, p_kind)
+           WHEN p_kind = ANY (disabled_kinds) THEN disabled_kinds
+           ELSE array_append(disabled_kinds, p_kind)
+         END,
+         updated_at = now()
+   WHERE user_id = v_user_id
+  RETURNING * INTO v_pref;
+
+  PERFORM public.api_assert(
+    v_pref.user_id IS NOT NULL,
+    'PREFERENCES_NOT_FOUND',
+    'Notification preferences have not been set up yet.',
+    'P0001'
+  );
+
+  RETURN v_pref;
+END;
+$$;
+
+-- Lifecycle step: entering in_grace / on_hold / cancelled_pending_expiry / expired, or back to
+-- active from a billing problem. Recipients: the subscriber and the funded home's owner.
+-- One push per step per billing period (dedupe on current_period_end_at).
+CREATE OR REPLACE FUNCTION public.notification_events_subscription_status_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_previous   public.subscription_status;
+  v_home_owner uuid;
+  v_until      timestamptz;
+  v_period     text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_previous := OLD.status;
+  END IF;
+
+  IF NEW.status = 'active' THEN
+    IF v_previous IS NULL OR v_previous NOT IN ('in_grace', 'on_hold') THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.status NOT IN ('in_grace', 'on_hold', 'cancelled_pending_expiry', 'expired') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT h.owner_user_id INTO v_home_owner
+  FROM public.homes h
+  WHERE h.id = NEW.home_id;
+
+  v_until := CASE NEW.status
+               WHEN 'in_grace' THEN NEW.grace_until_at
+               WHEN 'cancelled_pending_expiry' THEN NEW.current_period_end_at
+             END;
+  v_period := COALESCE(extract(epoch FROM NEW.current_period_end_at)::bigint::text, 'open');
+
+  PERFORM public._notification_event_enqueue(
+    'subscription_status',
+    NEW.user_id,
+    NEW.home_id,
+    NULL,
+    jsonb_build_object(
+      'status',          NEW.status,
+      'previous_status', v_previous,
+      'until',           v_until,
+      'audience',        'subscriber'
+    ),
+    format('subscription_status:%s:%s:%s:%s', NEW.id, NEW.status, v_period, NEW.user_id)
+  );
+
+  IF v_home_owner IS DISTINCT FROM NEW.user_id THEN
+    PERFORM public._notification_event_enqueue(
+      'subscription_status',
+      v_home_owner,
+      NEW.home_id,
+      NULL,
+      jsonb_build_object(
+        'status',          NEW.status,
+        'previous_status', v_previous,
+        'until',           v_until,
+        'audience',        'home_owner'
+      ),
+      format('subscription_status:%s:%s:%s:%s', NEW.id, NEW.status, v_period, v_home_owner)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_notification_events_subscription_status ON public.user_subscriptions;
+CREATE TRIGGER trg_notification_events_subscription_status
+AFTER INSERT OR UPDATE OF status ON public.user_subscriptions
+FOR EACH ROW
+WHEN (NEW.status <> 'inactive')
+EXECUTE FUNCTION public.notification_events_subscription_status_trigger();
+
+REVOKE ALL ON FUNCTION public.notification_events_subscription_status_trigger()
+  FROM PUBLIC, anon, authenticated;
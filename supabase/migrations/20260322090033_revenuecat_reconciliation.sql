@@ -0,0 +1,246 @@
+-- RevenueCat REST reconciliation (cron: hourly -> revenuecat_reconcile edge function)
+-- - A lost webhook, or one rejected before paywall_record_subscription (missing_home_id,
+--   rpc_failure), leaves user_subscriptions / home_entitlements wrong until the next event.
+-- - paywall_reconcile_candidates() picks the users to cross-check against GET /v1/subscribers:
+--   recent failed webhooks first, then live subscriptions not verified within p_stale_after
+--   (nearest period end first).
+-- - Corrections go through paywall_record_subscription (synthetic reconcile:* idempotency key),
+--   so ordering, lifecycle and home refresh behave exactly like a webhook.
+-- - paywall_reconcile_record_check() stamps each verified user in revenuecat_subscriber_checks.
+-- - The cron sends x-internal-secret from vault secret BILLING_INTERNAL_SECRET (must match the
+--   function secret of the same name).
+
+-- --------------------------------------------------------------------
+-- TABLE: revenuecat_subscriber_checks
+-- --------------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.revenuecat_subscriber_checks (
+  user_id     uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  checked_at  timestamptz NOT NULL DEFAULT now(),
+  outcome     text NOT NULL CHECK (
+    outcome IN ('unchanged', 'corrected', 'not_found', 'raced', 'rejected', 'error')
+  ),
+  corrections integer NOT NULL DEFAULT 0,
+  error       text
+);
+
+COMMENT ON TABLE public.revenuecat_subscriber_checks IS
+  'Last RevenueCat REST cross-check per user (revenuecat_reconcile job).';
+COMMENT ON COLUMN public.revenuecat_subscriber_checks.outcome IS
+  'unchanged | corrected | not_found (no RevenueCat subscriber) | raced (webhook applied meanwhile) | rejected (invalid lifecycle transition) | error.';
+COMMENT ON COLUMN public.revenuecat_subscriber_checks.corrections IS
+  'Entitlements rewritten through paywall_record_subscription in this check.';
+
+ALTER TABLE public.revenuecat_subscriber_checks ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON TABLE public.revenuecat_subscriber_checks FROM anon, authenticated;
+GRANT ALL ON TABLE public.revenuecat_subscriber_checks TO service_role;
+
+-- --------------------------------------------------------------------
+-- Candidates
+-- --------------------------------------------------------------------
+-- One row per user:
+-- - reason 'webhook_error': a webhook for them failed (fatal / rpc) in the last 7 days and they
+--   were not checked since. Matched on subscriber_attributes.user_id, else app_user_id.
+-- - reason 'stale': a subscription that is not inactive (or expired within 7 days) and no check
+--   within p_stale_after.
+-- subscriptions: every user_subscriptions row (inactive included, so transferred-away
+-- entitlements are not recreated).
+CREATE OR REPLACE FUNCTION public.paywall_reconcile_candidates(
+  p_limit       integer DEFAULT 100,
+  p_stale_after interval DEFAULT interval '24 hours'
+)
+RETURNS TABLE (
+  user_id         uuid,
+  reason          text,
+  current_home_id uuid,
+  subscriptions   jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH failed AS (
+    SELECT p.id AS user_id, MAX(e.created_at) AS failed_at
+    FROM public.revenuecat_webhook_events e
+    JOIN public.profiles p
+      ON p.id::text = COALESCE(
+           e.raw #>> '{event,subscriber_attributes,user_id,value}',
+           e.rc_app_user_id
+         )
+    WHERE (e.fatal_error_code IS NOT NULL OR e.rpc_error_code IS NOT NULL)
+      AND e.created_at > now() - interval '7 days'
+    GROUP BY p.id
+  ),
+  live AS (
+    SELECT us.user_id, MIN(us.current_period_end_at) AS next_end_at
+    FROM public.user_subscriptions us
+    WHERE us.status <> 'inactive'
+      AND (
+        us.status <> 'expired'
+        OR us.current_period_end_at > now() - interval '7 days'
+      )
+    GROUP BY us.user_id
+  ),
+  pool AS (
+    SELECT
+      COALESCE(f.user_id, l.user_id) AS user_id,
+      f.failed_at,
+      l.user_id IS NOT NULL AS has_live,
+      l.next_end_at
+    FROM failed f
+    FULL JOIN live l ON l.user_id = f.user_id
+  ),
+  due AS (
+    SELECT
+      pool.user_id,
+      CASE
+        WHEN pool.failed_at IS NOT NULL
+         AND (c.checked_at IS NULL OR c.checked_at < pool.failed_at)
+          THEN 'webhook_error'
+        ELSE 'stale'
+      END AS reason,
+      pool.next_end_at
+    FROM pool
+    LEFT JOIN public.revenuecat_subscriber_checks c ON c.user_id = pool.user_id
+    WHERE (
+        pool.failed_at IS NOT NULL
+        AND (c.checked_at IS NULL OR c.checked_at < pool.failed_at)
+      )
+       OR (
+        pool.has_live
+        AND (c.checked_at IS NULL OR c.checked_at < now() - p_stale_after)
+      )
+  )
+  SELECT
+    due.user_id,
+    due.reason,
+    (
+      SELECT m.home_id
+      FROM public.memberships m
+      WHERE m.user_id = due.user_id
+        AND m.is_current = TRUE
+      ORDER BY m.valid_from DESC
+      LIMIT 1
+    ) AS current_home_id,
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+                 jsonb_build_object(
+                   'entitlement_id',        us.rc_entitlement_id,
+                   'status',                us.status,
+                   'product_id',            us.product_id,
+                   'store',                 us.store,
+                   'home_id',               us.home_id,
+                   'current_period_end_at', us.current_period_end_at,
+                   'grace_until_at',        us.grace_until_at,
+                   'original_purchase_at',  us.original_purchase_at,
+                   'last_purchase_at',      us.last_purchase_at,
+                   'latest_transaction_id', us.latest_transaction_id,
+                   'last_event_timestamp',  us.last_event_timestamp
+                 )
+                 ORDER BY us.rc_entitlement_id
+               )
+        FROM public.user_subscriptions us
+        WHERE us.user_id = due.user_id
+      ),
+      '[]'::jsonb
+    ) AS subscriptions
+  FROM due
+  ORDER BY
+    (due.reason = 'webhook_error') DESC,
+    due.next_end_at ASC NULLS LAST,
+    due.user_id
+  LIMIT GREATEST(LEAST(COALESCE(p_limit, 100), 500), 1);
+$$;
+
+COMMENT ON FUNCTION public.paywall_reconcile_candidates(integer, interval) IS
+  'Service-role: users whose subscriptions should be cross-checked against the RevenueCat REST API (failed webhooks first, then stale live subscriptions).';
+
+REVOKE ALL ON FUNCTION public.paywall_reconcile_candidates(integer, interval)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.paywall_reconcile_candidates(integer, interval)
+  TO service_role;
+
+-- --------------------------------------------------------------------
+-- Check bookkeeping
+-- --------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.paywall_reconcile_record_check(
+  p_user_id     uuid,
+  p_outcome     text,
+  p_corrections integer DEFAULT 0,
+  p_error       text DEFAULT NULL
+) RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.revenuecat_subscriber_checks AS c (user_id, checked_at, outcome, corrections, error)
+  VALUES (p_user_id, now(), p_outcome, COALESCE(p_corrections, 0), p_error)
+  ON CONFLICT (user_id) DO UPDATE
+  SET checked_at  = EXCLUDED.checked_at,
+      outcome     = EXCLUDED.outcome,
+      corrections = EXCLUDED.corrections,
+      error       = EXCLUDED.error;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.paywall_reconcile_record_check(uuid, text, integer, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.paywall_reconcile_record_check(uuid, text, integer, text)
+  TO service_role;
+
+-- --------------------------------------------------------------------
+-- Cron: hourly; each run verifies one page of candidates
+-- --------------------------------------------------------------------
+do $$
+declare
+  v_job_id integer;
+begin
+  begin
+    select j.jobid
+      into v_job_id
+      from cron.job j
+     where j.jobname = 'revenuecat_reconcile_hourly'
+     limit 1;
+
+    if v_job_id is not null then
+      perform cron.unschedule(v_job_id);
+    end if;
+
+    perform cron.schedule(
+      'revenuecat_reconcile_hourly',
+      '40 * * * *',
+      $cmd$
+      select net.http_post(
+        url := (
+          select decrypted_secret
+          from vault.decrypted_secrets
+          where name = 'SUPABASE_URL'
+        ) || '/functions/v1/revenuecat_reconcile',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'SUPABASE_ANON_KEY'
+          ),
+          'x-internal-secret', (
+            select decrypted_secret
+            from vault.decrypted_secrets
+            where name = 'BILLING_INTERNAL_SECRET'
+          )
+        ),
+        body := jsonb_build_object(
+          'scheduled_at', now()
+        ),
+        timeout_milliseconds := 8000
+      );
+      $cmd$
+    );
+  exception
+    when undefined_table or insufficient_privilege then
+      raise notice 'Skipping pg_cron schedule: revenuecat_reconcile.';
+  end;
+end
+$$;
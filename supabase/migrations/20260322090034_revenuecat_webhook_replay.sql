@@ -0,0 +1,297 @@
+-- RevenueCat webhook replay (revenuecat_webhook_replay edge function)
+-- - Every raw payload is kept in revenuecat_webhook_events.raw, including events that failed
+--   validation (fatal_error_code) or the RPC (rpc_error_code). After a webhook fix they can be
+--   reprocessed through the webhook's processing path (same audit row + idempotency key, so
+--   already applied events dedupe in revenuecat_event_processing).
+-- - paywall_webhook_replay_events() selects failed events by filter, oldest event first.
+-- - paywall_webhook_replay_preview() projects the home plans a dry run would produce, from the
+--   subscription writes the replay captured instead of applying.
+-- - paywall_webhook_replay_mark() stamps replayed events.
+
+-- --------------------------------------------------------------------
+-- Columns
+-- --------------------------------------------------------------------
+ALTER TABLE public.revenuecat_webhook_events
+  ADD COLUMN IF NOT EXISTS replayed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS replay_outcome text;
+
+COMMENT ON COLUMN public.revenuecat_webhook_events.replayed_at IS
+  'Last time the stored payload was reprocessed by revenuecat_webhook_replay.';
+COMMENT ON COLUMN public.revenuecat_webhook_events.replay_outcome IS
+  'Outcome of the last replay: applied | deduped | superseded | rejected | fatal | failed.';
+
+-- --------------------------------------------------------------------
+-- Event selection
+-- --------------------------------------------------------------------
+-- Failed events only (fatal_error_code or rpc_error_code set) that no replay has resolved yet
+-- (a successful replay clears fatal_error_code but keeps the rpc diagnostics); NULL filters
+-- match everything.
+-- p_home_id matches the audited home_id or the payload's home_id subscriber attribute.
+CREATE OR REPLACE FUNCTION public.paywall_webhook_replay_events(
+  p_fatal_error_code text DEFAULT NULL,
+  p_rpc_retryable    boolean DEFAULT NULL,
+  p_from             timestamptz DEFAULT NULL,
+  p_to               timestamptz DEFAULT NULL,
+  p_home_id          uuid DEFAULT NULL,
+  p_limit            integer DEFAULT 100
+)
+RETURNS TABLE (
+  id               uuid,
+  environment      text,
+  idempotency_key  text,
+  created_at       timestamptz,
+  event_timestamp  timestamptz,
+  home_id          uuid,
+  fatal_error_code text,
+  rpc_error_code   text,
+  rpc_retryable    boolean,
+  replayed_at      timestamptz,
+  raw              jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    e.id,
+    e.environment,
+    e.idempotency_key,
+    e.created_at,
+    e.event_timestamp,
+    e.home_id,
+    e.fatal_error_code,
+    e.rpc_error_code,
+    e.rpc_retryable,
+    e.replayed_at,
+    e.raw
+  FROM public.revenuecat_webhook_events e
+  WHERE e.raw IS NOT NULL
+    AND (e.fatal_error_code IS NOT NULL OR e.rpc_error_code IS NOT NULL)
+    AND (e.replay_outcome IS NULL OR e.replay_outcome IN ('fatal', 'failed'))
+    AND (p_fatal_error_code IS NULL OR e.fatal_error_code = p_fatal_error_code)
+    AND (p_rpc_retryable IS NULL OR e.rpc_retryable = p_rpc_retryable)
+    AND (p_from IS NULL OR e.created_at >= p_from)
+    AND (p_to IS NULL OR e.created_at < p_to)
+    AND (
+      p_home_id IS NULL
+      OR e.home_id = p_home_id
+      OR e.raw #>> '{event,subscriber_attributes,home_id,value}' = p_home_id::text
+    )
+  -- Replay in delivery order so the webhook's ordering checks see events as RevenueCat sent them
+  ORDER BY COALESCE(e.event_timestamp, e.created_at), e.created_at, e.id
+  LIMIT GREATEST(LEAST(COALESCE(p_limit, 100), 500), 1);
+$$;
+
+COMMENT ON FUNCTION public.paywall_webhook_replay_events IS
+  'Service-role: failed RevenueCat webhook events (fatal / rpc) to replay, filtered by fatal code, rpc_retryable, created_at range and home.';
+
+REVOKE ALL ON FUNCTION public.paywall_webhook_replay_events(text, boolean, timestamptz, timestamptz, uuid, integer)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.paywall_webhook_replay_events(text, boolean, timestamptz, timestamptz, uuid, integer)
+  TO service_role;
+
+CREATE OR REPLACE FUNCTION public.paywall_webhook_replay_mark(
+  p_event_id uuid,
+  p_outcome  text
+) RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  UPDATE public.revenuecat_webhook_events
+  SET replayed_at    = now(),
+      replay_outcome = p_outcome
+  WHERE id = p_event_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.paywall_webhook_replay_mark(uuid, text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.paywall_webhook_replay_mark(uuid, text)
+  TO service_role;
+
+-- --------------------------------------------------------------------
+-- Dry-run projection
+-- --------------------------------------------------------------------
+-- p_changes: captured writes, in replay order:
+-- - { kind: 'record', user_id, entitlement_id, home_id, status, current_period_end_at,
+--     grace_until_at }                                  (paywall_record_subscription)
+-- - { kind: 'transfer', to_user_id, from_user_ids, home_id, entitlement_ids }
+--                                                       (paywall_transfer_subscription)
+-- The last change per (user, entitlement) wins; funding mirrors home_entitlements_refresh.
+-- One row per home touched before or after the changes.
+CREATE OR REPLACE FUNCTION public.paywall_webhook_replay_preview(p_changes jsonb)
+RETURNS TABLE (
+  home_id              uuid,
+  current_plan         text,
+  current_expires_at   timestamptz,
+  projected_plan       text,
+  projected_expires_at timestamptz,
+  subscriptions        jsonb
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH input AS (
+    SELECT c.value AS change, c.ordinality AS seq
+    FROM jsonb_array_elements(COALESCE(p_changes, '[]'::jsonb)) WITH ORDINALITY AS c(value, ordinality)
+  ),
+  recorded AS (
+    SELECT
+      i.seq,
+      (i.change->>'user_id')::uuid AS user_id,
+      i.change->>'entitlement_id' AS entitlement_id,
+      (i.change->>'home_id')::uuid AS home_id,
+      (i.change->>'status')::public.subscription_status AS status,
+      (i.change->>'current_period_end_at')::timestamptz AS current_period_end_at,
+      CASE
+        WHEN i.change->>'status' = 'in_grace' THEN (i.change->>'grace_until_at')::timestamptz
+      END AS grace_until_at
+    FROM input i
+    WHERE i.change->>'kind' = 'record'
+  ),
+  transfers AS (
+    SELECT
+      i.seq,
+      (i.change->>'to_user_id')::uuid AS to_user_id,
+      ARRAY(
+        SELECT jsonb_array_elements_text(COALESCE(i.change->'from_user_ids', '[]'::jsonb))::uuid
+      ) AS from_user_ids,
+      COALESCE(
+        (i.change->>'home_id')::uuid,
+        (
+          SELECT m.home_id
+          FROM public.memberships m
+          WHERE m.user_id = (i.change->>'to_user_id')::uuid
+            AND m.is_current = TRUE
+          ORDER BY m.valid_from DESC
+          LIMIT 1
+        )
+      ) AS home_id,
+      CASE
+        WHEN jsonb_typeof(i.change->'entitlement_ids') = 'array'
+          THEN ARRAY(SELECT jsonb_array_elements_text(i.change->'entitlement_ids'))
+      END AS entitlement_ids
+    FROM input i
+    WHERE i.change->>'kind' = 'transfer'
+  ),
+  transferred AS (
+    SELECT
+      t.seq,
+      t.to_user_id,
+      t.home_id AS to_home_id,
+      us.user_id AS from_user_id,
+      us.rc_entitlement_id,
+      us.status,
+      us.current_period_end_at,
+      us.grace_until_at
+    FROM transfers t
+    JOIN public.user_subscriptions us
+      ON us.user_id = ANY (t.from_user_ids)
+     AND us.user_id <> t.to_user_id
+     AND (t.entitlement_ids IS NULL OR us.rc_entitlement_id = ANY (t.entitlement_ids))
+     AND us.status <> 'inactive'
+  ),
+  moved AS (
+    -- The receiver takes the row; the sender keeps a detached inactive one
+    SELECT
+      t.seq, t.to_user_id, t.rc_entitlement_id, t.to_home_id,
+      t.status, t.current_period_end_at, t.grace_until_at
+    FROM transferred t
+    UNION ALL
+    SELECT
+      t.seq, t.from_user_id, t.rc_entitlement_id, NULL::uuid,
+      'inactive'::public.subscription_status, t.current_period_end_at, t.grace_until_at
+    FROM transferred t
+  ),
+  changed AS (
+    SELECT DISTINCT ON (c.user_id, c.entitlement_id) c.*
+    FROM (
+      SELECT * FROM recorded
+      UNION ALL
+      SELECT * FROM moved
+    ) c
+    ORDER BY c.user_id, c.entitlement_id, c.seq DESC
+  ),
+  before_after AS (
+    SELECT
+      c.user_id,
+      c.entitlement_id,
+      us.home_id AS from_home_id,
+      us.status AS from_status,
+      c.home_id AS to_home_id,
+      c.status AS to_status
+    FROM changed c
+    LEFT JOIN public.user_subscriptions us
+      ON us.user_id = c.user_id
+     AND us.rc_entitlement_id = c.entitlement_id
+  ),
+  homes AS (
+    SELECT ba.from_home_id AS home_id FROM before_after ba WHERE ba.from_home_id IS NOT NULL
+    UNION
+    SELECT ba.to_home_id FROM before_after ba WHERE ba.to_home_id IS NOT NULL
+  ),
+  projected AS (
+    SELECT us.home_id, us.status, us.current_period_end_at, us.grace_until_at
+    FROM public.user_subscriptions us
+    WHERE us.home_id IN (SELECT h.home_id FROM homes h)
+      AND NOT EXISTS (
+        SELECT 1
+        FROM changed c
+        WHERE c.user_id = us.user_id
+          AND c.entitlement_id = us.rc_entitlement_id
+      )
+    UNION ALL
+    SELECT c.home_id, c.status, c.current_period_end_at, c.grace_until_at
+    FROM changed c
+    WHERE c.home_id IS NOT NULL
+  )
+  SELECT
+    h.home_id,
+    COALESCE(he.plan, 'free') AS current_plan,
+    he.expires_at AS current_expires_at,
+    CASE WHEN f.has_valid THEN 'premium' ELSE 'free' END AS projected_plan,
+    CASE WHEN f.has_valid THEN f.latest_exp END AS projected_expires_at,
+    (
+      SELECT jsonb_agg(
+               jsonb_build_object(
+                 'user_id',        ba.user_id,
+                 'entitlement_id', ba.entitlement_id,
+                 'from_status',    ba.from_status,
+                 'to_status',      ba.to_status
+               )
+               ORDER BY ba.user_id, ba.entitlement_id
+             )
+      FROM before_after ba
+      WHERE ba.from_home_id = h.home_id OR ba.to_home_id = h.home_id
+    ) AS subscriptions
+  FROM homes h
+  LEFT JOIN public.home_entitlements he ON he.home_id = h.home_id
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(
+        bool_or((fu.funded_until IS NULL AND fu.status <> 'in_grace') OR fu.funded_until > now()),
+        FALSE
+      ) AS has_valid,
+      MAX(fu.funded_until) AS latest_exp
+    FROM (
+      SELECT
+        CASE WHEN p.status = 'in_grace' THEN p.grace_until_at ELSE p.current_period_end_at END AS funded_until,
+        p.status
+      FROM projected p
+      WHERE p.home_id = h.home_id
+        AND p.status IN ('active', 'in_grace', 'cancelled_pending_expiry')
+    ) fu
+  ) f
+  ORDER BY h.home_id;
+$$;
+
+COMMENT ON FUNCTION public.paywall_webhook_replay_preview(jsonb) IS
+  'Service-role: current vs projected home plans for subscription writes captured by a dry-run webhook replay. Read-only.';
+
+REVOKE ALL ON FUNCTION public.paywall_webhook_replay_preview(jsonb)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.paywall_webhook_replay_preview(jsonb)
+  TO service_role;
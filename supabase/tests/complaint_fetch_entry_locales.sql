@@ -0,0 +1,112 @@
+SET search_path = pgtap, public, auth, extensions;
+
+BEGIN;
+SET ROLE postgres;
+
+SELECT plan(3);
+
+CREATE TEMP TABLE tmp_users (
+  label   text PRIMARY KEY,
+  user_id uuid,
+  email   text
+);
+
+CREATE TEMP TABLE tmp_ids (
+  label text PRIMARY KEY,
+  id    uuid
+);
+
+INSERT INTO public.avatars (id, storage_path, category, name)
+VALUES ('00000000-0000-4000-8000-000000000777', 'avatars/default.png', 'animal', 'Locale Avatar')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO tmp_users (label, user_id, email) VALUES
+  ('author', '30000000-0000-4000-8000-000000000d01', 'author-locale@example.com'),
+  ('recipient', '30000000-0000-4000-8000-000000000d02', 'recipient-locale@example.com');
+
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+SELECT
+  user_id,
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  email,
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+FROM tmp_users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.profiles (id, username, avatar_id)
+SELECT
+  user_id,
+  concat('locale_', label),
+  '00000000-0000-4000-8000-000000000777'
+FROM tmp_users
+ON CONFLICT (id) DO UPDATE
+  SET avatar_id = EXCLUDED.avatar_id,
+      username  = EXCLUDED.username;
+
+-- Author (es-MX) and recipient (fr-FR) locales
+INSERT INTO public.notification_preferences (user_id, timezone, locale)
+VALUES
+  ((SELECT user_id FROM tmp_users WHERE label = 'author'), 'UTC', 'es-MX'),
+  ((SELECT user_id FROM tmp_users WHERE label = 'recipient'), 'UTC', 'fr-FR')
+ON CONFLICT (user_id) DO UPDATE
+  SET locale = EXCLUDED.locale;
+
+-- Author creates a home + mood entry
+SELECT set_config('request.jwt.claim.sub', (SELECT user_id::text FROM tmp_users WHERE label = 'author'), true);
+SELECT set_config('request.jwt.claim.role', 'authenticated', true);
+
+WITH res AS (
+  SELECT public.homes_create_with_invite() AS payload
+)
+INSERT INTO tmp_ids (label, id)
+SELECT 'home', (payload->'home'->>'id')::uuid FROM res;
+
+WITH payload AS (
+  SELECT * FROM public.mood_submit(
+    (SELECT id FROM tmp_ids WHERE label = 'home'),
+    'rainy',
+    'ok',
+    false
+  )
+)
+INSERT INTO tmp_ids (label, id)
+SELECT 'entry', entry_id FROM payload;
+
+-- 1) Both locales normalized to the base language
+SELECT is(
+  (SELECT sender_locale FROM public.complaint_fetch_entry_locales(
+    (SELECT id FROM tmp_ids WHERE label = 'entry'),
+    (SELECT user_id FROM tmp_users WHERE label = 'recipient')
+  )),
+  'es',
+  'sender_locale comes from the author profile locale'
+);
+
+SELECT is(
+  (SELECT recipient_locale FROM public.complaint_fetch_entry_locales(
+    (SELECT id FROM tmp_ids WHERE label = 'entry'),
+    (SELECT user_id FROM tmp_users WHERE label = 'recipient')
+  )),
+  'fr',
+  'recipient_locale unchanged'
+);
+
+-- 2) No author preferences -> NULL (orchestrator falls back to en)
+DELETE FROM public.notification_preferences
+ WHERE user_id = (SELECT user_id FROM tmp_users WHERE label = 'author');
+
+SELECT is(
+  (SELECT sender_locale FROM public.complaint_fetch_entry_locales(
+    (SELECT id FROM tmp_ids WHERE label = 'entry'),
+    (SELECT user_id FROM tmp_users WHERE label = 'recipient')
+  )),
+  NULL::text,
+  'sender_locale is NULL without author preferences'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,137 @@
+SET search_path = pgtap, public, auth, extensions;
+
+BEGIN;
+SET ROLE postgres;
+
+SELECT plan(7);
+
+CREATE TEMP TABLE consts AS
+SELECT
+  '00000000-0000-4000-8000-000000000b01'::uuid AS req_id,
+  '00000000-0000-4000-8000-000000000b02'::uuid AS home_id,
+  '00000000-0000-4000-8000-000000000b03'::uuid AS sender_id,
+  '00000000-0000-4000-8000-000000000b04'::uuid AS recipient_a,
+  '00000000-0000-4000-8000-000000000b05'::uuid AS recipient_b,
+  '00000000-0000-4000-8000-000000000b06'::uuid AS snap_id,
+  '00000000-0000-4000-8000-000000000b07'::uuid AS pref_snap_a,
+  '00000000-0000-4000-8000-000000000b08'::uuid AS pref_snap_b,
+  '00000000-0000-4000-8000-000000000b09'::uuid AS fresh_job_id,
+  '00000000-0000-4000-8000-000000000b0a'::uuid AS spent_job_id,
+  'batch_recovery_test'::text AS batch_id;
+
+INSERT INTO public.rewrite_requests (
+  rewrite_request_id, home_id, sender_user_id, recipient_user_id,
+  surface, original_text, source_locale, target_locale, lane,
+  topics, intent, rewrite_strength,
+  classifier_result, context_pack, rewrite_request,
+  classifier_version, context_pack_version, policy_version
+)
+SELECT
+  req_id, home_id, sender_id, recipient_a,
+  'weekly_harmony', 'hello', 'en', 'en', 'same_language',
+  '["noise"]'::jsonb, 'request', 'light_touch',
+  '{}'::jsonb, '{}'::jsonb, '{}'::jsonb,
+  'v1', 'v1', 'v1'
+FROM consts;
+
+INSERT INTO public.recipient_snapshots(recipient_snapshot_id, rewrite_request_id, home_id, recipient_user_ids)
+SELECT snap_id, req_id, home_id, ARRAY[recipient_a, recipient_b] FROM consts;
+
+INSERT INTO public.recipient_preference_snapshots(recipient_preference_snapshot_id, rewrite_request_id, recipient_user_id, preference_payload)
+SELECT pref_snap_a, req_id, recipient_a, '{}'::jsonb FROM consts
+UNION ALL
+SELECT pref_snap_b, req_id, recipient_b, '{}'::jsonb FROM consts;
+
+INSERT INTO public.rewrite_provider_batches(provider_batch_id, provider, endpoint, status)
+SELECT batch_id, 'openai', '/v1/responses', 'running' FROM consts;
+
+INSERT INTO public.rewrite_jobs(
+  job_id, rewrite_request_id, recipient_user_id,
+  recipient_snapshot_id, recipient_preference_snapshot_id,
+  task, surface, rewrite_strength, lane,
+  language_pair, routing_decision, status,
+  attempt_count, max_attempts, provider_batch_id, submitted_at
+)
+SELECT
+  fresh_job_id, req_id, recipient_a,
+  snap_id, pref_snap_a,
+  'complaint_rewrite', 'weekly_harmony', 'light_touch', 'same_language',
+  '{}'::jsonb, '{"provider":"openai","execution_mode":"batch"}'::jsonb, 'batch_submitted',
+  1, 2, batch_id, now()
+FROM consts
+UNION ALL
+SELECT
+  spent_job_id, req_id, recipient_b,
+  snap_id, pref_snap_b,
+  'complaint_rewrite', 'weekly_harmony', 'light_touch', 'same_language',
+  '{}'::jsonb, '{"provider":"openai","execution_mode":"batch"}'::jsonb, 'batch_submitted',
+  2, 2, batch_id, now()
+FROM consts;
+
+-- 1) Requeue by batch: queued when attempts remain, failed when exhausted
+CREATE TEMP TABLE swept AS
+SELECT * FROM public.rewrite_jobs_requeue_by_provider_batch_v1(
+  (SELECT batch_id FROM consts), 'provider_batch_failed_missing_result', 60, 10
+);
+
+SELECT is(
+  (SELECT new_status FROM swept WHERE job_id = (SELECT fresh_job_id FROM consts)),
+  'queued',
+  'job with attempts left is requeued'
+);
+
+SELECT is(
+  (SELECT new_status FROM swept WHERE job_id = (SELECT spent_job_id FROM consts)),
+  'failed',
+  'job out of attempts is failed'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM swept WHERE rewrite_request_id = (SELECT req_id FROM consts)),
+  2,
+  'sweep returns rewrite_request_id for finalize'
+);
+
+SELECT ok(
+  (SELECT provider_batch_id IS NULL AND submitted_at IS NULL
+     FROM public.rewrite_jobs WHERE job_id = (SELECT fresh_job_id FROM consts)),
+  'requeued job unlinked from provider batch'
+);
+
+-- 2) Requeued job is claimable by the batch submitter again
+UPDATE public.rewrite_jobs
+   SET not_before_at = now() - interval '1 second'
+ WHERE job_id = (SELECT fresh_job_id FROM consts);
+
+SELECT is(
+  (SELECT array_agg(job_id) FROM public.claim_rewrite_jobs_for_batch_submit_v1(10)),
+  ARRAY[(SELECT fresh_job_id FROM consts)],
+  'requeued job is resubmitted'
+);
+
+-- 3) fail_or_requeue also unlinks the batch
+UPDATE public.rewrite_jobs
+   SET status = 'batch_submitted',
+       attempt_count = 1,
+       provider_batch_id = (SELECT batch_id FROM consts),
+       submitted_at = now()
+ WHERE job_id = (SELECT fresh_job_id FROM consts);
+
+SELECT public.complaint_rewrite_job_fail_or_requeue(
+  (SELECT fresh_job_id FROM consts), 'provider_item_error:rate_limited', 60
+);
+
+SELECT ok(
+  (SELECT status = 'queued' AND provider_batch_id IS NULL AND submitted_at IS NULL
+     FROM public.rewrite_jobs WHERE job_id = (SELECT fresh_job_id FROM consts)),
+  'fail_or_requeue clears batch linkage on requeue'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.rewrite_jobs_requeue_by_provider_batch_v1(' ') $$,
+  'p_provider_batch_id required',
+  'blank provider_batch_id rejected'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,111 @@
+SET search_path = pgtap, public, auth, extensions;
+
+BEGIN;
+SET ROLE postgres;
+
+SELECT plan(6);
+
+-- rewrite_requests / jobs / snapshots carry no FKs to homes or users
+CREATE TEMP TABLE tmp_fanout AS
+SELECT
+  '40000000-0000-4000-8000-00000000f001'::uuid AS rewrite_request_id,
+  '40000000-0000-4000-8000-00000000f002'::uuid AS home_id,
+  '40000000-0000-4000-8000-00000000f003'::uuid AS sender_user_id,
+  '40000000-0000-4000-8000-00000000f004'::uuid AS recipient_en,
+  '40000000-0000-4000-8000-00000000f005'::uuid AS recipient_es;
+
+CREATE TEMP TABLE tmp_recipients AS
+SELECT jsonb_build_array(
+  jsonb_build_object(
+    'recipient_user_id', f.recipient_en,
+    'target_locale', 'en',
+    'lane', 'same_language',
+    'context_pack', '{"target_language":"en"}'::jsonb,
+    'rewrite_request', jsonb_build_object('recipient_user_id', f.recipient_en, 'target_locale', 'en'),
+    'routing_decision', '{"provider":"openai","model":"gpt-4o-mini"}'::jsonb,
+    'language_pair', '{"from":"en","to":"en"}'::jsonb,
+    'preference_payload', '{"preferences":{}}'::jsonb,
+    'max_attempts', 2
+  ),
+  jsonb_build_object(
+    'recipient_user_id', f.recipient_es,
+    'target_locale', 'es',
+    'lane', 'cross_language',
+    'context_pack', '{"target_language":"es"}'::jsonb,
+    'rewrite_request', jsonb_build_object('recipient_user_id', f.recipient_es, 'target_locale', 'es'),
+    'routing_decision', '{"provider":"openai","model":"gpt-4o-mini"}'::jsonb,
+    'language_pair', '{"from":"en","to":"es"}'::jsonb,
+    'preference_payload', '{"preferences":{}}'::jsonb,
+    'max_attempts', 2
+  )
+) AS recipients
+FROM tmp_fanout f;
+
+CREATE OR REPLACE FUNCTION pg_temp.enqueue(p_recipients jsonb)
+RETURNS jsonb
+LANGUAGE sql
+AS $$
+  SELECT public.complaint_rewrite_enqueue_recipients_v1(
+    f.rewrite_request_id, f.home_id, f.sender_user_id,
+    'weekly_harmony', 'The music is too loud at night',
+    '{"classifier_version":"v1"}'::jsonb,
+    'en', '["noise"]'::jsonb, 'request', 'light_touch',
+    'v1', 'v1.1', 'v1',
+    p_recipients
+  )
+  FROM tmp_fanout f;
+$$;
+
+-- 1) One request, one job per recipient
+SELECT is(
+  jsonb_array_length(pg_temp.enqueue((SELECT recipients FROM tmp_recipients))->'recipients'),
+  2,
+  'fan-out enqueues every recipient'
+);
+
+SELECT is(
+  (SELECT array_agg(j.target_locale ORDER BY j.target_locale)
+     FROM public.rewrite_jobs j
+    WHERE j.rewrite_request_id = (SELECT rewrite_request_id FROM tmp_fanout)),
+  ARRAY['en', 'es'],
+  'jobs carry their own target_locale'
+);
+
+-- 2) Workers fetch the recipient's blob, not the request-level one
+SELECT is(
+  (SELECT rewrite_request->>'recipient_user_id' || ':' || target_locale
+     FROM public.complaint_rewrite_request_fetch_v1(
+       (SELECT rewrite_request_id FROM tmp_fanout),
+       (SELECT recipient_es FROM tmp_fanout)
+     )),
+  (SELECT recipient_es::text FROM tmp_fanout) || ':es',
+  'request fetch is per recipient'
+);
+
+SELECT is(
+  (SELECT cardinality(rs.recipient_user_ids)
+     FROM public.recipient_snapshots rs
+    WHERE rs.rewrite_request_id = (SELECT rewrite_request_id FROM tmp_fanout)),
+  2,
+  'recipient snapshot lists every recipient'
+);
+
+-- 3) Idempotent re-run
+SELECT is(
+  (pg_temp.enqueue((SELECT recipients FROM tmp_recipients))->>'inserted_request')::boolean,
+  false,
+  'second enqueue reuses the request'
+);
+
+-- 4) Duplicate recipients rejected
+SELECT throws_like(
+  format(
+    'SELECT pg_temp.enqueue(%L::jsonb)',
+    (SELECT jsonb_build_array(recipients->0, recipients->0) FROM tmp_recipients)
+  ),
+  '%DUPLICATE_RECIPIENT%',
+  'duplicate recipients are rejected'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
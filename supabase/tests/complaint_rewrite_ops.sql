@@ -0,0 +1,142 @@
+SET search_path = pgtap, public, auth, extensions;
+
+BEGIN;
+SET ROLE postgres;
+
+SELECT plan(10);
+
+CREATE TEMP TABLE consts AS
+SELECT
+  '00000000-0000-4000-8000-000000000c01'::uuid AS req_id,
+  '00000000-0000-4000-8000-000000000c02'::uuid AS home_id,
+  '00000000-0000-4000-8000-000000000c03'::uuid AS sender_id,
+  '00000000-0000-4000-8000-000000000c04'::uuid AS recipient_a,
+  '00000000-0000-4000-8000-000000000c05'::uuid AS recipient_b,
+  '00000000-0000-4000-8000-000000000c06'::uuid AS snap_id,
+  '00000000-0000-4000-8000-000000000c07'::uuid AS pref_snap_a,
+  '00000000-0000-4000-8000-000000000c08'::uuid AS pref_snap_b,
+  '00000000-0000-4000-8000-000000000c09'::uuid AS stuck_job_id,
+  '00000000-0000-4000-8000-000000000c0a'::uuid AS fresh_job_id,
+  'ops_trace_test'::text AS batch_id;
+
+INSERT INTO public.rewrite_requests (
+  rewrite_request_id, home_id, sender_user_id, recipient_user_id,
+  surface, original_text, source_locale, target_locale, lane,
+  topics, intent, rewrite_strength,
+  classifier_result, context_pack, rewrite_request,
+  classifier_version, context_pack_version, policy_version
+)
+SELECT
+  req_id, home_id, sender_id, recipient_a,
+  'weekly_harmony', 'secret original text', 'en', 'en', 'same_language',
+  '["noise"]'::jsonb, 'request', 'light_touch',
+  '{}'::jsonb, '{}'::jsonb, '{}'::jsonb,
+  'v1', 'v1', 'v1'
+FROM consts;
+
+INSERT INTO public.recipient_snapshots(recipient_snapshot_id, rewrite_request_id, home_id, recipient_user_ids)
+SELECT snap_id, req_id, home_id, ARRAY[recipient_a, recipient_b] FROM consts;
+
+INSERT INTO public.recipient_preference_snapshots(recipient_preference_snapshot_id, rewrite_request_id, recipient_user_id, preference_payload)
+SELECT pref_snap_a, req_id, recipient_a, '{}'::jsonb FROM consts
+UNION ALL
+SELECT pref_snap_b, req_id, recipient_b, '{}'::jsonb FROM consts;
+
+INSERT INTO public.rewrite_provider_batches(provider_batch_id, provider, endpoint, status)
+SELECT batch_id, 'openai', '/v1/responses', 'running' FROM consts;
+
+INSERT INTO public.rewrite_jobs(
+  job_id, rewrite_request_id, recipient_user_id,
+  recipient_snapshot_id, recipient_preference_snapshot_id,
+  task, surface, rewrite_strength, lane,
+  language_pair, routing_decision, status,
+  attempt_count, max_attempts, provider_batch_id, submitted_at
+)
+SELECT
+  stuck_job_id, req_id, recipient_a,
+  snap_id, pref_snap_a,
+  'complaint_rewrite', 'weekly_harmony', 'light_touch', 'same_language',
+  '{}'::jsonb, '{"provider":"openai","execution_mode":"batch"}'::jsonb, 'batch_submitted',
+  1, 2, batch_id, now()
+FROM consts
+UNION ALL
+SELECT
+  fresh_job_id, req_id, recipient_b,
+  snap_id, pref_snap_b,
+  'complaint_rewrite', 'weekly_harmony', 'light_touch', 'same_language',
+  '{}'::jsonb, '{"provider":"openai","execution_mode":"batch"}'::jsonb, 'batch_submitted',
+  1, 2, batch_id, now()
+FROM consts;
+
+-- One job has not moved for two hours
+ALTER TABLE public.rewrite_jobs DISABLE TRIGGER USER;
+UPDATE public.rewrite_jobs
+   SET updated_at = now() - interval '2 hours'
+ WHERE job_id = (SELECT stuck_job_id FROM consts);
+ALTER TABLE public.rewrite_jobs ENABLE TRIGGER USER;
+
+CREATE TEMP TABLE traced AS
+SELECT public.complaint_rewrite_ops_trace_v1((SELECT req_id FROM consts)) AS t;
+
+-- 1) Trace: request -> jobs -> batches, no trigger row for this entry
+SELECT is(
+  (SELECT t->'rewrite_request'->>'intent' FROM traced),
+  'request',
+  'trace includes the rewrite request'
+);
+
+SELECT is(
+  (SELECT jsonb_array_length(t->'jobs') FROM traced),
+  2,
+  'trace lists every recipient job'
+);
+
+SELECT is(
+  (SELECT t->'provider_batches'->0->>'provider_batch_id' FROM traced),
+  'ops_trace_test',
+  'trace includes the provider batch once'
+);
+
+SELECT ok(
+  (SELECT t->'trigger' = 'null'::jsonb FROM traced),
+  'missing trigger is null, not an error'
+);
+
+SELECT ok(
+  (SELECT position('secret original text' in t::text) = 0 FROM traced),
+  'trace never returns message text'
+);
+
+SELECT throws_like(
+  $$ SELECT public.complaint_rewrite_ops_trace_v1(NULL) $$,
+  '%INVALID_ENTRY%',
+  'null entry rejected'
+);
+
+-- 2) List: stuck filter and validation
+SELECT is(
+  (SELECT jsonb_array_length(public.complaint_rewrite_ops_list_v1('jobs', 'batch_submitted', 0, 50)->'items')),
+  2,
+  'list returns all jobs in the state'
+);
+
+SELECT is(
+  (SELECT public.complaint_rewrite_ops_list_v1('jobs', 'batch_submitted', 3600, 50)->'items'->0->>'job_id'),
+  (SELECT stuck_job_id::text FROM consts),
+  'stuck_after_seconds keeps only rows not updated since'
+);
+
+SELECT throws_like(
+  $$ SELECT public.complaint_rewrite_ops_list_v1('outputs', 'completed') $$,
+  '%INVALID_KIND%',
+  'unknown kind rejected'
+);
+
+SELECT throws_like(
+  $$ SELECT public.complaint_rewrite_ops_list_v1('batches', 'batch_submitted') $$,
+  '%INVALID_STATUS%',
+  'status must belong to the kind'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,128 @@
+SET search_path = pgtap, public, auth, extensions;
+
+BEGIN;
+SET ROLE postgres;
+
+SELECT plan(8);
+
+CREATE TEMP TABLE consts AS
+SELECT
+  '00000000-0000-4000-8000-000000000a01'::uuid AS req_id,
+  '00000000-0000-4000-8000-000000000a02'::uuid AS home_id,
+  '00000000-0000-4000-8000-000000000a03'::uuid AS sender_id,
+  '00000000-0000-4000-8000-000000000a04'::uuid AS recipient_id,
+  '00000000-0000-4000-8000-000000000a05'::uuid AS snap_id,
+  '00000000-0000-4000-8000-000000000a06'::uuid AS pref_snap_id,
+  '00000000-0000-4000-8000-000000000a07'::uuid AS realtime_job_id,
+  '00000000-0000-4000-8000-000000000a08'::uuid AS batch_job_id;
+
+INSERT INTO public.rewrite_requests (
+  rewrite_request_id, home_id, sender_user_id, recipient_user_id,
+  surface, original_text, source_locale, target_locale, lane,
+  topics, intent, rewrite_strength,
+  classifier_result, context_pack, rewrite_request,
+  classifier_version, context_pack_version, policy_version
+)
+SELECT
+  req_id, home_id, sender_id, recipient_id,
+  'weekly_harmony', 'hello', 'en', 'en', 'same_language',
+  '["noise"]'::jsonb, 'request', 'light_touch',
+  '{}'::jsonb, '{}'::jsonb, '{}'::jsonb,
+  'v1', 'v1', 'v1'
+FROM consts;
+
+INSERT INTO public.recipient_snapshots(recipient_snapshot_id, rewrite_request_id, home_id, recipient_user_ids)
+SELECT snap_id, req_id, home_id, ARRAY[recipient_id] FROM consts;
+
+INSERT INTO public.recipient_preference_snapshots(recipient_preference_snapshot_id, rewrite_request_id, recipient_user_id, preference_payload)
+SELECT pref_snap_id, req_id, recipient_id, '{}'::jsonb FROM consts;
+
+INSERT INTO public.rewrite_jobs(
+  job_id, rewrite_request_id, recipient_user_id,
+  recipient_snapshot_id, recipient_preference_snapshot_id,
+  task, surface, rewrite_strength, lane,
+  language_pair, routing_decision, status
+)
+SELECT
+  realtime_job_id, req_id, recipient_id,
+  snap_id, pref_snap_id,
+  'complaint_rewrite', 'weekly_harmony', 'light_touch', 'same_language',
+  '{}'::jsonb, '{"provider":"openai","execution_mode":"realtime"}'::jsonb, 'queued'
+FROM consts
+UNION ALL
+SELECT
+  batch_job_id, req_id, recipient_id,
+  snap_id, pref_snap_id,
+  'complaint_rewrite', 'weekly_harmony', 'light_touch', 'same_language',
+  '{}'::jsonb, '{"provider":"openai","execution_mode":"batch"}'::jsonb, 'queued'
+FROM consts;
+
+-- 1) Route vocabulary: unknown execution_mode rejected
+SELECT throws_like(
+  $$
+  INSERT INTO public.complaint_rewrite_routes(
+    surface, lane, rewrite_strength, provider, model, execution_mode
+  ) VALUES (
+    'other', 'same_language', 'light_touch', 'openai', 'gpt-5-nano', 'streaming'
+  )
+  $$,
+  '%ck_complaint_route_execution_mode%',
+  'execution_mode outside async|batch|realtime rejected'
+);
+
+-- 2) Realtime claim only picks realtime jobs
+SELECT is(
+  (SELECT array_agg(job_id) FROM public.claim_rewrite_jobs_for_realtime_v1(10)),
+  ARRAY[(SELECT realtime_job_id FROM consts)],
+  'realtime claim returns only realtime-routed jobs'
+);
+
+SELECT is(
+  (SELECT status FROM public.rewrite_jobs WHERE job_id = (SELECT realtime_job_id FROM consts)),
+  'processing',
+  'realtime job moved to processing'
+);
+
+SELECT is(
+  (SELECT status FROM public.rewrite_requests WHERE rewrite_request_id = (SELECT req_id FROM consts)),
+  'processing',
+  'request marked processing on first realtime claim'
+);
+
+-- 3) Batch claim leaves realtime jobs alone
+UPDATE public.rewrite_jobs
+   SET status = 'queued'
+ WHERE job_id = (SELECT realtime_job_id FROM consts);
+
+SELECT is(
+  (SELECT array_agg(job_id) FROM public.claim_rewrite_jobs_for_batch_submit_v1(50)),
+  ARRAY[(SELECT batch_job_id FROM consts)],
+  'batch claim skips realtime-routed jobs'
+);
+
+-- 4) Finalize is a no-op while any job is non-terminal
+SELECT is(
+  public.complaint_rewrite_request_finalize_v1((SELECT req_id FROM consts))->>'finalized',
+  'false',
+  'finalize waits for non-terminal jobs'
+);
+
+-- 5) Finalize: any failed job fails the request
+UPDATE public.rewrite_jobs
+   SET status = CASE WHEN job_id = (SELECT realtime_job_id FROM consts) THEN 'failed' ELSE 'completed' END
+ WHERE rewrite_request_id = (SELECT req_id FROM consts);
+
+SELECT is(
+  public.complaint_rewrite_request_finalize_v1((SELECT req_id FROM consts))->>'status',
+  'failed',
+  'finalize marks request failed when a job failed'
+);
+
+SELECT isnt(
+  (SELECT rewrite_completed_at FROM public.rewrite_requests WHERE rewrite_request_id = (SELECT req_id FROM consts)),
+  NULL,
+  'finalize stamps rewrite_completed_at'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
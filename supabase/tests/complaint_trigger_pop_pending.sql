@@ -0,0 +1,120 @@
+SET search_path = pgtap, public, auth, extensions;
+
+BEGIN;
+SET ROLE postgres;
+
+SELECT plan(4);
+
+CREATE TEMP TABLE tmp_users (
+  label   text PRIMARY KEY,
+  user_id uuid,
+  email   text
+);
+
+CREATE TEMP TABLE tmp_ids (
+  label text PRIMARY KEY,
+  id    uuid
+);
+
+INSERT INTO public.avatars (id, storage_path, category, name)
+VALUES ('00000000-0000-4000-8000-000000000777', 'avatars/default.png', 'animal', 'Trigger Avatar')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO tmp_users (label, user_id, email) VALUES
+  ('author', '30000000-0000-4000-8000-000000000c01', 'author-trigger@example.com'),
+  ('recipient', '30000000-0000-4000-8000-000000000c02', 'recipient-trigger@example.com');
+
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+SELECT
+  user_id,
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  email,
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+FROM tmp_users
+ON CONFLICT (id) DO NOTHING;
+
+-- Author creates a home + mood entry
+SELECT set_config('request.jwt.claim.sub', (SELECT user_id::text FROM tmp_users WHERE label = 'author'), true);
+SELECT set_config('request.jwt.claim.role', 'authenticated', true);
+
+WITH res AS (
+  SELECT public.homes_create_with_invite() AS payload
+)
+INSERT INTO tmp_ids (label, id)
+SELECT 'home', (payload->'home'->>'id')::uuid FROM res;
+
+WITH payload AS (
+  SELECT * FROM public.mood_submit(
+    (SELECT id FROM tmp_ids WHERE label = 'home'),
+    'rainy',
+    'The music is too loud at night',
+    false
+  )
+)
+INSERT INTO tmp_ids (label, id)
+SELECT 'entry', entry_id FROM payload;
+
+-- Queued trigger that already failed twice
+INSERT INTO public.complaint_rewrite_triggers (
+  entry_id, home_id, author_user_id, recipient_user_id, status, attempts
+)
+SELECT
+  (SELECT id FROM tmp_ids WHERE label = 'entry'),
+  (SELECT id FROM tmp_ids WHERE label = 'home'),
+  (SELECT user_id FROM tmp_users WHERE label = 'author'),
+  (SELECT user_id FROM tmp_users WHERE label = 'recipient'),
+  'queued',
+  2
+ON CONFLICT (entry_id) DO UPDATE
+  SET status = 'queued', attempts = 2, request_id = null, retry_after = null;
+
+-- 1) Claim returns attempts including this claim
+CREATE TEMP TABLE popped AS
+SELECT * FROM public.complaint_trigger_pop_pending(50, 10)
+WHERE entry_id = (SELECT id FROM tmp_ids WHERE label = 'entry');
+
+SELECT is(
+  (SELECT attempts FROM popped),
+  3,
+  'pop_pending returns attempts after claim'
+);
+
+SELECT ok(
+  (SELECT status = 'processing' AND request_id = (SELECT request_id FROM popped)
+     FROM public.complaint_rewrite_triggers
+    WHERE entry_id = (SELECT id FROM tmp_ids WHERE label = 'entry')),
+  'claimed trigger is processing with the returned claim ticket'
+);
+
+-- 2) Existing claim semantics unchanged: max_attempts still gates the claim
+SELECT public.complaint_trigger_mark_retry(
+  (SELECT id FROM tmp_ids WHERE label = 'entry'),
+  (SELECT request_id FROM popped),
+  'classifier_timeout',
+  interval '0 seconds'
+);
+
+UPDATE public.complaint_rewrite_triggers
+   SET retry_after = now() - interval '1 second'
+ WHERE entry_id = (SELECT id FROM tmp_ids WHERE label = 'entry');
+
+SELECT is(
+  (SELECT count(*)::int FROM public.complaint_trigger_pop_pending(50, 3)
+    WHERE entry_id = (SELECT id FROM tmp_ids WHERE label = 'entry')),
+  0,
+  'trigger at max_attempts is not claimed'
+);
+
+SELECT is(
+  (SELECT attempts FROM public.complaint_trigger_pop_pending(50, 10)
+    WHERE entry_id = (SELECT id FROM tmp_ids WHERE label = 'entry')),
+  4,
+  'next claim reports the incremented attempt'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
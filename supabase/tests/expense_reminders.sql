@@ -0,0 +1,223 @@
+SET search_path = pgtap, public, auth, extensions;
+
+-- pgTAP tests for expense reminder candidates, enqueue dedupe and settle cleanup
+BEGIN;
+SELECT plan(10);
+
+CREATE TEMP TABLE tmp_users (
+  label   text PRIMARY KEY,
+  user_id uuid,
+  email   text
+);
+
+INSERT INTO tmp_users (label, user_id, email) VALUES
+  ('payer',   '23000000-0000-4000-9000-000000000001', 'reminders-payer@example.com'),
+  ('debtor',  '23000000-0000-4000-9000-000000000002', 'reminders-debtor@example.com'),
+  ('opt_out', '23000000-0000-4000-9000-000000000003', 'reminders-opt-out@example.com');
+
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+SELECT
+  user_id,
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  email,
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+FROM tmp_users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.homes (id, owner_user_id, is_active) VALUES
+  ('23000000-0000-4000-9000-000000000101', '23000000-0000-4000-9000-000000000001', TRUE);
+
+INSERT INTO public.memberships (user_id, home_id, role) VALUES
+  ('23000000-0000-4000-9000-000000000001', '23000000-0000-4000-9000-000000000101', 'owner'),
+  ('23000000-0000-4000-9000-000000000002', '23000000-0000-4000-9000-000000000101', 'member'),
+  ('23000000-0000-4000-9000-000000000003', '23000000-0000-4000-9000-000000000101', 'member');
+
+-- preferred 00:00 UTC: always past the preferred time
+INSERT INTO public.notification_preferences (
+  user_id, wants_daily, timezone, locale, os_permission, preferred_hour, preferred_minute,
+  disabled_kinds
+) VALUES
+  ('23000000-0000-4000-9000-000000000001', FALSE, 'UTC', 'en', 'allowed', 0, 0, '{}'),
+  ('23000000-0000-4000-9000-000000000002', FALSE, 'UTC', 'es', 'allowed', 0, 0, '{}'),
+  ('23000000-0000-4000-9000-000000000003', FALSE, 'UTC', 'en', 'allowed', 0, 0, '{expense_reminder}');
+
+-- Rent: two weeks overdue; Old: outside the lookback window
+INSERT INTO public.expenses (
+  id, home_id, created_by_user_id, status, split_type, amount_cents, description, start_date
+) VALUES
+  ('23000000-0000-4000-9000-000000000201', '23000000-0000-4000-9000-000000000101',
+   '23000000-0000-4000-9000-000000000001', 'active', 'equal', 3000, 'Rent', current_date - 14),
+  ('23000000-0000-4000-9000-000000000202', '23000000-0000-4000-9000-000000000101',
+   '23000000-0000-4000-9000-000000000001', 'active', 'equal', 3000, 'Old', current_date - 90);
+
+INSERT INTO public.expense_splits (expense_id, debtor_user_id, amount_cents) VALUES
+  ('23000000-0000-4000-9000-000000000201', '23000000-0000-4000-9000-000000000001', 1000),
+  ('23000000-0000-4000-9000-000000000201', '23000000-0000-4000-9000-000000000002', 1000),
+  ('23000000-0000-4000-9000-000000000201', '23000000-0000-4000-9000-000000000003', 1000),
+  ('23000000-0000-4000-9000-000000000202', '23000000-0000-4000-9000-000000000002', 3000);
+
+-- 1) Schema + permissions
+SELECT has_function(
+  'public',
+  'expense_reminders_enqueue',
+  ARRAY['jsonb'],
+  'expense_reminders_enqueue exists'
+);
+
+SELECT ok(
+  NOT has_function_privilege(
+    'authenticated',
+    'public.expense_reminders_candidates(integer, uuid, integer, integer)',
+    'EXECUTE'
+  ),
+  'Clients cannot list reminder candidates'
+);
+
+SELECT ok(
+  NOT has_function_privilege(
+    'authenticated',
+    'public.expense_reminders_enqueue(jsonb)',
+    'EXECUTE'
+  ),
+  'Clients cannot enqueue reminders'
+);
+
+-- 2) Candidates: unpaid shares of other members' expenses, opt-outs excluded
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_candidates AS
+SELECT *
+FROM public.expense_reminders_candidates(200, NULL, 3, 62)
+WHERE home_id = '23000000-0000-4000-9000-000000000101';
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (
+    SELECT jsonb_agg(jsonb_build_array(user_id, expense_id, locale, payer_name, due_date))
+    FROM tmp_candidates
+  ),
+  jsonb_build_array(
+    jsonb_build_array(
+      '23000000-0000-4000-9000-000000000002',
+      '23000000-0000-4000-9000-000000000201',
+      'es',
+      public._notification_display_name('23000000-0000-4000-9000-000000000001'),
+      current_date - 14
+    )
+  ),
+  'Only the opted-in debtor''s share within the window is a candidate'
+);
+
+-- 3) Enqueue is idempotent per reminder key
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_enqueued AS
+SELECT public.expense_reminders_enqueue(jsonb_build_array(
+  jsonb_build_object(
+    'user_id', '23000000-0000-4000-9000-000000000002',
+    'home_id', '23000000-0000-4000-9000-000000000101',
+    'expense_id', '23000000-0000-4000-9000-000000000201',
+    'reminder_key', 'expense:23000000-0000-4000-9000-000000000201:overdue_w2',
+    'payload', jsonb_build_object(
+      'expense_id', '23000000-0000-4000-9000-000000000201',
+      'description', 'Rent',
+      'stage', 'overdue',
+      'due_date', current_date - 14,
+      'days', 14
+    )
+  )
+)) AS first_count;
+CREATE TEMP TABLE tmp_reenqueued AS
+SELECT public.expense_reminders_enqueue(
+  jsonb_build_array(
+    jsonb_build_object(
+      'user_id', '23000000-0000-4000-9000-000000000002',
+      'home_id', '23000000-0000-4000-9000-000000000101',
+      'expense_id', '23000000-0000-4000-9000-000000000201',
+      'reminder_key', 'expense:23000000-0000-4000-9000-000000000201:overdue_w2',
+      'payload', '{}'::jsonb
+    )
+  )
+) AS second_count;
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (SELECT first_count FROM tmp_enqueued),
+  1,
+  'First enqueue writes the reminder'
+);
+
+SELECT is(
+  (SELECT second_count FROM tmp_reenqueued),
+  0,
+  'Same reminder key is deduped'
+);
+
+SELECT is(
+  (
+    SELECT dedupe_key
+    FROM public.notification_events
+    WHERE kind = 'expense_reminder'
+      AND recipient_user_id = '23000000-0000-4000-9000-000000000002'
+  ),
+  'expense_reminder:23000000-0000-4000-9000-000000000002:expense:23000000-0000-4000-9000-000000000201:overdue_w2',
+  'Dedupe key is scoped to the debtor and reminder key'
+);
+
+-- 4) Settling skips pending reminders and stops new ones
+UPDATE public.expense_splits
+SET status = 'paid', marked_paid_at = now()
+WHERE expense_id = '23000000-0000-4000-9000-000000000201'
+  AND debtor_user_id = '23000000-0000-4000-9000-000000000002';
+
+SELECT is(
+  (
+    SELECT jsonb_build_array(status, error)
+    FROM public.notification_events
+    WHERE kind = 'expense_reminder'
+      AND recipient_user_id = '23000000-0000-4000-9000-000000000002'
+  ),
+  jsonb_build_array('skipped', 'settled'),
+  'Paying a share skips its pending reminder'
+);
+
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_settled AS
+SELECT public.expense_reminders_enqueue(
+  jsonb_build_array(
+    jsonb_build_object(
+      'user_id', '23000000-0000-4000-9000-000000000002',
+      'home_id', '23000000-0000-4000-9000-000000000101',
+      'expense_id', '23000000-0000-4000-9000-000000000201',
+      'reminder_key', 'expense:23000000-0000-4000-9000-000000000201:overdue_w3',
+      'payload', '{}'::jsonb
+    )
+  )
+) AS settled_count;
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (SELECT settled_count FROM tmp_settled),
+  0,
+  'Settled shares are not reminded again'
+);
+
+-- 5) Kind opt-out
+SELECT set_config('request.jwt.claim.sub', '23000000-0000-4000-9000-000000000002', true);
+
+SELECT is(
+  (SELECT disabled_kinds FROM public.notifications_set_kind_enabled('expense_reminder', FALSE)),
+  ARRAY['expense_reminder']::text[],
+  'Members can turn expense reminders off'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,201 @@
+SET search_path = pgtap, public, auth, extensions;
+
+-- pgTAP tests for the weekly house pulse digest RPCs
+BEGIN;
+SELECT plan(11);
+
+CREATE TEMP TABLE tmp_users (
+  label   text PRIMARY KEY,
+  user_id uuid,
+  email   text
+);
+
+INSERT INTO tmp_users (label, user_id, email) VALUES
+  ('a_owner',  '22000000-0000-4000-9000-000000000001', 'digest-a-owner@example.com'),
+  ('a_member', '22000000-0000-4000-9000-000000000002', 'digest-a-member@example.com'),
+  ('a_reader', '22000000-0000-4000-9000-000000000003', 'digest-a-reader@example.com'),
+  ('b_owner',  '22000000-0000-4000-9000-000000000004', 'digest-b-owner@example.com'),
+  ('c_owner',  '22000000-0000-4000-9000-000000000005', 'digest-c-owner@example.com');
+
+INSERT INTO public.avatars (id, storage_path, category, name)
+VALUES ('22000000-0000-4000-9000-000000000900', 'avatars/default.png', 'animal', 'Digest Avatar')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+SELECT
+  user_id,
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  email,
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+FROM tmp_users
+ON CONFLICT (id) DO NOTHING;
+
+-- A: ready (2 of 3 reflected, sunny); B: forming (no reflections); C: deactivated
+INSERT INTO public.homes (id, owner_user_id, is_active, deactivated_at) VALUES
+  ('22000000-0000-4000-9000-000000000101', '22000000-0000-4000-9000-000000000001', TRUE, NULL),
+  ('22000000-0000-4000-9000-000000000102', '22000000-0000-4000-9000-000000000004', TRUE, NULL),
+  ('22000000-0000-4000-9000-000000000103', '22000000-0000-4000-9000-000000000005', TRUE, NULL);
+
+INSERT INTO public.memberships (user_id, home_id, role) VALUES
+  ('22000000-0000-4000-9000-000000000001', '22000000-0000-4000-9000-000000000101', 'owner'),
+  ('22000000-0000-4000-9000-000000000002', '22000000-0000-4000-9000-000000000101', 'member'),
+  ('22000000-0000-4000-9000-000000000003', '22000000-0000-4000-9000-000000000101', 'member'),
+  ('22000000-0000-4000-9000-000000000004', '22000000-0000-4000-9000-000000000102', 'owner'),
+  ('22000000-0000-4000-9000-000000000005', '22000000-0000-4000-9000-000000000103', 'owner');
+
+UPDATE public.homes
+SET is_active = FALSE, deactivated_at = now()
+WHERE id = '22000000-0000-4000-9000-000000000103';
+
+INSERT INTO public.notification_preferences (
+  user_id, wants_daily, timezone, locale, os_permission
+) VALUES
+  ('22000000-0000-4000-9000-000000000002', FALSE, 'UTC', 'es', 'allowed');
+
+INSERT INTO public.home_mood_entries (home_id, user_id, mood, iso_week_year, iso_week) VALUES
+  ('22000000-0000-4000-9000-000000000101', '22000000-0000-4000-9000-000000000001', 'sunny', 2026, 12),
+  ('22000000-0000-4000-9000-000000000101', '22000000-0000-4000-9000-000000000002', 'sunny', 2026, 12);
+
+-- Reader already saw this week's card
+INSERT INTO public.house_pulse_reads (
+  home_id, user_id, iso_week_year, iso_week, contract_version,
+  last_seen_pulse_state, last_seen_computed_at
+) VALUES (
+  '22000000-0000-4000-9000-000000000101', '22000000-0000-4000-9000-000000000003',
+  2026, 12, 'v1', 'forming', now()
+);
+
+-- 1) Schema + permissions
+SELECT has_function(
+  'public',
+  'house_pulse_digest_prepare',
+  ARRAY['uuid', 'integer', 'integer', 'boolean'],
+  'house_pulse_digest_prepare exists'
+);
+
+SELECT ok(
+  NOT has_function_privilege(
+    'authenticated',
+    'public.house_pulse_digest_prepare(uuid, integer, integer, boolean)',
+    'EXECUTE'
+  ),
+  'Clients cannot run the digest'
+);
+
+-- 2) Dry run computes without enqueuing
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_digest_homes AS
+SELECT * FROM public.house_pulse_digest_homes();
+CREATE TEMP TABLE tmp_dry AS
+SELECT public.house_pulse_digest_prepare('22000000-0000-4000-9000-000000000101', 2026, 12, TRUE) AS payload;
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (
+    SELECT array_agg(home_id ORDER BY home_id)
+    FROM tmp_digest_homes
+    WHERE home_id IN (
+      '22000000-0000-4000-9000-000000000101',
+      '22000000-0000-4000-9000-000000000102',
+      '22000000-0000-4000-9000-000000000103'
+    )
+  ),
+  ARRAY[
+    '22000000-0000-4000-9000-000000000101',
+    '22000000-0000-4000-9000-000000000102'
+  ]::uuid[],
+  'Digest pages active homes only'
+);
+
+SELECT is(
+  (SELECT payload->>'pulse_state' FROM tmp_dry),
+  'sunny_calm',
+  'Digest computes the requested week'
+);
+
+SELECT is(
+  (
+    SELECT count(*)::int
+    FROM public.notification_events
+    WHERE home_id = '22000000-0000-4000-9000-000000000101'
+  ),
+  0,
+  'Dry run enqueues nothing'
+);
+
+-- 3) Real run (twice) enqueues one push per unread member
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_ready AS
+SELECT public.house_pulse_digest_prepare('22000000-0000-4000-9000-000000000101', 2026, 12) AS payload;
+SELECT public.house_pulse_digest_prepare('22000000-0000-4000-9000-000000000101', 2026, 12);
+CREATE TEMP TABLE tmp_forming AS
+SELECT public.house_pulse_digest_prepare('22000000-0000-4000-9000-000000000102', 2026, 12) AS payload;
+CREATE TEMP TABLE tmp_inactive AS
+SELECT public.house_pulse_digest_prepare('22000000-0000-4000-9000-000000000103', 2026, 12) AS payload;
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (
+    SELECT jsonb_agg(jsonb_build_array(r->>'user_id', r->>'locale'))
+    FROM tmp_ready, jsonb_array_elements(payload->'recipients') r
+  ),
+  jsonb_build_array(
+    jsonb_build_array('22000000-0000-4000-9000-000000000001', NULL),
+    jsonb_build_array('22000000-0000-4000-9000-000000000002', 'es')
+  ),
+  'Recipients are current members without a read for the week, with their locale'
+);
+
+SELECT is(
+  (
+    SELECT count(*)::int
+    FROM public.notification_events
+    WHERE kind = 'house_pulse_weekly'
+      AND home_id = '22000000-0000-4000-9000-000000000101'
+  ),
+  2,
+  'One push per unread member; reruns are deduped'
+);
+
+SELECT is(
+  (
+    SELECT count(*)::int
+    FROM public.notification_events
+    WHERE recipient_user_id = '22000000-0000-4000-9000-000000000003'
+  ),
+  0,
+  'Members who already saw the pulse are not pushed'
+);
+
+-- 4) Forming + inactive homes
+SELECT is(
+  (SELECT payload->'recipients' FROM tmp_forming),
+  '[]'::jsonb,
+  'Forming pulse has no recipients'
+);
+
+SELECT is(
+  (
+    SELECT count(*)::int
+    FROM public.notification_events
+    WHERE home_id = '22000000-0000-4000-9000-000000000102'
+  ),
+  0,
+  'Forming pulse enqueues nothing'
+);
+
+SELECT ok(
+  (SELECT payload IS NULL FROM tmp_inactive),
+  'Inactive home is skipped'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,349 @@
+SET search_path = pgtap, public, auth, extensions;
+
+-- pgTAP tests for the multi-kind notification outbox + dispatcher RPCs
+BEGIN;
+SELECT plan(22);
+
+CREATE TEMP TABLE tmp_users (
+  label   text PRIMARY KEY,
+  user_id uuid,
+  email   text
+);
+
+INSERT INTO tmp_users (label, user_id, email) VALUES
+  ('owner',  '21000000-0000-4000-9000-000000000001', 'events-owner@example.com'),
+  ('member', '21000000-0000-4000-9000-000000000002', 'events-member@example.com'),
+  ('muted',  '21000000-0000-4000-9000-000000000003', 'events-muted@example.com');
+
+INSERT INTO public.avatars (id, storage_path, category, name)
+VALUES ('21000000-0000-4000-9000-000000000900', 'avatars/default.png', 'animal', 'Test Avatar')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+SELECT
+  user_id,
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  email,
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+FROM tmp_users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.homes (id, owner_user_id)
+VALUES ('21000000-0000-4000-9000-000000000100', '21000000-0000-4000-9000-000000000001');
+
+INSERT INTO public.memberships (user_id, home_id, role) VALUES
+  ('21000000-0000-4000-9000-000000000001', '21000000-0000-4000-9000-000000000100', 'owner'),
+  ('21000000-0000-4000-9000-000000000002', '21000000-0000-4000-9000-000000000100', 'member');
+
+INSERT INTO public.notification_preferences (
+  user_id, wants_daily, timezone, locale, os_permission, disabled_kinds
+) VALUES
+  ('21000000-0000-4000-9000-000000000001', FALSE, 'UTC', 'en', 'allowed', '{}'),
+  ('21000000-0000-4000-9000-000000000002', FALSE, 'UTC', 'es', 'allowed', '{}'),
+  ('21000000-0000-4000-9000-000000000003', FALSE, 'UTC', 'en', 'allowed', '{chore_assigned}');
+
+INSERT INTO public.device_tokens (id, user_id, token, provider, platform, status) VALUES
+  ('31000000-0000-4000-9000-000000000001', '21000000-0000-4000-9000-000000000001', 'events-owner-token', 'fcm', 'android', 'active'),
+  ('31000000-0000-4000-9000-000000000002', '21000000-0000-4000-9000-000000000002', 'events-member-token', 'apns', 'ios', 'active'),
+  ('31000000-0000-4000-9000-000000000003', '21000000-0000-4000-9000-000000000003', 'events-muted-token', 'fcm', 'android', 'active');
+
+-- 1) Schema
+SELECT has_table('public', 'notification_events', 'notification_events table exists');
+
+SELECT has_column(
+  'public',
+  'notification_sends',
+  'event_id',
+  'notification_sends.event_id exists'
+);
+
+-- 2) Emitter: chore assigned by the owner notifies the assignee, not the actor
+SELECT set_config('request.jwt.claim.sub', '21000000-0000-4000-9000-000000000001', true);
+SELECT set_config('request.jwt.claim.role', 'authenticated', true);
+
+INSERT INTO public.chores (id, home_id, created_by_user_id, assignee_user_id, name, state)
+VALUES
+  ('41000000-0000-4000-9000-000000000001', '21000000-0000-4000-9000-000000000100',
+   '21000000-0000-4000-9000-000000000001', '21000000-0000-4000-9000-000000000002',
+   'Take out the bins', 'active'),
+  ('41000000-0000-4000-9000-000000000002', '21000000-0000-4000-9000-000000000100',
+   '21000000-0000-4000-9000-000000000001', '21000000-0000-4000-9000-000000000001',
+   'Water plants', 'active');
+
+SELECT is(
+  (
+    SELECT payload->>'chore_name'
+    FROM public.notification_events
+    WHERE kind = 'chore_assigned'
+      AND recipient_user_id = '21000000-0000-4000-9000-000000000002'
+  ),
+  'Take out the bins',
+  'Assigning an active chore emits chore_assigned for the assignee'
+);
+
+SELECT is(
+  (
+    SELECT count(*)::int
+    FROM public.notification_events
+    WHERE recipient_user_id = '21000000-0000-4000-9000-000000000001'
+      AND kind = 'chore_assigned'
+  ),
+  0,
+  'Self-assignment emits nothing'
+);
+
+-- Unrelated update does not re-emit; dedupe_key absorbs re-emits
+UPDATE public.chores SET notes = 'Tuesdays'
+WHERE id = '41000000-0000-4000-9000-000000000001';
+
+SELECT public._notification_event_enqueue(
+  'chore_assigned',
+  '21000000-0000-4000-9000-000000000002',
+  '21000000-0000-4000-9000-000000000100',
+  '21000000-0000-4000-9000-000000000001',
+  '{}'::jsonb,
+  'chore_assigned:41000000-0000-4000-9000-000000000001:21000000-0000-4000-9000-000000000002'
+);
+
+SELECT is(
+  (
+    SELECT count(*)::int
+    FROM public.notification_events
+    WHERE kind = 'chore_assigned'
+      AND recipient_user_id = '21000000-0000-4000-9000-000000000002'
+  ),
+  1,
+  'Same chore + assignee is emitted once'
+);
+
+-- 3) Emitter: the weekly digest notifies every current member once the pulse is ready
+INSERT INTO public.home_mood_entries (home_id, user_id, mood, iso_week_year, iso_week) VALUES
+  ('21000000-0000-4000-9000-000000000100', '21000000-0000-4000-9000-000000000001', 'sunny', 2026, 12),
+  ('21000000-0000-4000-9000-000000000100', '21000000-0000-4000-9000-000000000002', 'sunny', 2026, 12);
+
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+SELECT public.house_pulse_digest_prepare('21000000-0000-4000-9000-000000000100', 2026, 12);
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (
+    SELECT count(*)::int
+    FROM public.notification_events
+    WHERE kind = 'house_pulse_weekly'
+      AND home_id = '21000000-0000-4000-9000-000000000100'
+  ),
+  2,
+  'Weekly house pulse digest emits one event per current member'
+);
+
+-- Muted user gets an event that must be settled as opted_out
+SELECT public._notification_event_enqueue(
+  'chore_assigned',
+  '21000000-0000-4000-9000-000000000003',
+  NULL,
+  NULL,
+  jsonb_build_object('chore_id', gen_random_uuid(), 'chore_name', 'Muted chore'),
+  'test:muted'
+);
+
+-- 4) Claim
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_claimed AS
+SELECT * FROM public.notifications_events_claim(50, 24, 15);
+CREATE TEMP TABLE tmp_claimed_again AS
+SELECT * FROM public.notifications_events_claim(50, 24, 15);
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (SELECT status || ':' || error FROM public.notification_events WHERE dedupe_key = 'test:muted'),
+  'skipped:opted_out',
+  'Claim settles opted-out kinds as skipped'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM tmp_claimed),
+  3,
+  'Claim returns deliverable events (chore + two pulses)'
+);
+
+SELECT is(
+  (
+    SELECT locale || ':' || (tokens->0->>'provider')
+    FROM tmp_claimed
+    WHERE kind = 'chore_assigned'
+  ),
+  'es:apns',
+  'Claimed event carries recipient locale and active tokens'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM tmp_claimed_again),
+  0,
+  'Claimed events are not handed out twice'
+);
+
+SELECT is(
+  (
+    SELECT attempts
+    FROM public.notification_events
+    WHERE kind = 'chore_assigned'
+      AND recipient_user_id = '21000000-0000-4000-9000-000000000002'
+  ),
+  1,
+  'Claim counts the attempt'
+);
+
+-- 5) Reserve / success / complete
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_event_send AS
+SELECT public.notifications_reserve_event_send(
+  (SELECT event_id FROM tmp_claimed WHERE kind = 'chore_assigned'),
+  '31000000-0000-4000-9000-000000000002',
+  timezone('UTC', now())::date,
+  'dispatch-1',
+  'chore_assigned_v1'
+) AS send_id;
+CREATE TEMP TABLE tmp_event_send_again AS
+SELECT public.notifications_reserve_event_send(
+  (SELECT event_id FROM tmp_claimed WHERE kind = 'chore_assigned'),
+  '31000000-0000-4000-9000-000000000002',
+  timezone('UTC', now())::date,
+  'dispatch-1',
+  'chore_assigned_v1'
+) AS send_id;
+-- Daily reservation for the same token/day is independent of event sends
+CREATE TEMP TABLE tmp_daily_send AS
+SELECT public.notifications_reserve_send(
+  '21000000-0000-4000-9000-000000000002',
+  '31000000-0000-4000-9000-000000000002',
+  timezone('UTC', now())::date,
+  'daily-1'
+) AS send_id;
+SELECT public.notifications_mark_event_send_success((SELECT send_id FROM tmp_event_send));
+SELECT public.notifications_events_complete(
+  (SELECT event_id FROM tmp_claimed WHERE kind = 'chore_assigned'),
+  'sent',
+  NULL
+);
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT ok(
+  (SELECT send_id IS NOT NULL FROM tmp_event_send),
+  'Event send reservation returns a send id'
+);
+
+SELECT is(
+  (SELECT send_id FROM tmp_event_send_again),
+  NULL,
+  'Second reservation for the same token/event returns null'
+);
+
+SELECT ok(
+  (SELECT send_id IS NOT NULL FROM tmp_daily_send),
+  'Daily reservation on the same token/day still succeeds'
+);
+
+SELECT is(
+  (
+    SELECT kind || ':' || status || ':' || template_id
+    FROM public.notification_sends
+    WHERE id = (SELECT send_id FROM tmp_event_send)
+  ),
+  'chore_assigned:sent:chore_assigned_v1',
+  'Event send records kind, status and template'
+);
+
+SELECT is(
+  (
+    SELECT last_sent_local_date
+    FROM public.notification_preferences
+    WHERE user_id = '21000000-0000-4000-9000-000000000002'
+  ),
+  NULL,
+  'Event sends do not consume the daily slot'
+);
+
+SELECT is(
+  (
+    SELECT status
+    FROM public.notification_events
+    WHERE kind = 'chore_assigned'
+      AND recipient_user_id = '21000000-0000-4000-9000-000000000002'
+  ),
+  'sent',
+  'Complete marks the event sent'
+);
+
+-- 6) Failed device sends can be retried; pending release makes the event claimable again
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_pulse_send AS
+SELECT public.notifications_reserve_event_send(
+  (SELECT event_id FROM tmp_claimed WHERE kind = 'house_pulse_weekly' AND recipient_user_id = '21000000-0000-4000-9000-000000000001'),
+  '31000000-0000-4000-9000-000000000001',
+  timezone('UTC', now())::date,
+  'dispatch-1'
+) AS send_id;
+SELECT public.notifications_update_send_status((SELECT send_id FROM tmp_pulse_send), 'failed', 'fcm_error:503');
+SELECT public.notifications_events_complete(
+  (SELECT event_id FROM tmp_claimed WHERE kind = 'house_pulse_weekly' AND recipient_user_id = '21000000-0000-4000-9000-000000000001'),
+  'pending',
+  'fcm_error:503'
+);
+CREATE TEMP TABLE tmp_pulse_retry AS
+SELECT public.notifications_reserve_event_send(
+  (SELECT event_id FROM tmp_claimed WHERE kind = 'house_pulse_weekly' AND recipient_user_id = '21000000-0000-4000-9000-000000000001'),
+  '31000000-0000-4000-9000-000000000001',
+  timezone('UTC', now())::date,
+  'dispatch-2'
+) AS send_id;
+CREATE TEMP TABLE tmp_reclaimed AS
+SELECT * FROM public.notifications_events_claim(50, 24, 15);
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (SELECT send_id FROM tmp_pulse_retry),
+  (SELECT send_id FROM tmp_pulse_send),
+  'A failed device send is re-reserved on retry'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM tmp_reclaimed),
+  1,
+  'Event released to pending is claimable again'
+);
+
+-- 7) Client opt-out RPC
+SELECT set_config('request.jwt.claim.sub', '21000000-0000-4000-9000-000000000002', true);
+
+SELECT is(
+  (SELECT disabled_kinds FROM public.notifications_set_kind_enabled('expense_owed', FALSE)),
+  ARRAY['expense_owed']::text[],
+  'notifications_set_kind_enabled adds an opt-out'
+);
+
+SELECT is(
+  (SELECT disabled_kinds FROM public.notifications_set_kind_enabled('expense_owed', TRUE)),
+  ARRAY[]::text[],
+  'notifications_set_kind_enabled removes an opt-out'
+);
+
+SELECT throws_like(
+  $$ SELECT public.notifications_set_kind_enabled('daily_digest', FALSE) $$,
+  '%INVALID_NOTIFICATION_KIND%',
+  'Unknown kinds are rejected'
+);
+
+SELECT finish();
+ROLLBACK;
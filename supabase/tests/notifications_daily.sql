@@ -2,7 +2,7 @@ SET search_path = pgtap, public, auth, extensions;
 
 -- pgTAP tests for notifications daily migration
 BEGIN;
-SELECT plan(32);
+SELECT plan(59);
 
 CREATE TEMP TABLE tmp_users (
   label   text PRIMARY KEY,
@@ -168,7 +168,7 @@ SELECT has_function(
 SELECT has_function(
   'public',
   'notifications_daily_candidates',
-  ARRAY['integer','integer']
+  ARRAY['integer','uuid','uuid','integer','integer','integer']
 );
 
 -- Seed preferences + tokens for candidate selection (current hour)
@@ -309,6 +309,11 @@ FROM tmp_users u
 CROSS JOIN now_parts np
 WHERE u.label = 'already_sent';
 
+-- Narrow window: 16 minutes past the preferred time is outside it
+UPDATE public.notification_preferences
+SET send_window_minutes = 15
+WHERE user_id = '20000000-0000-4000-9000-000000000008';
+
 -- Keep success/failure users out of candidate list while still allowing status updates
 UPDATE public.notification_preferences
 SET wants_daily = FALSE, os_permission = 'blocked'
@@ -346,10 +351,35 @@ INSERT INTO tmp_tokens (label, token_id, user_id) VALUES
 SET LOCAL ROLE service_role;
 SET LOCAL search_path = public, auth, extensions;
 CREATE TEMP TABLE tmp_candidates AS
-SELECT * FROM public.notifications_daily_candidates(10, 0);
+SELECT * FROM public.notifications_daily_candidates(10);
+-- Keyset page after the first row, and the same set split into two shards
+CREATE TEMP TABLE tmp_candidates_after AS
+SELECT c.*
+FROM (
+  SELECT user_id, token_id FROM tmp_candidates ORDER BY user_id, token_id LIMIT 1
+) first_row
+CROSS JOIN LATERAL public.notifications_daily_candidates(
+  10, first_row.user_id, first_row.token_id
+) c;
+CREATE TEMP TABLE tmp_candidates_sharded AS
+SELECT 0 AS shard, * FROM public.notifications_daily_candidates(10, NULL, NULL, 24, 0, 2)
+UNION ALL
+SELECT 1 AS shard, * FROM public.notifications_daily_candidates(10, NULL, NULL, 24, 1, 2);
 RESET ROLE;
 SET LOCAL search_path = pgtap, public, auth, extensions;
 
+SELECT is(
+  (SELECT count(*) FROM tmp_candidates_after),
+  (SELECT count(*) - 1 FROM tmp_candidates),
+  'Keyset cursor returns only rows after (user_id, token_id)'
+);
+
+SELECT bag_eq(
+  $$ SELECT user_id, token_id FROM tmp_candidates_sharded $$,
+  $$ SELECT user_id, token_id FROM tmp_candidates $$,
+  'Shards partition the candidate set with no overlap or gaps'
+);
+
 SELECT ok(
   EXISTS (
     SELECT 1 FROM tmp_candidates
@@ -364,6 +394,29 @@ SELECT is(
   'Returns active token id'
 );
 
+SELECT is(
+  (SELECT provider || ':' || platform FROM tmp_candidates LIMIT 1),
+  'fcm:ios',
+  'Returns token provider and platform for transport dispatch'
+);
+
+SELECT is(
+  (
+    SELECT content
+    FROM tmp_candidates
+    WHERE user_id = '20000000-0000-4000-9000-000000000001'
+    LIMIT 1
+  ),
+  jsonb_build_object(
+    'has_content', TRUE,
+    'chores_due', 0,
+    'gratitude_unread', 0,
+    'expenses_owed', 0,
+    'expense_payer', NULL
+  ),
+  'Returns today content summary for copy selection (no home: zero counts)'
+);
+
 SELECT ok(
   (
     SELECT
@@ -376,13 +429,13 @@ SELECT ok(
           + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
         AND local_now <= date_trunc('day', local_now)
           + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
-          + INTERVAL '15 minutes'
+          + make_interval(mins => np.send_window_minutes)
       )
     FROM public.notification_preferences np
     CROSS JOIN (SELECT timezone('UTC', now()) AS local_now) ts
     WHERE np.user_id = '20000000-0000-4000-9000-000000000007'
   ),
-  'Candidate list matches 15-minute window rule for user with preferred time 10 minutes earlier'
+  'Candidate list matches send window rule for user with preferred time 10 minutes earlier'
 );
 
 SELECT ok(
@@ -397,13 +450,13 @@ SELECT ok(
           + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
         AND local_now <= date_trunc('day', local_now)
           + make_interval(hours => np.preferred_hour, mins => np.preferred_minute)
-          + INTERVAL '15 minutes'
+          + make_interval(mins => np.send_window_minutes)
       )
     FROM public.notification_preferences np
     CROSS JOIN (SELECT timezone('UTC', now()) AS local_now) ts
     WHERE np.user_id = '20000000-0000-4000-9000-000000000008'
   ),
-  'Candidate list matches 15-minute window rule for user with preferred time 16 minutes earlier'
+  'Candidate list matches send window rule for user with preferred time 16 minutes earlier (15-minute window)'
 );
 
 SELECT ok(
@@ -414,6 +467,17 @@ SELECT ok(
   'Candidate list excludes users already sent today'
 );
 
+SELECT is(
+  (
+    SELECT recent_sends
+    FROM tmp_candidates
+    WHERE user_id = '20000000-0000-4000-9000-000000000001'
+    LIMIT 1
+  ),
+  0,
+  'Returns recent_sends for the frequency cap'
+);
+
 SELECT is(
   (SELECT local_date::text FROM tmp_candidates LIMIT 1),
   (timezone('UTC', now())::date)::text,
@@ -441,7 +505,8 @@ SELECT public.notifications_reserve_send(
   '20000000-0000-4000-9000-000000000004',
   current_setting('app.test.reserve_token_one', false)::uuid,
   timezone('UTC', now())::date,
-  'job-run-1'
+  'job-run-1',
+  'daily_chores_due_v1'
 ) AS send_id;
 CREATE TEMP TABLE tmp_second_attempt AS
 SELECT public.notifications_reserve_send(
@@ -494,6 +559,30 @@ SELECT is(
   'job_run_id stored on reservation'
 );
 
+SELECT is(
+  (
+    SELECT template_id
+    FROM public.notification_sends
+    WHERE user_id = '20000000-0000-4000-9000-000000000004'
+      AND token_id = (SELECT token_id FROM tmp_tokens WHERE label = 'reserve_one')
+      AND local_date = timezone('UTC', now())::date
+  ),
+  'daily_chores_due_v1',
+  'template_id stored on reservation'
+);
+
+SELECT is(
+  (
+    SELECT template_id
+    FROM public.notification_sends
+    WHERE user_id = '20000000-0000-4000-9000-000000000004'
+      AND token_id = (SELECT token_id FROM tmp_tokens WHERE label = 'reserve_two')
+      AND local_date = timezone('UTC', now())::date
+  ),
+  NULL,
+  'template_id defaults to null for callers that omit it'
+);
+
 DROP TABLE IF EXISTS tmp_reserved;
 DROP TABLE IF EXISTS tmp_second_attempt;
 DROP TABLE IF EXISTS tmp_other_token;
@@ -624,6 +713,265 @@ DROP TABLE IF EXISTS tmp_failed;
 
 RESET ROLE;
 
+SELECT throws_ok(
+  $$ UPDATE public.device_tokens SET provider = 'sms'
+     WHERE id = '30000000-0000-4000-9000-000000000001' $$,
+  '23514',
+  NULL,
+  'device_tokens.provider limited to known push transports'
+);
+
+-- Delivery window + quiet hours timing rule
+SELECT ok(
+  public.notifications_delivery_due('2026-03-22 09:45', 9, 0, 60),
+  'Due inside the send window'
+);
+
+SELECT ok(
+  NOT public.notifications_delivery_due('2026-03-22 10:01', 9, 0, 60),
+  'Not due after the send window closes'
+);
+
+SELECT ok(
+  NOT public.notifications_delivery_due('2026-03-22 09:10', 9, 0, 60, '08:00', '09:30'),
+  'Not due during quiet hours'
+);
+
+SELECT ok(
+  public.notifications_delivery_due('2026-03-22 09:40', 9, 0, 60, '08:00', '09:30'),
+  'Preferred time inside quiet hours is deferred to quiet_hours_end'
+);
+
+SELECT ok(
+  public.notifications_delivery_due('2026-03-22 07:30', 6, 0, 60, '22:00', '07:00'),
+  'Quiet hours wrapping midnight defer an early preferred time'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.notification_preferences SET quiet_hours_start = '22:00'
+     WHERE user_id = '20000000-0000-4000-9000-000000000001' $$,
+  '23514',
+  NULL,
+  'Quiet hours need both start and end'
+);
+
+
+-- Retry queue: a transient failure re-queues the same reservation; the sweep reclaims it when due
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_retry_send AS
+SELECT public.notifications_reserve_send(
+  '20000000-0000-4000-9000-000000000001',
+  '30000000-0000-4000-9000-000000000001',
+  timezone('UTC', now())::date,
+  'job-retry-1',
+  'daily_day_ready_v1'
+) AS send_id;
+SELECT public.notifications_schedule_send_retry(
+  (SELECT send_id FROM tmp_retry_send),
+  'http_503:unavailable',
+  now() - INTERVAL '1 minute'
+);
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (
+    SELECT status || ':' || (next_retry_at IS NOT NULL)::text
+    FROM public.notification_sends
+    WHERE id = (SELECT send_id FROM tmp_retry_send)
+  ),
+  'failed:true',
+  'schedule_send_retry marks the send failed with a retry time'
+);
+
+-- A yesterday retry can no longer go out: the sweep makes it final
+INSERT INTO public.notification_sends (
+  user_id, token_id, local_date, job_run_id, status, error, failed_at, next_retry_at
+)
+VALUES (
+  '20000000-0000-4000-9000-000000000001',
+  '30000000-0000-4000-9000-000000000001',
+  timezone('UTC', now())::date - 1,
+  'job-yesterday',
+  'failed',
+  'http_503:unavailable',
+  now() - INTERVAL '1 day',
+  now() - INTERVAL '1 hour'
+);
+
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_retry_claimed AS
+SELECT * FROM public.notifications_claim_send_retries('job-retry-2', 10);
+CREATE TEMP TABLE tmp_retry_claimed_again AS
+SELECT * FROM public.notifications_claim_send_retries('job-retry-3', 10);
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (SELECT array_agg(send_id) FROM tmp_retry_claimed),
+  ARRAY[(SELECT send_id FROM tmp_retry_send)],
+  'Sweep claims only the retry that is due and still deliverable today'
+);
+
+SELECT is(
+  (
+    SELECT status || ':' || attempts::text || ':' || job_run_id
+    FROM public.notification_sends
+    WHERE id = (SELECT send_id FROM tmp_retry_send)
+  ),
+  'reserved:2:job-retry-2',
+  'Claimed retry is re-reserved with attempts incremented'
+);
+
+SELECT is(
+  (SELECT count(*)::int FROM tmp_retry_claimed_again),
+  0,
+  'A claimed retry is not handed out twice'
+);
+
+SELECT is(
+  (
+    SELECT next_retry_at
+    FROM public.notification_sends
+    WHERE job_run_id = 'job-yesterday'
+  ),
+  NULL,
+  'Retries for a past local day are dropped by the sweep'
+);
+
+-- Retries are per device: another device reaching the user today does not cancel this one
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+SELECT public.notifications_schedule_send_retry(
+  (SELECT send_id FROM tmp_retry_send),
+  'http_503:unavailable',
+  now() - INTERVAL '1 minute'
+);
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+UPDATE public.notification_preferences
+SET last_sent_local_date = timezone('UTC', now())::date
+WHERE user_id = '20000000-0000-4000-9000-000000000001';
+
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_retry_other_device AS
+SELECT * FROM public.notifications_claim_send_retries('job-retry-4', 10);
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT is(
+  (SELECT array_agg(send_id) FROM tmp_retry_other_device),
+  ARRAY[(SELECT send_id FROM tmp_retry_send)],
+  'Device retry still claimed after another device reached the user today'
+);
+
+-- Analytics: locale + local hour snapshot, open tracking, report
+SELECT is(
+  (
+    SELECT locale || ':' || (local_send_hour = date_part('hour', timezone('UTC', now())))::text
+    FROM public.notification_sends
+    WHERE id = (SELECT send_id FROM tmp_retry_send)
+  ),
+  'en:true',
+  'Sends snapshot the recipient locale and local send hour'
+);
+
+SELECT set_config('request.jwt.claim.sub', '20000000-0000-4000-9000-000000000001', true);
+SELECT set_config('request.jwt.claim.role', 'authenticated', true);
+
+CREATE TEMP TABLE tmp_first_open AS
+SELECT public.notifications_record_open((SELECT send_id FROM tmp_retry_send)) AS result;
+CREATE TEMP TABLE tmp_second_open AS
+SELECT public.notifications_record_open((SELECT send_id FROM tmp_retry_send)) AS result;
+
+SELECT ok(
+  (SELECT (result->>'opened_at') IS NOT NULL FROM tmp_first_open),
+  'record_open stamps opened_at on the own send'
+);
+
+SELECT is(
+  (SELECT result->>'opened_at' FROM tmp_second_open),
+  (SELECT result->>'opened_at' FROM tmp_first_open),
+  'Repeat opens keep the first opened_at'
+);
+
+SELECT set_config('request.jwt.claim.sub', '20000000-0000-4000-9000-000000000004', true);
+
+SELECT throws_like(
+  format(
+    'SELECT public.notifications_record_open(%L::uuid)',
+    (SELECT send_id FROM tmp_retry_send)
+  ),
+  '%NOTIFICATION_SEND_NOT_FOUND%',
+  'Users cannot record opens on sends to someone else'
+);
+
+SET LOCAL ROLE service_role;
+SET LOCAL search_path = public, auth, extensions;
+CREATE TEMP TABLE tmp_report AS
+SELECT * FROM public.notifications_delivery_report(now() - INTERVAL '1 hour', now() + INTERVAL '1 minute');
+RESET ROLE;
+SET LOCAL search_path = pgtap, public, auth, extensions;
+
+SELECT ok(
+  EXISTS (
+    SELECT 1
+    FROM tmp_report
+    WHERE kind = 'daily'
+      AND template_id = 'daily_day_ready_v1'
+      AND locale = 'en'
+      AND opened >= 1
+  ),
+  'Delivery report groups sends by kind, locale and template with open counts'
+);
+
+-- Sync on first launch without OS permission returns an unsaved, complete row
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+VALUES (
+  '20000000-0000-4000-9000-000000000010',
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  'first-launch-notify@example.com',
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+)
+ON CONFLICT (id) DO NOTHING;
+
+SELECT set_config('request.jwt.claim.sub', '20000000-0000-4000-9000-000000000010', true);
+
+CREATE TEMP TABLE tmp_sync_unknown AS
+SELECT *
+FROM public.notifications_sync_client_state(
+  'token-first-launch', 'ios', 'de', 'Europe/Berlin', 'unknown'
+);
+
+SELECT is(
+  (
+    SELECT format(
+      '%s|%s|%s:%s|%s|%s|%s|%s',
+      user_id, wants_daily, preferred_hour, preferred_minute,
+      timezone, locale, os_permission, send_window_minutes
+    )
+    FROM tmp_sync_unknown
+  ),
+  '20000000-0000-4000-9000-000000000010|f|9:0|Europe/Berlin|de|unknown|60',
+  'sync_client_state without OS permission returns a full default row'
+);
+
+SELECT ok(
+  NOT EXISTS (
+    SELECT 1
+    FROM public.notification_preferences
+    WHERE user_id = '20000000-0000-4000-9000-000000000010'
+  ),
+  'sync_client_state without OS permission does not persist preferences'
+);
 
 SELECT finish();
 ROLLBACK;
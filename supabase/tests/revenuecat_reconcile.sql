@@ -0,0 +1,125 @@
+SET search_path = pgtap, public, auth, extensions;
+
+-- pgTAP tests for the RevenueCat reconciliation candidates and check bookkeeping
+BEGIN;
+SELECT plan(6);
+
+CREATE TEMP TABLE tmp_users (
+  label   text PRIMARY KEY,
+  user_id uuid,
+  email   text
+);
+
+INSERT INTO tmp_users (label, user_id, email) VALUES
+  ('failed',      '25000000-0000-4000-9000-000000000001', 'reconcile-failed@example.com'),
+  ('live',        '25000000-0000-4000-9000-000000000002', 'reconcile-live@example.com'),
+  ('transferred', '25000000-0000-4000-9000-000000000003', 'reconcile-transferred@example.com');
+
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+SELECT
+  user_id,
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  email,
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+FROM tmp_users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.homes (id, owner_user_id, is_active) VALUES
+  ('25000000-0000-4000-9000-000000000101', '25000000-0000-4000-9000-000000000001', TRUE);
+
+INSERT INTO public.memberships (user_id, home_id, role) VALUES
+  ('25000000-0000-4000-9000-000000000001', '25000000-0000-4000-9000-000000000101', 'owner');
+
+-- Webhook rejected before it reached user_subscriptions (anonymous app_user_id)
+INSERT INTO public.revenuecat_webhook_events (
+  environment, idempotency_key, rc_app_user_id, entitlement_id, product_id,
+  fatal_error_code, fatal_error, raw
+) VALUES (
+  'production',
+  'reconcile-test-1',
+  '$RCAnonymousID:abc',
+  'kinly_premium',
+  'com.example.kinly.premium.monthly',
+  'missing_home_id',
+  'Missing home_id',
+  '{"event":{"type":"INITIAL_PURCHASE","subscriber_attributes":{"user_id":{"value":"25000000-0000-4000-9000-000000000001"}}}}'::jsonb
+);
+
+INSERT INTO public.user_subscriptions (
+  user_id, home_id, store, rc_app_user_id, rc_entitlement_id, product_id, status, current_period_end_at
+) VALUES
+  (
+    '25000000-0000-4000-9000-000000000002', NULL, 'app_store',
+    '25000000-0000-4000-9000-000000000002', 'kinly_premium',
+    'com.example.kinly.premium.monthly', 'active', now() + interval '10 days'
+  ),
+  (
+    '25000000-0000-4000-9000-000000000003', NULL, 'app_store',
+    '25000000-0000-4000-9000-000000000003', 'kinly_premium',
+    'com.example.kinly.premium.monthly', 'inactive', now() + interval '10 days'
+  );
+
+SELECT results_eq(
+  $$ SELECT user_id, reason FROM public.paywall_reconcile_candidates(10, interval '24 hours') $$,
+  $$
+  VALUES
+    ('25000000-0000-4000-9000-000000000001'::uuid, 'webhook_error'),
+    ('25000000-0000-4000-9000-000000000002'::uuid, 'stale')
+  $$,
+  'failed webhooks first, then live subscriptions; transferred-away rows are not due'
+);
+
+SELECT is(
+  (
+    SELECT current_home_id
+    FROM public.paywall_reconcile_candidates(10, interval '24 hours')
+    WHERE user_id = '25000000-0000-4000-9000-000000000001'::uuid
+  ),
+  '25000000-0000-4000-9000-000000000101'::uuid,
+  'candidate carries the current home for rows a webhook never wrote'
+);
+
+SELECT is(
+  (
+    SELECT subscriptions->0->>'status'
+    FROM public.paywall_reconcile_candidates(10, interval '24 hours')
+    WHERE user_id = '25000000-0000-4000-9000-000000000002'::uuid
+  ),
+  'active',
+  'candidate carries the subscription snapshot'
+);
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.paywall_reconcile_candidates(1, interval '24 hours')),
+  1::bigint,
+  'p_limit pages candidates'
+);
+
+SELECT public.paywall_reconcile_record_check('25000000-0000-4000-9000-000000000001'::uuid, 'corrected', 1);
+SELECT public.paywall_reconcile_record_check('25000000-0000-4000-9000-000000000002'::uuid, 'unchanged');
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.paywall_reconcile_candidates(10, interval '24 hours') $$,
+  'checked users are not due until the stale window passes'
+);
+
+-- Two days later: the failure predates the check
+UPDATE public.revenuecat_webhook_events
+SET created_at = now() - interval '3 days'
+WHERE idempotency_key = 'reconcile-test-1';
+
+UPDATE public.revenuecat_subscriber_checks
+SET checked_at = now() - interval '2 days';
+
+SELECT results_eq(
+  $$ SELECT user_id, reason FROM public.paywall_reconcile_candidates(10, interval '24 hours') $$,
+  $$ VALUES ('25000000-0000-4000-9000-000000000002'::uuid, 'stale') $$,
+  'stale live subscriptions come back; an already checked failure does not'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
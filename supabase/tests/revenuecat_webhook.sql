@@ -3,7 +3,7 @@ SET search_path = pgtap, public, auth, extensions;
 BEGIN;
 SET ROLE postgres;
 
-SELECT plan(7);
+SELECT plan(17);
 
 -- Seed defaults required by handle_new_user()
 INSERT INTO public.avatars (id, storage_path, category, name)
@@ -98,5 +98,169 @@ SELECT is(
   'rc_event_id idempotency enforced (no duplicates)'
 );
 
+-- Out-of-order protection: applied state + compare-and-swap
+SELECT is(
+  (
+    public.paywall_subscription_applied_state(
+      '00000000-0000-4000-8000-000000000701'::uuid,
+      'kinly_premium'
+    )->>'original_transaction_id'
+  ),
+  'orig-txn-1',
+  'applied state exposes the subscription lineage'
+);
+
+SELECT ok(
+  (
+    SELECT last_event_timestamp IS NOT NULL
+    FROM public.user_subscriptions
+    WHERE user_id = '00000000-0000-4000-8000-000000000701'::uuid
+      AND rc_entitlement_id = 'kinly_premium'
+  ),
+  'last applied event timestamp recorded'
+);
+
+SELECT throws_ok(
+  $$
+  SELECT public.paywall_record_subscription(
+    p_idempotency_key       => 'evt-2',
+    p_user_id               => '00000000-0000-4000-8000-000000000701'::uuid,
+    p_home_id               => '00000000-0000-4000-8000-000000000702'::uuid,
+    p_store                 => 'play_store'::public.subscription_store,
+    p_rc_app_user_id        => '00000000-0000-4000-8000-000000000701',
+    p_entitlement_id        => 'kinly_premium',
+    p_product_id            => 'com.example.kinly.premium.monthly',
+    p_status                => 'cancelled_pending_expiry'::public.subscription_status,
+    p_current_period_end_at => now() + interval '30 days',
+    p_original_purchase_at  => now() - interval '1 day',
+    p_last_purchase_at      => now(),
+    p_latest_transaction_id => 'test-txn-1',
+    p_environment           => 'sandbox',
+    p_applied_state         => '{}'::jsonb
+  );
+  $$,
+  '40001',
+  NULL,
+  'stale applied state is rejected as retryable'
+);
+
+SELECT ok(
+  NOT has_function_privilege(
+    'authenticated',
+    'public.paywall_subscription_applied_state(uuid, text)',
+    'EXECUTE'
+  ),
+  'clients cannot read applied subscription state'
+);
+
+-- TRANSFER: subscription moves to another user + home
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+VALUES (
+  '00000000-0000-4000-8000-000000000703',
+  '00000000-0000-0000-0000-000000000000',
+  'paywall-transfer@example.com',
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.homes (id, owner_user_id)
+VALUES (
+  '00000000-0000-4000-8000-000000000704',
+  '00000000-0000-4000-8000-000000000703'
+)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.home_entitlements (home_id, plan, expires_at)
+VALUES ('00000000-0000-4000-8000-000000000704', 'free', NULL)
+ON CONFLICT (home_id) DO NOTHING;
+
+SELECT is(
+  public.paywall_transfer_subscription(
+    p_idempotency_key => 'evt-transfer-1',
+    p_to_user_id      => '00000000-0000-4000-8000-000000000703'::uuid,
+    p_from_user_ids   => ARRAY['00000000-0000-4000-8000-000000000701'::uuid],
+    p_home_id         => '00000000-0000-4000-8000-000000000704'::uuid,
+    p_entitlement_ids => ARRAY['kinly_premium'],
+    p_event_timestamp => now(),
+    p_environment     => 'sandbox'
+  ),
+  false,
+  'transfer processed'
+);
+
+SELECT is(
+  (
+    SELECT home_id
+    FROM public.user_subscriptions
+    WHERE user_id = '00000000-0000-4000-8000-000000000703'::uuid
+      AND rc_entitlement_id = 'kinly_premium'
+      AND status = 'active'
+  ),
+  '00000000-0000-4000-8000-000000000704'::uuid,
+  'receiving user holds the subscription on their home'
+);
+
+SELECT is(
+  (
+    SELECT status::text || ':' || COALESCE(home_id::text, 'floating')
+    FROM public.user_subscriptions
+    WHERE user_id = '00000000-0000-4000-8000-000000000701'::uuid
+      AND rc_entitlement_id = 'kinly_premium'
+  ),
+  'inactive:floating',
+  'sender keeps an inactive, detached row'
+);
+
+SELECT results_eq(
+  $$
+  SELECT plan
+  FROM public.home_entitlements
+  WHERE home_id IN (
+    '00000000-0000-4000-8000-000000000702'::uuid,
+    '00000000-0000-4000-8000-000000000704'::uuid
+  )
+  ORDER BY home_id
+  $$,
+  ARRAY['free', 'premium'],
+  'premium follows the transfer'
+);
+
+-- BILLING_ISSUE: in_grace keeps the home premium
+SELECT public.paywall_record_subscription(
+  p_idempotency_key       => 'evt-grace-1',
+  p_user_id               => '00000000-0000-4000-8000-000000000703'::uuid,
+  p_home_id               => '00000000-0000-4000-8000-000000000704'::uuid,
+  p_store                 => 'play_store'::public.subscription_store,
+  p_rc_app_user_id        => '00000000-0000-4000-8000-000000000703',
+  p_entitlement_id        => 'kinly_premium',
+  p_product_id            => 'com.example.kinly.premium.monthly',
+  p_status                => 'in_grace'::public.subscription_status,
+  p_current_period_end_at => now() - interval '1 day',
+  p_original_purchase_at  => now() - interval '1 day',
+  p_last_purchase_at      => now(),
+  p_latest_transaction_id => 'test-txn-1',
+  p_environment           => 'sandbox',
+  p_grace_until_at        => now() + interval '16 days'
+);
+
+SELECT is(
+  (SELECT plan FROM public.home_entitlements WHERE home_id = '00000000-0000-4000-8000-000000000704'::uuid),
+  'premium',
+  'in_grace keeps the home premium'
+);
+
+SELECT ok(
+  NOT has_function_privilege(
+    'authenticated',
+    'public.paywall_transfer_subscription(text, uuid, uuid[], uuid, text[], timestamptz, text)',
+    'EXECUTE'
+  ),
+  'clients cannot transfer subscriptions'
+);
+
 SELECT * FROM finish();
 ROLLBACK;
@@ -0,0 +1,106 @@
+SET search_path = pgtap, public, auth, extensions;
+
+-- pgTAP tests for RevenueCat webhook replay selection and the dry-run projection
+BEGIN;
+SELECT plan(6);
+
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+VALUES (
+  '26000000-0000-4000-9000-000000000001',
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  'replay-owner@example.com',
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.homes (id, owner_user_id, is_active) VALUES
+  ('26000000-0000-4000-9000-000000000101', '26000000-0000-4000-9000-000000000001', TRUE);
+
+INSERT INTO public.memberships (user_id, home_id, role) VALUES
+  ('26000000-0000-4000-9000-000000000001', '26000000-0000-4000-9000-000000000101', 'owner');
+
+INSERT INTO public.revenuecat_webhook_events (
+  environment, idempotency_key, rc_app_user_id, entitlement_id, product_id,
+  home_id, fatal_error_code, fatal_error, rpc_error_code, rpc_retryable, raw, created_at
+) VALUES
+  (
+    'production', 'replay-test-fatal', '26000000-0000-4000-9000-000000000001', 'kinly_premium',
+    'com.example.kinly.premium.monthly', NULL, 'missing_home_id', 'Missing home_id', NULL, NULL,
+    '{"event":{"type":"INITIAL_PURCHASE","subscriber_attributes":{"home_id":{"value":"26000000-0000-4000-9000-000000000101"}}}}'::jsonb,
+    now() - interval '2 days'
+  ),
+  (
+    'production', 'replay-test-rpc', '26000000-0000-4000-9000-000000000001', 'kinly_premium',
+    'com.example.kinly.premium.monthly', '26000000-0000-4000-9000-000000000101', NULL, NULL,
+    'rpc_failure', TRUE, '{"event":{"type":"RENEWAL"}}'::jsonb,
+    now() - interval '1 day'
+  ),
+  (
+    'production', 'replay-test-ok', '26000000-0000-4000-9000-000000000001', 'kinly_premium',
+    'com.example.kinly.premium.monthly', '26000000-0000-4000-9000-000000000101', NULL, NULL, NULL, NULL,
+    '{"event":{"type":"RENEWAL"}}'::jsonb,
+    now() - interval '1 day'
+  );
+
+SELECT results_eq(
+  $$
+    SELECT idempotency_key
+    FROM public.paywall_webhook_replay_events(p_home_id => '26000000-0000-4000-9000-000000000101')
+  $$,
+  $$ VALUES ('replay-test-fatal'::text), ('replay-test-rpc'::text) $$,
+  'failed events only, oldest first; home matches the column or the payload attribute'
+);
+
+SELECT results_eq(
+  $$ SELECT idempotency_key FROM public.paywall_webhook_replay_events(p_rpc_retryable => TRUE) $$,
+  $$ VALUES ('replay-test-rpc'::text) $$,
+  'rpc_retryable filter'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.paywall_webhook_replay_events(p_fatal_error_code => 'missing_home_id', p_from => now() - interval '1 day') $$,
+  'fatal code and created_at range filters'
+);
+
+SELECT public.paywall_webhook_replay_mark(
+  (SELECT id FROM public.revenuecat_webhook_events WHERE idempotency_key = 'replay-test-rpc'),
+  'applied'
+);
+
+SELECT results_eq(
+  $$ SELECT idempotency_key FROM public.paywall_webhook_replay_events() $$,
+  $$ VALUES ('replay-test-fatal'::text) $$,
+  'events resolved by a replay are not selected again'
+);
+
+SELECT results_eq(
+  $$
+    SELECT current_plan, projected_plan, subscriptions->0->>'to_status'
+    FROM public.paywall_webhook_replay_preview(
+      jsonb_build_array(jsonb_build_object(
+        'kind', 'record',
+        'user_id', '26000000-0000-4000-9000-000000000001',
+        'entitlement_id', 'kinly_premium',
+        'home_id', '26000000-0000-4000-9000-000000000101',
+        'status', 'active',
+        'current_period_end_at', now() + interval '30 days',
+        'grace_until_at', NULL
+      ))
+    )
+  $$,
+  $$ VALUES ('free'::text, 'premium'::text, 'active'::text) $$,
+  'dry-run preview projects the captured write onto the home'
+);
+
+SELECT is(
+  (SELECT COUNT(*) FROM public.user_subscriptions WHERE user_id = '26000000-0000-4000-9000-000000000001'),
+  0::bigint,
+  'preview writes nothing'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
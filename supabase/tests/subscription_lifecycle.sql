@@ -0,0 +1,153 @@
+SET search_path = pgtap, public, auth, extensions;
+
+-- pgTAP tests for the subscription lifecycle: transitions, grace funding, grace sweep, notifications
+BEGIN;
+SELECT plan(10);
+
+CREATE TEMP TABLE tmp_users (
+  label   text PRIMARY KEY,
+  user_id uuid,
+  email   text
+);
+
+INSERT INTO tmp_users (label, user_id, email) VALUES
+  ('owner',      '24000000-0000-4000-9000-000000000001', 'lifecycle-owner@example.com'),
+  ('subscriber', '24000000-0000-4000-9000-000000000002', 'lifecycle-subscriber@example.com');
+
+INSERT INTO auth.users (id, instance_id, email, raw_user_meta_data, raw_app_meta_data, aud, role, encrypted_password)
+SELECT
+  user_id,
+  '00000000-0000-0000-0000-000000000000'::uuid,
+  email,
+  '{}'::jsonb,
+  '{"provider":"email"}'::jsonb,
+  'authenticated',
+  'authenticated',
+  'secret'
+FROM tmp_users
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.homes (id, owner_user_id, is_active) VALUES
+  ('24000000-0000-4000-9000-000000000101', '24000000-0000-4000-9000-000000000001', TRUE);
+
+INSERT INTO public.memberships (user_id, home_id, role) VALUES
+  ('24000000-0000-4000-9000-000000000001', '24000000-0000-4000-9000-000000000101', 'owner'),
+  ('24000000-0000-4000-9000-000000000002', '24000000-0000-4000-9000-000000000101', 'member');
+
+CREATE OR REPLACE FUNCTION pg_temp.record_step(
+  p_key         text,
+  p_status      public.subscription_status,
+  p_period_end  timestamptz,
+  p_grace_until timestamptz DEFAULT NULL
+) RETURNS boolean
+LANGUAGE sql
+AS $$
+  SELECT public.paywall_record_subscription(
+    p_idempotency_key       => p_key,
+    p_user_id               => '24000000-0000-4000-9000-000000000002'::uuid,
+    p_home_id               => '24000000-0000-4000-9000-000000000101'::uuid,
+    p_store                 => 'app_store'::public.subscription_store,
+    p_rc_app_user_id        => '24000000-0000-4000-9000-000000000002',
+    p_entitlement_id        => 'kinly_premium',
+    p_product_id            => 'com.example.kinly.premium.monthly',
+    p_status                => p_status,
+    p_current_period_end_at => p_period_end,
+    p_original_purchase_at  => now() - interval '60 days',
+    p_last_purchase_at      => now() - interval '30 days',
+    p_latest_transaction_id => 'txn-lifecycle-1',
+    p_environment           => 'sandbox',
+    p_grace_until_at        => p_grace_until
+  );
+$$;
+
+SELECT ok(
+  public._subscription_transition_allowed('in_grace', 'on_hold')
+    AND public._subscription_transition_allowed('on_hold', 'active')
+    AND NOT public._subscription_transition_allowed('expired', 'in_grace')
+    AND NOT public._subscription_transition_allowed('on_hold', 'cancelled_pending_expiry'),
+  'transition table matches the webhook lifecycle'
+);
+
+-- active -> in_grace: period ended yesterday, grace runs for another week
+SELECT pg_temp.record_step('lc-1', 'active', now() - interval '1 day');
+SELECT pg_temp.record_step('lc-2', 'in_grace', now() - interval '1 day', now() + interval '7 days');
+
+SELECT is(
+  (SELECT plan FROM public.home_entitlements WHERE home_id = '24000000-0000-4000-9000-000000000101'::uuid),
+  'premium',
+  'in_grace keeps the home premium past the period end'
+);
+
+SELECT ok(
+  (
+    SELECT expires_at > now() + interval '6 days'
+    FROM public.home_entitlements
+    WHERE home_id = '24000000-0000-4000-9000-000000000101'::uuid
+  ),
+  'premium runs until the grace period ends'
+);
+
+SELECT results_eq(
+  $$
+  SELECT recipient_user_id, payload->>'audience'
+  FROM public.notification_events
+  WHERE kind = 'subscription_status'
+    AND payload->>'status' = 'in_grace'
+  ORDER BY payload->>'audience'
+  $$,
+  $$
+  VALUES
+    ('24000000-0000-4000-9000-000000000001'::uuid, 'home_owner'),
+    ('24000000-0000-4000-9000-000000000002'::uuid, 'subscriber')
+  $$,
+  'entering grace notifies the subscriber and the home owner'
+);
+
+-- Grace lapses without an event: the sweep moves the subscription on hold
+UPDATE public.user_subscriptions
+SET grace_until_at = now() - interval '1 minute'
+WHERE user_id = '24000000-0000-4000-9000-000000000002'::uuid;
+
+SELECT is(public.paywall_subscriptions_grace_sweep(), 1, 'sweep holds the lapsed grace period');
+
+SELECT is(
+  (SELECT status::text FROM public.user_subscriptions WHERE user_id = '24000000-0000-4000-9000-000000000002'::uuid),
+  'on_hold',
+  'subscription on hold'
+);
+
+SELECT is(
+  (SELECT plan FROM public.home_entitlements WHERE home_id = '24000000-0000-4000-9000-000000000101'::uuid),
+  'free',
+  'on_hold locks the home'
+);
+
+SELECT throws_ok(
+  $$ SELECT pg_temp.record_step('lc-3', 'cancelled_pending_expiry', now() + interval '30 days') $$,
+  '22023',
+  'invalid_subscription_transition',
+  'a late cancellation cannot reopen access'
+);
+
+-- Store recovers the charge
+SELECT pg_temp.record_step('lc-4', 'active', now() + interval '30 days');
+
+SELECT is(
+  (SELECT plan FROM public.home_entitlements WHERE home_id = '24000000-0000-4000-9000-000000000101'::uuid),
+  'premium',
+  'recovery restores premium'
+);
+
+SELECT is(
+  (
+    SELECT COUNT(*)
+    FROM public.notification_events
+    WHERE kind = 'subscription_status'
+      AND payload->>'status' IN ('on_hold', 'active')
+  ),
+  4::bigint,
+  'hold and recovery each notify both owners (initial purchase does not)'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,200 @@
+/**
+ * Deterministic content-delta analysis for complaint rewrites (judge v1 §3.3–3.4).
+ * Compares original_text with rewritten_text and reports what the rewrite added or dropped:
+ * - numbers, clock times and weekdays that the original never mentioned
+ * - named entities (capitalised words that are not sentence-initial)
+ * - complaint topics the original was not about
+ * - a request/boundary that was removed or retracted ("no need to", "never mind")
+ * No model, no network: same inputs -> same output, so it can run inline in the collector.
+ */
+
+export type DeltaIntent = 'request' | 'boundary' | 'concern' | 'clarification';
+
+export type ContentDelta = {
+  new_numbers: string[];
+  new_times: string[];
+  new_entities: string[];
+  added_topics: string[];
+  // null when the target language is not covered by the cue lists (no judgement)
+  ask_present: boolean | null;
+  ask_flipped: boolean | null;
+  question_present: boolean;
+};
+
+// Languages covered by ASK_CUES / RETRACTIONS / entity capitalisation rules
+const CUE_LANGUAGES = new Set(['en', 'es', 'fr', 'de', 'pt', 'it']);
+// German capitalises every noun, so capitalisation says nothing about names there
+const ENTITY_LANGUAGES = new Set(['en', 'es', 'fr', 'pt', 'it']);
+
+const ASK_CUES =
+  /(\b(could|can|would|will) you\b|\b(could|can|would|should|shall) we\b|\bwhen(ever)? you (get|have) a (chance|moment|minute)\b|\b(it'?d|it would) (really |truly )?help if\b|\b(it'?d|would) be (really |so )?(great|nice|helpful|lovely|amazing) if\b|\bplease\b|\blet'?s\b|\bwould it be\b|\bwould you mind\b|\bdo you mind\b|\bi('?d| would) (really |truly )?(appreciate|like|prefer|rather)\b|\bi need\b|\bi'?m not (ok|okay|comfortable)\b|\bis it (ok|okay)\b|\bpor favor\b|\bpodr[ií]as\b|\bpuedes\b|\bpourrais\b|\bpourriez\b|\bpeux-tu\b|\bs'il (te|vous) pla[iî]t\b|\bbitte\b|\bk[öo]nntest\b|\bkannst du\b|\bper favore\b|\bpotresti\b|\bpuoi\b|\bpoderia\b|\bvoc[eê] pode\b)/i;
+
+const RETRACTIONS =
+  /(\bno need to\b|\b(do not|don'?t|doesn'?t|does not) need to\b|\byou (do not|don'?t) have to\b|\bnever ?mind\b|\bforget (about )?it\b|\bdon'?t worry about\b|\bno worries if\b|\bit'?s (totally )?fine if\b|\bno hace falta\b|\bno pasa nada\b|\bpas besoin\b|\bpas grave\b|\bnicht n[öo]tig\b|\bmacht nichts\b|\bn[ãa]o precisa\b|\bnon serve\b|\bnon importa\b)/i;
+
+const CLOCK_TIME = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.|h)(?![\p{L}])|\b(\d{1,2}):(\d{2})\b/giu;
+const NUMBER = /\d+(?:[.,]\d+)?/g;
+
+// Weekday name -> index (0 = Monday); cross-language so "lunes" matches "Monday"
+const WEEKDAYS: Record<string, number> = {
+  monday: 0, tuesday: 1, wednesday: 2, thursday: 3, friday: 4, saturday: 5, sunday: 6,
+  lunes: 0, martes: 1, miércoles: 2, miercoles: 2, jueves: 3, viernes: 4, sábado: 5, sabado: 5, domingo: 6,
+  lundi: 0, mardi: 1, mercredi: 2, jeudi: 3, vendredi: 4, samedi: 5, dimanche: 6,
+  montag: 0, dienstag: 1, mittwoch: 2, donnerstag: 3, freitag: 4, samstag: 5, sonntag: 6,
+  lunedì: 0, martedì: 1, mercoledì: 2, giovedì: 3, venerdì: 4, sabato: 5, domenica: 6,
+};
+
+// Pronouns and interjections that are capitalised mid-sentence without being entities
+const NOT_ENTITIES = new Set(['i', "i'm", "i'd", "i'll", "i've", 'ok', 'okay', 'hi', 'hey']);
+
+// Complaint topics (stems, word-start match). Schedule/communication are left out on purpose:
+// rewrites routinely add "tonight" or "let me know", and times are checked separately above.
+const TOPIC_STEMS: Record<string, string[]> = {
+  noise: ['noise', 'noisy', 'loud', 'music', 'volume', 'bass', 'shout', 'yell', 'scream', 'quiet', 'headphone', 'tv', 'slam', 'ruido', 'bruit', 'lärm', 'laut', 'barulho', 'rumore'],
+  cleanliness: ['clean', 'dirty', 'mess', 'dish', 'trash', 'rubbish', 'garbage', 'bin', 'tidy', 'smell', 'stink', 'laundry', 'wash', 'crumb', 'sink', 'bathroom', 'toilet', 'kitchen', 'limpi', 'sucio', 'basura', 'propre', 'vaisselle', 'sauber', 'dreckig', 'müll', 'sujo', 'lixo', 'sporco', 'pulit'],
+  privacy: ['privacy', 'private', 'knock', 'my room', 'without asking', 'my stuff', 'my things', 'borrow', 'snoop', 'personal space', 'privacidad', 'intimité', 'privatsphäre', 'privacidade'],
+  guests: ['guest', 'visitor', 'boyfriend', 'girlfriend', 'sleepover', 'stay over', 'staying over', 'party', 'parties', 'people over', 'huésped', 'visita', 'invité', 'gäste', 'besuch', 'ospite'],
+};
+
+function primaryLanguage(locale: string): string {
+  return (locale || '').toLowerCase().split(/[-_]/)[0];
+}
+
+function unique<T>(arr: T[]): T[] {
+  return Array.from(new Set(arr));
+}
+
+function hasStem(lower: string, stem: string): boolean {
+  let idx = lower.indexOf(stem);
+  while (idx !== -1) {
+    if (idx === 0 || !/\p{L}/u.test(lower[idx - 1])) return true;
+    idx = lower.indexOf(stem, idx + 1);
+  }
+  return false;
+}
+
+function topicsOf(text: string): Set<string> {
+  const lower = text.toLowerCase();
+  const out = new Set<string>();
+  for (const [topic, stems] of Object.entries(TOPIC_STEMS)) {
+    if (stems.some((s) => hasStem(lower, s))) out.add(topic);
+  }
+  return out;
+}
+
+function numbersOf(text: string): Set<number> {
+  return new Set((text.match(NUMBER) || []).map((n) => Number(n.replace(',', '.'))));
+}
+
+function weekdaysOf(text: string): Map<number, string> {
+  const out = new Map<number, string>();
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) || []) {
+    if (word in WEEKDAYS && !out.has(WEEKDAYS[word])) out.set(WEEKDAYS[word], word);
+  }
+  return out;
+}
+
+function wordsOf(text: string): Set<string> {
+  return new Set((text.toLowerCase().match(/\p{L}[\p{L}'’-]*/gu) || []).map((w) => w.replace('’', "'")));
+}
+
+function entitiesOf(text: string): string[] {
+  const out: string[] = [];
+  for (const sentence of text.split(/[.!?¡¿:;\n]+/)) {
+    const words = sentence.match(/\p{L}[\p{L}'’-]*/gu) || [];
+    for (const word of words.slice(1)) {
+      const lower = word.toLowerCase().replace('’', "'");
+      if (!/^\p{Lu}\p{Ll}/u.test(word)) continue;
+      if (NOT_ENTITIES.has(lower) || lower in WEEKDAYS) continue;
+      out.push(word);
+    }
+  }
+  return out;
+}
+
+/**
+ * Compare original vs rewritten text.
+ * target_locale gates the language-specific checks (ask cues, retractions, entities);
+ * numbers, times, weekdays and topics are checked for every language.
+ */
+export function analyzeContentDelta(
+  originalText: string,
+  rewrittenText: string,
+  opts: { target_locale: string }
+): ContentDelta {
+  const lang = primaryLanguage(opts.target_locale);
+  const originalNumbers = numbersOf(originalText);
+
+  // Clock times: known if the hour (12h or 24h) and minutes already appear as numbers
+  const new_times: string[] = [];
+  let rest = rewrittenText;
+  for (const m of rewrittenText.matchAll(CLOCK_TIME)) {
+    rest = rest.replace(m[0], ' ');
+    const hour = Number(m[1] ?? m[4]);
+    const minutes = Number(m[2] ?? m[5] ?? 0);
+    const hourKnown = [hour, hour % 12, (hour % 12) + 12].some((h) => originalNumbers.has(h));
+    const minutesKnown = minutes === 0 || originalNumbers.has(minutes);
+    if (!hourKnown || !minutesKnown) new_times.push(m[0].trim());
+  }
+  const originalDays = weekdaysOf(originalText);
+  for (const [day, word] of weekdaysOf(rewrittenText)) {
+    if (!originalDays.has(day)) new_times.push(word);
+  }
+
+  const new_numbers = (rest.match(NUMBER) || []).filter((n) => !originalNumbers.has(Number(n.replace(',', '.'))));
+
+  let new_entities: string[] = [];
+  if (ENTITY_LANGUAGES.has(lang)) {
+    const originalWords = wordsOf(originalText);
+    new_entities = entitiesOf(rewrittenText).filter((w) => !originalWords.has(w.toLowerCase().replace('’', "'")));
+  }
+
+  // Only judge added topics when the original had a recognisable one
+  const originalTopics = topicsOf(originalText);
+  const added_topics =
+    originalTopics.size === 0 ? [] : Array.from(topicsOf(rewrittenText)).filter((t) => !originalTopics.has(t));
+
+  const covered = CUE_LANGUAGES.has(lang);
+  const rewritten = rewrittenText.replace(/’/g, "'");
+  const ask_present = covered ? ASK_CUES.test(rewritten) : null;
+  const ask_flipped = covered ? RETRACTIONS.test(rewritten) && !RETRACTIONS.test(originalText.replace(/’/g, "'")) : null;
+
+  return {
+    new_numbers: unique(new_numbers),
+    new_times: unique(new_times),
+    new_entities: unique(new_entities),
+    added_topics,
+    ask_present,
+    ask_flipped,
+    question_present: /[?？؟]/.test(rewrittenText),
+  };
+}
+
+export function hasNewFacts(delta: ContentDelta): boolean {
+  return (
+    delta.new_numbers.length > 0 ||
+    delta.new_times.length > 0 ||
+    delta.new_entities.length > 0 ||
+    delta.added_topics.length > 0
+  );
+}
+
+/**
+ * Intent preservation (judge §3.3):
+ * - request/boundary: fail if the ask was retracted; warn if no ask cue is left (question or not).
+ *   A missing cue stays a warning until ASK_CUES has fixture coverage across phrasings.
+ * - clarification: warn if the rewrite no longer asks anything
+ * - concern: nothing to preserve beyond the content-delta checks
+ */
+export function intentPreservation(delta: ContentDelta, intent: DeltaIntent): 'pass' | 'warn' | 'fail' {
+  if (intent === 'request' || intent === 'boundary') {
+    if (delta.ask_flipped) return 'fail';
+    if (delta.ask_present === false) return 'warn';
+    if (delta.ask_present === null && !delta.question_present) return 'warn';
+    return 'pass';
+  }
+  if (intent === 'clarification') {
+    return delta.question_present || delta.ask_present ? 'pass' : 'warn';
+  }
+  return 'pass';
+}
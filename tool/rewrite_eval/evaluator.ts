@@ -2,9 +2,14 @@
  * Lightweight, deterministic eval for complaint rewrite outputs.
  * Inputs: request, response, context_pack.
  * Output: RewriteEvalResultV1-like object with violation codes.
+ * Lexicon rules come from the versioned per-locale pack for req.target_locale (see lexicon/).
  * This is a reference implementation; wire it into the async worker.
  */
 
+import { analyzeContentDelta, hasNewFacts, intentPreservation } from './content_delta.ts';
+import { checkOutputLanguage } from './language_id.ts';
+import { DEFAULT_LEXICON_VERSION, selectLexiconPack } from './lexicon/index.ts';
+
 export type ViolationCode =
   | 'vulgarity'
   | 'slur'
@@ -24,6 +29,8 @@ type EvalResult = {
   tone_safety: 'pass' | 'warn' | 'fail';
   intent_preserved: 'pass' | 'warn' | 'fail';
   violations: ViolationCode[];
+  // Language identified from rewritten_text (null when too short/ambiguous to tell)
+  detected_language: string | null;
   judge_version: string;
   dataset_version: string | 'none';
 };
@@ -46,15 +53,9 @@ type ContextPack = {
   power: { power_mode: 'higher_sender' | 'higher_recipient' | 'peer' };
 };
 
-const PROFANITY = /\b(fuck|shit|damn|asshole|bitch|bastard)\b/i;
-const SLURS = /\b(retard|idiot|moron)\b/i;
-const PERSONAL_ATTACK = /\byou\b[^.!?]*(stupid|lazy|disgusting|selfish|idiot)/i;
-const AUTHORITY = /(because\s+i\s*(am|\'m)\s*(the\s*)?(owner|landlord)|house rules|you must|you have to)/i;
-const PREF_DISCLOSURE = /(your preferences|tailored for you|based on your answers)/i;
-const MEDICAL = /(adhd|autistic|bipolar|psychopath|crazy)/i;
-const BLAME = /(your fault|you always|you never)/i;
-const SARCASM = /(yeah right|sure you|of course you)/i;
-const HEDGE = /(maybe|perhaps|kinda|sort of|possibly)/i;
+function primaryLanguage(locale: string): string {
+  return (locale || '').toLowerCase().split(/[-_]/)[0];
+}
 
 function unique<T>(arr: T[]): T[] {
   return Array.from(new Set(arr));
@@ -64,48 +65,48 @@ export function evaluateRewrite(
   req: Request,
   res: Response,
   ctx: ContextPack,
-  opts: { judge_version?: string; dataset_version?: string } = {}
+  opts: { judge_version?: string; dataset_version?: string; lexicon_version?: string } = {}
 ): EvalResult {
   const violations: ViolationCode[] = [];
+  const lexicon = selectLexiconPack(opts.lexicon_version || DEFAULT_LEXICON_VERSION, req.target_locale);
 
   // Schema + locale
   const schema_valid = !!res.rewrite_request_id && !!res.recipient_user_id && !!res.rewritten_text;
-  if (res.output_language.toLowerCase() !== req.target_locale.toLowerCase()) {
+  // Declared output_language and the text's own language must both match (primary subtag)
+  const outputLanguage = checkOutputLanguage(res.rewritten_text, req.target_locale);
+  if (primaryLanguage(res.output_language) !== primaryLanguage(req.target_locale) || !outputLanguage.matches) {
     violations.push('non_target_locale');
   }
 
   // Lexicon checks (hard)
   const text = res.rewritten_text;
-  if (PROFANITY.test(text)) violations.push('vulgarity');
-  if (SLURS.test(text)) violations.push('slur');
-  if (PERSONAL_ATTACK.test(text)) violations.push('personal_attack');
-  if (AUTHORITY.test(text)) violations.push('authority');
-  if (PREF_DISCLOSURE.test(text)) violations.push('preference_disclosure');
-  if (MEDICAL.test(text)) violations.push('medical');
-  if (BLAME.test(text)) violations.push('blame');
+  if (lexicon.profanity.test(text)) violations.push('vulgarity');
+  if (lexicon.slurs.test(text)) violations.push('slur');
+  if (lexicon.personal_attack.test(text)) violations.push('personal_attack');
+  if (lexicon.authority.test(text)) violations.push('authority');
+  if (lexicon.preference_disclosure.test(text)) violations.push('preference_disclosure');
+  if (lexicon.medical.test(text)) violations.push('medical');
+  if (lexicon.blame.test(text)) violations.push('blame');
 
   // Warn-level
-  if (SARCASM.test(text)) violations.push('sarcasm_warn');
+  if (lexicon.sarcasm.test(text)) violations.push('sarcasm_warn');
   // Hedging: warn only if hedge words are >1% of tokens
-  const hedgeHits = (text.match(new RegExp(HEDGE, 'gi')) || []).length;
+  const hedgeHits = (text.match(new RegExp(lexicon.hedge.source, lexicon.hedge.flags + 'g')) || []).length;
   const tokenCount = Math.max(1, text.split(/\s+/).length);
   if (hedgeHits / tokenCount > 0.01) violations.push('hedge_warn');
 
   // Power/tone: enforce no authority for higher_sender; no demands for higher_recipient
-  if (ctx.power.power_mode === 'higher_sender' && /\b(must|have to|rules)\b/i.test(text)) {
+  if (ctx.power.power_mode === 'higher_sender' && lexicon.power.higher_sender.test(text)) {
     violations.push('authority');
   }
-  if (ctx.power.power_mode === 'higher_recipient' && /\b(must|have to|immediately)\b/i.test(text)) {
+  if (ctx.power.power_mode === 'higher_recipient' && lexicon.power.higher_recipient.test(text)) {
     violations.push('authority');
   }
 
-  // Intent preservation (very light heuristic): ensure a request verb exists for request/boundary intents
-  let intent_preserved: 'pass' | 'warn' | 'fail' = 'pass';
-  if (req.intent === 'request' || req.intent === 'boundary') {
-    if (!/\b(could you|would you|please|can you|let\'s|would it be)\b/i.test(text)) {
-      intent_preserved = 'warn';
-    }
-  }
+  // Content delta + intent preservation (deterministic, see content_delta.ts)
+  const delta = analyzeContentDelta(req.original_text, text, { target_locale: req.target_locale });
+  if (hasNewFacts(delta)) violations.push('new_fact');
+  const intent_preserved = intentPreservation(delta, req.intent);
 
   // Determine tone_safety
   const hard = violations.some((v) =>
@@ -122,6 +123,7 @@ export function evaluateRewrite(
     tone_safety,
     intent_preserved,
     violations: unique(violations),
+    detected_language: outputLanguage.detected,
     judge_version: opts.judge_version || 'v1',
     dataset_version: opts.dataset_version || 'none',
   };
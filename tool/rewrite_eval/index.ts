@@ -1,4 +1,7 @@
 import { evaluateRewrite } from './evaluator';
 export { evaluateRewrite };
+export { analyzeContentDelta } from './content_delta';
+export { checkOutputLanguage, identifyLanguage } from './language_id';
+export { DEFAULT_LEXICON_VERSION, selectLexiconPack } from './lexicon';
 
 export type EvalResult = ReturnType<typeof evaluateRewrite>;
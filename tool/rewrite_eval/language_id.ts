@@ -0,0 +1,155 @@
+/**
+ * Offline output-language identification for rewritten_text.
+ * 1) Unicode script decides non-Latin languages (Arabic, CJK, Hangul, Cyrillic, ...).
+ * 2) Latin script: stopword votes plus distinctive character trigrams for en/es/fr/de/pt/it.
+ * Returns null when the text is too short or the vote is too close: callers must not fail on null.
+ * No model, no network: same text -> same answer.
+ */
+
+export type LanguageId = {
+  language: string | null;
+  script: Script | null;
+};
+
+export type OutputLanguageCheck = {
+  detected: string | null;
+  matches: boolean;
+};
+
+type Script = 'latin' | 'arabic' | 'cjk' | 'hangul' | 'cyrillic' | 'greek' | 'hebrew' | 'thai' | 'devanagari';
+
+const MIN_LETTERS = 8;
+
+const SCRIPT_PATTERNS: [Script, RegExp][] = [
+  ['arabic', /\p{Script=Arabic}/u],
+  ['cjk', /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['thai', /\p{Script=Thai}/u],
+  ['devanagari', /\p{Script=Devanagari}/u],
+  ['latin', /\p{Script=Latin}/u],
+];
+
+// Languages written in each non-Latin script; the first is what script detection reports
+const SCRIPT_LANGUAGES: Partial<Record<Script, string[]>> = {
+  arabic: ['ar', 'fa', 'ur'],
+  cjk: ['zh', 'ja'],
+  hangul: ['ko'],
+  cyrillic: ['ru', 'uk', 'bg', 'sr', 'mk', 'be', 'kk'],
+  greek: ['el'],
+  hebrew: ['he', 'yi'],
+  thai: ['th'],
+  devanagari: ['hi', 'mr', 'ne'],
+};
+
+type LatinProfile = { stopwords: Set<string>; trigrams: string[] };
+
+const LATIN_PROFILES: Record<string, LatinProfile> = {
+  en: {
+    stopwords: new Set(['the', 'and', 'is', 'are', 'you', 'your', 'to', 'of', 'it', 'that', 'this', 'with', 'for', 'please', 'could', 'would', 'not', 'be', 'have', 'was', 'we', 'me', 'my', 'on', 'in', 'at', 'if', 'little', 'after', 'keep']),
+    trigrams: [' th', 'the', 'ing', ' yo', 'you', 'uld', ' wh', 'ght', 'ay ', 'ee '],
+  },
+  es: {
+    stopwords: new Set(['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'es', 'por', 'favor', 'para', 'con', 'no', 'una', 'un', 'lo', 'se', 'te', 'tu', 'mi', 'muy', 'más', 'pero', 'del', 'al', 'está', 'podrías', 'puedes', 'noche']),
+    trigrams: ['ión', 'ñ', 'ía ', 'ado', ' qu', 'os ', 'as ', 'ar ', 'ás ', '¿', '¡'],
+  },
+  fr: {
+    stopwords: new Set(['le', 'la', 'les', 'de', 'des', 'et', 'est', 'que', 'pas', 'pour', 'vous', 'tu', 'je', 'une', 'un', 'ce', 'dans', 'avec', 'sur', 'merci', 'plaît', 'peux', 'ne', 'du', 'au', 'très', 'pourrais', 'soir', 'nuit']),
+    trigrams: ['ous', 'ez ', 'ait', 'ais', 'eau', 'oir', 'ç', 'ê', 'è', "'", 'qu'],
+  },
+  de: {
+    stopwords: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'du', 'ich', 'bitte', 'mit', 'zu', 'den', 'ein', 'eine', 'es', 'auf', 'für', 'dass', 'wir', 'kannst', 'sie', 'mir', 'auch', 'noch', 'sehr', 'könntest', 'etwas', 'abends']),
+    trigrams: ['sch', 'ich', 'cht', 'ung', 'ß', 'ü', 'ö', 'ä', 'ein', 'tte'],
+  },
+  pt: {
+    stopwords: new Set(['o', 'os', 'as', 'de', 'que', 'e', 'é', 'não', 'por', 'favor', 'para', 'com', 'um', 'uma', 'você', 'do', 'da', 'no', 'na', 'em', 'mais', 'muito', 'pode', 'está', 'poderia', 'noite']),
+    trigrams: ['ão', 'ção', 'ões', 'nh', 'lh', 'ê', 'õ', 'ã'],
+  },
+  it: {
+    stopwords: new Set(['il', 'lo', 'la', 'le', 'di', 'che', 'e', 'è', 'non', 'per', 'favore', 'con', 'un', 'una', 'sei', 'ti', 'mi', 'del', 'della', 'nel', 'molto', 'più', 'puoi', 'sono', 'questo', 'potresti', 'sera', 'notte']),
+    trigrams: ['che', 'gli', 'zio', 'lla', 'tto', 'cci', 'ere', 'ò', 'ì'],
+  },
+};
+
+function primaryLanguage(locale: string): string {
+  return (locale || '').toLowerCase().split(/[-_]/)[0];
+}
+
+function dominantScript(text: string): { script: Script | null; letters: number } {
+  const counts = new Map<Script, number>();
+  let letters = 0;
+  for (const ch of text) {
+    if (!/\p{L}/u.test(ch)) continue;
+    letters++;
+    const hit = SCRIPT_PATTERNS.find(([, re]) => re.test(ch));
+    if (hit) counts.set(hit[0], (counts.get(hit[0]) ?? 0) + 1);
+  }
+  let best: Script | null = null;
+  let bestCount = 0;
+  for (const [script, count] of counts) {
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  }
+  // Mixed text (e.g. a name in another script) still counts if one script clearly dominates
+  return { script: bestCount * 2 > letters ? best : null, letters };
+}
+
+function identifyLatin(text: string): string | null {
+  const lower = text.toLowerCase();
+  const padded = ` ${lower.replace(/[^\p{L}'¿¡]+/gu, ' ')} `;
+  const words = lower.match(/\p{L}+/gu) || [];
+
+  const scores = Object.entries(LATIN_PROFILES).map(([lang, profile]) => {
+    let score = 0;
+    for (const w of words) if (profile.stopwords.has(w)) score += 1;
+    for (const t of profile.trigrams) if (padded.includes(t)) score += 0.5;
+    return { lang, score };
+  });
+  scores.sort((a, b) => b.score - a.score);
+
+  const [top, second] = scores;
+  if (top.score < 2 || top.score - second.score < 1) return null;
+  return top.lang;
+}
+
+export function identifyLanguage(text: string): LanguageId {
+  const { script, letters } = dominantScript(text || '');
+  if (!script) return { language: null, script: null };
+  if (script === 'cjk') {
+    // Kana only occurs in Japanese; Han alone is treated as Chinese
+    return { language: /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text) ? 'ja' : 'zh', script };
+  }
+  if (script !== 'latin') return { language: SCRIPT_LANGUAGES[script]![0], script };
+  if (letters < MIN_LETTERS) return { language: null, script };
+  return { language: identifyLatin(text), script };
+}
+
+function scriptOfLanguage(lang: string): Script {
+  for (const [script, langs] of Object.entries(SCRIPT_LANGUAGES)) {
+    if (langs!.includes(lang)) return script as Script;
+  }
+  return 'latin';
+}
+
+/**
+ * Does rewritten_text look like it is written in targetLocale?
+ * - wrong script is always a mismatch
+ * - same script: only judged when both the detection and the target are languages this module can tell apart
+ */
+export function checkOutputLanguage(text: string, targetLocale: string): OutputLanguageCheck {
+  const target = primaryLanguage(targetLocale);
+  const id = identifyLanguage(text);
+  if (!id.script) return { detected: null, matches: true };
+  if (id.script !== scriptOfLanguage(target)) return { detected: id.language ?? id.script, matches: false };
+  if (!id.language) return { detected: null, matches: true };
+  if (id.language === target) return { detected: id.language, matches: true };
+
+  const distinguishable = id.script === 'latin' ? target in LATIN_PROFILES : id.script === 'cjk';
+  // e.g. Persian vs Arabic, Dutch vs German: same script, not separable here
+  if (!distinguishable) return { detected: null, matches: true };
+  return { detected: id.language, matches: id.language === target };
+}
@@ -0,0 +1,74 @@
+/**
+ * complaint_rewrite_lexicon_v1 packs (see docs/contracts/complaints/complaint_rewrite_lexicon_v1.md).
+ * One pack per shipped locale (en, es, ar). Each pack covers the same violation codes.
+ * Locale-specific vocabulary updates are MINOR; changing what a code means needs a new version.
+ *
+ * Non-English patterns use Unicode-aware boundaries: `\b` is ASCII-only in JS regexes,
+ * so it breaks on accented Latin letters and never matches around Arabic script.
+ */
+
+import type { LexiconPack } from './types.ts';
+
+// Whole-term match on Unicode letter boundaries; `prefix` allows attached clitics (Arabic و/ف/ب/ل/ال)
+function terms(list: string[], prefix = ''): RegExp {
+  const body = list.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  return new RegExp(`(?<![\\p{L}\\p{M}])${prefix}(?:${body})(?![\\p{L}\\p{M}])`, 'iu');
+}
+
+const AR_CLITIC = '(?:و|ف|ب|ل|ال|وال|بال|لل)?';
+
+const en: LexiconPack = {
+  locale: 'en',
+  profanity: /\b(fuck|shit|damn|asshole|bitch|bastard)\b/i,
+  slurs: /\b(retard|idiot|moron)\b/i,
+  personal_attack: /\byou\b[^.!?]*(stupid|lazy|disgusting|selfish|idiot)/i,
+  authority: /(because\s+i\s*(am|\'m)\s*(the\s*)?(owner|landlord)|house rules|you must|you have to)/i,
+  preference_disclosure: /(your preferences|tailored for you|based on your answers)/i,
+  medical: /(adhd|autistic|bipolar|psychopath|crazy)/i,
+  blame: /(your fault|you always|you never)/i,
+  sarcasm: /(yeah right|sure you|of course you)/i,
+  hedge: /(maybe|perhaps|kinda|sort of|possibly)/i,
+  power: {
+    higher_sender: /\b(must|have to|rules)\b/i,
+    higher_recipient: /\b(must|have to|immediately)\b/i,
+  },
+};
+
+const es: LexiconPack = {
+  locale: 'es',
+  profanity: terms(['mierda', 'joder', 'puta', 'puto', 'carajo', 'coño', 'cabrón', 'cabron', 'pendejo', 'pendeja', 'hostia', 'chingada', 'verga', 'culero']),
+  slurs: terms(['retrasado', 'retrasada', 'subnormal', 'idiota', 'imbécil', 'imbecil', 'tarado', 'tarada', 'mongólico', 'mongolico']),
+  personal_attack:
+    /(?<![\p{L}])(eres|tú|usted|sois|ustedes)(?![\p{L}])[^.!?]*(?<![\p{L}])(estúpid[oa]s?|estupid[oa]s?|vag[oa]s?|asqueros[oa]s?|egoístas?|egoistas?|inútil(es)?|inutil(es)?|cerd[oa]s?|idiotas?)(?![\p{L}])/iu,
+  authority:
+    /(porque\s+(yo\s+)?soy\s+(el|la)\s+(dueñ[oa]|propietari[oa]|caser[oa])|reglas de la casa|normas de la casa|(?<![\p{L}])(tienes|tiene|tienen) que(?![\p{L}])|(?<![\p{L}])(debes|usted debe)(?![\p{L}]))/iu,
+  preference_disclosure: /(tus preferencias|sus preferencias|adaptado (para|a) ti|según tus respuestas|segun tus respuestas|basado en tus respuestas)/iu,
+  medical: terms(['tdah', 'autista', 'bipolar', 'psicópata', 'psicopata', 'loco', 'loca']),
+  blame: /(tu culpa|su culpa|(?<![\p{L}])(tú|tu|usted) (siempre|nunca)(?![\p{L}])|(?<![\p{L}])siempre (haces|dejas|te olvidas)|(?<![\p{L}])nunca (haces|limpias|avisas|escuchas))/iu,
+  sarcasm: /(sí,? claro|si,? claro|gracias por nada|qué sorpresa|que sorpresa|como si te importara)/iu,
+  hedge: terms(['quizás', 'quizas', 'tal vez', 'a lo mejor', 'más o menos', 'mas o menos', 'posiblemente']),
+  power: {
+    higher_sender: terms(['debes', 'tienes que', 'reglas', 'normas']),
+    higher_recipient: terms(['debes', 'tienes que', 'inmediatamente', 'ya mismo']),
+  },
+};
+
+const ar: LexiconPack = {
+  locale: 'ar',
+  profanity: terms(['شرموط', 'شرموطة', 'منيوك', 'كس', 'زب', 'خرا', 'خرة', 'يلعن', 'ابن الكلب', 'ابن الحرام'], AR_CLITIC),
+  slurs: terms(['متخلف', 'متخلفة', 'معاق', 'معاقة', 'غبي', 'غبية', 'أهبل', 'اهبل', 'حمار', 'حمارة'], AR_CLITIC),
+  personal_attack:
+    /(?<![\p{L}\p{M}])(أنت|انت|أنتِ|انتي|أنتم|انتم)(?![\p{L}\p{M}])[^.!?؟]*(غبي|كسول|مقرف|أناني|اناني|قذر|حقير)/u,
+  authority: /(لأنني|لانني|لأني|لاني)\s+(المالك|صاحب البيت|صاحبة البيت)|قواعد البيت|قوانين البيت|يجب عليك|عليك أن|عليك ان/u,
+  preference_disclosure: /(تفضيلاتك|حسب إجاباتك|حسب اجاباتك|بناءً على إجاباتك|بناء على اجاباتك|مخصص لك|مصمم لك)/u,
+  medical: terms(['مجنون', 'مجنونة', 'ثنائي القطب', 'مريض نفسي', 'مريضة نفسية', 'مختل', 'فرط الحركة', 'توحد'], AR_CLITIC),
+  blame: /(غلطتك|ذنبك|(?<![\p{L}\p{M}])(أنت|انت|أنتِ|انتي) (دائماً|دائما|دايما|أبداً|ابدا|أبدا))/u,
+  sarcasm: /(يا سلام عليك|طبعاً أنت|طبعا انت|شكراً على لا شيء|شكرا على لا شيء|برافو عليك)/u,
+  hedge: terms(['ربما', 'يمكن', 'نوعاً ما', 'نوعا ما', 'إلى حد ما', 'الى حد ما', 'قد يكون']),
+  power: {
+    higher_sender: terms(['يجب', 'لازم', 'قواعد', 'قوانين'], AR_CLITIC),
+    higher_recipient: terms(['يجب', 'لازم', 'فوراً', 'فورا', 'حالاً', 'حالا'], AR_CLITIC),
+  },
+};
+
+export const COMPLAINT_REWRITE_LEXICON_V1: Record<string, LexiconPack> = { en, es, ar };
@@ -0,0 +1,24 @@
+/**
+ * Versioned lexicon registry. The version string is the one recorded in
+ * rewrite_outputs.lexicon_version, so what the collector/worker store is what was applied.
+ * Locale selection: exact target_locale, then its primary subtag, then the version's fallback.
+ */
+
+import { COMPLAINT_REWRITE_LEXICON_V1 } from './complaint_rewrite_lexicon_v1.ts';
+import type { LexiconPack } from './types.ts';
+
+export type { LexiconPack };
+
+export const DEFAULT_LEXICON_VERSION = 'complaint_rewrite_lexicon_v1';
+
+const LEXICONS: Record<string, { fallback_locale: string; packs: Record<string, LexiconPack> }> = {
+  complaint_rewrite_lexicon_v1: { fallback_locale: 'en', packs: COMPLAINT_REWRITE_LEXICON_V1 },
+};
+
+export function selectLexiconPack(version: string, targetLocale: string): LexiconPack {
+  const lexicon = LEXICONS[version];
+  if (!lexicon) throw new Error(`unknown lexicon version: ${version}`);
+
+  const locale = (targetLocale || '').toLowerCase().replace('_', '-');
+  return lexicon.packs[locale] ?? lexicon.packs[locale.split('-')[0]] ?? lexicon.packs[lexicon.fallback_locale];
+}
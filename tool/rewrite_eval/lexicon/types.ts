@@ -0,0 +1,19 @@
+/**
+ * Shape of a per-locale lexicon pack. Every pack implements every code so the
+ * evaluator never has to branch on locale.
+ */
+
+export type LexiconPack = {
+  locale: string;
+  profanity: RegExp;
+  slurs: RegExp;
+  personal_attack: RegExp;
+  authority: RegExp;
+  preference_disclosure: RegExp;
+  medical: RegExp;
+  blame: RegExp;
+  sarcasm: RegExp;
+  hedge: RegExp;
+  // Extra authority markers depending on context_pack.power.power_mode
+  power: { higher_sender: RegExp; higher_recipient: RegExp };
+};